@@ -1,5 +1,5 @@
 import http from '@/utils/http'
-import type { SystemConfig, UpdateConfigParams } from './types'
+import type { NamingPreset, NamingTemplates, RoutingRule, SystemConfig, UpdateConfigParams } from './types'
 
 /**
  * 系统配置API服务
@@ -18,4 +18,33 @@ export class ConfigService {
   static async updateConfig(params: UpdateConfigParams): Promise<SystemConfig> {
     return http.put<SystemConfig>('/config', params)
   }
+
+  /**
+   * 获取内置命名预设
+   */
+  static async getNamingPresets(): Promise<Record<NamingPreset, NamingTemplates>> {
+    return http.get<Record<NamingPreset, NamingTemplates>>('/system/naming-presets')
+  }
+
+  /**
+   * 获取路由规则
+   */
+  static async getRoutingRules(): Promise<RoutingRule[]> {
+    return http.get<RoutingRule[]>('/system/routing-rules')
+  }
+
+  /**
+   * 更新路由规则，按数组顺序匹配
+   */
+  static async updateRoutingRules(rules: RoutingRule[]): Promise<RoutingRule[]> {
+    return http.put<RoutingRule[]>('/system/routing-rules', { rules })
+  }
+
+  /**
+   * 清除 LLM 解析结果缓存
+   * @param fileName 可选，仅清除指定文件名的缓存
+   */
+  static async invalidateLlmCache(fileName?: string): Promise<{ deletedCount: number }> {
+    return http.delete<{ deletedCount: number }>('/system/llm-cache', fileName ? { fileName } : undefined)
+  }
 }
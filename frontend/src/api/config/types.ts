@@ -1,8 +1,25 @@
+import type { LinkMode } from '../files/types'
+
+/**
+ * 内置命名预设
+ */
+export type NamingPreset = 'default' | 'plex' | 'jellyfin' | 'emby'
+
+/**
+ * 命名模板
+ */
+export interface NamingTemplates {
+  movie: string
+  tv: string
+  specialFolder: string
+}
+
 /**
  * 系统配置接口
  */
 export interface SystemConfig {
   tmdbApi: string
+  identifierStrategy: 'llm' | 'regex'
   llmProvider: 'ollama' | 'openai'
   llmHost: string
   llmModel: string
@@ -12,6 +29,11 @@ export interface SystemConfig {
   llmPrompt: string
   llmSpecialFolderPrompt: string
   persistentLogging: boolean
+  namingPreset: NamingPreset
+  // 自定义模板，为空时使用预设模板
+  namingMovieTemplate: string
+  namingTvTemplate: string
+  namingSpecialFolderTemplate: string
 }
 
 /**
@@ -19,3 +41,29 @@ export interface SystemConfig {
  * 使用 Partial<SystemConfig> 表示所有字段都是可选的
  */
 export type UpdateConfigParams = Partial<SystemConfig>
+
+/**
+ * 路由规则匹配条件
+ * 各条件之间为"且"关系，列表中的值命中任意一个即可
+ */
+export interface RoutingMatch {
+  mediaType?: 'tv' | 'movie'
+  // TMDB 类型 ID 或类型名称
+  genres?: Array<number | string>
+  originalLanguage?: string[]
+  originCountry?: string[]
+  // 源文件路径 glob 模式
+  sourcePath?: string
+  releaseGroup?: string[]
+}
+
+/**
+ * 路由规则
+ */
+export interface RoutingRule {
+  name: string
+  targetPath: string
+  match: RoutingMatch
+  // 目标目录使用的链接方式，按顺序尝试，未设置时使用全局设置
+  linkModes?: LinkMode[]
+}
@@ -7,6 +7,38 @@ export interface MediaTypeStats {
   collection: number
 }
 
+/**
+ * LLM 缓存统计
+ */
+export interface LlmCacheStats {
+  enabled: boolean
+  entries: number
+  hits: number
+  misses: number
+  hitRate: number
+}
+
+/**
+ * 按分辨率或来源统计的视频文件，无法识别的值为 null
+ */
+export interface QualityBucket {
+  value: string | null
+  count: number
+  bytes: number
+}
+
+/**
+ * 视频文件的质量分布（不含文件夹和已被替换的文件）
+ */
+export interface QualityStats {
+  totalFiles: number
+  uhdFiles: number
+  uhdPercent: number
+  hdrFiles: number
+  resolutions: QualityBucket[]
+  sources: QualityBucket[]
+}
+
 /**
  * 仪表板统计数据
  */
@@ -18,6 +50,8 @@ export interface DashboardStats {
   totalStorageTB: number
   storageUsagePercent: number
   typeStats: MediaTypeStats
+  llmCache: LlmCacheStats
+  qualityStats: QualityStats
   recentMedia: RecentMedia[]
 }
 
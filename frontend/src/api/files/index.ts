@@ -1,5 +1,13 @@
 import http from '@/utils/http'
-import type { FileInfo, FileSystemItem, RenameFileParams, LinkMediaParams } from './types'
+import type {
+  FileInfo,
+  FileSystemItem,
+  RenameFileParams,
+  LinkMediaParams,
+  ReorganizePlan,
+  ReorganizeResult,
+  SubtitleInfo
+} from './types'
 
 /**
  * 目录内容响应接口
@@ -61,4 +69,30 @@ export class FileService {
   static async updateDiscNumber(fileId: number, discNumber: number | null): Promise<FileInfo> {
     return http.patch<FileInfo>(`/files/${fileId}/disc-number`, { discNumber })
   }
+
+  /**
+   * 修改字幕语言，language 为 null 时恢复自动识别
+   */
+  static async updateSubtitleLanguage(subtitleId: number, language: string | null): Promise<SubtitleInfo> {
+    return http.patch<SubtitleInfo>(`/files/subtitles/${subtitleId}/language`, { language })
+  }
+
+  /**
+   * 预览硬链接整理计划
+   */
+  static async previewReorganize(): Promise<ReorganizePlan> {
+    return http.get<ReorganizePlan>('/files/reorganize', undefined, {
+      timeout: 60000
+    })
+  }
+
+  /**
+   * 按当前命名模板整理已有硬链接
+   * @param fileIds 可选，仅整理指定的文件
+   */
+  static async reorganize(fileIds?: number[]): Promise<ReorganizeResult> {
+    return http.post<ReorganizeResult>('/files/reorganize', { fileIds }, {}, {
+      timeout: 120000
+    })
+  }
 }
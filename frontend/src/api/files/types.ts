@@ -1,5 +1,15 @@
 import type { Media, EpisodeInfo } from '../media/types'
 
+/**
+ * 链接方式：硬链接、符号链接、写时复制克隆、复制
+ */
+export type LinkMode = 'hardlink' | 'symlink' | 'reflink' | 'copy'
+
+/**
+ * 附加内容类型，即作品目录下的子目录名
+ */
+export type ExtraType = 'extras' | 'trailers' | 'featurettes'
+
 /**
  * 数据库文件信息接口
  */
@@ -14,7 +24,7 @@ export interface FileInfo {
   createdAt: string
   mediaId?: number
   Media?: Media
-  episodeInfo?: EpisodeInfo
+  episodes?: EpisodeInfo[] // 多集文件关联多集
   // 文件/文件夹标识
   isDirectory?: boolean
   isSpecialFolder?: boolean
@@ -25,6 +35,85 @@ export interface FileInfo {
   isParentFolder?: boolean
   parentFolderId?: number | null
   childFolders?: FileInfo[]
+  // 实际使用的链接方式，为 null 时视为硬链接
+  linkMode?: LinkMode | null
+  subtitles?: SubtitleInfo[]
+  // 被更高质量的版本替换的时间和替换它的文件ID
+  supersededAt?: string | null
+  supersededById?: number | null
+  // 附加内容所在的作品子目录名，正片为 null
+  extraType?: ExtraType | null
+  // 从文件名解析的发布信息
+  resolution?: string | null // 如 2160p、1080p
+  source?: string | null // 如 bluray、web-dl
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  // 从容器头部读取的媒体信息，轨道、章节和附件为 JSON 字符串（StoredMediaInfo）
+  container?: 'matroska' | 'mp4' | null
+  duration?: number | null // 秒
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: string | null
+}
+
+/**
+ * 容器中的轨道
+ */
+export interface MediaTrack {
+  type: 'video' | 'audio' | 'subtitle'
+  codec: string | null
+  language: string | null
+  name: string | null
+  default: boolean
+  forced: boolean
+  width?: number
+  height?: number
+  hdr?: string | null
+  channels?: number
+  sampleRate?: number
+}
+
+/**
+ * 章节，start 为开始时间（秒）
+ */
+export interface MediaChapter {
+  start: number
+  title: string | null
+}
+
+/**
+ * 内嵌附件
+ */
+export interface MediaAttachment {
+  name: string
+  mimeType: string | null
+  size: number
+}
+
+/**
+ * 文件记录中保存的轨道、章节和附件
+ */
+export interface StoredMediaInfo {
+  tracks: MediaTrack[]
+  chapters: MediaChapter[]
+  attachments: MediaAttachment[]
+}
+
+/**
+ * 字幕硬链接记录
+ */
+export interface SubtitleInfo {
+  id: number
+  filePath: string
+  linkPath: string
+  // 规范化的语言标记，如 zh、zh-Hant
+  language: string | null
+  // 语言标记的来源：文件名后缀、字幕内容或手动指定
+  languageSource: 'suffix' | 'content' | 'manual' | null
+  createdAt: string
 }
 
 /**
@@ -80,3 +169,38 @@ export interface LinkMediaParams {
   isSpecialFolder?: boolean
   parentFolder?: ParentFolderInfo | null
 }
+
+/**
+ * 硬链接移动计划
+ */
+export interface ReorganizeMove {
+  fileId: number
+  from: string
+  to: string
+  isDirectory: boolean
+  moveOnDisk: boolean
+  nfo: { from: string; to: string } | null
+  subtitles: Array<{ id: number; from: string; to: string }>
+  conflict: string | null
+  // 按当前规则命中的路由规则和原记录的路由规则
+  routingRule: string | null
+  previousRule: string | null
+}
+
+/**
+ * 硬链接整理预览
+ */
+export interface ReorganizePlan {
+  moves: ReorganizeMove[]
+  unchanged: number
+  skipped: Array<{ fileId: number; linkPath: string; reason: string }>
+}
+
+/**
+ * 硬链接整理结果
+ */
+export interface ReorganizeResult {
+  moved: number
+  conflicts: number
+  removedDirectories: number
+}
@@ -6,6 +6,8 @@ export * from './config'
 export * from './logs'
 export * from './dashboard'
 export * from './scan'
+export * from './integrity'
+export * from './journal'
 
 // 导出类型
 export type * from './auth/types'
@@ -15,3 +17,5 @@ export type * from './config/types'
 export type * from './logs/types'
 export type * from './dashboard/types'
 export type * from './scan/types'
+export type * from './integrity/types'
+export type * from './journal/types'
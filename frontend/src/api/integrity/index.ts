@@ -0,0 +1,31 @@
+import http from '@/utils/http'
+import type { IntegrityRepairAction, IntegrityReport, IntegrityStatus } from './types'
+
+/**
+ * 完整性校验API服务
+ */
+export class IntegrityService {
+  /**
+   * 获取校验状态和最近一次的校验结果
+   */
+  static async getStatus(): Promise<IntegrityStatus> {
+    return http.get<IntegrityStatus>('/integrity')
+  }
+
+  /**
+   * 触发完整性校验
+   */
+  static async triggerCheck(): Promise<void> {
+    return http.post<void>('/integrity/check')
+  }
+
+  /**
+   * 修复校验发现的问题
+   * @returns 修复后的校验结果
+   */
+  static async repair(issueId: string, action: IntegrityRepairAction): Promise<IntegrityReport | null> {
+    return http.post<IntegrityReport | null>('/integrity/repair', { issueId, action }, {}, {
+      timeout: 120000
+    })
+  }
+}
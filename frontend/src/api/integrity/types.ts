@@ -0,0 +1,28 @@
+// 问题类型：源文件丢失、链接丢失、链接与源文件不一致、目标目录中没有记录的文件
+export type IntegrityIssueType = 'missing_source' | 'missing_link' | 'inode_mismatch' | 'untracked_link'
+
+// 修复操作：重新创建链接、删除数据库记录、为目标文件创建记录
+export type IntegrityRepairAction = 'relink' | 'forget' | 'adopt'
+
+export interface IntegrityIssue {
+  id: string
+  type: IntegrityIssueType
+  fileId: number | null
+  filePath: string | null
+  linkPath: string
+  isDirectory: boolean
+  detail: string
+  actions: IntegrityRepairAction[]
+}
+
+export interface IntegrityReport {
+  checkedAt: string
+  duration: number
+  checkedFiles: number
+  issues: IntegrityIssue[]
+}
+
+export interface IntegrityStatus {
+  isChecking: boolean
+  report: IntegrityReport | null
+}
@@ -0,0 +1,34 @@
+import http from '@/utils/http'
+import type { Operation, OperationGroupList, OperationSource, UndoResult } from './types'
+
+/**
+ * 操作日志API服务
+ */
+export class JournalService {
+  /**
+   * 分页获取操作日志分组
+   */
+  static async getGroups(params: {
+    page: number
+    limit: number
+    source?: OperationSource
+  }): Promise<OperationGroupList> {
+    return http.get<OperationGroupList>('/journal', params)
+  }
+
+  /**
+   * 获取分组内的操作
+   */
+  static async getOperations(groupId: number): Promise<Operation[]> {
+    return http.get<Operation[]>(`/journal/${groupId}`)
+  }
+
+  /**
+   * 撤销整组操作
+   */
+  static async undo(groupId: number): Promise<UndoResult> {
+    return http.post<UndoResult>(`/journal/${groupId}/undo`, undefined, {}, {
+      timeout: 120000
+    })
+  }
+}
@@ -0,0 +1,40 @@
+// 分组来源：队列任务、接口请求、预演计划条目、源文件变动
+export type OperationSource = 'queue' | 'api' | 'plan' | 'monitor'
+
+// 操作类型：创建链接、创建目录、写入 NFO、删除文件或目录、文件记录变更、删除媒体记录
+export type OperationType = 'link' | 'mkdir' | 'nfo' | 'delete' | 'record' | 'media'
+
+export interface OperationGroup {
+  id: number
+  source: OperationSource
+  label: string
+  taskId: number | null
+  createdAt: string
+  undoneAt: string | null
+  undoErrors: string[]
+  counts: Partial<Record<OperationType, number>>
+}
+
+export interface OperationGroupList {
+  items: OperationGroup[]
+  total: number
+  page: number
+  limit: number
+}
+
+export interface Operation {
+  id: number
+  type: OperationType
+  path: string
+  sourcePath: string | null
+  linkMode: string | null
+  isDirectory: boolean
+  recordId: number | null
+  createdAt: string
+}
+
+export interface UndoResult {
+  undone: number
+  failed: number
+  errors: string[]
+}
@@ -27,6 +27,26 @@ export interface Media {
   tvInfos?: TvInfo[]
   movieInfo?: MovieInfo
   collectionInfo?: CollectionInfo
+  // 质量升级历史，仅详情接口返回
+  qualityUpgrades?: QualityUpgrade[]
+}
+
+/**
+ * 质量升级记录，每次更高质量的版本替换已有链接时按集记录
+ */
+export interface QualityUpgrade {
+  id: number
+  mediaId: number | null
+  episodeId: number | null
+  episode: Pick<EpisodeInfo, 'seasonNumber' | 'episodeNumber'> | null
+  fromFileId: number | null
+  toFileId: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt: string
 }
 
 /**
@@ -43,7 +63,7 @@ export interface MediaFile {
   createdAt: string
   mediaId?: number
   Media?: Media
-  episode?: EpisodeInfo
+  episodes?: EpisodeInfo[] // 多集文件关联多集
   // 文件/文件夹标识
   isDirectory?: boolean
   isSpecialFolder?: boolean
@@ -74,6 +94,7 @@ export interface EpisodeInfo {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string
   releaseDate?: string
   description?: string
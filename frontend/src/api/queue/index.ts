@@ -1,11 +1,13 @@
 import http from "@/utils/http";
-import type { PaginatedResponse } from "@/types/api";
+import type { PaginatedResponse, BasePaginationParams } from "@/types/api";
 import type {
   QueueStats,
   QueueStatus,
   QueueConfig,
   ScrapingTask,
   TaskQueryParams,
+  ReviewTask,
+  ReviewSelection,
 } from "./types";
 
 /**
@@ -63,6 +65,20 @@ export class QueueService {
     return http.delete<void>(`/queue/tasks/${taskId}`);
   }
 
+  /**
+   * 获取待人工确认的任务列表
+   */
+  static async getReviewTasks(params?: BasePaginationParams): Promise<PaginatedResponse<ReviewTask>> {
+    return http.get<PaginatedResponse<ReviewTask>>("/queue/review", params);
+  }
+
+  /**
+   * 确认或覆盖待确认任务的识别结果
+   */
+  static async resolveReview(taskId: number, selection: ReviewSelection): Promise<void> {
+    return http.post<void>(`/queue/review/${taskId}/resolve`, selection);
+  }
+
   /**
    * 重试所有失败的任务
    */
@@ -8,7 +8,8 @@ export enum TaskStatus {
   RUNNING = 'RUNNING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
-  CANCELED = 'CANCELED'
+  CANCELED = 'CANCELED',
+  NEEDS_REVIEW = 'NEEDS_REVIEW'
 }
 
 /**
@@ -41,10 +42,49 @@ export interface QueueStats {
   completed: number
   failed: number
   canceled: number
+  needsReview: number
   total: number
   averageProcessingTime?: number
 }
 
+/**
+ * TMDB 候选结果
+ */
+export interface MediaCandidate {
+  type: 'tv' | 'movie'
+  tmdbId: number
+  title: string
+  originalTitle: string | null
+  releaseDate: string | null
+  posterPath: string | null
+  score: number
+  similarity: number
+  selected?: boolean
+}
+
+/**
+ * 待人工确认的任务
+ */
+export interface ReviewTask {
+  id: number
+  filePath: string
+  fileName: string
+  reason: string | null
+  candidates: MediaCandidate[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * 确认任务时选择的媒体
+ */
+export interface ReviewSelection {
+  type: 'tv' | 'movie'
+  tmdbId: number
+  seasonNumber?: number
+  episodeNumber?: number
+}
+
 /**
  * 队列配置
  */
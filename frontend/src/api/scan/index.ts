@@ -5,7 +5,9 @@ import type {
   ScanLog, 
   LibraryFile, 
   GetScanLogsParams, 
-  GetLibraryFilesParams 
+  GetLibraryFilesParams,
+  PlanStatus,
+  PlanExportFormat
 } from './types'
 import type { PaginatedResponse } from '@/types/api'
 
@@ -68,4 +70,33 @@ export class ScanService {
   static async updateScanConfig(config: Partial<ScanConfig>): Promise<ScanConfig> {
     return http.put<ScanConfig>('/scan/config', config)
   }
+
+  /**
+   * 获取预演计划状态和最近一次的计划
+   */
+  static async getPlanStatus(): Promise<PlanStatus> {
+    return http.get<PlanStatus>('/scan/plan')
+  }
+
+  /**
+   * 触发预演扫描
+   */
+  static async triggerPlan(): Promise<void> {
+    return http.post<void>('/scan/plan')
+  }
+
+  /**
+   * 执行预演计划
+   * @param entryIds 仅执行指定条目，为空时执行所有可执行的条目
+   */
+  static async applyPlan(planId: string, entryIds?: number[]): Promise<void> {
+    return http.post<void>('/scan/plan/apply', { planId, entryIds })
+  }
+
+  /**
+   * 导出预演计划
+   */
+  static async exportPlan(format: PlanExportFormat): Promise<{ fileName: string; content: string }> {
+    return http.get<{ fileName: string; content: string }>('/scan/plan/export', { format })
+  }
 }
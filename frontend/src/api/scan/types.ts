@@ -1,20 +1,41 @@
+import type { LinkMode } from '../files/types'
+
 export interface ScanConfig {
   enabled: boolean
   interval: number // 间隔时间(分钟)
   concurrency: number
 }
 
+export interface LibraryStats {
+  total: number
+  videoCount: number
+  subtitleCount: number
+  pending: number
+  processed: number
+  error: number
+  ignored: number
+}
+
+// 单个媒体库（监听目录）的统计信息
+export interface LibraryRootStatus {
+  name: string
+  monitorPath: string
+  targetPath: string
+  mediaType: 'tv' | 'movie' | null
+  stats: LibraryStats
+  lastScan: {
+    scanTime: string
+    filesFound: number
+    filesAdded: number
+    duration: number
+    status: string
+  } | null
+}
+
 export interface ScanStatus {
   isScanning: boolean
-  stats: {
-    total: number
-    videoCount: number
-    subtitleCount: number
-    pending: number
-    processed: number
-    error: number
-    ignored: number
-  }
+  stats: LibraryStats
+  libraries: LibraryRootStatus[]
 }
 
 export interface ScanLog {
@@ -53,3 +74,64 @@ export interface GetLibraryFilesParams {
   type?: string
   status?: string
 }
+
+// 预演计划条目状态
+export type PlanEntryStatus = 'ready' | 'conflict' | 'needs_review' | 'duplicate' | 'unidentified' | 'ignored' | 'error'
+
+// 计划创建的链接
+export interface PlanLink {
+  kind: 'file' | 'folder'
+  sourcePath: string
+  linkPath: string
+  nfoPath: string | null
+  routingRule: string | null
+  linkModes: LinkMode[]
+  subtitles: Array<{
+    sourcePath: string
+    linkPath: string
+    language: string | null
+  }>
+  // 质量升级时被替换的已有版本的源文件路径
+  replaces: string[]
+}
+
+// 预演计划条目，每个源文件或特殊文件夹一条
+export interface PlanEntry {
+  id: number
+  sourcePath: string
+  isDirectory: boolean
+  status: PlanEntryStatus
+  message: string | null
+  media: {
+    type: 'movie' | 'tv' | 'collection'
+    tmdbId: number
+    title: string
+    year: number | null
+    seasonNumber?: number
+    episodeNumber?: number
+    episodeNumberEnd?: number
+  } | null
+  strategy: string | null
+  confidence: number | null
+  links: PlanLink[]
+  conflicts: string[]
+  applied: { success: boolean; fileId?: number; error?: string } | null
+}
+
+export interface ExecutionPlan {
+  id: string
+  createdAt: string
+  duration: number
+  entries: PlanEntry[]
+  errors: string[]
+  appliedAt: string | null
+}
+
+export interface PlanStatus {
+  isPlanning: boolean
+  isApplying: boolean
+  progress: { processed: number; total: number }
+  plan: ExecutionPlan | null
+}
+
+export type PlanExportFormat = 'json' | 'csv'
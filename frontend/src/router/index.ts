@@ -106,6 +106,45 @@ const router = createRouter({
             componentName: 'ScanManagement'
           }
         },
+        // 预演计划路由
+        {
+          path: 'plan',
+          name: 'plan',
+          component: () => import('../views/scan/PlanView.vue'),
+          meta: {
+            title: '预演计划',
+            icon: 'Tickets',
+            showInMenu: true,
+            keepAlive: true,
+            componentName: 'PlanView'
+          }
+        },
+        // 完整性校验路由
+        {
+          path: 'integrity',
+          name: 'integrity',
+          component: () => import('../views/integrity/IntegrityView.vue'),
+          meta: {
+            title: '完整性校验',
+            icon: 'CircleCheck',
+            showInMenu: true,
+            keepAlive: true,
+            componentName: 'IntegrityView'
+          }
+        },
+        // 操作日志路由
+        {
+          path: 'journal',
+          name: 'journal',
+          component: () => import('../views/journal/JournalView.vue'),
+          meta: {
+            title: '操作日志',
+            icon: 'RefreshLeft',
+            showInMenu: true,
+            keepAlive: true,
+            componentName: 'JournalView'
+          }
+        },
         // 日志管理路由
         {
           path: 'logs',
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "LlmCache" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "cache_key" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "prompt_hash" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "result" TEXT NOT NULL,
+    "hit_count" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" DATETIME NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmCache_cache_key_key" ON "LlmCache"("cache_key");
+
+-- CreateIndex
+CREATE INDEX "LlmCache_prompt_hash_model_idx" ON "LlmCache"("prompt_hash", "model");
+
+-- CreateIndex
+CREATE INDEX "LlmCache_expires_at_idx" ON "LlmCache"("expires_at");
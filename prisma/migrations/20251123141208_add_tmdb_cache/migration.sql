@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "TmdbCache" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "cache_key" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "params" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "expires_at" DATETIME NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TmdbCache_cache_key_key" ON "TmdbCache"("cache_key");
+
+-- CreateIndex
+CREATE INDEX "TmdbCache_endpoint_idx" ON "TmdbCache"("endpoint");
+
+-- CreateIndex
+CREATE INDEX "TmdbCache_expires_at_idx" ON "TmdbCache"("expires_at");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Queue" ADD COLUMN "candidates" TEXT;
+ALTER TABLE "Queue" ADD COLUMN "review_selection" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EpisodeInfo" ADD COLUMN "absolute_number" INTEGER;
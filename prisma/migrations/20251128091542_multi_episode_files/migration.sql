@@ -0,0 +1,59 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_EpisodeInfo" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "tmdb_id" INTEGER NOT NULL,
+    "season_number" INTEGER NOT NULL,
+    "episode_number" INTEGER NOT NULL,
+    "absolute_number" INTEGER,
+    "title" TEXT,
+    "release_date" DATETIME,
+    "description" TEXT,
+    "poster_url" TEXT,
+    "tvInfoId" INTEGER,
+    "file_id" INTEGER,
+    CONSTRAINT "EpisodeInfo_tvInfoId_fkey" FOREIGN KEY ("tvInfoId") REFERENCES "TvInfo" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "EpisodeInfo_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "File" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- 将原 File.episode_info_id 的关联迁移到 EpisodeInfo.file_id
+INSERT INTO "new_EpisodeInfo" ("absolute_number", "description", "episode_number", "file_id", "id", "poster_url", "release_date", "season_number", "title", "tmdb_id", "tvInfoId") SELECT "absolute_number", "description", "episode_number", (SELECT "id" FROM "File" WHERE "File"."episode_info_id" = "EpisodeInfo"."id"), "id", "poster_url", "release_date", "season_number", "title", "tmdb_id", "tvInfoId" FROM "EpisodeInfo";
+DROP TABLE "EpisodeInfo";
+ALTER TABLE "new_EpisodeInfo" RENAME TO "EpisodeInfo";
+CREATE UNIQUE INDEX "EpisodeInfo_tmdb_id_key" ON "EpisodeInfo"("tmdb_id");
+CREATE INDEX "EpisodeInfo_file_id_idx" ON "EpisodeInfo"("file_id");
+CREATE TABLE "new_File" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "device_id" BIGINT NOT NULL,
+    "inode" BIGINT NOT NULL,
+    "file_hash" TEXT,
+    "file_size" BIGINT NOT NULL,
+    "file_path" TEXT NOT NULL,
+    "link_path" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "is_directory" BOOLEAN NOT NULL DEFAULT false,
+    "is_special_folder" BOOLEAN NOT NULL DEFAULT false,
+    "folder_type" TEXT,
+    "is_multi_disc" BOOLEAN NOT NULL DEFAULT false,
+    "disc_number" INTEGER,
+    "is_parent_folder" BOOLEAN NOT NULL DEFAULT false,
+    "parent_folder_id" INTEGER,
+    "mediaId" INTEGER,
+    CONSTRAINT "File_parent_folder_id_fkey" FOREIGN KEY ("parent_folder_id") REFERENCES "File" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "File_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "Media" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_File" ("created_at", "device_id", "disc_number", "file_hash", "file_path", "file_size", "folder_type", "id", "inode", "is_directory", "is_multi_disc", "is_parent_folder", "is_special_folder", "link_path", "mediaId", "parent_folder_id") SELECT "created_at", "device_id", "disc_number", "file_hash", "file_path", "file_size", "folder_type", "id", "inode", "is_directory", "is_multi_disc", "is_parent_folder", "is_special_folder", "link_path", "mediaId", "parent_folder_id" FROM "File";
+DROP TABLE "File";
+ALTER TABLE "new_File" RENAME TO "File";
+CREATE UNIQUE INDEX "File_file_path_key" ON "File"("file_path");
+CREATE UNIQUE INDEX "File_link_path_key" ON "File"("link_path");
+CREATE INDEX "File_file_hash_idx" ON "File"("file_hash");
+CREATE INDEX "File_is_directory_idx" ON "File"("is_directory");
+CREATE INDEX "File_is_special_folder_idx" ON "File"("is_special_folder");
+CREATE INDEX "File_folder_type_idx" ON "File"("folder_type");
+CREATE INDEX "File_is_multi_disc_disc_number_idx" ON "File"("is_multi_disc", "disc_number");
+CREATE INDEX "File_is_parent_folder_idx" ON "File"("is_parent_folder");
+CREATE INDEX "File_parent_folder_id_idx" ON "File"("parent_folder_id");
+CREATE UNIQUE INDEX "File_device_id_inode_key" ON "File"("device_id", "inode");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "Subtitle" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "file_path" TEXT NOT NULL,
+    "link_path" TEXT NOT NULL,
+    "language" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "file_id" INTEGER NOT NULL,
+    CONSTRAINT "Subtitle_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "File" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Subtitle_file_path_key" ON "Subtitle"("file_path");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Subtitle_link_path_key" ON "Subtitle"("link_path");
+
+-- CreateIndex
+CREATE INDEX "Subtitle_file_id_idx" ON "Subtitle"("file_id");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Subtitle" ADD COLUMN "language_source" TEXT;
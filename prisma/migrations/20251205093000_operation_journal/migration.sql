@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "OperationGroup" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "source" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "task_id" INTEGER,
+    "undone_at" DATETIME,
+    "undo_errors" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Operation" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "type" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "source_path" TEXT,
+    "link_mode" TEXT,
+    "device_id" BIGINT,
+    "inode" BIGINT,
+    "is_directory" BOOLEAN NOT NULL DEFAULT false,
+    "record_id" INTEGER,
+    "snapshot" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_id" INTEGER NOT NULL,
+    CONSTRAINT "Operation_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "OperationGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OperationGroup_created_at_idx" ON "OperationGroup"("created_at");
+
+-- CreateIndex
+CREATE INDEX "OperationGroup_task_id_idx" ON "OperationGroup"("task_id");
+
+-- CreateIndex
+CREATE INDEX "Operation_group_id_idx" ON "Operation"("group_id");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN "resolution" TEXT;
+ALTER TABLE "File" ADD COLUMN "source" TEXT;
+ALTER TABLE "File" ADD COLUMN "video_codec" TEXT;
+ALTER TABLE "File" ADD COLUMN "hdr_format" TEXT;
+ALTER TABLE "File" ADD COLUMN "audio_codec" TEXT;
+ALTER TABLE "File" ADD COLUMN "release_group" TEXT;
+
+-- CreateIndex
+CREATE INDEX "File_resolution_idx" ON "File"("resolution");
+
+-- CreateIndex
+CREATE INDEX "File_source_idx" ON "File"("source");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN "container" TEXT;
+ALTER TABLE "File" ADD COLUMN "duration" REAL;
+ALTER TABLE "File" ADD COLUMN "width" INTEGER;
+ALTER TABLE "File" ADD COLUMN "height" INTEGER;
+ALTER TABLE "File" ADD COLUMN "media_info" TEXT;
+ALTER TABLE "File" ADD COLUMN "probed_at" DATETIME;
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "ExecutionPlan" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "entries" TEXT NOT NULL,
+    "tasks" TEXT NOT NULL,
+    "errors" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "applied_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -3,6 +3,7 @@ import express from "express";
 import cors from "cors";
 import routers from "@/routes";
 import { authenticateToken } from "@/middleware/auth.middleware";
+import { journalRequest } from "@/middleware/journal.middleware";
 import { isDevelopment } from "@/config/env";
 
 const app = express();
@@ -48,6 +49,9 @@ app.use("/api", (req, res, next) => {
   authenticateToken(req, res, next);
 });
 
+// 按请求记录操作日志
+app.use("/api", journalRequest);
+
 app.use("/api", routers);
 
 export default app;
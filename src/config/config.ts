@@ -3,6 +3,7 @@ import path from "path";
 import { QueueConfig } from "@/types/queue.types";
 import { logger } from "@/utils/logger";
 import { isDevelopment } from '@/config/env';
+import { validateNamingTemplate } from "@/core/fileManage/naming";
 
 /**
  * 扫描配置接口
@@ -14,17 +15,222 @@ export interface ScanConfig {
   scanMaxDepth: number; // 扫描最大深度，用于特殊文件夹结构识别
 }
 
+/**
+ * 完整性校验配置接口
+ */
+export interface IntegrityCheckConfig {
+  enabled: boolean;
+  interval: number; // 间隔时间(小时)
+}
+
+/**
+ * LLM 解析结果缓存配置接口
+ */
+export interface LlmCacheConfig {
+  enabled: boolean;
+  ttl: number; // 缓存有效期(小时)
+}
+
+/**
+ * 支持缓存的 TMDB 接口
+ */
+export type TmdbCacheEndpoint =
+  | "searchTv"
+  | "searchMovie"
+  | "searchCollection"
+  | "tvInfo"
+  | "seasonInfo"
+  | "movieInfo"
+  | "episodeGroups"
+  | "episodeGroup";
+
+/**
+ * TMDB 响应缓存配置接口
+ */
+export interface TmdbCacheConfig {
+  enabled: boolean;
+  offline: boolean; // 离线模式，只从缓存读取，不请求TMDB
+  ttl?: Partial<Record<TmdbCacheEndpoint, number>>; // 各接口缓存有效期(小时)
+}
+
+/**
+ * 媒体识别策略
+ */
+export type IdentifierStrategy = "llm" | "regex" | "folder";
+
+/**
+ * 识别器链配置接口
+ */
+export interface IdentifierChainConfig {
+  strategies: IdentifierStrategy[]; // 按顺序执行的识别策略
+  confidenceThreshold: number; // 置信度阈值(0-1)，达到后不再执行后续策略
+}
+
+/**
+ * 人工确认配置接口
+ */
+export interface ReviewConfig {
+  enabled: boolean;
+  minSimilarity: number; // 标题相似度低于该值时需要人工确认(0-1)
+  closeMargin: number; // 候选结果评分差距小于该值时需要人工确认(0-1)
+  maxCandidates: number; // 保留的候选结果数量
+}
+
+/**
+ * 时长校验配置接口
+ * 识别后比较视频时长和 TMDB 的片长或单集时长，发现样片、预告片、片头片尾（NCOP/NCED）和识别错误
+ */
+export interface DurationCheckConfig {
+  enabled: boolean;
+  tolerance: number; // 时长与 TMDB 片长相差超过该比例时视为不符(0-1)，如 0.5 表示短于一半或长于 1.5 倍
+  clipAction: "review" | "extras"; // 明显短于正片的片段转为人工确认，或链接到作品目录的 extras 子目录
+}
+
+/**
+ * 附加内容识别配置接口
+ * 识别前按文件名和所在目录找出样片、预告片、片头片尾（NCOP/NCED）和花絮，样片和菜单跳过，其余链接到作品目录的子目录
+ */
+export interface ExtrasConfig {
+  enabled: boolean;
+  maxDuration: number; // 文件名匹配时，时长不超过该值(秒)才视为附加内容，避免误判标题中包含这些词的正片
+  maxSize: number; // 文件名匹配且无法读取时长时，大小不超过该值(MB)才视为附加内容
+}
+
+/**
+ * 链接方式：硬链接、符号链接、写时复制克隆、复制（校验哈希）
+ */
+export type LinkMode = "hardlink" | "symlink" | "reflink" | "copy";
+
+export const LINK_MODES: LinkMode[] = ["hardlink", "symlink", "reflink", "copy"];
+
+/**
+ * 源文件删除后对链接的处理：保留、删除、移动到回收目录
+ */
+export type SourceRemovalAction = "keep" | "remove" | "trash";
+
+/**
+ * 源文件删除处理配置接口
+ */
+export type SourceRemovalConfig =
+  | { action: Exclude<SourceRemovalAction, "trash"> }
+  | { action: "trash"; trashPath: string }; // 回收目录
+
+/**
+ * 质量比较项：分辨率、来源、修订版本（REPACK/PROPER/v2）
+ */
+export type QualityCriterion = "resolution" | "source" | "revision";
+
+export const QUALITY_CRITERIA: QualityCriterion[] = ["resolution", "source", "revision"];
+
+// 可识别的分辨率和来源，同时也是默认排序
+export const QUALITY_RESOLUTIONS = ["2160p", "1080p", "720p", "576p", "480p"];
+export const QUALITY_SOURCES = ["remux", "bluray", "web-dl", "webrip", "hdtv", "dvd"];
+
+/**
+ * 重复文件检测和质量升级配置接口
+ * 分辨率和来源按列表顺序从高到低排列，未列出或无法识别的视为最低
+ */
+export interface QualityUpgradeConfig {
+  enabled: boolean;
+  order?: QualityCriterion[]; // 比较顺序，默认 resolution、source、revision
+  resolutions?: string[]; // 分辨率排序，默认 2160p、1080p、720p、576p、480p
+  sources?: string[]; // 来源排序，默认 remux、bluray、web-dl、webrip、hdtv、dvd
+}
+
+/**
+ * 内置命名预设
+ */
+export type NamingPreset = "default" | "plex" | "jellyfin" | "emby";
+
+/**
+ * 命名模板配置接口
+ * 模板为空时使用预设中对应的模板
+ */
+export interface NamingConfig {
+  preset: NamingPreset;
+  movie?: string; // 电影目标路径模板，最后一段为文件名
+  tv?: string; // 剧集目标路径模板，最后一段为文件名
+  specialFolder?: string; // 特殊文件夹（BDMV/DVD/ISO）目标目录模板
+}
+
+/**
+ * 媒体库（监听目录）配置接口
+ * 未设置的项使用全局配置
+ */
+export interface LibraryRootConfig {
+  name: string; // 媒体库名称，用于日志和扫描统计
+  monitorPath: string; // 监听目录
+  targetPath: string; // 硬链接目标目录
+  naming?: NamingConfig; // 命名模板
+  scanMaxDepth?: number; // 特殊文件夹扫描最大深度
+  ignore?: string[]; // 忽略规则，相对于监听目录的 glob 模式
+  mediaType?: "tv" | "movie"; // 默认媒体类型，识别时只搜索该类型
+  linkModes?: LinkMode[]; // 链接方式，按顺序尝试，前一种失败时使用下一种
+}
+
+/**
+ * 路由规则的匹配条件
+ * 各条件之间为"且"关系，列表中的值命中任意一个即可，未设置的条件不参与匹配
+ */
+export interface RoutingMatch {
+  mediaType?: "tv" | "movie"; // 媒体类型
+  genres?: Array<number | string>; // TMDB 类型，数字为类型 ID，字符串为类型名称
+  originalLanguage?: string[]; // 原始语言，如 "ja"
+  originCountry?: string[]; // 出品国家/地区，如 "JP"
+  sourcePath?: string; // 源文件路径 glob 模式
+  releaseGroup?: string[]; // 发布组
+}
+
+/**
+ * 路由规则配置接口
+ */
+export interface RoutingRule {
+  name: string; // 规则名称，保存在文件记录中
+  targetPath: string; // 命中规则时使用的硬链接目标目录
+  match: RoutingMatch;
+  linkModes?: LinkMode[]; // 目标目录使用的链接方式，未设置时使用全局设置
+}
+
 /**
  * 配置文件接口定义
  */
 export interface Config {
+  // 配置 libraries 时可省略，默认取第一个媒体库的目录
   monitorFilePath: string;
   targetFilePath: string;
+  // 多个媒体库，配置后替代 monitorFilePath / targetFilePath
+  libraries?: LibraryRootConfig[];
+  // 路由规则，识别后按顺序匹配，命中的第一条规则决定目标目录
+  routingRules?: RoutingRule[];
+  // 链接方式，按顺序尝试，默认只使用硬链接
+  linkModes?: LinkMode[];
+  // 源文件删除后对链接的处理，默认保留链接
+  sourceRemoval?: SourceRemovalConfig;
+  // 同一集或电影出现多个版本时按质量保留一个，默认禁用
+  qualityUpgrade?: QualityUpgradeConfig;
   tmdbApi: string;
   language: string;
+  // TMDB 响应缓存配置
+  tmdbCache?: TmdbCacheConfig;
   videoExtensions: string[];
   subtitleExtensions: string[];
   scanConfig: ScanConfig;
+  // 定期校验文件记录与链接是否一致，默认禁用
+  integrityCheck?: IntegrityCheckConfig;
+  // 特别篇（第 0 季）目录名，默认为 "Season 00"
+  specialsFolderName?: string;
+  // 目标路径命名模板，默认保持原有命名方式
+  naming?: NamingConfig;
+  // 媒体识别策略，默认为 llm
+  identifierStrategy?: "llm" | "regex";
+  // 识别器链，配置后优先于 identifierStrategy
+  identifierChain?: IdentifierChainConfig;
+  // 识别结果不确定时转为人工确认
+  review?: ReviewConfig;
+  // 识别后比较视频时长和 TMDB 片长，默认禁用
+  durationCheck?: DurationCheckConfig;
+  // 识别样片、预告片、片头片尾等附加内容，默认启用
+  extras?: ExtrasConfig;
   // LLM相关配置
   llmProvider?: "ollama" | "openai";
   llmHost?: string;
@@ -32,6 +238,8 @@ export interface Config {
   openaiApiKey?: string;
   openaiModel?: string;
   openaiBaseUrl?: string;
+  // LLM 解析结果缓存配置
+  llmCache?: LlmCacheConfig;
   // 日志配置
   persistentLogging: boolean;
   // 队列配置
@@ -41,6 +249,167 @@ export interface Config {
 // 缓存配置，避免重复读取
 let cachedConfig: Config | null = null;
 
+/**
+ * 验证命名模板配置
+ * @param field 配置项名称，用于错误信息
+ */
+function validateNaming(naming: any, field: string) {
+  if (!["default", "plex", "jellyfin", "emby"].includes(naming.preset)) {
+    throw new Error(`配置文件中的 ${field}.preset 字段必须是 default、plex、jellyfin 或 emby`);
+  }
+  for (const key of ["movie", "tv", "specialFolder"]) {
+    const template = naming[key];
+    if (template === undefined) continue;
+    const error = typeof template === "string" ? validateNamingTemplate(template) : "必须是字符串";
+    if (error) {
+      throw new Error(`配置文件中的 ${field}.${key} 字段${error}`);
+    }
+  }
+}
+
+/**
+ * 验证链接方式配置
+ * @param field 配置项名称，用于错误信息
+ */
+function validateLinkModes(modes: any, field: string) {
+  if (!Array.isArray(modes) || modes.length === 0) {
+    throw new Error(`配置文件中的 ${field} 字段必须是非空数组`);
+  }
+  const invalid = modes.filter((mode: unknown) => !LINK_MODES.includes(mode as LinkMode));
+  if (invalid.length > 0) {
+    throw new Error(`配置文件中的 ${field} 包含无效链接方式: ${invalid.join(", ")}`);
+  }
+  if (new Set(modes).size !== modes.length) {
+    throw new Error(`配置文件中的 ${field} 字段不能包含重复的链接方式`);
+  }
+}
+
+/**
+ * 验证重复文件检测和质量升级配置
+ */
+function validateQualityUpgrade(quality: any) {
+  if (!quality || typeof quality !== "object" || Array.isArray(quality)) {
+    throw new Error("配置文件中的 qualityUpgrade 字段必须是对象");
+  }
+  if (typeof quality.enabled !== "boolean") {
+    throw new Error("配置文件中的 qualityUpgrade.enabled 字段必须是布尔值");
+  }
+
+  const lists: Array<[string, readonly string[]]> = [
+    ["order", QUALITY_CRITERIA],
+    ["resolutions", QUALITY_RESOLUTIONS],
+    ["sources", QUALITY_SOURCES],
+  ];
+  for (const [key, allowed] of lists) {
+    const values = quality[key];
+    if (values === undefined) continue;
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new Error(`配置文件中的 qualityUpgrade.${key} 字段必须是非空数组`);
+    }
+    const invalid = values.filter((value: unknown) => !allowed.includes(value as string));
+    if (invalid.length > 0) {
+      throw new Error(`配置文件中的 qualityUpgrade.${key} 包含无效值: ${invalid.join(", ")}，可选值: ${allowed.join(", ")}`);
+    }
+    if (new Set(values).size !== values.length) {
+      throw new Error(`配置文件中的 qualityUpgrade.${key} 字段不能包含重复的值`);
+    }
+  }
+}
+
+/**
+ * 验证媒体库配置
+ */
+function validateLibraries(libraries: any) {
+  if (!Array.isArray(libraries) || libraries.length === 0) {
+    throw new Error("配置文件中的 libraries 字段必须是非空数组");
+  }
+
+  const names = new Set<string>();
+  libraries.forEach((library, index) => {
+    const field = `libraries[${index}]`;
+    if (typeof library.name !== "string" || !library.name.trim()) {
+      throw new Error(`配置文件中的 ${field}.name 字段必须是非空字符串`);
+    }
+    if (names.has(library.name)) {
+      throw new Error(`配置文件中的媒体库名称重复: ${library.name}`);
+    }
+    names.add(library.name);
+
+    if (typeof library.monitorPath !== "string" || !library.monitorPath) {
+      throw new Error(`配置文件中的 ${field}.monitorPath 字段必须是非空字符串`);
+    }
+    if (typeof library.targetPath !== "string" || !library.targetPath) {
+      throw new Error(`配置文件中的 ${field}.targetPath 字段必须是非空字符串`);
+    }
+    if (library.naming !== undefined) {
+      validateNaming(library.naming, `${field}.naming`);
+    }
+    if (library.scanMaxDepth !== undefined && (!Number.isInteger(library.scanMaxDepth) || library.scanMaxDepth < 1)) {
+      throw new Error(`配置文件中的 ${field}.scanMaxDepth 字段必须是大于等于1的整数`);
+    }
+    if (library.ignore !== undefined && (!Array.isArray(library.ignore) || library.ignore.some((p: unknown) => typeof p !== "string" || !p))) {
+      throw new Error(`配置文件中的 ${field}.ignore 字段必须是非空字符串数组`);
+    }
+    if (library.mediaType !== undefined && !["tv", "movie"].includes(library.mediaType)) {
+      throw new Error(`配置文件中的 ${field}.mediaType 字段必须是 tv 或 movie`);
+    }
+    if (library.linkModes !== undefined) {
+      validateLinkModes(library.linkModes, `${field}.linkModes`);
+    }
+  });
+}
+
+/**
+ * 验证路由规则配置
+ */
+function validateRoutingRules(rules: any) {
+  if (!Array.isArray(rules)) {
+    throw new Error("配置文件中的 routingRules 字段必须是数组");
+  }
+
+  const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.length > 0 && value.every(item => typeof item === "string" && item.trim());
+
+  const names = new Set<string>();
+  rules.forEach((rule, index) => {
+    const field = `routingRules[${index}]`;
+    if (typeof rule.name !== "string" || !rule.name.trim()) {
+      throw new Error(`配置文件中的 ${field}.name 字段必须是非空字符串`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`配置文件中的路由规则名称重复: ${rule.name}`);
+    }
+    names.add(rule.name);
+
+    if (typeof rule.targetPath !== "string" || !rule.targetPath) {
+      throw new Error(`配置文件中的 ${field}.targetPath 字段必须是非空字符串`);
+    }
+
+    const match = rule.match;
+    if (!match || typeof match !== "object" || Array.isArray(match)) {
+      throw new Error(`配置文件中的 ${field}.match 字段必须是对象`);
+    }
+    if (match.mediaType !== undefined && !["tv", "movie"].includes(match.mediaType)) {
+      throw new Error(`配置文件中的 ${field}.match.mediaType 字段必须是 tv 或 movie`);
+    }
+    if (match.genres !== undefined && (!Array.isArray(match.genres) || match.genres.length === 0
+      || match.genres.some((genre: unknown) => !(Number.isInteger(genre) || (typeof genre === "string" && genre.trim()))))) {
+      throw new Error(`配置文件中的 ${field}.match.genres 字段必须是类型 ID 或类型名称组成的非空数组`);
+    }
+    for (const key of ["originalLanguage", "originCountry", "releaseGroup"]) {
+      if (match[key] !== undefined && !isStringList(match[key])) {
+        throw new Error(`配置文件中的 ${field}.match.${key} 字段必须是非空字符串数组`);
+      }
+    }
+    if (match.sourcePath !== undefined && (typeof match.sourcePath !== "string" || !match.sourcePath)) {
+      throw new Error(`配置文件中的 ${field}.match.sourcePath 字段必须是非空字符串`);
+    }
+    if (rule.linkModes !== undefined) {
+      validateLinkModes(rule.linkModes, `${field}.linkModes`);
+    }
+  });
+}
+
 /**
  * 读取配置文件
  * @param configPath 配置文件路径，默认为项目根目录下的config.json
@@ -69,6 +438,12 @@ export function getConfig(
     const config = JSON.parse(rawConfig);
 
     // 验证必要的配置项
+    if (config.libraries !== undefined) {
+      validateLibraries(config.libraries);
+      config.monitorFilePath ??= config.libraries[0].monitorPath;
+      config.targetFilePath ??= config.libraries[0].targetPath;
+    }
+
     if (!config.monitorFilePath) {
       throw new Error("配置文件缺少 monitorFilePath 字段");
     }
@@ -113,8 +488,70 @@ export function getConfig(
       throw new Error("配置文件中的 scanConfig.scanMaxDepth 字段必须是大于等于1的数字");
     }
 
-    // LLM 配置验证
-    if (!config.llmProvider) {
+    if (config.integrityCheck !== undefined) {
+      if (typeof config.integrityCheck.enabled !== "boolean") {
+        throw new Error("配置文件中的 integrityCheck.enabled 字段必须是布尔值");
+      }
+      if (typeof config.integrityCheck.interval !== "number" || config.integrityCheck.interval < 1) {
+        throw new Error("配置文件中的 integrityCheck.interval 字段必须是大于等于1的数字(小时)");
+      }
+    }
+
+    if (config.specialsFolderName !== undefined) {
+      if (typeof config.specialsFolderName !== "string" || !config.specialsFolderName.trim() || /[\\/]/.test(config.specialsFolderName)) {
+        throw new Error("配置文件中的 specialsFolderName 字段必须是不包含路径分隔符的非空字符串");
+      }
+    }
+
+    if (config.naming !== undefined) {
+      validateNaming(config.naming, "naming");
+    }
+
+    if (config.routingRules !== undefined) {
+      validateRoutingRules(config.routingRules);
+    }
+
+    if (config.linkModes !== undefined) {
+      validateLinkModes(config.linkModes, "linkModes");
+    }
+
+    if (config.sourceRemoval !== undefined) {
+      if (!["keep", "remove", "trash"].includes(config.sourceRemoval.action)) {
+        throw new Error("配置文件中的 sourceRemoval.action 字段必须是 keep、remove 或 trash");
+      }
+      if (config.sourceRemoval.action === "trash" && (typeof config.sourceRemoval.trashPath !== "string" || !config.sourceRemoval.trashPath)) {
+        throw new Error("配置文件中的 sourceRemoval.action 为 trash 时必须设置 trashPath");
+      }
+    }
+
+    if (config.qualityUpgrade !== undefined) {
+      validateQualityUpgrade(config.qualityUpgrade);
+    }
+
+    // 识别策略验证
+    if (config.identifierStrategy !== undefined && !["llm", "regex"].includes(config.identifierStrategy)) {
+      throw new Error("配置文件中的 identifierStrategy 字段必须是 llm 或 regex");
+    }
+
+    if (config.identifierChain !== undefined) {
+      const chain = config.identifierChain;
+      if (!Array.isArray(chain.strategies) || chain.strategies.length === 0) {
+        throw new Error("配置文件中的 identifierChain.strategies 字段必须是非空数组");
+      }
+      const invalid = chain.strategies.filter((s: unknown) => !["llm", "regex", "folder"].includes(s as string));
+      if (invalid.length > 0) {
+        throw new Error(`配置文件中的 identifierChain.strategies 包含无效策略: ${invalid.join(", ")}`);
+      }
+      if (typeof chain.confidenceThreshold !== "number" || chain.confidenceThreshold < 0 || chain.confidenceThreshold > 1) {
+        throw new Error("配置文件中的 identifierChain.confidenceThreshold 字段必须是0到1之间的数字");
+      }
+    }
+
+    // LLM 配置验证（未使用 LLM 识别策略时可省略）
+    const usesLlm = config.identifierChain
+      ? config.identifierChain.strategies.includes("llm")
+      : config.identifierStrategy !== "regex";
+    if (!config.llmProvider && usesLlm) {
       throw new Error("必须指定 llmProvider (ollama 或 openai)");
     }
     if (config.llmProvider === "ollama" && (!config.llmHost || !config.llmModel)) {
@@ -124,17 +561,85 @@ export function getConfig(
       throw new Error("OpenAI配置不完整，需要 openaiApiKey 和 openaiModel");
     }
 
+    if (config.tmdbCache !== undefined) {
+      if (typeof config.tmdbCache.enabled !== "boolean") {
+        throw new Error("配置文件中的 tmdbCache.enabled 字段必须是布尔值");
+      }
+      if (typeof config.tmdbCache.offline !== "boolean") {
+        throw new Error("配置文件中的 tmdbCache.offline 字段必须是布尔值");
+      }
+      for (const [endpoint, ttl] of Object.entries(config.tmdbCache.ttl ?? {})) {
+        if (typeof ttl !== "number" || ttl <= 0) {
+          throw new Error(`配置文件中的 tmdbCache.ttl.${endpoint} 字段必须是大于0的数字(小时)`);
+        }
+      }
+    }
+
+    if (config.review !== undefined) {
+      const review = config.review;
+      if (typeof review.enabled !== "boolean") {
+        throw new Error("配置文件中的 review.enabled 字段必须是布尔值");
+      }
+      if (typeof review.minSimilarity !== "number" || review.minSimilarity < 0 || review.minSimilarity > 1) {
+        throw new Error("配置文件中的 review.minSimilarity 字段必须是0到1之间的数字");
+      }
+      if (typeof review.closeMargin !== "number" || review.closeMargin < 0 || review.closeMargin > 1) {
+        throw new Error("配置文件中的 review.closeMargin 字段必须是0到1之间的数字");
+      }
+      if (!Number.isInteger(review.maxCandidates) || review.maxCandidates < 2) {
+        throw new Error("配置文件中的 review.maxCandidates 字段必须是不小于2的整数");
+      }
+    }
+
+    if (config.durationCheck !== undefined) {
+      const durationCheck = config.durationCheck;
+      if (typeof durationCheck.enabled !== "boolean") {
+        throw new Error("配置文件中的 durationCheck.enabled 字段必须是布尔值");
+      }
+      if (typeof durationCheck.tolerance !== "number" || durationCheck.tolerance <= 0 || durationCheck.tolerance >= 1) {
+        throw new Error("配置文件中的 durationCheck.tolerance 字段必须是大于0小于1的数字");
+      }
+      if (!["review", "extras"].includes(durationCheck.clipAction)) {
+        throw new Error("配置文件中的 durationCheck.clipAction 字段必须是 review 或 extras");
+      }
+    }
+
+    if (config.extras !== undefined) {
+      const extras = config.extras;
+      if (typeof extras.enabled !== "boolean") {
+        throw new Error("配置文件中的 extras.enabled 字段必须是布尔值");
+      }
+      if (typeof extras.maxDuration !== "number" || extras.maxDuration <= 0) {
+        throw new Error("配置文件中的 extras.maxDuration 字段必须是大于0的数字(秒)");
+      }
+      if (typeof extras.maxSize !== "number" || extras.maxSize <= 0) {
+        throw new Error("配置文件中的 extras.maxSize 字段必须是大于0的数字(MB)");
+      }
+    }
+
+    if (config.llmCache !== undefined) {
+      if (typeof config.llmCache.enabled !== "boolean") {
+        throw new Error("配置文件中的 llmCache.enabled 字段必须是布尔值");
+      }
+      if (typeof config.llmCache.ttl !== "number" || config.llmCache.ttl <= 0) {
+        throw new Error("配置文件中的 llmCache.ttl 字段必须是大于0的数字(小时)");
+      }
+    }
+
     // 验证持久化日志配置
     if (config.persistentLogging !== undefined && typeof config.persistentLogging !== "boolean") {
       throw new Error("配置文件中的 persistentLogging 字段必须是布尔值 (true/false)");
     }
 
     // 检测路径是否存在
-    if (!fs.existsSync(config.monitorFilePath)) {
-      throw new Error(`该路径不存在: ${config.monitorFilePath}`);
-    }
-    if (!fs.existsSync(config.targetFilePath)) {
-      throw new Error(`该路径不存在: ${config.targetFilePath}`);
+    const paths = config.libraries
+      ? config.libraries.flatMap((library: LibraryRootConfig) => [library.monitorPath, library.targetPath])
+      : [config.monitorFilePath, config.targetFilePath];
+    paths.push(...(config.routingRules ?? []).map((rule: RoutingRule) => rule.targetPath));
+    for (const checkPath of paths) {
+      if (!fs.existsSync(checkPath)) {
+        throw new Error(`该路径不存在: ${checkPath}`);
+      }
     }
 
     // 保存到缓存
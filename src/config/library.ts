@@ -0,0 +1,139 @@
+import path from "path";
+import { Config, LibraryRootConfig, LinkMode, getConfig } from "@/config/config";
+import { globToRegExp } from "@/utils/glob";
+
+/**
+ * 未配置 libraries 时默认媒体库的名称
+ */
+export const DEFAULT_LIBRARY_NAME = "default";
+
+/**
+ * 获取所有媒体库
+ * 未配置 libraries 时使用 monitorFilePath / targetFilePath 作为默认媒体库
+ */
+export function getLibraryRoots(config: Config = getConfig()): LibraryRootConfig[] {
+  if (config.libraries && config.libraries.length > 0) {
+    return config.libraries;
+  }
+  return [
+    {
+      name: DEFAULT_LIBRARY_NAME,
+      monitorPath: config.monitorFilePath,
+      targetPath: config.targetFilePath,
+    },
+  ];
+}
+
+/**
+ * 判断路径是否位于目录内（包含目录本身）
+ */
+export function isPathInside(filePath: string, rootPath: string): boolean {
+  const relative = path.relative(path.resolve(rootPath), path.resolve(filePath));
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * 判断路径是否位于任意目录内（包含目录本身）
+ */
+export function isInsideAny(filePath: string, directories: string[]): boolean {
+  return directories.some(dir => isPathInside(filePath, dir));
+}
+
+/**
+ * 获取所有目标根目录（媒体库和路由规则），转换为绝对路径并去重
+ */
+export function getTargetRoots(config: Config = getConfig()): string[] {
+  return [...new Set([
+    ...getLibraryRoots(config).map(root => path.resolve(root.targetPath)),
+    ...(config.routingRules ?? []).map(rule => path.resolve(rule.targetPath)),
+  ])];
+}
+
+/**
+ * 查找路径所属的媒体库，监听目录嵌套时取最深的一个
+ * @returns 不属于任何媒体库时返回 null
+ */
+export function findLibraryRoot(
+  filePath: string,
+  config: Config = getConfig()
+): LibraryRootConfig | null {
+  let matched: LibraryRootConfig | null = null;
+  for (const root of getLibraryRoots(config)) {
+    if (!isPathInside(filePath, root.monitorPath)) continue;
+    if (!matched || path.resolve(root.monitorPath).length > path.resolve(matched.monitorPath).length) {
+      matched = root;
+    }
+  }
+  return matched;
+}
+
+/**
+ * 获取媒体库生效的配置：目录、命名模板和扫描深度使用媒体库的设置
+ */
+export function getLibraryConfig(
+  root: LibraryRootConfig,
+  config: Config = getConfig()
+): Config {
+  return {
+    ...config,
+    monitorFilePath: root.monitorPath,
+    targetFilePath: root.targetPath,
+    naming: root.naming ?? config.naming,
+    scanConfig: {
+      ...config.scanConfig,
+      scanMaxDepth: root.scanMaxDepth ?? config.scanConfig.scanMaxDepth,
+    },
+  };
+}
+
+/**
+ * 获取路径所属媒体库生效的配置，不属于任何媒体库时返回全局配置
+ */
+export function getConfigForPath(filePath: string, config: Config = getConfig()): Config {
+  const root = findLibraryRoot(filePath, config);
+  return root ? getLibraryConfig(root, config) : config;
+}
+
+/**
+ * 获取目标路径使用的链接方式
+ * 按路径所在的目标目录（媒体库或路由规则，嵌套时取最深的一个）的设置，未设置时使用全局设置，默认只使用硬链接
+ * @param targetPath 硬链接路径或目标目录
+ */
+export function getLinkModes(targetPath: string, config: Config = getConfig()): LinkMode[] {
+  const roots: Array<{ targetPath: string; linkModes?: LinkMode[] }> = [
+    ...getLibraryRoots(config),
+    ...(config.routingRules ?? []),
+  ];
+  let matched: { targetPath: string; linkModes?: LinkMode[] } | null = null;
+  for (const root of roots) {
+    if (!isPathInside(targetPath, root.targetPath)) continue;
+    if (!matched || path.resolve(root.targetPath).length > path.resolve(matched.targetPath).length) {
+      matched = root;
+    }
+  }
+  return matched?.linkModes ?? config.linkModes ?? ["hardlink"];
+}
+
+/**
+ * 判断路径是否命中媒体库的忽略规则
+ * 规则为相对于监听目录的 glob 模式，不含 "/" 的规则匹配任意层级的文件或目录名，
+ * 例如 "*.part"、"Extras" 或 "Anime/Old/**"。目录被忽略时其中的所有文件都会被忽略
+ */
+export function isIgnoredByLibrary(filePath: string, root: LibraryRootConfig): boolean {
+  if (!root.ignore || root.ignore.length === 0) {
+    return false;
+  }
+  const relative = path.relative(root.monitorPath, filePath).split(path.sep).join("/");
+  if (!relative || relative.startsWith("..")) {
+    return false;
+  }
+
+  const segments = relative.split("/");
+  return root.ignore.some(pattern => {
+    const regex = globToRegExp(pattern.replace(/^\/+|\/+$/g, ""));
+    if (!pattern.includes("/")) {
+      return segments.some(segment => regex.test(segment));
+    }
+    return segments.some((_, index) => regex.test(segments.slice(0, index + 1).join("/")));
+  });
+}
@@ -14,6 +14,8 @@ type IdOrNewParamType = z.infer<typeof ParamValidators.idOrNew>;
 type DirectoryQueryType = z.infer<typeof FileValidators.getDirectoryContents>;
 type RenameFileBodyType = z.infer<typeof FileValidators.renameFile>;
 type LinkMediaBodyType = z.infer<typeof FileValidators.linkMedia>;
+type ReorganizeBodyType = z.infer<typeof FileValidators.reorganize>;
+type SubtitleLanguageBodyType = z.infer<typeof FileValidators.updateSubtitleLanguage>;
 
 export class FileController extends TypedController {
   constructor(
@@ -111,4 +113,31 @@ export class FileController extends TypedController {
       success(res, result, discNumber === null ? "取消碟片编号成功" : "更新碟片编号成功");
     }
   );
-}
\ No newline at end of file
+
+  // 修改字幕语言
+  updateSubtitleLanguage = this.asyncHandler<IdParamType, {}, SubtitleLanguageBodyType>(
+    async (req: TypedRequest<IdParamType, {}, SubtitleLanguageBodyType>, res: Response) => {
+      const { id: subtitleId } = req.params;
+      const { language } = req.body;
+
+      const result = await this.fileService.updateSubtitleLanguage(subtitleId, language);
+      success(res, result, language === null ? "已恢复自动识别字幕语言" : "更新字幕语言成功");
+    }
+  );
+
+  // 预览硬链接整理计划
+  previewReorganize = this.asyncHandler(
+    async (req: TypedRequest, res: Response) => {
+      const plan = await this.fileService.previewReorganize();
+      success(res, plan, "获取整理计划成功");
+    }
+  );
+
+  // 整理已有硬链接
+  reorganize = this.asyncHandler<{}, {}, ReorganizeBodyType>(
+    async (req: TypedRequest<{}, {}, ReorganizeBodyType>, res: Response) => {
+      const result = await this.fileService.reorganize(req.body.fileIds);
+      success(res, result, "整理硬链接成功");
+    }
+  );
+}
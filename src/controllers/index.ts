@@ -6,3 +6,5 @@ export { TMDBController } from "./tmdb.controller";
 export { ScanController } from "./scan.controller";
 export { AuthController } from "./auth.controller";
 export { QueueController } from "./queue.controller";
+export { IntegrityController } from "./integrity.controller";
+export { JournalController } from "./journal.controller";
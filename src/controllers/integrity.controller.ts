@@ -0,0 +1,35 @@
+import { Response } from "express";
+import { success } from "@/utils/response";
+import { IntegrityService } from "@/services";
+import { TypedController, TypedRequest } from "./base.controller";
+import { IntegrityBodyValidators } from "@/validators";
+import { z } from "zod";
+
+// 类型推导
+type RepairBody = z.infer<typeof IntegrityBodyValidators.repair>;
+
+// 完整性校验控制器
+export class IntegrityController extends TypedController {
+  private integrityService = new IntegrityService();
+
+  // 获取校验状态和结果
+  getStatus = this.asyncHandler(async (req: TypedRequest, res: Response) => {
+    const status = await this.integrityService.getStatus();
+    success(res, status, "获取完整性校验结果成功");
+  });
+
+  // 手动触发校验
+  triggerCheck = this.asyncHandler(async (req: TypedRequest, res: Response) => {
+    const result = await this.integrityService.triggerCheck();
+    success(res, result, result.message);
+  });
+
+  // 修复校验发现的问题
+  repair = this.asyncHandler<{}, {}, RepairBody>(
+    async (req: TypedRequest<{}, {}, RepairBody>, res: Response) => {
+      const { issueId, action } = req.body;
+      const report = await this.integrityService.repair(issueId, action);
+      success(res, report, "修复成功");
+    }
+  );
+}
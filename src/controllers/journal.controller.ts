@@ -0,0 +1,36 @@
+import { Response } from "express";
+import { success } from "@/utils/response";
+import { JournalService } from "@/services";
+import { TypedController, TypedRequest } from "./base.controller";
+import { JournalQueryValidators, ParamValidators } from "@/validators";
+import { z } from "zod";
+
+// 类型推导
+type GroupsQuery = z.infer<typeof JournalQueryValidators.groups>;
+type IdParam = z.infer<typeof ParamValidators.id>;
+
+// 操作日志控制器
+export class JournalController extends TypedController {
+  private journalService = new JournalService();
+
+  // 分页获取操作日志分组
+  getGroups = this.asyncHandler<{}, GroupsQuery>(
+    async (req: TypedRequest<{}, GroupsQuery>, res: Response) => {
+      const { page, limit, source } = req.query;
+      const result = await this.journalService.getGroups(page, limit, source);
+      success(res, result, "获取操作日志成功");
+    }
+  );
+
+  // 获取分组内的操作
+  getOperations = this.asyncHandler<IdParam>(async (req: TypedRequest<IdParam>, res: Response) => {
+    const operations = await this.journalService.getOperations(req.params.id);
+    success(res, operations, "获取操作详情成功");
+  });
+
+  // 撤销整组操作
+  undo = this.asyncHandler<IdParam>(async (req: TypedRequest<IdParam>, res: Response) => {
+    const result = await this.journalService.undo(req.params.id);
+    success(res, result, result.failed > 0 ? `撤销完成，${result.failed} 个操作未能回滚` : "撤销成功");
+  });
+}
@@ -17,6 +17,8 @@ import { z } from "zod";
 type GetTasksQuery = z.infer<typeof QueueQueryValidators.tasks>;
 type TaskIdParam = z.infer<typeof QueueParamValidators.taskId>;
 type UpdateConfigBody = z.infer<typeof QueueBodyValidators.updateConfig>;
+type GetReviewQuery = z.infer<typeof QueueQueryValidators.review>;
+type ResolveReviewBody = z.infer<typeof QueueBodyValidators.resolveReview>;
 
 // 队列管理控制器
 export class QueueController extends TypedController {
@@ -178,4 +180,31 @@ export class QueueController extends TypedController {
       notFound(res, "任务不存在或无法取消");
     }
   });
-}
\ No newline at end of file
+
+  // 获取待人工确认的任务列表
+  getReviewTasks = this.asyncHandler(async (req: TypedRequest<{}, GetReviewQuery>, res: Response) => {
+    const { page, limit } = req.query;
+    const offset = (page - 1) * limit;
+
+    const queueService = getQueueService();
+    const { items, total } = await queueService.getReviewTasks(limit, offset);
+
+    logger.info(`获取待确认任务列表成功，返回 ${items.length} 个任务`);
+    successWithPagination(res, { items, total, page, limit }, "获取待确认任务列表成功");
+  });
+
+  // 确认或覆盖待确认任务的识别结果
+  resolveReview = this.asyncHandler(async (req: TypedRequest<TaskIdParam, {}, ResolveReviewBody>, res: Response) => {
+    const { taskId } = req.params;
+
+    const queueService = getQueueService();
+    const success_flag = await queueService.resolveReview(taskId, req.body);
+
+    if (success_flag) {
+      logger.info(`确认任务成功: ID ${taskId}`);
+      success(res, null, "已确认，任务已重新加入队列");
+    } else {
+      notFound(res, "任务不存在或无需确认");
+    }
+  });
+}
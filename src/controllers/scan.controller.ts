@@ -14,6 +14,8 @@ import { z } from "zod";
 type GetLogsQuery = z.infer<typeof ScanQueryValidators.logs>;
 type GetLibraryFilesQuery = z.infer<typeof ScanQueryValidators.libraryFiles>;
 type UpdateConfigBody = z.infer<typeof ScanBodyValidators.updateConfig>;
+type ApplyPlanBody = z.infer<typeof ScanBodyValidators.applyPlan>;
+type ExportPlanQuery = z.infer<typeof ScanQueryValidators.exportPlan>;
 type IdParam = z.infer<typeof ParamValidators.id>;
 
 // 扫描控制器
@@ -31,6 +33,37 @@ export class ScanController extends TypedController {
     success(res, result, result.message);
   });
 
+  // 获取预演计划
+  getPlanStatus = this.asyncHandler(
+    async (req: TypedRequest, res: Response) => {
+      const result = await this.scanService.getPlanStatus();
+      success(res, result, "获取预演计划成功");
+    }
+  );
+
+  // 触发预演扫描
+  triggerPlan = this.asyncHandler(async (req: TypedRequest, res: Response) => {
+    const result = await this.scanService.triggerPlan();
+    success(res, result, result.message);
+  });
+
+  // 执行预演计划
+  applyPlan = this.asyncHandler(
+    async (req: TypedRequest<{}, {}, ApplyPlanBody>, res: Response) => {
+      const { planId, entryIds } = req.body;
+      const result = await this.scanService.applyPlan(planId, entryIds);
+      success(res, result, result.message);
+    }
+  );
+
+  // 导出预演计划
+  exportPlan = this.asyncHandler(
+    async (req: TypedRequest<{}, ExportPlanQuery>, res: Response) => {
+      const result = await this.scanService.exportPlan(req.query.format);
+      success(res, result, "导出预演计划成功");
+    }
+  );
+
   // 获取扫描状态
   getScanStatus = this.asyncHandler(
     async (req: TypedRequest, res: Response) => {
@@ -14,6 +14,8 @@ import { z } from "zod";
 // 类型推导
 type UpdateConfigBody = z.infer<typeof SystemBodyValidators.updateConfig>;
 type GetLogsQuery = z.infer<typeof SystemQueryValidators.logs>;
+type InvalidateLlmCacheQuery = z.infer<typeof SystemQueryValidators.invalidateLlmCache>;
+type UpdateRoutingRulesBody = z.infer<typeof SystemBodyValidators.updateRoutingRules>;
 
 // 系统控制器
 export class SystemController extends TypedController {
@@ -48,4 +50,28 @@ export class SystemController extends TypedController {
     const updatedConfig = this.systemService.updateConfig(req.body);
     success(res, updatedConfig, "更新系统配置成功");
   });
+
+  // 获取内置命名预设
+  getNamingPresets = this.asyncHandler(async (req: TypedRequest, res: Response) => {
+    const presets = this.systemService.getNamingPresets();
+    success(res, presets, "获取命名预设成功");
+  });
+
+  // 获取路由规则
+  getRoutingRules = this.asyncHandler(async (req: TypedRequest, res: Response) => {
+    const rules = this.systemService.getRoutingRules();
+    success(res, rules, "获取路由规则成功");
+  });
+
+  // 更新路由规则
+  updateRoutingRules = this.asyncHandler(async (req: TypedRequest<{}, {}, UpdateRoutingRulesBody>, res: Response) => {
+    const rules = this.systemService.updateRoutingRules(req.body.rules);
+    success(res, rules, "更新路由规则成功");
+  });
+
+  // 清除 LLM 解析结果缓存
+  invalidateLlmCache = this.asyncHandler(async (req: TypedRequest<{}, InvalidateLlmCacheQuery>, res: Response) => {
+    const result = await this.systemService.invalidateLlmCache(req.query.fileName);
+    success(res, result, "清除LLM缓存成功");
+  });
 }
\ No newline at end of file
@@ -0,0 +1,211 @@
+import crypto from "crypto";
+import client from "@/client";
+import { getConfig, Config } from "@/config/config";
+import { getPrompt } from "@/config/prompt";
+import { ExtractedMediaInfo } from "@/types/media.types";
+import { logger } from "@/utils/logger";
+import { isCacheReadOnly } from "./readOnly";
+
+const prisma = client;
+
+/**
+ * 默认缓存有效期（小时）
+ */
+const DEFAULT_LLM_CACHE_TTL = 720;
+
+/**
+ * LLM 缓存统计信息
+ */
+export interface LlmCacheStats {
+  enabled: boolean;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+/**
+ * LLM 文件名解析结果缓存
+ * 缓存键由标准化文件名、提示词哈希和模型名称组成，修改提示词或切换模型后旧缓存自动失效
+ */
+export class LlmCache {
+  // 自进程启动以来的命中/未命中次数
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * 标准化文件名，忽略大小写和分隔符差异
+   */
+  static normalizeFileName(fileName: string): string {
+    return fileName
+      .normalize("NFKC")
+      .toLowerCase()
+      .replace(/[._\s]+/g, " ")
+      .trim();
+  }
+
+  /**
+   * 获取当前使用的模型名称
+   */
+  private getModel(config: Config): string {
+    const model = config.llmProvider === "openai" ? config.openaiModel : config.llmModel;
+    return `${config.llmProvider}:${model}`;
+  }
+
+  /**
+   * 获取当前提示词的哈希
+   */
+  private getPromptHash(): string {
+    return crypto.createHash("md5").update(getPrompt()).digest("hex");
+  }
+
+  private isEnabled(config: Config): boolean {
+    return config.llmCache?.enabled ?? true;
+  }
+
+  private buildKey(fileName: string, promptHash: string, model: string): string {
+    return crypto
+      .createHash("sha256")
+      .update(`${fileName}\n${promptHash}\n${model}`)
+      .digest("hex");
+  }
+
+  /**
+   * 查询缓存的解析结果，只读时不更新命中次数
+   * @param fileName 原始文件名
+   * @returns 未命中或缓存已过期时返回 null
+   */
+  async get(fileName: string): Promise<ExtractedMediaInfo | null> {
+    const config = getConfig();
+    if (!this.isEnabled(config)) {
+      return null;
+    }
+
+    try {
+      const cacheKey = this.buildKey(
+        LlmCache.normalizeFileName(fileName),
+        this.getPromptHash(),
+        this.getModel(config)
+      );
+      const entry = await prisma.llmCache.findUnique({ where: { cacheKey } });
+
+      if (!entry || entry.expiresAt.getTime() <= Date.now()) {
+        this.misses++;
+        return null;
+      }
+
+      if (!isCacheReadOnly()) {
+        await prisma.llmCache.update({
+          where: { id: entry.id },
+          data: { hitCount: { increment: 1 } },
+        });
+      }
+      this.hits++;
+      logger.debug(`LLM 缓存命中: ${fileName}`);
+      return JSON.parse(entry.result) as ExtractedMediaInfo;
+    } catch (error) {
+      // 缓存异常不影响识别流程
+      logger.warn(`读取 LLM 缓存失败: ${fileName} - ${error instanceof Error ? error.message : String(error)}`);
+      this.misses++;
+      return null;
+    }
+  }
+
+  /**
+   * 写入解析结果，只读时不写入
+   * @param fileName 原始文件名
+   * @param result LLM 解析结果
+   */
+  async set(fileName: string, result: ExtractedMediaInfo): Promise<void> {
+    const config = getConfig();
+    if (!this.isEnabled(config) || isCacheReadOnly()) {
+      return;
+    }
+
+    try {
+      const normalizedName = LlmCache.normalizeFileName(fileName);
+      const promptHash = this.getPromptHash();
+      const model = this.getModel(config);
+      const cacheKey = this.buildKey(normalizedName, promptHash, model);
+      const ttl = config.llmCache?.ttl ?? DEFAULT_LLM_CACHE_TTL;
+      const expiresAt = new Date(Date.now() + ttl * 60 * 60 * 1000);
+
+      await prisma.llmCache.upsert({
+        where: { cacheKey },
+        update: { result: JSON.stringify(result), expiresAt, hitCount: 0 },
+        create: {
+          cacheKey,
+          fileName: normalizedName,
+          promptHash,
+          model,
+          result: JSON.stringify(result),
+          expiresAt,
+        },
+      });
+    } catch (error) {
+      logger.warn(`写入 LLM 缓存失败: ${fileName} - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 清除缓存
+   * @param fileName 可选，仅清除指定文件名的缓存
+   * @returns 删除的条目数
+   */
+  async invalidate(fileName?: string): Promise<number> {
+    const result = await prisma.llmCache.deleteMany({
+      where: fileName ? { fileName: LlmCache.normalizeFileName(fileName) } : undefined,
+    });
+    logger.info(`已清除 ${result.count} 条 LLM 缓存${fileName ? `: ${fileName}` : ""}`);
+    return result.count;
+  }
+
+  /**
+   * 清除与当前提示词或模型不一致的缓存，以及已过期的缓存
+   * @returns 删除的条目数
+   */
+  async purgeStale(): Promise<number> {
+    const config = getConfig();
+    const result = await prisma.llmCache.deleteMany({
+      where: {
+        OR: [
+          { promptHash: { not: this.getPromptHash() } },
+          { model: { not: this.getModel(config) } },
+          { expiresAt: { lte: new Date() } },
+        ],
+      },
+    });
+    if (result.count > 0) {
+      logger.info(`已清除 ${result.count} 条失效的 LLM 缓存`);
+    }
+    return result.count;
+  }
+
+  /**
+   * 获取缓存统计信息
+   */
+  async getStats(): Promise<LlmCacheStats> {
+    const entries = await prisma.llmCache.count();
+    const total = this.hits + this.misses;
+    return {
+      enabled: this.isEnabled(getConfig()),
+      entries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? Math.round((this.hits / total) * 10000) / 100 : 0,
+    };
+  }
+}
+
+// 全局缓存实例
+let globalLlmCache: LlmCache | null = null;
+
+/**
+ * 获取全局 LLM 缓存实例
+ */
+export function getLlmCache(): LlmCache {
+  if (!globalLlmCache) {
+    globalLlmCache = new LlmCache();
+  }
+  return globalLlmCache;
+}
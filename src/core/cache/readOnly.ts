@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+const storage = new AsyncLocalStorage<boolean>();
+
+/**
+ * 以只读方式使用 TMDB 和 LLM 缓存执行，期间只读取缓存，不写入新的结果和命中次数
+ * 用于预演计划等不应修改数据库的流程
+ */
+export function runWithReadOnlyCache<T>(fn: () => T): T {
+  return storage.run(true, fn);
+}
+
+/**
+ * 当前是否只读取缓存
+ */
+export function isCacheReadOnly(): boolean {
+  return storage.getStore() ?? false;
+}
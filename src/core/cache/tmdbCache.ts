@@ -0,0 +1,180 @@
+import crypto from "crypto";
+import { AxiosRequestConfig } from "axios";
+import {
+  MovieDb,
+  SearchRequest,
+  SearchMovieRequest,
+  SearchTvRequest,
+  SearchCollectionResponse,
+  MovieResultsResponse,
+  TvResultsResponse,
+  IdAppendToResponseRequest,
+  MovieResponse,
+  ShowResponse,
+  TvSeasonRequest,
+  TvSeasonResponse,
+  IdRequestParams,
+  TvEpisodeGroupsResponse,
+  EpisodeGroupResponse,
+} from "moviedb-promise";
+import client from "@/client";
+import { getConfig, TmdbCacheEndpoint } from "@/config/config";
+import { logger } from "@/utils/logger";
+import { isCacheReadOnly } from "./readOnly";
+
+const prisma = client;
+
+/**
+ * 各接口默认缓存有效期（小时）
+ * 季信息会随新剧集播出而更新，有效期较短
+ */
+const DEFAULT_TMDB_CACHE_TTL: Record<TmdbCacheEndpoint, number> = {
+  searchTv: 24,
+  searchMovie: 24,
+  searchCollection: 24,
+  tvInfo: 72,
+  seasonInfo: 24,
+  movieInfo: 168,
+  episodeGroups: 168,
+  episodeGroup: 168,
+};
+
+/**
+ * 按键名排序后序列化参数，保证相同参数生成相同的缓存键
+ */
+function stableStringify(params: Record<string, unknown>): string {
+  const sorted: Record<string, unknown> = {};
+  for (const key of Object.keys(params).sort()) {
+    if (params[key] !== undefined) {
+      sorted[key] = params[key];
+    }
+  }
+  return JSON.stringify(sorted);
+}
+
+/**
+ * 带数据库缓存的 TMDB 客户端
+ * 覆盖常用的搜索和详情接口，其余接口保持直接请求
+ */
+export class CachedMovieDb extends MovieDb {
+  searchTv(params: SearchTvRequest, axiosConfig?: AxiosRequestConfig): Promise<TvResultsResponse> {
+    return this.withCache("searchTv", { ...params }, () => super.searchTv(params, axiosConfig));
+  }
+
+  searchMovie(params: SearchMovieRequest, axiosConfig?: AxiosRequestConfig): Promise<MovieResultsResponse> {
+    return this.withCache("searchMovie", { ...params }, () => super.searchMovie(params, axiosConfig));
+  }
+
+  searchCollection(params: SearchRequest, axiosConfig?: AxiosRequestConfig): Promise<SearchCollectionResponse> {
+    return this.withCache("searchCollection", { ...params }, () => super.searchCollection(params, axiosConfig));
+  }
+
+  tvInfo(params: string | number | IdAppendToResponseRequest, axiosConfig?: AxiosRequestConfig): Promise<ShowResponse> {
+    const keyParams = typeof params === "object" ? { ...params } : { id: params };
+    return this.withCache("tvInfo", keyParams, () => super.tvInfo(params, axiosConfig));
+  }
+
+  seasonInfo(params: TvSeasonRequest, axiosConfig?: AxiosRequestConfig): Promise<TvSeasonResponse> {
+    return this.withCache("seasonInfo", { ...params }, () => super.seasonInfo(params, axiosConfig));
+  }
+
+  movieInfo(params: string | number | IdAppendToResponseRequest, axiosConfig?: AxiosRequestConfig): Promise<MovieResponse> {
+    const keyParams = typeof params === "object" ? { ...params } : { id: params };
+    return this.withCache("movieInfo", keyParams, () => super.movieInfo(params, axiosConfig));
+  }
+
+  episodeGroups(params: string | number | IdRequestParams, axiosConfig?: AxiosRequestConfig): Promise<TvEpisodeGroupsResponse> {
+    const keyParams = typeof params === "object" ? { ...params } : { id: params };
+    return this.withCache("episodeGroups", keyParams, () => super.episodeGroups(params, axiosConfig));
+  }
+
+  episodeGroup(params: string | number | IdRequestParams, axiosConfig?: AxiosRequestConfig): Promise<EpisodeGroupResponse> {
+    const keyParams = typeof params === "object" ? { ...params } : { id: params };
+    return this.withCache("episodeGroup", keyParams, () => super.episodeGroup(params, axiosConfig));
+  }
+
+  /**
+   * 缓存读写流程
+   * - 离线模式：只读取缓存（包括已过期的缓存），未命中时抛出错误
+   * - 在线模式：优先读取未过期的缓存，请求失败时回退到已过期的缓存
+   * - 只读时（如预演计划）不写入请求结果
+   */
+  private async withCache<T>(
+    endpoint: TmdbCacheEndpoint,
+    params: Record<string, unknown>,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const config = getConfig();
+    const cacheConfig = config.tmdbCache;
+    const offline = cacheConfig?.offline ?? false;
+    const enabled = offline || (cacheConfig?.enabled ?? true);
+
+    if (!enabled) {
+      return request();
+    }
+
+    const paramsJson = stableStringify(params);
+    const cacheKey = crypto.createHash("md5").update(`${endpoint}:${paramsJson}`).digest("hex");
+    const cached = await this.readCache(cacheKey);
+
+    if (offline) {
+      if (!cached) {
+        throw new Error(`TMDB 离线模式下缓存未命中: ${endpoint} ${paramsJson}`);
+      }
+      logger.debug(`[TMDB缓存] 离线读取: ${endpoint} ${paramsJson}`);
+      return JSON.parse(cached.response) as T;
+    }
+
+    if (cached && cached.expiresAt.getTime() > Date.now()) {
+      logger.debug(`[TMDB缓存] 命中: ${endpoint} ${paramsJson}`);
+      return JSON.parse(cached.response) as T;
+    }
+
+    let response: T;
+    try {
+      response = await request();
+    } catch (error) {
+      if (cached) {
+        logger.warn(`[TMDB缓存] 请求失败，使用过期缓存: ${endpoint} ${paramsJson} - ${error instanceof Error ? error.message : String(error)}`);
+        return JSON.parse(cached.response) as T;
+      }
+      throw error;
+    }
+
+    if (isCacheReadOnly()) {
+      return response;
+    }
+    const ttl = cacheConfig?.ttl?.[endpoint] ?? DEFAULT_TMDB_CACHE_TTL[endpoint];
+    await this.writeCache(cacheKey, endpoint, paramsJson, response, ttl);
+    return response;
+  }
+
+  private async readCache(cacheKey: string) {
+    try {
+      return await prisma.tmdbCache.findUnique({ where: { cacheKey } });
+    } catch (error) {
+      logger.warn(`[TMDB缓存] 读取失败: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private async writeCache(
+    cacheKey: string,
+    endpoint: TmdbCacheEndpoint,
+    paramsJson: string,
+    response: unknown,
+    ttl: number
+  ): Promise<void> {
+    try {
+      const expiresAt = new Date(Date.now() + ttl * 60 * 60 * 1000);
+      const responseJson = JSON.stringify(response);
+      await prisma.tmdbCache.upsert({
+        where: { cacheKey },
+        update: { response: responseJson, expiresAt },
+        create: { cacheKey, endpoint, params: paramsJson, response: responseJson, expiresAt },
+      });
+    } catch (error) {
+      logger.warn(`[TMDB缓存] 写入失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
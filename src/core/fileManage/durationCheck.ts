@@ -0,0 +1,91 @@
+/**
+ * @fileoverview 时长校验
+ * @description 识别后比较视频时长和 TMDB 的片长或单集时长，
+ * 发现样片、预告片、片头片尾（NCOP/NCED）等短片段和识别错误的文件
+ */
+
+import { DurationCheckConfig } from '@/config/config';
+import { ExtraType, IdentifiedMedia } from '@/types/media.types';
+import { MediaProbeResult } from '@/types/probe.types';
+import { getEpisodeNumbers } from '@/utils/media';
+
+/**
+ * 短片段的最大时长（秒），超过该时长的不符视为识别错误
+ */
+const CLIP_MAX_DURATION = 600;
+
+/**
+ * 时长校验结果
+ */
+export type DurationCheckResult =
+  | { action: 'link' } // 时长相符或无法校验，正常处理
+  | { action: 'review'; reason: string } // 转为人工确认
+  | { action: 'extras'; extraType: ExtraType; reason: string }; // 作为附加内容链接到作品目录的子目录
+
+/**
+ * 从 TMDB 原始数据获取预期时长（秒），多集文件为各集时长之和
+ * @returns 缺少片长数据时返回 null
+ */
+export function getExpectedRuntime(media: IdentifiedMedia): number | null {
+  if (media.type === 'movie') {
+    const runtime = media.rawData?.runtime;
+    return typeof runtime === 'number' && runtime > 0 ? runtime * 60 : null;
+  }
+
+  if (media.type === 'tv') {
+    const episodeNumbers = getEpisodeNumbers(media);
+    if (episodeNumbers.length === 0) return null;
+
+    let total = 0;
+    for (const episodeNumber of episodeNumbers) {
+      const episode = media.rawData?.episodes?.find((e: any) => e.episode_number === episodeNumber);
+      if (typeof episode?.runtime !== 'number' || episode.runtime <= 0) return null;
+      total += episode.runtime * 60;
+    }
+    return total;
+  }
+
+  return null;
+}
+
+function formatSeconds(seconds: number): string {
+  return seconds < 60 ? `${Math.round(seconds)} 秒` : `${Math.round(seconds / 60)} 分钟`;
+}
+
+/**
+ * 比较视频时长和识别结果的片长
+ * 明显短于正片的短片段按配置转为人工确认或作为附加内容链接，其余不符的转为人工确认
+ * @param media 识别结果
+ * @param probe 源文件的媒体信息，无法读取时为 null
+ * @param config 时长校验配置
+ */
+export function checkDuration(
+  media: IdentifiedMedia,
+  probe: MediaProbeResult | null,
+  config: DurationCheckConfig
+): DurationCheckResult {
+  const expected = getExpectedRuntime(media);
+  if (!expected) {
+    return { action: 'link' };
+  }
+
+  const duration = probe?.duration;
+  if (!duration) {
+    return { action: 'link' };
+  }
+
+  const ratio = duration / expected;
+  if (Math.abs(ratio - 1) <= config.tolerance) {
+    return { action: 'link' };
+  }
+
+  const detail = `${formatSeconds(duration)} / TMDB ${formatSeconds(expected)}`;
+  if (ratio < 1 && duration < CLIP_MAX_DURATION) {
+    const reason = `时长过短，可能是样片、预告片或片头片尾 (${detail})`;
+    return config.clipAction === 'extras'
+      ? { action: 'extras', extraType: 'extras', reason }
+      : { action: 'review', reason };
+  }
+
+  return { action: 'review', reason: `时长与识别结果不符，可能识别错误 (${detail})` };
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview 附加内容识别
+ * @description 识别前按文件名、所在目录、时长和大小找出样片、预告片、片头片尾（NCOP/NCED）和花絮，
+ * 样片和菜单跳过，其余作为附加内容链接到作品目录的 trailers/extras/featurettes 子目录
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import client from '@/client';
+import { ExtrasConfig } from '@/config/config';
+import { ExtraType } from '@/types/media.types';
+import { MediaProbeResult } from '@/types/probe.types';
+import { logger } from '@/utils/logger';
+import { LibraryStatus } from '@/generated/client';
+
+const prisma = client;
+
+/**
+ * 未配置时使用的附加内容识别配置
+ */
+export const DEFAULT_EXTRAS_CONFIG: ExtrasConfig = {
+  enabled: true,
+  maxDuration: 600,
+  maxSize: 500,
+};
+
+/**
+ * 附加内容规则
+ */
+interface ExtraRule {
+  pattern: RegExp;
+  label: string;
+  extraType: ExtraType | null; // 为 null 时跳过文件
+}
+
+// 按文件名中的单词匹配，顺序即优先级
+const NAME_RULES: ExtraRule[] = [
+  { pattern: /^samples?$/i, label: '样片', extraType: null },
+  { pattern: /^menu\d*$/i, label: '菜单', extraType: null },
+  { pattern: /^(trailer|teaser)s?\d*$/i, label: '预告片', extraType: 'trailers' },
+  { pattern: /^(pv|cm|spot)\d*$/i, label: '宣传片', extraType: 'trailers' },
+  { pattern: /^(nc(op|ed)\d*(v\d+)?|creditless)$/i, label: '无字幕片头片尾', extraType: 'extras' },
+  { pattern: /^featurettes?$/i, label: '花絮', extraType: 'featurettes' },
+];
+
+// 按所在目录名匹配，目录名已明确内容类型，不再检查时长和大小
+const FOLDER_RULES: ExtraRule[] = [
+  { pattern: /^samples?$/i, label: '样片', extraType: null },
+  { pattern: /^trailers?$/i, label: '预告片', extraType: 'trailers' },
+  { pattern: /^extras?$/i, label: '附加内容', extraType: 'extras' },
+  { pattern: /^featurettes?$/i, label: '花絮', extraType: 'featurettes' },
+];
+
+/**
+ * 附加内容识别结果
+ */
+export type ExtraClassifyResult =
+  | { action: 'link' } // 正片，正常识别
+  | { action: 'skip'; reason: string } // 样片、菜单等，不处理
+  | { action: 'extras'; extraType: ExtraType; reason: string }; // 识别所属作品后链接到作品目录的子目录
+
+function toResult(rule: ExtraRule, detail: string): ExtraClassifyResult {
+  const reason = `${rule.label} (${detail})`;
+  return rule.extraType
+    ? { action: 'extras', extraType: rule.extraType, reason }
+    : { action: 'skip', reason };
+}
+
+/**
+ * 判断源文件是否为附加内容
+ * 所在目录名匹配时直接判定；文件名匹配时还要求时长（无法读取时为大小）不超过阈值，避免误判标题中包含这些词的正片
+ * @param sourcePath 源文件路径
+ * @param config 附加内容识别配置
+ * @param probe 源文件的媒体信息，无法读取时为 null
+ */
+export async function classifyExtra(
+  sourcePath: string,
+  config: ExtrasConfig,
+  probe: MediaProbeResult | null
+): Promise<ExtraClassifyResult> {
+  const folderName = path.basename(path.dirname(sourcePath));
+  const folderRule = FOLDER_RULES.find(rule => rule.pattern.test(folderName));
+  if (folderRule) {
+    return toResult(folderRule, `位于 ${folderName} 目录`);
+  }
+
+  const words = path.parse(sourcePath).name.split(/[\s._\-[\]()【】]+/).filter(Boolean);
+  let matched: { rule: ExtraRule; word: string } | undefined;
+  for (const rule of NAME_RULES) {
+    const word = words.find(w => rule.pattern.test(w));
+    if (word) {
+      matched = { rule, word };
+      break;
+    }
+  }
+  if (!matched) {
+    return { action: 'link' };
+  }
+
+  const duration = probe?.duration;
+  if (duration) {
+    if (duration > config.maxDuration) {
+      return { action: 'link' };
+    }
+    return toResult(matched.rule, `文件名包含 ${matched.word}，时长 ${Math.round(duration)} 秒`);
+  }
+
+  const { size } = await fs.stat(sourcePath);
+  if (size > config.maxSize * 1024 * 1024) {
+    return { action: 'link' };
+  }
+  return toResult(matched.rule, `文件名包含 ${matched.word}，大小 ${Math.round(size / 1024 / 1024)} MB`);
+}
+
+/**
+ * 跳过附加内容，库记录标记为忽略
+ */
+export async function skipExtra(sourcePath: string, reason: string): Promise<void> {
+  logger.info(`跳过附加内容: ${sourcePath}，${reason}`);
+  await prisma.library.updateMany({
+    where: { path: sourcePath },
+    data: { status: LibraryStatus.IGNORED, lastProcessedAt: new Date() },
+  });
+}
@@ -83,7 +83,7 @@ export class FileMonitor {
    */
   private setupEventListeners(watcher: FSWatcher, callback: EventCallback): void {
     const eventHandler = async (eventType: string, itemPath: string, isDirectory: boolean) => {
-      // 对于 change 事件，检查是否是真正的内容变化
+      // 对于 change 事件，检查是否是真正的内容变化（删除事件无需检查）
       if (eventType === "change") {
         try {
           const stats = await fs.stat(itemPath);
@@ -116,6 +116,13 @@ export class FileMonitor {
         // 只处理文件变化
         eventHandler("change", filePath, false);
       })
+      // 删除和移动由源文件跟踪处理
+      .on("unlink", (filePath) => {
+        eventHandler("unlink", filePath, false);
+      })
+      .on("unlinkDir", (dirPath) => {
+        eventHandler("unlinkDir", dirPath, true);
+      })
       // addDir 事件不处理，让特殊文件夹由定时扫描处理
       .on("error", (error) => logger.error(`监控错误`, error))
       .on("ready", () => {
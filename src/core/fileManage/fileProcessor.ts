@@ -2,15 +2,25 @@ import path from "path";
 import fs from "fs/promises";
 import { logger } from "@/utils/logger";
 import { generatePathHash, getFileDeviceInfo, calculateFileHash } from "@/utils/hash";
-import { createHardlink } from "@/utils/hardlink";
+import { createHardlink, replaceHardlink } from "@/utils/hardlink";
+import { probeMediaFile } from "@/utils/mediaProbe";
 import { getQueueService } from "@/queue/queueService";
 import { ScrapingTaskData } from "@/types/queue.types";
 import { getConfig } from "@/config/config";
+import { LinkMode } from "@/config/config";
+import { getConfigForPath, getLinkModes } from "@/config/library";
 import { PrismaClient } from '@/generated/client';
 import client from '@/client';
 import { LibraryStatus } from './libraryScanner';
-import { FileDetails, IdentifiedMedia } from "@/types/media.types";
+import { ExtraType, FileDetails, IdentifiedMedia } from "@/types/media.types";
+import { MediaProbeResult } from "@/types/probe.types";
 import { MediaRepository } from "@/repository/media.repository";
+import { buildMediaRelativePath } from "./naming";
+import { parseReleaseColumns, toReleaseTokens } from "./quality";
+import { MediaRouter } from "./routing";
+import { linkSubtitleCompanions, SubtitleCompanion } from "./subtitles";
+import { getSourceTracker } from "./sourceTracker";
+import { ExistingVersion, supersedeVersions } from "./qualityUpgrade";
 
 /**
  * 文件处理优先级枚举
@@ -115,6 +125,12 @@ export class FileProcessor {
       return null;
     }
 
+    // 已有记录的源文件移动到新路径时只更新记录，不重新识别
+    if (await getSourceTracker().detectMove(filePath)) {
+      logger.info(`[${source}] 已有记录的源文件移动到新路径，跳过处理: ${filePath}`);
+      return null;
+    }
+
     logger.info(`[${source}] 准备处理文件: ${fileName} (目录: ${isDirectory})`);
 
     try {
@@ -190,6 +206,12 @@ export class FileProcessor {
           continue;
         }
 
+        // 已有记录的源文件移动到新路径时只更新记录，不重新识别
+        if (await getSourceTracker().detectMove(file.filePath)) {
+          logger.info(`[${source}] 已有记录的源文件移动到新路径，跳过处理: ${file.filePath}`);
+          continue;
+        }
+
         // 将文件添加到库中
         const libraryId = await this.addFileToLibrary(file.filePath, file.isDirectory);
 
@@ -240,14 +262,20 @@ export class FileProcessor {
 
   /**
    * 处理文件事件（用于实时监听）
-   * 只处理文件的 add 和 change 事件，目录由定期扫描处理
-   * @param eventType 事件类型 (add | change)
+   * 处理文件的 add 和 change 事件，目录由定期扫描处理；文件和目录的删除交给源文件跟踪处理
+   * @param eventType 事件类型 (add | change | unlink | unlinkDir)
    * @param fileInfo 文件信息
    */
   public async handleFileEvent(
     eventType: string,
     fileInfo: { path: string; filename: string; isDirectory: boolean }
   ): Promise<number | null> {
+    if (eventType === "unlink" || eventType === "unlinkDir") {
+      logger.info(`[实时监听] 检测到删除: ${fileInfo.path}`);
+      getSourceTracker().handleRemoved(fileInfo.path);
+      return null;
+    }
+
     // 只处理新增和修改事件
     if (eventType !== "add" && eventType !== "change") {
       return null;
@@ -420,33 +448,31 @@ export class FileProcessor {
   }
 
   /**
-   * 处理单个视频文件：验证、构建目标路径、创建硬链接并保存记录
+   * 处理单个视频文件：验证、构建目标路径、为视频及其同名字幕创建硬链接并保存记录
    * @param fileInfo 文件信息
    * @param media 已识别的媒体信息
    * @param targetPath 目标目录路径
    * @param isSaveDatabase 是否保存到数据库
+   * @param routingRule 命中的路由规则名称
+   * @param replacedVersions 被新版本替换的已有版本
+   * @param mediaInfo 已读取的媒体信息，未提供时读取源文件
    * @returns FileDetails或void
    */
   public async handleSingleFile(
     fileInfo: { path: string; filename: string },
     media: IdentifiedMedia,
     targetPath: string,
-    isSaveDatabase = true
+    isSaveDatabase = true,
+    routingRule: string | null = null,
+    replacedVersions: ExistingVersion[] = [],
+    mediaInfo?: MediaProbeResult | null
   ): Promise<FileDetails | void> {
     if (!this.isValidVideoFile(fileInfo.filename)) {
       return;
     }
 
-    const fileExt = path.extname(fileInfo.filename);
-    const targetFileName = this.buildTargetFileName(media, fileExt);
-    const targetFilePath = path.join(targetPath, targetFileName);
-
-    await fs.mkdir(targetPath, { recursive: true });
-
-    const fileDetails = await this.prepareFileDetails(
-      fileInfo.path,
-      targetFilePath
-    );
+    const targetFilePath = this.buildLinkPath(media, targetPath, fileInfo.path);
+    const fileDetails = await this.linkVideoFile(fileInfo.path, targetFilePath, routingRule, undefined, replacedVersions, mediaInfo);
 
     if (isSaveDatabase) {
       await this.mediaRepository.saveMediaAndFile(media, fileDetails);
@@ -456,16 +482,81 @@ export class FileProcessor {
   }
 
   /**
-   * 根据媒体信息构建目标目录的完整路径
+   * 创建视频文件及其同名字幕的硬链接并读取媒体信息，不保存数据库
+   * @param sourcePath 源文件路径
+   * @param linkPath 视频硬链接路径
+   * @param routingRule 命中的路由规则名称
+   * @param subtitles 要链接的字幕，为空时重新查找
+   * @param replacedVersions 被新版本替换的已有版本，新链接创建成功后才标记为已被替换
+   * @param mediaInfo 已读取的媒体信息，未提供时读取源文件
+   * @returns 文件详细信息
+   */
+  public async linkVideoFile(
+    sourcePath: string,
+    linkPath: string,
+    routingRule: string | null = null,
+    subtitles?: SubtitleCompanion[],
+    replacedVersions: ExistingVersion[] = [],
+    mediaInfo?: MediaProbeResult | null
+  ): Promise<FileDetails> {
+    await fs.mkdir(path.dirname(linkPath), { recursive: true });
+
+    // 已有版本占用同一链接路径时原子覆盖，链接失败时已有版本保持不变
+    const replaced = replacedVersions.find(version => version.linkPath === linkPath);
+    const fileDetails = await this.prepareFileDetails(sourcePath, linkPath, replaced);
+    await supersedeVersions(replacedVersions, linkPath);
+    fileDetails.routingRule = routingRule;
+    // 同名字幕按视频硬链接的文件名一起链接
+    fileDetails.subtitles = await linkSubtitleCompanions(sourcePath, linkPath, this.config, subtitles);
+    fileDetails.mediaInfo = mediaInfo !== undefined ? mediaInfo : await probeMediaFile(sourcePath);
+    return fileDetails;
+  }
+
+  /**
+   * 根据命名模板构建视频硬链接的完整路径
+   * @param media 已识别的媒体信息
+   * @param targetPath 目标目录路径
+   * @param sourcePath 源文件路径
+   */
+  public buildLinkPath(media: IdentifiedMedia, targetPath: string, sourcePath: string): string {
+    return path.join(targetPath, this.buildTargetFileName(media, path.extname(sourcePath), sourcePath));
+  }
+
+  /**
+   * 构建附加内容的链接路径，保留源文件名，放在作品目录的附加内容子目录中
+   * @param targetPath 目标目录路径
+   * @param sourcePath 源文件路径
+   * @param extraType 附加内容类型
+   */
+  public buildExtraLinkPath(targetPath: string, sourcePath: string, extraType: ExtraType): string {
+    return path.join(targetPath, extraType, path.basename(sourcePath));
+  }
+
+  /**
+   * 按路由规则选择目标根目录，再根据源文件所属媒体库的命名模板构建目标目录的完整路径
    * @param media 已识别的媒体信息
-   * @returns 目标目录路径
+   * @param sourcePath 源文件路径
+   * @returns 目标目录路径和命中的路由规则名称
    */
-  public buildTargetPath(media: IdentifiedMedia): string {
-    let targetPath = path.join(this.config.targetFilePath, media.title);
-    if (media.type === "tv" && media.seasonNumber) {
-      targetPath = path.join(targetPath, `Season ${media.seasonNumber}`);
+  public async resolveTargetPath(
+    media: IdentifiedMedia,
+    sourcePath: string
+  ): Promise<{ targetPath: string; routingRule: string | null }> {
+    // 读取最新配置，使界面修改的路由规则立即生效
+    const config = getConfig();
+    const route = await new MediaRouter(config).resolve(media, sourcePath);
+    const { directory } = buildMediaRelativePath(
+      media,
+      getConfigForPath(sourcePath, config),
+      toReleaseTokens(parseReleaseColumns(sourcePath))
+    );
+    if (route.rule) {
+      logger.info(`命中路由规则 "${route.rule.name}": ${sourcePath} -> ${route.targetPath}`);
     }
-    return targetPath;
+    return {
+      targetPath: path.join(route.targetPath, directory),
+      routingRule: route.rule?.name ?? null,
+    };
   }
 
   /**
@@ -477,12 +568,11 @@ export class FileProcessor {
     try {
       // 直接创建硬链接，不经过刮削流程
       const targetPath = path.join(
-        this.config.targetFilePath,
+        getConfigForPath(filePath, this.config).targetFilePath,
         path.basename(filePath)
       );
       
-      await createHardlink(filePath, targetPath);
-      logger.info(`成功创建硬链接: ${filePath} -> ${targetPath}`);
+      await createHardlink(filePath, targetPath, getLinkModes(targetPath));
     } catch (error) {
       logger.error(`创建硬链接失败: ${filePath}`, error);
       throw error;
@@ -490,22 +580,19 @@ export class FileProcessor {
   }
 
   /**
-   * 根据媒体信息和文件扩展名构建目标文件名
+   * 根据命名模板和文件扩展名构建目标文件名
    * @param media 已识别的媒体信息
    * @param fileExt 文件扩展名
+   * @param sourcePath 源文件路径
    * @returns 目标文件名
    */
-  private buildTargetFileName(media: IdentifiedMedia, fileExt: string): string {
-    let targetFileName = media.title;
-    if (media.type === "tv") {
-      targetFileName = `${media.title} S${String(media.seasonNumber).padStart(
-        2,
-        "0"
-      )}E${String(media.episodeNumber).padStart(2, "0")} ${
-        media.episodeTitle || ""
-      }`.trim();
-    }
-    return targetFileName + fileExt;
+  private buildTargetFileName(media: IdentifiedMedia, fileExt: string, sourcePath: string): string {
+    const { fileName } = buildMediaRelativePath(
+      media,
+      getConfigForPath(sourcePath, this.config),
+      toReleaseTokens(parseReleaseColumns(sourcePath))
+    );
+    return fileName + fileExt;
   }
 
   /**
@@ -516,10 +603,13 @@ export class FileProcessor {
    */
   private async prepareFileDetails(
     sourcePath: string,
-    targetPath: string
+    targetPath: string,
+    replaced?: ExistingVersion
   ): Promise<FileDetails> {
     try {
-      await createHardlink(sourcePath, targetPath);
+      const linkMode = replaced
+        ? await replaceHardlink(sourcePath, targetPath, getLinkModes(targetPath), replaced.filePath, replaced.linkMode as LinkMode | null)
+        : await createHardlink(sourcePath, targetPath, getLinkModes(targetPath));
       const deviceInfo = await getFileDeviceInfo(sourcePath);
       const fileHash = await calculateFileHash(sourcePath, Number(deviceInfo.size));
 
@@ -530,6 +620,7 @@ export class FileProcessor {
         inode: deviceInfo.inode,
         fileSize: deviceInfo.size,
         fileHash: fileHash,
+        linkMode,
       };
     } catch (error) {
       logger.error(`准备文件详情时出错 (源: ${sourcePath})`, error);
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview 文件夹识别提示文件
+ * @description 读取媒体文件所在目录及其上级目录中的 .amh.json，用于固定识别结果或忽略目录
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getConfigForPath } from '@/config/library';
+import { NonRetryableError } from '@/core/errors';
+import { logger } from '@/utils/logger';
+import { AppliedFolderHint, FolderHint } from '@/types/media.types';
+
+/**
+ * 提示文件名
+ */
+export const HINT_FILE_NAME = '.amh.json';
+
+/**
+ * 校验提示文件内容
+ * @throws {NonRetryableError} 格式错误时抛出，重试无法修复
+ */
+function parseHint(hintPath: string, content: string): FolderHint {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new NonRetryableError(`提示文件不是有效的JSON: ${hintPath} - ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new NonRetryableError(`提示文件必须是JSON对象: ${hintPath}`);
+  }
+
+  const hint = data as Record<string, unknown>;
+  if (hint.tmdbId !== undefined && (!Number.isInteger(hint.tmdbId) || (hint.tmdbId as number) <= 0)) {
+    throw new NonRetryableError(`提示文件中的 tmdbId 必须是正整数: ${hintPath}`);
+  }
+  if (hint.type !== undefined && hint.type !== 'tv' && hint.type !== 'movie') {
+    throw new NonRetryableError(`提示文件中的 type 必须是 "tv" 或 "movie": ${hintPath}`);
+  }
+  if (hint.tmdbId !== undefined && hint.type === undefined) {
+    throw new NonRetryableError(`提示文件固定 tmdbId 时必须同时指定 type: ${hintPath}`);
+  }
+  for (const key of ['seasonOffset', 'episodeOffset']) {
+    if (hint[key] !== undefined && !Number.isInteger(hint[key])) {
+      throw new NonRetryableError(`提示文件中的 ${key} 必须是整数: ${hintPath}`);
+    }
+  }
+  if (hint.ignore !== undefined && typeof hint.ignore !== 'boolean') {
+    throw new NonRetryableError(`提示文件中的 ignore 必须是布尔值: ${hintPath}`);
+  }
+
+  return {
+    tmdbId: hint.tmdbId as number | undefined,
+    type: hint.type as FolderHint['type'],
+    seasonOffset: hint.seasonOffset as number | undefined,
+    episodeOffset: hint.episodeOffset as number | undefined,
+    ignore: hint.ignore as boolean | undefined,
+  };
+}
+
+/**
+ * 查找适用于指定路径的提示文件
+ * 从所在目录（目录任务为目录本身）向上查找到所属媒体库的监听目录为止，使用最近的提示文件
+ * @param targetPath 文件或目录路径
+ * @param isDirectory 是否为目录
+ * @returns 未找到提示文件时返回 null
+ */
+export async function findFolderHint(
+  targetPath: string,
+  isDirectory: boolean
+): Promise<AppliedFolderHint | null> {
+  const rootPath = path.resolve(getConfigForPath(targetPath).monitorFilePath);
+  let currentDir = path.resolve(isDirectory ? targetPath : path.dirname(targetPath));
+
+  while (true) {
+    const hintPath = path.join(currentDir, HINT_FILE_NAME);
+    let content: string | null = null;
+    try {
+      content = await fs.promises.readFile(hintPath, 'utf-8');
+    } catch {
+      // 当前目录没有提示文件
+    }
+
+    if (content !== null) {
+      const hint = parseHint(hintPath, content);
+      logger.debug(`使用提示文件: ${hintPath} -> ${JSON.stringify(hint)}`);
+      return { ...hint, path: hintPath };
+    }
+
+    const parentDir = path.dirname(currentDir);
+    if (currentDir === rootPath || parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * @fileoverview 链接完整性校验
+ * @description 检查数据库中的文件记录与磁盘上的源文件、链接是否一致，查找目标目录中没有记录的文件，并提供修复操作
+ */
+
+import fs from 'fs';
+import path from 'path';
+import client from '@/client';
+import { getConfig, LinkMode } from '@/config/config';
+import { getLibraryRoots, getLinkModes, getTargetRoots, isInsideAny } from '@/config/library';
+import { BusinessError, ErrorType } from '@/core/errors';
+import { logger } from '@/utils/logger';
+import { getStats } from '@/utils/fs';
+import { createHardlink, createHardlinkRecursively, detectLinkMode, replaceHardlink } from '@/utils/hardlink';
+import { calculateFileHash, getFileDeviceInfo } from '@/utils/hash';
+import { journalFileRecord } from './operationJournal';
+import { parseReleaseColumns } from './quality';
+
+const prisma = client;
+
+/**
+ * 问题类型：源文件丢失、链接丢失、链接与源文件不一致、目标目录中没有记录的文件
+ */
+export type IntegrityIssueType = 'missing_source' | 'missing_link' | 'inode_mismatch' | 'untracked_link';
+
+/**
+ * 修复操作：重新创建链接、删除数据库记录、为目标文件创建记录
+ */
+export type IntegrityRepairAction = 'relink' | 'forget' | 'adopt';
+
+/**
+ * 校验发现的问题
+ */
+export interface IntegrityIssue {
+  // 问题标识，修复时使用
+  id: string;
+  type: IntegrityIssueType;
+  // 对应的文件记录，目标目录中没有记录的文件为 null
+  fileId: number | null;
+  // 源文件路径，没有记录且找不到源文件时为 null
+  filePath: string | null;
+  linkPath: string;
+  isDirectory: boolean;
+  detail: string;
+  // 可用的修复操作
+  actions: IntegrityRepairAction[];
+}
+
+/**
+ * 校验结果
+ */
+export interface IntegrityReport {
+  checkedAt: string;
+  duration: number;
+  checkedFiles: number;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * 递归列出目录下的所有文件，不进入符号链接指向的目录
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    logger.warn(`读取目录失败 ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(entryPath));
+    } else if (entry.isFile() || entry.isSymbolicLink()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * @class IntegrityChecker
+ * @description 校验文件记录的源文件、链接和 inode 是否仍然有效，并按配置定期执行。
+ * 最近一次的校验结果保存在内存中，修复操作只针对其中的问题。
+ */
+export class IntegrityChecker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private running = false;
+  private report: IntegrityReport | null = null;
+
+  /**
+   * 按配置启动定期校验
+   */
+  start(): void {
+    const integrityCheck = getConfig().integrityCheck;
+    if (!integrityCheck?.enabled) {
+      logger.info('定期完整性校验已禁用');
+      return;
+    }
+
+    // 将小时转换为毫秒
+    const intervalMs = integrityCheck.interval * 60 * 60 * 1000;
+    this.intervalId = setInterval(() => {
+      this.check().catch(error => logger.error('定期完整性校验失败', error));
+    }, intervalMs);
+    logger.info(`定期完整性校验已启动，间隔: ${integrityCheck.interval}小时`);
+  }
+
+  /**
+   * 停止定期校验
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('定期完整性校验已停止');
+    }
+  }
+
+  /**
+   * 检查是否正在校验
+   */
+  isChecking(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 获取最近一次的校验结果，尚未校验时为 null
+   */
+  getReport(): IntegrityReport | null {
+    return this.report;
+  }
+
+  /**
+   * 执行校验，不修改任何文件
+   */
+  async check(): Promise<IntegrityReport> {
+    if (this.running) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '完整性校验正在进行中');
+    }
+    this.running = true;
+    const startTime = Date.now();
+    logger.info('开始执行完整性校验');
+
+    try {
+      // 已被更高质量版本替换的记录没有链接，不参与校验
+      const files = await prisma.file.findMany({ where: { supersededAt: null }, orderBy: { id: 'asc' } });
+      const issues: IntegrityIssue[] = [];
+
+      for (const file of files) {
+        const issue = await this.checkFile(file);
+        if (issue) issues.push(issue);
+      }
+      issues.push(...await this.findUntrackedLinks(files));
+
+      this.report = {
+        checkedAt: new Date().toISOString(),
+        duration: Date.now() - startTime,
+        checkedFiles: files.length,
+        issues,
+      };
+      logger.info(`完整性校验完成: 检查 ${files.length} 条记录，发现 ${issues.length} 个问题，耗时 ${this.report.duration}ms`);
+      return this.report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * 修复最近一次校验发现的问题
+   * @param issueId 问题标识
+   * @param action 修复操作，必须是问题可用的操作之一
+   */
+  async repair(issueId: string, action: IntegrityRepairAction): Promise<void> {
+    const issue = this.report?.issues.find(item => item.id === issueId);
+    if (!issue) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '问题不存在，请重新校验');
+    }
+    if (!issue.actions.includes(action)) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '该问题不支持此修复操作');
+    }
+
+    switch (action) {
+      case 'relink':
+        await this.relink(issue.fileId!);
+        break;
+      case 'forget':
+        await journalFileRecord(issue.fileId!);
+        await prisma.file.delete({ where: { id: issue.fileId! } });
+        logger.info(`删除文件记录: ${issue.filePath} (ID: ${issue.fileId})`);
+        break;
+      case 'adopt':
+        await this.adopt(issue.filePath!, issue.linkPath);
+        break;
+    }
+
+    this.report!.issues = this.report!.issues.filter(item => item.id !== issueId);
+  }
+
+  /**
+   * 检查单条文件记录
+   * 目录只检查源目录和链接目录是否存在
+   */
+  private async checkFile(file: {
+    id: number;
+    deviceId: bigint;
+    inode: bigint;
+    fileSize: bigint;
+    filePath: string;
+    linkPath: string;
+    isDirectory: boolean;
+    linkMode: string | null;
+  }): Promise<IntegrityIssue | null> {
+    const base = {
+      fileId: file.id,
+      filePath: file.filePath,
+      linkPath: file.linkPath,
+      isDirectory: file.isDirectory,
+    };
+
+    let sourceStats: fs.Stats;
+    try {
+      sourceStats = await fs.promises.stat(file.filePath);
+    } catch {
+      return { ...base, id: `missing_source:${file.id}`, type: 'missing_source', detail: '源文件不存在', actions: ['forget'] };
+    }
+
+    const linkStats = await getStats(file.linkPath);
+    if (!linkStats) {
+      return { ...base, id: `missing_link:${file.id}`, type: 'missing_link', detail: '链接不存在', actions: ['relink', 'forget'] };
+    }
+
+    const mismatch = (detail: string): IntegrityIssue => ({
+      ...base,
+      id: `inode_mismatch:${file.id}`,
+      type: 'inode_mismatch',
+      detail,
+      actions: ['relink', 'forget'],
+    });
+
+    if (BigInt(sourceStats.dev) !== file.deviceId || BigInt(sourceStats.ino) !== file.inode) {
+      return mismatch('源文件已被替换，与记录的 inode 不一致');
+    }
+    if (file.isDirectory) {
+      return null;
+    }
+
+    const linkMode = (file.linkMode ?? 'hardlink') as LinkMode;
+    const actualMode = await detectLinkMode(file.filePath, file.linkPath);
+    if (linkMode === 'symlink') {
+      if (actualMode !== 'symlink') {
+        return mismatch('记录为符号链接，但链接不是符号链接');
+      }
+      const target = path.resolve(path.dirname(file.linkPath), await fs.promises.readlink(file.linkPath));
+      if (target !== path.resolve(file.filePath)) {
+        return mismatch(`符号链接指向其他文件: ${target}`);
+      }
+    } else if (linkMode === 'hardlink') {
+      if (actualMode !== 'hardlink') {
+        return mismatch('链接与源文件的 inode 不一致');
+      }
+    } else if (actualMode === 'symlink' || linkStats.size !== sourceStats.size) {
+      return mismatch('副本与源文件的大小不一致');
+    }
+
+    return null;
+  }
+
+  /**
+   * 查找目标目录中没有记录的视频文件
+   * 硬链接按 inode、符号链接按指向的路径在监听目录中查找源文件，找到时可以为其创建记录
+   */
+  private async findUntrackedLinks(files: Array<{
+    filePath: string;
+    linkPath: string;
+    isDirectory: boolean;
+  }>): Promise<IntegrityIssue[]> {
+    const config = getConfig();
+    const videoExtensions = config.videoExtensions.map(ext => ext.toLowerCase());
+    const isVideo = (filePath: string) => videoExtensions.includes(path.extname(filePath).toLowerCase());
+    const targetRoots = getTargetRoots(config);
+
+    const trackedLinks = new Set(files.map(file => path.resolve(file.linkPath)));
+    const trackedSources = new Set(files.map(file => path.resolve(file.filePath)));
+    const trackedDirectories = files.filter(file => file.isDirectory).map(file => path.resolve(file.linkPath));
+
+    const untracked: string[] = [];
+    for (const filePath of (await Promise.all(targetRoots.map(listFiles))).flat()) {
+      if (isVideo(filePath) && !trackedLinks.has(filePath) && !isInsideAny(filePath, trackedDirectories)) {
+        untracked.push(filePath);
+      }
+    }
+    // 嵌套的目标目录会重复列出同一文件
+    const linkPaths = [...new Set(untracked)];
+    if (linkPaths.length === 0) {
+      return [];
+    }
+
+    // 按设备ID和 inode 索引监听目录中的视频文件，用于查找硬链接的源文件
+    const sourcesByInode = new Map<string, string>();
+    for (const root of getLibraryRoots(config)) {
+      for (const sourcePath of await listFiles(path.resolve(root.monitorPath))) {
+        const stats = isVideo(sourcePath) ? await getStats(sourcePath) : null;
+        if (stats?.isFile()) {
+          sourcesByInode.set(`${stats.dev}:${stats.ino}`, sourcePath);
+        }
+      }
+    }
+
+    const issues: IntegrityIssue[] = [];
+    for (const linkPath of linkPaths) {
+      const stats = await getStats(linkPath);
+      let sourcePath: string | null = null;
+      if (stats?.isSymbolicLink()) {
+        sourcePath = path.resolve(path.dirname(linkPath), await fs.promises.readlink(linkPath));
+        if (!await getStats(sourcePath)) sourcePath = null;
+      } else if (stats) {
+        sourcePath = sourcesByInode.get(`${stats.dev}:${stats.ino}`) ?? null;
+      }
+
+      let detail = '目标目录中的文件没有对应的记录';
+      if (!sourcePath) {
+        detail += '，未在监听目录中找到源文件';
+      } else if (trackedSources.has(sourcePath)) {
+        detail += '，源文件已有其他链接的记录';
+      }
+
+      issues.push({
+        id: `untracked_link:${linkPath}`,
+        type: 'untracked_link',
+        fileId: null,
+        filePath: sourcePath,
+        linkPath,
+        isDirectory: false,
+        detail,
+        actions: sourcePath && !trackedSources.has(sourcePath) ? ['adopt'] : [],
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * 从源文件重新创建链接，并更新记录的 inode、哈希和链接方式
+   * 文件会先删除已有的链接（NFO 保留），目录只补充缺失的文件
+   */
+  private async relink(fileId: number): Promise<void> {
+    const file = await prisma.file.findUnique({ where: { id: fileId }, include: { subtitles: true } });
+    if (!file) {
+      throw new BusinessError(ErrorType.FILE_NOT_FOUND, '文件记录不存在');
+    }
+
+    const modes = getLinkModes(file.linkPath);
+    let linkMode: LinkMode | null;
+    if (file.isDirectory) {
+      await fs.promises.mkdir(file.linkPath, { recursive: true });
+      linkMode = await createHardlinkRecursively(file.filePath, file.linkPath, modes) ?? file.linkMode as LinkMode | null;
+    } else {
+      // 先创建新链接再覆盖原链接，创建失败时保留原链接
+      linkMode = await replaceHardlink(file.filePath, file.linkPath, modes, file.filePath, file.linkMode as LinkMode | null);
+    }
+
+    const deviceInfo = await getFileDeviceInfo(file.filePath);
+    await journalFileRecord(fileId);
+    await prisma.file.update({
+      where: { id: fileId },
+      data: {
+        deviceId: deviceInfo.deviceId,
+        inode: deviceInfo.inode,
+        fileSize: deviceInfo.size,
+        fileHash: file.isDirectory ? null : await calculateFileHash(file.filePath, Number(deviceInfo.size)),
+        linkMode,
+      },
+    });
+
+    // 补充缺失的字幕链接
+    for (const subtitle of file.subtitles) {
+      if (await getStats(subtitle.linkPath) || !await getStats(subtitle.filePath)) continue;
+      try {
+        await createHardlink(subtitle.filePath, subtitle.linkPath, getLinkModes(subtitle.linkPath));
+      } catch (error) {
+        logger.warn(`重新创建字幕链接失败 ${subtitle.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    logger.info(`重新创建链接: ${file.filePath} -> ${file.linkPath}`);
+  }
+
+  /**
+   * 为目标目录中没有记录的文件创建记录，不关联媒体信息
+   */
+  private async adopt(sourcePath: string, linkPath: string): Promise<void> {
+    const deviceInfo = await getFileDeviceInfo(sourcePath);
+    const record = await prisma.file.create({
+      data: {
+        deviceId: deviceInfo.deviceId,
+        inode: deviceInfo.inode,
+        fileSize: deviceInfo.size,
+        fileHash: await calculateFileHash(sourcePath, Number(deviceInfo.size)),
+        filePath: sourcePath,
+        linkPath,
+        linkMode: await detectLinkMode(sourcePath, linkPath),
+        ...parseReleaseColumns(sourcePath),
+      },
+    });
+    await journalFileRecord(record.id, true);
+    logger.info(`为已有链接创建记录: ${sourcePath} -> ${linkPath}`);
+  }
+}
+
+// 全局校验实例
+let globalIntegrityChecker: IntegrityChecker | null = null;
+
+/**
+ * 获取全局完整性校验实例
+ */
+export function getIntegrityChecker(): IntegrityChecker {
+  if (!globalIntegrityChecker) {
+    globalIntegrityChecker = new IntegrityChecker();
+  }
+  return globalIntegrityChecker;
+}
@@ -2,9 +2,11 @@ import fs from 'fs';
 import path from 'path';
 import { glob } from 'fast-glob';
 import { PrismaClient } from '@/generated/client';
-import { getConfig } from '@/config/config';
+import { getConfig, LibraryRootConfig } from '@/config/config';
+import { findLibraryRoot, getLibraryRoots, isIgnoredByLibrary } from '@/config/library';
 import { logger } from '@/utils/logger';
 import { generatePathHash } from '@/utils/hash';
+import { ScrapingTaskData } from '@/types/queue.types';
 import { getContainer } from './container';
 import { FileProcessor } from './fileProcessor';
 import { SpecialFolderProcessor } from './specialFolderProcessor';
@@ -27,6 +29,16 @@ export interface ScanResult {
   filesAdded: number;
   duration: number;
   errors: string[];
+  // 预演模式下待处理的视频文件和特殊文件夹
+  sources?: ScrapingTaskData[];
+}
+
+/**
+ * 扫描选项
+ */
+export interface ScanOptions {
+  // 预演模式：只收集待处理的文件，不写入数据库、不推送队列，也不记录扫描日志
+  dryRun?: boolean;
 }
 
 /**
@@ -66,64 +78,88 @@ export class LibraryScanner {
   }
 
   /**
-   * 扫描所有配置的库路径
+   * 扫描所有配置的媒体库，每个媒体库单独记录扫描日志
+   * 预演模式下返回的 sources 为所有媒体库中待处理的文件和特殊文件夹
    */
-  async scanAllLibraries(): Promise<ScanResult> {
+  async scanAllLibraries(options: ScanOptions = {}): Promise<ScanResult> {
     const startTime = Date.now();
     let totalFilesFound = 0;
     let totalFilesAdded = 0;
     const allErrors: string[] = [];
+    const allSources: ScrapingTaskData[] = [];
 
-    try {
-      const libraryPath = this.config.monitorFilePath;
-      logger.info(`开始扫描库路径: ${libraryPath}`);
-      
-      const result = await this.scanLibraryPath(libraryPath);
+    for (const root of getLibraryRoots(this.config)) {
+      const result = await this.scanLibrary(root, options);
       totalFilesFound += result.filesFound;
       totalFilesAdded += result.filesAdded;
       allErrors.push(...result.errors);
-      
-      logger.info(`库路径 ${libraryPath} 扫描完成: 发现 ${result.filesFound} 个文件，新增 ${result.filesAdded} 个`);
+      allSources.push(...(result.sources ?? []));
+    }
+
+    return {
+      filesFound: totalFilesFound,
+      filesAdded: totalFilesAdded,
+      duration: Date.now() - startTime,
+      errors: allErrors,
+      ...(options.dryRun ? { sources: allSources } : {})
+    };
+  }
+
+  /**
+   * 扫描单个媒体库并记录扫描日志
+   */
+  private async scanLibrary(root: LibraryRootConfig, options: ScanOptions): Promise<ScanResult> {
+    const startTime = Date.now();
+
+    try {
+      logger.info(`开始${options.dryRun ? '预演' : ''}扫描媒体库 ${root.name}: ${root.monitorPath}`);
 
+      const result = await this.scanLibraryPath(root, options);
       const duration = Date.now() - startTime;
-      
+
+      logger.info(`媒体库 ${root.name} 扫描完成: 发现 ${result.filesFound} 个文件，新增 ${result.filesAdded} 个`);
+
+      if (options.dryRun) {
+        return { ...result, duration };
+      }
+
       // 记录扫描日志
       await this.logScanResult({
-        scanPath: this.config.monitorFilePath,
-        filesFound: totalFilesFound,
-        filesAdded: totalFilesAdded,
+        scanPath: root.monitorPath,
+        filesFound: result.filesFound,
+        filesAdded: result.filesAdded,
         duration,
-        errors: allErrors,
-        status: allErrors.length > 0 ? 'error' : 'success'
+        errors: result.errors,
+        status: result.errors.length > 0 ? 'error' : 'success'
       });
 
-      return {
-        filesFound: totalFilesFound,
-        filesAdded: totalFilesAdded,
-        duration,
-        errors: allErrors
-      };
+      return { ...result, duration };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '未知错误';
-      logger.error('扫描库失败', error);
-      
+      logger.error(`扫描媒体库 ${root.name} 失败`, error);
+
+      const duration = Date.now() - startTime;
+      if (options.dryRun) {
+        return { filesFound: 0, filesAdded: 0, duration, errors: [errorMessage] };
+      }
       await this.logScanResult({
-        scanPath: this.config.monitorFilePath,
-        filesFound: totalFilesFound,
-        filesAdded: totalFilesAdded,
-        duration: Date.now() - startTime,
-        errors: [...allErrors, errorMessage],
+        scanPath: root.monitorPath,
+        filesFound: 0,
+        filesAdded: 0,
+        duration,
+        errors: [errorMessage],
         status: 'error'
       });
 
-      throw error;
+      return { filesFound: 0, filesAdded: 0, duration, errors: [errorMessage] };
     }
   }
 
   /**
-   * 扫描单个库路径
+   * 扫描单个媒体库路径
    */
-  private async scanLibraryPath(libraryPath: string): Promise<ScanResult> {
+  private async scanLibraryPath(root: LibraryRootConfig, options: ScanOptions): Promise<ScanResult> {
+    const libraryPath = root.monitorPath;
     if (!fs.existsSync(libraryPath)) {
       const error = `库路径不存在: ${libraryPath}`;
       logger.error(error);
@@ -134,33 +170,54 @@ export class LibraryScanner {
     const errors: string[] = [];
     let filesFound = 0;
     let filesAdded = 0;
+    const sources: ScrapingTaskData[] = [];
 
     try {
       logger.info(`开始统一扫描库路径: ${libraryPath}`);
       
-      // 扫描所有文件夹
-      const scanMaxDepth = this.config.scanConfig.scanMaxDepth;
-      const allFolders = await this.scanFolders(libraryPath, scanMaxDepth);
+      // 扫描所有文件夹，跳过忽略规则命中的路径和嵌套的其他媒体库
+      const scanMaxDepth = root.scanMaxDepth ?? this.config.scanConfig.scanMaxDepth;
+      const allFolders = (await this.scanFolders(libraryPath, scanMaxDepth))
+        .filter(folderPath => this.belongsToLibrary(folderPath, root));
 
       // 识别和处理特殊文件夹
-      const { specialFolders, processedPaths } = await this.identifyAndProcessSpecialFolders(
+      const { specialFolders, processedPaths, queuedFolders } = await this.identifyAndProcessSpecialFolders(
         allFolders, 
-        errors
+        errors,
+        options.dryRun ?? false
       );
       
       logger.info(`特殊文件夹处理完成: ${specialFolders} 个`);
 
       //扫描普通视频和字幕文件（排除已处理的特殊文件夹）
       const normalFiles = await this.scanNormalFiles(
-        libraryPath, 
+        root,
         processedPaths,
         errors
       );
       
       filesFound = normalFiles.length;
 
-      // 批量处理普通文件
-      filesAdded = await this.processFileInfos(normalFiles, errors);
+      if (options.dryRun) {
+        // 预演时只收集新发现的特殊文件夹和视频文件
+        const newFiles = await this.filterNewFiles(normalFiles);
+        filesAdded = newFiles.length;
+        sources.push(
+          ...queuedFolders.map(folderPath => ({
+            filePath: folderPath,
+            fileName: path.basename(folderPath),
+            isDirectory: true
+          })),
+          ...newFiles.filter(info => info.type === 'video').map(info => ({
+            filePath: info.path,
+            fileName: path.basename(info.path),
+            isDirectory: false
+          }))
+        );
+      } else {
+        // 批量处理普通文件
+        filesAdded = await this.processFileInfos(normalFiles, errors);
+      }
 
       logger.info(`普通文件处理完成: 发现 ${filesFound} 个，新增 ${filesAdded} 个`);
 
@@ -174,7 +231,8 @@ export class LibraryScanner {
       filesFound,
       filesAdded,
       duration: Date.now() - startTime,
-      errors
+      errors,
+      ...(options.dryRun ? { sources } : {})
     };
   }
 
@@ -210,13 +268,17 @@ export class LibraryScanner {
 
   /**
    * 识别和处理特殊文件夹（快速扫描 + 队列处理）
+   * @param dryRun 预演模式，只返回新发现的特殊文件夹，不推送队列
    */
   private async identifyAndProcessSpecialFolders(
     folders: string[],
-    errors: string[]
-  ): Promise<{ specialFolders: number; processedPaths: Set<string> }> {
+    errors: string[],
+    dryRun: boolean
+  ): Promise<{ specialFolders: number; processedPaths: Set<string>; queuedFolders: string[] }> {
     const processedPaths = new Set<string>();
     let specialFolderCount = 0;
+    // 快速收集可能的特殊文件夹（基础规则判断，不调用 LLM）
+    const foldersToQueue: string[] = [];
 
     try {
       // 批量查询数据库中已存在的文件夹
@@ -240,9 +302,6 @@ export class LibraryScanner {
 
       logger.debug(`数据库中已存在 ${existingFolders.length} 个文件夹记录`);
 
-      // 快速收集可能的特殊文件夹（基础规则判断，不调用 LLM）
-      const foldersToQueue: string[] = [];
-
       for (const folderPath of folders) {
         try {
           // 检查是否是已处理特殊文件夹的子文件夹
@@ -293,7 +352,7 @@ export class LibraryScanner {
       }
 
       // 快速添加到队列
-      if (foldersToQueue.length > 0) {
+      if (foldersToQueue.length > 0 && !dryRun) {
         logger.info(`发现 ${foldersToQueue.length} 个可能的特殊文件夹，添加到队列进行异步处理`);
         await this.specialFolderProcessor.enqueueFoldersForProcessing(foldersToQueue);
       }
@@ -304,17 +363,26 @@ export class LibraryScanner {
       logger.error(errorMessage, error);
     }
 
-    return { specialFolders: specialFolderCount, processedPaths };
+    return { specialFolders: specialFolderCount, processedPaths, queuedFolders: foldersToQueue };
+  }
+
+  /**
+   * 判断路径是否由该媒体库处理：未命中忽略规则，且不属于嵌套在其中的其他媒体库
+   */
+  private belongsToLibrary(filePath: string, root: LibraryRootConfig): boolean {
+    return !isIgnoredByLibrary(filePath, root)
+      && findLibraryRoot(filePath, this.config)?.name === root.name;
   }
 
   /**
    * 扫描普通文件（排除特殊文件夹）
    */
   private async scanNormalFiles(
-    libraryPath: string,
+    root: LibraryRootConfig,
     excludePaths: Set<string>,
     errors: string[]
   ): Promise<FileInfo[]> {
+    const libraryPath = root.monitorPath;
     try {
       // 构建文件扩展名匹配模式
       const videoExtensions = this.config.videoExtensions.map(ext => ext.toLowerCase());
@@ -331,9 +399,9 @@ export class LibraryScanner {
         onlyFiles: true
       });
 
-      // 过滤掉特殊文件夹内的文件
+      // 过滤掉特殊文件夹内的文件及不属于该媒体库的文件
       const filteredFiles = files.filter(filePath => {
-        return !Array.from(excludePaths).some(excludePath => 
+        return this.belongsToLibrary(filePath, root) && !Array.from(excludePaths).some(excludePath => 
           filePath.startsWith(excludePath + path.sep)
         );
       });
@@ -375,22 +443,8 @@ export class LibraryScanner {
   private async processFileInfos(fileInfos: FileInfo[], errors: string[]): Promise<number> {
     let filesAdded = 0;
 
-    // 获取已存在的文件哈希
-    const pathHashes = fileInfos.map(info => info.pathHash);
-    const existingFiles = await this.prisma.library.findMany({
-      where: {
-        pathHash: {
-          in: pathHashes
-        }
-      },
-      select: {
-        pathHash: true
-      }
-    });
-    const existingHashSet = new Set(existingFiles.map(f => f.pathHash));
-
     // 筛选出新文件
-    const newFiles = fileInfos.filter(info => !existingHashSet.has(info.pathHash));
+    const newFiles = await this.filterNewFiles(fileInfos);
 
     // 批量插入新文件
     if (newFiles.length > 0) {
@@ -423,6 +477,27 @@ export class LibraryScanner {
     return filesAdded;
   }
 
+  /**
+   * 筛选出库中尚不存在的文件
+   */
+  private async filterNewFiles(fileInfos: FileInfo[]): Promise<FileInfo[]> {
+    // 获取已存在的文件哈希
+    const pathHashes = fileInfos.map(info => info.pathHash);
+    const existingFiles = await this.prisma.library.findMany({
+      where: {
+        pathHash: {
+          in: pathHashes
+        }
+      },
+      select: {
+        pathHash: true
+      }
+    });
+    const existingHashSet = new Set(existingFiles.map(f => f.pathHash));
+
+    return fileInfos.filter(info => !existingHashSet.has(info.pathHash));
+  }
+
   /**
    * 将新发现的视频文件推送到队列进行刮削
    */
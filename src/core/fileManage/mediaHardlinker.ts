@@ -1,14 +1,17 @@
 // REFACTOR: 封装为服务类，移除自动启动逻辑，并实现完全异步I/O
 import { getConfig, Config } from "@/config/config";
+import { findLibraryRoot, getLibraryRoots, isIgnoredByLibrary } from "@/config/library";
 import { FileMonitor } from "./fileMonitor";
 import { getContainer } from "./container";
 import { FileProcessor } from "./fileProcessor";
 import fs from "fs/promises";
 import { logger } from "@/utils/logger";
+import { ExistingVersion } from "./qualityUpgrade";
 import {
   FileDetails,
   IdentifiedMedia,
 } from "@/types/media.types";
+import { MediaProbeResult } from "@/types/probe.types";
 
 /**
  * @class MediaHardlinkerService
@@ -17,8 +20,12 @@ import {
  */
 export class MediaHardlinkerService {
   private config: Config;
-  private fileMonitorInstance: FileMonitor | null = null;
-  private stopMonitoring: (() => Promise<boolean>) | null = null;
+  // 每个媒体库一个文件监控器
+  private monitors: Array<{
+    name: string;
+    monitor: FileMonitor;
+    stop: () => Promise<boolean>;
+  }> = [];
   private fileProcessor: FileProcessor;
 
   constructor() {
@@ -35,16 +42,20 @@ export class MediaHardlinkerService {
    * @throws {Error} 启动失败时抛出错误
    */
   public async start(): Promise<void> {
-    if (this.fileMonitorInstance || this.stopMonitoring) {
+    if (this.monitors.length > 0) {
       throw new Error("媒体硬链接服务已经在运行中");
     }
 
     logger.info("启动媒体硬链接服务...");
 
+    const roots = getLibraryRoots(this.config);
+
     // 验证监控路径
-    const stats = await fs.stat(this.config.monitorFilePath);
-    if (!stats.isDirectory()) {
-      throw new Error(`监控路径不是有效目录: ${this.config.monitorFilePath}`);
+    for (const root of roots) {
+      const stats = await fs.stat(root.monitorPath);
+      if (!stats.isDirectory()) {
+        throw new Error(`监控路径不是有效目录: ${root.monitorPath}`);
+      }
     }
 
     // 验证配置
@@ -60,32 +71,42 @@ export class MediaHardlinkerService {
       ext.startsWith('.') ? ext : `.${ext}`
     );
 
-    // 初始化文件监控器 - 只监听视频文件的add和change事件
+    // 每个媒体库使用独立的文件监控器 - 只监听视频文件的add和change事件
     // 特殊文件夹（BDMV/DVD等）交由定时扫描处理
-    this.fileMonitorInstance = new FileMonitor(
-      this.config.monitorFilePath,
-      {
-        ignored: (filePath: string, stats?: any) => {
-          // 文件夹需要遍历，但不触发事件（在 fileMonitor 中过滤）
-          if (stats?.isDirectory?.() === true) {
+    for (const root of roots) {
+      const monitor = new FileMonitor(
+        root.monitorPath,
+        {
+          ignored: (filePath: string, stats?: any) => {
+            // 嵌套的媒体库由各自的监控器处理
+            if (isIgnoredByLibrary(filePath, root) || findLibraryRoot(filePath, this.config)?.name !== root.name) {
+              return true;
+            }
+            // 文件夹需要遍历，但不触发事件（在 fileMonitor 中过滤）
+            if (stats?.isDirectory?.() === true) {
+              return false;
+            }
+            // 只监听视频文件
+            if (stats?.isFile?.() === true) {
+              return !videoExtensions.some(ext => 
+                filePath.toLowerCase().endsWith(ext.toLowerCase())
+              );
+            }
             return false;
-          }
-          // 只监听视频文件
-          if (stats?.isFile?.() === true) {
-            return !videoExtensions.some(ext => 
-              filePath.toLowerCase().endsWith(ext.toLowerCase())
-            );
-          }
-          return false;
-        },
-      }
-    );
-    
-    this.stopMonitoring = this.fileMonitorInstance.watchFile(
-      this.fileProcessor.handleFileEvent.bind(this.fileProcessor)
-    );
-    
-    logger.info(`服务已启动，监控: ${this.config.monitorFilePath}`);
+          },
+        }
+      );
+
+      this.monitors.push({
+        name: root.name,
+        monitor,
+        stop: monitor.watchFile(
+          this.fileProcessor.handleFileEvent.bind(this.fileProcessor)
+        ),
+      });
+      logger.info(`服务已启动，监控媒体库 ${root.name}: ${root.monitorPath} -> ${root.targetPath}`);
+    }
+
     logger.info(`视频类型: ${videoExtensions.join(', ')}`);
   }
 
@@ -97,11 +118,14 @@ export class MediaHardlinkerService {
    */
   private async cleanup(): Promise<void> {
     try {
-      if (this.stopMonitoring) {
-        await this.stopMonitoring();
-        this.stopMonitoring = null;
+      for (const { name, stop } of this.monitors) {
+        try {
+          await stop();
+        } catch (error) {
+          logger.error(`停止媒体库 ${name} 的文件监控失败`, error);
+        }
       }
-      this.fileMonitorInstance = null;
+      this.monitors = [];
       await this.fileProcessor.stopQueueService();
     } catch (error) {
       logger.error("清理资源时出错", error);
@@ -128,26 +152,36 @@ export class MediaHardlinkerService {
    * @param {{ path: string; filename: string }} fileInfo - 文件信息.
    * @param {IdentifiedMedia} media - 已识别的媒体信息.
    * @param {string} targetPath - 目标目录路径.
+   * @param {string | null} routingRule - 命中的路由规则名称.
+   * @param {ExistingVersion[]} replacedVersions - 被新版本替换的已有版本.
+   * @param {MediaProbeResult | null} [mediaInfo] - 已读取的媒体信息，未提供时读取源文件.
    * @returns {Promise<FileDetails|void>}
    */
   public async handleSingleFile(
     fileInfo: { path: string; filename: string },
     media: IdentifiedMedia,
     targetPath: string,
-    isSaveDatabase = true
+    isSaveDatabase = true,
+    routingRule: string | null = null,
+    replacedVersions: ExistingVersion[] = [],
+    mediaInfo?: MediaProbeResult | null
   ): Promise<FileDetails | void> {
-    return await this.fileProcessor.handleSingleFile(fileInfo, media, targetPath, isSaveDatabase);
+    return await this.fileProcessor.handleSingleFile(fileInfo, media, targetPath, isSaveDatabase, routingRule, replacedVersions, mediaInfo);
   }
 
   /**
    * @public
-   * @method buildTargetPath
-   * @description 根据媒体信息构建目标目录的完整路径。
+   * @method resolveTargetPath
+   * @description 按路由规则和命名模板计算目标目录的完整路径。
    * @param {IdentifiedMedia} media - 已识别的媒体信息.
-   * @returns {string} 目标目录路径.
+   * @param {string} sourcePath - 源文件路径，用于匹配路由规则和确定所属媒体库.
+   * @returns {Promise<{ targetPath: string; routingRule: string | null }>} 目标目录路径和命中的路由规则名称.
    */
-  public buildTargetPath(media: IdentifiedMedia): string {
-    return this.fileProcessor.buildTargetPath(media);
+  public async resolveTargetPath(
+    media: IdentifiedMedia,
+    sourcePath: string
+  ): Promise<{ targetPath: string; routingRule: string | null }> {
+    return await this.fileProcessor.resolveTargetPath(media, sourcePath);
   }
 
   /**
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview 目标路径命名模板
+ * @description 根据模板生成媒体文件和特殊文件夹在目标目录中的相对路径，内置 Plex/Jellyfin/Emby 预设
+ */
+
+import { Config, NamingPreset } from '@/config/config';
+import { IdentifiedMedia } from '@/types/media.types';
+
+/**
+ * 各类目标的命名模板
+ * 使用 "/" 分隔目录层级，电影和剧集模板的最后一段为文件名（不含扩展名）
+ */
+export interface NamingTemplates {
+  movie: string;
+  tv: string;
+  specialFolder: string;
+}
+
+/**
+ * 模板可用的变量
+ */
+export const NAMING_TOKENS = [
+  'title',
+  'originalTitle',
+  'year',
+  'tmdbId',
+  'season',
+  'episode',
+  'episodeTitle',
+  'seasonFolder',
+  'resolution',
+  'source',
+  'videoCodec',
+  'hdr',
+  'audioCodec',
+  'group',
+] as const;
+
+type NamingToken = (typeof NAMING_TOKENS)[number];
+
+/**
+ * 从源文件名解析的发布信息变量（显示名称），无法识别的为 null
+ */
+export interface ReleaseTokens {
+  resolution: string | null;
+  source: string | null;
+  videoCodec: string | null;
+  hdr: string | null;
+  audioCodec: string | null;
+  group: string | null;
+}
+
+/**
+ * 内置命名预设，default 与早期版本的命名方式一致
+ */
+export const NAMING_PRESETS: Record<NamingPreset, NamingTemplates> = {
+  default: {
+    movie: '{title}/{title}',
+    tv: '{title}/{seasonFolder}/{title} S{season:00}E{episode:00} {episodeTitle}',
+    specialFolder: '{title} ({year})',
+  },
+  plex: {
+    movie: '{title} ({year}) {{tmdb-{tmdbId}}}/{title} ({year}) {{tmdb-{tmdbId}}}',
+    tv: '{title} ({year}) {{tmdb-{tmdbId}}}/{seasonFolder}/{title} ({year}) - S{season:00}E{episode:00} - {episodeTitle}',
+    specialFolder: '{title} ({year}) {{tmdb-{tmdbId}}}',
+  },
+  jellyfin: {
+    movie: '{title} ({year}) [tmdbid-{tmdbId}]/{title} ({year}) [tmdbid-{tmdbId}]',
+    tv: '{title} ({year}) [tmdbid-{tmdbId}]/{seasonFolder}/{title} S{season:00}E{episode:00} - {episodeTitle}',
+    specialFolder: '{title} ({year}) [tmdbid-{tmdbId}]',
+  },
+  emby: {
+    movie: '{title} ({year}) [tmdbid={tmdbId}]/{title} ({year}) [tmdbid={tmdbId}]',
+    tv: '{title} ({year}) [tmdbid={tmdbId}]/{seasonFolder}/{title} - S{season:00}E{episode:00} - {episodeTitle}',
+    specialFolder: '{title} ({year}) [tmdbid={tmdbId}]',
+  },
+};
+
+/**
+ * 特别篇（第 0 季）默认目录名
+ */
+const DEFAULT_SPECIALS_FOLDER_NAME = 'Season 00';
+
+/**
+ * 匹配 {{、}} 转义和 {token} / {token:00} 变量
+ */
+const TOKEN_PATTERN = /\{\{|\}\}|\{(\w+)(?::(0+))?\}/g;
+
+/**
+ * 模板变量的取值
+ */
+interface NamingValues extends Partial<ReleaseTokens> {
+  title: string;
+  originalTitle?: string | null;
+  year?: number;
+  tmdbId?: number;
+  season?: number;
+  episode?: number;
+  episodeEnd?: number;
+  episodeTitle?: string;
+  seasonFolder?: string;
+}
+
+/**
+ * 校验命名模板
+ * @returns 模板无效时返回错误描述，有效时返回 null
+ */
+export function validateNamingTemplate(template: string): string | null {
+  if (!template.trim()) {
+    return '不能为空';
+  }
+
+  const unknownTokens: string[] = [];
+  const rest = template.replace(TOKEN_PATTERN, (match, token?: string) => {
+    if (token && !NAMING_TOKENS.includes(token as NamingToken)) {
+      unknownTokens.push(token);
+    }
+    return '';
+  });
+
+  if (unknownTokens.length > 0) {
+    return `包含未知变量: ${unknownTokens.join(', ')}`;
+  }
+  if (/[{}]/.test(rest)) {
+    return '包含未闭合的花括号，字面量花括号请写作 {{ 和 }}';
+  }
+  return null;
+}
+
+/**
+ * 获取生效的命名模板，自定义模板优先于预设
+ */
+export function getNamingTemplates(config: Config): NamingTemplates {
+  const naming = config.naming;
+  const preset = NAMING_PRESETS[naming?.preset ?? 'default'];
+  return {
+    movie: naming?.movie || preset.movie,
+    tv: naming?.tv || preset.tv,
+    specialFolder: naming?.specialFolder || preset.specialFolder,
+  };
+}
+
+/**
+ * 移除变量值中的路径分隔符及文件系统不允许的字符
+ */
+function sanitizeValue(value: string): string {
+  return value
+    .replace(/[\\/:]/g, '-')
+    .replace(/[<>"|?*\x00-\x1f]/g, '')
+    .trim();
+}
+
+/**
+ * 清理单个路径段：移除非法字符，以及变量为空时遗留的空括号和多余分隔符
+ */
+function sanitizeSegment(segment: string): string {
+  const cleaned = segment
+    .replace(/[<>:"|?*\\\x00-\x1f]/g, '')
+    .replace(/\(\s*\)|\[\s*\]|\{\s*\}/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/(?:\s+-)+\s+-\s+/g, ' - ')
+    .replace(/^(?:\s*-\s+)+|(?:\s+-)+\s*$/g, '')
+    // Windows 不允许以空格或点结尾
+    .replace(/[\s.]+$/, '')
+    .trim();
+  return cleaned === '.' || cleaned === '..' ? '' : cleaned;
+}
+
+function formatNumber(value: number, padding?: string): string {
+  return padding ? String(value).padStart(padding.length, '0') : String(value);
+}
+
+/**
+ * 渲染模板并拆分为路径段，空路径段会被忽略
+ */
+function renderTemplate(template: string, values: NamingValues): string[] {
+  const rendered = template.replace(TOKEN_PATTERN, (match, token?: string, padding?: string) => {
+    if (!token) {
+      return match === '{{' ? '{' : '}';
+    }
+
+    const value = values[token as NamingToken];
+    if (value === undefined || value === null || value === '') {
+      return '';
+    }
+    if (typeof value === 'number') {
+      // 多集文件的 {episode} 渲染为 01-E02，与 S{season:00}E{episode:00} 组合得到 S01E01-E02
+      if (token === 'episode' && values.episodeEnd) {
+        return `${formatNumber(value, padding)}-E${formatNumber(values.episodeEnd, padding)}`;
+      }
+      return formatNumber(value, padding);
+    }
+    return sanitizeValue(value);
+  });
+
+  return rendered.split('/').map(sanitizeSegment).filter(Boolean);
+}
+
+/**
+ * 根据媒体信息构建目标路径（相对于目标根目录）
+ * @param media 已识别的媒体信息
+ * @param config 配置
+ * @param release 发布信息变量，未提供时渲染为空
+ * @returns 目标目录（可能为空字符串）和不含扩展名的文件名
+ */
+export function buildMediaRelativePath(
+  media: IdentifiedMedia,
+  config: Config,
+  release?: ReleaseTokens | null
+): { directory: string; fileName: string } {
+  const templates = getNamingTemplates(config);
+  const isTv = media.type === 'tv';
+
+  let seasonFolder: string | undefined;
+  if (isTv && media.seasonNumber === 0) {
+    // 特别篇放入单独的目录，Jellyfin/Plex 均识别 "Season 00" 和 "Specials"
+    seasonFolder = config.specialsFolderName ?? DEFAULT_SPECIALS_FOLDER_NAME;
+  } else if (isTv && media.seasonNumber) {
+    seasonFolder = `Season ${media.seasonNumber}`;
+  }
+
+  const segments = renderTemplate(isTv ? templates.tv : templates.movie, {
+    title: media.title,
+    originalTitle: media.originalTitle,
+    year: media.releaseDate ? new Date(media.releaseDate).getFullYear() : undefined,
+    tmdbId: media.tmdbId,
+    season: isTv ? media.seasonNumber : undefined,
+    episode: isTv ? media.episodeNumber : undefined,
+    episodeEnd: isTv ? media.episodeNumberEnd : undefined,
+    episodeTitle: isTv ? media.episodeTitle : undefined,
+    seasonFolder,
+    ...release,
+  });
+
+  const fileName = segments.pop() || sanitizeValue(media.title);
+  return { directory: segments.join('/'), fileName };
+}
+
+/**
+ * 根据媒体信息构建特殊文件夹（BDMV/DVD/ISO）的目标目录（相对于目标根目录）
+ */
+export function buildSpecialFolderRelativePath(
+  media: {
+    title: string;
+    originalTitle?: string | null;
+    releaseDate?: Date | string | null;
+    tmdbId?: number | null;
+  },
+  config: Config
+): string {
+  const segments = renderTemplate(getNamingTemplates(config).specialFolder, {
+    title: media.title,
+    originalTitle: media.originalTitle,
+    year: media.releaseDate ? new Date(media.releaseDate).getFullYear() : undefined,
+    tmdbId: media.tmdbId ?? undefined,
+  });
+  return segments.length > 0 ? segments.join('/') : sanitizeValue(media.title);
+}
@@ -0,0 +1,750 @@
+/**
+ * @fileoverview 操作日志
+ * @description 记录链接、NFO、目录的创建和删除以及文件记录、媒体记录的变更，按队列任务或接口请求分组，支持整组撤销
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import client from '@/client';
+import type { LinkMode } from '@/config/config';
+import { BusinessError, ErrorType } from '@/core/errors';
+import { LibraryStatus, type File, type Library, type Media, type Operation, type Prisma, type Subtitle } from '@/generated/client';
+import { logger } from '@/utils/logger';
+import { getStats } from '@/utils/fs';
+import { removeEmptyDirectories } from './reorganizer';
+
+const prisma = client;
+
+/**
+ * 操作日志保留天数，创建新分组时清理过期的分组
+ */
+const RETENTION_DAYS = 30;
+
+/**
+ * 过期分组的清理间隔（毫秒）
+ */
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * 分组来源：队列任务、接口请求、预演计划条目、源文件变动
+ */
+export type OperationSource = 'queue' | 'api' | 'plan' | 'monitor';
+
+/**
+ * 操作类型：创建链接、创建目录、写入 NFO、删除文件或目录、文件记录变更
+ */
+export type OperationType = 'link' | 'mkdir' | 'nfo' | 'delete' | 'record' | 'media';
+
+/**
+ * 分组信息
+ */
+export interface JournalGroupInfo {
+  source: OperationSource;
+  label: string;
+  taskId?: number;
+}
+
+/**
+ * 操作日志分组，列表中不包含具体操作
+ */
+export interface OperationGroupSummary {
+  id: number;
+  source: OperationSource;
+  label: string;
+  taskId: number | null;
+  createdAt: Date;
+  undoneAt: Date | null;
+  undoErrors: string[];
+  // 各类操作的数量
+  counts: Partial<Record<OperationType, number>>;
+}
+
+/**
+ * 撤销结果
+ */
+export interface UndoResult {
+  undone: number;
+  failed: number;
+  errors: string[];
+}
+
+interface JournalContext {
+  group: JournalGroupInfo;
+  // 首次记录操作时创建分组，没有操作的请求不产生分组
+  groupId: Promise<number | null> | null;
+  // 本组已记录变更前状态的文件记录，同一记录只保留第一次的快照
+  recordIds: Set<number>;
+}
+
+/**
+ * 被删除目录中的文件，撤销时按 inode 从源文件夹中的同名文件恢复
+ */
+interface DeletedEntry {
+  path: string;
+  deviceId: string;
+  inode: string;
+  symlinkTarget?: string;
+}
+
+/**
+ * delete 类型的快照：符号链接的指向、目录中的文件或 NFO 的内容
+ */
+interface DeletionSnapshot {
+  symlinkTarget?: string;
+  entries?: DeletedEntry[];
+  content?: string;
+}
+
+/**
+ * record 类型的快照：变更前的文件记录，BigInt 和日期保存为字符串
+ */
+type FileRecordSnapshot = Omit<File, 'deviceId' | 'inode' | 'fileSize' | 'createdAt'> & {
+  deviceId: string;
+  inode: string;
+  fileSize: string;
+  createdAt: string;
+  episodeIds: number[];
+  subtitles: Array<Pick<Subtitle, 'filePath' | 'linkPath' | 'language' | 'languageSource'>>;
+  // 关联的库记录，旧版本的快照没有该字段
+  library?: (Pick<Library, 'type' | 'path' | 'pathHash' | 'isDirectory' | 'status'> & {
+    size: string;
+    lastProcessedAt: string | null;
+  }) | null;
+};
+
+/**
+ * media 类型的快照：被删除的媒体记录，日期保存为字符串
+ */
+type MediaSnapshot = Omit<Media, 'releaseDate' | 'createdAt' | 'updatedAt'> & {
+  releaseDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const storage = new AsyncLocalStorage<JournalContext>();
+let lastCleanupAt = 0;
+
+/**
+ * 在操作日志分组中执行，期间通过 createHardlink、createHardlinkRecursively、createNfoFile、
+ * deleteHardlink 产生的文件操作和文件记录变更都记录到同一分组，嵌套调用时使用最内层的分组
+ */
+export function runInJournalGroup<T>(group: JournalGroupInfo, fn: () => T): T {
+  return storage.run({ group, groupId: null, recordIds: new Set() }, fn);
+}
+
+/**
+ * 删除超过保留天数的分组，分组内的操作随分组一起删除
+ */
+async function cleanupExpiredGroups(): Promise<void> {
+  if (Date.now() - lastCleanupAt < CLEANUP_INTERVAL) return;
+  lastCleanupAt = Date.now();
+  try {
+    const { count } = await prisma.operationGroup.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+    });
+    if (count > 0) logger.info(`清理过期的操作日志: ${count} 组`);
+  } catch (error) {
+    logger.warn(`清理过期的操作日志失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function getGroupId(context: JournalContext): Promise<number | null> {
+  context.groupId ??= prisma.operationGroup
+    .create({
+      data: {
+        source: context.group.source,
+        label: context.group.label,
+        taskId: context.group.taskId ?? null,
+      },
+    })
+    .then(
+      group => {
+        void cleanupExpiredGroups();
+        return group.id;
+      },
+      error => {
+        logger.warn(`创建操作日志分组失败: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      }
+    );
+  return context.groupId;
+}
+
+/**
+ * 写入一条操作，不在分组中时不记录，写入失败只记录警告，不影响文件操作本身
+ */
+async function recordOperation(
+  context: JournalContext | undefined,
+  data: Omit<Prisma.OperationUncheckedCreateInput, 'groupId'>
+): Promise<void> {
+  if (!context) return;
+  try {
+    const groupId = await getGroupId(context);
+    if (groupId === null) return;
+    await prisma.operation.create({ data: { ...data, groupId } });
+  } catch (error) {
+    logger.warn(`写入操作日志失败 ${data.path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 递归列出被删除目录中的文件
+ */
+async function listDeletedEntries(dir: string, relativeDir = ''): Promise<DeletedEntry[]> {
+  const entries: DeletedEntry[] = [];
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const relativePath = path.join(relativeDir, entry.name);
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      entries.push(...await listDeletedEntries(entryPath, relativePath));
+      continue;
+    }
+    const stats = await fs.promises.lstat(entryPath);
+    entries.push({
+      path: relativePath,
+      deviceId: stats.dev.toString(),
+      inode: stats.ino.toString(),
+      ...(stats.isSymbolicLink() ? { symlinkTarget: await fs.promises.readlink(entryPath) } : {}),
+    });
+  }
+  return entries;
+}
+
+/**
+ * 记录新创建的链接
+ */
+export async function journalLink(sourcePath: string, linkPath: string, mode: LinkMode): Promise<void> {
+  const context = storage.getStore();
+  if (!context) return;
+  const stats = await getStats(linkPath);
+  await recordOperation(context, {
+    type: 'link',
+    path: linkPath,
+    sourcePath,
+    linkMode: mode,
+    deviceId: stats ? BigInt(stats.dev) : null,
+    inode: stats ? BigInt(stats.ino) : null,
+  });
+}
+
+/**
+ * 记录新创建的目录
+ */
+export async function journalMkdir(dirPath: string): Promise<void> {
+  await recordOperation(storage.getStore(), { type: 'mkdir', path: dirPath, isDirectory: true });
+}
+
+/**
+ * 记录写入的 NFO 文件
+ * @param previousContent 被覆盖的原内容，新建时为 null
+ */
+export async function journalNfo(nfoPath: string, previousContent: string | null): Promise<void> {
+  await recordOperation(storage.getStore(), {
+    type: 'nfo',
+    path: nfoPath,
+    snapshot: previousContent === null ? null : JSON.stringify({ content: previousContent }),
+  });
+}
+
+/**
+ * 读取要删除的文件或目录的快照：撤销时恢复所需的 inode、符号链接指向和 NFO 内容
+ * @returns 读取失败时返回 null
+ */
+async function captureDeletion(
+  targetPath: string,
+  sourcePath: string | null,
+  mode: LinkMode | null
+): Promise<Omit<Prisma.OperationUncheckedCreateInput, 'groupId'> | null> {
+  try {
+    const stats = await fs.promises.lstat(targetPath);
+    const snapshot: DeletionSnapshot = {};
+    if (stats.isSymbolicLink()) {
+      snapshot.symlinkTarget = await fs.promises.readlink(targetPath);
+    } else if (stats.isDirectory()) {
+      snapshot.entries = await listDeletedEntries(targetPath);
+    } else if (path.extname(targetPath).toLowerCase() === '.nfo') {
+      snapshot.content = await fs.promises.readFile(targetPath, 'utf-8');
+    }
+
+    return {
+      type: 'delete',
+      path: targetPath,
+      sourcePath,
+      linkMode: mode,
+      deviceId: BigInt(stats.dev),
+      inode: BigInt(stats.ino),
+      isDirectory: stats.isDirectory(),
+      snapshot: Object.keys(snapshot).length > 0 ? JSON.stringify(snapshot) : null,
+    };
+  } catch (error: any) {
+    // 文件不存在时由调用方处理
+    if (error.code !== 'ENOENT') {
+      logger.warn(`记录删除操作失败 ${targetPath}: ${error.message}`);
+    }
+    return null;
+  }
+}
+
+/**
+ * 删除文件或目录并记录到操作日志：删除前读取快照，删除成功后才写入操作，删除失败时错误抛给调用方
+ * @param remove 执行删除的函数
+ * @param sourcePath 链接对应的源文件路径，撤销时从该路径恢复 inode 相同的文件
+ */
+export async function journalDeletion(
+  targetPath: string,
+  remove: () => Promise<void>,
+  sourcePath: string | null = null,
+  mode: LinkMode | null = null
+): Promise<void> {
+  const context = storage.getStore();
+  const operation = context ? await captureDeletion(targetPath, sourcePath, mode) : null;
+  await remove();
+  if (operation) {
+    await recordOperation(context, operation);
+  }
+}
+
+/**
+ * 记录文件记录的变更，修改或删除已有记录前调用时保存变更前的快照，新建记录后调用时 created 为 true
+ * 同一分组中每条记录只记录一次
+ */
+export async function journalFileRecord(fileId: number, created = false): Promise<void> {
+  const context = storage.getStore();
+  if (!context || context.recordIds.has(fileId)) return;
+  context.recordIds.add(fileId);
+
+  try {
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      include: { episodes: { select: { id: true } }, subtitles: true, libraryFile: true },
+    });
+    if (!file) return;
+
+    const { episodes, subtitles, libraryFile, ...columns } = file;
+    const snapshot: FileRecordSnapshot = {
+      ...columns,
+      deviceId: columns.deviceId.toString(),
+      inode: columns.inode.toString(),
+      fileSize: columns.fileSize.toString(),
+      createdAt: columns.createdAt.toISOString(),
+      episodeIds: episodes.map(episode => episode.id),
+      subtitles: subtitles.map(({ filePath, linkPath, language, languageSource }) => ({
+        filePath,
+        linkPath,
+        language,
+        languageSource,
+      })),
+      library: libraryFile && {
+        type: libraryFile.type,
+        path: libraryFile.path,
+        pathHash: libraryFile.pathHash,
+        isDirectory: libraryFile.isDirectory,
+        status: libraryFile.status,
+        size: libraryFile.size.toString(),
+        lastProcessedAt: libraryFile.lastProcessedAt?.toISOString() ?? null,
+      },
+    };
+
+    await recordOperation(context, {
+      type: 'record',
+      path: file.filePath,
+      recordId: fileId,
+      snapshot: created ? null : JSON.stringify(snapshot),
+    });
+  } catch (error) {
+    logger.warn(`记录文件记录变更失败 ${fileId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 删除媒体记录前调用，保存删除前的快照，撤销时重新创建
+ */
+export async function journalMediaDeletion(mediaId: number): Promise<void> {
+  const context = storage.getStore();
+  if (!context) return;
+
+  try {
+    const media = await prisma.media.findUnique({ where: { id: mediaId } });
+    if (!media) return;
+
+    const snapshot: MediaSnapshot = {
+      ...media,
+      releaseDate: media.releaseDate?.toISOString() ?? null,
+      createdAt: media.createdAt.toISOString(),
+      updatedAt: media.updatedAt.toISOString(),
+    };
+    await recordOperation(context, {
+      type: 'media',
+      path: media.title,
+      recordId: mediaId,
+      snapshot: JSON.stringify(snapshot),
+    });
+  } catch (error) {
+    logger.warn(`记录媒体记录删除失败 ${mediaId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 从源文件恢复被删除的单个链接，源文件的 inode 与删除时不同（已被替换或删除）时无法恢复
+ */
+async function restoreLink(
+  targetPath: string,
+  sourcePath: string | null,
+  deviceId: string | null,
+  inode: string | null,
+  symlinkTarget?: string
+): Promise<void> {
+  if (await getStats(targetPath)) {
+    throw new Error(`目标路径已存在: ${targetPath}`);
+  }
+  await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+
+  if (symlinkTarget !== undefined) {
+    await fs.promises.symlink(symlinkTarget, targetPath);
+    return;
+  }
+
+  const sourceStats = sourcePath ? await getStats(sourcePath) : null;
+  if (!sourcePath || !sourceStats || sourceStats.dev.toString() !== deviceId || sourceStats.ino.toString() !== inode) {
+    throw new Error(`源文件已不存在或已被替换，无法恢复: ${targetPath}`);
+  }
+  await fs.promises.link(sourcePath, targetPath);
+}
+
+/**
+ * 操作日志
+ */
+export class OperationJournal {
+  // 正在撤销的分组
+  private undoing = new Set<number>();
+
+  /**
+   * 分页获取操作日志分组，按时间倒序
+   */
+  async getGroups(options: { page: number; limit: number; source?: OperationSource }): Promise<{
+    items: OperationGroupSummary[];
+    total: number;
+  }> {
+    const where: Prisma.OperationGroupWhereInput = options.source ? { source: options.source } : {};
+    const [groups, total] = await Promise.all([
+      prisma.operationGroup.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.operationGroup.count({ where }),
+    ]);
+
+    const counts = await prisma.operation.groupBy({
+      by: ['groupId', 'type'],
+      where: { groupId: { in: groups.map(group => group.id) } },
+      _count: { _all: true },
+    });
+
+    return {
+      items: groups.map(group => ({
+        id: group.id,
+        source: group.source as OperationSource,
+        label: group.label,
+        taskId: group.taskId,
+        createdAt: group.createdAt,
+        undoneAt: group.undoneAt,
+        undoErrors: group.undoErrors ? JSON.parse(group.undoErrors) : [],
+        counts: Object.fromEntries(
+          counts
+            .filter(count => count.groupId === group.id)
+            .map(count => [count.type, count._count._all])
+        ),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * 获取分组内的全部操作
+   */
+  async getOperations(groupId: number) {
+    const group = await prisma.operationGroup.findUnique({ where: { id: groupId } });
+    if (!group) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, `操作日志不存在: ${groupId}`);
+    }
+    return prisma.operation.findMany({
+      where: { groupId },
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        type: true,
+        path: true,
+        sourcePath: true,
+        linkMode: true,
+        isDirectory: true,
+        recordId: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * 撤销整组操作：按相反顺序删除创建的链接和 NFO、恢复被覆盖的 NFO、
+   * 从 inode 相同的源文件恢复被删除的链接、还原文件记录，最后删除留下的空目录
+   * 之后的分组修改过相同路径时不允许撤销，需要先撤销之后的分组
+   */
+  async undo(groupId: number): Promise<UndoResult> {
+    if (this.undoing.has(groupId)) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '该操作正在撤销');
+    }
+    this.undoing.add(groupId);
+
+    try {
+      const group = await prisma.operationGroup.findUnique({
+        where: { id: groupId },
+        include: { operations: { orderBy: { id: 'desc' } } },
+      });
+      if (!group) {
+        throw new BusinessError(ErrorType.VALIDATION_ERROR, `操作日志不存在: ${groupId}`);
+      }
+      if (group.undoneAt) {
+        throw new BusinessError(ErrorType.VALIDATION_ERROR, '该操作已撤销');
+      }
+
+      const paths = [...new Set(group.operations.map(operation => operation.path))];
+      const laterOperation = await prisma.operation.findFirst({
+        where: { groupId: { gt: groupId }, group: { undoneAt: null }, path: { in: paths } },
+        orderBy: { groupId: 'desc' },
+      });
+      if (laterOperation) {
+        throw new BusinessError(
+          ErrorType.VALIDATION_ERROR,
+          `之后的操作 #${laterOperation.groupId} 修改了相同的文件 (${laterOperation.path})，请先撤销该操作`
+        );
+      }
+
+      const result: UndoResult = { undone: 0, failed: 0, errors: [] };
+      const directories: string[] = [];
+      for (const operation of group.operations) {
+        try {
+          await this.undoOperation(operation, directories);
+          result.undone++;
+        } catch (error) {
+          result.failed++;
+          result.errors.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+
+      const removedDirectories = await removeEmptyDirectories(directories);
+
+      await prisma.operationGroup.update({
+        where: { id: groupId },
+        data: {
+          undoneAt: new Date(),
+          undoErrors: result.errors.length > 0 ? JSON.stringify(result.errors) : null,
+        },
+      });
+
+      logger.info(
+        `撤销操作 #${groupId} (${group.label}) 完成: 成功 ${result.undone} 个，失败 ${result.failed} 个，清理空目录 ${removedDirectories} 个`
+      );
+      return result;
+    } finally {
+      this.undoing.delete(groupId);
+    }
+  }
+
+  /**
+   * 撤销单个操作，需要检查的空目录加入 directories
+   */
+  private async undoOperation(operation: Operation, directories: string[]): Promise<void> {
+    switch (operation.type as OperationType) {
+      case 'link': {
+        directories.push(path.dirname(operation.path));
+        const stats = await getStats(operation.path);
+        if (!stats) return;
+        if (operation.inode !== null && (BigInt(stats.dev) !== operation.deviceId || BigInt(stats.ino) !== operation.inode)) {
+          throw new Error(`链接已被替换，跳过删除: ${operation.path}`);
+        }
+        await fs.promises.unlink(operation.path);
+        logger.info(`撤销链接: ${operation.path}`);
+        return;
+      }
+      case 'mkdir':
+        directories.push(operation.path);
+        return;
+      case 'nfo': {
+        const previous = operation.snapshot ? (JSON.parse(operation.snapshot) as DeletionSnapshot) : null;
+        if (previous?.content !== undefined) {
+          await fs.promises.writeFile(operation.path, previous.content, 'utf-8');
+          logger.info(`恢复 NFO 文件: ${operation.path}`);
+        } else {
+          await fs.promises.rm(operation.path, { force: true });
+          directories.push(path.dirname(operation.path));
+          logger.info(`撤销 NFO 文件: ${operation.path}`);
+        }
+        return;
+      }
+      case 'delete':
+        await this.restoreDeleted(operation);
+        return;
+      case 'record':
+        await this.revertFileRecord(operation);
+        return;
+      case 'media':
+        await this.restoreMedia(operation);
+        return;
+    }
+  }
+
+  /**
+   * 恢复被删除的链接、目录或 NFO 文件
+   */
+  private async restoreDeleted(operation: Operation): Promise<void> {
+    const snapshot: DeletionSnapshot = operation.snapshot ? JSON.parse(operation.snapshot) : {};
+
+    if (snapshot.content !== undefined) {
+      if (await getStats(operation.path)) {
+        throw new Error(`目标路径已存在: ${operation.path}`);
+      }
+      await fs.promises.mkdir(path.dirname(operation.path), { recursive: true });
+      await fs.promises.writeFile(operation.path, snapshot.content, 'utf-8');
+    } else if (operation.isDirectory) {
+      await fs.promises.mkdir(operation.path, { recursive: true });
+      const failed: string[] = [];
+      for (const entry of snapshot.entries ?? []) {
+        try {
+          await restoreLink(
+            path.join(operation.path, entry.path),
+            operation.sourcePath && path.join(operation.sourcePath, entry.path),
+            entry.deviceId,
+            entry.inode,
+            entry.symlinkTarget
+          );
+        } catch {
+          failed.push(entry.path);
+        }
+      }
+      if (failed.length > 0) {
+        throw new Error(`目录中 ${failed.length} 个文件无法恢复: ${operation.path}`);
+      }
+    } else {
+      await restoreLink(
+        operation.path,
+        operation.sourcePath,
+        operation.deviceId?.toString() ?? null,
+        operation.inode?.toString() ?? null,
+        snapshot.symlinkTarget
+      );
+    }
+    logger.info(`恢复被删除的文件: ${operation.path}`);
+  }
+
+  /**
+   * 重新创建被删除的媒体记录，按相反顺序撤销时先于引用它的文件记录还原
+   */
+  private async restoreMedia(operation: Operation): Promise<void> {
+    const { releaseDate, createdAt, updatedAt, ...columns } = JSON.parse(operation.snapshot!) as MediaSnapshot;
+    if (await prisma.media.findUnique({ where: { id: columns.id } })) return;
+
+    await prisma.media.create({
+      data: {
+        ...columns,
+        releaseDate: releaseDate ? new Date(releaseDate) : null,
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(updatedAt),
+      },
+    });
+    logger.info(`还原媒体记录: ${columns.title}`);
+  }
+
+  /**
+   * 还原文件记录：新建的记录被删除，库记录恢复为待处理，媒体记录保留，供之前的分组还原的记录关联；
+   * 修改或删除的记录按快照还原，已不存在的媒体和剧集不再关联，被删除的库记录重新创建
+   */
+  private async revertFileRecord(operation: Operation): Promise<void> {
+    const fileId = operation.recordId!;
+
+    if (!operation.snapshot) {
+      const file = await prisma.file.findUnique({ where: { id: fileId } });
+      if (!file) return;
+      await prisma.library.updateMany({
+        where: { fileId },
+        data: { fileId: null, status: LibraryStatus.PENDING },
+      });
+      // 撤销质量升级时一起删除升级历史，被替换的记录按快照还原
+      await prisma.qualityUpgrade.deleteMany({ where: { toFileId: fileId } });
+      await prisma.file.delete({ where: { id: fileId } });
+      logger.info(`撤销文件记录: ${file.filePath}`);
+      return;
+    }
+
+    const { id, episodeIds, subtitles, library, deviceId, inode, fileSize, createdAt, mediaId, ...columns } =
+      JSON.parse(operation.snapshot) as FileRecordSnapshot;
+    const [media, episodes, existingLibrary] = await Promise.all([
+      mediaId === null ? null : prisma.media.findUnique({ where: { id: mediaId }, select: { id: true } }),
+      prisma.episodeInfo.findMany({ where: { id: { in: episodeIds } }, select: { id: true } }),
+      library ? prisma.library.findUnique({ where: { path: library.path }, select: { id: true } }) : null,
+    ]);
+    if (mediaId !== null && !media) {
+      logger.warn(`媒体记录已不存在，还原的文件记录不再关联: ${mediaId}`);
+    }
+    if (episodes.length < episodeIds.length) {
+      logger.warn(`${episodeIds.length - episodes.length} 个剧集记录已不存在，还原的文件记录不再关联`);
+    }
+
+    const data = {
+      ...columns,
+      mediaId: media?.id ?? null,
+      deviceId: BigInt(deviceId),
+      inode: BigInt(inode),
+      fileSize: BigInt(fileSize),
+      createdAt: new Date(createdAt),
+    };
+    const episodeRefs = episodes.map(episode => ({ id: episode.id }));
+    const libraryData = library && !existingLibrary
+      ? {
+          ...library,
+          size: BigInt(library.size),
+          lastProcessedAt: library.lastProcessedAt ? new Date(library.lastProcessedAt) : null,
+          fileId: id,
+        }
+      : null;
+
+    await prisma.$transaction([
+      prisma.subtitle.deleteMany({ where: { fileId: id } }),
+      prisma.file.upsert({
+        where: { id },
+        create: {
+          id,
+          ...data,
+          episodes: { connect: episodeRefs },
+          subtitles: { create: subtitles },
+        },
+        update: {
+          ...data,
+          episodes: { set: episodeRefs },
+          subtitles: { create: subtitles },
+        },
+      }),
+      libraryData
+        ? prisma.library.create({ data: libraryData })
+        : prisma.library.updateMany({
+            where: { path: library?.path ?? data.filePath, fileId: null },
+            data: { fileId: id },
+          }),
+    ]);
+    logger.info(`还原文件记录: ${data.filePath}`);
+  }
+}
+
+// 全局操作日志实例
+let globalOperationJournal: OperationJournal | null = null;
+
+/**
+ * 获取全局操作日志实例
+ */
+export function getOperationJournal(): OperationJournal {
+  if (!globalOperationJournal) {
+    globalOperationJournal = new OperationJournal();
+  }
+  return globalOperationJournal;
+}
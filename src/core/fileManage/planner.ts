@@ -0,0 +1,478 @@
+/**
+ * @fileoverview 预演计划
+ * @description 按扫描和队列处理流程识别媒体并计算目标路径，生成不修改任何文件和媒体记录的执行计划，可导出或按原样执行
+ */
+
+import fs from 'fs';
+import client from '@/client';
+import { getLinkModes } from '@/config/library';
+import { BusinessError, ErrorType } from '@/core/errors';
+import { runWithReadOnlyCache } from '@/core/cache/readOnly';
+import { TaskProcessor } from '@/queue/taskProcessor';
+import { logger } from '@/utils/logger';
+import { pathExists } from '@/utils/fs';
+import { generatePathHash } from '@/utils/hash';
+import {
+  ExecutionPlan,
+  PlanApplyResult,
+  PlanEntry,
+  PlannedLink,
+  PlannedTask,
+} from '@/types/plan.types';
+import { LibraryScanner, LibraryStatus } from './libraryScanner';
+import { runInJournalGroup } from './operationJournal';
+
+const prisma = client;
+
+/**
+ * 计划导出格式
+ */
+export type PlanExportFormat = 'json' | 'csv';
+
+/**
+ * CSV 导出的列，每个链接一行
+ */
+const CSV_COLUMNS = [
+  'sourcePath', 'status', 'mediaType', 'tmdbId', 'title', 'year', 'season', 'episode',
+  'targetPath', 'nfoPath', 'routingRule', 'linkModes', 'subtitles', 'replaces', 'conflicts', 'message',
+];
+
+/**
+ * 判断目录是否存在且不为空
+ */
+async function isNonEmptyDirectory(targetPath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.readdir(targetPath)).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function escapeCsv(value: string | number | null | undefined): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 从 JSON 还原预演结果，识别结果中的日期保存为字符串
+ */
+function reviveTask(task: PlannedTask): PlannedTask {
+  if (task.media?.releaseDate) {
+    task.media.releaseDate = new Date(task.media.releaseDate);
+  }
+  return task;
+}
+
+/**
+ * @class ExecutionPlanner
+ * @description 以预演模式执行媒体库扫描和队列处理，只识别媒体和计算路径，不创建链接、NFO、图片和媒体记录，
+ * TMDB 和 LLM 缓存只读取不写入。最近一次的计划保存在数据库中，执行时按计划中的路径创建链接，不重新识别。
+ */
+export class ExecutionPlanner {
+  private planning = false;
+  private applying = false;
+  private progress = { processed: 0, total: 0 };
+  private plan: ExecutionPlan | null = null;
+  // 是否已从数据库读取最近一次的计划
+  private loaded = false;
+  // 各条目的预演结果，执行计划时使用
+  private plannedTasks = new Map<number, PlannedTask>();
+
+  /**
+   * 检查是否正在生成计划
+   */
+  isPlanning(): boolean {
+    return this.planning;
+  }
+
+  /**
+   * 检查是否正在执行计划
+   */
+  isApplying(): boolean {
+    return this.applying;
+  }
+
+  /**
+   * 获取生成或执行计划的进度
+   */
+  getProgress(): { processed: number; total: number } {
+    return { ...this.progress };
+  }
+
+  /**
+   * 获取最近一次的计划，尚未预演时为 null
+   * 服务重启后首次获取时从数据库读取
+   */
+  async getPlan(): Promise<ExecutionPlan | null> {
+    if (this.plan || this.loaded) {
+      return this.plan;
+    }
+    this.loaded = true;
+
+    try {
+      const record = await prisma.executionPlan.findFirst({ orderBy: { createdAt: 'desc' } });
+      if (record) {
+        const tasks = JSON.parse(record.tasks) as Array<[number, PlannedTask]>;
+        this.plannedTasks = new Map(tasks.map(([id, task]) => [id, reviveTask(task)]));
+        this.plan = {
+          id: record.id,
+          createdAt: record.createdAt.toISOString(),
+          duration: record.duration,
+          entries: JSON.parse(record.entries),
+          errors: JSON.parse(record.errors),
+          appliedAt: record.appliedAt?.toISOString() ?? null,
+        };
+      }
+    } catch (error) {
+      logger.warn(`读取预演计划失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return this.plan;
+  }
+
+  /**
+   * 预演扫描所有媒体库并生成计划，不修改任何文件和媒体记录，生成的计划保存到数据库
+   */
+  async createPlan(): Promise<ExecutionPlan> {
+    if (this.planning || this.applying) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '预演计划正在生成或执行中');
+    }
+    this.planning = true;
+    this.progress = { processed: 0, total: 0 };
+    const startTime = Date.now();
+    logger.info('开始生成预演计划');
+
+    try {
+      // 预演期间的 TMDB 和 LLM 请求结果不写入缓存
+      const { entries, plannedTasks, errors } = await runWithReadOnlyCache(async () => {
+        const scanResult = await new LibraryScanner(prisma).scanAllLibraries({ dryRun: true });
+        const sources = scanResult.sources ?? [];
+        this.progress.total = sources.length;
+
+        const taskProcessor = new TaskProcessor();
+        const plannedTasks = new Map<number, PlannedTask>();
+        const entries: PlanEntry[] = [];
+        const plannedTargets = new Map<string, string>();
+
+        for (const source of sources) {
+          const planned = await taskProcessor.planTask(source);
+          const entry = this.toPlanEntry(entries.length + 1, planned);
+          if (entry.status === 'ready') {
+            entry.conflicts = await this.findConflicts(planned.links, plannedTargets);
+            if (entry.conflicts.length > 0) {
+              entry.status = 'conflict';
+            }
+            for (const link of planned.links) {
+              plannedTargets.set(link.linkPath, link.sourcePath);
+            }
+          }
+          plannedTasks.set(entry.id, planned);
+          entries.push(entry);
+          this.progress.processed++;
+        }
+        return { entries, plannedTasks, errors: scanResult.errors };
+      });
+
+      this.plannedTasks = plannedTasks;
+      this.plan = {
+        id: Date.now().toString(36),
+        createdAt: new Date().toISOString(),
+        duration: Date.now() - startTime,
+        entries,
+        errors,
+        appliedAt: null,
+      };
+      this.loaded = true;
+      await this.savePlan(true);
+
+      const readyCount = entries.filter(entry => entry.status === 'ready').length;
+      logger.info(`预演计划生成完成: ${entries.length} 个源文件，${readyCount} 个可执行，耗时 ${this.plan.duration}ms`);
+      return this.plan;
+    } finally {
+      this.planning = false;
+    }
+  }
+
+  /**
+   * 按计划创建链接、NFO 和数据库记录
+   * 执行前重新检查冲突和重复检测结果，计划生成后出现冲突或已有版本发生变化的条目标记为冲突，不会执行
+   * @param planId 计划标识，必须是最近一次的计划
+   * @param entryIds 仅执行指定条目，为空时执行所有可执行的条目
+   */
+  async apply(planId: string, entryIds?: number[]): Promise<PlanApplyResult> {
+    const plan = await this.getPlan();
+    if (!plan || plan.id !== planId) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '计划不存在或已过期，请重新预演');
+    }
+    if (this.planning || this.applying) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '预演计划正在生成或执行中');
+    }
+    this.applying = true;
+
+    try {
+      const selected = plan.entries.filter(entry => !entryIds || entryIds.includes(entry.id));
+      const entries = selected.filter(entry => entry.status === 'ready' && !entry.applied?.success);
+      const taskProcessor = new TaskProcessor();
+      const result: PlanApplyResult = { applied: 0, failed: 0, skipped: selected.length - entries.length };
+      this.progress = { processed: 0, total: entries.length };
+
+      for (const entry of entries) {
+        const planned = this.plannedTasks.get(entry.id)!;
+        try {
+          const conflicts = await this.findConflicts(planned.links);
+          if (conflicts.length > 0) {
+            throw new BusinessError(ErrorType.MEDIA_LINK_CONFLICT, conflicts.join('; '));
+          }
+
+          // 每个条目单独一组，便于撤销单个条目
+          const fileId = await runInJournalGroup(
+            { source: 'plan', label: planned.sourcePath },
+            () => taskProcessor.applyPlannedTask(planned)
+          );
+          await this.markLibraryProcessed(planned, fileId);
+          entry.applied = { success: true, fileId };
+          result.applied++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error(`执行预演计划失败: ${entry.sourcePath}`, error);
+          if (error instanceof BusinessError && error.type === ErrorType.MEDIA_LINK_CONFLICT) {
+            entry.status = 'conflict';
+            entry.conflicts = [message];
+          }
+          entry.applied = { success: false, error: message };
+          result.failed++;
+        }
+        this.progress.processed++;
+      }
+
+      plan.appliedAt = new Date().toISOString();
+      logger.info(`预演计划执行完成: 成功 ${result.applied} 个，失败 ${result.failed} 个，跳过 ${result.skipped} 个`);
+      return result;
+    } finally {
+      await this.savePlan(false);
+      this.applying = false;
+    }
+  }
+
+  /**
+   * 导出最近一次的计划
+   * @returns 导出内容，尚未预演时为 null
+   */
+  async export(format: PlanExportFormat): Promise<string | null> {
+    const plan = await this.getPlan();
+    if (!plan) {
+      return null;
+    }
+    if (format === 'json') {
+      return JSON.stringify(plan, null, 2);
+    }
+
+    const rows = [CSV_COLUMNS.join(',')];
+    for (const entry of plan.entries) {
+      const media = entry.media;
+      const episode = media?.episodeNumber != null
+        ? `${media.episodeNumber}${media.episodeNumberEnd ? `-${media.episodeNumberEnd}` : ''}`
+        : '';
+      const links = entry.links.length > 0 ? entry.links : [null];
+      for (const link of links) {
+        rows.push([
+          link?.sourcePath ?? entry.sourcePath,
+          entry.status,
+          media?.type,
+          media?.tmdbId,
+          media?.title,
+          media?.year,
+          media?.seasonNumber,
+          episode,
+          link?.linkPath,
+          link?.nfoPath,
+          link?.routingRule,
+          link?.linkModes.join('|'),
+          link?.subtitles.map(subtitle => subtitle.linkPath).join('|'),
+          link?.replaces.join('|'),
+          entry.conflicts.join('; '),
+          entry.message,
+        ].map(escapeCsv).join(','));
+      }
+    }
+    // 带 BOM 以便表格软件正确识别中文
+    return '\ufeff' + rows.join('\r\n');
+  }
+
+  /**
+   * 将预演结果转换为计划条目
+   */
+  private toPlanEntry(id: number, planned: PlannedTask): PlanEntry {
+    const media = planned.media;
+    return {
+      id,
+      sourcePath: planned.sourcePath,
+      isDirectory: planned.isDirectory,
+      status: planned.status,
+      message: planned.message,
+      media: media
+        ? {
+            type: media.type,
+            tmdbId: media.tmdbId,
+            title: media.title,
+            year: media.releaseDate ? media.releaseDate.getFullYear() : null,
+            seasonNumber: media.seasonNumber,
+            episodeNumber: media.episodeNumber,
+            episodeNumberEnd: media.episodeNumberEnd,
+          }
+        : null,
+      strategy: planned.identification?.strategy ?? null,
+      confidence: planned.identification?.confidence ?? null,
+      links: planned.links.map(({ folder: _folder, upgrade, ...link }) => ({
+        ...link,
+        linkModes: getLinkModes(link.linkPath),
+        replaces: upgrade?.versions.map(version => version.filePath) ?? [],
+      })),
+      conflicts: [],
+      applied: null,
+    };
+  }
+
+  /**
+   * 检查计划中的链接是否与磁盘上的文件、已有记录或计划中的其他链接冲突
+   * 质量升级时被替换的版本的链接、NFO 和字幕链接会被覆盖或删除，不视为冲突
+   * @param plannedTargets 计划中已有的链接路径及其源文件，生成计划时使用
+   * @returns 冲突说明
+   */
+  private async findConflicts(
+    links: PlannedLink[],
+    plannedTargets?: Map<string, string>
+  ): Promise<string[]> {
+    const conflicts: string[] = [];
+
+    for (const link of links) {
+      const duplicate = plannedTargets?.get(link.linkPath);
+      if (duplicate) {
+        conflicts.push(`与 ${duplicate} 的目标路径相同`);
+      }
+
+      const replacedIds = link.upgrade?.versions.map(version => version.id) ?? [];
+      const replacedPaths = new Set(
+        link.upgrade?.versions.flatMap(version => [version.linkPath, version.linkPath.replace(/\.[^.]+$/, '.nfo')])
+      );
+      if (replacedIds.length > 0) {
+        const subtitles = await prisma.subtitle.findMany({
+          where: { fileId: { in: replacedIds } },
+          select: { linkPath: true },
+        });
+        subtitles.forEach(subtitle => replacedPaths.add(subtitle.linkPath));
+      }
+      const occupied = async (targetPath: string) => !replacedPaths.has(targetPath) && await pathExists(targetPath);
+
+      if (link.kind === 'folder') {
+        if (await isNonEmptyDirectory(link.linkPath)) {
+          conflicts.push(`目标目录已存在且不为空: ${link.linkPath}`);
+        }
+      } else if (await occupied(link.linkPath)) {
+        conflicts.push(`目标路径已存在: ${link.linkPath}`);
+      }
+      if (link.nfoPath && await occupied(link.nfoPath)) {
+        conflicts.push(`NFO 文件已存在: ${link.nfoPath}`);
+      }
+      for (const subtitle of link.subtitles) {
+        if (await occupied(subtitle.linkPath)) {
+          conflicts.push(`字幕目标路径已存在: ${subtitle.linkPath}`);
+        }
+      }
+
+      const [linkRecord, sourceRecord] = await Promise.all([
+        prisma.file.findFirst({ where: { linkPath: link.linkPath, id: { notIn: replacedIds } }, select: { id: true } }),
+        prisma.file.findUnique({ where: { filePath: link.sourcePath }, select: { id: true } }),
+      ]);
+      if (linkRecord) {
+        conflicts.push(`目标路径已被文件记录使用 (ID: ${linkRecord.id})`);
+      }
+      if (sourceRecord) {
+        conflicts.push(`源文件已有记录 (ID: ${sourceRecord.id})`);
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * 保存最近一次的计划，同时删除之前的计划
+   * @param created 是否为新生成的计划，已保存的计划只更新条目和执行时间
+   */
+  private async savePlan(created: boolean): Promise<void> {
+    const plan = this.plan;
+    if (!plan) return;
+
+    const data = {
+      entries: JSON.stringify(plan.entries),
+      appliedAt: plan.appliedAt ? new Date(plan.appliedAt) : null,
+    };
+    try {
+      if (created) {
+        await prisma.$transaction([
+          prisma.executionPlan.deleteMany(),
+          prisma.executionPlan.create({
+            data: {
+              ...data,
+              id: plan.id,
+              tasks: JSON.stringify([...this.plannedTasks]),
+              errors: JSON.stringify(plan.errors),
+              duration: plan.duration,
+              createdAt: new Date(plan.createdAt),
+            },
+          }),
+        ]);
+      } else {
+        await prisma.executionPlan.updateMany({ where: { id: plan.id }, data });
+      }
+    } catch (error) {
+      logger.warn(`保存预演计划失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 执行成功后将源文件记录到库中，避免下次扫描重复处理
+   */
+  private async markLibraryProcessed(planned: PlannedTask, fileId: number | undefined): Promise<void> {
+    const pathHash = generatePathHash(planned.sourcePath);
+    const data = {
+      status: LibraryStatus.PROCESSED,
+      lastProcessedAt: new Date(),
+      ...(fileId ? { fileId } : {}),
+    };
+
+    try {
+      const existing = await prisma.library.findFirst({ where: { pathHash } });
+      if (existing) {
+        await prisma.library.update({ where: { id: existing.id }, data });
+        return;
+      }
+
+      const size = planned.isDirectory ? 0 : (await fs.promises.stat(planned.sourcePath)).size;
+      await prisma.library.create({
+        data: {
+          ...data,
+          type: planned.isDirectory ? 'folder' : 'video',
+          path: planned.sourcePath,
+          pathHash,
+          size: BigInt(size),
+          isDirectory: planned.isDirectory,
+        },
+      });
+    } catch (error) {
+      logger.warn(`更新库文件状态失败 ${planned.sourcePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+// 全局预演计划实例
+let globalPlanner: ExecutionPlanner | null = null;
+
+/**
+ * 获取全局预演计划实例
+ */
+export function getExecutionPlanner(): ExecutionPlanner {
+  if (!globalPlanner) {
+    globalPlanner = new ExecutionPlanner();
+  }
+  return globalPlanner;
+}
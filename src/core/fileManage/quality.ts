@@ -0,0 +1,210 @@
+import path from "path";
+import {
+  QUALITY_CRITERIA,
+  QUALITY_RESOLUTIONS,
+  QUALITY_SOURCES,
+  QualityUpgradeConfig,
+} from "@/config/config";
+import { parseReleaseGroup } from "@/strategies/regex.identifier";
+import type { ReleaseTokens } from "./naming";
+
+/**
+ * 从文件名解析的发布质量
+ */
+export interface ReleaseQuality {
+  resolution: string | null; // 规范化的分辨率，如 1080p
+  source: string | null; // 规范化的来源，如 bluray、web-dl
+  revision: number; // 修订次数，首发版本为 0，REPACK/PROPER 或 v2 等递增
+}
+
+/**
+ * 从文件名解析的完整发布信息，保存在文件记录中
+ */
+export interface ReleaseInfo extends ReleaseQuality {
+  videoCodec: string | null; // 如 H.265、AV1
+  hdrFormat: string | null; // 如 HDR10、DV HDR10
+  audioCodec: string | null; // 如 TrueHD Atmos、DD+
+  releaseGroup: string | null;
+}
+
+const RESOLUTION_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:2160p|4k|uhd|3840x2160)\b/i, "2160p"],
+  [/\b(?:1080[pi]|1920x1080)\b/i, "1080p"],
+  [/\b(?:720p|1280x720)\b/i, "720p"],
+  [/\b576[pi]\b/i, "576p"],
+  [/\b480[pi]\b/i, "480p"],
+];
+
+// 按顺序匹配，REMUX 先于 BluRay，WEBRip 先于 WEB
+const SOURCE_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:bd)?remux\b/i, "remux"],
+  [/\b(?:blu-?ray|bd-?rip|br-?rip|bd)\b/i, "bluray"],
+  [/\bweb-?rip\b/i, "webrip"],
+  [/\b(?:web-?dl|web)\b/i, "web-dl"],
+  [/\b(?:hdtv|pdtv|tv-?rip)\b/i, "hdtv"],
+  [/\b(?:dvd-?rip|dvd)\b/i, "dvd"],
+];
+
+const VIDEO_CODEC_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:x\.?265|h\.?265|hevc)\b/i, "H.265"],
+  [/\b(?:x\.?264|h\.?264|avc)\b/i, "H.264"],
+  [/\bav1\b/i, "AV1"],
+  [/\bvc-?1\b/i, "VC-1"],
+  [/\bmpeg-?2\b/i, "MPEG-2"],
+  [/\b(?:xvid|divx)\b/i, "XviD"],
+];
+
+// 按顺序匹配，声道数紧跟在编码后面（如 DDP5.1、AAC2.0）
+const AUDIO_CODEC_PATTERNS: Array<[RegExp, string]> = [
+  [/\btruehd(?=\d|\b)/i, "TrueHD"],
+  [/\bdts-?x\b/i, "DTS-X"],
+  [/\bdts-?hd(?=\d|\b)/i, "DTS-HD"],
+  [/\bdts(?=\d|\b)/i, "DTS"],
+  [/\b(?:e-?ac-?3|ddp|dd\+)(?=\d|\b|\.)/i, "DD+"],
+  [/\b(?:ac-?3|dd)(?=\d|\b)/i, "DD"],
+  [/\bflac(?=\d|\b)/i, "FLAC"],
+  [/\bopus(?=\d|\b)/i, "Opus"],
+  [/\baac(?=\d|\b)/i, "AAC"],
+  [/\bl?pcm(?=\d|\b)/i, "LPCM"],
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+  remux: "REMUX",
+  bluray: "BluRay",
+  "web-dl": "WEB-DL",
+  webrip: "WEBRip",
+  hdtv: "HDTV",
+  dvd: "DVD",
+};
+
+/**
+ * 从文件名解析分辨率、来源和修订版本
+ * @param fileName 文件名或路径
+ */
+export function parseReleaseQuality(fileName: string): ReleaseQuality {
+  // 下划线不是单词边界，统一替换为点
+  const name = path.parse(fileName).name.replace(/_/g, ".");
+
+  const resolution = RESOLUTION_PATTERNS.find(([regex]) => regex.test(name))?.[1] ?? null;
+  const source = SOURCE_PATTERNS.find(([regex]) => regex.test(name))?.[1] ?? null;
+
+  // REPACK2 计为两次修订，动画的 03v2 计为一次
+  let revision = 0;
+  const repackMatch = name.match(/\b(?:repack|proper|rerip)(\d)?\b/i);
+  if (repackMatch) {
+    revision += repackMatch[1] ? parseInt(repackMatch[1], 10) : 1;
+  }
+  const versionMatch = name.match(/(?:\b|e)\d{1,4}v([2-9])\b/i);
+  if (versionMatch) {
+    revision += parseInt(versionMatch[1], 10) - 1;
+  }
+
+  return { resolution, source, revision };
+}
+
+/**
+ * 从文件名解析发布信息：分辨率、来源、修订版本、视频编码、HDR 格式、音频编码和发布组
+ * @param fileName 文件名或路径
+ */
+export function parseReleaseInfo(fileName: string): ReleaseInfo {
+  const name = path.parse(fileName).name.replace(/_/g, ".");
+
+  // 杜比视界可以与 HDR10 等同时存在，如 DV HDR10
+  const hdrParts: string[] = [];
+  if (/\b(?:dv|dovi|dolby\.?vision)\b/i.test(name)) hdrParts.push("DV");
+  if (/\bhdr10(?:\+|plus)/i.test(name)) hdrParts.push("HDR10+");
+  else if (/\bhdr10\b/i.test(name)) hdrParts.push("HDR10");
+  else if (/\bhlg\b/i.test(name)) hdrParts.push("HLG");
+  else if (/\bhdr\b/i.test(name)) hdrParts.push("HDR");
+
+  let audioCodec = AUDIO_CODEC_PATTERNS.find(([regex]) => regex.test(name))?.[1] ?? null;
+  if (/\batmos\b/i.test(name)) {
+    audioCodec = audioCodec ? `${audioCodec} Atmos` : "Atmos";
+  }
+
+  return {
+    ...parseReleaseQuality(fileName),
+    videoCodec: VIDEO_CODEC_PATTERNS.find(([regex]) => regex.test(name))?.[1] ?? null,
+    hdrFormat: hdrParts.length > 0 ? hdrParts.join(" ") : null,
+    audioCodec,
+    releaseGroup: parseReleaseGroup(path.basename(fileName)),
+  };
+}
+
+/**
+ * 文件记录中保存的发布信息字段
+ */
+export type ReleaseColumns = Omit<ReleaseInfo, "revision">;
+
+/**
+ * 从文件名解析发布信息，转换为文件记录的字段
+ */
+export function parseReleaseColumns(fileName: string): ReleaseColumns {
+  const { resolution, source, videoCodec, hdrFormat, audioCodec, releaseGroup } = parseReleaseInfo(fileName);
+  return { resolution, source, videoCodec, hdrFormat, audioCodec, releaseGroup };
+}
+
+/**
+ * 来源的显示名称，如 bluray 显示为 BluRay
+ */
+export function formatSource(source: string | null): string | null {
+  return source ? SOURCE_LABELS[source] ?? source : null;
+}
+
+/**
+ * 将发布信息转换为命名模板变量
+ */
+export function toReleaseTokens(columns: ReleaseColumns): ReleaseTokens {
+  return {
+    resolution: columns.resolution,
+    source: formatSource(columns.source),
+    videoCodec: columns.videoCodec,
+    hdr: columns.hdrFormat,
+    audioCodec: columns.audioCodec,
+    group: columns.releaseGroup,
+  };
+}
+
+/**
+ * 按配置的比较顺序比较两个质量
+ * @returns 大于 0 表示 a 更好，小于 0 表示 b 更好，0 表示相同
+ */
+export function compareQuality(
+  a: ReleaseQuality,
+  b: ReleaseQuality,
+  config?: QualityUpgradeConfig
+): number {
+  const resolutions = config?.resolutions ?? QUALITY_RESOLUTIONS;
+  const sources = config?.sources ?? QUALITY_SOURCES;
+  // 排序越靠前越好，未列出或无法识别的排在最后
+  const rank = (list: string[], value: string | null) => {
+    const index = value ? list.indexOf(value) : -1;
+    return index === -1 ? list.length : index;
+  };
+
+  for (const criterion of config?.order ?? QUALITY_CRITERIA) {
+    let diff = 0;
+    if (criterion === "resolution") {
+      diff = rank(resolutions, b.resolution) - rank(resolutions, a.resolution);
+    } else if (criterion === "source") {
+      diff = rank(sources, b.source) - rank(sources, a.source);
+    } else {
+      diff = a.revision - b.revision;
+    }
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * 格式化质量描述，如 "1080p BluRay v2"
+ */
+export function formatQuality(quality: ReleaseQuality): string {
+  const parts = [
+    quality.resolution,
+    formatSource(quality.source),
+    // 修订版本统一显示为 v2、v3
+    quality.revision > 0 ? `v${quality.revision + 1}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : "未知质量";
+}
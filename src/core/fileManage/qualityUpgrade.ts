@@ -0,0 +1,250 @@
+/**
+ * @fileoverview 重复文件检测和质量升级
+ * @description 按文件哈希和媒体/剧集检测已处理过的版本，新版本质量更高时替换已有链接，
+ * 旧的文件记录标记为已被替换并按集保留升级历史
+ */
+
+import client from '@/client';
+import { LinkMode, QualityUpgradeConfig } from '@/config/config';
+import { IdentifiedMedia } from '@/types/media.types';
+import { logger } from '@/utils/logger';
+import { pathExists } from '@/utils/fs';
+import { deleteHardlink } from '@/utils/hardlink';
+import { calculateFileHash, getFileDeviceInfo } from '@/utils/hash';
+import { getEpisodeNumbers } from '@/utils/media';
+import { LibraryStatus } from '@/generated/client';
+import { journalFileRecord } from './operationJournal';
+import { compareQuality, formatQuality, parseReleaseQuality, ReleaseQuality } from './quality';
+import { removeSubtitleLinks } from './subtitles';
+
+const prisma = client;
+
+/**
+ * 同一集或电影已有的版本
+ */
+export interface ExistingVersion {
+  id: number;
+  filePath: string;
+  linkPath: string;
+  linkMode: string | null;
+  mediaId: number | null;
+  episodes: Array<{ id: number; seasonNumber: number; episodeNumber: number }>;
+}
+
+/**
+ * 重复检测结果
+ */
+export type DuplicateCheckResult =
+  | { action: 'link' } // 没有已处理的版本，正常处理
+  | { action: 'skip'; fileId: number; reason: string } // 内容重复或质量不高于已有版本
+  | { action: 'upgrade'; versions: ExistingVersion[]; quality: ReleaseQuality }; // 质量更高，替换已有版本
+
+/**
+ * 已被替换的文件记录使用的链接路径占位值（链接路径唯一，新版本可能使用相同的链接路径）
+ */
+export function supersededLinkPath(fileId: number): string {
+  return `superseded:${fileId}`;
+}
+
+/**
+ * 检测源文件是否与已处理的文件重复
+ * 先按文件哈希查找内容相同的文件，再按电影或剧集查找已有版本并比较质量
+ * @param sourcePath 源文件路径
+ * @param media 识别结果
+ * @param config 质量升级配置
+ */
+export async function checkDuplicate(
+  sourcePath: string,
+  media: IdentifiedMedia,
+  config: QualityUpgradeConfig
+): Promise<DuplicateCheckResult> {
+  const deviceInfo = await getFileDeviceInfo(sourcePath);
+  const fileHash = await calculateFileHash(sourcePath, Number(deviceInfo.size));
+  // 同一源文件重新处理时按原流程更新记录
+  const otherFiles = {
+    filePath: { not: sourcePath },
+    NOT: { deviceId: deviceInfo.deviceId, inode: deviceInfo.inode },
+    supersededAt: null,
+  };
+
+  const sameContent = await prisma.file.findFirst({
+    where: { ...otherFiles, fileHash, fileSize: deviceInfo.size },
+    select: { id: true, filePath: true },
+  });
+  if (sameContent) {
+    return { action: 'skip', fileId: sameContent.id, reason: `与已处理的文件内容相同: ${sameContent.filePath}` };
+  }
+
+  const episodeNumbers = getEpisodeNumbers(media);
+  let identity;
+  if (media.type === 'movie') {
+    identity = { Media: { type: 'movie' as const, tmdbId: media.tmdbId } };
+  } else if (media.type === 'tv' && episodeNumbers.length > 0) {
+    identity = {
+      episodes: {
+        some: {
+          seasonNumber: media.seasonNumber,
+          episodeNumber: { in: episodeNumbers },
+          TvInfo: { tmdbId: media.tmdbId },
+        },
+      },
+    };
+  } else {
+    return { action: 'link' };
+  }
+
+  const versions: ExistingVersion[] = await prisma.file.findMany({
+    where: { ...otherFiles, ...identity, isDirectory: false, extraType: null },
+    select: {
+      id: true,
+      filePath: true,
+      linkPath: true,
+      linkMode: true,
+      mediaId: true,
+      episodes: { select: { id: true, seasonNumber: true, episodeNumber: true } },
+    },
+  });
+  return compareVersions(versions, media, parseReleaseQuality(sourcePath), config);
+}
+
+/**
+ * 比较新文件与同一集或电影的已有版本
+ * 已有的多集文件包含其他剧集，或任一版本的质量不低于新文件时跳过，否则替换全部已有版本
+ * @param versions 已有版本
+ * @param media 新文件的识别结果
+ * @param quality 新文件的质量
+ * @param config 质量升级配置
+ */
+export function compareVersions(
+  versions: ExistingVersion[],
+  media: IdentifiedMedia,
+  quality: ReleaseQuality,
+  config: QualityUpgradeConfig
+): DuplicateCheckResult {
+  if (versions.length === 0) {
+    return { action: 'link' };
+  }
+
+  const episodeNumbers = getEpisodeNumbers(media);
+  for (const version of versions) {
+    // 已有的多集文件包含其他剧集时不替换，避免丢失其他剧集的链接
+    const coversOtherEpisodes = version.episodes.some(
+      episode => episode.seasonNumber !== media.seasonNumber || !episodeNumbers.includes(episode.episodeNumber)
+    );
+    if (media.type === 'tv' && coversOtherEpisodes) {
+      return { action: 'skip', fileId: version.id, reason: `已有版本包含其他剧集，不替换: ${version.filePath}` };
+    }
+
+    const existing = parseReleaseQuality(version.filePath);
+    if (compareQuality(quality, existing, config) <= 0) {
+      return {
+        action: 'skip',
+        fileId: version.id,
+        reason: `已有同等或更高质量的版本: ${version.filePath} (${formatQuality(existing)}，当前 ${formatQuality(quality)})`,
+      };
+    }
+  }
+
+  return { action: 'upgrade', versions, quality };
+}
+
+/**
+ * 比较预演时的重复检测结果与当前结果，已有版本发生变化时返回说明
+ * @param plannedVersions 预演时计划替换的已有版本，正常链接时为空
+ * @param current 当前的重复检测结果
+ * @returns 结果一致时为 null
+ */
+export function getDuplicateChange(plannedVersions: ExistingVersion[], current: DuplicateCheckResult): string | null {
+  if (current.action === 'skip') {
+    return current.reason;
+  }
+
+  const currentVersions = current.action === 'upgrade' ? current.versions : [];
+  const plannedIds = new Set(plannedVersions.map(version => version.id));
+  const added = currentVersions.filter(version => !plannedIds.has(version.id));
+  if (added.length > 0) {
+    return `出现新的已有版本: ${added.map(version => version.filePath).join(', ')}`;
+  }
+  const currentIds = new Set(currentVersions.map(version => version.id));
+  const removed = plannedVersions.filter(version => !currentIds.has(version.id));
+  if (removed.length > 0) {
+    return `计划替换的版本已被删除或替换: ${removed.map(version => version.filePath).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * 跳过重复文件，库记录标记为忽略
+ */
+export async function skipDuplicate(sourcePath: string, reason: string): Promise<void> {
+  logger.info(`跳过重复文件: ${sourcePath}，${reason}`);
+  await prisma.library.updateMany({
+    where: { path: sourcePath },
+    data: { status: LibraryStatus.IGNORED, lastProcessedAt: new Date() },
+  });
+}
+
+/**
+ * 删除已有版本的链接、NFO 和字幕链接，文件记录标记为已被替换
+ * 应在新版本的链接创建成功之后调用，链接路径相同的已有版本已被新链接覆盖，不再删除
+ * @param versions 被替换的版本
+ * @param linkPath 新版本的链接路径
+ */
+export async function supersedeVersions(versions: ExistingVersion[], linkPath: string): Promise<void> {
+  for (const version of versions) {
+    await removeSubtitleLinks(version.id);
+    if (version.linkPath !== linkPath && await pathExists(version.linkPath)) {
+      await deleteHardlink(version.linkPath, version.linkMode as LinkMode | null, version.filePath);
+    }
+
+    await journalFileRecord(version.id);
+    await prisma.file.update({
+      where: { id: version.id },
+      data: {
+        linkPath: supersededLinkPath(version.id),
+        supersededAt: new Date(),
+        episodes: { set: [] },
+      },
+    });
+    logger.info(`已有版本被替换: ${version.filePath}`);
+  }
+}
+
+/**
+ * 新版本保存后关联被替换的文件记录，并按集记录升级历史（电影记录一条）
+ * @param versions 被替换的版本
+ * @param fileId 新版本的文件记录ID
+ * @param sourcePath 新版本的源文件路径
+ * @param quality 新版本的质量
+ */
+export async function recordUpgrade(
+  versions: ExistingVersion[],
+  fileId: number,
+  sourcePath: string,
+  quality: ReleaseQuality
+): Promise<void> {
+  for (const version of versions) {
+    await prisma.file.update({
+      where: { id: version.id },
+      data: { supersededById: fileId },
+    });
+
+    const fromQuality = formatQuality(parseReleaseQuality(version.filePath));
+    const toQuality = formatQuality(quality);
+    const episodeIds = version.episodes.length > 0 ? version.episodes.map(episode => episode.id) : [null];
+    await prisma.qualityUpgrade.createMany({
+      data: episodeIds.map(episodeId => ({
+        mediaId: version.mediaId,
+        episodeId,
+        fromFileId: version.id,
+        toFileId: fileId,
+        fromPath: version.filePath,
+        toPath: sourcePath,
+        linkPath: version.linkPath,
+        fromQuality,
+        toQuality,
+      })),
+    });
+    logger.info(`质量升级: ${version.filePath} (${fromQuality}) -> ${sourcePath} (${toQuality})`);
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * @fileoverview 硬链接整理
+ * @description 按当前路由规则、命名模板和媒体信息重新计算已有硬链接的目标路径，预览或执行移动
+ */
+
+import fs from 'fs';
+import path from 'path';
+import client from '@/client';
+import { getConfig } from '@/config/config';
+import { getConfigForPath, getTargetRoots } from '@/config/library';
+import { BusinessError, ErrorType } from '@/core/errors';
+import { logger } from '@/utils/logger';
+import { pathExists } from '@/utils/fs';
+import { IdentifiedMedia } from '@/types/media.types';
+import { buildMediaRelativePath, buildSpecialFolderRelativePath } from './naming';
+import { toReleaseTokens } from './quality';
+import { MediaRouter, RouteResult } from './routing';
+
+const prisma = client;
+
+/**
+ * 特殊文件夹作品目录下的卷目录和特殊内容目录
+ */
+const CONTENT_FOLDER_PATTERN = /^(?:Vol\.\d+|SP|Bonus|Menu|PV|OVA|Other)$/;
+
+/**
+ * 从给定目录向上删除空目录，直到所在媒体库或路由规则的目标目录为止
+ * @returns 删除的目录数量
+ */
+export async function removeEmptyDirectories(directories: string[]): Promise<number> {
+  const targetRoots = getTargetRoots();
+  // 先处理较深的目录，保证父目录在子目录删除后再检查
+  const pending = [...new Set(directories.map(dir => path.resolve(dir)))]
+    .sort((a, b) => b.length - a.length);
+  let removed = 0;
+
+  for (let dir of pending) {
+    // 目标目录嵌套时以最深的一个为界
+    const rootPath = targetRoots
+      .filter(root => dir.startsWith(root + path.sep))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!rootPath) continue;
+
+    while (dir !== rootPath && dir.startsWith(rootPath + path.sep)) {
+      try {
+        const entries = await fs.promises.readdir(dir);
+        if (entries.length > 0) break;
+        await fs.promises.rmdir(dir);
+        removed++;
+        logger.debug(`删除空目录: ${dir}`);
+      } catch {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * 单个硬链接的移动计划
+ */
+export interface ReorganizeMove {
+  fileId: number;
+  from: string;
+  to: string;
+  isDirectory: boolean;
+  // 包含子卷的父文件夹随子卷一起移动，只更新数据库
+  moveOnDisk: boolean;
+  // 同名 NFO 文件，不存在时为 null
+  nfo: { from: string; to: string } | null;
+  // 随视频一起移动的字幕硬链接，磁盘上不存在的字幕不包含在内
+  subtitles: Array<{ id: number; from: string; to: string }>;
+  // 无法移动的原因，为 null 时可以执行
+  conflict: string | null;
+  // 按当前规则命中的路由规则和原记录的路由规则，未命中时为 null
+  routingRule: string | null;
+  previousRule: string | null;
+}
+
+/**
+ * 整理预览结果
+ */
+export interface ReorganizePlan {
+  moves: ReorganizeMove[];
+  unchanged: number;
+  skipped: Array<{ fileId: number; linkPath: string; reason: string }>;
+}
+
+/**
+ * 整理执行结果
+ */
+export interface ReorganizeResult {
+  moved: number;
+  conflicts: number;
+  removedDirectories: number;
+}
+
+async function someExists(targetPaths: string[]): Promise<boolean> {
+  for (const targetPath of targetPaths) {
+    if (await pathExists(targetPath)) return true;
+  }
+  return false;
+}
+
+function getNfoPath(linkPath: string): string {
+  return linkPath.replace(/\.[^.]+$/, '.nfo');
+}
+
+/**
+ * 去掉扩展名的硬链接路径，字幕硬链接以此为前缀
+ */
+function getLinkBase(linkPath: string): string {
+  return linkPath.slice(0, linkPath.length - path.extname(linkPath).length);
+}
+
+/**
+ * @class LibraryReorganizer
+ * @description 重新计算数据库中所有已关联文件的硬链接路径。
+ * 执行时先移动磁盘上的硬链接、NFO 和字幕文件，再在一个事务中更新数据库，任一步失败都会撤销已完成的移动。
+ */
+export class LibraryReorganizer {
+  private running = false;
+
+  /**
+   * 生成整理计划，不修改任何文件
+   */
+  public async plan(): Promise<ReorganizePlan> {
+    const config = getConfig();
+    const router = new MediaRouter(config);
+    // 附加内容保留源文件名，不按命名模板整理
+    const files = await prisma.file.findMany({
+      where: { mediaId: { not: null }, supersededAt: null, extraType: null },
+      include: {
+        Media: true,
+        episodes: { orderBy: [{ seasonNumber: 'asc' }, { episodeNumber: 'asc' }] },
+        parentFolder: { select: { linkPath: true, filePath: true } },
+        subtitles: true,
+        _count: { select: { childFolders: true } },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const result: ReorganizePlan = { moves: [], unchanged: 0, skipped: [] };
+    const plannedTargets = new Set<string>();
+
+    for (const file of files) {
+      const media = file.Media!;
+      // 按路由规则选择目标根目录，子卷与父文件夹使用同一规则
+      let route: RouteResult;
+      try {
+        route = await router.resolve(media, file.parentFolder?.filePath ?? file.filePath);
+      } catch (error) {
+        logger.warn(`匹配路由规则失败 ${file.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        result.skipped.push({ fileId: file.id, linkPath: file.linkPath, reason: '匹配路由规则失败' });
+        continue;
+      }
+      // 按源文件所属媒体库的命名模板计算
+      const libraryConfig = getConfigForPath(file.filePath, config);
+      const routingRule = route.rule?.name ?? null;
+      let to: string;
+
+      if (file.isDirectory) {
+        const basePath = path.join(
+          route.targetPath,
+          buildSpecialFolderRelativePath(media, libraryConfig)
+        );
+        const folderName = path.basename(file.linkPath);
+        if (file.parentFolder) {
+          // 子卷保持相对父文件夹的位置
+          const relativePath = path.relative(file.parentFolder.linkPath, file.linkPath);
+          to = path.join(basePath, relativePath && !relativePath.startsWith('..') ? relativePath : folderName);
+        } else if (CONTENT_FOLDER_PATTERN.test(folderName)) {
+          to = path.join(basePath, folderName);
+        } else {
+          to = basePath;
+        }
+      } else {
+        if (media.type === 'tv' && file.episodes.length === 0) {
+          result.skipped.push({ fileId: file.id, linkPath: file.linkPath, reason: '未关联剧集信息' });
+          continue;
+        }
+
+        const firstEpisode = file.episodes[0];
+        const lastEpisode = file.episodes[file.episodes.length - 1];
+        const identified: IdentifiedMedia = {
+          type: media.type,
+          tmdbId: media.tmdbId,
+          title: media.title,
+          originalTitle: media.originalTitle ?? media.title,
+          releaseDate: media.releaseDate,
+          description: media.description,
+          posterPath: null,
+          backdropPath: null,
+          seasonNumber: firstEpisode?.seasonNumber,
+          episodeNumber: firstEpisode?.episodeNumber,
+          episodeNumberEnd: file.episodes.length > 1 ? lastEpisode.episodeNumber : undefined,
+          episodeTitle: firstEpisode?.title ?? undefined,
+          rawData: null,
+        };
+        const { directory, fileName } = buildMediaRelativePath(identified, libraryConfig, toReleaseTokens(file));
+        to = path.join(route.targetPath, directory, fileName + path.extname(file.linkPath));
+      }
+
+      if (to === file.linkPath) {
+        result.unchanged++;
+        continue;
+      }
+
+      const moveOnDisk = !(file.isDirectory && file._count.childFolders > 0);
+      let nfo: ReorganizeMove['nfo'] = null;
+      if (!file.isDirectory && await pathExists(getNfoPath(file.linkPath))) {
+        nfo = { from: getNfoPath(file.linkPath), to: getNfoPath(to) };
+      }
+      const subtitles: ReorganizeMove['subtitles'] = [];
+      for (const subtitle of file.subtitles) {
+        if (!subtitle.linkPath.startsWith(getLinkBase(file.linkPath)) || !await pathExists(subtitle.linkPath)) {
+          continue;
+        }
+        subtitles.push({
+          id: subtitle.id,
+          from: subtitle.linkPath,
+          to: getLinkBase(to) + subtitle.linkPath.slice(getLinkBase(file.linkPath).length),
+        });
+      }
+
+      let conflict: string | null = null;
+      if (plannedTargets.has(to)) {
+        conflict = '与其他文件的目标路径相同';
+      } else if (moveOnDisk && !await pathExists(file.linkPath)) {
+        conflict = '硬链接不存在';
+      } else if (moveOnDisk && await pathExists(to)) {
+        conflict = '目标路径已存在';
+      } else if (await someExists(subtitles.map(subtitle => subtitle.to))) {
+        conflict = '字幕目标路径已存在';
+      }
+      plannedTargets.add(to);
+
+      result.moves.push({
+        fileId: file.id,
+        from: file.linkPath,
+        to,
+        isDirectory: file.isDirectory,
+        moveOnDisk,
+        nfo,
+        subtitles,
+        conflict,
+        routingRule,
+        previousRule: file.routingRule,
+      });
+    }
+
+    logger.info(`整理计划: ${result.moves.length} 个待移动，${result.unchanged} 个无需移动，${result.skipped.length} 个跳过`);
+    return result;
+  }
+
+  /**
+   * 按整理计划移动硬链接并更新数据库
+   * @param fileIds 仅移动指定文件，为空时移动所有无冲突的文件
+   */
+  public async apply(fileIds?: number[]): Promise<ReorganizeResult> {
+    if (this.running) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '整理任务正在进行中');
+    }
+    this.running = true;
+
+    try {
+      const plan = await this.plan();
+      const selected = plan.moves.filter(move => !fileIds || fileIds.includes(move.fileId));
+      const moves = selected.filter(move => !move.conflict);
+      const completed: Array<{ from: string; to: string }> = [];
+
+      try {
+        for (const move of moves) {
+          if (!move.moveOnDisk) continue;
+          for (const step of [move, ...(move.nfo ? [move.nfo] : []), ...move.subtitles]) {
+            await fs.promises.mkdir(path.dirname(step.to), { recursive: true });
+            await fs.promises.rename(step.from, step.to);
+            completed.push(step);
+            logger.info(`移动硬链接: ${step.from} -> ${step.to}`);
+          }
+        }
+
+        await prisma.$transaction([
+          ...moves.map(move => prisma.file.update({
+            where: { id: move.fileId },
+            data: { linkPath: move.to, routingRule: move.routingRule },
+          })),
+          ...moves.flatMap(move => move.subtitles.map(subtitle => prisma.subtitle.update({
+            where: { id: subtitle.id },
+            data: { linkPath: subtitle.to },
+          }))),
+        ]);
+      } catch (error) {
+        logger.error(`整理硬链接失败，撤销已完成的 ${completed.length} 个移动`, error);
+        for (const step of completed.reverse()) {
+          try {
+            await fs.promises.rename(step.to, step.from);
+          } catch (rollbackError) {
+            logger.error(`撤销移动失败: ${step.to} -> ${step.from}`, rollbackError);
+          }
+        }
+        throw error;
+      }
+
+      const removedDirectories = await removeEmptyDirectories(
+        moves.map(move => (move.moveOnDisk ? path.dirname(move.from) : move.from))
+      );
+
+      logger.info(`整理完成: 移动 ${moves.length} 个，冲突 ${selected.length - moves.length} 个，清理空目录 ${removedDirectories} 个`);
+      return {
+        moved: moves.length,
+        conflicts: selected.length - moves.length,
+        removedDirectories,
+      };
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// 全局整理实例
+let globalReorganizer: LibraryReorganizer | null = null;
+
+/**
+ * 获取全局硬链接整理实例
+ */
+export function getLibraryReorganizer(): LibraryReorganizer {
+  if (!globalReorganizer) {
+    globalReorganizer = new LibraryReorganizer();
+  }
+  return globalReorganizer;
+}
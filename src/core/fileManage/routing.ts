@@ -0,0 +1,169 @@
+/**
+ * @fileoverview 媒体路由规则
+ * @description 识别完成后按顺序匹配路由规则，决定硬链接使用的目标根目录
+ */
+
+import path from 'path';
+import { Config, RoutingRule, getConfig } from '@/config/config';
+import { getConfigForPath } from '@/config/library';
+import { CachedMovieDb } from '@/core/cache/tmdbCache';
+import { parseReleaseGroup } from '@/strategies/regex.identifier';
+import { globToRegExp } from '@/utils/glob';
+
+/**
+ * 从 TMDB 获取的媒体属性
+ */
+export interface RoutingFacts {
+  genres: Array<{ id: number; name: string }>;
+  originalLanguage: string | null;
+  originCountry: string[];
+}
+
+/**
+ * 匹配路由规则所需的信息
+ */
+export interface RoutingContext {
+  mediaType: string;
+  sourcePath: string;
+  // 未获取时为 null，依赖 TMDB 属性的条件视为不匹配
+  facts: RoutingFacts | null;
+}
+
+/**
+ * 路由结果
+ */
+export interface RouteResult {
+  // 命中的规则，未命中时为 null
+  rule: RoutingRule | null;
+  // 硬链接目标根目录
+  targetPath: string;
+}
+
+/**
+ * 判断规则是否需要 TMDB 属性
+ */
+function needsFacts(rule: RoutingRule): boolean {
+  const { genres, originalLanguage, originCountry } = rule.match;
+  return !!(genres?.length || originalLanguage?.length || originCountry?.length);
+}
+
+/**
+ * 判断媒体是否命中路由规则
+ */
+export function matchRoutingRule(rule: RoutingRule, context: RoutingContext): boolean {
+  const match = rule.match;
+  const facts = context.facts;
+
+  if (match.mediaType && match.mediaType !== context.mediaType) {
+    return false;
+  }
+
+  if (match.genres?.length) {
+    const matched = match.genres.some(genre => facts?.genres.some(item =>
+      typeof genre === 'number' ? item.id === genre : item.name.toLowerCase() === genre.toLowerCase()
+    ));
+    if (!matched) return false;
+  }
+
+  if (match.originalLanguage?.length) {
+    const language = facts?.originalLanguage?.toLowerCase();
+    if (!language || !match.originalLanguage.some(item => item.toLowerCase() === language)) {
+      return false;
+    }
+  }
+
+  if (match.originCountry?.length) {
+    const countries = match.originCountry.map(item => item.toUpperCase());
+    if (!facts?.originCountry.some(country => countries.includes(country.toUpperCase()))) {
+      return false;
+    }
+  }
+
+  if (match.sourcePath) {
+    const sourcePath = context.sourcePath.split(path.sep).join('/');
+    if (!globToRegExp(match.sourcePath).test(sourcePath)) {
+      return false;
+    }
+  }
+
+  if (match.releaseGroup?.length) {
+    const group = parseReleaseGroup(path.basename(context.sourcePath))?.toLowerCase();
+    if (!group || !match.releaseGroup.some(item => item.toLowerCase() === group)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * @class MediaRouter
+ * @description 按配置顺序匹配路由规则，未命中时使用源文件所属媒体库的目标目录。
+ * TMDB 属性只在规则需要时获取，同一实例内按媒体缓存。
+ */
+export class MediaRouter {
+  private factsCache = new Map<string, Promise<RoutingFacts | null>>();
+
+  constructor(private config: Config = getConfig()) {}
+
+  /**
+   * 计算媒体的目标根目录
+   * @param media 媒体类型和 TMDB ID
+   * @param sourcePath 源文件或文件夹路径
+   */
+  public async resolve(
+    media: { type: string; tmdbId: number | null },
+    sourcePath: string
+  ): Promise<RouteResult> {
+    const rules = this.config.routingRules ?? [];
+    for (const rule of rules) {
+      const facts = needsFacts(rule) ? await this.getFacts(media) : null;
+      if (matchRoutingRule(rule, { mediaType: media.type, sourcePath, facts })) {
+        return { rule, targetPath: rule.targetPath };
+      }
+    }
+    return { rule: null, targetPath: getConfigForPath(sourcePath, this.config).targetFilePath };
+  }
+
+  /**
+   * 获取媒体的类型、原始语言和出品国家，合集等非剧集/电影条目返回 null
+   */
+  private getFacts(media: { type: string; tmdbId: number | null }): Promise<RoutingFacts | null> {
+    if (media.tmdbId === null || (media.type !== 'tv' && media.type !== 'movie')) {
+      return Promise.resolve(null);
+    }
+
+    const key = `${media.type}:${media.tmdbId}`;
+    let facts = this.factsCache.get(key);
+    if (!facts) {
+      facts = this.fetchFacts(media.type, media.tmdbId);
+      this.factsCache.set(key, facts);
+      // 请求失败时不缓存，便于下次重试
+      facts.catch(() => this.factsCache.delete(key));
+    }
+    return facts;
+  }
+
+  private async fetchFacts(type: 'tv' | 'movie', tmdbId: number): Promise<RoutingFacts> {
+    const moviedb = new CachedMovieDb(this.config.tmdbApi);
+    const params = { id: tmdbId, language: this.config.language };
+
+    if (type === 'tv') {
+      const show = await moviedb.tvInfo(params);
+      return {
+        genres: (show.genres ?? []).map(genre => ({ id: genre.id ?? 0, name: genre.name ?? '' })),
+        originalLanguage: show.original_language ?? null,
+        originCountry: show.origin_country ?? [],
+      };
+    }
+
+    const movie = await moviedb.movieInfo(params);
+    return {
+      genres: (movie.genres ?? []).map(genre => ({ id: genre.id ?? 0, name: genre.name ?? '' })),
+      originalLanguage: movie.original_language ?? null,
+      originCountry: (movie.production_countries ?? [])
+        .map(country => country.iso_3166_1)
+        .filter((country): country is string => !!country),
+    };
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * @fileoverview 源文件移动和删除
+ * @description 处理监听目录中源文件的删除事件：按路径和设备ID+inode查找受影响的记录，
+ * 移动只更新记录中的源路径，真正删除时按配置保留、删除或回收链接，并清理文件、库和媒体记录
+ */
+
+import fs from 'fs';
+import path from 'path';
+import client from '@/client';
+import type { Prisma } from '@/generated/client';
+import { getConfig, LinkMode, SourceRemovalConfig } from '@/config/config';
+import { getLibraryRoots, getTargetRoots, isInsideAny } from '@/config/library';
+import { logger } from '@/utils/logger';
+import { pathExists } from '@/utils/fs';
+import { deleteHardlink } from '@/utils/hardlink';
+import { generatePathHash } from '@/utils/hash';
+import { removeSubtitleLinks } from './subtitles';
+import { journalFileRecord, journalMediaDeletion, runInJournalGroup } from './operationJournal';
+
+const prisma = client;
+
+/**
+ * 删除事件后等待的时间（毫秒），期间出现的新增事件可以识别为移动
+ * 需要大于文件监控的写入稳定时间
+ */
+const REMOVAL_DELAY = 15000;
+
+/**
+ * 处理移动和删除所需的文件记录字段
+ */
+interface SourceRecord {
+  id: number;
+  deviceId: bigint;
+  inode: bigint;
+  filePath: string;
+  linkPath: string;
+  isDirectory: boolean;
+  linkMode: string | null;
+}
+
+/**
+ * 移动文件或目录，跨文件系统时复制后删除原路径（符号链接保持原样复制）
+ */
+async function movePath(from: string, to: string): Promise<void> {
+  try {
+    await fs.promises.rename(from, to);
+    return;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+  }
+
+  logger.warn(`回收目录与链接不在同一文件系统，复制后删除: ${from}`);
+  try {
+    await fs.promises.cp(from, to, { recursive: true, verbatimSymlinks: true, preserveTimestamps: true, errorOnExist: true, force: false });
+  } catch (error) {
+    // 复制失败时删除不完整的副本，保留原路径
+    await fs.promises.rm(to, { recursive: true, force: true }).catch(() => undefined);
+    throw error;
+  }
+  await fs.promises.rm(from, { recursive: true, force: true });
+}
+
+/**
+ * 将位于 oldPath 下的路径替换为 newPath 下的对应路径
+ */
+function replacePrefix(filePath: string, oldPath: string, newPath: string): string {
+  return newPath + filePath.slice(oldPath.length);
+}
+
+/**
+ * @class SourceTracker
+ * @description 跟踪源文件的移动和删除。
+ * 删除事件会延迟处理并合并，等待期间移动后的文件出现时只更新记录中的源路径；
+ * 到期后仍然找不到的源文件按 sourceRemoval 配置处理链接，并删除对应的记录。
+ */
+export class SourceTracker {
+  private pendingPaths = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * 记录被删除的源文件或文件夹，等待一段时间后统一处理
+   * @param removedPath 被删除的路径
+   */
+  public handleRemoved(removedPath: string): void {
+    this.pendingPaths.add(path.resolve(removedPath));
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const paths = [...this.pendingPaths];
+      this.pendingPaths.clear();
+      this.processRemoved(paths).catch(error => logger.error('处理源文件删除失败', error));
+    }, REMOVAL_DELAY);
+  }
+
+  /**
+   * 检查新增的文件或文件夹是否由已有记录的源文件移动而来
+   * 设备ID和inode与记录相同、且记录中的原路径已不存在时，只更新记录中的源路径
+   * @param newPath 新增的路径
+   * @returns 是否为移动
+   */
+  public async detectMove(newPath: string): Promise<boolean> {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(newPath);
+    } catch {
+      return false;
+    }
+
+    const file = await prisma.file.findUnique({
+      where: { device_inode_unique: { deviceId: BigInt(stats.dev), inode: BigInt(stats.ino) } },
+    });
+    const resolvedPath = path.resolve(newPath);
+    if (!file || path.resolve(file.filePath) === resolvedPath || await pathExists(file.filePath)) {
+      return false;
+    }
+
+    await this.applyMove(file, resolvedPath);
+    return true;
+  }
+
+  /**
+   * 处理被删除的路径
+   * 先按路径查找记录，源文件仍不存在时按设备ID和inode在监听目录中查找移动后的位置
+   */
+  private async processRemoved(removedPaths: string[]): Promise<void> {
+    const records = await prisma.file.findMany({
+      where: {
+        OR: removedPaths.flatMap(removedPath => [
+          { filePath: removedPath },
+          { filePath: { startsWith: removedPath + path.sep } },
+        ]),
+      },
+      // 父文件夹先于子卷处理
+      orderBy: { filePath: 'asc' },
+    });
+
+    const missing: SourceRecord[] = [];
+    for (const record of records) {
+      if (!await pathExists(record.filePath)) missing.push(record);
+    }
+
+    if (missing.length > 0) {
+      const inodeIndex = await this.buildInodeIndex();
+      const movedPaths: string[] = [];
+      const removed: SourceRecord[] = [];
+
+      for (const record of missing) {
+        // 随父文件夹一起移动的子卷已在父文件夹移动时更新
+        if (isInsideAny(record.filePath, movedPaths)) continue;
+
+        const newPath = inodeIndex.get(`${record.deviceId}:${record.inode}`);
+        if (newPath) {
+          await this.applyMove(record, newPath);
+          movedPaths.push(record.filePath);
+        } else {
+          removed.push(record);
+        }
+      }
+
+      await runInJournalGroup(
+        { source: 'monitor', label: `源文件删除 (${removed.length} 个)` },
+        () => this.removeRecords(removed)
+      );
+    }
+
+    // 清理尚未处理完成、没有文件记录的库记录
+    const libraries = await prisma.library.findMany({
+      where: {
+        fileId: null,
+        OR: removedPaths.flatMap(removedPath => [
+          { path: removedPath },
+          { path: { startsWith: removedPath + path.sep } },
+        ]),
+      },
+    });
+    const staleIds: number[] = [];
+    for (const library of libraries) {
+      if (!await pathExists(library.path)) staleIds.push(library.id);
+    }
+    if (staleIds.length > 0) {
+      await prisma.library.deleteMany({ where: { id: { in: staleIds } } });
+      logger.info(`已删除 ${staleIds.length} 条源文件不存在的库记录`);
+    }
+  }
+
+  /**
+   * 按设备ID和inode索引监听目录中的文件夹和视频文件，跳过目标目录
+   */
+  private async buildInodeIndex(): Promise<Map<string, string>> {
+    const config = getConfig();
+    const videoExtensions = config.videoExtensions.map(ext => ext.toLowerCase());
+    const targetRoots = getTargetRoots(config);
+    const index = new Map<string, string>();
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (isInsideAny(entryPath, targetRoots)) continue;
+        const isVideo = entry.isFile() && videoExtensions.includes(path.extname(entry.name).toLowerCase());
+        if (!entry.isDirectory() && !isVideo) continue;
+
+        try {
+          const stats = await fs.promises.stat(entryPath);
+          index.set(`${stats.dev}:${stats.ino}`, entryPath);
+        } catch {
+          continue;
+        }
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        }
+      }
+    };
+
+    for (const root of getLibraryRoots(config)) {
+      await walk(path.resolve(root.monitorPath));
+    }
+    return index;
+  }
+
+  /**
+   * 更新移动后的源路径，包括文件夹中的子卷、字幕和库记录
+   * 符号链接指向原路径，需要重新指向新路径
+   */
+  private async applyMove(record: SourceRecord, newPath: string): Promise<void> {
+    const oldPath = record.filePath;
+    const operations: Prisma.PrismaPromise<unknown>[] = [
+      prisma.file.update({ where: { id: record.id }, data: { filePath: newPath } }),
+    ];
+
+    if (record.isDirectory) {
+      const children = await prisma.file.findMany({ where: { filePath: { startsWith: oldPath + path.sep } } });
+      for (const child of children) {
+        operations.push(prisma.file.update({
+          where: { id: child.id },
+          data: { filePath: replacePrefix(child.filePath, oldPath, newPath) },
+        }));
+      }
+    }
+
+    // 字幕文件通常随视频一起移动到同一目录
+    const subtitles = await prisma.subtitle.findMany({
+      where: record.isDirectory ? { filePath: { startsWith: oldPath + path.sep } } : { fileId: record.id },
+    });
+    const subtitleMoves: Array<{ linkPath: string; from: string; to: string }> = [];
+    for (const subtitle of subtitles) {
+      const subtitlePath = record.isDirectory
+        ? replacePrefix(subtitle.filePath, oldPath, newPath)
+        : path.join(path.dirname(newPath), path.basename(subtitle.filePath));
+      if (!await pathExists(subtitlePath)) continue;
+      operations.push(prisma.subtitle.update({ where: { id: subtitle.id }, data: { filePath: subtitlePath } }));
+      subtitleMoves.push({ linkPath: subtitle.linkPath, from: subtitle.filePath, to: subtitlePath });
+    }
+
+    const libraries = await prisma.library.findMany({
+      where: { OR: [{ path: oldPath }, { path: { startsWith: oldPath + path.sep } }] },
+    });
+    const libraryPaths = libraries.map(library => replacePrefix(library.path, oldPath, newPath));
+    // 扫描可能已为新路径创建了库记录
+    await prisma.library.deleteMany({ where: { path: { in: libraryPaths }, fileId: null } });
+    libraries.forEach((library, index) => {
+      operations.push(prisma.library.update({
+        where: { id: library.id },
+        data: { path: libraryPaths[index], pathHash: generatePathHash(libraryPaths[index]) },
+      }));
+    });
+
+    await prisma.$transaction(operations);
+
+    await this.repointSymlinks(record.linkPath, oldPath, newPath, record.isDirectory && record.linkMode === 'symlink');
+    for (const move of subtitleMoves) {
+      await this.repointSymlinks(move.linkPath, move.from, move.to, false);
+    }
+
+    logger.info(`源文件已移动，更新记录: ${oldPath} -> ${newPath}`);
+  }
+
+  /**
+   * 将指向原路径的符号链接重新指向新路径
+   * @param recursive 链接为目录时是否检查其中的文件
+   */
+  private async repointSymlinks(linkPath: string, oldPath: string, newPath: string, recursive: boolean): Promise<void> {
+    try {
+      const stats = await fs.promises.lstat(linkPath);
+      if (stats.isSymbolicLink()) {
+        const target = path.resolve(path.dirname(linkPath), await fs.promises.readlink(linkPath));
+        if (target === oldPath || target.startsWith(oldPath + path.sep)) {
+          await fs.promises.unlink(linkPath);
+          await fs.promises.symlink(replacePrefix(target, oldPath, newPath), linkPath);
+          logger.debug(`符号链接重新指向: ${linkPath}`);
+        }
+      } else if (recursive && stats.isDirectory()) {
+        for (const entry of await fs.promises.readdir(linkPath)) {
+          await this.repointSymlinks(path.join(linkPath, entry), oldPath, newPath, true);
+        }
+      }
+    } catch (error) {
+      logger.warn(`更新符号链接失败 ${linkPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 按配置处理源文件已删除的链接，并删除文件和库记录，媒体不再有关联文件时一起删除
+   * 链接处理失败时保留记录，便于在完整性校验中处理；删除的文件和媒体记录写入操作日志，撤销时还原
+   */
+  private async removeRecords(records: SourceRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const sourceRemoval: SourceRemovalConfig = getConfig().sourceRemoval ?? { action: 'keep' };
+    let removed = 0;
+
+    for (const record of records) {
+      try {
+        if (sourceRemoval.action === 'remove') {
+          await removeSubtitleLinks(record.id);
+          if (await pathExists(record.linkPath)) {
+            await deleteHardlink(record.linkPath, record.linkMode as LinkMode | null, record.filePath);
+          }
+        } else if (sourceRemoval.action === 'trash') {
+          await this.moveToTrash(record, sourceRemoval.trashPath);
+        }
+
+        await journalFileRecord(record.id);
+        await prisma.library.deleteMany({ where: { fileId: record.id } });
+        const { mediaId } = await prisma.file.delete({ where: { id: record.id } });
+        removed++;
+        logger.info(`源文件已删除，删除记录: ${record.filePath}`);
+
+        if (mediaId !== null && (await prisma.file.count({ where: { mediaId } })) === 0) {
+          await journalMediaDeletion(mediaId);
+          await prisma.media.delete({ where: { id: mediaId } });
+          logger.info(`媒体不再有关联文件，删除媒体记录: ${mediaId}`);
+        }
+      } catch (error) {
+        logger.error(`处理已删除的源文件失败: ${record.filePath}`, error);
+      }
+    }
+
+    logger.info(`已处理 ${removed} 个删除的源文件，链接处理方式: ${sourceRemoval.action}`);
+  }
+
+  /**
+   * 将链接、NFO 和字幕链接移动到回收目录，保持相对于目标根目录的路径
+   */
+  private async moveToTrash(record: SourceRecord, trashPath: string): Promise<void> {
+    const targetRoots = getTargetRoots();
+    const subtitles = await prisma.subtitle.findMany({ where: { fileId: record.id } });
+    const items = [
+      record.linkPath,
+      ...(record.isDirectory ? [] : [record.linkPath.replace(/\.[^.]+$/, '.nfo')]),
+      ...subtitles.map(subtitle => subtitle.linkPath),
+    ];
+
+    for (const item of items) {
+      // 子卷随父文件夹一起移动后不再存在
+      if (!await pathExists(item)) continue;
+
+      const rootPath = targetRoots
+        .filter(root => item.startsWith(root + path.sep))
+        .sort((a, b) => b.length - a.length)[0];
+      const trashItemPath = path.join(trashPath, rootPath ? path.relative(rootPath, item) : path.basename(item));
+      if (await pathExists(trashItemPath)) {
+        logger.warn(`回收目录中已存在同名文件，保留原文件: ${item}`);
+        continue;
+      }
+
+      await fs.promises.mkdir(path.dirname(trashItemPath), { recursive: true });
+      await movePath(item, trashItemPath);
+      logger.info(`移动到回收目录: ${item} -> ${trashItemPath}`);
+    }
+  }
+}
+
+// 全局源文件跟踪实例
+let globalSourceTracker: SourceTracker | null = null;
+
+/**
+ * 获取全局源文件跟踪实例
+ */
+export function getSourceTracker(): SourceTracker {
+  if (!globalSourceTracker) {
+    globalSourceTracker = new SourceTracker();
+  }
+  return globalSourceTracker;
+}
@@ -6,14 +6,21 @@
 import fs from 'fs';
 import path from 'path';
 import { logger } from '@/utils/logger';
+import { getMediaName, getMediaReleaseDate } from '@/utils/media';
 import { generatePathHash } from '@/utils/hash';
 import { createHardlinkRecursively } from '@/utils/hardlink';
 import { FileProcessor } from './fileProcessor';
 import { PrismaClient, LibraryStatus } from '@/generated/client';
-import { getConfig } from '@/config/config';
+import { getConfig, LinkMode } from '@/config/config';
+import { findLibraryRoot, getConfigForPath, getLinkModes } from '@/config/library';
 import { getQueueService } from '@/queue/queueService';
 import { LLMIdentifier, LLMFolderIdentification } from '@/strategies/llm.identifier';
-import { SpecialFolderType, SpecialFolder, SpecialFolderProcessResult } from '@/types/specialFolder.types';
+import { SpecialFolderType, SpecialFolder, SpecialFolderProcessResult, MediaInfo } from '@/types/specialFolder.types';
+import { AppliedFolderHint } from '@/types/media.types';
+import { CachedMovieDb } from '@/core/cache/tmdbCache';
+import { HINT_FILE_NAME } from './folderHint';
+import { buildSpecialFolderRelativePath } from './naming';
+import { MediaRouter } from './routing';
 
 /**
  * 特殊文件夹处理器
@@ -22,12 +29,21 @@ export class SpecialFolderProcessor {
   private prisma: PrismaClient;
   private fileProcessor: FileProcessor;
   private config = getConfig();
-  private identifier: LLMIdentifier;
+  private identifier: LLMIdentifier | null = null;
 
   constructor(prisma: PrismaClient, fileProcessor: FileProcessor) {
     this.prisma = prisma;
     this.fileProcessor = fileProcessor;
-    this.identifier = new LLMIdentifier();
+  }
+
+  /**
+   * 延迟创建 LLM 识别器，使用规则识别策略且未配置 LLM 时不影响普通文件处理
+   */
+  private getIdentifier(): LLMIdentifier {
+    if (!this.identifier) {
+      this.identifier = new LLMIdentifier();
+    }
+    return this.identifier;
   }
 
   /**
@@ -46,8 +62,8 @@ export class SpecialFolderProcessor {
       const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
       const videoExtensions = this.config.videoExtensions.map(ext => ext.toLowerCase());
       
-      // 检查是否全都是媒体文件
-      const files = entries.filter(entry => entry.isFile());
+      // 检查是否全都是媒体文件（提示文件不计入）
+      const files = entries.filter(entry => entry.isFile() && entry.name !== HINT_FILE_NAME);
       const videoFiles = files.filter(file => {
         const ext = path.extname(file.name).toLowerCase();
         return videoExtensions.includes(ext);
@@ -192,18 +208,29 @@ export class SpecialFolderProcessor {
    * 处理单个特殊文件夹并返回结果（供 TaskProcessor 调用）
    * 职责：LLM识别 → TMDB刮削 → 创建硬链接
    * 不负责：保存数据库（由 TaskProcessor 统一处理）
+   * @param hint 提示文件，固定 TMDB ID 时跳过 TMDB 搜索，结构简单时同时跳过 LLM 识别
+   * @param dryRun 预演模式，只识别和计算链接路径，不创建硬链接也不修改数据库（结果的 linkMode 为 null）
    * @returns 返回处理结果数组，每个结果包含文件夹信息、链接路径和媒体信息
    * @throws {Error} - LLM 识别失败时抛出错误，让队列重试
    */
-  public async processFolder(folderPath: string): Promise<SpecialFolderProcessResult[]> {
+  public async processFolder(
+    folderPath: string,
+    hint: AppliedFolderHint | null = null,
+    dryRun = false
+  ): Promise<SpecialFolderProcessResult[]> {
     logger.info(`[特殊文件夹] 开始处理: ${folderPath}`);
 
+    // 提示文件固定了 TMDB ID 时，优先按规则识别单卷结构
+    const pinnedIdentifications = hint?.tmdbId ? await this.detectFolderStructure(folderPath, hint) : null;
+
     // LLM 一次性识别整个文件夹结构
-    logger.debug(`[特殊文件夹] 步骤1: LLM 识别文件夹结构...`);
-    
-    const identifications = await this.identifier.identifyFolder(
+    if (!pinnedIdentifications) {
+      logger.debug(`[特殊文件夹] 步骤1: LLM 识别文件夹结构...`);
+    }
+
+    const identifications = pinnedIdentifications ?? await this.getIdentifier().identifyFolder(
       folderPath,
-      this.config.scanConfig.scanMaxDepth || 2
+      getConfigForPath(folderPath, this.config).scanConfig.scanMaxDepth || 2
     );
     
     if (!identifications || identifications.length === 0) {
@@ -250,7 +277,7 @@ export class SpecialFolderProcessor {
         logger.info(`[特殊文件夹] 处理${contentDesc}${volumeInfo}: ${identification.subFolderName || path.basename(actualFolderPath)}`);
         
         // 处理单个文件夹
-        const result = await this.processSingleFolder(actualFolderPath, identification);
+        const result = await this.processSingleFolder(actualFolderPath, identification, hint, dryRun);
         
         if (result) {
           results.push(result);
@@ -269,11 +296,15 @@ export class SpecialFolderProcessor {
    * 处理单个特殊文件夹（只负责识别和创建硬链接，不保存数据库）
    * @param folderPath 文件夹路径
    * @param identification LLM 识别结果（必须传入，避免重复识别）
+   * @param hint 提示文件，固定 TMDB ID 时直接获取详情
+   * @param dryRun 预演模式，只计算链接路径
    * @returns 返回处理结果，包含媒体信息和文件夹详情，供调用方保存到数据库
    */
   private async processSingleFolder(
     folderPath: string, 
-    identification: LLMFolderIdentification
+    identification: LLMFolderIdentification,
+    hint: AppliedFolderHint | null,
+    dryRun: boolean
   ): Promise<SpecialFolderProcessResult | null> {
     const pathHash = generatePathHash(folderPath);
 
@@ -288,13 +319,24 @@ export class SpecialFolderProcessor {
 
     // TMDB 刮削获取标准化名称和完整媒体信息
     logger.debug(`[队列] 步骤3: TMDB 刮削...`);
-    const mediaInfo = await this.identifier.scrapeMediaInfoForFolder(
-      folderInfo.name,
-      folderInfo.year,
-      identification.mediaType // 传递 LLM 判断的媒体类型
-    );
+    // 媒体库指定了默认媒体类型时优先使用（合集仍按 LLM 判断处理）
+    const libraryMediaType = findLibraryRoot(folderPath, this.config)?.mediaType;
+    const mediaType = identification.mediaType !== 'collection' && libraryMediaType
+      ? libraryMediaType
+      : identification.mediaType;
+    const mediaInfo = hint?.tmdbId && hint.type
+      ? await this.fetchPinnedMediaInfo(hint.tmdbId, hint.type, folderInfo.name)
+      : await this.getIdentifier().scrapeMediaInfoForFolder(
+          folderInfo.name,
+          folderInfo.year,
+          mediaType
+        );
     
     if (!mediaInfo) {
+      if (dryRun) {
+        logger.warn(`[预演] 无法获取媒体信息: ${folderPath}`);
+        return null;
+      }
       logger.warn(`[队列] 无法获取媒体信息，标记为忽略: ${folderPath}`);
       await this.prisma.library.updateMany({
         where: { pathHash },
@@ -310,70 +352,205 @@ export class SpecialFolderProcessor {
     folderInfo.standardizedName = mediaInfo.standardizedName;
     folderInfo.tmdbId = mediaInfo.tmdbId;
     
+    // 按路由规则选择目标根目录，读取最新配置使界面修改的规则立即生效
+    const route = await new MediaRouter(getConfig()).resolve(
+      { type: mediaInfo.mediaType, tmdbId: mediaInfo.tmdbId },
+      folderPath
+    );
+    if (route.rule) {
+      logger.info(`[队列] 命中路由规则 "${route.rule.name}": ${folderPath} -> ${route.targetPath}`);
+    }
+
+    if (dryRun) {
+      const linkPath = this.buildFolderLinkPath(folderInfo, mediaInfo, route.targetPath);
+      return linkPath
+        ? { folderInfo, linkPath, mediaInfo, routingRule: route.rule?.name ?? null, linkMode: null }
+        : null;
+    }
+
     // 创建硬链接
     logger.debug(`[队列] 步骤4: 创建硬链接...`);
-    const linkPath = await this.createFolderHardlink(folderInfo);
+    const link = await this.createFolderHardlink(folderInfo, mediaInfo, route.targetPath);
 
-    if (!linkPath) {
+    if (!link) {
       logger.error(`[队列] 创建硬链接失败: ${folderPath}`);
       return null;
     }
 
     return {
       folderInfo,
-      linkPath,
-      mediaInfo
+      linkPath: link.linkPath,
+      mediaInfo,
+      routingRule: route.rule?.name ?? null,
+      linkMode: link.linkMode
     };
   }
 
   /**
-   * 创建文件夹硬链接
+   * 按规则识别单卷特殊文件夹结构（BDMV/VIDEO_TS 目录或单个 ISO 文件）
+   * @returns 无法按规则识别时返回 null，交给 LLM 处理
+   */
+  private async detectFolderStructure(
+    folderPath: string,
+    hint: AppliedFolderHint
+  ): Promise<LLMFolderIdentification[] | null> {
+    try {
+      const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+      const dirNames = entries.filter(entry => entry.isDirectory()).map(entry => entry.name.toUpperCase());
+      const isoFiles = entries.filter(entry => entry.isFile() && path.extname(entry.name).toLowerCase() === '.iso');
+
+      let type: LLMFolderIdentification['type'];
+      if (dirNames.includes('BDMV')) {
+        type = 'BDMV';
+      } else if (dirNames.includes('VIDEO_TS')) {
+        type = 'VIDEO_TS';
+      } else if (isoFiles.length === 1) {
+        type = 'ISO';
+      } else {
+        return null;
+      }
+
+      const folderName = path.basename(folderPath);
+      logger.info(`[特殊文件夹] 根据提示文件按规则识别结构: ${folderName} (${type})`);
+      return [{
+        type,
+        title: folderName,
+        originalName: folderName,
+        subFolderName: null,
+        mediaType: hint.type ?? 'unknown',
+        isMultiDisc: false,
+        discNumber: null,
+        contentType: 'main',
+        year: null,
+      }];
+    } catch (error) {
+      logger.warn(`[特殊文件夹] 按规则识别结构失败 ${folderPath}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * 获取提示文件固定的 TMDB 条目详情
+   */
+  private async fetchPinnedMediaInfo(
+    tmdbId: number,
+    mediaType: 'tv' | 'movie',
+    folderName: string
+  ): Promise<MediaInfo | null> {
+    try {
+      const moviedb = new CachedMovieDb(this.config.tmdbApi!);
+      let detail;
+      let originalTitle: string | null;
+      if (mediaType === 'tv') {
+        detail = await moviedb.tvInfo({ id: tmdbId, language: this.config.language });
+        originalTitle = detail.original_name || null;
+      } else {
+        detail = await moviedb.movieInfo({ id: tmdbId, language: this.config.language });
+        originalTitle = detail.original_title || null;
+      }
+
+      const title = getMediaName(detail) || folderName;
+      const releaseDate = getMediaReleaseDate(detail, mediaType);
+      const standardizedName = releaseDate ? `${title} (${releaseDate.getFullYear()})` : title;
+
+      logger.info(`[队列] 根据提示文件获取 TMDB 详情: ${standardizedName} (${mediaType} ${tmdbId})`);
+      return {
+        tmdbId,
+        standardizedName,
+        mediaType,
+        title,
+        originalTitle,
+        releaseDate: releaseDate ? releaseDate.toISOString() : null,
+        description: detail.overview || null,
+        posterPath: detail.poster_path || null,
+      };
+    } catch (error) {
+      logger.error(`[队列] 获取 TMDB 详情失败: ${mediaType} ${tmdbId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 按命名模板计算文件夹的目标路径
    * 支持多卷结构和特殊内容（SP、特典等）的正确目录结构
-   * @returns 目标文件夹路径
+   * @param folder 文件夹信息
+   * @param mediaInfo TMDB 媒体信息，用于生成作品目录名
+   * @param targetBasePath 路由规则选择的目标根目录
+   * @returns 缺少标准化名称时返回 null
    */
-  private async createFolderHardlink(folder: SpecialFolder): Promise<string | null> {
+  private buildFolderLinkPath(
+    folder: SpecialFolder,
+    mediaInfo: MediaInfo,
+    targetBasePath: string
+  ): string | null {
     if (!folder.standardizedName) {
       logger.warn(`缺少标准化名称，无法创建硬链接: ${folder.name}`);
       return null;
     }
 
-    const targetBasePath = this.config.targetFilePath;
+    // 使用文件夹所属媒体库的命名模板
+    const libraryConfig = getConfigForPath(folder.path, this.config);
     
-    // 去掉标准化名称中可能存在的卷号后缀
-    let baseStandardizedName = folder.standardizedName.replace(/\s*Vol\.\d+\s*$/, '');
+    // 按命名模板生成作品目录，去掉标题中可能存在的卷号后缀
+    const baseStandardizedName = buildSpecialFolderRelativePath(
+      { ...mediaInfo, title: mediaInfo.title.replace(/\s*Vol\.\d+\s*$/, '') },
+      libraryConfig
+    );
     
     // 根据内容类型和卷信息决定目标路径
-    let targetFolderPath: string;
-    
     if (folder.contentType === 'main' && folder.isMultiDisc && folder.discNumber) {
-      // 主要内容 + 多卷：创建 "作品名/Vol.X/" 结构
-      const volumeName = `Vol.${folder.discNumber}`;
-      targetFolderPath = path.join(targetBasePath, baseStandardizedName, volumeName);
-      logger.info(`[多卷] 创建卷子目录: ${baseStandardizedName}/${volumeName}`);
+      // 主要内容 + 多卷："作品名/Vol.X/" 结构
+      return path.join(targetBasePath, baseStandardizedName, `Vol.${folder.discNumber}`);
     } else if (folder.contentType !== 'main') {
-      // 特殊内容（SP、特典等）：创建 "作品名/SP/" 或 "作品名/Bonus/" 等子目录
-      const contentTypeFolderName = this.getContentTypeFolderName(folder.contentType);
-      targetFolderPath = path.join(targetBasePath, baseStandardizedName, contentTypeFolderName);
-      logger.info(`[特殊内容] 创建子目录: ${baseStandardizedName}/${contentTypeFolderName}`);
-    } else {
-      // 单卷主要内容：直接创建 "作品名/" 结构
-      targetFolderPath = path.join(targetBasePath, baseStandardizedName);
-      logger.info(`[单卷] 创建作品目录: ${baseStandardizedName}`);
+      // 特殊内容（SP、特典等）："作品名/SP/" 或 "作品名/Bonus/" 等子目录
+      return path.join(targetBasePath, baseStandardizedName, this.getContentTypeFolderName(folder.contentType));
     }
+    // 单卷主要内容：直接使用 "作品名/" 结构
+    return path.join(targetBasePath, baseStandardizedName);
+  }
 
+  /**
+   * 创建文件夹硬链接
+   * @param folder 文件夹信息
+   * @param mediaInfo TMDB 媒体信息，用于生成作品目录名
+   * @param targetBasePath 路由规则选择的目标根目录
+   * @returns 目标文件夹路径和实际使用的链接方式
+   */
+  private async createFolderHardlink(
+    folder: SpecialFolder,
+    mediaInfo: MediaInfo,
+    targetBasePath: string
+  ): Promise<{ linkPath: string; linkMode: LinkMode | null } | null> {
+    const targetFolderPath = this.buildFolderLinkPath(folder, mediaInfo, targetBasePath);
+    if (!targetFolderPath) {
+      return null;
+    }
+    logger.info(`[特殊文件夹] 创建作品目录: ${path.relative(targetBasePath, targetFolderPath)}`);
+
+    const linkMode = await this.linkFolder(folder.path, targetFolderPath);
+    return { linkPath: targetFolderPath, linkMode };
+  }
+
+  /**
+   * 创建目标文件夹并递归创建硬链接，链接方式按目标目录的设置
+   * 执行预演计划时直接使用计划中的路径
+   * @param sourcePath 源文件夹路径
+   * @param linkPath 目标文件夹路径
+   * @returns 实际使用的链接方式
+   */
+  public async linkFolder(sourcePath: string, linkPath: string): Promise<LinkMode | null> {
     try {
       // 创建目标文件夹（包括多级目录）
-      await fs.promises.mkdir(targetFolderPath, { recursive: true });
-      logger.debug(`目标文件夹已创建: ${targetFolderPath}`);
+      await fs.promises.mkdir(linkPath, { recursive: true });
+      logger.debug(`目标文件夹已创建: ${linkPath}`);
 
-      // 使用统一的硬链接工具递归创建硬链接
-      await createHardlinkRecursively(folder.path, targetFolderPath);
+      const linkMode = await createHardlinkRecursively(sourcePath, linkPath, getLinkModes(linkPath));
       
-      logger.info(`✅ 硬链接创建完成: ${folder.path} -> ${targetFolderPath}`);
+      logger.info(`✅ 硬链接创建完成: ${sourcePath} -> ${linkPath}`);
       
-      return targetFolderPath;
+      return linkMode;
     } catch (error) {
-      logger.error(`❌ 创建硬链接失败: ${folder.path}`, error);
+      logger.error(`❌ 创建硬链接失败: ${sourcePath}`, error);
       throw error;
     }
   }
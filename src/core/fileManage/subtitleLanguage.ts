@@ -0,0 +1,208 @@
+/**
+ * @fileoverview 字幕语言识别
+ * @description 从字幕文件名后缀或字幕内容识别语言，输出媒体服务器可识别的规范化语言标记
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * 常见字幕语言标记与规范化标记的对应关系
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  // 简体中文
+  chs: 'zh', sc: 'zh', gb: 'zh', gbk: 'zh', zh: 'zh', zho: 'zh', chi: 'zh', chn: 'zh', cn: 'zh',
+  'zh-cn': 'zh', 'zh-sg': 'zh', 'zh-hans': 'zh', hans: 'zh',
+  '简': 'zh', '简体': 'zh', '简中': 'zh', '简体中文': 'zh', '中文': 'zh',
+  // 繁体中文
+  cht: 'zh-Hant', tc: 'zh-Hant', big5: 'zh-Hant', 'zh-tw': 'zh-Hant', 'zh-hk': 'zh-Hant',
+  'zh-hant': 'zh-Hant', hant: 'zh-Hant',
+  '繁': 'zh-Hant', '繁体': 'zh-Hant', '繁體': 'zh-Hant', '繁中': 'zh-Hant', '繁體中文': 'zh-Hant',
+  // 日中双语字幕按中文处理
+  jpsc: 'zh', jpchs: 'zh', scjp: 'zh', chsjp: 'zh', '简日': 'zh', '简日双语': 'zh',
+  jptc: 'zh-Hant', jpcht: 'zh-Hant', tcjp: 'zh-Hant', chtjp: 'zh-Hant', '繁日': 'zh-Hant', '繁日双语': 'zh-Hant',
+  // 其他语言
+  eng: 'en', english: 'en',
+  jp: 'ja', jpn: 'ja', japanese: 'ja', '日': 'ja', '日文': 'ja', '日语': 'ja',
+  kor: 'ko', korean: 'ko',
+  fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', spa: 'es', rus: 'ru', ita: 'it', por: 'pt', tha: 'th', vie: 'vi',
+};
+
+/**
+ * 简繁体写法不同的常用字，同一位置的字互为对应
+ */
+const SIMPLIFIED_CHARS = '这们个来说时为会过还没么对发经开问题现样应动见关头气实点让进话学电长吗谁给听觉认识请谢爱边亲钱东车门马鸟龙';
+const TRADITIONAL_CHARS = '這們個來說時為會過還沒麼對發經開問題現樣應動見關頭氣實點讓進話學電長嗎誰給聽覺認識請謝愛邊親錢東車門馬鳥龍';
+
+/**
+ * 简繁体共用的常用字，用于比较不同编码的解码结果
+ */
+const COMMON_CJK_CHARS = '的了是我你不在有人他一也就都好要去那到吧呢啊什';
+
+/**
+ * 常见英文单词，用于区分英文与其他拉丁字母语言
+ */
+const ENGLISH_WORDS = new Set(['the', 'you', 'and', 'to', 'is', 'it', 'that', 'what', 'this', 'of', 'are', 'have', 'don\'t', 'i\'m']);
+
+/**
+ * 读取字幕内容时的最大字节数
+ */
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * 无 BOM 且不是 UTF-8 时尝试的编码
+ */
+const LEGACY_ENCODINGS = ['gb18030', 'big5', 'shift_jis'];
+
+/**
+ * 规范化字幕语言标记
+ * 双语标记（如 chs&jpn）取第一个可识别的语言
+ * @returns 无法识别时返回 null
+ */
+export function normalizeSubtitleLanguage(tag: string): string | null {
+  for (const part of tag.trim().split(/[&_+]/)) {
+    const lower = part.toLowerCase();
+    if (LANGUAGE_ALIASES[lower]) {
+      return LANGUAGE_ALIASES[lower];
+    }
+    // 其他 ISO 639-1 代码及带地区的代码（如 pt-BR）保持原样
+    const isoMatch = lower.match(/^([a-z]{2})(?:-([a-z]{2}))?$/);
+    if (isoMatch) {
+      return isoMatch[2] ? `${isoMatch[1]}-${isoMatch[2].toUpperCase()}` : isoMatch[1];
+    }
+  }
+  return null;
+}
+
+function countChars(text: string, chars: string): number {
+  let count = 0;
+  for (const char of text) {
+    if (chars.includes(char)) count++;
+  }
+  return count;
+}
+
+function countKana(text: string): number {
+  return (text.match(/[ぁ-ゟァ-ヺ]/g) ?? []).length;
+}
+
+/**
+ * 按 BOM 或内容判断编码并解码字幕
+ * 没有 BOM 且不是合法 UTF-8 时，依次尝试 GB18030、Big5 和 Shift_JIS，取常用字最多的结果
+ * @returns 解码后的文本和使用的编码
+ */
+export function decodeSubtitleBuffer(buffer: Buffer): { text: string; encoding: string } {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(buffer.subarray(3)), encoding: 'utf-8' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  try {
+    // 截断的采样末尾可能是不完整的多字节字符
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: true }), encoding: 'utf-8' };
+  } catch {
+    // 不是 UTF-8，继续尝试其他编码
+  }
+
+  let best: { text: string; encoding: string; score: number } | null = null;
+  for (const encoding of LEGACY_ENCODINGS) {
+    const text = new TextDecoder(encoding).decode(buffer);
+    const score = countChars(text, COMMON_CJK_CHARS + SIMPLIFIED_CHARS + TRADITIONAL_CHARS)
+      + countKana(text)
+      - countChars(text, '�') * 10;
+    if (!best || score > best.score) {
+      best = { text, encoding, score };
+    }
+  }
+  return { text: best!.text, encoding: best!.encoding };
+}
+
+/**
+ * 提取字幕中的对白文本
+ * ASS/SSA 取 Dialogue 行的文本字段并去掉样式标签，SRT/VTT 去掉序号和时间轴
+ */
+export function extractSubtitleText(content: string, extension: string): string {
+  const lines = content.split(/\r?\n/);
+  const ext = extension.toLowerCase();
+
+  if (ext === '.ass' || ext === '.ssa') {
+    return lines
+      .filter(line => line.startsWith('Dialogue:'))
+      .map(line => line.split(',').slice(9).join(','))
+      .map(text => text.replace(/\{[^}]*\}/g, '').replace(/\\[Nnh]/g, ' '))
+      .join('\n');
+  }
+
+  return lines
+    .filter(line => line.trim() && !/^\d+$/.test(line.trim()) && !line.includes('-->') && line.trim() !== 'WEBVTT')
+    .map(line => line.replace(/<[^>]+>/g, ''))
+    .join('\n');
+}
+
+/**
+ * 根据对白文本判断语言
+ * 含假名的判断为日语，中文按简繁体特有字的数量区分，只有拉丁字母时按常见单词判断英文
+ * @returns 无法判断时返回 null
+ */
+export function detectLanguageFromText(text: string): string | null {
+  const cjkCount = (text.match(/[一-鿿]/g) ?? []).length;
+  const kanaCount = countKana(text);
+
+  // 中日双语字幕以中文为主，只有假名占比较高时才判断为日语
+  if (kanaCount >= 20 && kanaCount >= cjkCount * 0.2) {
+    const simplified = countChars(text, SIMPLIFIED_CHARS);
+    const traditional = countChars(text, TRADITIONAL_CHARS);
+    if (kanaCount < cjkCount && simplified + traditional >= 20) {
+      return simplified >= traditional ? 'zh' : 'zh-Hant';
+    }
+    return 'ja';
+  }
+
+  if (cjkCount >= 20) {
+    const simplified = countChars(text, SIMPLIFIED_CHARS);
+    const traditional = countChars(text, TRADITIONAL_CHARS);
+    if (simplified === 0 && traditional === 0) {
+      return 'zh';
+    }
+    return simplified >= traditional ? 'zh' : 'zh-Hant';
+  }
+
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+  if (words.length >= 20) {
+    const englishCount = words.filter(word => ENGLISH_WORDS.has(word)).length;
+    if (englishCount / words.length >= 0.05) {
+      return 'en';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 读取字幕文件开头的内容判断语言
+ * Big5 编码的字幕直接判断为繁体中文
+ * @param filePath 字幕文件路径
+ * @returns 无法判断时返回 null
+ */
+export async function detectSubtitleLanguage(filePath: string): Promise<string | null> {
+  const handle = await fs.promises.open(filePath, 'r');
+  let buffer: Buffer;
+  try {
+    const { bytesRead, buffer: data } = await handle.read(Buffer.alloc(SAMPLE_SIZE), 0, SAMPLE_SIZE, 0);
+    buffer = data.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const { text, encoding } = decodeSubtitleBuffer(buffer);
+  const language = detectLanguageFromText(extractSubtitleText(text, path.extname(filePath)));
+  if (encoding === 'big5' && language === 'zh') {
+    return 'zh-Hant';
+  }
+  return language;
+}
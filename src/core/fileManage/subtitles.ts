@@ -0,0 +1,229 @@
+/**
+ * @fileoverview 字幕文件链接
+ * @description 查找与视频文件同名的字幕，按视频硬链接的文件名创建字幕硬链接并使用规范化的语言标记
+ */
+
+import fs from 'fs';
+import path from 'path';
+import client from '@/client';
+import { Config } from '@/config/config';
+import { logger } from '@/utils/logger';
+import { createHardlink } from '@/utils/hardlink';
+import { getLinkModes } from '@/config/library';
+import { SubtitleDetails, SubtitleLanguageSource } from '@/types/media.types';
+import { detectSubtitleLanguage, normalizeSubtitleLanguage } from './subtitleLanguage';
+import { journalDeletion } from './operationJournal';
+
+const prisma = client;
+
+/**
+ * 媒体服务器识别的字幕标记，保留在文件名中
+ */
+const SUBTITLE_FLAGS = new Set(['default', 'forced', 'sdh', 'cc', 'hi']);
+
+/**
+ * 与视频文件同名的字幕文件
+ */
+export interface SubtitleCompanion {
+  path: string;
+  language: string | null;
+  languageSource: SubtitleLanguageSource | null;
+  flags: string[];
+}
+
+/**
+ * 解析视频文件名之后的字幕后缀，如 ".chs"、".zh-Hans.forced"
+ * 无法识别的部分（字幕组名等）会被忽略
+ */
+export function parseSubtitleSuffix(suffix: string): { language: string | null; flags: string[] } {
+  let language: string | null = null;
+  const flags: string[] = [];
+  for (const token of suffix.split('.').filter(Boolean)) {
+    const lower = token.toLowerCase();
+    if (SUBTITLE_FLAGS.has(lower)) {
+      if (!flags.includes(lower)) flags.push(lower);
+    } else if (!language) {
+      language = normalizeSubtitleLanguage(token);
+    }
+  }
+  return { language, flags };
+}
+
+/**
+ * 判断字幕文件名是否属于视频文件（同名或以 "视频文件名." 开头）
+ */
+function belongsToVideo(subtitleName: string, videoName: string): boolean {
+  return subtitleName === videoName || subtitleName.startsWith(`${videoName}.`);
+}
+
+/**
+ * 识别字幕的语言和标记
+ * 优先使用文件名后缀中的语言，无法识别时读取字幕内容判断
+ * @param subtitlePath 字幕文件路径
+ * @param videoPath 所属的视频文件路径
+ */
+export async function identifySubtitle(subtitlePath: string, videoPath: string): Promise<SubtitleCompanion> {
+  const suffix = path.parse(subtitlePath).name.slice(path.parse(videoPath).name.length);
+  const { language, flags } = parseSubtitleSuffix(suffix);
+  if (language) {
+    return { path: subtitlePath, language, languageSource: 'suffix', flags };
+  }
+
+  try {
+    const detected = await detectSubtitleLanguage(subtitlePath);
+    if (detected) {
+      return { path: subtitlePath, language: detected, languageSource: 'content', flags };
+    }
+  } catch (error) {
+    logger.warn(`读取字幕内容失败 ${subtitlePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { path: subtitlePath, language: null, languageSource: null, flags };
+}
+
+/**
+ * 查找视频文件所在目录中与其同名的字幕文件
+ * 字幕文件名为视频文件名（不含扩展名），可带语言后缀，如 "Title.mkv" 对应 "Title.ass"、"Title.chs.ass"。
+ * 同目录中有更长的同前缀视频文件（如 "Title.Extended.mkv"）时，其字幕不会被归入较短的视频
+ * @param videoPath 视频文件路径
+ * @param config 视频和字幕扩展名配置
+ */
+export async function findSubtitleCompanions(
+  videoPath: string,
+  config: Pick<Config, 'videoExtensions' | 'subtitleExtensions'>
+): Promise<SubtitleCompanion[]> {
+  const videoName = path.parse(videoPath).name;
+  const subtitleExtensions = config.subtitleExtensions.map(ext => ext.toLowerCase());
+  const videoExtensions = config.videoExtensions.map(ext => ext.toLowerCase());
+  const entries = (await fs.promises.readdir(path.dirname(videoPath), { withFileTypes: true }))
+    .filter(entry => entry.isFile());
+  const otherVideoNames = entries
+    .filter(entry => videoExtensions.includes(path.extname(entry.name).toLowerCase()))
+    .map(entry => path.parse(entry.name).name)
+    .filter(name => name.length > videoName.length && belongsToVideo(name, videoName));
+
+  const subtitlePaths = entries
+    .filter(entry => subtitleExtensions.includes(path.extname(entry.name).toLowerCase()))
+    .map(entry => ({ entry, name: path.parse(entry.name).name }))
+    .filter(({ name }) => belongsToVideo(name, videoName)
+      && !otherVideoNames.some(otherName => belongsToVideo(name, otherName)))
+    .sort((a, b) => a.entry.name.localeCompare(b.entry.name))
+    .map(({ entry }) => path.join(path.dirname(videoPath), entry.name));
+
+  const companions: SubtitleCompanion[] = [];
+  for (const subtitlePath of subtitlePaths) {
+    companions.push(await identifySubtitle(subtitlePath, videoPath));
+  }
+  return companions;
+}
+
+/**
+ * 根据视频硬链接路径构建字幕硬链接路径，如 "Title S01E02.zh.ass"
+ */
+export function buildSubtitleLinkPath(videoLinkPath: string, companion: SubtitleCompanion): string {
+  const base = videoLinkPath.slice(0, videoLinkPath.length - path.extname(videoLinkPath).length);
+  const suffix = [companion.language, ...companion.flags].filter(Boolean).map(part => `.${part}`).join('');
+  return `${base}${suffix}${path.extname(companion.path).toLowerCase()}`;
+}
+
+/**
+ * 查找视频文件的同名字幕，并沿用之前手动指定的语言
+ * 查找失败时只记录警告并返回空数组
+ * @param videoPath 视频源文件路径
+ * @param config 视频和字幕扩展名配置
+ */
+export async function resolveSubtitleCompanions(
+  videoPath: string,
+  config: Pick<Config, 'videoExtensions' | 'subtitleExtensions'>
+): Promise<SubtitleCompanion[]> {
+  let companions: SubtitleCompanion[];
+  try {
+    companions = await findSubtitleCompanions(videoPath, config);
+  } catch (error) {
+    logger.warn(`查找字幕文件失败 ${videoPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+
+  // 重新链接时沿用手动指定的语言
+  const overrides = await prisma.subtitle.findMany({
+    where: { filePath: { in: companions.map(companion => companion.path) }, languageSource: 'manual' },
+  });
+  for (const override of overrides) {
+    const companion = companions.find(item => item.path === override.filePath);
+    if (companion) {
+      companion.language = override.language;
+      companion.languageSource = 'manual';
+    }
+  }
+  return companions;
+}
+
+/**
+ * 为视频文件的同名字幕创建硬链接
+ * 单个字幕失败时只记录警告，不影响视频文件的处理
+ * @param videoPath 视频源文件路径
+ * @param videoLinkPath 视频硬链接路径
+ * @param config 视频和字幕扩展名配置
+ * @param companions 要链接的字幕，为空时重新查找（执行预演计划时使用计划中的字幕）
+ * @returns 已创建硬链接的字幕
+ */
+export async function linkSubtitleCompanions(
+  videoPath: string,
+  videoLinkPath: string,
+  config: Pick<Config, 'videoExtensions' | 'subtitleExtensions'>,
+  companions?: SubtitleCompanion[]
+): Promise<SubtitleDetails[]> {
+  companions ??= await resolveSubtitleCompanions(videoPath, config);
+
+  const linked: SubtitleDetails[] = [];
+  for (const companion of companions) {
+    const linkPath = buildSubtitleLinkPath(videoLinkPath, companion);
+    // 多个字幕规范化后同名时（如 .chs.ass 和 .sc.ass）只保留第一个
+    if (linked.some(subtitle => subtitle.linkPath === linkPath)) {
+      logger.warn(`字幕规范化后文件名重复，跳过: ${companion.path} -> ${linkPath}`);
+      continue;
+    }
+
+    try {
+      await createHardlink(companion.path, linkPath, getLinkModes(linkPath));
+      linked.push({
+        sourcePath: companion.path,
+        linkPath,
+        language: companion.language,
+        languageSource: companion.languageSource,
+      });
+    } catch (error) {
+      logger.warn(`创建字幕硬链接失败 ${companion.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (linked.length > 0) {
+    logger.info(`已链接 ${linked.length} 个字幕文件: ${videoPath}`);
+  }
+  return linked;
+}
+
+/**
+ * 删除视频文件记录关联的字幕硬链接和字幕记录
+ * @param fileId 视频文件记录ID
+ * @param keepRecords 只删除硬链接，保留字幕记录（重新链接时用于沿用手动指定的语言）
+ * @returns 删除的字幕数量
+ */
+export async function removeSubtitleLinks(fileId: number, keepRecords = false): Promise<number> {
+  const subtitles = await prisma.subtitle.findMany({ where: { fileId } });
+
+  for (const subtitle of subtitles) {
+    try {
+      await journalDeletion(subtitle.linkPath, () => fs.promises.unlink(subtitle.linkPath), subtitle.filePath);
+      logger.info(`删除字幕硬链接: ${subtitle.linkPath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn(`删除字幕硬链接失败: ${subtitle.linkPath} - ${error.message}`);
+      }
+    }
+  }
+
+  if (!keepRecords) {
+    await prisma.subtitle.deleteMany({ where: { fileId } });
+  }
+  return subtitles.length;
+}
@@ -49,6 +49,11 @@ export type Media = Prisma.MediaModel
  * 媒体文件信息表，存储文件系统相关信息
  */
 export type File = Prisma.FileModel
+/**
+ * Model Subtitle
+ * 字幕文件表，记录与视频文件同名的字幕及其硬链接
+ */
+export type Subtitle = Prisma.SubtitleModel
 /**
  * Model TvInfo
  * 电视剧详细信息表
@@ -69,6 +74,11 @@ export type CollectionInfo = Prisma.CollectionInfoModel
  * 电视剧单集信息表
  */
 export type EpisodeInfo = Prisma.EpisodeInfoModel
+/**
+ * Model QualityUpgrade
+ * 质量升级历史表，每次更高质量的版本替换已有链接时按集（电影为整部）记录一条
+ */
+export type QualityUpgrade = Prisma.QualityUpgradeModel
 /**
  * Model Queue
  * 媒体刮削任务队列
@@ -89,3 +99,28 @@ export type Library = Prisma.LibraryModel
  * 扫描日志表，记录扫描历史和错误信息
  */
 export type ScanLog = Prisma.ScanLogModel
+/**
+ * Model LlmCache
+ * LLM 文件名解析结果缓存
+ */
+export type LlmCache = Prisma.LlmCacheModel
+/**
+ * Model TmdbCache
+ * TMDB 接口响应缓存
+ */
+export type TmdbCache = Prisma.TmdbCacheModel
+/**
+ * Model OperationGroup
+ * 操作日志分组，每个队列任务、接口请求或预演计划条目一组，撤销时整组回滚
+ */
+export type OperationGroup = Prisma.OperationGroupModel
+/**
+ * Model Operation
+ * 操作日志，记录链接、NFO、目录的创建和删除以及文件记录的变更
+ */
+export type Operation = Prisma.OperationModel
+/**
+ * Model ExecutionPlan
+ * 预演计划，只保留最近一次，重启服务后仍可查看和执行
+ */
+export type ExecutionPlan = Prisma.ExecutionPlanModel
@@ -23,7 +23,8 @@ export const TaskStatus = {
   RUNNING: 'RUNNING',
   COMPLETED: 'COMPLETED',
   FAILED: 'FAILED',
-  CANCELED: 'CANCELED'
+  CANCELED: 'CANCELED',
+  NEEDS_REVIEW: 'NEEDS_REVIEW'
 } as const
 
 export type TaskStatus = (typeof TaskStatus)[keyof typeof TaskStatus]
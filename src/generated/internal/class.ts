@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.1.0",
   "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
   "activeProvider": "sqlite",
-  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\n/// 媒体类型枚举：电视剧、电影或合集\nenum Type {\n  tv /// 电视剧\n  movie /// 电影\n  collection /// 合集\n}\n\n/// 媒体信息主表，存储所有类型媒体的共有信息\nmodel Media {\n  id            Int       @id @default(autoincrement()) /// 唯一标识符\n  files         File[] /// 关联的媒体文件列表\n  type          Type /// 媒体类型（电视剧/电影/合集）\n  tmdbId        Int       @map(\"tmdb_id\") /// TMDB网站的媒体ID\n  title         String /// 媒体标题\n  originalTitle String?   @map(\"original_title\") /// 原始标题（非本地化）\n  releaseDate   DateTime? @map(\"release_date\") /// 发布日期\n  description   String? /// 媒体描述\n  posterUrl     String?   @map(\"poster_url\") /// 海报图片URL\n\n  /// 关联的电视剧详细信息\n  tvInfos          TvInfo?         @relation(fields: [tvInfoId], references: [id])\n  tvInfoId         Int? /// 关联电视剧信息的ID\n  /// 关联的电影详细信息\n  movieInfo        MovieInfo?      @relation(fields: [movieInfoId], references: [id])\n  movieInfoId      Int? /// 关联电影信息的ID\n  /// 关联的合集详细信息\n  collectionInfo   CollectionInfo? @relation(fields: [collectionInfoId], references: [id])\n  collectionInfoId Int? /// 关联合集信息的ID\n\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n  updatedAt DateTime @updatedAt @map(\"updated_at\") /// 记录更新时间\n\n  @@index([title]) /// 标题索引，用于加速查询\n  @@index([tmdbId]) /// TMDB ID索引，用于加速查询\n}\n\n/// 媒体文件信息表，存储文件系统相关信息\nmodel File {\n  id        Int      @id @default(autoincrement()) /// 唯一标识符\n  deviceId  BigInt   @map(\"device_id\") /// 设备ID，与inode一起确保文件的唯一性\n  inode     BigInt /// 文件系统inode号\n  fileHash  String?  @map(\"file_hash\") /// 文件内容哈希值（文件夹为null，只有普通文件才有）\n  fileSize  BigInt   @map(\"file_size\") /// 文件大小（字节）\n  filePath  String   @unique @map(\"file_path\") /// 原始文件路径\n  linkPath  String   @unique @map(\"link_path\") /// 硬链接文件路径\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  // 文件/文件夹标识\n  isDirectory     Boolean @default(false) @map(\"is_directory\") /// 是否为文件夹\n  isSpecialFolder Boolean @default(false) @map(\"is_special_folder\") /// 是否为特殊文件夹（BDMV/DVD/ISO）\n  folderType      String? @map(\"folder_type\") /// 特殊文件夹类型（BDMV/VIDEO_TS/ISO）\n  isMultiDisc     Boolean @default(false) @map(\"is_multi_disc\") /// 是否为多碟片结构\n  discNumber      Int?    @map(\"disc_number\") /// 碟片编号（Vol.1, Disc 2 等）\n  isParentFolder  Boolean @default(false) @map(\"is_parent_folder\") /// 是否为父文件夹（包含多个子卷的容器）\n\n  // 父子文件夹关系\n  parentFolder   File?  @relation(\"ParentChildren\", fields: [parentFolderId], references: [id], onDelete: SetNull)\n  parentFolderId Int?   @map(\"parent_folder_id\") /// 父文件夹ID（用于子卷）\n  childFolders   File[] @relation(\"ParentChildren\") /// 子文件夹列表（用于父文件夹）\n\n  /// 关联的媒体信息\n  Media   Media? @relation(fields: [mediaId], references: [id])\n  mediaId Int? /// 关联媒体的ID\n\n  /// 关联的电视剧单集信息（一对一关系）\n  episodeInfo   EpisodeInfo? @relation(fields: [episodeInfoId], references: [id])\n  episodeInfoId Int?         @unique @map(\"episode_info_id\") /// 关联电视剧单集信息的ID\n\n  /// 关联的库文件信息（一对一关系）\n  libraryFile Library?\n\n  @@unique([deviceId, inode], name: \"device_inode_unique\") /// 设备ID和inode联合唯一约束\n  @@index([fileHash]) /// 文件哈希索引，用于加速查询\n  @@index([isDirectory]) /// 文件夹标识索引，用于快速筛选文件夹\n  @@index([isSpecialFolder]) /// 特殊文件夹索引，用于快速筛选特殊文件夹\n  @@index([folderType]) /// 特殊文件夹类型索引，用于按类型查询\n  @@index([isMultiDisc, discNumber]) /// 多碟片索引，用于关联同系列碟片\n  @@index([isParentFolder]) /// 父文件夹标识索引，用于快速筛选父文件夹\n  @@index([parentFolderId]) /// 父文件夹ID索引，用于快速查找子卷\n}\n\n/// 电视剧详细信息表\nmodel TvInfo {\n  id          Int     @id @default(autoincrement()) /// 唯一标识符\n  tmdbId      Int     @map(\"tmdb_id\") /// TMDB上的电视剧ID\n  description String? /// 电视剧详细描述\n\n  episodes EpisodeInfo[] /// 关联的集数信息\n\n  Media Media[] /// 关联的媒体基本信息\n}\n\n/// 电影详细信息表\nmodel MovieInfo {\n  id          Int     @id @default(autoincrement()) /// 唯一标识符\n  tmdbId      Int     @map(\"tmdb_id\") /// TMDB上的电影ID\n  description String? /// 电影详细描述\n\n  Media Media[] /// 关联的媒体基本信息\n}\n\n/// 合集详细信息表（如电影系列）\nmodel CollectionInfo {\n  id          Int     @id @default(autoincrement()) /// 唯一标识符\n  tmdbId      Int     @map(\"tmdb_id\") /// TMDB上的合集ID\n  description String? /// 合集详细描述\n\n  Media Media[] /// 关联的媒体基本信息\n}\n\n/// 电视剧单集信息表\nmodel EpisodeInfo {\n  id            Int       @id @default(autoincrement()) /// 唯一标识符\n  tmdbId        Int       @unique @map(\"tmdb_id\") /// TMDB上的集数ID\n  seasonNumber  Int       @map(\"season_number\") /// 季号\n  episodeNumber Int       @map(\"episode_number\") /// 集数编号\n  title         String? /// 单集标题\n  releaseDate   DateTime? @map(\"release_date\") /// 播出日期\n  description   String? /// 单集描述\n  posterUrl     String?   @map(\"poster_url\") /// 单集海报URL\n\n  /// 关联的电视剧信息\n  TvInfo   TvInfo? @relation(fields: [tvInfoId], references: [id])\n  tvInfoId Int? /// 关联电视剧的ID\n\n  /// 关联的文件信息（一对一关系）\n  file File?\n}\n\n/// 任务状态枚举\nenum TaskStatus {\n  PENDING /// 待处理\n  RUNNING /// 处理中\n  COMPLETED /// 已完成\n  FAILED /// 失败\n  CANCELED /// 已取消\n}\n\n/// 媒体刮削任务队列\nmodel Queue {\n  id          Int        @id @default(autoincrement()) /// 唯一标识符\n  filePath    String /// 文件路径\n  fileName    String /// 文件名\n  isDirectory Boolean    @default(false) @map(\"is_directory\") /// 是否为目录\n  status      TaskStatus @default(PENDING) /// 任务状态\n  priority    Int        @default(0) /// 任务优先级，数字越大优先级越高\n  retryCount  Int        @default(0) @map(\"retry_count\") /// 重试次数\n  maxRetries  Int        @default(3) @map(\"max_retries\") /// 最大重试次数\n  lastError   String?    @map(\"last_error\") /// 最后一次错误信息\n  result      String? /// 任务结果（JSON格式）\n\n  createdAt   DateTime  @default(now()) @map(\"created_at\") /// 创建时间\n  updatedAt   DateTime  @updatedAt @map(\"updated_at\") /// 更新时间\n  startedAt   DateTime? @map(\"started_at\") /// 开始处理时间\n  completedAt DateTime? @map(\"completed_at\") /// 完成时间\n  nextRetryAt DateTime? @map(\"next_retry_at\") /// 下次重试时间\n\n  @@index([status, priority, createdAt]) /// 队列排序索引\n  @@index([status, nextRetryAt]) /// 重试任务索引\n}\n\n/// 用户表，存储单用户信息\nmodel User {\n  id        Int      @id @default(autoincrement()) /// 用户ID\n  username  String   @unique /// 用户名\n  password  String /// 密码哈希\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 创建时间\n  updatedAt DateTime @updatedAt @map(\"updated_at\") /// 更新时间\n}\n\n/// 库文件状态枚举\nenum LibraryStatus {\n  PENDING /// 待处理\n  PROCESSED /// 已处理\n  ERROR /// 处理出错\n  IGNORED /// 忽略\n}\n\n/// 媒体库表，存储所有扫描到的文件/文件夹路径\nmodel Library {\n  id              Int           @id @default(autoincrement()) /// 唯一标识符\n  type            String /// 条目类型（video/subtitle/folder）\n  path            String        @unique /// 文件/文件夹路径\n  pathHash        String        @map(\"path_hash\") /// 路径哈希值，用于快速查找\n  size            BigInt /// 文件/文件夹大小（字节）\n  isDirectory     Boolean       @default(false) @map(\"is_directory\") /// 是否为文件夹\n  status          LibraryStatus @default(PENDING) /// 处理状态\n  lastProcessedAt DateTime?     @map(\"last_processed_at\") /// 上次处理时间\n  fileId          Int?          @unique @map(\"file_id\") /// 关联的file表ID（处理完成后）\n\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n  updatedAt DateTime @updatedAt @map(\"updated_at\") /// 记录更新时间\n\n  /// 关联的文件信息（处理完成后创建硬链接或刮削元数据）\n  file File? @relation(fields: [fileId], references: [id])\n\n  @@index([pathHash]) /// 路径哈希索引，用于加速查询\n  @@index([status]) /// 状态索引，用于加速查询\n  @@index([type]) /// 类型索引，用于加速查询\n  @@index([isDirectory]) /// 文件夹标识索引，用于快速筛选文件夹\n}\n\n/// 扫描日志表，记录扫描历史和错误信息\nmodel ScanLog {\n  id         Int      @id @default(autoincrement()) /// 唯一标识符\n  scanTime   DateTime @map(\"scan_time\") /// 扫描时间\n  scanPath   String   @map(\"scan_path\") /// 扫描路径\n  filesFound Int      @map(\"files_found\") /// 发现的文件数量\n  filesAdded Int      @map(\"files_added\") /// 新增的文件数量\n  duration   Int /// 扫描耗时（毫秒）\n  errors     String? /// 错误信息（JSON格式）\n  status     String /// 扫描状态（success/error）\n  createdAt  DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  @@index([scanTime]) /// 扫描时间索引\n  @@index([status]) /// 状态索引\n}\n",
+  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\n/// 媒体类型枚举：电视剧、电影或合集\nenum Type {\n  tv /// 电视剧\n  movie /// 电影\n  collection /// 合集\n}\n\n/// 媒体信息主表，存储所有类型媒体的共有信息\nmodel Media {\n  id            Int       @id @default(autoincrement()) /// 唯一标识符\n  files         File[] /// 关联的媒体文件列表\n  type          Type /// 媒体类型（电视剧/电影/合集）\n  tmdbId        Int       @map(\"tmdb_id\") /// TMDB网站的媒体ID\n  title         String /// 媒体标题\n  originalTitle String?   @map(\"original_title\") /// 原始标题（非本地化）\n  releaseDate   DateTime? @map(\"release_date\") /// 发布日期\n  description   String? /// 媒体描述\n  posterUrl     String?   @map(\"poster_url\") /// 海报图片URL\n\n  /// 关联的电视剧详细信息\n  tvInfos          TvInfo?         @relation(fields: [tvInfoId], references: [id])\n  tvInfoId         Int? /// 关联电视剧信息的ID\n  /// 关联的电影详细信息\n  movieInfo        MovieInfo?      @relation(fields: [movieInfoId], references: [id])\n  movieInfoId      Int? /// 关联电影信息的ID\n  /// 关联的合集详细信息\n  collectionInfo   CollectionInfo? @relation(fields: [collectionInfoId], references: [id])\n  collectionInfoId Int? /// 关联合集信息的ID\n\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n  updatedAt DateTime @updatedAt @map(\"updated_at\") /// 记录更新时间\n\n  @@index([title]) /// 标题索引，用于加速查询\n  @@index([tmdbId]) /// TMDB ID索引，用于加速查询\n}\n\n/// 媒体文件信息表，存储文件系统相关信息\nmodel File {\n  id        Int      @id @default(autoincrement()) /// 唯一标识符\n  deviceId  BigInt   @map(\"device_id\") /// 设备ID，与inode一起确保文件的唯一性\n  inode     BigInt /// 文件系统inode号\n  fileHash  String?  @map(\"file_hash\") /// 文件内容哈希值（文件夹为null，只有普通文件才有）\n  fileSize  BigInt   @map(\"file_size\") /// 文件大小（字节）\n  filePath  String   @unique @map(\"file_path\") /// 原始文件路径\n  linkPath  String   @unique @map(\"link_path\") /// 硬链接文件路径\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  // 文件/文件夹标识\n  isDirectory     Boolean @default(false) @map(\"is_directory\") /// 是否为文件夹\n  isSpecialFolder Boolean @default(false) @map(\"is_special_folder\") /// 是否为特殊文件夹（BDMV/DVD/ISO）\n  folderType      String? @map(\"folder_type\") /// 特殊文件夹类型（BDMV/VIDEO_TS/ISO）\n  isMultiDisc     Boolean @default(false) @map(\"is_multi_disc\") /// 是否为多碟片结构\n  discNumber      Int?    @map(\"disc_number\") /// 碟片编号（Vol.1, Disc 2 等）\n  isParentFolder  Boolean @default(false) @map(\"is_parent_folder\") /// 是否为父文件夹（包含多个子卷的容器）\n\n  // 父子文件夹关系\n  parentFolder   File?  @relation(\"ParentChildren\", fields: [parentFolderId], references: [id], onDelete: SetNull)\n  parentFolderId Int?   @map(\"parent_folder_id\") /// 父文件夹ID（用于子卷）\n  childFolders   File[] @relation(\"ParentChildren\") /// 子文件夹列表（用于父文件夹）\n\n  routingRule String? @map(\"routing_rule\") /// 匹配的路由规则名称，未命中规则时为null\n  linkMode    String? @map(\"link_mode\") /// 实际使用的链接方式（hardlink/symlink/reflink/copy），为null时视为硬链接\n  extraType   String? @map(\"extra_type\") /// 附加内容类型，即作品目录下的子目录名（如 extras），正片为null\n\n  // 从源文件名解析的发布信息\n  resolution   String? /// 分辨率（2160p/1080p/720p/576p/480p）\n  source       String? /// 来源（remux/bluray/web-dl/webrip/hdtv/dvd）\n  videoCodec   String? @map(\"video_codec\") /// 视频编码，如 H.265\n  hdrFormat    String? @map(\"hdr_format\") /// HDR 格式，如 HDR10、DV HDR10\n  audioCodec   String? @map(\"audio_codec\") /// 音频编码，如 TrueHD Atmos\n  releaseGroup String? @map(\"release_group\") /// 发布组\n\n  // 从容器头部读取的媒体信息\n  container String? /// 容器格式（matroska/mp4），无法读取时为null\n  duration  Float? /// 时长（秒）\n  width     Int? /// 主视频轨道的宽度\n  height    Int? /// 主视频轨道的高度\n  mediaInfo String?   @map(\"media_info\") /// 轨道、章节和附件（JSON格式）\n  probedAt  DateTime? @map(\"probed_at\") /// 读取媒体信息的时间，未读取时为null\n\n  // 质量升级\n  supersededAt   DateTime?        @map(\"superseded_at\") /// 被更高质量的版本替换的时间，未替换时为null\n  supersededBy   File?            @relation(\"Supersedes\", fields: [supersededById], references: [id], onDelete: SetNull)\n  supersededById Int?             @map(\"superseded_by_id\") /// 替换该文件的文件ID\n  supersedes     File[]           @relation(\"Supersedes\") /// 被该文件替换的文件列表\n  upgradesFrom   QualityUpgrade[] @relation(\"UpgradeFrom\") /// 作为旧版本的升级记录\n  upgradesTo     QualityUpgrade[] @relation(\"UpgradeTo\") /// 作为新版本的升级记录\n\n  /// 关联的媒体信息\n  Media   Media? @relation(fields: [mediaId], references: [id])\n  mediaId Int? /// 关联媒体的ID\n\n  /// 关联的电视剧单集信息（一对多关系，多集文件如 S01E01-E02 关联多集）\n  episodes EpisodeInfo[]\n\n  /// 随视频文件一起链接的字幕文件\n  subtitles Subtitle[]\n\n  /// 关联的库文件信息（一对一关系）\n  libraryFile Library?\n\n  @@unique([deviceId, inode], name: \"device_inode_unique\") /// 设备ID和inode联合唯一约束\n  @@index([fileHash]) /// 文件哈希索引，用于加速查询\n  @@index([isDirectory]) /// 文件夹标识索引，用于快速筛选文件夹\n  @@index([isSpecialFolder]) /// 特殊文件夹索引，用于快速筛选特殊文件夹\n  @@index([folderType]) /// 特殊文件夹类型索引，用于按类型查询\n  @@index([isMultiDisc, discNumber]) /// 多碟片索引，用于关联同系列碟片\n  @@index([isParentFolder]) /// 父文件夹标识索引，用于快速筛选父文件夹\n  @@index([parentFolderId]) /// 父文件夹ID索引，用于快速查找子卷\n  @@index([supersededAt]) /// 替换时间索引，用于排除已被替换的文件\n  @@index([resolution]) /// 分辨率索引，用于按分辨率筛选和统计\n  @@index([source]) /// 来源索引，用于按来源筛选和统计\n}\n\n/// 字幕文件表，记录与视频文件同名的字幕及其硬链接\nmodel Subtitle {\n  id             Int      @id @default(autoincrement()) /// 唯一标识符\n  filePath       String   @unique @map(\"file_path\") /// 原始字幕文件路径\n  linkPath       String   @unique @map(\"link_path\") /// 字幕硬链接路径\n  language       String? /// 规范化的语言标记（如 zh、zh-Hant、en），无法识别时为null\n  languageSource String?  @map(\"language_source\") /// 语言标记的来源：suffix（文件名后缀）、content（字幕内容）、manual（手动指定）\n  createdAt      DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  /// 所属的视频文件，视频记录删除时一起删除\n  file   File @relation(fields: [fileId], references: [id], onDelete: Cascade)\n  fileId Int  @map(\"file_id\") /// 所属视频文件的ID\n\n  @@index([fileId]) /// 文件ID索引，用于查找视频文件的字幕\n}\n\n/// 电视剧详细信息表\nmodel TvInfo {\n  id          Int     @id @default(autoincrement()) /// 唯一标识符\n  tmdbId      Int     @map(\"tmdb_id\") /// TMDB上的电视剧ID\n  description String? /// 电视剧详细描述\n\n  episodes EpisodeInfo[] /// 关联的集数信息\n\n  Media Media[] /// 关联的媒体基本信息\n}\n\n/// 电影详细信息表\nmodel MovieInfo {\n  id          Int     @id @default(autoincrement()) /// 唯一标识符\n  tmdbId      Int     @map(\"tmdb_id\") /// TMDB上的电影ID\n  description String? /// 电影详细描述\n\n  Media Media[] /// 关联的媒体基本信息\n}\n\n/// 合集详细信息表（如电影系列）\nmodel CollectionInfo {\n  id          Int     @id @default(autoincrement()) /// 唯一标识符\n  tmdbId      Int     @map(\"tmdb_id\") /// TMDB上的合集ID\n  description String? /// 合集详细描述\n\n  Media Media[] /// 关联的媒体基本信息\n}\n\n/// 电视剧单集信息表\nmodel EpisodeInfo {\n  id             Int       @id @default(autoincrement()) /// 唯一标识符\n  tmdbId         Int       @unique @map(\"tmdb_id\") /// TMDB上的集数ID\n  seasonNumber   Int       @map(\"season_number\") /// 季号\n  episodeNumber  Int       @map(\"episode_number\") /// 集数编号\n  absoluteNumber Int?      @map(\"absolute_number\") /// 绝对集数（由绝对集数映射得到季号和集号时记录）\n  title          String? /// 单集标题\n  releaseDate    DateTime? @map(\"release_date\") /// 播出日期\n  description    String? /// 单集描述\n  posterUrl      String?   @map(\"poster_url\") /// 单集海报URL\n\n  /// 关联的电视剧信息\n  TvInfo   TvInfo? @relation(fields: [tvInfoId], references: [id])\n  tvInfoId Int? /// 关联电视剧的ID\n\n  /// 关联的文件信息（每集最多关联一个文件）\n  file   File? @relation(fields: [fileId], references: [id])\n  fileId Int?  @map(\"file_id\") /// 关联文件的ID\n\n  upgrades QualityUpgrade[] /// 该集的质量升级历史\n\n  @@index([fileId]) /// 文件ID索引，用于查找文件关联的剧集\n}\n\n/// 质量升级历史表，每次更高质量的版本替换已有链接时按集（电影为整部）记录一条\nmodel QualityUpgrade {\n  id          Int      @id @default(autoincrement()) /// 唯一标识符\n  mediaId     Int?     @map(\"media_id\") /// 关联媒体的ID\n  fromPath    String   @map(\"from_path\") /// 被替换版本的源文件路径\n  toPath      String   @map(\"to_path\") /// 新版本的源文件路径\n  linkPath    String   @map(\"link_path\") /// 被替换版本原来的链接路径\n  fromQuality String   @map(\"from_quality\") /// 被替换版本的质量描述，如 720p WEB-DL\n  toQuality   String   @map(\"to_quality\") /// 新版本的质量描述，如 1080p BluRay\n  createdAt   DateTime @default(now()) @map(\"created_at\") /// 升级时间\n\n  /// 关联的剧集，电影为null\n  episode   EpisodeInfo? @relation(fields: [episodeId], references: [id], onDelete: SetNull)\n  episodeId Int?         @map(\"episode_id\") /// 关联剧集的ID\n\n  /// 被替换的文件记录，记录删除后保留历史\n  fromFile   File? @relation(\"UpgradeFrom\", fields: [fromFileId], references: [id], onDelete: SetNull)\n  fromFileId Int?  @map(\"from_file_id\") /// 被替换文件的ID\n  /// 替换后的文件记录\n  toFile     File? @relation(\"UpgradeTo\", fields: [toFileId], references: [id], onDelete: SetNull)\n  toFileId   Int?  @map(\"to_file_id\") /// 新文件的ID\n\n  @@index([mediaId]) /// 媒体ID索引，用于查询电影的升级历史\n  @@index([episodeId]) /// 剧集ID索引，用于查询单集的升级历史\n  @@index([createdAt]) /// 时间索引，用于按时间排序\n}\n\n/// 任务状态枚举\nenum TaskStatus {\n  PENDING /// 待处理\n  RUNNING /// 处理中\n  COMPLETED /// 已完成\n  FAILED /// 失败\n  CANCELED /// 已取消\n  NEEDS_REVIEW /// 待人工确认\n}\n\n/// 媒体刮削任务队列\nmodel Queue {\n  id              Int        @id @default(autoincrement()) /// 唯一标识符\n  filePath        String /// 文件路径\n  fileName        String /// 文件名\n  isDirectory     Boolean    @default(false) @map(\"is_directory\") /// 是否为目录\n  status          TaskStatus @default(PENDING) /// 任务状态\n  priority        Int        @default(0) /// 任务优先级，数字越大优先级越高\n  retryCount      Int        @default(0) @map(\"retry_count\") /// 重试次数\n  maxRetries      Int        @default(3) @map(\"max_retries\") /// 最大重试次数\n  lastError       String?    @map(\"last_error\") /// 最后一次错误信息\n  result          String? /// 任务结果（JSON格式）\n  candidates      String? /// 待确认的候选结果（JSON格式）\n  reviewSelection String?    @map(\"review_selection\") /// 人工确认的候选结果（JSON格式）\n\n  createdAt   DateTime  @default(now()) @map(\"created_at\") /// 创建时间\n  updatedAt   DateTime  @updatedAt @map(\"updated_at\") /// 更新时间\n  startedAt   DateTime? @map(\"started_at\") /// 开始处理时间\n  completedAt DateTime? @map(\"completed_at\") /// 完成时间\n  nextRetryAt DateTime? @map(\"next_retry_at\") /// 下次重试时间\n\n  @@index([status, priority, createdAt]) /// 队列排序索引\n  @@index([status, nextRetryAt]) /// 重试任务索引\n}\n\n/// 用户表，存储单用户信息\nmodel User {\n  id        Int      @id @default(autoincrement()) /// 用户ID\n  username  String   @unique /// 用户名\n  password  String /// 密码哈希\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 创建时间\n  updatedAt DateTime @updatedAt @map(\"updated_at\") /// 更新时间\n}\n\n/// 库文件状态枚举\nenum LibraryStatus {\n  PENDING /// 待处理\n  PROCESSED /// 已处理\n  ERROR /// 处理出错\n  IGNORED /// 忽略\n}\n\n/// 媒体库表，存储所有扫描到的文件/文件夹路径\nmodel Library {\n  id              Int           @id @default(autoincrement()) /// 唯一标识符\n  type            String /// 条目类型（video/subtitle/folder）\n  path            String        @unique /// 文件/文件夹路径\n  pathHash        String        @map(\"path_hash\") /// 路径哈希值，用于快速查找\n  size            BigInt /// 文件/文件夹大小（字节）\n  isDirectory     Boolean       @default(false) @map(\"is_directory\") /// 是否为文件夹\n  status          LibraryStatus @default(PENDING) /// 处理状态\n  lastProcessedAt DateTime?     @map(\"last_processed_at\") /// 上次处理时间\n  fileId          Int?          @unique @map(\"file_id\") /// 关联的file表ID（处理完成后）\n\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n  updatedAt DateTime @updatedAt @map(\"updated_at\") /// 记录更新时间\n\n  /// 关联的文件信息（处理完成后创建硬链接或刮削元数据）\n  file File? @relation(fields: [fileId], references: [id])\n\n  @@index([pathHash]) /// 路径哈希索引，用于加速查询\n  @@index([status]) /// 状态索引，用于加速查询\n  @@index([type]) /// 类型索引，用于加速查询\n  @@index([isDirectory]) /// 文件夹标识索引，用于快速筛选文件夹\n}\n\n/// 扫描日志表，记录扫描历史和错误信息\nmodel ScanLog {\n  id         Int      @id @default(autoincrement()) /// 唯一标识符\n  scanTime   DateTime @map(\"scan_time\") /// 扫描时间\n  scanPath   String   @map(\"scan_path\") /// 扫描路径\n  filesFound Int      @map(\"files_found\") /// 发现的文件数量\n  filesAdded Int      @map(\"files_added\") /// 新增的文件数量\n  duration   Int /// 扫描耗时（毫秒）\n  errors     String? /// 错误信息（JSON格式）\n  status     String /// 扫描状态（success/error）\n  createdAt  DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  @@index([scanTime]) /// 扫描时间索引\n  @@index([status]) /// 状态索引\n}\n\n/// LLM 文件名解析结果缓存\nmodel LlmCache {\n  id         Int      @id @default(autoincrement()) /// 唯一标识符\n  cacheKey   String   @unique @map(\"cache_key\") /// 缓存键（标准化文件名、提示词哈希和模型名称的组合哈希）\n  fileName   String   @map(\"file_name\") /// 标准化后的文件名\n  promptHash String   @map(\"prompt_hash\") /// 提示词内容哈希\n  model      String /// LLM 模型名称\n  result     String /// 解析结果（JSON格式）\n  hitCount   Int      @default(0) @map(\"hit_count\") /// 命中次数\n  expiresAt  DateTime @map(\"expires_at\") /// 过期时间\n  createdAt  DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  @@index([promptHash, model]) /// 提示词和模型索引，用于失效清理\n  @@index([expiresAt]) /// 过期时间索引\n}\n\n/// TMDB 接口响应缓存\nmodel TmdbCache {\n  id        Int      @id @default(autoincrement()) /// 唯一标识符\n  cacheKey  String   @unique @map(\"cache_key\") /// 缓存键（接口名称和请求参数的组合哈希）\n  endpoint  String /// 接口名称（searchTv/searchMovie/searchCollection/tvInfo/seasonInfo/movieInfo）\n  params    String /// 请求参数（JSON格式）\n  response  String /// 响应内容（JSON格式）\n  expiresAt DateTime @map(\"expires_at\") /// 过期时间\n  createdAt DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n  updatedAt DateTime @updatedAt @map(\"updated_at\") /// 记录更新时间\n\n  @@index([endpoint]) /// 接口名称索引\n  @@index([expiresAt]) /// 过期时间索引\n}\n\n/// 操作日志分组，每个队列任务、接口请求或预演计划条目一组，撤销时整组回滚\nmodel OperationGroup {\n  id         Int       @id @default(autoincrement()) /// 唯一标识符\n  source     String /// 来源（queue/api/plan/monitor）\n  label      String /// 描述（任务文件名、请求路径等）\n  taskId     Int?      @map(\"task_id\") /// 关联的队列任务ID\n  undoneAt   DateTime? @map(\"undone_at\") /// 撤销时间，未撤销时为null\n  undoErrors String?   @map(\"undo_errors\") /// 撤销时未能回滚的操作（JSON格式）\n  createdAt  DateTime  @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  /// 分组内的操作，按ID顺序执行\n  operations Operation[]\n\n  @@index([createdAt]) /// 创建时间索引，用于分页和过期清理\n  @@index([taskId]) /// 队列任务ID索引\n}\n\n/// 操作日志，记录链接、NFO、目录的创建和删除以及文件记录的变更\nmodel Operation {\n  id          Int      @id @default(autoincrement()) /// 唯一标识符\n  type        String /// 操作类型（link/mkdir/nfo/delete/record/media）\n  path        String /// 操作的文件或目录路径，record 类型为文件记录的源文件路径，media 类型为媒体标题\n  sourcePath  String?  @map(\"source_path\") /// 链接对应的源文件路径\n  linkMode    String?  @map(\"link_mode\") /// 链接方式\n  deviceId    BigInt?  @map(\"device_id\") /// 操作时文件的设备ID\n  inode       BigInt? /// 操作时文件的inode，撤销时用于确认文件未被替换或源文件仍然存在\n  isDirectory Boolean  @default(false) @map(\"is_directory\") /// 是否为目录\n  recordId    Int?     @map(\"record_id\") /// record 类型关联的文件记录ID，media 类型为媒体ID\n  snapshot    String? /// 撤销所需的数据（JSON格式），如被覆盖的 NFO 内容、被删除目录的文件列表、变更前的文件记录、被删除的媒体记录\n  createdAt   DateTime @default(now()) @map(\"created_at\") /// 记录创建时间\n\n  /// 所属分组，分组删除时一起删除\n  group   OperationGroup @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  groupId Int            @map(\"group_id\") /// 所属分组ID\n\n  @@index([groupId]) /// 分组ID索引\n}\n\n/// 预演计划，只保留最近一次，重启服务后仍可查看和执行\nmodel ExecutionPlan {\n  id        String    @id /// 计划标识\n  entries   String /// 计划条目（JSON格式）\n  tasks     String /// 各条目的预演结果，执行时使用（JSON格式）\n  errors    String /// 扫描时的错误（JSON格式）\n  duration  Int /// 生成计划的耗时（毫秒）\n  appliedAt DateTime? @map(\"applied_at\") /// 上次执行时间，未执行时为null\n  createdAt DateTime  @default(now()) @map(\"created_at\") /// 记录创建时间\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Media\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"files\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FileToMedia\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"Type\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"originalTitle\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"original_title\"},{\"name\":\"releaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"release_date\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"posterUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"poster_url\"},{\"name\":\"tvInfos\",\"kind\":\"object\",\"type\":\"TvInfo\",\"relationName\":\"MediaToTvInfo\"},{\"name\":\"tvInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"movieInfo\",\"kind\":\"object\",\"type\":\"MovieInfo\",\"relationName\":\"MediaToMovieInfo\"},{\"name\":\"movieInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"collectionInfo\",\"kind\":\"object\",\"type\":\"CollectionInfo\",\"relationName\":\"CollectionInfoToMedia\"},{\"name\":\"collectionInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":null},\"File\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"deviceId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"device_id\"},{\"name\":\"inode\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"fileHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_hash\"},{\"name\":\"fileSize\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"file_size\"},{\"name\":\"filePath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_path\"},{\"name\":\"linkPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"link_path\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"isDirectory\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_directory\"},{\"name\":\"isSpecialFolder\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_special_folder\"},{\"name\":\"folderType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"folder_type\"},{\"name\":\"isMultiDisc\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_multi_disc\"},{\"name\":\"discNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"disc_number\"},{\"name\":\"isParentFolder\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_parent_folder\"},{\"name\":\"parentFolder\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"ParentChildren\"},{\"name\":\"parentFolderId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"parent_folder_id\"},{\"name\":\"childFolders\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"ParentChildren\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"FileToMedia\"},{\"name\":\"mediaId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"episodeInfo\",\"kind\":\"object\",\"type\":\"EpisodeInfo\",\"relationName\":\"EpisodeInfoToFile\"},{\"name\":\"episodeInfoId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"episode_info_id\"},{\"name\":\"libraryFile\",\"kind\":\"object\",\"type\":\"Library\",\"relationName\":\"FileToLibrary\"}],\"dbName\":null},\"TvInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"episodes\",\"kind\":\"object\",\"type\":\"EpisodeInfo\",\"relationName\":\"EpisodeInfoToTvInfo\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"MediaToTvInfo\"}],\"dbName\":null},\"MovieInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"MediaToMovieInfo\"}],\"dbName\":null},\"CollectionInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"CollectionInfoToMedia\"}],\"dbName\":null},\"EpisodeInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"seasonNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"season_number\"},{\"name\":\"episodeNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"episode_number\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"releaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"release_date\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"posterUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"poster_url\"},{\"name\":\"TvInfo\",\"kind\":\"object\",\"type\":\"TvInfo\",\"relationName\":\"EpisodeInfoToTvInfo\"},{\"name\":\"tvInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"EpisodeInfoToFile\"}],\"dbName\":null},\"Queue\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"filePath\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isDirectory\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_directory\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"TaskStatus\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"retryCount\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"retry_count\"},{\"name\":\"maxRetries\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"max_retries\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"last_error\"},{\"name\":\"result\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"started_at\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"completed_at\"},{\"name\":\"nextRetryAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"next_retry_at\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":null},\"Library\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"path\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pathHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"path_hash\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"isDirectory\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_directory\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"LibraryStatus\"},{\"name\":\"lastProcessedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_processed_at\"},{\"name\":\"fileId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"file_id\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FileToLibrary\"}],\"dbName\":null},\"ScanLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"scanTime\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"scan_time\"},{\"name\":\"scanPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"scan_path\"},{\"name\":\"filesFound\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"files_found\"},{\"name\":\"filesAdded\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"files_added\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errors\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Media\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"files\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FileToMedia\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"Type\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"originalTitle\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"original_title\"},{\"name\":\"releaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"release_date\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"posterUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"poster_url\"},{\"name\":\"tvInfos\",\"kind\":\"object\",\"type\":\"TvInfo\",\"relationName\":\"MediaToTvInfo\"},{\"name\":\"tvInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"movieInfo\",\"kind\":\"object\",\"type\":\"MovieInfo\",\"relationName\":\"MediaToMovieInfo\"},{\"name\":\"movieInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"collectionInfo\",\"kind\":\"object\",\"type\":\"CollectionInfo\",\"relationName\":\"CollectionInfoToMedia\"},{\"name\":\"collectionInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":null},\"File\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"deviceId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"device_id\"},{\"name\":\"inode\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"fileHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_hash\"},{\"name\":\"fileSize\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"file_size\"},{\"name\":\"filePath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_path\"},{\"name\":\"linkPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"link_path\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"isDirectory\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_directory\"},{\"name\":\"isSpecialFolder\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_special_folder\"},{\"name\":\"folderType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"folder_type\"},{\"name\":\"isMultiDisc\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_multi_disc\"},{\"name\":\"discNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"disc_number\"},{\"name\":\"isParentFolder\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_parent_folder\"},{\"name\":\"parentFolder\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"ParentChildren\"},{\"name\":\"parentFolderId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"parent_folder_id\"},{\"name\":\"childFolders\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"ParentChildren\"},{\"name\":\"routingRule\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"routing_rule\"},{\"name\":\"linkMode\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"link_mode\"},{\"name\":\"extraType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"extra_type\"},{\"name\":\"resolution\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"videoCodec\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"video_codec\"},{\"name\":\"hdrFormat\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"hdr_format\"},{\"name\":\"audioCodec\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"audio_codec\"},{\"name\":\"releaseGroup\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"release_group\"},{\"name\":\"container\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"width\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"height\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mediaInfo\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"media_info\"},{\"name\":\"probedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"probed_at\"},{\"name\":\"supersededAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"superseded_at\"},{\"name\":\"supersededBy\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"Supersedes\"},{\"name\":\"supersededById\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"superseded_by_id\"},{\"name\":\"supersedes\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"Supersedes\"},{\"name\":\"upgradesFrom\",\"kind\":\"object\",\"type\":\"QualityUpgrade\",\"relationName\":\"UpgradeFrom\"},{\"name\":\"upgradesTo\",\"kind\":\"object\",\"type\":\"QualityUpgrade\",\"relationName\":\"UpgradeTo\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"FileToMedia\"},{\"name\":\"mediaId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"episodes\",\"kind\":\"object\",\"type\":\"EpisodeInfo\",\"relationName\":\"EpisodeInfoToFile\"},{\"name\":\"subtitles\",\"kind\":\"object\",\"type\":\"Subtitle\",\"relationName\":\"FileToSubtitle\"},{\"name\":\"libraryFile\",\"kind\":\"object\",\"type\":\"Library\",\"relationName\":\"FileToLibrary\"}],\"dbName\":null},\"Subtitle\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"filePath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_path\"},{\"name\":\"linkPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"link_path\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"languageSource\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"language_source\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FileToSubtitle\"},{\"name\":\"fileId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"file_id\"}],\"dbName\":null},\"TvInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"episodes\",\"kind\":\"object\",\"type\":\"EpisodeInfo\",\"relationName\":\"EpisodeInfoToTvInfo\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"MediaToTvInfo\"}],\"dbName\":null},\"MovieInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"MediaToMovieInfo\"}],\"dbName\":null},\"CollectionInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"CollectionInfoToMedia\"}],\"dbName\":null},\"EpisodeInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tmdbId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"tmdb_id\"},{\"name\":\"seasonNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"season_number\"},{\"name\":\"episodeNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"episode_number\"},{\"name\":\"absoluteNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"absolute_number\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"releaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"release_date\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"posterUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"poster_url\"},{\"name\":\"TvInfo\",\"kind\":\"object\",\"type\":\"TvInfo\",\"relationName\":\"EpisodeInfoToTvInfo\"},{\"name\":\"tvInfoId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"EpisodeInfoToFile\"},{\"name\":\"fileId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"file_id\"},{\"name\":\"upgrades\",\"kind\":\"object\",\"type\":\"QualityUpgrade\",\"relationName\":\"EpisodeInfoToQualityUpgrade\"}],\"dbName\":null},\"QualityUpgrade\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mediaId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"media_id\"},{\"name\":\"fromPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"from_path\"},{\"name\":\"toPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_path\"},{\"name\":\"linkPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"link_path\"},{\"name\":\"fromQuality\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"from_quality\"},{\"name\":\"toQuality\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_quality\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"episode\",\"kind\":\"object\",\"type\":\"EpisodeInfo\",\"relationName\":\"EpisodeInfoToQualityUpgrade\"},{\"name\":\"episodeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"episode_id\"},{\"name\":\"fromFile\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"UpgradeFrom\"},{\"name\":\"fromFileId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"from_file_id\"},{\"name\":\"toFile\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"UpgradeTo\"},{\"name\":\"toFileId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"to_file_id\"}],\"dbName\":null},\"Queue\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"filePath\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isDirectory\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_directory\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"TaskStatus\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"retryCount\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"retry_count\"},{\"name\":\"maxRetries\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"max_retries\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"last_error\"},{\"name\":\"result\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"candidates\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewSelection\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"review_selection\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"started_at\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"completed_at\"},{\"name\":\"nextRetryAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"next_retry_at\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":null},\"Library\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"path\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pathHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"path_hash\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"isDirectory\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_directory\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"LibraryStatus\"},{\"name\":\"lastProcessedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_processed_at\"},{\"name\":\"fileId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"file_id\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FileToLibrary\"}],\"dbName\":null},\"ScanLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"scanTime\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"scan_time\"},{\"name\":\"scanPath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"scan_path\"},{\"name\":\"filesFound\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"files_found\"},{\"name\":\"filesAdded\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"files_added\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errors\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":null},\"LlmCache\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cacheKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"cache_key\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_name\"},{\"name\":\"promptHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"prompt_hash\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"result\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hitCount\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"hit_count\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":null},\"TmdbCache\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cacheKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"cache_key\"},{\"name\":\"endpoint\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"response\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":null},\"OperationGroup\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"task_id\"},{\"name\":\"undoneAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"undone_at\"},{\"name\":\"undoErrors\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"undo_errors\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"operations\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"OperationToOperationGroup\"}],\"dbName\":null},\"Operation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"path\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourcePath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"source_path\"},{\"name\":\"linkMode\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"link_mode\"},{\"name\":\"deviceId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"device_id\"},{\"name\":\"inode\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"isDirectory\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_directory\"},{\"name\":\"recordId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"record_id\"},{\"name\":\"snapshot\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"OperationGroup\",\"relationName\":\"OperationToOperationGroup\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"group_id\"}],\"dbName\":null},\"ExecutionPlan\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entries\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tasks\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errors\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"appliedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"applied_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -194,6 +194,16 @@ export interface PrismaClient<
     */
   get file(): Prisma.FileDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.subtitle`: Exposes CRUD operations for the **Subtitle** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Subtitles
+    * const subtitles = await prisma.subtitle.findMany()
+    * ```
+    */
+  get subtitle(): Prisma.SubtitleDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.tvInfo`: Exposes CRUD operations for the **TvInfo** model.
     * Example usage:
@@ -234,6 +244,16 @@ export interface PrismaClient<
     */
   get episodeInfo(): Prisma.EpisodeInfoDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.qualityUpgrade`: Exposes CRUD operations for the **QualityUpgrade** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more QualityUpgrades
+    * const qualityUpgrades = await prisma.qualityUpgrade.findMany()
+    * ```
+    */
+  get qualityUpgrade(): Prisma.QualityUpgradeDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.queue`: Exposes CRUD operations for the **Queue** model.
     * Example usage:
@@ -273,6 +293,56 @@ export interface PrismaClient<
     * ```
     */
   get scanLog(): Prisma.ScanLogDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.llmCache`: Exposes CRUD operations for the **LlmCache** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LlmCaches
+    * const llmCaches = await prisma.llmCache.findMany()
+    * ```
+    */
+  get llmCache(): Prisma.LlmCacheDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.tmdbCache`: Exposes CRUD operations for the **TmdbCache** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TmdbCaches
+    * const tmdbCaches = await prisma.tmdbCache.findMany()
+    * ```
+    */
+  get tmdbCache(): Prisma.TmdbCacheDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.operationGroup`: Exposes CRUD operations for the **OperationGroup** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OperationGroups
+    * const operationGroups = await prisma.operationGroup.findMany()
+    * ```
+    */
+  get operationGroup(): Prisma.OperationGroupDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.operation`: Exposes CRUD operations for the **Operation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Operations
+    * const operations = await prisma.operation.findMany()
+    * ```
+    */
+  get operation(): Prisma.OperationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.executionPlan`: Exposes CRUD operations for the **ExecutionPlan** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ExecutionPlans
+    * const executionPlans = await prisma.executionPlan.findMany()
+    * ```
+    */
+  get executionPlan(): Prisma.ExecutionPlanDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
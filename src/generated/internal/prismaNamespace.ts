@@ -386,14 +386,21 @@ type FieldRefInputType<Model, FieldType> = Model extends never ? never : FieldRe
 export const ModelName = {
   Media: 'Media',
   File: 'File',
+  Subtitle: 'Subtitle',
   TvInfo: 'TvInfo',
   MovieInfo: 'MovieInfo',
   CollectionInfo: 'CollectionInfo',
   EpisodeInfo: 'EpisodeInfo',
+  QualityUpgrade: 'QualityUpgrade',
   Queue: 'Queue',
   User: 'User',
   Library: 'Library',
-  ScanLog: 'ScanLog'
+  ScanLog: 'ScanLog',
+  LlmCache: 'LlmCache',
+  TmdbCache: 'TmdbCache',
+  OperationGroup: 'OperationGroup',
+  Operation: 'Operation',
+  ExecutionPlan: 'ExecutionPlan'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -409,7 +416,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "media" | "file" | "tvInfo" | "movieInfo" | "collectionInfo" | "episodeInfo" | "queue" | "user" | "library" | "scanLog"
+    modelProps: "media" | "file" | "subtitle" | "tvInfo" | "movieInfo" | "collectionInfo" | "episodeInfo" | "qualityUpgrade" | "queue" | "user" | "library" | "scanLog" | "llmCache" | "tmdbCache" | "operationGroup" | "operation" | "executionPlan"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -561,6 +568,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    Subtitle: {
+      payload: Prisma.$SubtitlePayload<ExtArgs>
+      fields: Prisma.SubtitleFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SubtitleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SubtitleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>
+        }
+        findFirst: {
+          args: Prisma.SubtitleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SubtitleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>
+        }
+        findMany: {
+          args: Prisma.SubtitleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>[]
+        }
+        create: {
+          args: Prisma.SubtitleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>
+        }
+        createMany: {
+          args: Prisma.SubtitleCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SubtitleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>[]
+        }
+        delete: {
+          args: Prisma.SubtitleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>
+        }
+        update: {
+          args: Prisma.SubtitleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>
+        }
+        deleteMany: {
+          args: Prisma.SubtitleDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SubtitleUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SubtitleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>[]
+        }
+        upsert: {
+          args: Prisma.SubtitleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubtitlePayload>
+        }
+        aggregate: {
+          args: Prisma.SubtitleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSubtitle>
+        }
+        groupBy: {
+          args: Prisma.SubtitleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SubtitleGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SubtitleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SubtitleCountAggregateOutputType> | number
+        }
+      }
+    }
     TvInfo: {
       payload: Prisma.$TvInfoPayload<ExtArgs>
       fields: Prisma.TvInfoFieldRefs
@@ -857,6 +938,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    QualityUpgrade: {
+      payload: Prisma.$QualityUpgradePayload<ExtArgs>
+      fields: Prisma.QualityUpgradeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.QualityUpgradeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.QualityUpgradeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>
+        }
+        findFirst: {
+          args: Prisma.QualityUpgradeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.QualityUpgradeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>
+        }
+        findMany: {
+          args: Prisma.QualityUpgradeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>[]
+        }
+        create: {
+          args: Prisma.QualityUpgradeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>
+        }
+        createMany: {
+          args: Prisma.QualityUpgradeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.QualityUpgradeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>[]
+        }
+        delete: {
+          args: Prisma.QualityUpgradeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>
+        }
+        update: {
+          args: Prisma.QualityUpgradeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>
+        }
+        deleteMany: {
+          args: Prisma.QualityUpgradeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.QualityUpgradeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.QualityUpgradeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>[]
+        }
+        upsert: {
+          args: Prisma.QualityUpgradeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QualityUpgradePayload>
+        }
+        aggregate: {
+          args: Prisma.QualityUpgradeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateQualityUpgrade>
+        }
+        groupBy: {
+          args: Prisma.QualityUpgradeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.QualityUpgradeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.QualityUpgradeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.QualityUpgradeCountAggregateOutputType> | number
+        }
+      }
+    }
     Queue: {
       payload: Prisma.$QueuePayload<ExtArgs>
       fields: Prisma.QueueFieldRefs
@@ -1153,6 +1308,376 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    LlmCache: {
+      payload: Prisma.$LlmCachePayload<ExtArgs>
+      fields: Prisma.LlmCacheFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.LlmCacheFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.LlmCacheFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>
+        }
+        findFirst: {
+          args: Prisma.LlmCacheFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.LlmCacheFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>
+        }
+        findMany: {
+          args: Prisma.LlmCacheFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>[]
+        }
+        create: {
+          args: Prisma.LlmCacheCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>
+        }
+        createMany: {
+          args: Prisma.LlmCacheCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.LlmCacheCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>[]
+        }
+        delete: {
+          args: Prisma.LlmCacheDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>
+        }
+        update: {
+          args: Prisma.LlmCacheUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>
+        }
+        deleteMany: {
+          args: Prisma.LlmCacheDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.LlmCacheUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.LlmCacheUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>[]
+        }
+        upsert: {
+          args: Prisma.LlmCacheUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LlmCachePayload>
+        }
+        aggregate: {
+          args: Prisma.LlmCacheAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateLlmCache>
+        }
+        groupBy: {
+          args: Prisma.LlmCacheGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.LlmCacheGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.LlmCacheCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.LlmCacheCountAggregateOutputType> | number
+        }
+      }
+    }
+    TmdbCache: {
+      payload: Prisma.$TmdbCachePayload<ExtArgs>
+      fields: Prisma.TmdbCacheFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.TmdbCacheFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.TmdbCacheFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>
+        }
+        findFirst: {
+          args: Prisma.TmdbCacheFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.TmdbCacheFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>
+        }
+        findMany: {
+          args: Prisma.TmdbCacheFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>[]
+        }
+        create: {
+          args: Prisma.TmdbCacheCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>
+        }
+        createMany: {
+          args: Prisma.TmdbCacheCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.TmdbCacheCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>[]
+        }
+        delete: {
+          args: Prisma.TmdbCacheDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>
+        }
+        update: {
+          args: Prisma.TmdbCacheUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>
+        }
+        deleteMany: {
+          args: Prisma.TmdbCacheDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TmdbCacheUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TmdbCacheUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>[]
+        }
+        upsert: {
+          args: Prisma.TmdbCacheUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TmdbCachePayload>
+        }
+        aggregate: {
+          args: Prisma.TmdbCacheAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTmdbCache>
+        }
+        groupBy: {
+          args: Prisma.TmdbCacheGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TmdbCacheGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TmdbCacheCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TmdbCacheCountAggregateOutputType> | number
+        }
+      }
+    }
+    OperationGroup: {
+      payload: Prisma.$OperationGroupPayload<ExtArgs>
+      fields: Prisma.OperationGroupFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OperationGroupFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OperationGroupFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>
+        }
+        findFirst: {
+          args: Prisma.OperationGroupFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OperationGroupFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>
+        }
+        findMany: {
+          args: Prisma.OperationGroupFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>[]
+        }
+        create: {
+          args: Prisma.OperationGroupCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>
+        }
+        createMany: {
+          args: Prisma.OperationGroupCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OperationGroupCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>[]
+        }
+        delete: {
+          args: Prisma.OperationGroupDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>
+        }
+        update: {
+          args: Prisma.OperationGroupUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>
+        }
+        deleteMany: {
+          args: Prisma.OperationGroupDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OperationGroupUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OperationGroupUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>[]
+        }
+        upsert: {
+          args: Prisma.OperationGroupUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationGroupPayload>
+        }
+        aggregate: {
+          args: Prisma.OperationGroupAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOperationGroup>
+        }
+        groupBy: {
+          args: Prisma.OperationGroupGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperationGroupGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OperationGroupCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperationGroupCountAggregateOutputType> | number
+        }
+      }
+    }
+    Operation: {
+      payload: Prisma.$OperationPayload<ExtArgs>
+      fields: Prisma.OperationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OperationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OperationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>
+        }
+        findFirst: {
+          args: Prisma.OperationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OperationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>
+        }
+        findMany: {
+          args: Prisma.OperationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>[]
+        }
+        create: {
+          args: Prisma.OperationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>
+        }
+        createMany: {
+          args: Prisma.OperationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OperationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>[]
+        }
+        delete: {
+          args: Prisma.OperationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>
+        }
+        update: {
+          args: Prisma.OperationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>
+        }
+        deleteMany: {
+          args: Prisma.OperationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OperationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OperationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>[]
+        }
+        upsert: {
+          args: Prisma.OperationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationPayload>
+        }
+        aggregate: {
+          args: Prisma.OperationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOperation>
+        }
+        groupBy: {
+          args: Prisma.OperationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OperationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperationCountAggregateOutputType> | number
+        }
+      }
+    }
+    ExecutionPlan: {
+      payload: Prisma.$ExecutionPlanPayload<ExtArgs>
+      fields: Prisma.ExecutionPlanFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ExecutionPlanFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ExecutionPlanFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>
+        }
+        findFirst: {
+          args: Prisma.ExecutionPlanFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ExecutionPlanFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>
+        }
+        findMany: {
+          args: Prisma.ExecutionPlanFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>[]
+        }
+        create: {
+          args: Prisma.ExecutionPlanCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>
+        }
+        createMany: {
+          args: Prisma.ExecutionPlanCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ExecutionPlanCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>[]
+        }
+        delete: {
+          args: Prisma.ExecutionPlanDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>
+        }
+        update: {
+          args: Prisma.ExecutionPlanUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>
+        }
+        deleteMany: {
+          args: Prisma.ExecutionPlanDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ExecutionPlanUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ExecutionPlanUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>[]
+        }
+        upsert: {
+          args: Prisma.ExecutionPlanUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExecutionPlanPayload>
+        }
+        aggregate: {
+          args: Prisma.ExecutionPlanAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExecutionPlan>
+        }
+        groupBy: {
+          args: Prisma.ExecutionPlanGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExecutionPlanGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ExecutionPlanCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExecutionPlanCountAggregateOutputType> | number
+        }
+      }
+    }
   }
 } & {
   other: {
@@ -1224,13 +1749,42 @@ export const FileScalarFieldEnum = {
   discNumber: 'discNumber',
   isParentFolder: 'isParentFolder',
   parentFolderId: 'parentFolderId',
-  mediaId: 'mediaId',
-  episodeInfoId: 'episodeInfoId'
+  routingRule: 'routingRule',
+  linkMode: 'linkMode',
+  extraType: 'extraType',
+  resolution: 'resolution',
+  source: 'source',
+  videoCodec: 'videoCodec',
+  hdrFormat: 'hdrFormat',
+  audioCodec: 'audioCodec',
+  releaseGroup: 'releaseGroup',
+  container: 'container',
+  duration: 'duration',
+  width: 'width',
+  height: 'height',
+  mediaInfo: 'mediaInfo',
+  probedAt: 'probedAt',
+  supersededAt: 'supersededAt',
+  supersededById: 'supersededById',
+  mediaId: 'mediaId'
 } as const
 
 export type FileScalarFieldEnum = (typeof FileScalarFieldEnum)[keyof typeof FileScalarFieldEnum]
 
 
+export const SubtitleScalarFieldEnum = {
+  id: 'id',
+  filePath: 'filePath',
+  linkPath: 'linkPath',
+  language: 'language',
+  languageSource: 'languageSource',
+  createdAt: 'createdAt',
+  fileId: 'fileId'
+} as const
+
+export type SubtitleScalarFieldEnum = (typeof SubtitleScalarFieldEnum)[keyof typeof SubtitleScalarFieldEnum]
+
+
 export const TvInfoScalarFieldEnum = {
   id: 'id',
   tmdbId: 'tmdbId',
@@ -1263,16 +1817,35 @@ export const EpisodeInfoScalarFieldEnum = {
   tmdbId: 'tmdbId',
   seasonNumber: 'seasonNumber',
   episodeNumber: 'episodeNumber',
+  absoluteNumber: 'absoluteNumber',
   title: 'title',
   releaseDate: 'releaseDate',
   description: 'description',
   posterUrl: 'posterUrl',
-  tvInfoId: 'tvInfoId'
+  tvInfoId: 'tvInfoId',
+  fileId: 'fileId'
 } as const
 
 export type EpisodeInfoScalarFieldEnum = (typeof EpisodeInfoScalarFieldEnum)[keyof typeof EpisodeInfoScalarFieldEnum]
 
 
+export const QualityUpgradeScalarFieldEnum = {
+  id: 'id',
+  mediaId: 'mediaId',
+  fromPath: 'fromPath',
+  toPath: 'toPath',
+  linkPath: 'linkPath',
+  fromQuality: 'fromQuality',
+  toQuality: 'toQuality',
+  createdAt: 'createdAt',
+  episodeId: 'episodeId',
+  fromFileId: 'fromFileId',
+  toFileId: 'toFileId'
+} as const
+
+export type QualityUpgradeScalarFieldEnum = (typeof QualityUpgradeScalarFieldEnum)[keyof typeof QualityUpgradeScalarFieldEnum]
+
+
 export const QueueScalarFieldEnum = {
   id: 'id',
   filePath: 'filePath',
@@ -1284,6 +1857,8 @@ export const QueueScalarFieldEnum = {
   maxRetries: 'maxRetries',
   lastError: 'lastError',
   result: 'result',
+  candidates: 'candidates',
+  reviewSelection: 'reviewSelection',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   startedAt: 'startedAt',
@@ -1337,6 +1912,79 @@ export const ScanLogScalarFieldEnum = {
 export type ScanLogScalarFieldEnum = (typeof ScanLogScalarFieldEnum)[keyof typeof ScanLogScalarFieldEnum]
 
 
+export const LlmCacheScalarFieldEnum = {
+  id: 'id',
+  cacheKey: 'cacheKey',
+  fileName: 'fileName',
+  promptHash: 'promptHash',
+  model: 'model',
+  result: 'result',
+  hitCount: 'hitCount',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+} as const
+
+export type LlmCacheScalarFieldEnum = (typeof LlmCacheScalarFieldEnum)[keyof typeof LlmCacheScalarFieldEnum]
+
+
+export const TmdbCacheScalarFieldEnum = {
+  id: 'id',
+  cacheKey: 'cacheKey',
+  endpoint: 'endpoint',
+  params: 'params',
+  response: 'response',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TmdbCacheScalarFieldEnum = (typeof TmdbCacheScalarFieldEnum)[keyof typeof TmdbCacheScalarFieldEnum]
+
+
+export const OperationGroupScalarFieldEnum = {
+  id: 'id',
+  source: 'source',
+  label: 'label',
+  taskId: 'taskId',
+  undoneAt: 'undoneAt',
+  undoErrors: 'undoErrors',
+  createdAt: 'createdAt'
+} as const
+
+export type OperationGroupScalarFieldEnum = (typeof OperationGroupScalarFieldEnum)[keyof typeof OperationGroupScalarFieldEnum]
+
+
+export const OperationScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  path: 'path',
+  sourcePath: 'sourcePath',
+  linkMode: 'linkMode',
+  deviceId: 'deviceId',
+  inode: 'inode',
+  isDirectory: 'isDirectory',
+  recordId: 'recordId',
+  snapshot: 'snapshot',
+  createdAt: 'createdAt',
+  groupId: 'groupId'
+} as const
+
+export type OperationScalarFieldEnum = (typeof OperationScalarFieldEnum)[keyof typeof OperationScalarFieldEnum]
+
+
+export const ExecutionPlanScalarFieldEnum = {
+  id: 'id',
+  entries: 'entries',
+  tasks: 'tasks',
+  errors: 'errors',
+  duration: 'duration',
+  appliedAt: 'appliedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ExecutionPlanScalarFieldEnum = (typeof ExecutionPlanScalarFieldEnum)[keyof typeof ExecutionPlanScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -1402,23 +2050,23 @@ export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel,
 
 
 /**
- * Reference to a field of type 'TaskStatus'
+ * Reference to a field of type 'Float'
  */
-export type EnumTaskStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TaskStatus'>
+export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
     
 
 
 /**
- * Reference to a field of type 'LibraryStatus'
+ * Reference to a field of type 'TaskStatus'
  */
-export type EnumLibraryStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LibraryStatus'>
+export type EnumTaskStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TaskStatus'>
     
 
 
 /**
- * Reference to a field of type 'Float'
+ * Reference to a field of type 'LibraryStatus'
  */
-export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
+export type EnumLibraryStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LibraryStatus'>
     
 
 /**
@@ -1518,14 +2166,21 @@ export type PrismaClientOptions = ({
 export type GlobalOmitConfig = {
   media?: Prisma.MediaOmit
   file?: Prisma.FileOmit
+  subtitle?: Prisma.SubtitleOmit
   tvInfo?: Prisma.TvInfoOmit
   movieInfo?: Prisma.MovieInfoOmit
   collectionInfo?: Prisma.CollectionInfoOmit
   episodeInfo?: Prisma.EpisodeInfoOmit
+  qualityUpgrade?: Prisma.QualityUpgradeOmit
   queue?: Prisma.QueueOmit
   user?: Prisma.UserOmit
   library?: Prisma.LibraryOmit
   scanLog?: Prisma.ScanLogOmit
+  llmCache?: Prisma.LlmCacheOmit
+  tmdbCache?: Prisma.TmdbCacheOmit
+  operationGroup?: Prisma.OperationGroupOmit
+  operation?: Prisma.OperationOmit
+  executionPlan?: Prisma.ExecutionPlanOmit
 }
 
 /* Types for Logging */
@@ -53,14 +53,21 @@ export const AnyNull = runtime.AnyNull
 export const ModelName = {
   Media: 'Media',
   File: 'File',
+  Subtitle: 'Subtitle',
   TvInfo: 'TvInfo',
   MovieInfo: 'MovieInfo',
   CollectionInfo: 'CollectionInfo',
   EpisodeInfo: 'EpisodeInfo',
+  QualityUpgrade: 'QualityUpgrade',
   Queue: 'Queue',
   User: 'User',
   Library: 'Library',
-  ScanLog: 'ScanLog'
+  ScanLog: 'ScanLog',
+  LlmCache: 'LlmCache',
+  TmdbCache: 'TmdbCache',
+  OperationGroup: 'OperationGroup',
+  Operation: 'Operation',
+  ExecutionPlan: 'ExecutionPlan'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -111,13 +118,42 @@ export const FileScalarFieldEnum = {
   discNumber: 'discNumber',
   isParentFolder: 'isParentFolder',
   parentFolderId: 'parentFolderId',
-  mediaId: 'mediaId',
-  episodeInfoId: 'episodeInfoId'
+  routingRule: 'routingRule',
+  linkMode: 'linkMode',
+  extraType: 'extraType',
+  resolution: 'resolution',
+  source: 'source',
+  videoCodec: 'videoCodec',
+  hdrFormat: 'hdrFormat',
+  audioCodec: 'audioCodec',
+  releaseGroup: 'releaseGroup',
+  container: 'container',
+  duration: 'duration',
+  width: 'width',
+  height: 'height',
+  mediaInfo: 'mediaInfo',
+  probedAt: 'probedAt',
+  supersededAt: 'supersededAt',
+  supersededById: 'supersededById',
+  mediaId: 'mediaId'
 } as const
 
 export type FileScalarFieldEnum = (typeof FileScalarFieldEnum)[keyof typeof FileScalarFieldEnum]
 
 
+export const SubtitleScalarFieldEnum = {
+  id: 'id',
+  filePath: 'filePath',
+  linkPath: 'linkPath',
+  language: 'language',
+  languageSource: 'languageSource',
+  createdAt: 'createdAt',
+  fileId: 'fileId'
+} as const
+
+export type SubtitleScalarFieldEnum = (typeof SubtitleScalarFieldEnum)[keyof typeof SubtitleScalarFieldEnum]
+
+
 export const TvInfoScalarFieldEnum = {
   id: 'id',
   tmdbId: 'tmdbId',
@@ -150,16 +186,35 @@ export const EpisodeInfoScalarFieldEnum = {
   tmdbId: 'tmdbId',
   seasonNumber: 'seasonNumber',
   episodeNumber: 'episodeNumber',
+  absoluteNumber: 'absoluteNumber',
   title: 'title',
   releaseDate: 'releaseDate',
   description: 'description',
   posterUrl: 'posterUrl',
-  tvInfoId: 'tvInfoId'
+  tvInfoId: 'tvInfoId',
+  fileId: 'fileId'
 } as const
 
 export type EpisodeInfoScalarFieldEnum = (typeof EpisodeInfoScalarFieldEnum)[keyof typeof EpisodeInfoScalarFieldEnum]
 
 
+export const QualityUpgradeScalarFieldEnum = {
+  id: 'id',
+  mediaId: 'mediaId',
+  fromPath: 'fromPath',
+  toPath: 'toPath',
+  linkPath: 'linkPath',
+  fromQuality: 'fromQuality',
+  toQuality: 'toQuality',
+  createdAt: 'createdAt',
+  episodeId: 'episodeId',
+  fromFileId: 'fromFileId',
+  toFileId: 'toFileId'
+} as const
+
+export type QualityUpgradeScalarFieldEnum = (typeof QualityUpgradeScalarFieldEnum)[keyof typeof QualityUpgradeScalarFieldEnum]
+
+
 export const QueueScalarFieldEnum = {
   id: 'id',
   filePath: 'filePath',
@@ -171,6 +226,8 @@ export const QueueScalarFieldEnum = {
   maxRetries: 'maxRetries',
   lastError: 'lastError',
   result: 'result',
+  candidates: 'candidates',
+  reviewSelection: 'reviewSelection',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   startedAt: 'startedAt',
@@ -224,6 +281,79 @@ export const ScanLogScalarFieldEnum = {
 export type ScanLogScalarFieldEnum = (typeof ScanLogScalarFieldEnum)[keyof typeof ScanLogScalarFieldEnum]
 
 
+export const LlmCacheScalarFieldEnum = {
+  id: 'id',
+  cacheKey: 'cacheKey',
+  fileName: 'fileName',
+  promptHash: 'promptHash',
+  model: 'model',
+  result: 'result',
+  hitCount: 'hitCount',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+} as const
+
+export type LlmCacheScalarFieldEnum = (typeof LlmCacheScalarFieldEnum)[keyof typeof LlmCacheScalarFieldEnum]
+
+
+export const TmdbCacheScalarFieldEnum = {
+  id: 'id',
+  cacheKey: 'cacheKey',
+  endpoint: 'endpoint',
+  params: 'params',
+  response: 'response',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TmdbCacheScalarFieldEnum = (typeof TmdbCacheScalarFieldEnum)[keyof typeof TmdbCacheScalarFieldEnum]
+
+
+export const OperationGroupScalarFieldEnum = {
+  id: 'id',
+  source: 'source',
+  label: 'label',
+  taskId: 'taskId',
+  undoneAt: 'undoneAt',
+  undoErrors: 'undoErrors',
+  createdAt: 'createdAt'
+} as const
+
+export type OperationGroupScalarFieldEnum = (typeof OperationGroupScalarFieldEnum)[keyof typeof OperationGroupScalarFieldEnum]
+
+
+export const OperationScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  path: 'path',
+  sourcePath: 'sourcePath',
+  linkMode: 'linkMode',
+  deviceId: 'deviceId',
+  inode: 'inode',
+  isDirectory: 'isDirectory',
+  recordId: 'recordId',
+  snapshot: 'snapshot',
+  createdAt: 'createdAt',
+  groupId: 'groupId'
+} as const
+
+export type OperationScalarFieldEnum = (typeof OperationScalarFieldEnum)[keyof typeof OperationScalarFieldEnum]
+
+
+export const ExecutionPlanScalarFieldEnum = {
+  id: 'id',
+  entries: 'entries',
+  tasks: 'tasks',
+  errors: 'errors',
+  duration: 'duration',
+  appliedAt: 'appliedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ExecutionPlanScalarFieldEnum = (typeof ExecutionPlanScalarFieldEnum)[keyof typeof ExecutionPlanScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
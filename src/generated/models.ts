@@ -10,12 +10,19 @@
  */
 export type * from './models/Media.js'
 export type * from './models/File.js'
+export type * from './models/Subtitle.js'
 export type * from './models/TvInfo.js'
 export type * from './models/MovieInfo.js'
 export type * from './models/CollectionInfo.js'
 export type * from './models/EpisodeInfo.js'
+export type * from './models/QualityUpgrade.js'
 export type * from './models/Queue.js'
 export type * from './models/User.js'
 export type * from './models/Library.js'
 export type * from './models/ScanLog.js'
+export type * from './models/LlmCache.js'
+export type * from './models/TmdbCache.js'
+export type * from './models/OperationGroup.js'
+export type * from './models/Operation.js'
+export type * from './models/ExecutionPlan.js'
 export type * from './commonInputTypes.js'
\ No newline at end of file
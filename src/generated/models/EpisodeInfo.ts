@@ -31,7 +31,9 @@ export type EpisodeInfoAvgAggregateOutputType = {
   tmdbId: number | null
   seasonNumber: number | null
   episodeNumber: number | null
+  absoluteNumber: number | null
   tvInfoId: number | null
+  fileId: number | null
 }
 
 export type EpisodeInfoSumAggregateOutputType = {
@@ -39,7 +41,9 @@ export type EpisodeInfoSumAggregateOutputType = {
   tmdbId: number | null
   seasonNumber: number | null
   episodeNumber: number | null
+  absoluteNumber: number | null
   tvInfoId: number | null
+  fileId: number | null
 }
 
 export type EpisodeInfoMinAggregateOutputType = {
@@ -47,11 +51,13 @@ export type EpisodeInfoMinAggregateOutputType = {
   tmdbId: number | null
   seasonNumber: number | null
   episodeNumber: number | null
+  absoluteNumber: number | null
   title: string | null
   releaseDate: Date | null
   description: string | null
   posterUrl: string | null
   tvInfoId: number | null
+  fileId: number | null
 }
 
 export type EpisodeInfoMaxAggregateOutputType = {
@@ -59,11 +65,13 @@ export type EpisodeInfoMaxAggregateOutputType = {
   tmdbId: number | null
   seasonNumber: number | null
   episodeNumber: number | null
+  absoluteNumber: number | null
   title: string | null
   releaseDate: Date | null
   description: string | null
   posterUrl: string | null
   tvInfoId: number | null
+  fileId: number | null
 }
 
 export type EpisodeInfoCountAggregateOutputType = {
@@ -71,11 +79,13 @@ export type EpisodeInfoCountAggregateOutputType = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber: number
   title: number
   releaseDate: number
   description: number
   posterUrl: number
   tvInfoId: number
+  fileId: number
   _all: number
 }
 
@@ -85,7 +95,9 @@ export type EpisodeInfoAvgAggregateInputType = {
   tmdbId?: true
   seasonNumber?: true
   episodeNumber?: true
+  absoluteNumber?: true
   tvInfoId?: true
+  fileId?: true
 }
 
 export type EpisodeInfoSumAggregateInputType = {
@@ -93,7 +105,9 @@ export type EpisodeInfoSumAggregateInputType = {
   tmdbId?: true
   seasonNumber?: true
   episodeNumber?: true
+  absoluteNumber?: true
   tvInfoId?: true
+  fileId?: true
 }
 
 export type EpisodeInfoMinAggregateInputType = {
@@ -101,11 +115,13 @@ export type EpisodeInfoMinAggregateInputType = {
   tmdbId?: true
   seasonNumber?: true
   episodeNumber?: true
+  absoluteNumber?: true
   title?: true
   releaseDate?: true
   description?: true
   posterUrl?: true
   tvInfoId?: true
+  fileId?: true
 }
 
 export type EpisodeInfoMaxAggregateInputType = {
@@ -113,11 +129,13 @@ export type EpisodeInfoMaxAggregateInputType = {
   tmdbId?: true
   seasonNumber?: true
   episodeNumber?: true
+  absoluteNumber?: true
   title?: true
   releaseDate?: true
   description?: true
   posterUrl?: true
   tvInfoId?: true
+  fileId?: true
 }
 
 export type EpisodeInfoCountAggregateInputType = {
@@ -125,11 +143,13 @@ export type EpisodeInfoCountAggregateInputType = {
   tmdbId?: true
   seasonNumber?: true
   episodeNumber?: true
+  absoluteNumber?: true
   title?: true
   releaseDate?: true
   description?: true
   posterUrl?: true
   tvInfoId?: true
+  fileId?: true
   _all?: true
 }
 
@@ -224,11 +244,13 @@ export type EpisodeInfoGroupByOutputType = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber: number | null
   title: string | null
   releaseDate: Date | null
   description: string | null
   posterUrl: string | null
   tvInfoId: number | null
+  fileId: number | null
   _count: EpisodeInfoCountAggregateOutputType | null
   _avg: EpisodeInfoAvgAggregateOutputType | null
   _sum: EpisodeInfoSumAggregateOutputType | null
@@ -259,13 +281,16 @@ export type EpisodeInfoWhereInput = {
   tmdbId?: Prisma.IntFilter<"EpisodeInfo"> | number
   seasonNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
   episodeNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
+  absoluteNumber?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
   title?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
   releaseDate?: Prisma.DateTimeNullableFilter<"EpisodeInfo"> | Date | string | null
   description?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
   posterUrl?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
   tvInfoId?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
+  fileId?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
   TvInfo?: Prisma.XOR<Prisma.TvInfoNullableScalarRelationFilter, Prisma.TvInfoWhereInput> | null
   file?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+  upgrades?: Prisma.QualityUpgradeListRelationFilter
 }
 
 export type EpisodeInfoOrderByWithRelationInput = {
@@ -273,13 +298,16 @@ export type EpisodeInfoOrderByWithRelationInput = {
   tmdbId?: Prisma.SortOrder
   seasonNumber?: Prisma.SortOrder
   episodeNumber?: Prisma.SortOrder
+  absoluteNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   title?: Prisma.SortOrderInput | Prisma.SortOrder
   releaseDate?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   posterUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   tvInfoId?: Prisma.SortOrderInput | Prisma.SortOrder
+  fileId?: Prisma.SortOrderInput | Prisma.SortOrder
   TvInfo?: Prisma.TvInfoOrderByWithRelationInput
   file?: Prisma.FileOrderByWithRelationInput
+  upgrades?: Prisma.QualityUpgradeOrderByRelationAggregateInput
 }
 
 export type EpisodeInfoWhereUniqueInput = Prisma.AtLeast<{
@@ -290,13 +318,16 @@ export type EpisodeInfoWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.EpisodeInfoWhereInput | Prisma.EpisodeInfoWhereInput[]
   seasonNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
   episodeNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
+  absoluteNumber?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
   title?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
   releaseDate?: Prisma.DateTimeNullableFilter<"EpisodeInfo"> | Date | string | null
   description?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
   posterUrl?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
   tvInfoId?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
+  fileId?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
   TvInfo?: Prisma.XOR<Prisma.TvInfoNullableScalarRelationFilter, Prisma.TvInfoWhereInput> | null
   file?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+  upgrades?: Prisma.QualityUpgradeListRelationFilter
 }, "id" | "tmdbId">
 
 export type EpisodeInfoOrderByWithAggregationInput = {
@@ -304,11 +335,13 @@ export type EpisodeInfoOrderByWithAggregationInput = {
   tmdbId?: Prisma.SortOrder
   seasonNumber?: Prisma.SortOrder
   episodeNumber?: Prisma.SortOrder
+  absoluteNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   title?: Prisma.SortOrderInput | Prisma.SortOrder
   releaseDate?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   posterUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   tvInfoId?: Prisma.SortOrderInput | Prisma.SortOrder
+  fileId?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.EpisodeInfoCountOrderByAggregateInput
   _avg?: Prisma.EpisodeInfoAvgOrderByAggregateInput
   _max?: Prisma.EpisodeInfoMaxOrderByAggregateInput
@@ -324,23 +357,27 @@ export type EpisodeInfoScalarWhereWithAggregatesInput = {
   tmdbId?: Prisma.IntWithAggregatesFilter<"EpisodeInfo"> | number
   seasonNumber?: Prisma.IntWithAggregatesFilter<"EpisodeInfo"> | number
   episodeNumber?: Prisma.IntWithAggregatesFilter<"EpisodeInfo"> | number
+  absoluteNumber?: Prisma.IntNullableWithAggregatesFilter<"EpisodeInfo"> | number | null
   title?: Prisma.StringNullableWithAggregatesFilter<"EpisodeInfo"> | string | null
   releaseDate?: Prisma.DateTimeNullableWithAggregatesFilter<"EpisodeInfo"> | Date | string | null
   description?: Prisma.StringNullableWithAggregatesFilter<"EpisodeInfo"> | string | null
   posterUrl?: Prisma.StringNullableWithAggregatesFilter<"EpisodeInfo"> | string | null
   tvInfoId?: Prisma.IntNullableWithAggregatesFilter<"EpisodeInfo"> | number | null
+  fileId?: Prisma.IntNullableWithAggregatesFilter<"EpisodeInfo"> | number | null
 }
 
 export type EpisodeInfoCreateInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
   TvInfo?: Prisma.TvInfoCreateNestedOneWithoutEpisodesInput
-  file?: Prisma.FileCreateNestedOneWithoutEpisodeInfoInput
+  file?: Prisma.FileCreateNestedOneWithoutEpisodesInput
+  upgrades?: Prisma.QualityUpgradeCreateNestedManyWithoutEpisodeInput
 }
 
 export type EpisodeInfoUncheckedCreateInput = {
@@ -348,24 +385,28 @@ export type EpisodeInfoUncheckedCreateInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
   tvInfoId?: number | null
-  file?: Prisma.FileUncheckedCreateNestedOneWithoutEpisodeInfoInput
+  fileId?: number | null
+  upgrades?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutEpisodeInput
 }
 
 export type EpisodeInfoUpdateInput = {
   tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
   seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
   episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   TvInfo?: Prisma.TvInfoUpdateOneWithoutEpisodesNestedInput
-  file?: Prisma.FileUpdateOneWithoutEpisodeInfoNestedInput
+  file?: Prisma.FileUpdateOneWithoutEpisodesNestedInput
+  upgrades?: Prisma.QualityUpgradeUpdateManyWithoutEpisodeNestedInput
 }
 
 export type EpisodeInfoUncheckedUpdateInput = {
@@ -373,12 +414,14 @@ export type EpisodeInfoUncheckedUpdateInput = {
   tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
   seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
   episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   tvInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  file?: Prisma.FileUncheckedUpdateOneWithoutEpisodeInfoNestedInput
+  fileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upgrades?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutEpisodeNestedInput
 }
 
 export type EpisodeInfoCreateManyInput = {
@@ -386,17 +429,20 @@ export type EpisodeInfoCreateManyInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
   tvInfoId?: number | null
+  fileId?: number | null
 }
 
 export type EpisodeInfoUpdateManyMutationInput = {
   tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
   seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
   episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -408,16 +454,13 @@ export type EpisodeInfoUncheckedUpdateManyInput = {
   tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
   seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
   episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   tvInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-}
-
-export type EpisodeInfoNullableScalarRelationFilter = {
-  is?: Prisma.EpisodeInfoWhereInput | null
-  isNot?: Prisma.EpisodeInfoWhereInput | null
+  fileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type EpisodeInfoListRelationFilter = {
@@ -435,11 +478,13 @@ export type EpisodeInfoCountOrderByAggregateInput = {
   tmdbId?: Prisma.SortOrder
   seasonNumber?: Prisma.SortOrder
   episodeNumber?: Prisma.SortOrder
+  absoluteNumber?: Prisma.SortOrder
   title?: Prisma.SortOrder
   releaseDate?: Prisma.SortOrder
   description?: Prisma.SortOrder
   posterUrl?: Prisma.SortOrder
   tvInfoId?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
 }
 
 export type EpisodeInfoAvgOrderByAggregateInput = {
@@ -447,7 +492,9 @@ export type EpisodeInfoAvgOrderByAggregateInput = {
   tmdbId?: Prisma.SortOrder
   seasonNumber?: Prisma.SortOrder
   episodeNumber?: Prisma.SortOrder
+  absoluteNumber?: Prisma.SortOrder
   tvInfoId?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
 }
 
 export type EpisodeInfoMaxOrderByAggregateInput = {
@@ -455,11 +502,13 @@ export type EpisodeInfoMaxOrderByAggregateInput = {
   tmdbId?: Prisma.SortOrder
   seasonNumber?: Prisma.SortOrder
   episodeNumber?: Prisma.SortOrder
+  absoluteNumber?: Prisma.SortOrder
   title?: Prisma.SortOrder
   releaseDate?: Prisma.SortOrder
   description?: Prisma.SortOrder
   posterUrl?: Prisma.SortOrder
   tvInfoId?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
 }
 
 export type EpisodeInfoMinOrderByAggregateInput = {
@@ -467,11 +516,13 @@ export type EpisodeInfoMinOrderByAggregateInput = {
   tmdbId?: Prisma.SortOrder
   seasonNumber?: Prisma.SortOrder
   episodeNumber?: Prisma.SortOrder
+  absoluteNumber?: Prisma.SortOrder
   title?: Prisma.SortOrder
   releaseDate?: Prisma.SortOrder
   description?: Prisma.SortOrder
   posterUrl?: Prisma.SortOrder
   tvInfoId?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
 }
 
 export type EpisodeInfoSumOrderByAggregateInput = {
@@ -479,23 +530,56 @@ export type EpisodeInfoSumOrderByAggregateInput = {
   tmdbId?: Prisma.SortOrder
   seasonNumber?: Prisma.SortOrder
   episodeNumber?: Prisma.SortOrder
+  absoluteNumber?: Prisma.SortOrder
   tvInfoId?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
 }
 
-export type EpisodeInfoCreateNestedOneWithoutFileInput = {
-  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput>
-  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutFileInput
-  connect?: Prisma.EpisodeInfoWhereUniqueInput
+export type EpisodeInfoNullableScalarRelationFilter = {
+  is?: Prisma.EpisodeInfoWhereInput | null
+  isNot?: Prisma.EpisodeInfoWhereInput | null
 }
 
-export type EpisodeInfoUpdateOneWithoutFileNestedInput = {
-  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput>
-  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutFileInput
-  upsert?: Prisma.EpisodeInfoUpsertWithoutFileInput
-  disconnect?: Prisma.EpisodeInfoWhereInput | boolean
-  delete?: Prisma.EpisodeInfoWhereInput | boolean
-  connect?: Prisma.EpisodeInfoWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.EpisodeInfoUpdateToOneWithWhereWithoutFileInput, Prisma.EpisodeInfoUpdateWithoutFileInput>, Prisma.EpisodeInfoUncheckedUpdateWithoutFileInput>
+export type EpisodeInfoCreateNestedManyWithoutFileInput = {
+  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput> | Prisma.EpisodeInfoCreateWithoutFileInput[] | Prisma.EpisodeInfoUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutFileInput | Prisma.EpisodeInfoCreateOrConnectWithoutFileInput[]
+  createMany?: Prisma.EpisodeInfoCreateManyFileInputEnvelope
+  connect?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+}
+
+export type EpisodeInfoUncheckedCreateNestedManyWithoutFileInput = {
+  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput> | Prisma.EpisodeInfoCreateWithoutFileInput[] | Prisma.EpisodeInfoUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutFileInput | Prisma.EpisodeInfoCreateOrConnectWithoutFileInput[]
+  createMany?: Prisma.EpisodeInfoCreateManyFileInputEnvelope
+  connect?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+}
+
+export type EpisodeInfoUpdateManyWithoutFileNestedInput = {
+  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput> | Prisma.EpisodeInfoCreateWithoutFileInput[] | Prisma.EpisodeInfoUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutFileInput | Prisma.EpisodeInfoCreateOrConnectWithoutFileInput[]
+  upsert?: Prisma.EpisodeInfoUpsertWithWhereUniqueWithoutFileInput | Prisma.EpisodeInfoUpsertWithWhereUniqueWithoutFileInput[]
+  createMany?: Prisma.EpisodeInfoCreateManyFileInputEnvelope
+  set?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  disconnect?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  delete?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  connect?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  update?: Prisma.EpisodeInfoUpdateWithWhereUniqueWithoutFileInput | Prisma.EpisodeInfoUpdateWithWhereUniqueWithoutFileInput[]
+  updateMany?: Prisma.EpisodeInfoUpdateManyWithWhereWithoutFileInput | Prisma.EpisodeInfoUpdateManyWithWhereWithoutFileInput[]
+  deleteMany?: Prisma.EpisodeInfoScalarWhereInput | Prisma.EpisodeInfoScalarWhereInput[]
+}
+
+export type EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput = {
+  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput> | Prisma.EpisodeInfoCreateWithoutFileInput[] | Prisma.EpisodeInfoUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutFileInput | Prisma.EpisodeInfoCreateOrConnectWithoutFileInput[]
+  upsert?: Prisma.EpisodeInfoUpsertWithWhereUniqueWithoutFileInput | Prisma.EpisodeInfoUpsertWithWhereUniqueWithoutFileInput[]
+  createMany?: Prisma.EpisodeInfoCreateManyFileInputEnvelope
+  set?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  disconnect?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  delete?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  connect?: Prisma.EpisodeInfoWhereUniqueInput | Prisma.EpisodeInfoWhereUniqueInput[]
+  update?: Prisma.EpisodeInfoUpdateWithWhereUniqueWithoutFileInput | Prisma.EpisodeInfoUpdateWithWhereUniqueWithoutFileInput[]
+  updateMany?: Prisma.EpisodeInfoUpdateManyWithWhereWithoutFileInput | Prisma.EpisodeInfoUpdateManyWithWhereWithoutFileInput[]
+  deleteMany?: Prisma.EpisodeInfoScalarWhereInput | Prisma.EpisodeInfoScalarWhereInput[]
 }
 
 export type EpisodeInfoCreateNestedManyWithoutTvInfoInput = {
@@ -540,15 +624,33 @@ export type EpisodeInfoUncheckedUpdateManyWithoutTvInfoNestedInput = {
   deleteMany?: Prisma.EpisodeInfoScalarWhereInput | Prisma.EpisodeInfoScalarWhereInput[]
 }
 
+export type EpisodeInfoCreateNestedOneWithoutUpgradesInput = {
+  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutUpgradesInput, Prisma.EpisodeInfoUncheckedCreateWithoutUpgradesInput>
+  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutUpgradesInput
+  connect?: Prisma.EpisodeInfoWhereUniqueInput
+}
+
+export type EpisodeInfoUpdateOneWithoutUpgradesNestedInput = {
+  create?: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutUpgradesInput, Prisma.EpisodeInfoUncheckedCreateWithoutUpgradesInput>
+  connectOrCreate?: Prisma.EpisodeInfoCreateOrConnectWithoutUpgradesInput
+  upsert?: Prisma.EpisodeInfoUpsertWithoutUpgradesInput
+  disconnect?: Prisma.EpisodeInfoWhereInput | boolean
+  delete?: Prisma.EpisodeInfoWhereInput | boolean
+  connect?: Prisma.EpisodeInfoWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.EpisodeInfoUpdateToOneWithWhereWithoutUpgradesInput, Prisma.EpisodeInfoUpdateWithoutUpgradesInput>, Prisma.EpisodeInfoUncheckedUpdateWithoutUpgradesInput>
+}
+
 export type EpisodeInfoCreateWithoutFileInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
   TvInfo?: Prisma.TvInfoCreateNestedOneWithoutEpisodesInput
+  upgrades?: Prisma.QualityUpgradeCreateNestedManyWithoutEpisodeInput
 }
 
 export type EpisodeInfoUncheckedCreateWithoutFileInput = {
@@ -556,11 +658,13 @@ export type EpisodeInfoUncheckedCreateWithoutFileInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
   tvInfoId?: number | null
+  upgrades?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutEpisodeInput
 }
 
 export type EpisodeInfoCreateOrConnectWithoutFileInput = {
@@ -568,49 +672,54 @@ export type EpisodeInfoCreateOrConnectWithoutFileInput = {
   create: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput>
 }
 
-export type EpisodeInfoUpsertWithoutFileInput = {
+export type EpisodeInfoCreateManyFileInputEnvelope = {
+  data: Prisma.EpisodeInfoCreateManyFileInput | Prisma.EpisodeInfoCreateManyFileInput[]
+}
+
+export type EpisodeInfoUpsertWithWhereUniqueWithoutFileInput = {
+  where: Prisma.EpisodeInfoWhereUniqueInput
   update: Prisma.XOR<Prisma.EpisodeInfoUpdateWithoutFileInput, Prisma.EpisodeInfoUncheckedUpdateWithoutFileInput>
   create: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutFileInput, Prisma.EpisodeInfoUncheckedCreateWithoutFileInput>
-  where?: Prisma.EpisodeInfoWhereInput
 }
 
-export type EpisodeInfoUpdateToOneWithWhereWithoutFileInput = {
-  where?: Prisma.EpisodeInfoWhereInput
+export type EpisodeInfoUpdateWithWhereUniqueWithoutFileInput = {
+  where: Prisma.EpisodeInfoWhereUniqueInput
   data: Prisma.XOR<Prisma.EpisodeInfoUpdateWithoutFileInput, Prisma.EpisodeInfoUncheckedUpdateWithoutFileInput>
 }
 
-export type EpisodeInfoUpdateWithoutFileInput = {
-  tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
-  seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
-  episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
-  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  TvInfo?: Prisma.TvInfoUpdateOneWithoutEpisodesNestedInput
+export type EpisodeInfoUpdateManyWithWhereWithoutFileInput = {
+  where: Prisma.EpisodeInfoScalarWhereInput
+  data: Prisma.XOR<Prisma.EpisodeInfoUpdateManyMutationInput, Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileInput>
 }
 
-export type EpisodeInfoUncheckedUpdateWithoutFileInput = {
-  id?: Prisma.IntFieldUpdateOperationsInput | number
-  tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
-  seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
-  episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
-  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  tvInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+export type EpisodeInfoScalarWhereInput = {
+  AND?: Prisma.EpisodeInfoScalarWhereInput | Prisma.EpisodeInfoScalarWhereInput[]
+  OR?: Prisma.EpisodeInfoScalarWhereInput[]
+  NOT?: Prisma.EpisodeInfoScalarWhereInput | Prisma.EpisodeInfoScalarWhereInput[]
+  id?: Prisma.IntFilter<"EpisodeInfo"> | number
+  tmdbId?: Prisma.IntFilter<"EpisodeInfo"> | number
+  seasonNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
+  episodeNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
+  absoluteNumber?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
+  title?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
+  releaseDate?: Prisma.DateTimeNullableFilter<"EpisodeInfo"> | Date | string | null
+  description?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
+  posterUrl?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
+  tvInfoId?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
+  fileId?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
 }
 
 export type EpisodeInfoCreateWithoutTvInfoInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
-  file?: Prisma.FileCreateNestedOneWithoutEpisodeInfoInput
+  file?: Prisma.FileCreateNestedOneWithoutEpisodesInput
+  upgrades?: Prisma.QualityUpgradeCreateNestedManyWithoutEpisodeInput
 }
 
 export type EpisodeInfoUncheckedCreateWithoutTvInfoInput = {
@@ -618,11 +727,13 @@ export type EpisodeInfoUncheckedCreateWithoutTvInfoInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
-  file?: Prisma.FileUncheckedCreateNestedOneWithoutEpisodeInfoInput
+  fileId?: number | null
+  upgrades?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutEpisodeInput
 }
 
 export type EpisodeInfoCreateOrConnectWithoutTvInfoInput = {
@@ -650,19 +761,127 @@ export type EpisodeInfoUpdateManyWithWhereWithoutTvInfoInput = {
   data: Prisma.XOR<Prisma.EpisodeInfoUpdateManyMutationInput, Prisma.EpisodeInfoUncheckedUpdateManyWithoutTvInfoInput>
 }
 
-export type EpisodeInfoScalarWhereInput = {
-  AND?: Prisma.EpisodeInfoScalarWhereInput | Prisma.EpisodeInfoScalarWhereInput[]
-  OR?: Prisma.EpisodeInfoScalarWhereInput[]
-  NOT?: Prisma.EpisodeInfoScalarWhereInput | Prisma.EpisodeInfoScalarWhereInput[]
-  id?: Prisma.IntFilter<"EpisodeInfo"> | number
-  tmdbId?: Prisma.IntFilter<"EpisodeInfo"> | number
-  seasonNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
-  episodeNumber?: Prisma.IntFilter<"EpisodeInfo"> | number
-  title?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
-  releaseDate?: Prisma.DateTimeNullableFilter<"EpisodeInfo"> | Date | string | null
-  description?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
-  posterUrl?: Prisma.StringNullableFilter<"EpisodeInfo"> | string | null
-  tvInfoId?: Prisma.IntNullableFilter<"EpisodeInfo"> | number | null
+export type EpisodeInfoCreateWithoutUpgradesInput = {
+  tmdbId: number
+  seasonNumber: number
+  episodeNumber: number
+  absoluteNumber?: number | null
+  title?: string | null
+  releaseDate?: Date | string | null
+  description?: string | null
+  posterUrl?: string | null
+  TvInfo?: Prisma.TvInfoCreateNestedOneWithoutEpisodesInput
+  file?: Prisma.FileCreateNestedOneWithoutEpisodesInput
+}
+
+export type EpisodeInfoUncheckedCreateWithoutUpgradesInput = {
+  id?: number
+  tmdbId: number
+  seasonNumber: number
+  episodeNumber: number
+  absoluteNumber?: number | null
+  title?: string | null
+  releaseDate?: Date | string | null
+  description?: string | null
+  posterUrl?: string | null
+  tvInfoId?: number | null
+  fileId?: number | null
+}
+
+export type EpisodeInfoCreateOrConnectWithoutUpgradesInput = {
+  where: Prisma.EpisodeInfoWhereUniqueInput
+  create: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutUpgradesInput, Prisma.EpisodeInfoUncheckedCreateWithoutUpgradesInput>
+}
+
+export type EpisodeInfoUpsertWithoutUpgradesInput = {
+  update: Prisma.XOR<Prisma.EpisodeInfoUpdateWithoutUpgradesInput, Prisma.EpisodeInfoUncheckedUpdateWithoutUpgradesInput>
+  create: Prisma.XOR<Prisma.EpisodeInfoCreateWithoutUpgradesInput, Prisma.EpisodeInfoUncheckedCreateWithoutUpgradesInput>
+  where?: Prisma.EpisodeInfoWhereInput
+}
+
+export type EpisodeInfoUpdateToOneWithWhereWithoutUpgradesInput = {
+  where?: Prisma.EpisodeInfoWhereInput
+  data: Prisma.XOR<Prisma.EpisodeInfoUpdateWithoutUpgradesInput, Prisma.EpisodeInfoUncheckedUpdateWithoutUpgradesInput>
+}
+
+export type EpisodeInfoUpdateWithoutUpgradesInput = {
+  tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
+  seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  TvInfo?: Prisma.TvInfoUpdateOneWithoutEpisodesNestedInput
+  file?: Prisma.FileUpdateOneWithoutEpisodesNestedInput
+}
+
+export type EpisodeInfoUncheckedUpdateWithoutUpgradesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
+  seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tvInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type EpisodeInfoCreateManyFileInput = {
+  id?: number
+  tmdbId: number
+  seasonNumber: number
+  episodeNumber: number
+  absoluteNumber?: number | null
+  title?: string | null
+  releaseDate?: Date | string | null
+  description?: string | null
+  posterUrl?: string | null
+  tvInfoId?: number | null
+}
+
+export type EpisodeInfoUpdateWithoutFileInput = {
+  tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
+  seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  TvInfo?: Prisma.TvInfoUpdateOneWithoutEpisodesNestedInput
+  upgrades?: Prisma.QualityUpgradeUpdateManyWithoutEpisodeNestedInput
+}
+
+export type EpisodeInfoUncheckedUpdateWithoutFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
+  seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tvInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upgrades?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutEpisodeNestedInput
+}
+
+export type EpisodeInfoUncheckedUpdateManyWithoutFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
+  seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tvInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type EpisodeInfoCreateManyTvInfoInput = {
@@ -670,21 +889,25 @@ export type EpisodeInfoCreateManyTvInfoInput = {
   tmdbId: number
   seasonNumber: number
   episodeNumber: number
+  absoluteNumber?: number | null
   title?: string | null
   releaseDate?: Date | string | null
   description?: string | null
   posterUrl?: string | null
+  fileId?: number | null
 }
 
 export type EpisodeInfoUpdateWithoutTvInfoInput = {
   tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
   seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
   episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  file?: Prisma.FileUpdateOneWithoutEpisodeInfoNestedInput
+  file?: Prisma.FileUpdateOneWithoutEpisodesNestedInput
+  upgrades?: Prisma.QualityUpgradeUpdateManyWithoutEpisodeNestedInput
 }
 
 export type EpisodeInfoUncheckedUpdateWithoutTvInfoInput = {
@@ -692,11 +915,13 @@ export type EpisodeInfoUncheckedUpdateWithoutTvInfoInput = {
   tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
   seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
   episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  file?: Prisma.FileUncheckedUpdateOneWithoutEpisodeInfoNestedInput
+  fileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  upgrades?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutEpisodeNestedInput
 }
 
 export type EpisodeInfoUncheckedUpdateManyWithoutTvInfoInput = {
@@ -704,12 +929,43 @@ export type EpisodeInfoUncheckedUpdateManyWithoutTvInfoInput = {
   tmdbId?: Prisma.IntFieldUpdateOperationsInput | number
   seasonNumber?: Prisma.IntFieldUpdateOperationsInput | number
   episodeNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  absoluteNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   releaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   posterUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+
+/**
+ * Count Type EpisodeInfoCountOutputType
+ */
+
+export type EpisodeInfoCountOutputType = {
+  upgrades: number
+}
+
+export type EpisodeInfoCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  upgrades?: boolean | EpisodeInfoCountOutputTypeCountUpgradesArgs
+}
+
+/**
+ * EpisodeInfoCountOutputType without action
+ */
+export type EpisodeInfoCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EpisodeInfoCountOutputType
+   */
+  select?: Prisma.EpisodeInfoCountOutputTypeSelect<ExtArgs> | null
 }
 
+/**
+ * EpisodeInfoCountOutputType without action
+ */
+export type EpisodeInfoCountOutputTypeCountUpgradesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QualityUpgradeWhereInput
+}
 
 
 export type EpisodeInfoSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -717,13 +973,17 @@ export type EpisodeInfoSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   tmdbId?: boolean
   seasonNumber?: boolean
   episodeNumber?: boolean
+  absoluteNumber?: boolean
   title?: boolean
   releaseDate?: boolean
   description?: boolean
   posterUrl?: boolean
   tvInfoId?: boolean
+  fileId?: boolean
   TvInfo?: boolean | Prisma.EpisodeInfo$TvInfoArgs<ExtArgs>
   file?: boolean | Prisma.EpisodeInfo$fileArgs<ExtArgs>
+  upgrades?: boolean | Prisma.EpisodeInfo$upgradesArgs<ExtArgs>
+  _count?: boolean | Prisma.EpisodeInfoCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["episodeInfo"]>
 
 export type EpisodeInfoSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -731,12 +991,15 @@ export type EpisodeInfoSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   tmdbId?: boolean
   seasonNumber?: boolean
   episodeNumber?: boolean
+  absoluteNumber?: boolean
   title?: boolean
   releaseDate?: boolean
   description?: boolean
   posterUrl?: boolean
   tvInfoId?: boolean
+  fileId?: boolean
   TvInfo?: boolean | Prisma.EpisodeInfo$TvInfoArgs<ExtArgs>
+  file?: boolean | Prisma.EpisodeInfo$fileArgs<ExtArgs>
 }, ExtArgs["result"]["episodeInfo"]>
 
 export type EpisodeInfoSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -744,12 +1007,15 @@ export type EpisodeInfoSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   tmdbId?: boolean
   seasonNumber?: boolean
   episodeNumber?: boolean
+  absoluteNumber?: boolean
   title?: boolean
   releaseDate?: boolean
   description?: boolean
   posterUrl?: boolean
   tvInfoId?: boolean
+  fileId?: boolean
   TvInfo?: boolean | Prisma.EpisodeInfo$TvInfoArgs<ExtArgs>
+  file?: boolean | Prisma.EpisodeInfo$fileArgs<ExtArgs>
 }, ExtArgs["result"]["episodeInfo"]>
 
 export type EpisodeInfoSelectScalar = {
@@ -757,23 +1023,29 @@ export type EpisodeInfoSelectScalar = {
   tmdbId?: boolean
   seasonNumber?: boolean
   episodeNumber?: boolean
+  absoluteNumber?: boolean
   title?: boolean
   releaseDate?: boolean
   description?: boolean
   posterUrl?: boolean
   tvInfoId?: boolean
+  fileId?: boolean
 }
 
-export type EpisodeInfoOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tmdbId" | "seasonNumber" | "episodeNumber" | "title" | "releaseDate" | "description" | "posterUrl" | "tvInfoId", ExtArgs["result"]["episodeInfo"]>
+export type EpisodeInfoOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tmdbId" | "seasonNumber" | "episodeNumber" | "absoluteNumber" | "title" | "releaseDate" | "description" | "posterUrl" | "tvInfoId" | "fileId", ExtArgs["result"]["episodeInfo"]>
 export type EpisodeInfoInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   TvInfo?: boolean | Prisma.EpisodeInfo$TvInfoArgs<ExtArgs>
   file?: boolean | Prisma.EpisodeInfo$fileArgs<ExtArgs>
+  upgrades?: boolean | Prisma.EpisodeInfo$upgradesArgs<ExtArgs>
+  _count?: boolean | Prisma.EpisodeInfoCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type EpisodeInfoIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   TvInfo?: boolean | Prisma.EpisodeInfo$TvInfoArgs<ExtArgs>
+  file?: boolean | Prisma.EpisodeInfo$fileArgs<ExtArgs>
 }
 export type EpisodeInfoIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   TvInfo?: boolean | Prisma.EpisodeInfo$TvInfoArgs<ExtArgs>
+  file?: boolean | Prisma.EpisodeInfo$fileArgs<ExtArgs>
 }
 
 export type $EpisodeInfoPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -784,9 +1056,13 @@ export type $EpisodeInfoPayload<ExtArgs extends runtime.Types.Extensions.Interna
      */
     TvInfo: Prisma.$TvInfoPayload<ExtArgs> | null
     /**
-     * 关联的文件信息（一对一关系）
+     * 关联的文件信息（每集最多关联一个文件）
      */
     file: Prisma.$FilePayload<ExtArgs> | null
+    /**
+     * 该集的质量升级历史
+     */
+    upgrades: Prisma.$QualityUpgradePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     /**
@@ -805,6 +1081,10 @@ export type $EpisodeInfoPayload<ExtArgs extends runtime.Types.Extensions.Interna
      * 集数编号
      */
     episodeNumber: number
+    /**
+     * 绝对集数（由绝对集数映射得到季号和集号时记录）
+     */
+    absoluteNumber: number | null
     /**
      * 单集标题
      */
@@ -825,6 +1105,10 @@ export type $EpisodeInfoPayload<ExtArgs extends runtime.Types.Extensions.Interna
      * 关联电视剧的ID
      */
     tvInfoId: number | null
+    /**
+     * 关联文件的ID
+     */
+    fileId: number | null
   }, ExtArgs["result"]["episodeInfo"]>
   composites: {}
 }
@@ -1221,6 +1505,7 @@ export interface Prisma__EpisodeInfoClient<T, Null = never, ExtArgs extends runt
   readonly [Symbol.toStringTag]: "PrismaPromise"
   TvInfo<T extends Prisma.EpisodeInfo$TvInfoArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EpisodeInfo$TvInfoArgs<ExtArgs>>): Prisma.Prisma__TvInfoClient<runtime.Types.Result.GetResult<Prisma.$TvInfoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   file<T extends Prisma.EpisodeInfo$fileArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EpisodeInfo$fileArgs<ExtArgs>>): Prisma.Prisma__FileClient<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  upgrades<T extends Prisma.EpisodeInfo$upgradesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EpisodeInfo$upgradesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1254,11 +1539,13 @@ export interface EpisodeInfoFieldRefs {
   readonly tmdbId: Prisma.FieldRef<"EpisodeInfo", 'Int'>
   readonly seasonNumber: Prisma.FieldRef<"EpisodeInfo", 'Int'>
   readonly episodeNumber: Prisma.FieldRef<"EpisodeInfo", 'Int'>
+  readonly absoluteNumber: Prisma.FieldRef<"EpisodeInfo", 'Int'>
   readonly title: Prisma.FieldRef<"EpisodeInfo", 'String'>
   readonly releaseDate: Prisma.FieldRef<"EpisodeInfo", 'DateTime'>
   readonly description: Prisma.FieldRef<"EpisodeInfo", 'String'>
   readonly posterUrl: Prisma.FieldRef<"EpisodeInfo", 'String'>
   readonly tvInfoId: Prisma.FieldRef<"EpisodeInfo", 'Int'>
+  readonly fileId: Prisma.FieldRef<"EpisodeInfo", 'Int'>
 }
     
 
@@ -1690,6 +1977,30 @@ export type EpisodeInfo$fileArgs<ExtArgs extends runtime.Types.Extensions.Intern
   where?: Prisma.FileWhereInput
 }
 
+/**
+ * EpisodeInfo.upgrades
+ */
+export type EpisodeInfo$upgradesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  where?: Prisma.QualityUpgradeWhereInput
+  orderBy?: Prisma.QualityUpgradeOrderByWithRelationInput | Prisma.QualityUpgradeOrderByWithRelationInput[]
+  cursor?: Prisma.QualityUpgradeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.QualityUpgradeScalarFieldEnum | Prisma.QualityUpgradeScalarFieldEnum[]
+}
+
 /**
  * EpisodeInfo without action
  */
@@ -33,8 +33,11 @@ export type FileAvgAggregateOutputType = {
   fileSize: number | null
   discNumber: number | null
   parentFolderId: number | null
+  duration: number | null
+  width: number | null
+  height: number | null
+  supersededById: number | null
   mediaId: number | null
-  episodeInfoId: number | null
 }
 
 export type FileSumAggregateOutputType = {
@@ -44,8 +47,11 @@ export type FileSumAggregateOutputType = {
   fileSize: bigint | null
   discNumber: number | null
   parentFolderId: number | null
+  duration: number | null
+  width: number | null
+  height: number | null
+  supersededById: number | null
   mediaId: number | null
-  episodeInfoId: number | null
 }
 
 export type FileMinAggregateOutputType = {
@@ -64,8 +70,24 @@ export type FileMinAggregateOutputType = {
   discNumber: number | null
   isParentFolder: boolean | null
   parentFolderId: number | null
+  routingRule: string | null
+  linkMode: string | null
+  extraType: string | null
+  resolution: string | null
+  source: string | null
+  videoCodec: string | null
+  hdrFormat: string | null
+  audioCodec: string | null
+  releaseGroup: string | null
+  container: string | null
+  duration: number | null
+  width: number | null
+  height: number | null
+  mediaInfo: string | null
+  probedAt: Date | null
+  supersededAt: Date | null
+  supersededById: number | null
   mediaId: number | null
-  episodeInfoId: number | null
 }
 
 export type FileMaxAggregateOutputType = {
@@ -84,8 +106,24 @@ export type FileMaxAggregateOutputType = {
   discNumber: number | null
   isParentFolder: boolean | null
   parentFolderId: number | null
+  routingRule: string | null
+  linkMode: string | null
+  extraType: string | null
+  resolution: string | null
+  source: string | null
+  videoCodec: string | null
+  hdrFormat: string | null
+  audioCodec: string | null
+  releaseGroup: string | null
+  container: string | null
+  duration: number | null
+  width: number | null
+  height: number | null
+  mediaInfo: string | null
+  probedAt: Date | null
+  supersededAt: Date | null
+  supersededById: number | null
   mediaId: number | null
-  episodeInfoId: number | null
 }
 
 export type FileCountAggregateOutputType = {
@@ -104,8 +142,24 @@ export type FileCountAggregateOutputType = {
   discNumber: number
   isParentFolder: number
   parentFolderId: number
+  routingRule: number
+  linkMode: number
+  extraType: number
+  resolution: number
+  source: number
+  videoCodec: number
+  hdrFormat: number
+  audioCodec: number
+  releaseGroup: number
+  container: number
+  duration: number
+  width: number
+  height: number
+  mediaInfo: number
+  probedAt: number
+  supersededAt: number
+  supersededById: number
   mediaId: number
-  episodeInfoId: number
   _all: number
 }
 
@@ -117,8 +171,11 @@ export type FileAvgAggregateInputType = {
   fileSize?: true
   discNumber?: true
   parentFolderId?: true
+  duration?: true
+  width?: true
+  height?: true
+  supersededById?: true
   mediaId?: true
-  episodeInfoId?: true
 }
 
 export type FileSumAggregateInputType = {
@@ -128,8 +185,11 @@ export type FileSumAggregateInputType = {
   fileSize?: true
   discNumber?: true
   parentFolderId?: true
+  duration?: true
+  width?: true
+  height?: true
+  supersededById?: true
   mediaId?: true
-  episodeInfoId?: true
 }
 
 export type FileMinAggregateInputType = {
@@ -148,8 +208,24 @@ export type FileMinAggregateInputType = {
   discNumber?: true
   isParentFolder?: true
   parentFolderId?: true
+  routingRule?: true
+  linkMode?: true
+  extraType?: true
+  resolution?: true
+  source?: true
+  videoCodec?: true
+  hdrFormat?: true
+  audioCodec?: true
+  releaseGroup?: true
+  container?: true
+  duration?: true
+  width?: true
+  height?: true
+  mediaInfo?: true
+  probedAt?: true
+  supersededAt?: true
+  supersededById?: true
   mediaId?: true
-  episodeInfoId?: true
 }
 
 export type FileMaxAggregateInputType = {
@@ -168,8 +244,24 @@ export type FileMaxAggregateInputType = {
   discNumber?: true
   isParentFolder?: true
   parentFolderId?: true
+  routingRule?: true
+  linkMode?: true
+  extraType?: true
+  resolution?: true
+  source?: true
+  videoCodec?: true
+  hdrFormat?: true
+  audioCodec?: true
+  releaseGroup?: true
+  container?: true
+  duration?: true
+  width?: true
+  height?: true
+  mediaInfo?: true
+  probedAt?: true
+  supersededAt?: true
+  supersededById?: true
   mediaId?: true
-  episodeInfoId?: true
 }
 
 export type FileCountAggregateInputType = {
@@ -188,8 +280,24 @@ export type FileCountAggregateInputType = {
   discNumber?: true
   isParentFolder?: true
   parentFolderId?: true
+  routingRule?: true
+  linkMode?: true
+  extraType?: true
+  resolution?: true
+  source?: true
+  videoCodec?: true
+  hdrFormat?: true
+  audioCodec?: true
+  releaseGroup?: true
+  container?: true
+  duration?: true
+  width?: true
+  height?: true
+  mediaInfo?: true
+  probedAt?: true
+  supersededAt?: true
+  supersededById?: true
   mediaId?: true
-  episodeInfoId?: true
   _all?: true
 }
 
@@ -295,8 +403,24 @@ export type FileGroupByOutputType = {
   discNumber: number | null
   isParentFolder: boolean
   parentFolderId: number | null
+  routingRule: string | null
+  linkMode: string | null
+  extraType: string | null
+  resolution: string | null
+  source: string | null
+  videoCodec: string | null
+  hdrFormat: string | null
+  audioCodec: string | null
+  releaseGroup: string | null
+  container: string | null
+  duration: number | null
+  width: number | null
+  height: number | null
+  mediaInfo: string | null
+  probedAt: Date | null
+  supersededAt: Date | null
+  supersededById: number | null
   mediaId: number | null
-  episodeInfoId: number | null
   _count: FileCountAggregateOutputType | null
   _avg: FileAvgAggregateOutputType | null
   _sum: FileSumAggregateOutputType | null
@@ -338,12 +462,33 @@ export type FileWhereInput = {
   discNumber?: Prisma.IntNullableFilter<"File"> | number | null
   isParentFolder?: Prisma.BoolFilter<"File"> | boolean
   parentFolderId?: Prisma.IntNullableFilter<"File"> | number | null
+  routingRule?: Prisma.StringNullableFilter<"File"> | string | null
+  linkMode?: Prisma.StringNullableFilter<"File"> | string | null
+  extraType?: Prisma.StringNullableFilter<"File"> | string | null
+  resolution?: Prisma.StringNullableFilter<"File"> | string | null
+  source?: Prisma.StringNullableFilter<"File"> | string | null
+  videoCodec?: Prisma.StringNullableFilter<"File"> | string | null
+  hdrFormat?: Prisma.StringNullableFilter<"File"> | string | null
+  audioCodec?: Prisma.StringNullableFilter<"File"> | string | null
+  releaseGroup?: Prisma.StringNullableFilter<"File"> | string | null
+  container?: Prisma.StringNullableFilter<"File"> | string | null
+  duration?: Prisma.FloatNullableFilter<"File"> | number | null
+  width?: Prisma.IntNullableFilter<"File"> | number | null
+  height?: Prisma.IntNullableFilter<"File"> | number | null
+  mediaInfo?: Prisma.StringNullableFilter<"File"> | string | null
+  probedAt?: Prisma.DateTimeNullableFilter<"File"> | Date | string | null
+  supersededAt?: Prisma.DateTimeNullableFilter<"File"> | Date | string | null
+  supersededById?: Prisma.IntNullableFilter<"File"> | number | null
   mediaId?: Prisma.IntNullableFilter<"File"> | number | null
-  episodeInfoId?: Prisma.IntNullableFilter<"File"> | number | null
   parentFolder?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
   childFolders?: Prisma.FileListRelationFilter
+  supersededBy?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+  supersedes?: Prisma.FileListRelationFilter
+  upgradesFrom?: Prisma.QualityUpgradeListRelationFilter
+  upgradesTo?: Prisma.QualityUpgradeListRelationFilter
   Media?: Prisma.XOR<Prisma.MediaNullableScalarRelationFilter, Prisma.MediaWhereInput> | null
-  episodeInfo?: Prisma.XOR<Prisma.EpisodeInfoNullableScalarRelationFilter, Prisma.EpisodeInfoWhereInput> | null
+  episodes?: Prisma.EpisodeInfoListRelationFilter
+  subtitles?: Prisma.SubtitleListRelationFilter
   libraryFile?: Prisma.XOR<Prisma.LibraryNullableScalarRelationFilter, Prisma.LibraryWhereInput> | null
 }
 
@@ -363,12 +508,33 @@ export type FileOrderByWithRelationInput = {
   discNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   isParentFolder?: Prisma.SortOrder
   parentFolderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  routingRule?: Prisma.SortOrderInput | Prisma.SortOrder
+  linkMode?: Prisma.SortOrderInput | Prisma.SortOrder
+  extraType?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolution?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrderInput | Prisma.SortOrder
+  videoCodec?: Prisma.SortOrderInput | Prisma.SortOrder
+  hdrFormat?: Prisma.SortOrderInput | Prisma.SortOrder
+  audioCodec?: Prisma.SortOrderInput | Prisma.SortOrder
+  releaseGroup?: Prisma.SortOrderInput | Prisma.SortOrder
+  container?: Prisma.SortOrderInput | Prisma.SortOrder
+  duration?: Prisma.SortOrderInput | Prisma.SortOrder
+  width?: Prisma.SortOrderInput | Prisma.SortOrder
+  height?: Prisma.SortOrderInput | Prisma.SortOrder
+  mediaInfo?: Prisma.SortOrderInput | Prisma.SortOrder
+  probedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  supersededAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  supersededById?: Prisma.SortOrderInput | Prisma.SortOrder
   mediaId?: Prisma.SortOrderInput | Prisma.SortOrder
-  episodeInfoId?: Prisma.SortOrderInput | Prisma.SortOrder
   parentFolder?: Prisma.FileOrderByWithRelationInput
   childFolders?: Prisma.FileOrderByRelationAggregateInput
+  supersededBy?: Prisma.FileOrderByWithRelationInput
+  supersedes?: Prisma.FileOrderByRelationAggregateInput
+  upgradesFrom?: Prisma.QualityUpgradeOrderByRelationAggregateInput
+  upgradesTo?: Prisma.QualityUpgradeOrderByRelationAggregateInput
   Media?: Prisma.MediaOrderByWithRelationInput
-  episodeInfo?: Prisma.EpisodeInfoOrderByWithRelationInput
+  episodes?: Prisma.EpisodeInfoOrderByRelationAggregateInput
+  subtitles?: Prisma.SubtitleOrderByRelationAggregateInput
   libraryFile?: Prisma.LibraryOrderByWithRelationInput
 }
 
@@ -376,7 +542,6 @@ export type FileWhereUniqueInput = Prisma.AtLeast<{
   id?: number
   filePath?: string
   linkPath?: string
-  episodeInfoId?: number
   device_inode_unique?: Prisma.FileDevice_inode_uniqueCompoundUniqueInput
   AND?: Prisma.FileWhereInput | Prisma.FileWhereInput[]
   OR?: Prisma.FileWhereInput[]
@@ -393,13 +558,35 @@ export type FileWhereUniqueInput = Prisma.AtLeast<{
   discNumber?: Prisma.IntNullableFilter<"File"> | number | null
   isParentFolder?: Prisma.BoolFilter<"File"> | boolean
   parentFolderId?: Prisma.IntNullableFilter<"File"> | number | null
+  routingRule?: Prisma.StringNullableFilter<"File"> | string | null
+  linkMode?: Prisma.StringNullableFilter<"File"> | string | null
+  extraType?: Prisma.StringNullableFilter<"File"> | string | null
+  resolution?: Prisma.StringNullableFilter<"File"> | string | null
+  source?: Prisma.StringNullableFilter<"File"> | string | null
+  videoCodec?: Prisma.StringNullableFilter<"File"> | string | null
+  hdrFormat?: Prisma.StringNullableFilter<"File"> | string | null
+  audioCodec?: Prisma.StringNullableFilter<"File"> | string | null
+  releaseGroup?: Prisma.StringNullableFilter<"File"> | string | null
+  container?: Prisma.StringNullableFilter<"File"> | string | null
+  duration?: Prisma.FloatNullableFilter<"File"> | number | null
+  width?: Prisma.IntNullableFilter<"File"> | number | null
+  height?: Prisma.IntNullableFilter<"File"> | number | null
+  mediaInfo?: Prisma.StringNullableFilter<"File"> | string | null
+  probedAt?: Prisma.DateTimeNullableFilter<"File"> | Date | string | null
+  supersededAt?: Prisma.DateTimeNullableFilter<"File"> | Date | string | null
+  supersededById?: Prisma.IntNullableFilter<"File"> | number | null
   mediaId?: Prisma.IntNullableFilter<"File"> | number | null
   parentFolder?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
   childFolders?: Prisma.FileListRelationFilter
+  supersededBy?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+  supersedes?: Prisma.FileListRelationFilter
+  upgradesFrom?: Prisma.QualityUpgradeListRelationFilter
+  upgradesTo?: Prisma.QualityUpgradeListRelationFilter
   Media?: Prisma.XOR<Prisma.MediaNullableScalarRelationFilter, Prisma.MediaWhereInput> | null
-  episodeInfo?: Prisma.XOR<Prisma.EpisodeInfoNullableScalarRelationFilter, Prisma.EpisodeInfoWhereInput> | null
+  episodes?: Prisma.EpisodeInfoListRelationFilter
+  subtitles?: Prisma.SubtitleListRelationFilter
   libraryFile?: Prisma.XOR<Prisma.LibraryNullableScalarRelationFilter, Prisma.LibraryWhereInput> | null
-}, "id" | "filePath" | "linkPath" | "episodeInfoId" | "device_inode_unique">
+}, "id" | "filePath" | "linkPath" | "device_inode_unique">
 
 export type FileOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -417,8 +604,24 @@ export type FileOrderByWithAggregationInput = {
   discNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   isParentFolder?: Prisma.SortOrder
   parentFolderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  routingRule?: Prisma.SortOrderInput | Prisma.SortOrder
+  linkMode?: Prisma.SortOrderInput | Prisma.SortOrder
+  extraType?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolution?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrderInput | Prisma.SortOrder
+  videoCodec?: Prisma.SortOrderInput | Prisma.SortOrder
+  hdrFormat?: Prisma.SortOrderInput | Prisma.SortOrder
+  audioCodec?: Prisma.SortOrderInput | Prisma.SortOrder
+  releaseGroup?: Prisma.SortOrderInput | Prisma.SortOrder
+  container?: Prisma.SortOrderInput | Prisma.SortOrder
+  duration?: Prisma.SortOrderInput | Prisma.SortOrder
+  width?: Prisma.SortOrderInput | Prisma.SortOrder
+  height?: Prisma.SortOrderInput | Prisma.SortOrder
+  mediaInfo?: Prisma.SortOrderInput | Prisma.SortOrder
+  probedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  supersededAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  supersededById?: Prisma.SortOrderInput | Prisma.SortOrder
   mediaId?: Prisma.SortOrderInput | Prisma.SortOrder
-  episodeInfoId?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.FileCountOrderByAggregateInput
   _avg?: Prisma.FileAvgOrderByAggregateInput
   _max?: Prisma.FileMaxOrderByAggregateInput
@@ -445,8 +648,24 @@ export type FileScalarWhereWithAggregatesInput = {
   discNumber?: Prisma.IntNullableWithAggregatesFilter<"File"> | number | null
   isParentFolder?: Prisma.BoolWithAggregatesFilter<"File"> | boolean
   parentFolderId?: Prisma.IntNullableWithAggregatesFilter<"File"> | number | null
+  routingRule?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  linkMode?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  extraType?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  resolution?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  source?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  videoCodec?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  hdrFormat?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  audioCodec?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  releaseGroup?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  container?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  duration?: Prisma.FloatNullableWithAggregatesFilter<"File"> | number | null
+  width?: Prisma.IntNullableWithAggregatesFilter<"File"> | number | null
+  height?: Prisma.IntNullableWithAggregatesFilter<"File"> | number | null
+  mediaInfo?: Prisma.StringNullableWithAggregatesFilter<"File"> | string | null
+  probedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"File"> | Date | string | null
+  supersededAt?: Prisma.DateTimeNullableWithAggregatesFilter<"File"> | Date | string | null
+  supersededById?: Prisma.IntNullableWithAggregatesFilter<"File"> | number | null
   mediaId?: Prisma.IntNullableWithAggregatesFilter<"File"> | number | null
-  episodeInfoId?: Prisma.IntNullableWithAggregatesFilter<"File"> | number | null
 }
 
 export type FileCreateInput = {
@@ -463,10 +682,31 @@ export type FileCreateInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
   parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
   childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
   Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
-  episodeInfo?: Prisma.EpisodeInfoCreateNestedOneWithoutFileInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
 }
 
@@ -486,9 +726,30 @@ export type FileUncheckedCreateInput = {
   discNumber?: number | null
   isParentFolder?: boolean
   parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
   mediaId?: number | null
-  episodeInfoId?: number | null
   childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
 }
 
@@ -506,10 +767,31 @@ export type FileUpdateInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
   childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
   Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
-  episodeInfo?: Prisma.EpisodeInfoUpdateOneWithoutFileNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
 }
 
@@ -529,9 +811,30 @@ export type FileUncheckedUpdateInput = {
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
   parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
 }
 
@@ -551,8 +854,24 @@ export type FileCreateManyInput = {
   discNumber?: number | null
   isParentFolder?: boolean
   parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
   mediaId?: number | null
-  episodeInfoId?: number | null
 }
 
 export type FileUpdateManyMutationInput = {
@@ -569,6 +888,22 @@ export type FileUpdateManyMutationInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type FileUncheckedUpdateManyInput = {
@@ -587,8 +922,24 @@ export type FileUncheckedUpdateManyInput = {
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
   parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type FileListRelationFilter = {
@@ -627,8 +978,24 @@ export type FileCountOrderByAggregateInput = {
   discNumber?: Prisma.SortOrder
   isParentFolder?: Prisma.SortOrder
   parentFolderId?: Prisma.SortOrder
+  routingRule?: Prisma.SortOrder
+  linkMode?: Prisma.SortOrder
+  extraType?: Prisma.SortOrder
+  resolution?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  videoCodec?: Prisma.SortOrder
+  hdrFormat?: Prisma.SortOrder
+  audioCodec?: Prisma.SortOrder
+  releaseGroup?: Prisma.SortOrder
+  container?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  mediaInfo?: Prisma.SortOrder
+  probedAt?: Prisma.SortOrder
+  supersededAt?: Prisma.SortOrder
+  supersededById?: Prisma.SortOrder
   mediaId?: Prisma.SortOrder
-  episodeInfoId?: Prisma.SortOrder
 }
 
 export type FileAvgOrderByAggregateInput = {
@@ -638,8 +1005,11 @@ export type FileAvgOrderByAggregateInput = {
   fileSize?: Prisma.SortOrder
   discNumber?: Prisma.SortOrder
   parentFolderId?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  supersededById?: Prisma.SortOrder
   mediaId?: Prisma.SortOrder
-  episodeInfoId?: Prisma.SortOrder
 }
 
 export type FileMaxOrderByAggregateInput = {
@@ -658,8 +1028,24 @@ export type FileMaxOrderByAggregateInput = {
   discNumber?: Prisma.SortOrder
   isParentFolder?: Prisma.SortOrder
   parentFolderId?: Prisma.SortOrder
+  routingRule?: Prisma.SortOrder
+  linkMode?: Prisma.SortOrder
+  extraType?: Prisma.SortOrder
+  resolution?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  videoCodec?: Prisma.SortOrder
+  hdrFormat?: Prisma.SortOrder
+  audioCodec?: Prisma.SortOrder
+  releaseGroup?: Prisma.SortOrder
+  container?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  mediaInfo?: Prisma.SortOrder
+  probedAt?: Prisma.SortOrder
+  supersededAt?: Prisma.SortOrder
+  supersededById?: Prisma.SortOrder
   mediaId?: Prisma.SortOrder
-  episodeInfoId?: Prisma.SortOrder
 }
 
 export type FileMinOrderByAggregateInput = {
@@ -678,8 +1064,24 @@ export type FileMinOrderByAggregateInput = {
   discNumber?: Prisma.SortOrder
   isParentFolder?: Prisma.SortOrder
   parentFolderId?: Prisma.SortOrder
+  routingRule?: Prisma.SortOrder
+  linkMode?: Prisma.SortOrder
+  extraType?: Prisma.SortOrder
+  resolution?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  videoCodec?: Prisma.SortOrder
+  hdrFormat?: Prisma.SortOrder
+  audioCodec?: Prisma.SortOrder
+  releaseGroup?: Prisma.SortOrder
+  container?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  mediaInfo?: Prisma.SortOrder
+  probedAt?: Prisma.SortOrder
+  supersededAt?: Prisma.SortOrder
+  supersededById?: Prisma.SortOrder
   mediaId?: Prisma.SortOrder
-  episodeInfoId?: Prisma.SortOrder
 }
 
 export type FileSumOrderByAggregateInput = {
@@ -689,8 +1091,16 @@ export type FileSumOrderByAggregateInput = {
   fileSize?: Prisma.SortOrder
   discNumber?: Prisma.SortOrder
   parentFolderId?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  width?: Prisma.SortOrder
+  height?: Prisma.SortOrder
+  supersededById?: Prisma.SortOrder
   mediaId?: Prisma.SortOrder
-  episodeInfoId?: Prisma.SortOrder
+}
+
+export type FileScalarRelationFilter = {
+  is?: Prisma.FileWhereInput
+  isNot?: Prisma.FileWhereInput
 }
 
 export type FileCreateNestedManyWithoutMediaInput = {
@@ -748,6 +1158,19 @@ export type FileCreateNestedManyWithoutParentFolderInput = {
   connect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
 }
 
+export type FileCreateNestedOneWithoutSupersedesInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSupersedesInput, Prisma.FileUncheckedCreateWithoutSupersedesInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSupersedesInput
+  connect?: Prisma.FileWhereUniqueInput
+}
+
+export type FileCreateNestedManyWithoutSupersededByInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSupersededByInput, Prisma.FileUncheckedCreateWithoutSupersededByInput> | Prisma.FileCreateWithoutSupersededByInput[] | Prisma.FileUncheckedCreateWithoutSupersededByInput[]
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSupersededByInput | Prisma.FileCreateOrConnectWithoutSupersededByInput[]
+  createMany?: Prisma.FileCreateManySupersededByInputEnvelope
+  connect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+}
+
 export type FileUncheckedCreateNestedManyWithoutParentFolderInput = {
   create?: Prisma.XOR<Prisma.FileCreateWithoutParentFolderInput, Prisma.FileUncheckedCreateWithoutParentFolderInput> | Prisma.FileCreateWithoutParentFolderInput[] | Prisma.FileUncheckedCreateWithoutParentFolderInput[]
   connectOrCreate?: Prisma.FileCreateOrConnectWithoutParentFolderInput | Prisma.FileCreateOrConnectWithoutParentFolderInput[]
@@ -755,6 +1178,13 @@ export type FileUncheckedCreateNestedManyWithoutParentFolderInput = {
   connect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
 }
 
+export type FileUncheckedCreateNestedManyWithoutSupersededByInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSupersededByInput, Prisma.FileUncheckedCreateWithoutSupersededByInput> | Prisma.FileCreateWithoutSupersededByInput[] | Prisma.FileUncheckedCreateWithoutSupersededByInput[]
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSupersededByInput | Prisma.FileCreateOrConnectWithoutSupersededByInput[]
+  createMany?: Prisma.FileCreateManySupersededByInputEnvelope
+  connect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+}
+
 export type BigIntFieldUpdateOperationsInput = {
   set?: bigint | number
   increment?: bigint | number
@@ -767,6 +1197,14 @@ export type BoolFieldUpdateOperationsInput = {
   set?: boolean
 }
 
+export type NullableFloatFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
 export type FileUpdateOneWithoutChildFoldersNestedInput = {
   create?: Prisma.XOR<Prisma.FileCreateWithoutChildFoldersInput, Prisma.FileUncheckedCreateWithoutChildFoldersInput>
   connectOrCreate?: Prisma.FileCreateOrConnectWithoutChildFoldersInput
@@ -791,6 +1229,30 @@ export type FileUpdateManyWithoutParentFolderNestedInput = {
   deleteMany?: Prisma.FileScalarWhereInput | Prisma.FileScalarWhereInput[]
 }
 
+export type FileUpdateOneWithoutSupersedesNestedInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSupersedesInput, Prisma.FileUncheckedCreateWithoutSupersedesInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSupersedesInput
+  upsert?: Prisma.FileUpsertWithoutSupersedesInput
+  disconnect?: Prisma.FileWhereInput | boolean
+  delete?: Prisma.FileWhereInput | boolean
+  connect?: Prisma.FileWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FileUpdateToOneWithWhereWithoutSupersedesInput, Prisma.FileUpdateWithoutSupersedesInput>, Prisma.FileUncheckedUpdateWithoutSupersedesInput>
+}
+
+export type FileUpdateManyWithoutSupersededByNestedInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSupersededByInput, Prisma.FileUncheckedCreateWithoutSupersededByInput> | Prisma.FileCreateWithoutSupersededByInput[] | Prisma.FileUncheckedCreateWithoutSupersededByInput[]
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSupersededByInput | Prisma.FileCreateOrConnectWithoutSupersededByInput[]
+  upsert?: Prisma.FileUpsertWithWhereUniqueWithoutSupersededByInput | Prisma.FileUpsertWithWhereUniqueWithoutSupersededByInput[]
+  createMany?: Prisma.FileCreateManySupersededByInputEnvelope
+  set?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  disconnect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  delete?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  connect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  update?: Prisma.FileUpdateWithWhereUniqueWithoutSupersededByInput | Prisma.FileUpdateWithWhereUniqueWithoutSupersededByInput[]
+  updateMany?: Prisma.FileUpdateManyWithWhereWithoutSupersededByInput | Prisma.FileUpdateManyWithWhereWithoutSupersededByInput[]
+  deleteMany?: Prisma.FileScalarWhereInput | Prisma.FileScalarWhereInput[]
+}
+
 export type FileUncheckedUpdateManyWithoutParentFolderNestedInput = {
   create?: Prisma.XOR<Prisma.FileCreateWithoutParentFolderInput, Prisma.FileUncheckedCreateWithoutParentFolderInput> | Prisma.FileCreateWithoutParentFolderInput[] | Prisma.FileUncheckedCreateWithoutParentFolderInput[]
   connectOrCreate?: Prisma.FileCreateOrConnectWithoutParentFolderInput | Prisma.FileCreateOrConnectWithoutParentFolderInput[]
@@ -805,36 +1267,80 @@ export type FileUncheckedUpdateManyWithoutParentFolderNestedInput = {
   deleteMany?: Prisma.FileScalarWhereInput | Prisma.FileScalarWhereInput[]
 }
 
-export type FileCreateNestedOneWithoutEpisodeInfoInput = {
-  create?: Prisma.XOR<Prisma.FileCreateWithoutEpisodeInfoInput, Prisma.FileUncheckedCreateWithoutEpisodeInfoInput>
-  connectOrCreate?: Prisma.FileCreateOrConnectWithoutEpisodeInfoInput
+export type FileUncheckedUpdateManyWithoutSupersededByNestedInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSupersededByInput, Prisma.FileUncheckedCreateWithoutSupersededByInput> | Prisma.FileCreateWithoutSupersededByInput[] | Prisma.FileUncheckedCreateWithoutSupersededByInput[]
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSupersededByInput | Prisma.FileCreateOrConnectWithoutSupersededByInput[]
+  upsert?: Prisma.FileUpsertWithWhereUniqueWithoutSupersededByInput | Prisma.FileUpsertWithWhereUniqueWithoutSupersededByInput[]
+  createMany?: Prisma.FileCreateManySupersededByInputEnvelope
+  set?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  disconnect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  delete?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  connect?: Prisma.FileWhereUniqueInput | Prisma.FileWhereUniqueInput[]
+  update?: Prisma.FileUpdateWithWhereUniqueWithoutSupersededByInput | Prisma.FileUpdateWithWhereUniqueWithoutSupersededByInput[]
+  updateMany?: Prisma.FileUpdateManyWithWhereWithoutSupersededByInput | Prisma.FileUpdateManyWithWhereWithoutSupersededByInput[]
+  deleteMany?: Prisma.FileScalarWhereInput | Prisma.FileScalarWhereInput[]
+}
+
+export type FileCreateNestedOneWithoutSubtitlesInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSubtitlesInput, Prisma.FileUncheckedCreateWithoutSubtitlesInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSubtitlesInput
+  connect?: Prisma.FileWhereUniqueInput
+}
+
+export type FileUpdateOneRequiredWithoutSubtitlesNestedInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutSubtitlesInput, Prisma.FileUncheckedCreateWithoutSubtitlesInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutSubtitlesInput
+  upsert?: Prisma.FileUpsertWithoutSubtitlesInput
+  connect?: Prisma.FileWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FileUpdateToOneWithWhereWithoutSubtitlesInput, Prisma.FileUpdateWithoutSubtitlesInput>, Prisma.FileUncheckedUpdateWithoutSubtitlesInput>
+}
+
+export type FileCreateNestedOneWithoutEpisodesInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutEpisodesInput, Prisma.FileUncheckedCreateWithoutEpisodesInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutEpisodesInput
+  connect?: Prisma.FileWhereUniqueInput
+}
+
+export type FileUpdateOneWithoutEpisodesNestedInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutEpisodesInput, Prisma.FileUncheckedCreateWithoutEpisodesInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutEpisodesInput
+  upsert?: Prisma.FileUpsertWithoutEpisodesInput
+  disconnect?: Prisma.FileWhereInput | boolean
+  delete?: Prisma.FileWhereInput | boolean
   connect?: Prisma.FileWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FileUpdateToOneWithWhereWithoutEpisodesInput, Prisma.FileUpdateWithoutEpisodesInput>, Prisma.FileUncheckedUpdateWithoutEpisodesInput>
 }
 
-export type FileUncheckedCreateNestedOneWithoutEpisodeInfoInput = {
-  create?: Prisma.XOR<Prisma.FileCreateWithoutEpisodeInfoInput, Prisma.FileUncheckedCreateWithoutEpisodeInfoInput>
-  connectOrCreate?: Prisma.FileCreateOrConnectWithoutEpisodeInfoInput
+export type FileCreateNestedOneWithoutUpgradesFromInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutUpgradesFromInput, Prisma.FileUncheckedCreateWithoutUpgradesFromInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutUpgradesFromInput
   connect?: Prisma.FileWhereUniqueInput
 }
 
-export type FileUpdateOneWithoutEpisodeInfoNestedInput = {
-  create?: Prisma.XOR<Prisma.FileCreateWithoutEpisodeInfoInput, Prisma.FileUncheckedCreateWithoutEpisodeInfoInput>
-  connectOrCreate?: Prisma.FileCreateOrConnectWithoutEpisodeInfoInput
-  upsert?: Prisma.FileUpsertWithoutEpisodeInfoInput
+export type FileCreateNestedOneWithoutUpgradesToInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutUpgradesToInput, Prisma.FileUncheckedCreateWithoutUpgradesToInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutUpgradesToInput
+  connect?: Prisma.FileWhereUniqueInput
+}
+
+export type FileUpdateOneWithoutUpgradesFromNestedInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutUpgradesFromInput, Prisma.FileUncheckedCreateWithoutUpgradesFromInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutUpgradesFromInput
+  upsert?: Prisma.FileUpsertWithoutUpgradesFromInput
   disconnect?: Prisma.FileWhereInput | boolean
   delete?: Prisma.FileWhereInput | boolean
   connect?: Prisma.FileWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.FileUpdateToOneWithWhereWithoutEpisodeInfoInput, Prisma.FileUpdateWithoutEpisodeInfoInput>, Prisma.FileUncheckedUpdateWithoutEpisodeInfoInput>
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FileUpdateToOneWithWhereWithoutUpgradesFromInput, Prisma.FileUpdateWithoutUpgradesFromInput>, Prisma.FileUncheckedUpdateWithoutUpgradesFromInput>
 }
 
-export type FileUncheckedUpdateOneWithoutEpisodeInfoNestedInput = {
-  create?: Prisma.XOR<Prisma.FileCreateWithoutEpisodeInfoInput, Prisma.FileUncheckedCreateWithoutEpisodeInfoInput>
-  connectOrCreate?: Prisma.FileCreateOrConnectWithoutEpisodeInfoInput
-  upsert?: Prisma.FileUpsertWithoutEpisodeInfoInput
+export type FileUpdateOneWithoutUpgradesToNestedInput = {
+  create?: Prisma.XOR<Prisma.FileCreateWithoutUpgradesToInput, Prisma.FileUncheckedCreateWithoutUpgradesToInput>
+  connectOrCreate?: Prisma.FileCreateOrConnectWithoutUpgradesToInput
+  upsert?: Prisma.FileUpsertWithoutUpgradesToInput
   disconnect?: Prisma.FileWhereInput | boolean
   delete?: Prisma.FileWhereInput | boolean
   connect?: Prisma.FileWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.FileUpdateToOneWithWhereWithoutEpisodeInfoInput, Prisma.FileUpdateWithoutEpisodeInfoInput>, Prisma.FileUncheckedUpdateWithoutEpisodeInfoInput>
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FileUpdateToOneWithWhereWithoutUpgradesToInput, Prisma.FileUpdateWithoutUpgradesToInput>, Prisma.FileUncheckedUpdateWithoutUpgradesToInput>
 }
 
 export type FileCreateNestedOneWithoutLibraryFileInput = {
@@ -867,9 +1373,30 @@ export type FileCreateWithoutMediaInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
   parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
   childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
-  episodeInfo?: Prisma.EpisodeInfoCreateNestedOneWithoutFileInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
 }
 
@@ -889,8 +1416,29 @@ export type FileUncheckedCreateWithoutMediaInput = {
   discNumber?: number | null
   isParentFolder?: boolean
   parentFolderId?: number | null
-  episodeInfoId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
   childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
 }
 
@@ -938,8 +1486,24 @@ export type FileScalarWhereInput = {
   discNumber?: Prisma.IntNullableFilter<"File"> | number | null
   isParentFolder?: Prisma.BoolFilter<"File"> | boolean
   parentFolderId?: Prisma.IntNullableFilter<"File"> | number | null
+  routingRule?: Prisma.StringNullableFilter<"File"> | string | null
+  linkMode?: Prisma.StringNullableFilter<"File"> | string | null
+  extraType?: Prisma.StringNullableFilter<"File"> | string | null
+  resolution?: Prisma.StringNullableFilter<"File"> | string | null
+  source?: Prisma.StringNullableFilter<"File"> | string | null
+  videoCodec?: Prisma.StringNullableFilter<"File"> | string | null
+  hdrFormat?: Prisma.StringNullableFilter<"File"> | string | null
+  audioCodec?: Prisma.StringNullableFilter<"File"> | string | null
+  releaseGroup?: Prisma.StringNullableFilter<"File"> | string | null
+  container?: Prisma.StringNullableFilter<"File"> | string | null
+  duration?: Prisma.FloatNullableFilter<"File"> | number | null
+  width?: Prisma.IntNullableFilter<"File"> | number | null
+  height?: Prisma.IntNullableFilter<"File"> | number | null
+  mediaInfo?: Prisma.StringNullableFilter<"File"> | string | null
+  probedAt?: Prisma.DateTimeNullableFilter<"File"> | Date | string | null
+  supersededAt?: Prisma.DateTimeNullableFilter<"File"> | Date | string | null
+  supersededById?: Prisma.IntNullableFilter<"File"> | number | null
   mediaId?: Prisma.IntNullableFilter<"File"> | number | null
-  episodeInfoId?: Prisma.IntNullableFilter<"File"> | number | null
 }
 
 export type FileCreateWithoutChildFoldersInput = {
@@ -956,9 +1520,30 @@ export type FileCreateWithoutChildFoldersInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
   parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
   Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
-  episodeInfo?: Prisma.EpisodeInfoCreateNestedOneWithoutFileInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
 }
 
@@ -978,8 +1563,29 @@ export type FileUncheckedCreateWithoutChildFoldersInput = {
   discNumber?: number | null
   isParentFolder?: boolean
   parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
   mediaId?: number | null
-  episodeInfoId?: number | null
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
 }
 
@@ -1002,9 +1608,30 @@ export type FileCreateWithoutParentFolderInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
   childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
   Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
-  episodeInfo?: Prisma.EpisodeInfoCreateNestedOneWithoutFileInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
 }
 
@@ -1023,9 +1650,30 @@ export type FileUncheckedCreateWithoutParentFolderInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
   mediaId?: number | null
-  episodeInfoId?: number | null
   childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
 }
 
@@ -1038,6 +1686,186 @@ export type FileCreateManyParentFolderInputEnvelope = {
   data: Prisma.FileCreateManyParentFolderInput | Prisma.FileCreateManyParentFolderInput[]
 }
 
+export type FileCreateWithoutSupersedesInput = {
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
+  childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
+  Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
+}
+
+export type FileUncheckedCreateWithoutSupersedesInput = {
+  id?: number
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
+  mediaId?: number | null
+  childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
+}
+
+export type FileCreateOrConnectWithoutSupersedesInput = {
+  where: Prisma.FileWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileCreateWithoutSupersedesInput, Prisma.FileUncheckedCreateWithoutSupersedesInput>
+}
+
+export type FileCreateWithoutSupersededByInput = {
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
+  childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
+  Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
+}
+
+export type FileUncheckedCreateWithoutSupersededByInput = {
+  id?: number
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  mediaId?: number | null
+  childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
+}
+
+export type FileCreateOrConnectWithoutSupersededByInput = {
+  where: Prisma.FileWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileCreateWithoutSupersededByInput, Prisma.FileUncheckedCreateWithoutSupersededByInput>
+}
+
+export type FileCreateManySupersededByInputEnvelope = {
+  data: Prisma.FileCreateManySupersededByInput | Prisma.FileCreateManySupersededByInput[]
+}
+
 export type FileUpsertWithoutChildFoldersInput = {
   update: Prisma.XOR<Prisma.FileUpdateWithoutChildFoldersInput, Prisma.FileUncheckedUpdateWithoutChildFoldersInput>
   create: Prisma.XOR<Prisma.FileCreateWithoutChildFoldersInput, Prisma.FileUncheckedCreateWithoutChildFoldersInput>
@@ -1063,9 +1891,30 @@ export type FileUpdateWithoutChildFoldersInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
   Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
-  episodeInfo?: Prisma.EpisodeInfoUpdateOneWithoutFileNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
 }
 
@@ -1085,8 +1934,29 @@ export type FileUncheckedUpdateWithoutChildFoldersInput = {
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
   parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
 }
 
@@ -1106,7 +1976,117 @@ export type FileUpdateManyWithWhereWithoutParentFolderInput = {
   data: Prisma.XOR<Prisma.FileUpdateManyMutationInput, Prisma.FileUncheckedUpdateManyWithoutParentFolderInput>
 }
 
-export type FileCreateWithoutEpisodeInfoInput = {
+export type FileUpsertWithoutSupersedesInput = {
+  update: Prisma.XOR<Prisma.FileUpdateWithoutSupersedesInput, Prisma.FileUncheckedUpdateWithoutSupersedesInput>
+  create: Prisma.XOR<Prisma.FileCreateWithoutSupersedesInput, Prisma.FileUncheckedCreateWithoutSupersedesInput>
+  where?: Prisma.FileWhereInput
+}
+
+export type FileUpdateToOneWithWhereWithoutSupersedesInput = {
+  where?: Prisma.FileWhereInput
+  data: Prisma.XOR<Prisma.FileUpdateWithoutSupersedesInput, Prisma.FileUncheckedUpdateWithoutSupersedesInput>
+}
+
+export type FileUpdateWithoutSupersedesInput = {
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
+  childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
+  Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
+}
+
+export type FileUncheckedUpdateWithoutSupersedesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
+}
+
+export type FileUpsertWithWhereUniqueWithoutSupersededByInput = {
+  where: Prisma.FileWhereUniqueInput
+  update: Prisma.XOR<Prisma.FileUpdateWithoutSupersededByInput, Prisma.FileUncheckedUpdateWithoutSupersededByInput>
+  create: Prisma.XOR<Prisma.FileCreateWithoutSupersededByInput, Prisma.FileUncheckedCreateWithoutSupersededByInput>
+}
+
+export type FileUpdateWithWhereUniqueWithoutSupersededByInput = {
+  where: Prisma.FileWhereUniqueInput
+  data: Prisma.XOR<Prisma.FileUpdateWithoutSupersededByInput, Prisma.FileUncheckedUpdateWithoutSupersededByInput>
+}
+
+export type FileUpdateManyWithWhereWithoutSupersededByInput = {
+  where: Prisma.FileScalarWhereInput
+  data: Prisma.XOR<Prisma.FileUpdateManyMutationInput, Prisma.FileUncheckedUpdateManyWithoutSupersededByInput>
+}
+
+export type FileCreateWithoutSubtitlesInput = {
   deviceId: bigint | number
   inode: bigint | number
   fileHash?: string | null
@@ -1120,13 +2100,34 @@ export type FileCreateWithoutEpisodeInfoInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
   parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
   childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
   Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
 }
 
-export type FileUncheckedCreateWithoutEpisodeInfoInput = {
+export type FileUncheckedCreateWithoutSubtitlesInput = {
   id?: number
   deviceId: bigint | number
   inode: bigint | number
@@ -1142,28 +2143,595 @@ export type FileUncheckedCreateWithoutEpisodeInfoInput = {
   discNumber?: number | null
   isParentFolder?: boolean
   parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
   mediaId?: number | null
   childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
   libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
 }
 
-export type FileCreateOrConnectWithoutEpisodeInfoInput = {
-  where: Prisma.FileWhereUniqueInput
-  create: Prisma.XOR<Prisma.FileCreateWithoutEpisodeInfoInput, Prisma.FileUncheckedCreateWithoutEpisodeInfoInput>
+export type FileCreateOrConnectWithoutSubtitlesInput = {
+  where: Prisma.FileWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileCreateWithoutSubtitlesInput, Prisma.FileUncheckedCreateWithoutSubtitlesInput>
+}
+
+export type FileUpsertWithoutSubtitlesInput = {
+  update: Prisma.XOR<Prisma.FileUpdateWithoutSubtitlesInput, Prisma.FileUncheckedUpdateWithoutSubtitlesInput>
+  create: Prisma.XOR<Prisma.FileCreateWithoutSubtitlesInput, Prisma.FileUncheckedCreateWithoutSubtitlesInput>
+  where?: Prisma.FileWhereInput
+}
+
+export type FileUpdateToOneWithWhereWithoutSubtitlesInput = {
+  where?: Prisma.FileWhereInput
+  data: Prisma.XOR<Prisma.FileUpdateWithoutSubtitlesInput, Prisma.FileUncheckedUpdateWithoutSubtitlesInput>
+}
+
+export type FileUpdateWithoutSubtitlesInput = {
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
+  childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
+  Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
+}
+
+export type FileUncheckedUpdateWithoutSubtitlesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
+}
+
+export type FileCreateWithoutEpisodesInput = {
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
+  childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
+  Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
+}
+
+export type FileUncheckedCreateWithoutEpisodesInput = {
+  id?: number
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
+  mediaId?: number | null
+  childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
+}
+
+export type FileCreateOrConnectWithoutEpisodesInput = {
+  where: Prisma.FileWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileCreateWithoutEpisodesInput, Prisma.FileUncheckedCreateWithoutEpisodesInput>
+}
+
+export type FileUpsertWithoutEpisodesInput = {
+  update: Prisma.XOR<Prisma.FileUpdateWithoutEpisodesInput, Prisma.FileUncheckedUpdateWithoutEpisodesInput>
+  create: Prisma.XOR<Prisma.FileCreateWithoutEpisodesInput, Prisma.FileUncheckedCreateWithoutEpisodesInput>
+  where?: Prisma.FileWhereInput
+}
+
+export type FileUpdateToOneWithWhereWithoutEpisodesInput = {
+  where?: Prisma.FileWhereInput
+  data: Prisma.XOR<Prisma.FileUpdateWithoutEpisodesInput, Prisma.FileUncheckedUpdateWithoutEpisodesInput>
+}
+
+export type FileUpdateWithoutEpisodesInput = {
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
+  childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
+  Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
+}
+
+export type FileUncheckedUpdateWithoutEpisodesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
+}
+
+export type FileCreateWithoutUpgradesFromInput = {
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
+  childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
+  Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
+}
+
+export type FileUncheckedCreateWithoutUpgradesFromInput = {
+  id?: number
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
+  mediaId?: number | null
+  childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
+}
+
+export type FileCreateOrConnectWithoutUpgradesFromInput = {
+  where: Prisma.FileWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileCreateWithoutUpgradesFromInput, Prisma.FileUncheckedCreateWithoutUpgradesFromInput>
+}
+
+export type FileCreateWithoutUpgradesToInput = {
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
+  childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryCreateNestedOneWithoutFileInput
+}
+
+export type FileUncheckedCreateWithoutUpgradesToInput = {
+  id?: number
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
+  mediaId?: number | null
+  childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
+  libraryFile?: Prisma.LibraryUncheckedCreateNestedOneWithoutFileInput
+}
+
+export type FileCreateOrConnectWithoutUpgradesToInput = {
+  where: Prisma.FileWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileCreateWithoutUpgradesToInput, Prisma.FileUncheckedCreateWithoutUpgradesToInput>
+}
+
+export type FileUpsertWithoutUpgradesFromInput = {
+  update: Prisma.XOR<Prisma.FileUpdateWithoutUpgradesFromInput, Prisma.FileUncheckedUpdateWithoutUpgradesFromInput>
+  create: Prisma.XOR<Prisma.FileCreateWithoutUpgradesFromInput, Prisma.FileUncheckedCreateWithoutUpgradesFromInput>
+  where?: Prisma.FileWhereInput
+}
+
+export type FileUpdateToOneWithWhereWithoutUpgradesFromInput = {
+  where?: Prisma.FileWhereInput
+  data: Prisma.XOR<Prisma.FileUpdateWithoutUpgradesFromInput, Prisma.FileUncheckedUpdateWithoutUpgradesFromInput>
+}
+
+export type FileUpdateWithoutUpgradesFromInput = {
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
+  childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
+  Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
+}
+
+export type FileUncheckedUpdateWithoutUpgradesFromInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
 }
 
-export type FileUpsertWithoutEpisodeInfoInput = {
-  update: Prisma.XOR<Prisma.FileUpdateWithoutEpisodeInfoInput, Prisma.FileUncheckedUpdateWithoutEpisodeInfoInput>
-  create: Prisma.XOR<Prisma.FileCreateWithoutEpisodeInfoInput, Prisma.FileUncheckedCreateWithoutEpisodeInfoInput>
+export type FileUpsertWithoutUpgradesToInput = {
+  update: Prisma.XOR<Prisma.FileUpdateWithoutUpgradesToInput, Prisma.FileUncheckedUpdateWithoutUpgradesToInput>
+  create: Prisma.XOR<Prisma.FileCreateWithoutUpgradesToInput, Prisma.FileUncheckedCreateWithoutUpgradesToInput>
   where?: Prisma.FileWhereInput
 }
 
-export type FileUpdateToOneWithWhereWithoutEpisodeInfoInput = {
+export type FileUpdateToOneWithWhereWithoutUpgradesToInput = {
   where?: Prisma.FileWhereInput
-  data: Prisma.XOR<Prisma.FileUpdateWithoutEpisodeInfoInput, Prisma.FileUncheckedUpdateWithoutEpisodeInfoInput>
+  data: Prisma.XOR<Prisma.FileUpdateWithoutUpgradesToInput, Prisma.FileUncheckedUpdateWithoutUpgradesToInput>
 }
 
-export type FileUpdateWithoutEpisodeInfoInput = {
+export type FileUpdateWithoutUpgradesToInput = {
   deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1177,13 +2745,34 @@ export type FileUpdateWithoutEpisodeInfoInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
   childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
   Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
 }
 
-export type FileUncheckedUpdateWithoutEpisodeInfoInput = {
+export type FileUncheckedUpdateWithoutUpgradesToInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
@@ -1199,8 +2788,29 @@ export type FileUncheckedUpdateWithoutEpisodeInfoInput = {
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
   parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
 }
 
@@ -1218,10 +2828,31 @@ export type FileCreateWithoutLibraryFileInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
   parentFolder?: Prisma.FileCreateNestedOneWithoutChildFoldersInput
   childFolders?: Prisma.FileCreateNestedManyWithoutParentFolderInput
+  supersededBy?: Prisma.FileCreateNestedOneWithoutSupersedesInput
+  supersedes?: Prisma.FileCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeCreateNestedManyWithoutToFileInput
   Media?: Prisma.MediaCreateNestedOneWithoutFilesInput
-  episodeInfo?: Prisma.EpisodeInfoCreateNestedOneWithoutFileInput
+  episodes?: Prisma.EpisodeInfoCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleCreateNestedManyWithoutFileInput
 }
 
 export type FileUncheckedCreateWithoutLibraryFileInput = {
@@ -1240,9 +2871,30 @@ export type FileUncheckedCreateWithoutLibraryFileInput = {
   discNumber?: number | null
   isParentFolder?: boolean
   parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
   mediaId?: number | null
-  episodeInfoId?: number | null
   childFolders?: Prisma.FileUncheckedCreateNestedManyWithoutParentFolderInput
+  supersedes?: Prisma.FileUncheckedCreateNestedManyWithoutSupersededByInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput
+  episodes?: Prisma.EpisodeInfoUncheckedCreateNestedManyWithoutFileInput
+  subtitles?: Prisma.SubtitleUncheckedCreateNestedManyWithoutFileInput
 }
 
 export type FileCreateOrConnectWithoutLibraryFileInput = {
@@ -1275,10 +2927,31 @@ export type FileUpdateWithoutLibraryFileInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
   childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
   Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
-  episodeInfo?: Prisma.EpisodeInfoUpdateOneWithoutFileNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
 }
 
 export type FileUncheckedUpdateWithoutLibraryFileInput = {
@@ -1297,9 +2970,30 @@ export type FileUncheckedUpdateWithoutLibraryFileInput = {
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
   parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
 }
 
 export type FileCreateManyMediaInput = {
@@ -1318,7 +3012,23 @@ export type FileCreateManyMediaInput = {
   discNumber?: number | null
   isParentFolder?: boolean
   parentFolderId?: number | null
-  episodeInfoId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
 }
 
 export type FileUpdateWithoutMediaInput = {
@@ -1335,9 +3045,30 @@ export type FileUpdateWithoutMediaInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
   childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
-  episodeInfo?: Prisma.EpisodeInfoUpdateOneWithoutFileNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
 }
 
@@ -1357,8 +3088,29 @@ export type FileUncheckedUpdateWithoutMediaInput = {
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
   parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
 }
 
@@ -1378,7 +3130,23 @@ export type FileUncheckedUpdateManyWithoutMediaInput = {
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
   parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type FileCreateManyParentFolderInput = {
@@ -1396,8 +3164,59 @@ export type FileCreateManyParentFolderInput = {
   isMultiDisc?: boolean
   discNumber?: number | null
   isParentFolder?: boolean
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
+  supersededById?: number | null
+  mediaId?: number | null
+}
+
+export type FileCreateManySupersededByInput = {
+  id?: number
+  deviceId: bigint | number
+  inode: bigint | number
+  fileHash?: string | null
+  fileSize: bigint | number
+  filePath: string
+  linkPath: string
+  createdAt?: Date | string
+  isDirectory?: boolean
+  isSpecialFolder?: boolean
+  folderType?: string | null
+  isMultiDisc?: boolean
+  discNumber?: number | null
+  isParentFolder?: boolean
+  parentFolderId?: number | null
+  routingRule?: string | null
+  linkMode?: string | null
+  extraType?: string | null
+  resolution?: string | null
+  source?: string | null
+  videoCodec?: string | null
+  hdrFormat?: string | null
+  audioCodec?: string | null
+  releaseGroup?: string | null
+  container?: string | null
+  duration?: number | null
+  width?: number | null
+  height?: number | null
+  mediaInfo?: string | null
+  probedAt?: Date | string | null
+  supersededAt?: Date | string | null
   mediaId?: number | null
-  episodeInfoId?: number | null
 }
 
 export type FileUpdateWithoutParentFolderInput = {
@@ -1414,9 +3233,30 @@ export type FileUpdateWithoutParentFolderInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersededBy?: Prisma.FileUpdateOneWithoutSupersedesNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
   Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
-  episodeInfo?: Prisma.EpisodeInfoUpdateOneWithoutFileNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
 }
 
@@ -1435,9 +3275,30 @@ export type FileUncheckedUpdateWithoutParentFolderInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
   libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
 }
 
@@ -1456,8 +3317,142 @@ export type FileUncheckedUpdateManyWithoutParentFolderInput = {
   isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
   discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type FileUpdateWithoutSupersededByInput = {
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parentFolder?: Prisma.FileUpdateOneWithoutChildFoldersNestedInput
+  childFolders?: Prisma.FileUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUpdateManyWithoutToFileNestedInput
+  Media?: Prisma.MediaUpdateOneWithoutFilesNestedInput
+  episodes?: Prisma.EpisodeInfoUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUpdateOneWithoutFileNestedInput
+}
+
+export type FileUncheckedUpdateWithoutSupersededByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  childFolders?: Prisma.FileUncheckedUpdateManyWithoutParentFolderNestedInput
+  supersedes?: Prisma.FileUncheckedUpdateManyWithoutSupersededByNestedInput
+  upgradesFrom?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput
+  upgradesTo?: Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput
+  episodes?: Prisma.EpisodeInfoUncheckedUpdateManyWithoutFileNestedInput
+  subtitles?: Prisma.SubtitleUncheckedUpdateManyWithoutFileNestedInput
+  libraryFile?: Prisma.LibraryUncheckedUpdateOneWithoutFileNestedInput
+}
+
+export type FileUncheckedUpdateManyWithoutSupersededByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  deviceId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  inode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isSpecialFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  folderType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isMultiDisc?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  discNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isParentFolder?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  parentFolderId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  routingRule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  extraType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolution?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  videoCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hdrFormat?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  audioCodec?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  releaseGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  container?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duration?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  width?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mediaInfo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  probedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  supersededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  episodeInfoId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 
@@ -1467,10 +3462,20 @@ export type FileUncheckedUpdateManyWithoutParentFolderInput = {
 
 export type FileCountOutputType = {
   childFolders: number
+  supersedes: number
+  upgradesFrom: number
+  upgradesTo: number
+  episodes: number
+  subtitles: number
 }
 
 export type FileCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   childFolders?: boolean | FileCountOutputTypeCountChildFoldersArgs
+  supersedes?: boolean | FileCountOutputTypeCountSupersedesArgs
+  upgradesFrom?: boolean | FileCountOutputTypeCountUpgradesFromArgs
+  upgradesTo?: boolean | FileCountOutputTypeCountUpgradesToArgs
+  episodes?: boolean | FileCountOutputTypeCountEpisodesArgs
+  subtitles?: boolean | FileCountOutputTypeCountSubtitlesArgs
 }
 
 /**
@@ -1490,6 +3495,41 @@ export type FileCountOutputTypeCountChildFoldersArgs<ExtArgs extends runtime.Typ
   where?: Prisma.FileWhereInput
 }
 
+/**
+ * FileCountOutputType without action
+ */
+export type FileCountOutputTypeCountSupersedesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FileWhereInput
+}
+
+/**
+ * FileCountOutputType without action
+ */
+export type FileCountOutputTypeCountUpgradesFromArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QualityUpgradeWhereInput
+}
+
+/**
+ * FileCountOutputType without action
+ */
+export type FileCountOutputTypeCountUpgradesToArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QualityUpgradeWhereInput
+}
+
+/**
+ * FileCountOutputType without action
+ */
+export type FileCountOutputTypeCountEpisodesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EpisodeInfoWhereInput
+}
+
+/**
+ * FileCountOutputType without action
+ */
+export type FileCountOutputTypeCountSubtitlesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubtitleWhereInput
+}
+
 
 export type FileSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1507,12 +3547,33 @@ export type FileSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   discNumber?: boolean
   isParentFolder?: boolean
   parentFolderId?: boolean
+  routingRule?: boolean
+  linkMode?: boolean
+  extraType?: boolean
+  resolution?: boolean
+  source?: boolean
+  videoCodec?: boolean
+  hdrFormat?: boolean
+  audioCodec?: boolean
+  releaseGroup?: boolean
+  container?: boolean
+  duration?: boolean
+  width?: boolean
+  height?: boolean
+  mediaInfo?: boolean
+  probedAt?: boolean
+  supersededAt?: boolean
+  supersededById?: boolean
   mediaId?: boolean
-  episodeInfoId?: boolean
   parentFolder?: boolean | Prisma.File$parentFolderArgs<ExtArgs>
   childFolders?: boolean | Prisma.File$childFoldersArgs<ExtArgs>
+  supersededBy?: boolean | Prisma.File$supersededByArgs<ExtArgs>
+  supersedes?: boolean | Prisma.File$supersedesArgs<ExtArgs>
+  upgradesFrom?: boolean | Prisma.File$upgradesFromArgs<ExtArgs>
+  upgradesTo?: boolean | Prisma.File$upgradesToArgs<ExtArgs>
   Media?: boolean | Prisma.File$MediaArgs<ExtArgs>
-  episodeInfo?: boolean | Prisma.File$episodeInfoArgs<ExtArgs>
+  episodes?: boolean | Prisma.File$episodesArgs<ExtArgs>
+  subtitles?: boolean | Prisma.File$subtitlesArgs<ExtArgs>
   libraryFile?: boolean | Prisma.File$libraryFileArgs<ExtArgs>
   _count?: boolean | Prisma.FileCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["file"]>
@@ -1533,11 +3594,27 @@ export type FileSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   discNumber?: boolean
   isParentFolder?: boolean
   parentFolderId?: boolean
+  routingRule?: boolean
+  linkMode?: boolean
+  extraType?: boolean
+  resolution?: boolean
+  source?: boolean
+  videoCodec?: boolean
+  hdrFormat?: boolean
+  audioCodec?: boolean
+  releaseGroup?: boolean
+  container?: boolean
+  duration?: boolean
+  width?: boolean
+  height?: boolean
+  mediaInfo?: boolean
+  probedAt?: boolean
+  supersededAt?: boolean
+  supersededById?: boolean
   mediaId?: boolean
-  episodeInfoId?: boolean
   parentFolder?: boolean | Prisma.File$parentFolderArgs<ExtArgs>
+  supersededBy?: boolean | Prisma.File$supersededByArgs<ExtArgs>
   Media?: boolean | Prisma.File$MediaArgs<ExtArgs>
-  episodeInfo?: boolean | Prisma.File$episodeInfoArgs<ExtArgs>
 }, ExtArgs["result"]["file"]>
 
 export type FileSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1556,11 +3633,27 @@ export type FileSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   discNumber?: boolean
   isParentFolder?: boolean
   parentFolderId?: boolean
+  routingRule?: boolean
+  linkMode?: boolean
+  extraType?: boolean
+  resolution?: boolean
+  source?: boolean
+  videoCodec?: boolean
+  hdrFormat?: boolean
+  audioCodec?: boolean
+  releaseGroup?: boolean
+  container?: boolean
+  duration?: boolean
+  width?: boolean
+  height?: boolean
+  mediaInfo?: boolean
+  probedAt?: boolean
+  supersededAt?: boolean
+  supersededById?: boolean
   mediaId?: boolean
-  episodeInfoId?: boolean
   parentFolder?: boolean | Prisma.File$parentFolderArgs<ExtArgs>
+  supersededBy?: boolean | Prisma.File$supersededByArgs<ExtArgs>
   Media?: boolean | Prisma.File$MediaArgs<ExtArgs>
-  episodeInfo?: boolean | Prisma.File$episodeInfoArgs<ExtArgs>
 }, ExtArgs["result"]["file"]>
 
 export type FileSelectScalar = {
@@ -1579,28 +3672,49 @@ export type FileSelectScalar = {
   discNumber?: boolean
   isParentFolder?: boolean
   parentFolderId?: boolean
+  routingRule?: boolean
+  linkMode?: boolean
+  extraType?: boolean
+  resolution?: boolean
+  source?: boolean
+  videoCodec?: boolean
+  hdrFormat?: boolean
+  audioCodec?: boolean
+  releaseGroup?: boolean
+  container?: boolean
+  duration?: boolean
+  width?: boolean
+  height?: boolean
+  mediaInfo?: boolean
+  probedAt?: boolean
+  supersededAt?: boolean
+  supersededById?: boolean
   mediaId?: boolean
-  episodeInfoId?: boolean
 }
 
-export type FileOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "deviceId" | "inode" | "fileHash" | "fileSize" | "filePath" | "linkPath" | "createdAt" | "isDirectory" | "isSpecialFolder" | "folderType" | "isMultiDisc" | "discNumber" | "isParentFolder" | "parentFolderId" | "mediaId" | "episodeInfoId", ExtArgs["result"]["file"]>
+export type FileOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "deviceId" | "inode" | "fileHash" | "fileSize" | "filePath" | "linkPath" | "createdAt" | "isDirectory" | "isSpecialFolder" | "folderType" | "isMultiDisc" | "discNumber" | "isParentFolder" | "parentFolderId" | "routingRule" | "linkMode" | "extraType" | "resolution" | "source" | "videoCodec" | "hdrFormat" | "audioCodec" | "releaseGroup" | "container" | "duration" | "width" | "height" | "mediaInfo" | "probedAt" | "supersededAt" | "supersededById" | "mediaId", ExtArgs["result"]["file"]>
 export type FileInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   parentFolder?: boolean | Prisma.File$parentFolderArgs<ExtArgs>
   childFolders?: boolean | Prisma.File$childFoldersArgs<ExtArgs>
+  supersededBy?: boolean | Prisma.File$supersededByArgs<ExtArgs>
+  supersedes?: boolean | Prisma.File$supersedesArgs<ExtArgs>
+  upgradesFrom?: boolean | Prisma.File$upgradesFromArgs<ExtArgs>
+  upgradesTo?: boolean | Prisma.File$upgradesToArgs<ExtArgs>
   Media?: boolean | Prisma.File$MediaArgs<ExtArgs>
-  episodeInfo?: boolean | Prisma.File$episodeInfoArgs<ExtArgs>
+  episodes?: boolean | Prisma.File$episodesArgs<ExtArgs>
+  subtitles?: boolean | Prisma.File$subtitlesArgs<ExtArgs>
   libraryFile?: boolean | Prisma.File$libraryFileArgs<ExtArgs>
   _count?: boolean | Prisma.FileCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type FileIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   parentFolder?: boolean | Prisma.File$parentFolderArgs<ExtArgs>
+  supersededBy?: boolean | Prisma.File$supersededByArgs<ExtArgs>
   Media?: boolean | Prisma.File$MediaArgs<ExtArgs>
-  episodeInfo?: boolean | Prisma.File$episodeInfoArgs<ExtArgs>
 }
 export type FileIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   parentFolder?: boolean | Prisma.File$parentFolderArgs<ExtArgs>
+  supersededBy?: boolean | Prisma.File$supersededByArgs<ExtArgs>
   Media?: boolean | Prisma.File$MediaArgs<ExtArgs>
-  episodeInfo?: boolean | Prisma.File$episodeInfoArgs<ExtArgs>
 }
 
 export type $FilePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1611,14 +3725,31 @@ export type $FilePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
      * 子文件夹列表（用于父文件夹）
      */
     childFolders: Prisma.$FilePayload<ExtArgs>[]
+    supersededBy: Prisma.$FilePayload<ExtArgs> | null
+    /**
+     * 被该文件替换的文件列表
+     */
+    supersedes: Prisma.$FilePayload<ExtArgs>[]
+    /**
+     * 作为旧版本的升级记录
+     */
+    upgradesFrom: Prisma.$QualityUpgradePayload<ExtArgs>[]
+    /**
+     * 作为新版本的升级记录
+     */
+    upgradesTo: Prisma.$QualityUpgradePayload<ExtArgs>[]
     /**
      * 关联的媒体信息
      */
     Media: Prisma.$MediaPayload<ExtArgs> | null
     /**
-     * 关联的电视剧单集信息（一对一关系）
+     * 关联的电视剧单集信息（一对多关系，多集文件如 S01E01-E02 关联多集）
+     */
+    episodes: Prisma.$EpisodeInfoPayload<ExtArgs>[]
+    /**
+     * 随视频文件一起链接的字幕文件
      */
-    episodeInfo: Prisma.$EpisodeInfoPayload<ExtArgs> | null
+    subtitles: Prisma.$SubtitlePayload<ExtArgs>[]
     /**
      * 关联的库文件信息（一对一关系）
      */
@@ -1686,13 +3817,77 @@ export type $FilePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
      */
     parentFolderId: number | null
     /**
-     * 关联媒体的ID
+     * 匹配的路由规则名称，未命中规则时为null
      */
-    mediaId: number | null
+    routingRule: string | null
+    /**
+     * 实际使用的链接方式（hardlink/symlink/reflink/copy），为null时视为硬链接
+     */
+    linkMode: string | null
+    /**
+     * 附加内容类型，即作品目录下的子目录名（如 extras），正片为null
+     */
+    extraType: string | null
+    /**
+     * 分辨率（2160p/1080p/720p/576p/480p）
+     */
+    resolution: string | null
+    /**
+     * 来源（remux/bluray/web-dl/webrip/hdtv/dvd）
+     */
+    source: string | null
+    /**
+     * 视频编码，如 H.265
+     */
+    videoCodec: string | null
+    /**
+     * HDR 格式，如 HDR10、DV HDR10
+     */
+    hdrFormat: string | null
+    /**
+     * 音频编码，如 TrueHD Atmos
+     */
+    audioCodec: string | null
+    /**
+     * 发布组
+     */
+    releaseGroup: string | null
+    /**
+     * 容器格式（matroska/mp4），无法读取时为null
+     */
+    container: string | null
     /**
-     * 关联电视剧单集信息的ID
+     * 时长（秒）
      */
-    episodeInfoId: number | null
+    duration: number | null
+    /**
+     * 主视频轨道的宽度
+     */
+    width: number | null
+    /**
+     * 主视频轨道的高度
+     */
+    height: number | null
+    /**
+     * 轨道、章节和附件（JSON格式）
+     */
+    mediaInfo: string | null
+    /**
+     * 读取媒体信息的时间，未读取时为null
+     */
+    probedAt: Date | null
+    /**
+     * 被更高质量的版本替换的时间，未替换时为null
+     */
+    supersededAt: Date | null
+    /**
+     * 替换该文件的文件ID
+     */
+    supersededById: number | null
+    /**
+     * 关联媒体的ID
+     */
+    mediaId: number | null
   }, ExtArgs["result"]["file"]>
   composites: {}
 }
@@ -2089,8 +4284,13 @@ export interface Prisma__FileClient<T, Null = never, ExtArgs extends runtime.Typ
   readonly [Symbol.toStringTag]: "PrismaPromise"
   parentFolder<T extends Prisma.File$parentFolderArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$parentFolderArgs<ExtArgs>>): Prisma.Prisma__FileClient<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   childFolders<T extends Prisma.File$childFoldersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$childFoldersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  supersededBy<T extends Prisma.File$supersededByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$supersededByArgs<ExtArgs>>): Prisma.Prisma__FileClient<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  supersedes<T extends Prisma.File$supersedesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$supersedesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  upgradesFrom<T extends Prisma.File$upgradesFromArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$upgradesFromArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  upgradesTo<T extends Prisma.File$upgradesToArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$upgradesToArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Media<T extends Prisma.File$MediaArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$MediaArgs<ExtArgs>>): Prisma.Prisma__MediaClient<runtime.Types.Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-  episodeInfo<T extends Prisma.File$episodeInfoArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$episodeInfoArgs<ExtArgs>>): Prisma.Prisma__EpisodeInfoClient<runtime.Types.Result.GetResult<Prisma.$EpisodeInfoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  episodes<T extends Prisma.File$episodesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$episodesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EpisodeInfoPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  subtitles<T extends Prisma.File$subtitlesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$subtitlesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   libraryFile<T extends Prisma.File$libraryFileArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.File$libraryFileArgs<ExtArgs>>): Prisma.Prisma__LibraryClient<runtime.Types.Result.GetResult<Prisma.$LibraryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -2136,8 +4336,24 @@ export interface FileFieldRefs {
   readonly discNumber: Prisma.FieldRef<"File", 'Int'>
   readonly isParentFolder: Prisma.FieldRef<"File", 'Boolean'>
   readonly parentFolderId: Prisma.FieldRef<"File", 'Int'>
+  readonly routingRule: Prisma.FieldRef<"File", 'String'>
+  readonly linkMode: Prisma.FieldRef<"File", 'String'>
+  readonly extraType: Prisma.FieldRef<"File", 'String'>
+  readonly resolution: Prisma.FieldRef<"File", 'String'>
+  readonly source: Prisma.FieldRef<"File", 'String'>
+  readonly videoCodec: Prisma.FieldRef<"File", 'String'>
+  readonly hdrFormat: Prisma.FieldRef<"File", 'String'>
+  readonly audioCodec: Prisma.FieldRef<"File", 'String'>
+  readonly releaseGroup: Prisma.FieldRef<"File", 'String'>
+  readonly container: Prisma.FieldRef<"File", 'String'>
+  readonly duration: Prisma.FieldRef<"File", 'Float'>
+  readonly width: Prisma.FieldRef<"File", 'Int'>
+  readonly height: Prisma.FieldRef<"File", 'Int'>
+  readonly mediaInfo: Prisma.FieldRef<"File", 'String'>
+  readonly probedAt: Prisma.FieldRef<"File", 'DateTime'>
+  readonly supersededAt: Prisma.FieldRef<"File", 'DateTime'>
+  readonly supersededById: Prisma.FieldRef<"File", 'Int'>
   readonly mediaId: Prisma.FieldRef<"File", 'Int'>
-  readonly episodeInfoId: Prisma.FieldRef<"File", 'Int'>
 }
     
 
@@ -2574,6 +4790,97 @@ export type File$childFoldersArgs<ExtArgs extends runtime.Types.Extensions.Inter
   distinct?: Prisma.FileScalarFieldEnum | Prisma.FileScalarFieldEnum[]
 }
 
+/**
+ * File.supersededBy
+ */
+export type File$supersededByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the File
+   */
+  select?: Prisma.FileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the File
+   */
+  omit?: Prisma.FileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileInclude<ExtArgs> | null
+  where?: Prisma.FileWhereInput
+}
+
+/**
+ * File.supersedes
+ */
+export type File$supersedesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the File
+   */
+  select?: Prisma.FileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the File
+   */
+  omit?: Prisma.FileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileInclude<ExtArgs> | null
+  where?: Prisma.FileWhereInput
+  orderBy?: Prisma.FileOrderByWithRelationInput | Prisma.FileOrderByWithRelationInput[]
+  cursor?: Prisma.FileWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.FileScalarFieldEnum | Prisma.FileScalarFieldEnum[]
+}
+
+/**
+ * File.upgradesFrom
+ */
+export type File$upgradesFromArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  where?: Prisma.QualityUpgradeWhereInput
+  orderBy?: Prisma.QualityUpgradeOrderByWithRelationInput | Prisma.QualityUpgradeOrderByWithRelationInput[]
+  cursor?: Prisma.QualityUpgradeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.QualityUpgradeScalarFieldEnum | Prisma.QualityUpgradeScalarFieldEnum[]
+}
+
+/**
+ * File.upgradesTo
+ */
+export type File$upgradesToArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  where?: Prisma.QualityUpgradeWhereInput
+  orderBy?: Prisma.QualityUpgradeOrderByWithRelationInput | Prisma.QualityUpgradeOrderByWithRelationInput[]
+  cursor?: Prisma.QualityUpgradeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.QualityUpgradeScalarFieldEnum | Prisma.QualityUpgradeScalarFieldEnum[]
+}
+
 /**
  * File.Media
  */
@@ -2594,9 +4901,9 @@ export type File$MediaArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs
 }
 
 /**
- * File.episodeInfo
+ * File.episodes
  */
-export type File$episodeInfoArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+export type File$episodesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   /**
    * Select specific fields to fetch from the EpisodeInfo
    */
@@ -2610,6 +4917,35 @@ export type File$episodeInfoArgs<ExtArgs extends runtime.Types.Extensions.Intern
    */
   include?: Prisma.EpisodeInfoInclude<ExtArgs> | null
   where?: Prisma.EpisodeInfoWhereInput
+  orderBy?: Prisma.EpisodeInfoOrderByWithRelationInput | Prisma.EpisodeInfoOrderByWithRelationInput[]
+  cursor?: Prisma.EpisodeInfoWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.EpisodeInfoScalarFieldEnum | Prisma.EpisodeInfoScalarFieldEnum[]
+}
+
+/**
+ * File.subtitles
+ */
+export type File$subtitlesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  where?: Prisma.SubtitleWhereInput
+  orderBy?: Prisma.SubtitleOrderByWithRelationInput | Prisma.SubtitleOrderByWithRelationInput[]
+  cursor?: Prisma.SubtitleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SubtitleScalarFieldEnum | Prisma.SubtitleScalarFieldEnum[]
 }
 
 /**
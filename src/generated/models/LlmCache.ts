@@ -0,0 +1,1328 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `LlmCache` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model LlmCache
+ * LLM 文件名解析结果缓存
+ */
+export type LlmCacheModel = runtime.Types.Result.DefaultSelection<Prisma.$LlmCachePayload>
+
+export type AggregateLlmCache = {
+  _count: LlmCacheCountAggregateOutputType | null
+  _avg: LlmCacheAvgAggregateOutputType | null
+  _sum: LlmCacheSumAggregateOutputType | null
+  _min: LlmCacheMinAggregateOutputType | null
+  _max: LlmCacheMaxAggregateOutputType | null
+}
+
+export type LlmCacheAvgAggregateOutputType = {
+  id: number | null
+  hitCount: number | null
+}
+
+export type LlmCacheSumAggregateOutputType = {
+  id: number | null
+  hitCount: number | null
+}
+
+export type LlmCacheMinAggregateOutputType = {
+  id: number | null
+  cacheKey: string | null
+  fileName: string | null
+  promptHash: string | null
+  model: string | null
+  result: string | null
+  hitCount: number | null
+  expiresAt: Date | null
+  createdAt: Date | null
+}
+
+export type LlmCacheMaxAggregateOutputType = {
+  id: number | null
+  cacheKey: string | null
+  fileName: string | null
+  promptHash: string | null
+  model: string | null
+  result: string | null
+  hitCount: number | null
+  expiresAt: Date | null
+  createdAt: Date | null
+}
+
+export type LlmCacheCountAggregateOutputType = {
+  id: number
+  cacheKey: number
+  fileName: number
+  promptHash: number
+  model: number
+  result: number
+  hitCount: number
+  expiresAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type LlmCacheAvgAggregateInputType = {
+  id?: true
+  hitCount?: true
+}
+
+export type LlmCacheSumAggregateInputType = {
+  id?: true
+  hitCount?: true
+}
+
+export type LlmCacheMinAggregateInputType = {
+  id?: true
+  cacheKey?: true
+  fileName?: true
+  promptHash?: true
+  model?: true
+  result?: true
+  hitCount?: true
+  expiresAt?: true
+  createdAt?: true
+}
+
+export type LlmCacheMaxAggregateInputType = {
+  id?: true
+  cacheKey?: true
+  fileName?: true
+  promptHash?: true
+  model?: true
+  result?: true
+  hitCount?: true
+  expiresAt?: true
+  createdAt?: true
+}
+
+export type LlmCacheCountAggregateInputType = {
+  id?: true
+  cacheKey?: true
+  fileName?: true
+  promptHash?: true
+  model?: true
+  result?: true
+  hitCount?: true
+  expiresAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type LlmCacheAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LlmCache to aggregate.
+   */
+  where?: Prisma.LlmCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LlmCaches to fetch.
+   */
+  orderBy?: Prisma.LlmCacheOrderByWithRelationInput | Prisma.LlmCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LlmCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LlmCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LlmCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned LlmCaches
+  **/
+  _count?: true | LlmCacheCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: LlmCacheAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: LlmCacheSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LlmCacheMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LlmCacheMaxAggregateInputType
+}
+
+export type GetLlmCacheAggregateType<T extends LlmCacheAggregateArgs> = {
+      [P in keyof T & keyof AggregateLlmCache]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLlmCache[P]>
+    : Prisma.GetScalarType<T[P], AggregateLlmCache[P]>
+}
+
+
+
+
+export type LlmCacheGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LlmCacheWhereInput
+  orderBy?: Prisma.LlmCacheOrderByWithAggregationInput | Prisma.LlmCacheOrderByWithAggregationInput[]
+  by: Prisma.LlmCacheScalarFieldEnum[] | Prisma.LlmCacheScalarFieldEnum
+  having?: Prisma.LlmCacheScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LlmCacheCountAggregateInputType | true
+  _avg?: LlmCacheAvgAggregateInputType
+  _sum?: LlmCacheSumAggregateInputType
+  _min?: LlmCacheMinAggregateInputType
+  _max?: LlmCacheMaxAggregateInputType
+}
+
+export type LlmCacheGroupByOutputType = {
+  id: number
+  cacheKey: string
+  fileName: string
+  promptHash: string
+  model: string
+  result: string
+  hitCount: number
+  expiresAt: Date
+  createdAt: Date
+  _count: LlmCacheCountAggregateOutputType | null
+  _avg: LlmCacheAvgAggregateOutputType | null
+  _sum: LlmCacheSumAggregateOutputType | null
+  _min: LlmCacheMinAggregateOutputType | null
+  _max: LlmCacheMaxAggregateOutputType | null
+}
+
+type GetLlmCacheGroupByPayload<T extends LlmCacheGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LlmCacheGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LlmCacheGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LlmCacheGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LlmCacheGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LlmCacheWhereInput = {
+  AND?: Prisma.LlmCacheWhereInput | Prisma.LlmCacheWhereInput[]
+  OR?: Prisma.LlmCacheWhereInput[]
+  NOT?: Prisma.LlmCacheWhereInput | Prisma.LlmCacheWhereInput[]
+  id?: Prisma.IntFilter<"LlmCache"> | number
+  cacheKey?: Prisma.StringFilter<"LlmCache"> | string
+  fileName?: Prisma.StringFilter<"LlmCache"> | string
+  promptHash?: Prisma.StringFilter<"LlmCache"> | string
+  model?: Prisma.StringFilter<"LlmCache"> | string
+  result?: Prisma.StringFilter<"LlmCache"> | string
+  hitCount?: Prisma.IntFilter<"LlmCache"> | number
+  expiresAt?: Prisma.DateTimeFilter<"LlmCache"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"LlmCache"> | Date | string
+}
+
+export type LlmCacheOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  promptHash?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LlmCacheWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  cacheKey?: string
+  AND?: Prisma.LlmCacheWhereInput | Prisma.LlmCacheWhereInput[]
+  OR?: Prisma.LlmCacheWhereInput[]
+  NOT?: Prisma.LlmCacheWhereInput | Prisma.LlmCacheWhereInput[]
+  fileName?: Prisma.StringFilter<"LlmCache"> | string
+  promptHash?: Prisma.StringFilter<"LlmCache"> | string
+  model?: Prisma.StringFilter<"LlmCache"> | string
+  result?: Prisma.StringFilter<"LlmCache"> | string
+  hitCount?: Prisma.IntFilter<"LlmCache"> | number
+  expiresAt?: Prisma.DateTimeFilter<"LlmCache"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"LlmCache"> | Date | string
+}, "id" | "cacheKey">
+
+export type LlmCacheOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  promptHash?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.LlmCacheCountOrderByAggregateInput
+  _avg?: Prisma.LlmCacheAvgOrderByAggregateInput
+  _max?: Prisma.LlmCacheMaxOrderByAggregateInput
+  _min?: Prisma.LlmCacheMinOrderByAggregateInput
+  _sum?: Prisma.LlmCacheSumOrderByAggregateInput
+}
+
+export type LlmCacheScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LlmCacheScalarWhereWithAggregatesInput | Prisma.LlmCacheScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LlmCacheScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LlmCacheScalarWhereWithAggregatesInput | Prisma.LlmCacheScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"LlmCache"> | number
+  cacheKey?: Prisma.StringWithAggregatesFilter<"LlmCache"> | string
+  fileName?: Prisma.StringWithAggregatesFilter<"LlmCache"> | string
+  promptHash?: Prisma.StringWithAggregatesFilter<"LlmCache"> | string
+  model?: Prisma.StringWithAggregatesFilter<"LlmCache"> | string
+  result?: Prisma.StringWithAggregatesFilter<"LlmCache"> | string
+  hitCount?: Prisma.IntWithAggregatesFilter<"LlmCache"> | number
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"LlmCache"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"LlmCache"> | Date | string
+}
+
+export type LlmCacheCreateInput = {
+  cacheKey: string
+  fileName: string
+  promptHash: string
+  model: string
+  result: string
+  hitCount?: number
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type LlmCacheUncheckedCreateInput = {
+  id?: number
+  cacheKey: string
+  fileName: string
+  promptHash: string
+  model: string
+  result: string
+  hitCount?: number
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type LlmCacheUpdateInput = {
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  promptHash?: Prisma.StringFieldUpdateOperationsInput | string
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  result?: Prisma.StringFieldUpdateOperationsInput | string
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LlmCacheUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  promptHash?: Prisma.StringFieldUpdateOperationsInput | string
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  result?: Prisma.StringFieldUpdateOperationsInput | string
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LlmCacheCreateManyInput = {
+  id?: number
+  cacheKey: string
+  fileName: string
+  promptHash: string
+  model: string
+  result: string
+  hitCount?: number
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type LlmCacheUpdateManyMutationInput = {
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  promptHash?: Prisma.StringFieldUpdateOperationsInput | string
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  result?: Prisma.StringFieldUpdateOperationsInput | string
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LlmCacheUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  promptHash?: Prisma.StringFieldUpdateOperationsInput | string
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  result?: Prisma.StringFieldUpdateOperationsInput | string
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LlmCacheCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  promptHash?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LlmCacheAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+}
+
+export type LlmCacheMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  promptHash?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LlmCacheMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  promptHash?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LlmCacheSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+}
+
+
+
+export type LlmCacheSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cacheKey?: boolean
+  fileName?: boolean
+  promptHash?: boolean
+  model?: boolean
+  result?: boolean
+  hitCount?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["llmCache"]>
+
+export type LlmCacheSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cacheKey?: boolean
+  fileName?: boolean
+  promptHash?: boolean
+  model?: boolean
+  result?: boolean
+  hitCount?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["llmCache"]>
+
+export type LlmCacheSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cacheKey?: boolean
+  fileName?: boolean
+  promptHash?: boolean
+  model?: boolean
+  result?: boolean
+  hitCount?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["llmCache"]>
+
+export type LlmCacheSelectScalar = {
+  id?: boolean
+  cacheKey?: boolean
+  fileName?: boolean
+  promptHash?: boolean
+  model?: boolean
+  result?: boolean
+  hitCount?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+}
+
+export type LlmCacheOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "cacheKey" | "fileName" | "promptHash" | "model" | "result" | "hitCount" | "expiresAt" | "createdAt", ExtArgs["result"]["llmCache"]>
+
+export type $LlmCachePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "LlmCache"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * 唯一标识符
+     */
+    id: number
+    /**
+     * 缓存键（标准化文件名、提示词哈希和模型名称的组合哈希）
+     */
+    cacheKey: string
+    /**
+     * 标准化后的文件名
+     */
+    fileName: string
+    /**
+     * 提示词内容哈希
+     */
+    promptHash: string
+    /**
+     * LLM 模型名称
+     */
+    model: string
+    /**
+     * 解析结果（JSON格式）
+     */
+    result: string
+    /**
+     * 命中次数
+     */
+    hitCount: number
+    /**
+     * 过期时间
+     */
+    expiresAt: Date
+    /**
+     * 记录创建时间
+     */
+    createdAt: Date
+  }, ExtArgs["result"]["llmCache"]>
+  composites: {}
+}
+
+export type LlmCacheGetPayload<S extends boolean | null | undefined | LlmCacheDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LlmCachePayload, S>
+
+export type LlmCacheCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LlmCacheFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LlmCacheCountAggregateInputType | true
+  }
+
+export interface LlmCacheDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['LlmCache'], meta: { name: 'LlmCache' } }
+  /**
+   * Find zero or one LlmCache that matches the filter.
+   * @param {LlmCacheFindUniqueArgs} args - Arguments to find a LlmCache
+   * @example
+   * // Get one LlmCache
+   * const llmCache = await prisma.llmCache.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LlmCacheFindUniqueArgs>(args: Prisma.SelectSubset<T, LlmCacheFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one LlmCache that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LlmCacheFindUniqueOrThrowArgs} args - Arguments to find a LlmCache
+   * @example
+   * // Get one LlmCache
+   * const llmCache = await prisma.llmCache.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LlmCacheFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LlmCacheFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LlmCache that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LlmCacheFindFirstArgs} args - Arguments to find a LlmCache
+   * @example
+   * // Get one LlmCache
+   * const llmCache = await prisma.llmCache.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LlmCacheFindFirstArgs>(args?: Prisma.SelectSubset<T, LlmCacheFindFirstArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LlmCache that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LlmCacheFindFirstOrThrowArgs} args - Arguments to find a LlmCache
+   * @example
+   * // Get one LlmCache
+   * const llmCache = await prisma.llmCache.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LlmCacheFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LlmCacheFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more LlmCaches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LlmCacheFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all LlmCaches
+   * const llmCaches = await prisma.llmCache.findMany()
+   * 
+   * // Get first 10 LlmCaches
+   * const llmCaches = await prisma.llmCache.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const llmCacheWithIdOnly = await prisma.llmCache.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends LlmCacheFindManyArgs>(args?: Prisma.SelectSubset<T, LlmCacheFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a LlmCache.
+   * @param {LlmCacheCreateArgs} args - Arguments to create a LlmCache.
+   * @example
+   * // Create one LlmCache
+   * const LlmCache = await prisma.llmCache.create({
+   *   data: {
+   *     // ... data to create a LlmCache
+   *   }
+   * })
+   * 
+   */
+  create<T extends LlmCacheCreateArgs>(args: Prisma.SelectSubset<T, LlmCacheCreateArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many LlmCaches.
+   * @param {LlmCacheCreateManyArgs} args - Arguments to create many LlmCaches.
+   * @example
+   * // Create many LlmCaches
+   * const llmCache = await prisma.llmCache.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LlmCacheCreateManyArgs>(args?: Prisma.SelectSubset<T, LlmCacheCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many LlmCaches and returns the data saved in the database.
+   * @param {LlmCacheCreateManyAndReturnArgs} args - Arguments to create many LlmCaches.
+   * @example
+   * // Create many LlmCaches
+   * const llmCache = await prisma.llmCache.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many LlmCaches and only return the `id`
+   * const llmCacheWithIdOnly = await prisma.llmCache.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LlmCacheCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LlmCacheCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a LlmCache.
+   * @param {LlmCacheDeleteArgs} args - Arguments to delete one LlmCache.
+   * @example
+   * // Delete one LlmCache
+   * const LlmCache = await prisma.llmCache.delete({
+   *   where: {
+   *     // ... filter to delete one LlmCache
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LlmCacheDeleteArgs>(args: Prisma.SelectSubset<T, LlmCacheDeleteArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one LlmCache.
+   * @param {LlmCacheUpdateArgs} args - Arguments to update one LlmCache.
+   * @example
+   * // Update one LlmCache
+   * const llmCache = await prisma.llmCache.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LlmCacheUpdateArgs>(args: Prisma.SelectSubset<T, LlmCacheUpdateArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more LlmCaches.
+   * @param {LlmCacheDeleteManyArgs} args - Arguments to filter LlmCaches to delete.
+   * @example
+   * // Delete a few LlmCaches
+   * const { count } = await prisma.llmCache.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LlmCacheDeleteManyArgs>(args?: Prisma.SelectSubset<T, LlmCacheDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LlmCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LlmCacheUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many LlmCaches
+   * const llmCache = await prisma.llmCache.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LlmCacheUpdateManyArgs>(args: Prisma.SelectSubset<T, LlmCacheUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LlmCaches and returns the data updated in the database.
+   * @param {LlmCacheUpdateManyAndReturnArgs} args - Arguments to update many LlmCaches.
+   * @example
+   * // Update many LlmCaches
+   * const llmCache = await prisma.llmCache.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more LlmCaches and only return the `id`
+   * const llmCacheWithIdOnly = await prisma.llmCache.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LlmCacheUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LlmCacheUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one LlmCache.
+   * @param {LlmCacheUpsertArgs} args - Arguments to update or create a LlmCache.
+   * @example
+   * // Update or create a LlmCache
+   * const llmCache = await prisma.llmCache.upsert({
+   *   create: {
+   *     // ... data to create a LlmCache
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the LlmCache we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LlmCacheUpsertArgs>(args: Prisma.SelectSubset<T, LlmCacheUpsertArgs<ExtArgs>>): Prisma.Prisma__LlmCacheClient<runtime.Types.Result.GetResult<Prisma.$LlmCachePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of LlmCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LlmCacheCountArgs} args - Arguments to filter LlmCaches to count.
+   * @example
+   * // Count the number of LlmCaches
+   * const count = await prisma.llmCache.count({
+   *   where: {
+   *     // ... the filter for the LlmCaches we want to count
+   *   }
+   * })
+  **/
+  count<T extends LlmCacheCountArgs>(
+    args?: Prisma.Subset<T, LlmCacheCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LlmCacheCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a LlmCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LlmCacheAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LlmCacheAggregateArgs>(args: Prisma.Subset<T, LlmCacheAggregateArgs>): Prisma.PrismaPromise<GetLlmCacheAggregateType<T>>
+
+  /**
+   * Group by LlmCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LlmCacheGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LlmCacheGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LlmCacheGroupByArgs['orderBy'] }
+      : { orderBy?: LlmCacheGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LlmCacheGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLlmCacheGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the LlmCache model
+ */
+readonly fields: LlmCacheFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for LlmCache.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LlmCacheClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the LlmCache model
+ */
+export interface LlmCacheFieldRefs {
+  readonly id: Prisma.FieldRef<"LlmCache", 'Int'>
+  readonly cacheKey: Prisma.FieldRef<"LlmCache", 'String'>
+  readonly fileName: Prisma.FieldRef<"LlmCache", 'String'>
+  readonly promptHash: Prisma.FieldRef<"LlmCache", 'String'>
+  readonly model: Prisma.FieldRef<"LlmCache", 'String'>
+  readonly result: Prisma.FieldRef<"LlmCache", 'String'>
+  readonly hitCount: Prisma.FieldRef<"LlmCache", 'Int'>
+  readonly expiresAt: Prisma.FieldRef<"LlmCache", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"LlmCache", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * LlmCache findUnique
+ */
+export type LlmCacheFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which LlmCache to fetch.
+   */
+  where: Prisma.LlmCacheWhereUniqueInput
+}
+
+/**
+ * LlmCache findUniqueOrThrow
+ */
+export type LlmCacheFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which LlmCache to fetch.
+   */
+  where: Prisma.LlmCacheWhereUniqueInput
+}
+
+/**
+ * LlmCache findFirst
+ */
+export type LlmCacheFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which LlmCache to fetch.
+   */
+  where?: Prisma.LlmCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LlmCaches to fetch.
+   */
+  orderBy?: Prisma.LlmCacheOrderByWithRelationInput | Prisma.LlmCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LlmCaches.
+   */
+  cursor?: Prisma.LlmCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LlmCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LlmCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LlmCaches.
+   */
+  distinct?: Prisma.LlmCacheScalarFieldEnum | Prisma.LlmCacheScalarFieldEnum[]
+}
+
+/**
+ * LlmCache findFirstOrThrow
+ */
+export type LlmCacheFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which LlmCache to fetch.
+   */
+  where?: Prisma.LlmCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LlmCaches to fetch.
+   */
+  orderBy?: Prisma.LlmCacheOrderByWithRelationInput | Prisma.LlmCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LlmCaches.
+   */
+  cursor?: Prisma.LlmCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LlmCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LlmCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LlmCaches.
+   */
+  distinct?: Prisma.LlmCacheScalarFieldEnum | Prisma.LlmCacheScalarFieldEnum[]
+}
+
+/**
+ * LlmCache findMany
+ */
+export type LlmCacheFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which LlmCaches to fetch.
+   */
+  where?: Prisma.LlmCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LlmCaches to fetch.
+   */
+  orderBy?: Prisma.LlmCacheOrderByWithRelationInput | Prisma.LlmCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing LlmCaches.
+   */
+  cursor?: Prisma.LlmCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LlmCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LlmCaches.
+   */
+  skip?: number
+  distinct?: Prisma.LlmCacheScalarFieldEnum | Prisma.LlmCacheScalarFieldEnum[]
+}
+
+/**
+ * LlmCache create
+ */
+export type LlmCacheCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to create a LlmCache.
+   */
+  data: Prisma.XOR<Prisma.LlmCacheCreateInput, Prisma.LlmCacheUncheckedCreateInput>
+}
+
+/**
+ * LlmCache createMany
+ */
+export type LlmCacheCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many LlmCaches.
+   */
+  data: Prisma.LlmCacheCreateManyInput | Prisma.LlmCacheCreateManyInput[]
+}
+
+/**
+ * LlmCache createManyAndReturn
+ */
+export type LlmCacheCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * The data used to create many LlmCaches.
+   */
+  data: Prisma.LlmCacheCreateManyInput | Prisma.LlmCacheCreateManyInput[]
+}
+
+/**
+ * LlmCache update
+ */
+export type LlmCacheUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to update a LlmCache.
+   */
+  data: Prisma.XOR<Prisma.LlmCacheUpdateInput, Prisma.LlmCacheUncheckedUpdateInput>
+  /**
+   * Choose, which LlmCache to update.
+   */
+  where: Prisma.LlmCacheWhereUniqueInput
+}
+
+/**
+ * LlmCache updateMany
+ */
+export type LlmCacheUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update LlmCaches.
+   */
+  data: Prisma.XOR<Prisma.LlmCacheUpdateManyMutationInput, Prisma.LlmCacheUncheckedUpdateManyInput>
+  /**
+   * Filter which LlmCaches to update
+   */
+  where?: Prisma.LlmCacheWhereInput
+  /**
+   * Limit how many LlmCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * LlmCache updateManyAndReturn
+ */
+export type LlmCacheUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * The data used to update LlmCaches.
+   */
+  data: Prisma.XOR<Prisma.LlmCacheUpdateManyMutationInput, Prisma.LlmCacheUncheckedUpdateManyInput>
+  /**
+   * Filter which LlmCaches to update
+   */
+  where?: Prisma.LlmCacheWhereInput
+  /**
+   * Limit how many LlmCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * LlmCache upsert
+ */
+export type LlmCacheUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * The filter to search for the LlmCache to update in case it exists.
+   */
+  where: Prisma.LlmCacheWhereUniqueInput
+  /**
+   * In case the LlmCache found by the `where` argument doesn't exist, create a new LlmCache with this data.
+   */
+  create: Prisma.XOR<Prisma.LlmCacheCreateInput, Prisma.LlmCacheUncheckedCreateInput>
+  /**
+   * In case the LlmCache was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LlmCacheUpdateInput, Prisma.LlmCacheUncheckedUpdateInput>
+}
+
+/**
+ * LlmCache delete
+ */
+export type LlmCacheDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+  /**
+   * Filter which LlmCache to delete.
+   */
+  where: Prisma.LlmCacheWhereUniqueInput
+}
+
+/**
+ * LlmCache deleteMany
+ */
+export type LlmCacheDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LlmCaches to delete
+   */
+  where?: Prisma.LlmCacheWhereInput
+  /**
+   * Limit how many LlmCaches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * LlmCache without action
+ */
+export type LlmCacheDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LlmCache
+   */
+  select?: Prisma.LlmCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LlmCache
+   */
+  omit?: Prisma.LlmCacheOmit<ExtArgs> | null
+}
@@ -0,0 +1,1692 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Operation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Operation
+ * 操作日志，记录链接、NFO、目录的创建和删除以及文件记录的变更
+ */
+export type OperationModel = runtime.Types.Result.DefaultSelection<Prisma.$OperationPayload>
+
+export type AggregateOperation = {
+  _count: OperationCountAggregateOutputType | null
+  _avg: OperationAvgAggregateOutputType | null
+  _sum: OperationSumAggregateOutputType | null
+  _min: OperationMinAggregateOutputType | null
+  _max: OperationMaxAggregateOutputType | null
+}
+
+export type OperationAvgAggregateOutputType = {
+  id: number | null
+  deviceId: number | null
+  inode: number | null
+  recordId: number | null
+  groupId: number | null
+}
+
+export type OperationSumAggregateOutputType = {
+  id: number | null
+  deviceId: bigint | null
+  inode: bigint | null
+  recordId: number | null
+  groupId: number | null
+}
+
+export type OperationMinAggregateOutputType = {
+  id: number | null
+  type: string | null
+  path: string | null
+  sourcePath: string | null
+  linkMode: string | null
+  deviceId: bigint | null
+  inode: bigint | null
+  isDirectory: boolean | null
+  recordId: number | null
+  snapshot: string | null
+  createdAt: Date | null
+  groupId: number | null
+}
+
+export type OperationMaxAggregateOutputType = {
+  id: number | null
+  type: string | null
+  path: string | null
+  sourcePath: string | null
+  linkMode: string | null
+  deviceId: bigint | null
+  inode: bigint | null
+  isDirectory: boolean | null
+  recordId: number | null
+  snapshot: string | null
+  createdAt: Date | null
+  groupId: number | null
+}
+
+export type OperationCountAggregateOutputType = {
+  id: number
+  type: number
+  path: number
+  sourcePath: number
+  linkMode: number
+  deviceId: number
+  inode: number
+  isDirectory: number
+  recordId: number
+  snapshot: number
+  createdAt: number
+  groupId: number
+  _all: number
+}
+
+
+export type OperationAvgAggregateInputType = {
+  id?: true
+  deviceId?: true
+  inode?: true
+  recordId?: true
+  groupId?: true
+}
+
+export type OperationSumAggregateInputType = {
+  id?: true
+  deviceId?: true
+  inode?: true
+  recordId?: true
+  groupId?: true
+}
+
+export type OperationMinAggregateInputType = {
+  id?: true
+  type?: true
+  path?: true
+  sourcePath?: true
+  linkMode?: true
+  deviceId?: true
+  inode?: true
+  isDirectory?: true
+  recordId?: true
+  snapshot?: true
+  createdAt?: true
+  groupId?: true
+}
+
+export type OperationMaxAggregateInputType = {
+  id?: true
+  type?: true
+  path?: true
+  sourcePath?: true
+  linkMode?: true
+  deviceId?: true
+  inode?: true
+  isDirectory?: true
+  recordId?: true
+  snapshot?: true
+  createdAt?: true
+  groupId?: true
+}
+
+export type OperationCountAggregateInputType = {
+  id?: true
+  type?: true
+  path?: true
+  sourcePath?: true
+  linkMode?: true
+  deviceId?: true
+  inode?: true
+  isDirectory?: true
+  recordId?: true
+  snapshot?: true
+  createdAt?: true
+  groupId?: true
+  _all?: true
+}
+
+export type OperationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Operation to aggregate.
+   */
+  where?: Prisma.OperationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Operations to fetch.
+   */
+  orderBy?: Prisma.OperationOrderByWithRelationInput | Prisma.OperationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OperationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Operations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Operations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Operations
+  **/
+  _count?: true | OperationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OperationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OperationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OperationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OperationMaxAggregateInputType
+}
+
+export type GetOperationAggregateType<T extends OperationAggregateArgs> = {
+      [P in keyof T & keyof AggregateOperation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOperation[P]>
+    : Prisma.GetScalarType<T[P], AggregateOperation[P]>
+}
+
+
+
+
+export type OperationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OperationWhereInput
+  orderBy?: Prisma.OperationOrderByWithAggregationInput | Prisma.OperationOrderByWithAggregationInput[]
+  by: Prisma.OperationScalarFieldEnum[] | Prisma.OperationScalarFieldEnum
+  having?: Prisma.OperationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OperationCountAggregateInputType | true
+  _avg?: OperationAvgAggregateInputType
+  _sum?: OperationSumAggregateInputType
+  _min?: OperationMinAggregateInputType
+  _max?: OperationMaxAggregateInputType
+}
+
+export type OperationGroupByOutputType = {
+  id: number
+  type: string
+  path: string
+  sourcePath: string | null
+  linkMode: string | null
+  deviceId: bigint | null
+  inode: bigint | null
+  isDirectory: boolean
+  recordId: number | null
+  snapshot: string | null
+  createdAt: Date
+  groupId: number
+  _count: OperationCountAggregateOutputType | null
+  _avg: OperationAvgAggregateOutputType | null
+  _sum: OperationSumAggregateOutputType | null
+  _min: OperationMinAggregateOutputType | null
+  _max: OperationMaxAggregateOutputType | null
+}
+
+type GetOperationGroupByPayload<T extends OperationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OperationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OperationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OperationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OperationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OperationWhereInput = {
+  AND?: Prisma.OperationWhereInput | Prisma.OperationWhereInput[]
+  OR?: Prisma.OperationWhereInput[]
+  NOT?: Prisma.OperationWhereInput | Prisma.OperationWhereInput[]
+  id?: Prisma.IntFilter<"Operation"> | number
+  type?: Prisma.StringFilter<"Operation"> | string
+  path?: Prisma.StringFilter<"Operation"> | string
+  sourcePath?: Prisma.StringNullableFilter<"Operation"> | string | null
+  linkMode?: Prisma.StringNullableFilter<"Operation"> | string | null
+  deviceId?: Prisma.BigIntNullableFilter<"Operation"> | bigint | number | null
+  inode?: Prisma.BigIntNullableFilter<"Operation"> | bigint | number | null
+  isDirectory?: Prisma.BoolFilter<"Operation"> | boolean
+  recordId?: Prisma.IntNullableFilter<"Operation"> | number | null
+  snapshot?: Prisma.StringNullableFilter<"Operation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Operation"> | Date | string
+  groupId?: Prisma.IntFilter<"Operation"> | number
+  group?: Prisma.XOR<Prisma.OperationGroupScalarRelationFilter, Prisma.OperationGroupWhereInput>
+}
+
+export type OperationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrderInput | Prisma.SortOrder
+  linkMode?: Prisma.SortOrderInput | Prisma.SortOrder
+  deviceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  inode?: Prisma.SortOrderInput | Prisma.SortOrder
+  isDirectory?: Prisma.SortOrder
+  recordId?: Prisma.SortOrderInput | Prisma.SortOrder
+  snapshot?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  group?: Prisma.OperationGroupOrderByWithRelationInput
+}
+
+export type OperationWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.OperationWhereInput | Prisma.OperationWhereInput[]
+  OR?: Prisma.OperationWhereInput[]
+  NOT?: Prisma.OperationWhereInput | Prisma.OperationWhereInput[]
+  type?: Prisma.StringFilter<"Operation"> | string
+  path?: Prisma.StringFilter<"Operation"> | string
+  sourcePath?: Prisma.StringNullableFilter<"Operation"> | string | null
+  linkMode?: Prisma.StringNullableFilter<"Operation"> | string | null
+  deviceId?: Prisma.BigIntNullableFilter<"Operation"> | bigint | number | null
+  inode?: Prisma.BigIntNullableFilter<"Operation"> | bigint | number | null
+  isDirectory?: Prisma.BoolFilter<"Operation"> | boolean
+  recordId?: Prisma.IntNullableFilter<"Operation"> | number | null
+  snapshot?: Prisma.StringNullableFilter<"Operation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Operation"> | Date | string
+  groupId?: Prisma.IntFilter<"Operation"> | number
+  group?: Prisma.XOR<Prisma.OperationGroupScalarRelationFilter, Prisma.OperationGroupWhereInput>
+}, "id">
+
+export type OperationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrderInput | Prisma.SortOrder
+  linkMode?: Prisma.SortOrderInput | Prisma.SortOrder
+  deviceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  inode?: Prisma.SortOrderInput | Prisma.SortOrder
+  isDirectory?: Prisma.SortOrder
+  recordId?: Prisma.SortOrderInput | Prisma.SortOrder
+  snapshot?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  _count?: Prisma.OperationCountOrderByAggregateInput
+  _avg?: Prisma.OperationAvgOrderByAggregateInput
+  _max?: Prisma.OperationMaxOrderByAggregateInput
+  _min?: Prisma.OperationMinOrderByAggregateInput
+  _sum?: Prisma.OperationSumOrderByAggregateInput
+}
+
+export type OperationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OperationScalarWhereWithAggregatesInput | Prisma.OperationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OperationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OperationScalarWhereWithAggregatesInput | Prisma.OperationScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"Operation"> | number
+  type?: Prisma.StringWithAggregatesFilter<"Operation"> | string
+  path?: Prisma.StringWithAggregatesFilter<"Operation"> | string
+  sourcePath?: Prisma.StringNullableWithAggregatesFilter<"Operation"> | string | null
+  linkMode?: Prisma.StringNullableWithAggregatesFilter<"Operation"> | string | null
+  deviceId?: Prisma.BigIntNullableWithAggregatesFilter<"Operation"> | bigint | number | null
+  inode?: Prisma.BigIntNullableWithAggregatesFilter<"Operation"> | bigint | number | null
+  isDirectory?: Prisma.BoolWithAggregatesFilter<"Operation"> | boolean
+  recordId?: Prisma.IntNullableWithAggregatesFilter<"Operation"> | number | null
+  snapshot?: Prisma.StringNullableWithAggregatesFilter<"Operation"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Operation"> | Date | string
+  groupId?: Prisma.IntWithAggregatesFilter<"Operation"> | number
+}
+
+export type OperationCreateInput = {
+  type: string
+  path: string
+  sourcePath?: string | null
+  linkMode?: string | null
+  deviceId?: bigint | number | null
+  inode?: bigint | number | null
+  isDirectory?: boolean
+  recordId?: number | null
+  snapshot?: string | null
+  createdAt?: Date | string
+  group: Prisma.OperationGroupCreateNestedOneWithoutOperationsInput
+}
+
+export type OperationUncheckedCreateInput = {
+  id?: number
+  type: string
+  path: string
+  sourcePath?: string | null
+  linkMode?: string | null
+  deviceId?: bigint | number | null
+  inode?: bigint | number | null
+  isDirectory?: boolean
+  recordId?: number | null
+  snapshot?: string | null
+  createdAt?: Date | string
+  groupId: number
+}
+
+export type OperationUpdateInput = {
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deviceId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  inode?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recordId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  snapshot?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  group?: Prisma.OperationGroupUpdateOneRequiredWithoutOperationsNestedInput
+}
+
+export type OperationUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deviceId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  inode?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recordId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  snapshot?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  groupId?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type OperationCreateManyInput = {
+  id?: number
+  type: string
+  path: string
+  sourcePath?: string | null
+  linkMode?: string | null
+  deviceId?: bigint | number | null
+  inode?: bigint | number | null
+  isDirectory?: boolean
+  recordId?: number | null
+  snapshot?: string | null
+  createdAt?: Date | string
+  groupId: number
+}
+
+export type OperationUpdateManyMutationInput = {
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deviceId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  inode?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recordId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  snapshot?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deviceId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  inode?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recordId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  snapshot?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  groupId?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type OperationListRelationFilter = {
+  every?: Prisma.OperationWhereInput
+  some?: Prisma.OperationWhereInput
+  none?: Prisma.OperationWhereInput
+}
+
+export type OperationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OperationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrder
+  linkMode?: Prisma.SortOrder
+  deviceId?: Prisma.SortOrder
+  inode?: Prisma.SortOrder
+  isDirectory?: Prisma.SortOrder
+  recordId?: Prisma.SortOrder
+  snapshot?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+}
+
+export type OperationAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  deviceId?: Prisma.SortOrder
+  inode?: Prisma.SortOrder
+  recordId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+}
+
+export type OperationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrder
+  linkMode?: Prisma.SortOrder
+  deviceId?: Prisma.SortOrder
+  inode?: Prisma.SortOrder
+  isDirectory?: Prisma.SortOrder
+  recordId?: Prisma.SortOrder
+  snapshot?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+}
+
+export type OperationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrder
+  linkMode?: Prisma.SortOrder
+  deviceId?: Prisma.SortOrder
+  inode?: Prisma.SortOrder
+  isDirectory?: Prisma.SortOrder
+  recordId?: Prisma.SortOrder
+  snapshot?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+}
+
+export type OperationSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  deviceId?: Prisma.SortOrder
+  inode?: Prisma.SortOrder
+  recordId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+}
+
+export type OperationCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.OperationCreateWithoutGroupInput, Prisma.OperationUncheckedCreateWithoutGroupInput> | Prisma.OperationCreateWithoutGroupInput[] | Prisma.OperationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.OperationCreateOrConnectWithoutGroupInput | Prisma.OperationCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.OperationCreateManyGroupInputEnvelope
+  connect?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+}
+
+export type OperationUncheckedCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.OperationCreateWithoutGroupInput, Prisma.OperationUncheckedCreateWithoutGroupInput> | Prisma.OperationCreateWithoutGroupInput[] | Prisma.OperationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.OperationCreateOrConnectWithoutGroupInput | Prisma.OperationCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.OperationCreateManyGroupInputEnvelope
+  connect?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+}
+
+export type OperationUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.OperationCreateWithoutGroupInput, Prisma.OperationUncheckedCreateWithoutGroupInput> | Prisma.OperationCreateWithoutGroupInput[] | Prisma.OperationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.OperationCreateOrConnectWithoutGroupInput | Prisma.OperationCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.OperationUpsertWithWhereUniqueWithoutGroupInput | Prisma.OperationUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.OperationCreateManyGroupInputEnvelope
+  set?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  disconnect?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  delete?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  connect?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  update?: Prisma.OperationUpdateWithWhereUniqueWithoutGroupInput | Prisma.OperationUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.OperationUpdateManyWithWhereWithoutGroupInput | Prisma.OperationUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.OperationScalarWhereInput | Prisma.OperationScalarWhereInput[]
+}
+
+export type OperationUncheckedUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.OperationCreateWithoutGroupInput, Prisma.OperationUncheckedCreateWithoutGroupInput> | Prisma.OperationCreateWithoutGroupInput[] | Prisma.OperationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.OperationCreateOrConnectWithoutGroupInput | Prisma.OperationCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.OperationUpsertWithWhereUniqueWithoutGroupInput | Prisma.OperationUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.OperationCreateManyGroupInputEnvelope
+  set?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  disconnect?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  delete?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  connect?: Prisma.OperationWhereUniqueInput | Prisma.OperationWhereUniqueInput[]
+  update?: Prisma.OperationUpdateWithWhereUniqueWithoutGroupInput | Prisma.OperationUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.OperationUpdateManyWithWhereWithoutGroupInput | Prisma.OperationUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.OperationScalarWhereInput | Prisma.OperationScalarWhereInput[]
+}
+
+export type NullableBigIntFieldUpdateOperationsInput = {
+  set?: bigint | number | null
+  increment?: bigint | number
+  decrement?: bigint | number
+  multiply?: bigint | number
+  divide?: bigint | number
+}
+
+export type OperationCreateWithoutGroupInput = {
+  type: string
+  path: string
+  sourcePath?: string | null
+  linkMode?: string | null
+  deviceId?: bigint | number | null
+  inode?: bigint | number | null
+  isDirectory?: boolean
+  recordId?: number | null
+  snapshot?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationUncheckedCreateWithoutGroupInput = {
+  id?: number
+  type: string
+  path: string
+  sourcePath?: string | null
+  linkMode?: string | null
+  deviceId?: bigint | number | null
+  inode?: bigint | number | null
+  isDirectory?: boolean
+  recordId?: number | null
+  snapshot?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationCreateOrConnectWithoutGroupInput = {
+  where: Prisma.OperationWhereUniqueInput
+  create: Prisma.XOR<Prisma.OperationCreateWithoutGroupInput, Prisma.OperationUncheckedCreateWithoutGroupInput>
+}
+
+export type OperationCreateManyGroupInputEnvelope = {
+  data: Prisma.OperationCreateManyGroupInput | Prisma.OperationCreateManyGroupInput[]
+}
+
+export type OperationUpsertWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.OperationWhereUniqueInput
+  update: Prisma.XOR<Prisma.OperationUpdateWithoutGroupInput, Prisma.OperationUncheckedUpdateWithoutGroupInput>
+  create: Prisma.XOR<Prisma.OperationCreateWithoutGroupInput, Prisma.OperationUncheckedCreateWithoutGroupInput>
+}
+
+export type OperationUpdateWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.OperationWhereUniqueInput
+  data: Prisma.XOR<Prisma.OperationUpdateWithoutGroupInput, Prisma.OperationUncheckedUpdateWithoutGroupInput>
+}
+
+export type OperationUpdateManyWithWhereWithoutGroupInput = {
+  where: Prisma.OperationScalarWhereInput
+  data: Prisma.XOR<Prisma.OperationUpdateManyMutationInput, Prisma.OperationUncheckedUpdateManyWithoutGroupInput>
+}
+
+export type OperationScalarWhereInput = {
+  AND?: Prisma.OperationScalarWhereInput | Prisma.OperationScalarWhereInput[]
+  OR?: Prisma.OperationScalarWhereInput[]
+  NOT?: Prisma.OperationScalarWhereInput | Prisma.OperationScalarWhereInput[]
+  id?: Prisma.IntFilter<"Operation"> | number
+  type?: Prisma.StringFilter<"Operation"> | string
+  path?: Prisma.StringFilter<"Operation"> | string
+  sourcePath?: Prisma.StringNullableFilter<"Operation"> | string | null
+  linkMode?: Prisma.StringNullableFilter<"Operation"> | string | null
+  deviceId?: Prisma.BigIntNullableFilter<"Operation"> | bigint | number | null
+  inode?: Prisma.BigIntNullableFilter<"Operation"> | bigint | number | null
+  isDirectory?: Prisma.BoolFilter<"Operation"> | boolean
+  recordId?: Prisma.IntNullableFilter<"Operation"> | number | null
+  snapshot?: Prisma.StringNullableFilter<"Operation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Operation"> | Date | string
+  groupId?: Prisma.IntFilter<"Operation"> | number
+}
+
+export type OperationCreateManyGroupInput = {
+  id?: number
+  type: string
+  path: string
+  sourcePath?: string | null
+  linkMode?: string | null
+  deviceId?: bigint | number | null
+  inode?: bigint | number | null
+  isDirectory?: boolean
+  recordId?: number | null
+  snapshot?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationUpdateWithoutGroupInput = {
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deviceId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  inode?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recordId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  snapshot?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deviceId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  inode?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recordId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  snapshot?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationUncheckedUpdateManyWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  linkMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deviceId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  inode?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  isDirectory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recordId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  snapshot?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type OperationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  type?: boolean
+  path?: boolean
+  sourcePath?: boolean
+  linkMode?: boolean
+  deviceId?: boolean
+  inode?: boolean
+  isDirectory?: boolean
+  recordId?: boolean
+  snapshot?: boolean
+  createdAt?: boolean
+  groupId?: boolean
+  group?: boolean | Prisma.OperationGroupDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["operation"]>
+
+export type OperationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  type?: boolean
+  path?: boolean
+  sourcePath?: boolean
+  linkMode?: boolean
+  deviceId?: boolean
+  inode?: boolean
+  isDirectory?: boolean
+  recordId?: boolean
+  snapshot?: boolean
+  createdAt?: boolean
+  groupId?: boolean
+  group?: boolean | Prisma.OperationGroupDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["operation"]>
+
+export type OperationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  type?: boolean
+  path?: boolean
+  sourcePath?: boolean
+  linkMode?: boolean
+  deviceId?: boolean
+  inode?: boolean
+  isDirectory?: boolean
+  recordId?: boolean
+  snapshot?: boolean
+  createdAt?: boolean
+  groupId?: boolean
+  group?: boolean | Prisma.OperationGroupDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["operation"]>
+
+export type OperationSelectScalar = {
+  id?: boolean
+  type?: boolean
+  path?: boolean
+  sourcePath?: boolean
+  linkMode?: boolean
+  deviceId?: boolean
+  inode?: boolean
+  isDirectory?: boolean
+  recordId?: boolean
+  snapshot?: boolean
+  createdAt?: boolean
+  groupId?: boolean
+}
+
+export type OperationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "type" | "path" | "sourcePath" | "linkMode" | "deviceId" | "inode" | "isDirectory" | "recordId" | "snapshot" | "createdAt" | "groupId", ExtArgs["result"]["operation"]>
+export type OperationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  group?: boolean | Prisma.OperationGroupDefaultArgs<ExtArgs>
+}
+export type OperationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  group?: boolean | Prisma.OperationGroupDefaultArgs<ExtArgs>
+}
+export type OperationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  group?: boolean | Prisma.OperationGroupDefaultArgs<ExtArgs>
+}
+
+export type $OperationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Operation"
+  objects: {
+    /**
+     * 所属分组，分组删除时一起删除
+     */
+    group: Prisma.$OperationGroupPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * 唯一标识符
+     */
+    id: number
+    /**
+     * 操作类型（link/mkdir/nfo/delete/record/media）
+     */
+    type: string
+    /**
+     * 操作的文件或目录路径，record 类型为文件记录的源文件路径，media 类型为媒体标题
+     */
+    path: string
+    /**
+     * 链接对应的源文件路径
+     */
+    sourcePath: string | null
+    /**
+     * 链接方式
+     */
+    linkMode: string | null
+    /**
+     * 操作时文件的设备ID
+     */
+    deviceId: bigint | null
+    /**
+     * 操作时文件的inode，撤销时用于确认文件未被替换或源文件仍然存在
+     */
+    inode: bigint | null
+    /**
+     * 是否为目录
+     */
+    isDirectory: boolean
+    /**
+     * record 类型关联的文件记录ID，media 类型为媒体ID
+     */
+    recordId: number | null
+    /**
+     * 撤销所需的数据（JSON格式），如被覆盖的 NFO 内容、被删除目录的文件列表、变更前的文件记录、被删除的媒体记录
+     */
+    snapshot: string | null
+    /**
+     * 记录创建时间
+     */
+    createdAt: Date
+    /**
+     * 所属分组ID
+     */
+    groupId: number
+  }, ExtArgs["result"]["operation"]>
+  composites: {}
+}
+
+export type OperationGetPayload<S extends boolean | null | undefined | OperationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OperationPayload, S>
+
+export type OperationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OperationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OperationCountAggregateInputType | true
+  }
+
+export interface OperationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Operation'], meta: { name: 'Operation' } }
+  /**
+   * Find zero or one Operation that matches the filter.
+   * @param {OperationFindUniqueArgs} args - Arguments to find a Operation
+   * @example
+   * // Get one Operation
+   * const operation = await prisma.operation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OperationFindUniqueArgs>(args: Prisma.SelectSubset<T, OperationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Operation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OperationFindUniqueOrThrowArgs} args - Arguments to find a Operation
+   * @example
+   * // Get one Operation
+   * const operation = await prisma.operation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OperationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OperationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Operation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationFindFirstArgs} args - Arguments to find a Operation
+   * @example
+   * // Get one Operation
+   * const operation = await prisma.operation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OperationFindFirstArgs>(args?: Prisma.SelectSubset<T, OperationFindFirstArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Operation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationFindFirstOrThrowArgs} args - Arguments to find a Operation
+   * @example
+   * // Get one Operation
+   * const operation = await prisma.operation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OperationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OperationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Operations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Operations
+   * const operations = await prisma.operation.findMany()
+   * 
+   * // Get first 10 Operations
+   * const operations = await prisma.operation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const operationWithIdOnly = await prisma.operation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OperationFindManyArgs>(args?: Prisma.SelectSubset<T, OperationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Operation.
+   * @param {OperationCreateArgs} args - Arguments to create a Operation.
+   * @example
+   * // Create one Operation
+   * const Operation = await prisma.operation.create({
+   *   data: {
+   *     // ... data to create a Operation
+   *   }
+   * })
+   * 
+   */
+  create<T extends OperationCreateArgs>(args: Prisma.SelectSubset<T, OperationCreateArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Operations.
+   * @param {OperationCreateManyArgs} args - Arguments to create many Operations.
+   * @example
+   * // Create many Operations
+   * const operation = await prisma.operation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OperationCreateManyArgs>(args?: Prisma.SelectSubset<T, OperationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Operations and returns the data saved in the database.
+   * @param {OperationCreateManyAndReturnArgs} args - Arguments to create many Operations.
+   * @example
+   * // Create many Operations
+   * const operation = await prisma.operation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Operations and only return the `id`
+   * const operationWithIdOnly = await prisma.operation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OperationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OperationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Operation.
+   * @param {OperationDeleteArgs} args - Arguments to delete one Operation.
+   * @example
+   * // Delete one Operation
+   * const Operation = await prisma.operation.delete({
+   *   where: {
+   *     // ... filter to delete one Operation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OperationDeleteArgs>(args: Prisma.SelectSubset<T, OperationDeleteArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Operation.
+   * @param {OperationUpdateArgs} args - Arguments to update one Operation.
+   * @example
+   * // Update one Operation
+   * const operation = await prisma.operation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OperationUpdateArgs>(args: Prisma.SelectSubset<T, OperationUpdateArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Operations.
+   * @param {OperationDeleteManyArgs} args - Arguments to filter Operations to delete.
+   * @example
+   * // Delete a few Operations
+   * const { count } = await prisma.operation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OperationDeleteManyArgs>(args?: Prisma.SelectSubset<T, OperationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Operations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Operations
+   * const operation = await prisma.operation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OperationUpdateManyArgs>(args: Prisma.SelectSubset<T, OperationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Operations and returns the data updated in the database.
+   * @param {OperationUpdateManyAndReturnArgs} args - Arguments to update many Operations.
+   * @example
+   * // Update many Operations
+   * const operation = await prisma.operation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Operations and only return the `id`
+   * const operationWithIdOnly = await prisma.operation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OperationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OperationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Operation.
+   * @param {OperationUpsertArgs} args - Arguments to update or create a Operation.
+   * @example
+   * // Update or create a Operation
+   * const operation = await prisma.operation.upsert({
+   *   create: {
+   *     // ... data to create a Operation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Operation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OperationUpsertArgs>(args: Prisma.SelectSubset<T, OperationUpsertArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Operations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationCountArgs} args - Arguments to filter Operations to count.
+   * @example
+   * // Count the number of Operations
+   * const count = await prisma.operation.count({
+   *   where: {
+   *     // ... the filter for the Operations we want to count
+   *   }
+   * })
+  **/
+  count<T extends OperationCountArgs>(
+    args?: Prisma.Subset<T, OperationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OperationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Operation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OperationAggregateArgs>(args: Prisma.Subset<T, OperationAggregateArgs>): Prisma.PrismaPromise<GetOperationAggregateType<T>>
+
+  /**
+   * Group by Operation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OperationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OperationGroupByArgs['orderBy'] }
+      : { orderBy?: OperationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OperationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOperationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Operation model
+ */
+readonly fields: OperationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Operation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OperationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  group<T extends Prisma.OperationGroupDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OperationGroupDefaultArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Operation model
+ */
+export interface OperationFieldRefs {
+  readonly id: Prisma.FieldRef<"Operation", 'Int'>
+  readonly type: Prisma.FieldRef<"Operation", 'String'>
+  readonly path: Prisma.FieldRef<"Operation", 'String'>
+  readonly sourcePath: Prisma.FieldRef<"Operation", 'String'>
+  readonly linkMode: Prisma.FieldRef<"Operation", 'String'>
+  readonly deviceId: Prisma.FieldRef<"Operation", 'BigInt'>
+  readonly inode: Prisma.FieldRef<"Operation", 'BigInt'>
+  readonly isDirectory: Prisma.FieldRef<"Operation", 'Boolean'>
+  readonly recordId: Prisma.FieldRef<"Operation", 'Int'>
+  readonly snapshot: Prisma.FieldRef<"Operation", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Operation", 'DateTime'>
+  readonly groupId: Prisma.FieldRef<"Operation", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Operation findUnique
+ */
+export type OperationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * Filter, which Operation to fetch.
+   */
+  where: Prisma.OperationWhereUniqueInput
+}
+
+/**
+ * Operation findUniqueOrThrow
+ */
+export type OperationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * Filter, which Operation to fetch.
+   */
+  where: Prisma.OperationWhereUniqueInput
+}
+
+/**
+ * Operation findFirst
+ */
+export type OperationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * Filter, which Operation to fetch.
+   */
+  where?: Prisma.OperationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Operations to fetch.
+   */
+  orderBy?: Prisma.OperationOrderByWithRelationInput | Prisma.OperationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Operations.
+   */
+  cursor?: Prisma.OperationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Operations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Operations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Operations.
+   */
+  distinct?: Prisma.OperationScalarFieldEnum | Prisma.OperationScalarFieldEnum[]
+}
+
+/**
+ * Operation findFirstOrThrow
+ */
+export type OperationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * Filter, which Operation to fetch.
+   */
+  where?: Prisma.OperationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Operations to fetch.
+   */
+  orderBy?: Prisma.OperationOrderByWithRelationInput | Prisma.OperationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Operations.
+   */
+  cursor?: Prisma.OperationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Operations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Operations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Operations.
+   */
+  distinct?: Prisma.OperationScalarFieldEnum | Prisma.OperationScalarFieldEnum[]
+}
+
+/**
+ * Operation findMany
+ */
+export type OperationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * Filter, which Operations to fetch.
+   */
+  where?: Prisma.OperationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Operations to fetch.
+   */
+  orderBy?: Prisma.OperationOrderByWithRelationInput | Prisma.OperationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Operations.
+   */
+  cursor?: Prisma.OperationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Operations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Operations.
+   */
+  skip?: number
+  distinct?: Prisma.OperationScalarFieldEnum | Prisma.OperationScalarFieldEnum[]
+}
+
+/**
+ * Operation create
+ */
+export type OperationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Operation.
+   */
+  data: Prisma.XOR<Prisma.OperationCreateInput, Prisma.OperationUncheckedCreateInput>
+}
+
+/**
+ * Operation createMany
+ */
+export type OperationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Operations.
+   */
+  data: Prisma.OperationCreateManyInput | Prisma.OperationCreateManyInput[]
+}
+
+/**
+ * Operation createManyAndReturn
+ */
+export type OperationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * The data used to create many Operations.
+   */
+  data: Prisma.OperationCreateManyInput | Prisma.OperationCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Operation update
+ */
+export type OperationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Operation.
+   */
+  data: Prisma.XOR<Prisma.OperationUpdateInput, Prisma.OperationUncheckedUpdateInput>
+  /**
+   * Choose, which Operation to update.
+   */
+  where: Prisma.OperationWhereUniqueInput
+}
+
+/**
+ * Operation updateMany
+ */
+export type OperationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Operations.
+   */
+  data: Prisma.XOR<Prisma.OperationUpdateManyMutationInput, Prisma.OperationUncheckedUpdateManyInput>
+  /**
+   * Filter which Operations to update
+   */
+  where?: Prisma.OperationWhereInput
+  /**
+   * Limit how many Operations to update.
+   */
+  limit?: number
+}
+
+/**
+ * Operation updateManyAndReturn
+ */
+export type OperationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * The data used to update Operations.
+   */
+  data: Prisma.XOR<Prisma.OperationUpdateManyMutationInput, Prisma.OperationUncheckedUpdateManyInput>
+  /**
+   * Filter which Operations to update
+   */
+  where?: Prisma.OperationWhereInput
+  /**
+   * Limit how many Operations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Operation upsert
+ */
+export type OperationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Operation to update in case it exists.
+   */
+  where: Prisma.OperationWhereUniqueInput
+  /**
+   * In case the Operation found by the `where` argument doesn't exist, create a new Operation with this data.
+   */
+  create: Prisma.XOR<Prisma.OperationCreateInput, Prisma.OperationUncheckedCreateInput>
+  /**
+   * In case the Operation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OperationUpdateInput, Prisma.OperationUncheckedUpdateInput>
+}
+
+/**
+ * Operation delete
+ */
+export type OperationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  /**
+   * Filter which Operation to delete.
+   */
+  where: Prisma.OperationWhereUniqueInput
+}
+
+/**
+ * Operation deleteMany
+ */
+export type OperationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Operations to delete
+   */
+  where?: Prisma.OperationWhereInput
+  /**
+   * Limit how many Operations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Operation without action
+ */
+export type OperationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+}
@@ -0,0 +1,1453 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OperationGroup` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model OperationGroup
+ * 操作日志分组，每个队列任务、接口请求或预演计划条目一组，撤销时整组回滚
+ */
+export type OperationGroupModel = runtime.Types.Result.DefaultSelection<Prisma.$OperationGroupPayload>
+
+export type AggregateOperationGroup = {
+  _count: OperationGroupCountAggregateOutputType | null
+  _avg: OperationGroupAvgAggregateOutputType | null
+  _sum: OperationGroupSumAggregateOutputType | null
+  _min: OperationGroupMinAggregateOutputType | null
+  _max: OperationGroupMaxAggregateOutputType | null
+}
+
+export type OperationGroupAvgAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+}
+
+export type OperationGroupSumAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+}
+
+export type OperationGroupMinAggregateOutputType = {
+  id: number | null
+  source: string | null
+  label: string | null
+  taskId: number | null
+  undoneAt: Date | null
+  undoErrors: string | null
+  createdAt: Date | null
+}
+
+export type OperationGroupMaxAggregateOutputType = {
+  id: number | null
+  source: string | null
+  label: string | null
+  taskId: number | null
+  undoneAt: Date | null
+  undoErrors: string | null
+  createdAt: Date | null
+}
+
+export type OperationGroupCountAggregateOutputType = {
+  id: number
+  source: number
+  label: number
+  taskId: number
+  undoneAt: number
+  undoErrors: number
+  createdAt: number
+  _all: number
+}
+
+
+export type OperationGroupAvgAggregateInputType = {
+  id?: true
+  taskId?: true
+}
+
+export type OperationGroupSumAggregateInputType = {
+  id?: true
+  taskId?: true
+}
+
+export type OperationGroupMinAggregateInputType = {
+  id?: true
+  source?: true
+  label?: true
+  taskId?: true
+  undoneAt?: true
+  undoErrors?: true
+  createdAt?: true
+}
+
+export type OperationGroupMaxAggregateInputType = {
+  id?: true
+  source?: true
+  label?: true
+  taskId?: true
+  undoneAt?: true
+  undoErrors?: true
+  createdAt?: true
+}
+
+export type OperationGroupCountAggregateInputType = {
+  id?: true
+  source?: true
+  label?: true
+  taskId?: true
+  undoneAt?: true
+  undoErrors?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type OperationGroupAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OperationGroup to aggregate.
+   */
+  where?: Prisma.OperationGroupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationGroups to fetch.
+   */
+  orderBy?: Prisma.OperationGroupOrderByWithRelationInput | Prisma.OperationGroupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OperationGroupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationGroups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationGroups.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OperationGroups
+  **/
+  _count?: true | OperationGroupCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OperationGroupAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OperationGroupSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OperationGroupMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OperationGroupMaxAggregateInputType
+}
+
+export type GetOperationGroupAggregateType<T extends OperationGroupAggregateArgs> = {
+      [P in keyof T & keyof AggregateOperationGroup]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOperationGroup[P]>
+    : Prisma.GetScalarType<T[P], AggregateOperationGroup[P]>
+}
+
+
+
+
+export type OperationGroupGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OperationGroupWhereInput
+  orderBy?: Prisma.OperationGroupOrderByWithAggregationInput | Prisma.OperationGroupOrderByWithAggregationInput[]
+  by: Prisma.OperationGroupScalarFieldEnum[] | Prisma.OperationGroupScalarFieldEnum
+  having?: Prisma.OperationGroupScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OperationGroupCountAggregateInputType | true
+  _avg?: OperationGroupAvgAggregateInputType
+  _sum?: OperationGroupSumAggregateInputType
+  _min?: OperationGroupMinAggregateInputType
+  _max?: OperationGroupMaxAggregateInputType
+}
+
+export type OperationGroupGroupByOutputType = {
+  id: number
+  source: string
+  label: string
+  taskId: number | null
+  undoneAt: Date | null
+  undoErrors: string | null
+  createdAt: Date
+  _count: OperationGroupCountAggregateOutputType | null
+  _avg: OperationGroupAvgAggregateOutputType | null
+  _sum: OperationGroupSumAggregateOutputType | null
+  _min: OperationGroupMinAggregateOutputType | null
+  _max: OperationGroupMaxAggregateOutputType | null
+}
+
+type GetOperationGroupGroupByPayload<T extends OperationGroupGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OperationGroupGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OperationGroupGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OperationGroupGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OperationGroupGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OperationGroupWhereInput = {
+  AND?: Prisma.OperationGroupWhereInput | Prisma.OperationGroupWhereInput[]
+  OR?: Prisma.OperationGroupWhereInput[]
+  NOT?: Prisma.OperationGroupWhereInput | Prisma.OperationGroupWhereInput[]
+  id?: Prisma.IntFilter<"OperationGroup"> | number
+  source?: Prisma.StringFilter<"OperationGroup"> | string
+  label?: Prisma.StringFilter<"OperationGroup"> | string
+  taskId?: Prisma.IntNullableFilter<"OperationGroup"> | number | null
+  undoneAt?: Prisma.DateTimeNullableFilter<"OperationGroup"> | Date | string | null
+  undoErrors?: Prisma.StringNullableFilter<"OperationGroup"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OperationGroup"> | Date | string
+  operations?: Prisma.OperationListRelationFilter
+}
+
+export type OperationGroupOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  taskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  undoneAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  undoErrors?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  operations?: Prisma.OperationOrderByRelationAggregateInput
+}
+
+export type OperationGroupWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.OperationGroupWhereInput | Prisma.OperationGroupWhereInput[]
+  OR?: Prisma.OperationGroupWhereInput[]
+  NOT?: Prisma.OperationGroupWhereInput | Prisma.OperationGroupWhereInput[]
+  source?: Prisma.StringFilter<"OperationGroup"> | string
+  label?: Prisma.StringFilter<"OperationGroup"> | string
+  taskId?: Prisma.IntNullableFilter<"OperationGroup"> | number | null
+  undoneAt?: Prisma.DateTimeNullableFilter<"OperationGroup"> | Date | string | null
+  undoErrors?: Prisma.StringNullableFilter<"OperationGroup"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OperationGroup"> | Date | string
+  operations?: Prisma.OperationListRelationFilter
+}, "id">
+
+export type OperationGroupOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  taskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  undoneAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  undoErrors?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.OperationGroupCountOrderByAggregateInput
+  _avg?: Prisma.OperationGroupAvgOrderByAggregateInput
+  _max?: Prisma.OperationGroupMaxOrderByAggregateInput
+  _min?: Prisma.OperationGroupMinOrderByAggregateInput
+  _sum?: Prisma.OperationGroupSumOrderByAggregateInput
+}
+
+export type OperationGroupScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OperationGroupScalarWhereWithAggregatesInput | Prisma.OperationGroupScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OperationGroupScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OperationGroupScalarWhereWithAggregatesInput | Prisma.OperationGroupScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"OperationGroup"> | number
+  source?: Prisma.StringWithAggregatesFilter<"OperationGroup"> | string
+  label?: Prisma.StringWithAggregatesFilter<"OperationGroup"> | string
+  taskId?: Prisma.IntNullableWithAggregatesFilter<"OperationGroup"> | number | null
+  undoneAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OperationGroup"> | Date | string | null
+  undoErrors?: Prisma.StringNullableWithAggregatesFilter<"OperationGroup"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OperationGroup"> | Date | string
+}
+
+export type OperationGroupCreateInput = {
+  source: string
+  label: string
+  taskId?: number | null
+  undoneAt?: Date | string | null
+  undoErrors?: string | null
+  createdAt?: Date | string
+  operations?: Prisma.OperationCreateNestedManyWithoutGroupInput
+}
+
+export type OperationGroupUncheckedCreateInput = {
+  id?: number
+  source: string
+  label: string
+  taskId?: number | null
+  undoneAt?: Date | string | null
+  undoErrors?: string | null
+  createdAt?: Date | string
+  operations?: Prisma.OperationUncheckedCreateNestedManyWithoutGroupInput
+}
+
+export type OperationGroupUpdateInput = {
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  undoneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  undoErrors?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operations?: Prisma.OperationUpdateManyWithoutGroupNestedInput
+}
+
+export type OperationGroupUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  undoneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  undoErrors?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operations?: Prisma.OperationUncheckedUpdateManyWithoutGroupNestedInput
+}
+
+export type OperationGroupCreateManyInput = {
+  id?: number
+  source: string
+  label: string
+  taskId?: number | null
+  undoneAt?: Date | string | null
+  undoErrors?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationGroupUpdateManyMutationInput = {
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  undoneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  undoErrors?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationGroupUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  undoneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  undoErrors?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationGroupCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  undoneAt?: Prisma.SortOrder
+  undoErrors?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OperationGroupAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+}
+
+export type OperationGroupMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  undoneAt?: Prisma.SortOrder
+  undoErrors?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OperationGroupMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  undoneAt?: Prisma.SortOrder
+  undoErrors?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OperationGroupSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+}
+
+export type OperationGroupScalarRelationFilter = {
+  is?: Prisma.OperationGroupWhereInput
+  isNot?: Prisma.OperationGroupWhereInput
+}
+
+export type OperationGroupCreateNestedOneWithoutOperationsInput = {
+  create?: Prisma.XOR<Prisma.OperationGroupCreateWithoutOperationsInput, Prisma.OperationGroupUncheckedCreateWithoutOperationsInput>
+  connectOrCreate?: Prisma.OperationGroupCreateOrConnectWithoutOperationsInput
+  connect?: Prisma.OperationGroupWhereUniqueInput
+}
+
+export type OperationGroupUpdateOneRequiredWithoutOperationsNestedInput = {
+  create?: Prisma.XOR<Prisma.OperationGroupCreateWithoutOperationsInput, Prisma.OperationGroupUncheckedCreateWithoutOperationsInput>
+  connectOrCreate?: Prisma.OperationGroupCreateOrConnectWithoutOperationsInput
+  upsert?: Prisma.OperationGroupUpsertWithoutOperationsInput
+  connect?: Prisma.OperationGroupWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OperationGroupUpdateToOneWithWhereWithoutOperationsInput, Prisma.OperationGroupUpdateWithoutOperationsInput>, Prisma.OperationGroupUncheckedUpdateWithoutOperationsInput>
+}
+
+export type OperationGroupCreateWithoutOperationsInput = {
+  source: string
+  label: string
+  taskId?: number | null
+  undoneAt?: Date | string | null
+  undoErrors?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationGroupUncheckedCreateWithoutOperationsInput = {
+  id?: number
+  source: string
+  label: string
+  taskId?: number | null
+  undoneAt?: Date | string | null
+  undoErrors?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationGroupCreateOrConnectWithoutOperationsInput = {
+  where: Prisma.OperationGroupWhereUniqueInput
+  create: Prisma.XOR<Prisma.OperationGroupCreateWithoutOperationsInput, Prisma.OperationGroupUncheckedCreateWithoutOperationsInput>
+}
+
+export type OperationGroupUpsertWithoutOperationsInput = {
+  update: Prisma.XOR<Prisma.OperationGroupUpdateWithoutOperationsInput, Prisma.OperationGroupUncheckedUpdateWithoutOperationsInput>
+  create: Prisma.XOR<Prisma.OperationGroupCreateWithoutOperationsInput, Prisma.OperationGroupUncheckedCreateWithoutOperationsInput>
+  where?: Prisma.OperationGroupWhereInput
+}
+
+export type OperationGroupUpdateToOneWithWhereWithoutOperationsInput = {
+  where?: Prisma.OperationGroupWhereInput
+  data: Prisma.XOR<Prisma.OperationGroupUpdateWithoutOperationsInput, Prisma.OperationGroupUncheckedUpdateWithoutOperationsInput>
+}
+
+export type OperationGroupUpdateWithoutOperationsInput = {
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  undoneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  undoErrors?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationGroupUncheckedUpdateWithoutOperationsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  undoneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  undoErrors?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type OperationGroupCountOutputType
+ */
+
+export type OperationGroupCountOutputType = {
+  operations: number
+}
+
+export type OperationGroupCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operations?: boolean | OperationGroupCountOutputTypeCountOperationsArgs
+}
+
+/**
+ * OperationGroupCountOutputType without action
+ */
+export type OperationGroupCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroupCountOutputType
+   */
+  select?: Prisma.OperationGroupCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * OperationGroupCountOutputType without action
+ */
+export type OperationGroupCountOutputTypeCountOperationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OperationWhereInput
+}
+
+
+export type OperationGroupSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  source?: boolean
+  label?: boolean
+  taskId?: boolean
+  undoneAt?: boolean
+  undoErrors?: boolean
+  createdAt?: boolean
+  operations?: boolean | Prisma.OperationGroup$operationsArgs<ExtArgs>
+  _count?: boolean | Prisma.OperationGroupCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["operationGroup"]>
+
+export type OperationGroupSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  source?: boolean
+  label?: boolean
+  taskId?: boolean
+  undoneAt?: boolean
+  undoErrors?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["operationGroup"]>
+
+export type OperationGroupSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  source?: boolean
+  label?: boolean
+  taskId?: boolean
+  undoneAt?: boolean
+  undoErrors?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["operationGroup"]>
+
+export type OperationGroupSelectScalar = {
+  id?: boolean
+  source?: boolean
+  label?: boolean
+  taskId?: boolean
+  undoneAt?: boolean
+  undoErrors?: boolean
+  createdAt?: boolean
+}
+
+export type OperationGroupOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "source" | "label" | "taskId" | "undoneAt" | "undoErrors" | "createdAt", ExtArgs["result"]["operationGroup"]>
+export type OperationGroupInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operations?: boolean | Prisma.OperationGroup$operationsArgs<ExtArgs>
+  _count?: boolean | Prisma.OperationGroupCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type OperationGroupIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type OperationGroupIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $OperationGroupPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OperationGroup"
+  objects: {
+    /**
+     * 分组内的操作，按ID顺序执行
+     */
+    operations: Prisma.$OperationPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * 唯一标识符
+     */
+    id: number
+    /**
+     * 来源（queue/api/plan/monitor）
+     */
+    source: string
+    /**
+     * 描述（任务文件名、请求路径等）
+     */
+    label: string
+    /**
+     * 关联的队列任务ID
+     */
+    taskId: number | null
+    /**
+     * 撤销时间，未撤销时为null
+     */
+    undoneAt: Date | null
+    /**
+     * 撤销时未能回滚的操作（JSON格式）
+     */
+    undoErrors: string | null
+    /**
+     * 记录创建时间
+     */
+    createdAt: Date
+  }, ExtArgs["result"]["operationGroup"]>
+  composites: {}
+}
+
+export type OperationGroupGetPayload<S extends boolean | null | undefined | OperationGroupDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload, S>
+
+export type OperationGroupCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OperationGroupFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OperationGroupCountAggregateInputType | true
+  }
+
+export interface OperationGroupDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OperationGroup'], meta: { name: 'OperationGroup' } }
+  /**
+   * Find zero or one OperationGroup that matches the filter.
+   * @param {OperationGroupFindUniqueArgs} args - Arguments to find a OperationGroup
+   * @example
+   * // Get one OperationGroup
+   * const operationGroup = await prisma.operationGroup.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OperationGroupFindUniqueArgs>(args: Prisma.SelectSubset<T, OperationGroupFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OperationGroup that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OperationGroupFindUniqueOrThrowArgs} args - Arguments to find a OperationGroup
+   * @example
+   * // Get one OperationGroup
+   * const operationGroup = await prisma.operationGroup.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OperationGroupFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OperationGroupFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OperationGroup that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupFindFirstArgs} args - Arguments to find a OperationGroup
+   * @example
+   * // Get one OperationGroup
+   * const operationGroup = await prisma.operationGroup.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OperationGroupFindFirstArgs>(args?: Prisma.SelectSubset<T, OperationGroupFindFirstArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OperationGroup that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupFindFirstOrThrowArgs} args - Arguments to find a OperationGroup
+   * @example
+   * // Get one OperationGroup
+   * const operationGroup = await prisma.operationGroup.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OperationGroupFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OperationGroupFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OperationGroups that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OperationGroups
+   * const operationGroups = await prisma.operationGroup.findMany()
+   * 
+   * // Get first 10 OperationGroups
+   * const operationGroups = await prisma.operationGroup.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const operationGroupWithIdOnly = await prisma.operationGroup.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OperationGroupFindManyArgs>(args?: Prisma.SelectSubset<T, OperationGroupFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OperationGroup.
+   * @param {OperationGroupCreateArgs} args - Arguments to create a OperationGroup.
+   * @example
+   * // Create one OperationGroup
+   * const OperationGroup = await prisma.operationGroup.create({
+   *   data: {
+   *     // ... data to create a OperationGroup
+   *   }
+   * })
+   * 
+   */
+  create<T extends OperationGroupCreateArgs>(args: Prisma.SelectSubset<T, OperationGroupCreateArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OperationGroups.
+   * @param {OperationGroupCreateManyArgs} args - Arguments to create many OperationGroups.
+   * @example
+   * // Create many OperationGroups
+   * const operationGroup = await prisma.operationGroup.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OperationGroupCreateManyArgs>(args?: Prisma.SelectSubset<T, OperationGroupCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OperationGroups and returns the data saved in the database.
+   * @param {OperationGroupCreateManyAndReturnArgs} args - Arguments to create many OperationGroups.
+   * @example
+   * // Create many OperationGroups
+   * const operationGroup = await prisma.operationGroup.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OperationGroups and only return the `id`
+   * const operationGroupWithIdOnly = await prisma.operationGroup.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OperationGroupCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OperationGroupCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OperationGroup.
+   * @param {OperationGroupDeleteArgs} args - Arguments to delete one OperationGroup.
+   * @example
+   * // Delete one OperationGroup
+   * const OperationGroup = await prisma.operationGroup.delete({
+   *   where: {
+   *     // ... filter to delete one OperationGroup
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OperationGroupDeleteArgs>(args: Prisma.SelectSubset<T, OperationGroupDeleteArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OperationGroup.
+   * @param {OperationGroupUpdateArgs} args - Arguments to update one OperationGroup.
+   * @example
+   * // Update one OperationGroup
+   * const operationGroup = await prisma.operationGroup.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OperationGroupUpdateArgs>(args: Prisma.SelectSubset<T, OperationGroupUpdateArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OperationGroups.
+   * @param {OperationGroupDeleteManyArgs} args - Arguments to filter OperationGroups to delete.
+   * @example
+   * // Delete a few OperationGroups
+   * const { count } = await prisma.operationGroup.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OperationGroupDeleteManyArgs>(args?: Prisma.SelectSubset<T, OperationGroupDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OperationGroups.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OperationGroups
+   * const operationGroup = await prisma.operationGroup.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OperationGroupUpdateManyArgs>(args: Prisma.SelectSubset<T, OperationGroupUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OperationGroups and returns the data updated in the database.
+   * @param {OperationGroupUpdateManyAndReturnArgs} args - Arguments to update many OperationGroups.
+   * @example
+   * // Update many OperationGroups
+   * const operationGroup = await prisma.operationGroup.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OperationGroups and only return the `id`
+   * const operationGroupWithIdOnly = await prisma.operationGroup.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OperationGroupUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OperationGroupUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OperationGroup.
+   * @param {OperationGroupUpsertArgs} args - Arguments to update or create a OperationGroup.
+   * @example
+   * // Update or create a OperationGroup
+   * const operationGroup = await prisma.operationGroup.upsert({
+   *   create: {
+   *     // ... data to create a OperationGroup
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OperationGroup we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OperationGroupUpsertArgs>(args: Prisma.SelectSubset<T, OperationGroupUpsertArgs<ExtArgs>>): Prisma.Prisma__OperationGroupClient<runtime.Types.Result.GetResult<Prisma.$OperationGroupPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OperationGroups.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupCountArgs} args - Arguments to filter OperationGroups to count.
+   * @example
+   * // Count the number of OperationGroups
+   * const count = await prisma.operationGroup.count({
+   *   where: {
+   *     // ... the filter for the OperationGroups we want to count
+   *   }
+   * })
+  **/
+  count<T extends OperationGroupCountArgs>(
+    args?: Prisma.Subset<T, OperationGroupCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OperationGroupCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OperationGroup.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OperationGroupAggregateArgs>(args: Prisma.Subset<T, OperationGroupAggregateArgs>): Prisma.PrismaPromise<GetOperationGroupAggregateType<T>>
+
+  /**
+   * Group by OperationGroup.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationGroupGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OperationGroupGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OperationGroupGroupByArgs['orderBy'] }
+      : { orderBy?: OperationGroupGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OperationGroupGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOperationGroupGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OperationGroup model
+ */
+readonly fields: OperationGroupFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OperationGroup.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OperationGroupClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  operations<T extends Prisma.OperationGroup$operationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OperationGroup$operationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OperationGroup model
+ */
+export interface OperationGroupFieldRefs {
+  readonly id: Prisma.FieldRef<"OperationGroup", 'Int'>
+  readonly source: Prisma.FieldRef<"OperationGroup", 'String'>
+  readonly label: Prisma.FieldRef<"OperationGroup", 'String'>
+  readonly taskId: Prisma.FieldRef<"OperationGroup", 'Int'>
+  readonly undoneAt: Prisma.FieldRef<"OperationGroup", 'DateTime'>
+  readonly undoErrors: Prisma.FieldRef<"OperationGroup", 'String'>
+  readonly createdAt: Prisma.FieldRef<"OperationGroup", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OperationGroup findUnique
+ */
+export type OperationGroupFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationGroup to fetch.
+   */
+  where: Prisma.OperationGroupWhereUniqueInput
+}
+
+/**
+ * OperationGroup findUniqueOrThrow
+ */
+export type OperationGroupFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationGroup to fetch.
+   */
+  where: Prisma.OperationGroupWhereUniqueInput
+}
+
+/**
+ * OperationGroup findFirst
+ */
+export type OperationGroupFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationGroup to fetch.
+   */
+  where?: Prisma.OperationGroupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationGroups to fetch.
+   */
+  orderBy?: Prisma.OperationGroupOrderByWithRelationInput | Prisma.OperationGroupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OperationGroups.
+   */
+  cursor?: Prisma.OperationGroupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationGroups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationGroups.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OperationGroups.
+   */
+  distinct?: Prisma.OperationGroupScalarFieldEnum | Prisma.OperationGroupScalarFieldEnum[]
+}
+
+/**
+ * OperationGroup findFirstOrThrow
+ */
+export type OperationGroupFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationGroup to fetch.
+   */
+  where?: Prisma.OperationGroupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationGroups to fetch.
+   */
+  orderBy?: Prisma.OperationGroupOrderByWithRelationInput | Prisma.OperationGroupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OperationGroups.
+   */
+  cursor?: Prisma.OperationGroupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationGroups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationGroups.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OperationGroups.
+   */
+  distinct?: Prisma.OperationGroupScalarFieldEnum | Prisma.OperationGroupScalarFieldEnum[]
+}
+
+/**
+ * OperationGroup findMany
+ */
+export type OperationGroupFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationGroups to fetch.
+   */
+  where?: Prisma.OperationGroupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationGroups to fetch.
+   */
+  orderBy?: Prisma.OperationGroupOrderByWithRelationInput | Prisma.OperationGroupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OperationGroups.
+   */
+  cursor?: Prisma.OperationGroupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationGroups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationGroups.
+   */
+  skip?: number
+  distinct?: Prisma.OperationGroupScalarFieldEnum | Prisma.OperationGroupScalarFieldEnum[]
+}
+
+/**
+ * OperationGroup create
+ */
+export type OperationGroupCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * The data needed to create a OperationGroup.
+   */
+  data: Prisma.XOR<Prisma.OperationGroupCreateInput, Prisma.OperationGroupUncheckedCreateInput>
+}
+
+/**
+ * OperationGroup createMany
+ */
+export type OperationGroupCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OperationGroups.
+   */
+  data: Prisma.OperationGroupCreateManyInput | Prisma.OperationGroupCreateManyInput[]
+}
+
+/**
+ * OperationGroup createManyAndReturn
+ */
+export type OperationGroupCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * The data used to create many OperationGroups.
+   */
+  data: Prisma.OperationGroupCreateManyInput | Prisma.OperationGroupCreateManyInput[]
+}
+
+/**
+ * OperationGroup update
+ */
+export type OperationGroupUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * The data needed to update a OperationGroup.
+   */
+  data: Prisma.XOR<Prisma.OperationGroupUpdateInput, Prisma.OperationGroupUncheckedUpdateInput>
+  /**
+   * Choose, which OperationGroup to update.
+   */
+  where: Prisma.OperationGroupWhereUniqueInput
+}
+
+/**
+ * OperationGroup updateMany
+ */
+export type OperationGroupUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OperationGroups.
+   */
+  data: Prisma.XOR<Prisma.OperationGroupUpdateManyMutationInput, Prisma.OperationGroupUncheckedUpdateManyInput>
+  /**
+   * Filter which OperationGroups to update
+   */
+  where?: Prisma.OperationGroupWhereInput
+  /**
+   * Limit how many OperationGroups to update.
+   */
+  limit?: number
+}
+
+/**
+ * OperationGroup updateManyAndReturn
+ */
+export type OperationGroupUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * The data used to update OperationGroups.
+   */
+  data: Prisma.XOR<Prisma.OperationGroupUpdateManyMutationInput, Prisma.OperationGroupUncheckedUpdateManyInput>
+  /**
+   * Filter which OperationGroups to update
+   */
+  where?: Prisma.OperationGroupWhereInput
+  /**
+   * Limit how many OperationGroups to update.
+   */
+  limit?: number
+}
+
+/**
+ * OperationGroup upsert
+ */
+export type OperationGroupUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * The filter to search for the OperationGroup to update in case it exists.
+   */
+  where: Prisma.OperationGroupWhereUniqueInput
+  /**
+   * In case the OperationGroup found by the `where` argument doesn't exist, create a new OperationGroup with this data.
+   */
+  create: Prisma.XOR<Prisma.OperationGroupCreateInput, Prisma.OperationGroupUncheckedCreateInput>
+  /**
+   * In case the OperationGroup was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OperationGroupUpdateInput, Prisma.OperationGroupUncheckedUpdateInput>
+}
+
+/**
+ * OperationGroup delete
+ */
+export type OperationGroupDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+  /**
+   * Filter which OperationGroup to delete.
+   */
+  where: Prisma.OperationGroupWhereUniqueInput
+}
+
+/**
+ * OperationGroup deleteMany
+ */
+export type OperationGroupDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OperationGroups to delete
+   */
+  where?: Prisma.OperationGroupWhereInput
+  /**
+   * Limit how many OperationGroups to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OperationGroup.operations
+ */
+export type OperationGroup$operationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Operation
+   */
+  select?: Prisma.OperationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Operation
+   */
+  omit?: Prisma.OperationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationInclude<ExtArgs> | null
+  where?: Prisma.OperationWhereInput
+  orderBy?: Prisma.OperationOrderByWithRelationInput | Prisma.OperationOrderByWithRelationInput[]
+  cursor?: Prisma.OperationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OperationScalarFieldEnum | Prisma.OperationScalarFieldEnum[]
+}
+
+/**
+ * OperationGroup without action
+ */
+export type OperationGroupDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationGroup
+   */
+  select?: Prisma.OperationGroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationGroup
+   */
+  omit?: Prisma.OperationGroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationGroupInclude<ExtArgs> | null
+}
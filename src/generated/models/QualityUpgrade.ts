@@ -0,0 +1,2015 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `QualityUpgrade` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model QualityUpgrade
+ * 质量升级历史表，每次更高质量的版本替换已有链接时按集（电影为整部）记录一条
+ */
+export type QualityUpgradeModel = runtime.Types.Result.DefaultSelection<Prisma.$QualityUpgradePayload>
+
+export type AggregateQualityUpgrade = {
+  _count: QualityUpgradeCountAggregateOutputType | null
+  _avg: QualityUpgradeAvgAggregateOutputType | null
+  _sum: QualityUpgradeSumAggregateOutputType | null
+  _min: QualityUpgradeMinAggregateOutputType | null
+  _max: QualityUpgradeMaxAggregateOutputType | null
+}
+
+export type QualityUpgradeAvgAggregateOutputType = {
+  id: number | null
+  mediaId: number | null
+  episodeId: number | null
+  fromFileId: number | null
+  toFileId: number | null
+}
+
+export type QualityUpgradeSumAggregateOutputType = {
+  id: number | null
+  mediaId: number | null
+  episodeId: number | null
+  fromFileId: number | null
+  toFileId: number | null
+}
+
+export type QualityUpgradeMinAggregateOutputType = {
+  id: number | null
+  mediaId: number | null
+  fromPath: string | null
+  toPath: string | null
+  linkPath: string | null
+  fromQuality: string | null
+  toQuality: string | null
+  createdAt: Date | null
+  episodeId: number | null
+  fromFileId: number | null
+  toFileId: number | null
+}
+
+export type QualityUpgradeMaxAggregateOutputType = {
+  id: number | null
+  mediaId: number | null
+  fromPath: string | null
+  toPath: string | null
+  linkPath: string | null
+  fromQuality: string | null
+  toQuality: string | null
+  createdAt: Date | null
+  episodeId: number | null
+  fromFileId: number | null
+  toFileId: number | null
+}
+
+export type QualityUpgradeCountAggregateOutputType = {
+  id: number
+  mediaId: number
+  fromPath: number
+  toPath: number
+  linkPath: number
+  fromQuality: number
+  toQuality: number
+  createdAt: number
+  episodeId: number
+  fromFileId: number
+  toFileId: number
+  _all: number
+}
+
+
+export type QualityUpgradeAvgAggregateInputType = {
+  id?: true
+  mediaId?: true
+  episodeId?: true
+  fromFileId?: true
+  toFileId?: true
+}
+
+export type QualityUpgradeSumAggregateInputType = {
+  id?: true
+  mediaId?: true
+  episodeId?: true
+  fromFileId?: true
+  toFileId?: true
+}
+
+export type QualityUpgradeMinAggregateInputType = {
+  id?: true
+  mediaId?: true
+  fromPath?: true
+  toPath?: true
+  linkPath?: true
+  fromQuality?: true
+  toQuality?: true
+  createdAt?: true
+  episodeId?: true
+  fromFileId?: true
+  toFileId?: true
+}
+
+export type QualityUpgradeMaxAggregateInputType = {
+  id?: true
+  mediaId?: true
+  fromPath?: true
+  toPath?: true
+  linkPath?: true
+  fromQuality?: true
+  toQuality?: true
+  createdAt?: true
+  episodeId?: true
+  fromFileId?: true
+  toFileId?: true
+}
+
+export type QualityUpgradeCountAggregateInputType = {
+  id?: true
+  mediaId?: true
+  fromPath?: true
+  toPath?: true
+  linkPath?: true
+  fromQuality?: true
+  toQuality?: true
+  createdAt?: true
+  episodeId?: true
+  fromFileId?: true
+  toFileId?: true
+  _all?: true
+}
+
+export type QualityUpgradeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which QualityUpgrade to aggregate.
+   */
+  where?: Prisma.QualityUpgradeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QualityUpgrades to fetch.
+   */
+  orderBy?: Prisma.QualityUpgradeOrderByWithRelationInput | Prisma.QualityUpgradeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.QualityUpgradeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QualityUpgrades from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QualityUpgrades.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned QualityUpgrades
+  **/
+  _count?: true | QualityUpgradeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: QualityUpgradeAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: QualityUpgradeSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: QualityUpgradeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: QualityUpgradeMaxAggregateInputType
+}
+
+export type GetQualityUpgradeAggregateType<T extends QualityUpgradeAggregateArgs> = {
+      [P in keyof T & keyof AggregateQualityUpgrade]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateQualityUpgrade[P]>
+    : Prisma.GetScalarType<T[P], AggregateQualityUpgrade[P]>
+}
+
+
+
+
+export type QualityUpgradeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QualityUpgradeWhereInput
+  orderBy?: Prisma.QualityUpgradeOrderByWithAggregationInput | Prisma.QualityUpgradeOrderByWithAggregationInput[]
+  by: Prisma.QualityUpgradeScalarFieldEnum[] | Prisma.QualityUpgradeScalarFieldEnum
+  having?: Prisma.QualityUpgradeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: QualityUpgradeCountAggregateInputType | true
+  _avg?: QualityUpgradeAvgAggregateInputType
+  _sum?: QualityUpgradeSumAggregateInputType
+  _min?: QualityUpgradeMinAggregateInputType
+  _max?: QualityUpgradeMaxAggregateInputType
+}
+
+export type QualityUpgradeGroupByOutputType = {
+  id: number
+  mediaId: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt: Date
+  episodeId: number | null
+  fromFileId: number | null
+  toFileId: number | null
+  _count: QualityUpgradeCountAggregateOutputType | null
+  _avg: QualityUpgradeAvgAggregateOutputType | null
+  _sum: QualityUpgradeSumAggregateOutputType | null
+  _min: QualityUpgradeMinAggregateOutputType | null
+  _max: QualityUpgradeMaxAggregateOutputType | null
+}
+
+type GetQualityUpgradeGroupByPayload<T extends QualityUpgradeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<QualityUpgradeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof QualityUpgradeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], QualityUpgradeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], QualityUpgradeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type QualityUpgradeWhereInput = {
+  AND?: Prisma.QualityUpgradeWhereInput | Prisma.QualityUpgradeWhereInput[]
+  OR?: Prisma.QualityUpgradeWhereInput[]
+  NOT?: Prisma.QualityUpgradeWhereInput | Prisma.QualityUpgradeWhereInput[]
+  id?: Prisma.IntFilter<"QualityUpgrade"> | number
+  mediaId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  fromPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  toPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  linkPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  fromQuality?: Prisma.StringFilter<"QualityUpgrade"> | string
+  toQuality?: Prisma.StringFilter<"QualityUpgrade"> | string
+  createdAt?: Prisma.DateTimeFilter<"QualityUpgrade"> | Date | string
+  episodeId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  fromFileId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  toFileId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  episode?: Prisma.XOR<Prisma.EpisodeInfoNullableScalarRelationFilter, Prisma.EpisodeInfoWhereInput> | null
+  fromFile?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+  toFile?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+}
+
+export type QualityUpgradeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  mediaId?: Prisma.SortOrderInput | Prisma.SortOrder
+  fromPath?: Prisma.SortOrder
+  toPath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  fromQuality?: Prisma.SortOrder
+  toQuality?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  episodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  fromFileId?: Prisma.SortOrderInput | Prisma.SortOrder
+  toFileId?: Prisma.SortOrderInput | Prisma.SortOrder
+  episode?: Prisma.EpisodeInfoOrderByWithRelationInput
+  fromFile?: Prisma.FileOrderByWithRelationInput
+  toFile?: Prisma.FileOrderByWithRelationInput
+}
+
+export type QualityUpgradeWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.QualityUpgradeWhereInput | Prisma.QualityUpgradeWhereInput[]
+  OR?: Prisma.QualityUpgradeWhereInput[]
+  NOT?: Prisma.QualityUpgradeWhereInput | Prisma.QualityUpgradeWhereInput[]
+  mediaId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  fromPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  toPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  linkPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  fromQuality?: Prisma.StringFilter<"QualityUpgrade"> | string
+  toQuality?: Prisma.StringFilter<"QualityUpgrade"> | string
+  createdAt?: Prisma.DateTimeFilter<"QualityUpgrade"> | Date | string
+  episodeId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  fromFileId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  toFileId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  episode?: Prisma.XOR<Prisma.EpisodeInfoNullableScalarRelationFilter, Prisma.EpisodeInfoWhereInput> | null
+  fromFile?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+  toFile?: Prisma.XOR<Prisma.FileNullableScalarRelationFilter, Prisma.FileWhereInput> | null
+}, "id">
+
+export type QualityUpgradeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  mediaId?: Prisma.SortOrderInput | Prisma.SortOrder
+  fromPath?: Prisma.SortOrder
+  toPath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  fromQuality?: Prisma.SortOrder
+  toQuality?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  episodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  fromFileId?: Prisma.SortOrderInput | Prisma.SortOrder
+  toFileId?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.QualityUpgradeCountOrderByAggregateInput
+  _avg?: Prisma.QualityUpgradeAvgOrderByAggregateInput
+  _max?: Prisma.QualityUpgradeMaxOrderByAggregateInput
+  _min?: Prisma.QualityUpgradeMinOrderByAggregateInput
+  _sum?: Prisma.QualityUpgradeSumOrderByAggregateInput
+}
+
+export type QualityUpgradeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.QualityUpgradeScalarWhereWithAggregatesInput | Prisma.QualityUpgradeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.QualityUpgradeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.QualityUpgradeScalarWhereWithAggregatesInput | Prisma.QualityUpgradeScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"QualityUpgrade"> | number
+  mediaId?: Prisma.IntNullableWithAggregatesFilter<"QualityUpgrade"> | number | null
+  fromPath?: Prisma.StringWithAggregatesFilter<"QualityUpgrade"> | string
+  toPath?: Prisma.StringWithAggregatesFilter<"QualityUpgrade"> | string
+  linkPath?: Prisma.StringWithAggregatesFilter<"QualityUpgrade"> | string
+  fromQuality?: Prisma.StringWithAggregatesFilter<"QualityUpgrade"> | string
+  toQuality?: Prisma.StringWithAggregatesFilter<"QualityUpgrade"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"QualityUpgrade"> | Date | string
+  episodeId?: Prisma.IntNullableWithAggregatesFilter<"QualityUpgrade"> | number | null
+  fromFileId?: Prisma.IntNullableWithAggregatesFilter<"QualityUpgrade"> | number | null
+  toFileId?: Prisma.IntNullableWithAggregatesFilter<"QualityUpgrade"> | number | null
+}
+
+export type QualityUpgradeCreateInput = {
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episode?: Prisma.EpisodeInfoCreateNestedOneWithoutUpgradesInput
+  fromFile?: Prisma.FileCreateNestedOneWithoutUpgradesFromInput
+  toFile?: Prisma.FileCreateNestedOneWithoutUpgradesToInput
+}
+
+export type QualityUpgradeUncheckedCreateInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episodeId?: number | null
+  fromFileId?: number | null
+  toFileId?: number | null
+}
+
+export type QualityUpgradeUpdateInput = {
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episode?: Prisma.EpisodeInfoUpdateOneWithoutUpgradesNestedInput
+  fromFile?: Prisma.FileUpdateOneWithoutUpgradesFromNestedInput
+  toFile?: Prisma.FileUpdateOneWithoutUpgradesToNestedInput
+}
+
+export type QualityUpgradeUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episodeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type QualityUpgradeCreateManyInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episodeId?: number | null
+  fromFileId?: number | null
+  toFileId?: number | null
+}
+
+export type QualityUpgradeUpdateManyMutationInput = {
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QualityUpgradeUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episodeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type QualityUpgradeListRelationFilter = {
+  every?: Prisma.QualityUpgradeWhereInput
+  some?: Prisma.QualityUpgradeWhereInput
+  none?: Prisma.QualityUpgradeWhereInput
+}
+
+export type QualityUpgradeOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type QualityUpgradeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  mediaId?: Prisma.SortOrder
+  fromPath?: Prisma.SortOrder
+  toPath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  fromQuality?: Prisma.SortOrder
+  toQuality?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  episodeId?: Prisma.SortOrder
+  fromFileId?: Prisma.SortOrder
+  toFileId?: Prisma.SortOrder
+}
+
+export type QualityUpgradeAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  mediaId?: Prisma.SortOrder
+  episodeId?: Prisma.SortOrder
+  fromFileId?: Prisma.SortOrder
+  toFileId?: Prisma.SortOrder
+}
+
+export type QualityUpgradeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  mediaId?: Prisma.SortOrder
+  fromPath?: Prisma.SortOrder
+  toPath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  fromQuality?: Prisma.SortOrder
+  toQuality?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  episodeId?: Prisma.SortOrder
+  fromFileId?: Prisma.SortOrder
+  toFileId?: Prisma.SortOrder
+}
+
+export type QualityUpgradeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  mediaId?: Prisma.SortOrder
+  fromPath?: Prisma.SortOrder
+  toPath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  fromQuality?: Prisma.SortOrder
+  toQuality?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  episodeId?: Prisma.SortOrder
+  fromFileId?: Prisma.SortOrder
+  toFileId?: Prisma.SortOrder
+}
+
+export type QualityUpgradeSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  mediaId?: Prisma.SortOrder
+  episodeId?: Prisma.SortOrder
+  fromFileId?: Prisma.SortOrder
+  toFileId?: Prisma.SortOrder
+}
+
+export type QualityUpgradeCreateNestedManyWithoutFromFileInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput> | Prisma.QualityUpgradeCreateWithoutFromFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyFromFileInputEnvelope
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+}
+
+export type QualityUpgradeCreateNestedManyWithoutToFileInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutToFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput> | Prisma.QualityUpgradeCreateWithoutToFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyToFileInputEnvelope
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+}
+
+export type QualityUpgradeUncheckedCreateNestedManyWithoutFromFileInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput> | Prisma.QualityUpgradeCreateWithoutFromFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyFromFileInputEnvelope
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+}
+
+export type QualityUpgradeUncheckedCreateNestedManyWithoutToFileInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutToFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput> | Prisma.QualityUpgradeCreateWithoutToFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyToFileInputEnvelope
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+}
+
+export type QualityUpgradeUpdateManyWithoutFromFileNestedInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput> | Prisma.QualityUpgradeCreateWithoutFromFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput[]
+  upsert?: Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutFromFileInput | Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutFromFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyFromFileInputEnvelope
+  set?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  disconnect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  delete?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  update?: Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutFromFileInput | Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutFromFileInput[]
+  updateMany?: Prisma.QualityUpgradeUpdateManyWithWhereWithoutFromFileInput | Prisma.QualityUpgradeUpdateManyWithWhereWithoutFromFileInput[]
+  deleteMany?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+}
+
+export type QualityUpgradeUpdateManyWithoutToFileNestedInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutToFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput> | Prisma.QualityUpgradeCreateWithoutToFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput[]
+  upsert?: Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutToFileInput | Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutToFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyToFileInputEnvelope
+  set?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  disconnect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  delete?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  update?: Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutToFileInput | Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutToFileInput[]
+  updateMany?: Prisma.QualityUpgradeUpdateManyWithWhereWithoutToFileInput | Prisma.QualityUpgradeUpdateManyWithWhereWithoutToFileInput[]
+  deleteMany?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+}
+
+export type QualityUpgradeUncheckedUpdateManyWithoutFromFileNestedInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput> | Prisma.QualityUpgradeCreateWithoutFromFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutFromFileInput[]
+  upsert?: Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutFromFileInput | Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutFromFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyFromFileInputEnvelope
+  set?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  disconnect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  delete?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  update?: Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutFromFileInput | Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutFromFileInput[]
+  updateMany?: Prisma.QualityUpgradeUpdateManyWithWhereWithoutFromFileInput | Prisma.QualityUpgradeUpdateManyWithWhereWithoutFromFileInput[]
+  deleteMany?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+}
+
+export type QualityUpgradeUncheckedUpdateManyWithoutToFileNestedInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutToFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput> | Prisma.QualityUpgradeCreateWithoutToFileInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput | Prisma.QualityUpgradeCreateOrConnectWithoutToFileInput[]
+  upsert?: Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutToFileInput | Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutToFileInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyToFileInputEnvelope
+  set?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  disconnect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  delete?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  update?: Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutToFileInput | Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutToFileInput[]
+  updateMany?: Prisma.QualityUpgradeUpdateManyWithWhereWithoutToFileInput | Prisma.QualityUpgradeUpdateManyWithWhereWithoutToFileInput[]
+  deleteMany?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+}
+
+export type QualityUpgradeCreateNestedManyWithoutEpisodeInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput> | Prisma.QualityUpgradeCreateWithoutEpisodeInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput | Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyEpisodeInputEnvelope
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+}
+
+export type QualityUpgradeUncheckedCreateNestedManyWithoutEpisodeInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput> | Prisma.QualityUpgradeCreateWithoutEpisodeInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput | Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyEpisodeInputEnvelope
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+}
+
+export type QualityUpgradeUpdateManyWithoutEpisodeNestedInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput> | Prisma.QualityUpgradeCreateWithoutEpisodeInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput | Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput[]
+  upsert?: Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutEpisodeInput | Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutEpisodeInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyEpisodeInputEnvelope
+  set?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  disconnect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  delete?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  update?: Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutEpisodeInput | Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutEpisodeInput[]
+  updateMany?: Prisma.QualityUpgradeUpdateManyWithWhereWithoutEpisodeInput | Prisma.QualityUpgradeUpdateManyWithWhereWithoutEpisodeInput[]
+  deleteMany?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+}
+
+export type QualityUpgradeUncheckedUpdateManyWithoutEpisodeNestedInput = {
+  create?: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput> | Prisma.QualityUpgradeCreateWithoutEpisodeInput[] | Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput[]
+  connectOrCreate?: Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput | Prisma.QualityUpgradeCreateOrConnectWithoutEpisodeInput[]
+  upsert?: Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutEpisodeInput | Prisma.QualityUpgradeUpsertWithWhereUniqueWithoutEpisodeInput[]
+  createMany?: Prisma.QualityUpgradeCreateManyEpisodeInputEnvelope
+  set?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  disconnect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  delete?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  connect?: Prisma.QualityUpgradeWhereUniqueInput | Prisma.QualityUpgradeWhereUniqueInput[]
+  update?: Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutEpisodeInput | Prisma.QualityUpgradeUpdateWithWhereUniqueWithoutEpisodeInput[]
+  updateMany?: Prisma.QualityUpgradeUpdateManyWithWhereWithoutEpisodeInput | Prisma.QualityUpgradeUpdateManyWithWhereWithoutEpisodeInput[]
+  deleteMany?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+}
+
+export type QualityUpgradeCreateWithoutFromFileInput = {
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episode?: Prisma.EpisodeInfoCreateNestedOneWithoutUpgradesInput
+  toFile?: Prisma.FileCreateNestedOneWithoutUpgradesToInput
+}
+
+export type QualityUpgradeUncheckedCreateWithoutFromFileInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episodeId?: number | null
+  toFileId?: number | null
+}
+
+export type QualityUpgradeCreateOrConnectWithoutFromFileInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  create: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput>
+}
+
+export type QualityUpgradeCreateManyFromFileInputEnvelope = {
+  data: Prisma.QualityUpgradeCreateManyFromFileInput | Prisma.QualityUpgradeCreateManyFromFileInput[]
+}
+
+export type QualityUpgradeCreateWithoutToFileInput = {
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episode?: Prisma.EpisodeInfoCreateNestedOneWithoutUpgradesInput
+  fromFile?: Prisma.FileCreateNestedOneWithoutUpgradesFromInput
+}
+
+export type QualityUpgradeUncheckedCreateWithoutToFileInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episodeId?: number | null
+  fromFileId?: number | null
+}
+
+export type QualityUpgradeCreateOrConnectWithoutToFileInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  create: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutToFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput>
+}
+
+export type QualityUpgradeCreateManyToFileInputEnvelope = {
+  data: Prisma.QualityUpgradeCreateManyToFileInput | Prisma.QualityUpgradeCreateManyToFileInput[]
+}
+
+export type QualityUpgradeUpsertWithWhereUniqueWithoutFromFileInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  update: Prisma.XOR<Prisma.QualityUpgradeUpdateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedUpdateWithoutFromFileInput>
+  create: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutFromFileInput>
+}
+
+export type QualityUpgradeUpdateWithWhereUniqueWithoutFromFileInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateWithoutFromFileInput, Prisma.QualityUpgradeUncheckedUpdateWithoutFromFileInput>
+}
+
+export type QualityUpgradeUpdateManyWithWhereWithoutFromFileInput = {
+  where: Prisma.QualityUpgradeScalarWhereInput
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateManyMutationInput, Prisma.QualityUpgradeUncheckedUpdateManyWithoutFromFileInput>
+}
+
+export type QualityUpgradeScalarWhereInput = {
+  AND?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+  OR?: Prisma.QualityUpgradeScalarWhereInput[]
+  NOT?: Prisma.QualityUpgradeScalarWhereInput | Prisma.QualityUpgradeScalarWhereInput[]
+  id?: Prisma.IntFilter<"QualityUpgrade"> | number
+  mediaId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  fromPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  toPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  linkPath?: Prisma.StringFilter<"QualityUpgrade"> | string
+  fromQuality?: Prisma.StringFilter<"QualityUpgrade"> | string
+  toQuality?: Prisma.StringFilter<"QualityUpgrade"> | string
+  createdAt?: Prisma.DateTimeFilter<"QualityUpgrade"> | Date | string
+  episodeId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  fromFileId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+  toFileId?: Prisma.IntNullableFilter<"QualityUpgrade"> | number | null
+}
+
+export type QualityUpgradeUpsertWithWhereUniqueWithoutToFileInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  update: Prisma.XOR<Prisma.QualityUpgradeUpdateWithoutToFileInput, Prisma.QualityUpgradeUncheckedUpdateWithoutToFileInput>
+  create: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutToFileInput, Prisma.QualityUpgradeUncheckedCreateWithoutToFileInput>
+}
+
+export type QualityUpgradeUpdateWithWhereUniqueWithoutToFileInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateWithoutToFileInput, Prisma.QualityUpgradeUncheckedUpdateWithoutToFileInput>
+}
+
+export type QualityUpgradeUpdateManyWithWhereWithoutToFileInput = {
+  where: Prisma.QualityUpgradeScalarWhereInput
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateManyMutationInput, Prisma.QualityUpgradeUncheckedUpdateManyWithoutToFileInput>
+}
+
+export type QualityUpgradeCreateWithoutEpisodeInput = {
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  fromFile?: Prisma.FileCreateNestedOneWithoutUpgradesFromInput
+  toFile?: Prisma.FileCreateNestedOneWithoutUpgradesToInput
+}
+
+export type QualityUpgradeUncheckedCreateWithoutEpisodeInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  fromFileId?: number | null
+  toFileId?: number | null
+}
+
+export type QualityUpgradeCreateOrConnectWithoutEpisodeInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  create: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput>
+}
+
+export type QualityUpgradeCreateManyEpisodeInputEnvelope = {
+  data: Prisma.QualityUpgradeCreateManyEpisodeInput | Prisma.QualityUpgradeCreateManyEpisodeInput[]
+}
+
+export type QualityUpgradeUpsertWithWhereUniqueWithoutEpisodeInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  update: Prisma.XOR<Prisma.QualityUpgradeUpdateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedUpdateWithoutEpisodeInput>
+  create: Prisma.XOR<Prisma.QualityUpgradeCreateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedCreateWithoutEpisodeInput>
+}
+
+export type QualityUpgradeUpdateWithWhereUniqueWithoutEpisodeInput = {
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateWithoutEpisodeInput, Prisma.QualityUpgradeUncheckedUpdateWithoutEpisodeInput>
+}
+
+export type QualityUpgradeUpdateManyWithWhereWithoutEpisodeInput = {
+  where: Prisma.QualityUpgradeScalarWhereInput
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateManyMutationInput, Prisma.QualityUpgradeUncheckedUpdateManyWithoutEpisodeInput>
+}
+
+export type QualityUpgradeCreateManyFromFileInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episodeId?: number | null
+  toFileId?: number | null
+}
+
+export type QualityUpgradeCreateManyToFileInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  episodeId?: number | null
+  fromFileId?: number | null
+}
+
+export type QualityUpgradeUpdateWithoutFromFileInput = {
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episode?: Prisma.EpisodeInfoUpdateOneWithoutUpgradesNestedInput
+  toFile?: Prisma.FileUpdateOneWithoutUpgradesToNestedInput
+}
+
+export type QualityUpgradeUncheckedUpdateWithoutFromFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episodeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type QualityUpgradeUncheckedUpdateManyWithoutFromFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episodeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type QualityUpgradeUpdateWithoutToFileInput = {
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episode?: Prisma.EpisodeInfoUpdateOneWithoutUpgradesNestedInput
+  fromFile?: Prisma.FileUpdateOneWithoutUpgradesFromNestedInput
+}
+
+export type QualityUpgradeUncheckedUpdateWithoutToFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episodeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type QualityUpgradeUncheckedUpdateManyWithoutToFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  episodeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type QualityUpgradeCreateManyEpisodeInput = {
+  id?: number
+  mediaId?: number | null
+  fromPath: string
+  toPath: string
+  linkPath: string
+  fromQuality: string
+  toQuality: string
+  createdAt?: Date | string
+  fromFileId?: number | null
+  toFileId?: number | null
+}
+
+export type QualityUpgradeUpdateWithoutEpisodeInput = {
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fromFile?: Prisma.FileUpdateOneWithoutUpgradesFromNestedInput
+  toFile?: Prisma.FileUpdateOneWithoutUpgradesToNestedInput
+}
+
+export type QualityUpgradeUncheckedUpdateWithoutEpisodeInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fromFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type QualityUpgradeUncheckedUpdateManyWithoutEpisodeInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mediaId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromPath?: Prisma.StringFieldUpdateOperationsInput | string
+  toPath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  fromQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  toQuality?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fromFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toFileId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+
+
+export type QualityUpgradeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  mediaId?: boolean
+  fromPath?: boolean
+  toPath?: boolean
+  linkPath?: boolean
+  fromQuality?: boolean
+  toQuality?: boolean
+  createdAt?: boolean
+  episodeId?: boolean
+  fromFileId?: boolean
+  toFileId?: boolean
+  episode?: boolean | Prisma.QualityUpgrade$episodeArgs<ExtArgs>
+  fromFile?: boolean | Prisma.QualityUpgrade$fromFileArgs<ExtArgs>
+  toFile?: boolean | Prisma.QualityUpgrade$toFileArgs<ExtArgs>
+}, ExtArgs["result"]["qualityUpgrade"]>
+
+export type QualityUpgradeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  mediaId?: boolean
+  fromPath?: boolean
+  toPath?: boolean
+  linkPath?: boolean
+  fromQuality?: boolean
+  toQuality?: boolean
+  createdAt?: boolean
+  episodeId?: boolean
+  fromFileId?: boolean
+  toFileId?: boolean
+  episode?: boolean | Prisma.QualityUpgrade$episodeArgs<ExtArgs>
+  fromFile?: boolean | Prisma.QualityUpgrade$fromFileArgs<ExtArgs>
+  toFile?: boolean | Prisma.QualityUpgrade$toFileArgs<ExtArgs>
+}, ExtArgs["result"]["qualityUpgrade"]>
+
+export type QualityUpgradeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  mediaId?: boolean
+  fromPath?: boolean
+  toPath?: boolean
+  linkPath?: boolean
+  fromQuality?: boolean
+  toQuality?: boolean
+  createdAt?: boolean
+  episodeId?: boolean
+  fromFileId?: boolean
+  toFileId?: boolean
+  episode?: boolean | Prisma.QualityUpgrade$episodeArgs<ExtArgs>
+  fromFile?: boolean | Prisma.QualityUpgrade$fromFileArgs<ExtArgs>
+  toFile?: boolean | Prisma.QualityUpgrade$toFileArgs<ExtArgs>
+}, ExtArgs["result"]["qualityUpgrade"]>
+
+export type QualityUpgradeSelectScalar = {
+  id?: boolean
+  mediaId?: boolean
+  fromPath?: boolean
+  toPath?: boolean
+  linkPath?: boolean
+  fromQuality?: boolean
+  toQuality?: boolean
+  createdAt?: boolean
+  episodeId?: boolean
+  fromFileId?: boolean
+  toFileId?: boolean
+}
+
+export type QualityUpgradeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "mediaId" | "fromPath" | "toPath" | "linkPath" | "fromQuality" | "toQuality" | "createdAt" | "episodeId" | "fromFileId" | "toFileId", ExtArgs["result"]["qualityUpgrade"]>
+export type QualityUpgradeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  episode?: boolean | Prisma.QualityUpgrade$episodeArgs<ExtArgs>
+  fromFile?: boolean | Prisma.QualityUpgrade$fromFileArgs<ExtArgs>
+  toFile?: boolean | Prisma.QualityUpgrade$toFileArgs<ExtArgs>
+}
+export type QualityUpgradeIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  episode?: boolean | Prisma.QualityUpgrade$episodeArgs<ExtArgs>
+  fromFile?: boolean | Prisma.QualityUpgrade$fromFileArgs<ExtArgs>
+  toFile?: boolean | Prisma.QualityUpgrade$toFileArgs<ExtArgs>
+}
+export type QualityUpgradeIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  episode?: boolean | Prisma.QualityUpgrade$episodeArgs<ExtArgs>
+  fromFile?: boolean | Prisma.QualityUpgrade$fromFileArgs<ExtArgs>
+  toFile?: boolean | Prisma.QualityUpgrade$toFileArgs<ExtArgs>
+}
+
+export type $QualityUpgradePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "QualityUpgrade"
+  objects: {
+    /**
+     * 关联的剧集，电影为null
+     */
+    episode: Prisma.$EpisodeInfoPayload<ExtArgs> | null
+    /**
+     * 被替换的文件记录，记录删除后保留历史
+     */
+    fromFile: Prisma.$FilePayload<ExtArgs> | null
+    /**
+     * 替换后的文件记录
+     */
+    toFile: Prisma.$FilePayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * 唯一标识符
+     */
+    id: number
+    /**
+     * 关联媒体的ID
+     */
+    mediaId: number | null
+    /**
+     * 被替换版本的源文件路径
+     */
+    fromPath: string
+    /**
+     * 新版本的源文件路径
+     */
+    toPath: string
+    /**
+     * 被替换版本原来的链接路径
+     */
+    linkPath: string
+    /**
+     * 被替换版本的质量描述，如 720p WEB-DL
+     */
+    fromQuality: string
+    /**
+     * 新版本的质量描述，如 1080p BluRay
+     */
+    toQuality: string
+    /**
+     * 升级时间
+     */
+    createdAt: Date
+    /**
+     * 关联剧集的ID
+     */
+    episodeId: number | null
+    /**
+     * 被替换文件的ID
+     */
+    fromFileId: number | null
+    /**
+     * 新文件的ID
+     */
+    toFileId: number | null
+  }, ExtArgs["result"]["qualityUpgrade"]>
+  composites: {}
+}
+
+export type QualityUpgradeGetPayload<S extends boolean | null | undefined | QualityUpgradeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload, S>
+
+export type QualityUpgradeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<QualityUpgradeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: QualityUpgradeCountAggregateInputType | true
+  }
+
+export interface QualityUpgradeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['QualityUpgrade'], meta: { name: 'QualityUpgrade' } }
+  /**
+   * Find zero or one QualityUpgrade that matches the filter.
+   * @param {QualityUpgradeFindUniqueArgs} args - Arguments to find a QualityUpgrade
+   * @example
+   * // Get one QualityUpgrade
+   * const qualityUpgrade = await prisma.qualityUpgrade.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends QualityUpgradeFindUniqueArgs>(args: Prisma.SelectSubset<T, QualityUpgradeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one QualityUpgrade that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {QualityUpgradeFindUniqueOrThrowArgs} args - Arguments to find a QualityUpgrade
+   * @example
+   * // Get one QualityUpgrade
+   * const qualityUpgrade = await prisma.qualityUpgrade.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends QualityUpgradeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, QualityUpgradeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first QualityUpgrade that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QualityUpgradeFindFirstArgs} args - Arguments to find a QualityUpgrade
+   * @example
+   * // Get one QualityUpgrade
+   * const qualityUpgrade = await prisma.qualityUpgrade.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends QualityUpgradeFindFirstArgs>(args?: Prisma.SelectSubset<T, QualityUpgradeFindFirstArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first QualityUpgrade that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QualityUpgradeFindFirstOrThrowArgs} args - Arguments to find a QualityUpgrade
+   * @example
+   * // Get one QualityUpgrade
+   * const qualityUpgrade = await prisma.qualityUpgrade.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends QualityUpgradeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, QualityUpgradeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more QualityUpgrades that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QualityUpgradeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all QualityUpgrades
+   * const qualityUpgrades = await prisma.qualityUpgrade.findMany()
+   * 
+   * // Get first 10 QualityUpgrades
+   * const qualityUpgrades = await prisma.qualityUpgrade.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const qualityUpgradeWithIdOnly = await prisma.qualityUpgrade.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends QualityUpgradeFindManyArgs>(args?: Prisma.SelectSubset<T, QualityUpgradeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a QualityUpgrade.
+   * @param {QualityUpgradeCreateArgs} args - Arguments to create a QualityUpgrade.
+   * @example
+   * // Create one QualityUpgrade
+   * const QualityUpgrade = await prisma.qualityUpgrade.create({
+   *   data: {
+   *     // ... data to create a QualityUpgrade
+   *   }
+   * })
+   * 
+   */
+  create<T extends QualityUpgradeCreateArgs>(args: Prisma.SelectSubset<T, QualityUpgradeCreateArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many QualityUpgrades.
+   * @param {QualityUpgradeCreateManyArgs} args - Arguments to create many QualityUpgrades.
+   * @example
+   * // Create many QualityUpgrades
+   * const qualityUpgrade = await prisma.qualityUpgrade.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends QualityUpgradeCreateManyArgs>(args?: Prisma.SelectSubset<T, QualityUpgradeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many QualityUpgrades and returns the data saved in the database.
+   * @param {QualityUpgradeCreateManyAndReturnArgs} args - Arguments to create many QualityUpgrades.
+   * @example
+   * // Create many QualityUpgrades
+   * const qualityUpgrade = await prisma.qualityUpgrade.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many QualityUpgrades and only return the `id`
+   * const qualityUpgradeWithIdOnly = await prisma.qualityUpgrade.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends QualityUpgradeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, QualityUpgradeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a QualityUpgrade.
+   * @param {QualityUpgradeDeleteArgs} args - Arguments to delete one QualityUpgrade.
+   * @example
+   * // Delete one QualityUpgrade
+   * const QualityUpgrade = await prisma.qualityUpgrade.delete({
+   *   where: {
+   *     // ... filter to delete one QualityUpgrade
+   *   }
+   * })
+   * 
+   */
+  delete<T extends QualityUpgradeDeleteArgs>(args: Prisma.SelectSubset<T, QualityUpgradeDeleteArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one QualityUpgrade.
+   * @param {QualityUpgradeUpdateArgs} args - Arguments to update one QualityUpgrade.
+   * @example
+   * // Update one QualityUpgrade
+   * const qualityUpgrade = await prisma.qualityUpgrade.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends QualityUpgradeUpdateArgs>(args: Prisma.SelectSubset<T, QualityUpgradeUpdateArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more QualityUpgrades.
+   * @param {QualityUpgradeDeleteManyArgs} args - Arguments to filter QualityUpgrades to delete.
+   * @example
+   * // Delete a few QualityUpgrades
+   * const { count } = await prisma.qualityUpgrade.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends QualityUpgradeDeleteManyArgs>(args?: Prisma.SelectSubset<T, QualityUpgradeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more QualityUpgrades.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QualityUpgradeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many QualityUpgrades
+   * const qualityUpgrade = await prisma.qualityUpgrade.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends QualityUpgradeUpdateManyArgs>(args: Prisma.SelectSubset<T, QualityUpgradeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more QualityUpgrades and returns the data updated in the database.
+   * @param {QualityUpgradeUpdateManyAndReturnArgs} args - Arguments to update many QualityUpgrades.
+   * @example
+   * // Update many QualityUpgrades
+   * const qualityUpgrade = await prisma.qualityUpgrade.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more QualityUpgrades and only return the `id`
+   * const qualityUpgradeWithIdOnly = await prisma.qualityUpgrade.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends QualityUpgradeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, QualityUpgradeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one QualityUpgrade.
+   * @param {QualityUpgradeUpsertArgs} args - Arguments to update or create a QualityUpgrade.
+   * @example
+   * // Update or create a QualityUpgrade
+   * const qualityUpgrade = await prisma.qualityUpgrade.upsert({
+   *   create: {
+   *     // ... data to create a QualityUpgrade
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the QualityUpgrade we want to update
+   *   }
+   * })
+   */
+  upsert<T extends QualityUpgradeUpsertArgs>(args: Prisma.SelectSubset<T, QualityUpgradeUpsertArgs<ExtArgs>>): Prisma.Prisma__QualityUpgradeClient<runtime.Types.Result.GetResult<Prisma.$QualityUpgradePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of QualityUpgrades.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QualityUpgradeCountArgs} args - Arguments to filter QualityUpgrades to count.
+   * @example
+   * // Count the number of QualityUpgrades
+   * const count = await prisma.qualityUpgrade.count({
+   *   where: {
+   *     // ... the filter for the QualityUpgrades we want to count
+   *   }
+   * })
+  **/
+  count<T extends QualityUpgradeCountArgs>(
+    args?: Prisma.Subset<T, QualityUpgradeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], QualityUpgradeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a QualityUpgrade.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QualityUpgradeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends QualityUpgradeAggregateArgs>(args: Prisma.Subset<T, QualityUpgradeAggregateArgs>): Prisma.PrismaPromise<GetQualityUpgradeAggregateType<T>>
+
+  /**
+   * Group by QualityUpgrade.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QualityUpgradeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends QualityUpgradeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: QualityUpgradeGroupByArgs['orderBy'] }
+      : { orderBy?: QualityUpgradeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, QualityUpgradeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetQualityUpgradeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the QualityUpgrade model
+ */
+readonly fields: QualityUpgradeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for QualityUpgrade.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__QualityUpgradeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  episode<T extends Prisma.QualityUpgrade$episodeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.QualityUpgrade$episodeArgs<ExtArgs>>): Prisma.Prisma__EpisodeInfoClient<runtime.Types.Result.GetResult<Prisma.$EpisodeInfoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  fromFile<T extends Prisma.QualityUpgrade$fromFileArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.QualityUpgrade$fromFileArgs<ExtArgs>>): Prisma.Prisma__FileClient<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  toFile<T extends Prisma.QualityUpgrade$toFileArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.QualityUpgrade$toFileArgs<ExtArgs>>): Prisma.Prisma__FileClient<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the QualityUpgrade model
+ */
+export interface QualityUpgradeFieldRefs {
+  readonly id: Prisma.FieldRef<"QualityUpgrade", 'Int'>
+  readonly mediaId: Prisma.FieldRef<"QualityUpgrade", 'Int'>
+  readonly fromPath: Prisma.FieldRef<"QualityUpgrade", 'String'>
+  readonly toPath: Prisma.FieldRef<"QualityUpgrade", 'String'>
+  readonly linkPath: Prisma.FieldRef<"QualityUpgrade", 'String'>
+  readonly fromQuality: Prisma.FieldRef<"QualityUpgrade", 'String'>
+  readonly toQuality: Prisma.FieldRef<"QualityUpgrade", 'String'>
+  readonly createdAt: Prisma.FieldRef<"QualityUpgrade", 'DateTime'>
+  readonly episodeId: Prisma.FieldRef<"QualityUpgrade", 'Int'>
+  readonly fromFileId: Prisma.FieldRef<"QualityUpgrade", 'Int'>
+  readonly toFileId: Prisma.FieldRef<"QualityUpgrade", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * QualityUpgrade findUnique
+ */
+export type QualityUpgradeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * Filter, which QualityUpgrade to fetch.
+   */
+  where: Prisma.QualityUpgradeWhereUniqueInput
+}
+
+/**
+ * QualityUpgrade findUniqueOrThrow
+ */
+export type QualityUpgradeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * Filter, which QualityUpgrade to fetch.
+   */
+  where: Prisma.QualityUpgradeWhereUniqueInput
+}
+
+/**
+ * QualityUpgrade findFirst
+ */
+export type QualityUpgradeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * Filter, which QualityUpgrade to fetch.
+   */
+  where?: Prisma.QualityUpgradeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QualityUpgrades to fetch.
+   */
+  orderBy?: Prisma.QualityUpgradeOrderByWithRelationInput | Prisma.QualityUpgradeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for QualityUpgrades.
+   */
+  cursor?: Prisma.QualityUpgradeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QualityUpgrades from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QualityUpgrades.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of QualityUpgrades.
+   */
+  distinct?: Prisma.QualityUpgradeScalarFieldEnum | Prisma.QualityUpgradeScalarFieldEnum[]
+}
+
+/**
+ * QualityUpgrade findFirstOrThrow
+ */
+export type QualityUpgradeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * Filter, which QualityUpgrade to fetch.
+   */
+  where?: Prisma.QualityUpgradeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QualityUpgrades to fetch.
+   */
+  orderBy?: Prisma.QualityUpgradeOrderByWithRelationInput | Prisma.QualityUpgradeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for QualityUpgrades.
+   */
+  cursor?: Prisma.QualityUpgradeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QualityUpgrades from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QualityUpgrades.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of QualityUpgrades.
+   */
+  distinct?: Prisma.QualityUpgradeScalarFieldEnum | Prisma.QualityUpgradeScalarFieldEnum[]
+}
+
+/**
+ * QualityUpgrade findMany
+ */
+export type QualityUpgradeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * Filter, which QualityUpgrades to fetch.
+   */
+  where?: Prisma.QualityUpgradeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QualityUpgrades to fetch.
+   */
+  orderBy?: Prisma.QualityUpgradeOrderByWithRelationInput | Prisma.QualityUpgradeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing QualityUpgrades.
+   */
+  cursor?: Prisma.QualityUpgradeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QualityUpgrades from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QualityUpgrades.
+   */
+  skip?: number
+  distinct?: Prisma.QualityUpgradeScalarFieldEnum | Prisma.QualityUpgradeScalarFieldEnum[]
+}
+
+/**
+ * QualityUpgrade create
+ */
+export type QualityUpgradeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * The data needed to create a QualityUpgrade.
+   */
+  data: Prisma.XOR<Prisma.QualityUpgradeCreateInput, Prisma.QualityUpgradeUncheckedCreateInput>
+}
+
+/**
+ * QualityUpgrade createMany
+ */
+export type QualityUpgradeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many QualityUpgrades.
+   */
+  data: Prisma.QualityUpgradeCreateManyInput | Prisma.QualityUpgradeCreateManyInput[]
+}
+
+/**
+ * QualityUpgrade createManyAndReturn
+ */
+export type QualityUpgradeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * The data used to create many QualityUpgrades.
+   */
+  data: Prisma.QualityUpgradeCreateManyInput | Prisma.QualityUpgradeCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * QualityUpgrade update
+ */
+export type QualityUpgradeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * The data needed to update a QualityUpgrade.
+   */
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateInput, Prisma.QualityUpgradeUncheckedUpdateInput>
+  /**
+   * Choose, which QualityUpgrade to update.
+   */
+  where: Prisma.QualityUpgradeWhereUniqueInput
+}
+
+/**
+ * QualityUpgrade updateMany
+ */
+export type QualityUpgradeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update QualityUpgrades.
+   */
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateManyMutationInput, Prisma.QualityUpgradeUncheckedUpdateManyInput>
+  /**
+   * Filter which QualityUpgrades to update
+   */
+  where?: Prisma.QualityUpgradeWhereInput
+  /**
+   * Limit how many QualityUpgrades to update.
+   */
+  limit?: number
+}
+
+/**
+ * QualityUpgrade updateManyAndReturn
+ */
+export type QualityUpgradeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * The data used to update QualityUpgrades.
+   */
+  data: Prisma.XOR<Prisma.QualityUpgradeUpdateManyMutationInput, Prisma.QualityUpgradeUncheckedUpdateManyInput>
+  /**
+   * Filter which QualityUpgrades to update
+   */
+  where?: Prisma.QualityUpgradeWhereInput
+  /**
+   * Limit how many QualityUpgrades to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * QualityUpgrade upsert
+ */
+export type QualityUpgradeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * The filter to search for the QualityUpgrade to update in case it exists.
+   */
+  where: Prisma.QualityUpgradeWhereUniqueInput
+  /**
+   * In case the QualityUpgrade found by the `where` argument doesn't exist, create a new QualityUpgrade with this data.
+   */
+  create: Prisma.XOR<Prisma.QualityUpgradeCreateInput, Prisma.QualityUpgradeUncheckedCreateInput>
+  /**
+   * In case the QualityUpgrade was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.QualityUpgradeUpdateInput, Prisma.QualityUpgradeUncheckedUpdateInput>
+}
+
+/**
+ * QualityUpgrade delete
+ */
+export type QualityUpgradeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+  /**
+   * Filter which QualityUpgrade to delete.
+   */
+  where: Prisma.QualityUpgradeWhereUniqueInput
+}
+
+/**
+ * QualityUpgrade deleteMany
+ */
+export type QualityUpgradeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which QualityUpgrades to delete
+   */
+  where?: Prisma.QualityUpgradeWhereInput
+  /**
+   * Limit how many QualityUpgrades to delete.
+   */
+  limit?: number
+}
+
+/**
+ * QualityUpgrade.episode
+ */
+export type QualityUpgrade$episodeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EpisodeInfo
+   */
+  select?: Prisma.EpisodeInfoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EpisodeInfo
+   */
+  omit?: Prisma.EpisodeInfoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EpisodeInfoInclude<ExtArgs> | null
+  where?: Prisma.EpisodeInfoWhereInput
+}
+
+/**
+ * QualityUpgrade.fromFile
+ */
+export type QualityUpgrade$fromFileArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the File
+   */
+  select?: Prisma.FileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the File
+   */
+  omit?: Prisma.FileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileInclude<ExtArgs> | null
+  where?: Prisma.FileWhereInput
+}
+
+/**
+ * QualityUpgrade.toFile
+ */
+export type QualityUpgrade$toFileArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the File
+   */
+  select?: Prisma.FileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the File
+   */
+  omit?: Prisma.FileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileInclude<ExtArgs> | null
+  where?: Prisma.FileWhereInput
+}
+
+/**
+ * QualityUpgrade without action
+ */
+export type QualityUpgradeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QualityUpgrade
+   */
+  select?: Prisma.QualityUpgradeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QualityUpgrade
+   */
+  omit?: Prisma.QualityUpgradeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QualityUpgradeInclude<ExtArgs> | null
+}
@@ -51,6 +51,8 @@ export type QueueMinAggregateOutputType = {
   maxRetries: number | null
   lastError: string | null
   result: string | null
+  candidates: string | null
+  reviewSelection: string | null
   createdAt: Date | null
   updatedAt: Date | null
   startedAt: Date | null
@@ -69,6 +71,8 @@ export type QueueMaxAggregateOutputType = {
   maxRetries: number | null
   lastError: string | null
   result: string | null
+  candidates: string | null
+  reviewSelection: string | null
   createdAt: Date | null
   updatedAt: Date | null
   startedAt: Date | null
@@ -87,6 +91,8 @@ export type QueueCountAggregateOutputType = {
   maxRetries: number
   lastError: number
   result: number
+  candidates: number
+  reviewSelection: number
   createdAt: number
   updatedAt: number
   startedAt: number
@@ -121,6 +127,8 @@ export type QueueMinAggregateInputType = {
   maxRetries?: true
   lastError?: true
   result?: true
+  candidates?: true
+  reviewSelection?: true
   createdAt?: true
   updatedAt?: true
   startedAt?: true
@@ -139,6 +147,8 @@ export type QueueMaxAggregateInputType = {
   maxRetries?: true
   lastError?: true
   result?: true
+  candidates?: true
+  reviewSelection?: true
   createdAt?: true
   updatedAt?: true
   startedAt?: true
@@ -157,6 +167,8 @@ export type QueueCountAggregateInputType = {
   maxRetries?: true
   lastError?: true
   result?: true
+  candidates?: true
+  reviewSelection?: true
   createdAt?: true
   updatedAt?: true
   startedAt?: true
@@ -262,6 +274,8 @@ export type QueueGroupByOutputType = {
   maxRetries: number
   lastError: string | null
   result: string | null
+  candidates: string | null
+  reviewSelection: string | null
   createdAt: Date
   updatedAt: Date
   startedAt: Date | null
@@ -303,6 +317,8 @@ export type QueueWhereInput = {
   maxRetries?: Prisma.IntFilter<"Queue"> | number
   lastError?: Prisma.StringNullableFilter<"Queue"> | string | null
   result?: Prisma.StringNullableFilter<"Queue"> | string | null
+  candidates?: Prisma.StringNullableFilter<"Queue"> | string | null
+  reviewSelection?: Prisma.StringNullableFilter<"Queue"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Queue"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Queue"> | Date | string
   startedAt?: Prisma.DateTimeNullableFilter<"Queue"> | Date | string | null
@@ -321,6 +337,8 @@ export type QueueOrderByWithRelationInput = {
   maxRetries?: Prisma.SortOrder
   lastError?: Prisma.SortOrderInput | Prisma.SortOrder
   result?: Prisma.SortOrderInput | Prisma.SortOrder
+  candidates?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewSelection?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -342,6 +360,8 @@ export type QueueWhereUniqueInput = Prisma.AtLeast<{
   maxRetries?: Prisma.IntFilter<"Queue"> | number
   lastError?: Prisma.StringNullableFilter<"Queue"> | string | null
   result?: Prisma.StringNullableFilter<"Queue"> | string | null
+  candidates?: Prisma.StringNullableFilter<"Queue"> | string | null
+  reviewSelection?: Prisma.StringNullableFilter<"Queue"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Queue"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Queue"> | Date | string
   startedAt?: Prisma.DateTimeNullableFilter<"Queue"> | Date | string | null
@@ -360,6 +380,8 @@ export type QueueOrderByWithAggregationInput = {
   maxRetries?: Prisma.SortOrder
   lastError?: Prisma.SortOrderInput | Prisma.SortOrder
   result?: Prisma.SortOrderInput | Prisma.SortOrder
+  candidates?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewSelection?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -386,6 +408,8 @@ export type QueueScalarWhereWithAggregatesInput = {
   maxRetries?: Prisma.IntWithAggregatesFilter<"Queue"> | number
   lastError?: Prisma.StringNullableWithAggregatesFilter<"Queue"> | string | null
   result?: Prisma.StringNullableWithAggregatesFilter<"Queue"> | string | null
+  candidates?: Prisma.StringNullableWithAggregatesFilter<"Queue"> | string | null
+  reviewSelection?: Prisma.StringNullableWithAggregatesFilter<"Queue"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Queue"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Queue"> | Date | string
   startedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Queue"> | Date | string | null
@@ -403,6 +427,8 @@ export type QueueCreateInput = {
   maxRetries?: number
   lastError?: string | null
   result?: string | null
+  candidates?: string | null
+  reviewSelection?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   startedAt?: Date | string | null
@@ -421,6 +447,8 @@ export type QueueUncheckedCreateInput = {
   maxRetries?: number
   lastError?: string | null
   result?: string | null
+  candidates?: string | null
+  reviewSelection?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   startedAt?: Date | string | null
@@ -438,6 +466,8 @@ export type QueueUpdateInput = {
   maxRetries?: Prisma.IntFieldUpdateOperationsInput | number
   lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   result?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  candidates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewSelection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -456,6 +486,8 @@ export type QueueUncheckedUpdateInput = {
   maxRetries?: Prisma.IntFieldUpdateOperationsInput | number
   lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   result?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  candidates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewSelection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -474,6 +506,8 @@ export type QueueCreateManyInput = {
   maxRetries?: number
   lastError?: string | null
   result?: string | null
+  candidates?: string | null
+  reviewSelection?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   startedAt?: Date | string | null
@@ -491,6 +525,8 @@ export type QueueUpdateManyMutationInput = {
   maxRetries?: Prisma.IntFieldUpdateOperationsInput | number
   lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   result?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  candidates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewSelection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -509,6 +545,8 @@ export type QueueUncheckedUpdateManyInput = {
   maxRetries?: Prisma.IntFieldUpdateOperationsInput | number
   lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   result?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  candidates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewSelection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -527,6 +565,8 @@ export type QueueCountOrderByAggregateInput = {
   maxRetries?: Prisma.SortOrder
   lastError?: Prisma.SortOrder
   result?: Prisma.SortOrder
+  candidates?: Prisma.SortOrder
+  reviewSelection?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   startedAt?: Prisma.SortOrder
@@ -552,6 +592,8 @@ export type QueueMaxOrderByAggregateInput = {
   maxRetries?: Prisma.SortOrder
   lastError?: Prisma.SortOrder
   result?: Prisma.SortOrder
+  candidates?: Prisma.SortOrder
+  reviewSelection?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   startedAt?: Prisma.SortOrder
@@ -570,6 +612,8 @@ export type QueueMinOrderByAggregateInput = {
   maxRetries?: Prisma.SortOrder
   lastError?: Prisma.SortOrder
   result?: Prisma.SortOrder
+  candidates?: Prisma.SortOrder
+  reviewSelection?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   startedAt?: Prisma.SortOrder
@@ -601,6 +645,8 @@ export type QueueSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   maxRetries?: boolean
   lastError?: boolean
   result?: boolean
+  candidates?: boolean
+  reviewSelection?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   startedAt?: boolean
@@ -619,6 +665,8 @@ export type QueueSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   maxRetries?: boolean
   lastError?: boolean
   result?: boolean
+  candidates?: boolean
+  reviewSelection?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   startedAt?: boolean
@@ -637,6 +685,8 @@ export type QueueSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   maxRetries?: boolean
   lastError?: boolean
   result?: boolean
+  candidates?: boolean
+  reviewSelection?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   startedAt?: boolean
@@ -655,6 +705,8 @@ export type QueueSelectScalar = {
   maxRetries?: boolean
   lastError?: boolean
   result?: boolean
+  candidates?: boolean
+  reviewSelection?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   startedAt?: boolean
@@ -662,7 +714,7 @@ export type QueueSelectScalar = {
   nextRetryAt?: boolean
 }
 
-export type QueueOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "filePath" | "fileName" | "isDirectory" | "status" | "priority" | "retryCount" | "maxRetries" | "lastError" | "result" | "createdAt" | "updatedAt" | "startedAt" | "completedAt" | "nextRetryAt", ExtArgs["result"]["queue"]>
+export type QueueOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "filePath" | "fileName" | "isDirectory" | "status" | "priority" | "retryCount" | "maxRetries" | "lastError" | "result" | "candidates" | "reviewSelection" | "createdAt" | "updatedAt" | "startedAt" | "completedAt" | "nextRetryAt", ExtArgs["result"]["queue"]>
 
 export type $QueuePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Queue"
@@ -708,6 +760,14 @@ export type $QueuePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
      * 任务结果（JSON格式）
      */
     result: string | null
+    /**
+     * 待确认的候选结果（JSON格式）
+     */
+    candidates: string | null
+    /**
+     * 人工确认的候选结果（JSON格式）
+     */
+    reviewSelection: string | null
     /**
      * 创建时间
      */
@@ -1161,6 +1221,8 @@ export interface QueueFieldRefs {
   readonly maxRetries: Prisma.FieldRef<"Queue", 'Int'>
   readonly lastError: Prisma.FieldRef<"Queue", 'String'>
   readonly result: Prisma.FieldRef<"Queue", 'String'>
+  readonly candidates: Prisma.FieldRef<"Queue", 'String'>
+  readonly reviewSelection: Prisma.FieldRef<"Queue", 'String'>
   readonly createdAt: Prisma.FieldRef<"Queue", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Queue", 'DateTime'>
   readonly startedAt: Prisma.FieldRef<"Queue", 'DateTime'>
@@ -0,0 +1,1476 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Subtitle` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Subtitle
+ * 字幕文件表，记录与视频文件同名的字幕及其硬链接
+ */
+export type SubtitleModel = runtime.Types.Result.DefaultSelection<Prisma.$SubtitlePayload>
+
+export type AggregateSubtitle = {
+  _count: SubtitleCountAggregateOutputType | null
+  _avg: SubtitleAvgAggregateOutputType | null
+  _sum: SubtitleSumAggregateOutputType | null
+  _min: SubtitleMinAggregateOutputType | null
+  _max: SubtitleMaxAggregateOutputType | null
+}
+
+export type SubtitleAvgAggregateOutputType = {
+  id: number | null
+  fileId: number | null
+}
+
+export type SubtitleSumAggregateOutputType = {
+  id: number | null
+  fileId: number | null
+}
+
+export type SubtitleMinAggregateOutputType = {
+  id: number | null
+  filePath: string | null
+  linkPath: string | null
+  language: string | null
+  languageSource: string | null
+  createdAt: Date | null
+  fileId: number | null
+}
+
+export type SubtitleMaxAggregateOutputType = {
+  id: number | null
+  filePath: string | null
+  linkPath: string | null
+  language: string | null
+  languageSource: string | null
+  createdAt: Date | null
+  fileId: number | null
+}
+
+export type SubtitleCountAggregateOutputType = {
+  id: number
+  filePath: number
+  linkPath: number
+  language: number
+  languageSource: number
+  createdAt: number
+  fileId: number
+  _all: number
+}
+
+
+export type SubtitleAvgAggregateInputType = {
+  id?: true
+  fileId?: true
+}
+
+export type SubtitleSumAggregateInputType = {
+  id?: true
+  fileId?: true
+}
+
+export type SubtitleMinAggregateInputType = {
+  id?: true
+  filePath?: true
+  linkPath?: true
+  language?: true
+  languageSource?: true
+  createdAt?: true
+  fileId?: true
+}
+
+export type SubtitleMaxAggregateInputType = {
+  id?: true
+  filePath?: true
+  linkPath?: true
+  language?: true
+  languageSource?: true
+  createdAt?: true
+  fileId?: true
+}
+
+export type SubtitleCountAggregateInputType = {
+  id?: true
+  filePath?: true
+  linkPath?: true
+  language?: true
+  languageSource?: true
+  createdAt?: true
+  fileId?: true
+  _all?: true
+}
+
+export type SubtitleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Subtitle to aggregate.
+   */
+  where?: Prisma.SubtitleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Subtitles to fetch.
+   */
+  orderBy?: Prisma.SubtitleOrderByWithRelationInput | Prisma.SubtitleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SubtitleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Subtitles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Subtitles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Subtitles
+  **/
+  _count?: true | SubtitleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SubtitleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SubtitleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SubtitleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SubtitleMaxAggregateInputType
+}
+
+export type GetSubtitleAggregateType<T extends SubtitleAggregateArgs> = {
+      [P in keyof T & keyof AggregateSubtitle]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSubtitle[P]>
+    : Prisma.GetScalarType<T[P], AggregateSubtitle[P]>
+}
+
+
+
+
+export type SubtitleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubtitleWhereInput
+  orderBy?: Prisma.SubtitleOrderByWithAggregationInput | Prisma.SubtitleOrderByWithAggregationInput[]
+  by: Prisma.SubtitleScalarFieldEnum[] | Prisma.SubtitleScalarFieldEnum
+  having?: Prisma.SubtitleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SubtitleCountAggregateInputType | true
+  _avg?: SubtitleAvgAggregateInputType
+  _sum?: SubtitleSumAggregateInputType
+  _min?: SubtitleMinAggregateInputType
+  _max?: SubtitleMaxAggregateInputType
+}
+
+export type SubtitleGroupByOutputType = {
+  id: number
+  filePath: string
+  linkPath: string
+  language: string | null
+  languageSource: string | null
+  createdAt: Date
+  fileId: number
+  _count: SubtitleCountAggregateOutputType | null
+  _avg: SubtitleAvgAggregateOutputType | null
+  _sum: SubtitleSumAggregateOutputType | null
+  _min: SubtitleMinAggregateOutputType | null
+  _max: SubtitleMaxAggregateOutputType | null
+}
+
+type GetSubtitleGroupByPayload<T extends SubtitleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SubtitleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SubtitleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SubtitleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SubtitleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SubtitleWhereInput = {
+  AND?: Prisma.SubtitleWhereInput | Prisma.SubtitleWhereInput[]
+  OR?: Prisma.SubtitleWhereInput[]
+  NOT?: Prisma.SubtitleWhereInput | Prisma.SubtitleWhereInput[]
+  id?: Prisma.IntFilter<"Subtitle"> | number
+  filePath?: Prisma.StringFilter<"Subtitle"> | string
+  linkPath?: Prisma.StringFilter<"Subtitle"> | string
+  language?: Prisma.StringNullableFilter<"Subtitle"> | string | null
+  languageSource?: Prisma.StringNullableFilter<"Subtitle"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Subtitle"> | Date | string
+  fileId?: Prisma.IntFilter<"Subtitle"> | number
+  file?: Prisma.XOR<Prisma.FileScalarRelationFilter, Prisma.FileWhereInput>
+}
+
+export type SubtitleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  filePath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  language?: Prisma.SortOrderInput | Prisma.SortOrder
+  languageSource?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  file?: Prisma.FileOrderByWithRelationInput
+}
+
+export type SubtitleWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  filePath?: string
+  linkPath?: string
+  AND?: Prisma.SubtitleWhereInput | Prisma.SubtitleWhereInput[]
+  OR?: Prisma.SubtitleWhereInput[]
+  NOT?: Prisma.SubtitleWhereInput | Prisma.SubtitleWhereInput[]
+  language?: Prisma.StringNullableFilter<"Subtitle"> | string | null
+  languageSource?: Prisma.StringNullableFilter<"Subtitle"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Subtitle"> | Date | string
+  fileId?: Prisma.IntFilter<"Subtitle"> | number
+  file?: Prisma.XOR<Prisma.FileScalarRelationFilter, Prisma.FileWhereInput>
+}, "id" | "filePath" | "linkPath">
+
+export type SubtitleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  filePath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  language?: Prisma.SortOrderInput | Prisma.SortOrder
+  languageSource?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  _count?: Prisma.SubtitleCountOrderByAggregateInput
+  _avg?: Prisma.SubtitleAvgOrderByAggregateInput
+  _max?: Prisma.SubtitleMaxOrderByAggregateInput
+  _min?: Prisma.SubtitleMinOrderByAggregateInput
+  _sum?: Prisma.SubtitleSumOrderByAggregateInput
+}
+
+export type SubtitleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SubtitleScalarWhereWithAggregatesInput | Prisma.SubtitleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SubtitleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SubtitleScalarWhereWithAggregatesInput | Prisma.SubtitleScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"Subtitle"> | number
+  filePath?: Prisma.StringWithAggregatesFilter<"Subtitle"> | string
+  linkPath?: Prisma.StringWithAggregatesFilter<"Subtitle"> | string
+  language?: Prisma.StringNullableWithAggregatesFilter<"Subtitle"> | string | null
+  languageSource?: Prisma.StringNullableWithAggregatesFilter<"Subtitle"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Subtitle"> | Date | string
+  fileId?: Prisma.IntWithAggregatesFilter<"Subtitle"> | number
+}
+
+export type SubtitleCreateInput = {
+  filePath: string
+  linkPath: string
+  language?: string | null
+  languageSource?: string | null
+  createdAt?: Date | string
+  file: Prisma.FileCreateNestedOneWithoutSubtitlesInput
+}
+
+export type SubtitleUncheckedCreateInput = {
+  id?: number
+  filePath: string
+  linkPath: string
+  language?: string | null
+  languageSource?: string | null
+  createdAt?: Date | string
+  fileId: number
+}
+
+export type SubtitleUpdateInput = {
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  languageSource?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  file?: Prisma.FileUpdateOneRequiredWithoutSubtitlesNestedInput
+}
+
+export type SubtitleUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  languageSource?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fileId?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type SubtitleCreateManyInput = {
+  id?: number
+  filePath: string
+  linkPath: string
+  language?: string | null
+  languageSource?: string | null
+  createdAt?: Date | string
+  fileId: number
+}
+
+export type SubtitleUpdateManyMutationInput = {
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  languageSource?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubtitleUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  languageSource?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fileId?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type SubtitleListRelationFilter = {
+  every?: Prisma.SubtitleWhereInput
+  some?: Prisma.SubtitleWhereInput
+  none?: Prisma.SubtitleWhereInput
+}
+
+export type SubtitleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SubtitleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  filePath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  language?: Prisma.SortOrder
+  languageSource?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+}
+
+export type SubtitleAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+}
+
+export type SubtitleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  filePath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  language?: Prisma.SortOrder
+  languageSource?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+}
+
+export type SubtitleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  filePath?: Prisma.SortOrder
+  linkPath?: Prisma.SortOrder
+  language?: Prisma.SortOrder
+  languageSource?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+}
+
+export type SubtitleSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+}
+
+export type SubtitleCreateNestedManyWithoutFileInput = {
+  create?: Prisma.XOR<Prisma.SubtitleCreateWithoutFileInput, Prisma.SubtitleUncheckedCreateWithoutFileInput> | Prisma.SubtitleCreateWithoutFileInput[] | Prisma.SubtitleUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.SubtitleCreateOrConnectWithoutFileInput | Prisma.SubtitleCreateOrConnectWithoutFileInput[]
+  createMany?: Prisma.SubtitleCreateManyFileInputEnvelope
+  connect?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+}
+
+export type SubtitleUncheckedCreateNestedManyWithoutFileInput = {
+  create?: Prisma.XOR<Prisma.SubtitleCreateWithoutFileInput, Prisma.SubtitleUncheckedCreateWithoutFileInput> | Prisma.SubtitleCreateWithoutFileInput[] | Prisma.SubtitleUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.SubtitleCreateOrConnectWithoutFileInput | Prisma.SubtitleCreateOrConnectWithoutFileInput[]
+  createMany?: Prisma.SubtitleCreateManyFileInputEnvelope
+  connect?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+}
+
+export type SubtitleUpdateManyWithoutFileNestedInput = {
+  create?: Prisma.XOR<Prisma.SubtitleCreateWithoutFileInput, Prisma.SubtitleUncheckedCreateWithoutFileInput> | Prisma.SubtitleCreateWithoutFileInput[] | Prisma.SubtitleUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.SubtitleCreateOrConnectWithoutFileInput | Prisma.SubtitleCreateOrConnectWithoutFileInput[]
+  upsert?: Prisma.SubtitleUpsertWithWhereUniqueWithoutFileInput | Prisma.SubtitleUpsertWithWhereUniqueWithoutFileInput[]
+  createMany?: Prisma.SubtitleCreateManyFileInputEnvelope
+  set?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  disconnect?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  delete?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  connect?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  update?: Prisma.SubtitleUpdateWithWhereUniqueWithoutFileInput | Prisma.SubtitleUpdateWithWhereUniqueWithoutFileInput[]
+  updateMany?: Prisma.SubtitleUpdateManyWithWhereWithoutFileInput | Prisma.SubtitleUpdateManyWithWhereWithoutFileInput[]
+  deleteMany?: Prisma.SubtitleScalarWhereInput | Prisma.SubtitleScalarWhereInput[]
+}
+
+export type SubtitleUncheckedUpdateManyWithoutFileNestedInput = {
+  create?: Prisma.XOR<Prisma.SubtitleCreateWithoutFileInput, Prisma.SubtitleUncheckedCreateWithoutFileInput> | Prisma.SubtitleCreateWithoutFileInput[] | Prisma.SubtitleUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.SubtitleCreateOrConnectWithoutFileInput | Prisma.SubtitleCreateOrConnectWithoutFileInput[]
+  upsert?: Prisma.SubtitleUpsertWithWhereUniqueWithoutFileInput | Prisma.SubtitleUpsertWithWhereUniqueWithoutFileInput[]
+  createMany?: Prisma.SubtitleCreateManyFileInputEnvelope
+  set?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  disconnect?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  delete?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  connect?: Prisma.SubtitleWhereUniqueInput | Prisma.SubtitleWhereUniqueInput[]
+  update?: Prisma.SubtitleUpdateWithWhereUniqueWithoutFileInput | Prisma.SubtitleUpdateWithWhereUniqueWithoutFileInput[]
+  updateMany?: Prisma.SubtitleUpdateManyWithWhereWithoutFileInput | Prisma.SubtitleUpdateManyWithWhereWithoutFileInput[]
+  deleteMany?: Prisma.SubtitleScalarWhereInput | Prisma.SubtitleScalarWhereInput[]
+}
+
+export type SubtitleCreateWithoutFileInput = {
+  filePath: string
+  linkPath: string
+  language?: string | null
+  languageSource?: string | null
+  createdAt?: Date | string
+}
+
+export type SubtitleUncheckedCreateWithoutFileInput = {
+  id?: number
+  filePath: string
+  linkPath: string
+  language?: string | null
+  languageSource?: string | null
+  createdAt?: Date | string
+}
+
+export type SubtitleCreateOrConnectWithoutFileInput = {
+  where: Prisma.SubtitleWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubtitleCreateWithoutFileInput, Prisma.SubtitleUncheckedCreateWithoutFileInput>
+}
+
+export type SubtitleCreateManyFileInputEnvelope = {
+  data: Prisma.SubtitleCreateManyFileInput | Prisma.SubtitleCreateManyFileInput[]
+}
+
+export type SubtitleUpsertWithWhereUniqueWithoutFileInput = {
+  where: Prisma.SubtitleWhereUniqueInput
+  update: Prisma.XOR<Prisma.SubtitleUpdateWithoutFileInput, Prisma.SubtitleUncheckedUpdateWithoutFileInput>
+  create: Prisma.XOR<Prisma.SubtitleCreateWithoutFileInput, Prisma.SubtitleUncheckedCreateWithoutFileInput>
+}
+
+export type SubtitleUpdateWithWhereUniqueWithoutFileInput = {
+  where: Prisma.SubtitleWhereUniqueInput
+  data: Prisma.XOR<Prisma.SubtitleUpdateWithoutFileInput, Prisma.SubtitleUncheckedUpdateWithoutFileInput>
+}
+
+export type SubtitleUpdateManyWithWhereWithoutFileInput = {
+  where: Prisma.SubtitleScalarWhereInput
+  data: Prisma.XOR<Prisma.SubtitleUpdateManyMutationInput, Prisma.SubtitleUncheckedUpdateManyWithoutFileInput>
+}
+
+export type SubtitleScalarWhereInput = {
+  AND?: Prisma.SubtitleScalarWhereInput | Prisma.SubtitleScalarWhereInput[]
+  OR?: Prisma.SubtitleScalarWhereInput[]
+  NOT?: Prisma.SubtitleScalarWhereInput | Prisma.SubtitleScalarWhereInput[]
+  id?: Prisma.IntFilter<"Subtitle"> | number
+  filePath?: Prisma.StringFilter<"Subtitle"> | string
+  linkPath?: Prisma.StringFilter<"Subtitle"> | string
+  language?: Prisma.StringNullableFilter<"Subtitle"> | string | null
+  languageSource?: Prisma.StringNullableFilter<"Subtitle"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Subtitle"> | Date | string
+  fileId?: Prisma.IntFilter<"Subtitle"> | number
+}
+
+export type SubtitleCreateManyFileInput = {
+  id?: number
+  filePath: string
+  linkPath: string
+  language?: string | null
+  languageSource?: string | null
+  createdAt?: Date | string
+}
+
+export type SubtitleUpdateWithoutFileInput = {
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  languageSource?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubtitleUncheckedUpdateWithoutFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  languageSource?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubtitleUncheckedUpdateManyWithoutFileInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  linkPath?: Prisma.StringFieldUpdateOperationsInput | string
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  languageSource?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SubtitleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  filePath?: boolean
+  linkPath?: boolean
+  language?: boolean
+  languageSource?: boolean
+  createdAt?: boolean
+  fileId?: boolean
+  file?: boolean | Prisma.FileDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["subtitle"]>
+
+export type SubtitleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  filePath?: boolean
+  linkPath?: boolean
+  language?: boolean
+  languageSource?: boolean
+  createdAt?: boolean
+  fileId?: boolean
+  file?: boolean | Prisma.FileDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["subtitle"]>
+
+export type SubtitleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  filePath?: boolean
+  linkPath?: boolean
+  language?: boolean
+  languageSource?: boolean
+  createdAt?: boolean
+  fileId?: boolean
+  file?: boolean | Prisma.FileDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["subtitle"]>
+
+export type SubtitleSelectScalar = {
+  id?: boolean
+  filePath?: boolean
+  linkPath?: boolean
+  language?: boolean
+  languageSource?: boolean
+  createdAt?: boolean
+  fileId?: boolean
+}
+
+export type SubtitleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "filePath" | "linkPath" | "language" | "languageSource" | "createdAt" | "fileId", ExtArgs["result"]["subtitle"]>
+export type SubtitleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  file?: boolean | Prisma.FileDefaultArgs<ExtArgs>
+}
+export type SubtitleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  file?: boolean | Prisma.FileDefaultArgs<ExtArgs>
+}
+export type SubtitleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  file?: boolean | Prisma.FileDefaultArgs<ExtArgs>
+}
+
+export type $SubtitlePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Subtitle"
+  objects: {
+    /**
+     * 所属的视频文件，视频记录删除时一起删除
+     */
+    file: Prisma.$FilePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * 唯一标识符
+     */
+    id: number
+    /**
+     * 原始字幕文件路径
+     */
+    filePath: string
+    /**
+     * 字幕硬链接路径
+     */
+    linkPath: string
+    /**
+     * 规范化的语言标记（如 zh、zh-Hant、en），无法识别时为null
+     */
+    language: string | null
+    /**
+     * 语言标记的来源：suffix（文件名后缀）、content（字幕内容）、manual（手动指定）
+     */
+    languageSource: string | null
+    /**
+     * 记录创建时间
+     */
+    createdAt: Date
+    /**
+     * 所属视频文件的ID
+     */
+    fileId: number
+  }, ExtArgs["result"]["subtitle"]>
+  composites: {}
+}
+
+export type SubtitleGetPayload<S extends boolean | null | undefined | SubtitleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SubtitlePayload, S>
+
+export type SubtitleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SubtitleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SubtitleCountAggregateInputType | true
+  }
+
+export interface SubtitleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Subtitle'], meta: { name: 'Subtitle' } }
+  /**
+   * Find zero or one Subtitle that matches the filter.
+   * @param {SubtitleFindUniqueArgs} args - Arguments to find a Subtitle
+   * @example
+   * // Get one Subtitle
+   * const subtitle = await prisma.subtitle.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SubtitleFindUniqueArgs>(args: Prisma.SelectSubset<T, SubtitleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Subtitle that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SubtitleFindUniqueOrThrowArgs} args - Arguments to find a Subtitle
+   * @example
+   * // Get one Subtitle
+   * const subtitle = await prisma.subtitle.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SubtitleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SubtitleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Subtitle that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubtitleFindFirstArgs} args - Arguments to find a Subtitle
+   * @example
+   * // Get one Subtitle
+   * const subtitle = await prisma.subtitle.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SubtitleFindFirstArgs>(args?: Prisma.SelectSubset<T, SubtitleFindFirstArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Subtitle that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubtitleFindFirstOrThrowArgs} args - Arguments to find a Subtitle
+   * @example
+   * // Get one Subtitle
+   * const subtitle = await prisma.subtitle.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SubtitleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SubtitleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Subtitles that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubtitleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Subtitles
+   * const subtitles = await prisma.subtitle.findMany()
+   * 
+   * // Get first 10 Subtitles
+   * const subtitles = await prisma.subtitle.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const subtitleWithIdOnly = await prisma.subtitle.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SubtitleFindManyArgs>(args?: Prisma.SelectSubset<T, SubtitleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Subtitle.
+   * @param {SubtitleCreateArgs} args - Arguments to create a Subtitle.
+   * @example
+   * // Create one Subtitle
+   * const Subtitle = await prisma.subtitle.create({
+   *   data: {
+   *     // ... data to create a Subtitle
+   *   }
+   * })
+   * 
+   */
+  create<T extends SubtitleCreateArgs>(args: Prisma.SelectSubset<T, SubtitleCreateArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Subtitles.
+   * @param {SubtitleCreateManyArgs} args - Arguments to create many Subtitles.
+   * @example
+   * // Create many Subtitles
+   * const subtitle = await prisma.subtitle.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SubtitleCreateManyArgs>(args?: Prisma.SelectSubset<T, SubtitleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Subtitles and returns the data saved in the database.
+   * @param {SubtitleCreateManyAndReturnArgs} args - Arguments to create many Subtitles.
+   * @example
+   * // Create many Subtitles
+   * const subtitle = await prisma.subtitle.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Subtitles and only return the `id`
+   * const subtitleWithIdOnly = await prisma.subtitle.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SubtitleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SubtitleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Subtitle.
+   * @param {SubtitleDeleteArgs} args - Arguments to delete one Subtitle.
+   * @example
+   * // Delete one Subtitle
+   * const Subtitle = await prisma.subtitle.delete({
+   *   where: {
+   *     // ... filter to delete one Subtitle
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SubtitleDeleteArgs>(args: Prisma.SelectSubset<T, SubtitleDeleteArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Subtitle.
+   * @param {SubtitleUpdateArgs} args - Arguments to update one Subtitle.
+   * @example
+   * // Update one Subtitle
+   * const subtitle = await prisma.subtitle.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SubtitleUpdateArgs>(args: Prisma.SelectSubset<T, SubtitleUpdateArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Subtitles.
+   * @param {SubtitleDeleteManyArgs} args - Arguments to filter Subtitles to delete.
+   * @example
+   * // Delete a few Subtitles
+   * const { count } = await prisma.subtitle.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SubtitleDeleteManyArgs>(args?: Prisma.SelectSubset<T, SubtitleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Subtitles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubtitleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Subtitles
+   * const subtitle = await prisma.subtitle.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SubtitleUpdateManyArgs>(args: Prisma.SelectSubset<T, SubtitleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Subtitles and returns the data updated in the database.
+   * @param {SubtitleUpdateManyAndReturnArgs} args - Arguments to update many Subtitles.
+   * @example
+   * // Update many Subtitles
+   * const subtitle = await prisma.subtitle.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Subtitles and only return the `id`
+   * const subtitleWithIdOnly = await prisma.subtitle.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SubtitleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SubtitleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Subtitle.
+   * @param {SubtitleUpsertArgs} args - Arguments to update or create a Subtitle.
+   * @example
+   * // Update or create a Subtitle
+   * const subtitle = await prisma.subtitle.upsert({
+   *   create: {
+   *     // ... data to create a Subtitle
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Subtitle we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SubtitleUpsertArgs>(args: Prisma.SelectSubset<T, SubtitleUpsertArgs<ExtArgs>>): Prisma.Prisma__SubtitleClient<runtime.Types.Result.GetResult<Prisma.$SubtitlePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Subtitles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubtitleCountArgs} args - Arguments to filter Subtitles to count.
+   * @example
+   * // Count the number of Subtitles
+   * const count = await prisma.subtitle.count({
+   *   where: {
+   *     // ... the filter for the Subtitles we want to count
+   *   }
+   * })
+  **/
+  count<T extends SubtitleCountArgs>(
+    args?: Prisma.Subset<T, SubtitleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SubtitleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Subtitle.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubtitleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SubtitleAggregateArgs>(args: Prisma.Subset<T, SubtitleAggregateArgs>): Prisma.PrismaPromise<GetSubtitleAggregateType<T>>
+
+  /**
+   * Group by Subtitle.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubtitleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SubtitleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SubtitleGroupByArgs['orderBy'] }
+      : { orderBy?: SubtitleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SubtitleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSubtitleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Subtitle model
+ */
+readonly fields: SubtitleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Subtitle.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SubtitleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  file<T extends Prisma.FileDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FileDefaultArgs<ExtArgs>>): Prisma.Prisma__FileClient<runtime.Types.Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Subtitle model
+ */
+export interface SubtitleFieldRefs {
+  readonly id: Prisma.FieldRef<"Subtitle", 'Int'>
+  readonly filePath: Prisma.FieldRef<"Subtitle", 'String'>
+  readonly linkPath: Prisma.FieldRef<"Subtitle", 'String'>
+  readonly language: Prisma.FieldRef<"Subtitle", 'String'>
+  readonly languageSource: Prisma.FieldRef<"Subtitle", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Subtitle", 'DateTime'>
+  readonly fileId: Prisma.FieldRef<"Subtitle", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Subtitle findUnique
+ */
+export type SubtitleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * Filter, which Subtitle to fetch.
+   */
+  where: Prisma.SubtitleWhereUniqueInput
+}
+
+/**
+ * Subtitle findUniqueOrThrow
+ */
+export type SubtitleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * Filter, which Subtitle to fetch.
+   */
+  where: Prisma.SubtitleWhereUniqueInput
+}
+
+/**
+ * Subtitle findFirst
+ */
+export type SubtitleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * Filter, which Subtitle to fetch.
+   */
+  where?: Prisma.SubtitleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Subtitles to fetch.
+   */
+  orderBy?: Prisma.SubtitleOrderByWithRelationInput | Prisma.SubtitleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Subtitles.
+   */
+  cursor?: Prisma.SubtitleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Subtitles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Subtitles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Subtitles.
+   */
+  distinct?: Prisma.SubtitleScalarFieldEnum | Prisma.SubtitleScalarFieldEnum[]
+}
+
+/**
+ * Subtitle findFirstOrThrow
+ */
+export type SubtitleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * Filter, which Subtitle to fetch.
+   */
+  where?: Prisma.SubtitleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Subtitles to fetch.
+   */
+  orderBy?: Prisma.SubtitleOrderByWithRelationInput | Prisma.SubtitleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Subtitles.
+   */
+  cursor?: Prisma.SubtitleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Subtitles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Subtitles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Subtitles.
+   */
+  distinct?: Prisma.SubtitleScalarFieldEnum | Prisma.SubtitleScalarFieldEnum[]
+}
+
+/**
+ * Subtitle findMany
+ */
+export type SubtitleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * Filter, which Subtitles to fetch.
+   */
+  where?: Prisma.SubtitleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Subtitles to fetch.
+   */
+  orderBy?: Prisma.SubtitleOrderByWithRelationInput | Prisma.SubtitleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Subtitles.
+   */
+  cursor?: Prisma.SubtitleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Subtitles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Subtitles.
+   */
+  skip?: number
+  distinct?: Prisma.SubtitleScalarFieldEnum | Prisma.SubtitleScalarFieldEnum[]
+}
+
+/**
+ * Subtitle create
+ */
+export type SubtitleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Subtitle.
+   */
+  data: Prisma.XOR<Prisma.SubtitleCreateInput, Prisma.SubtitleUncheckedCreateInput>
+}
+
+/**
+ * Subtitle createMany
+ */
+export type SubtitleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Subtitles.
+   */
+  data: Prisma.SubtitleCreateManyInput | Prisma.SubtitleCreateManyInput[]
+}
+
+/**
+ * Subtitle createManyAndReturn
+ */
+export type SubtitleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * The data used to create many Subtitles.
+   */
+  data: Prisma.SubtitleCreateManyInput | Prisma.SubtitleCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Subtitle update
+ */
+export type SubtitleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Subtitle.
+   */
+  data: Prisma.XOR<Prisma.SubtitleUpdateInput, Prisma.SubtitleUncheckedUpdateInput>
+  /**
+   * Choose, which Subtitle to update.
+   */
+  where: Prisma.SubtitleWhereUniqueInput
+}
+
+/**
+ * Subtitle updateMany
+ */
+export type SubtitleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Subtitles.
+   */
+  data: Prisma.XOR<Prisma.SubtitleUpdateManyMutationInput, Prisma.SubtitleUncheckedUpdateManyInput>
+  /**
+   * Filter which Subtitles to update
+   */
+  where?: Prisma.SubtitleWhereInput
+  /**
+   * Limit how many Subtitles to update.
+   */
+  limit?: number
+}
+
+/**
+ * Subtitle updateManyAndReturn
+ */
+export type SubtitleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * The data used to update Subtitles.
+   */
+  data: Prisma.XOR<Prisma.SubtitleUpdateManyMutationInput, Prisma.SubtitleUncheckedUpdateManyInput>
+  /**
+   * Filter which Subtitles to update
+   */
+  where?: Prisma.SubtitleWhereInput
+  /**
+   * Limit how many Subtitles to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Subtitle upsert
+ */
+export type SubtitleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Subtitle to update in case it exists.
+   */
+  where: Prisma.SubtitleWhereUniqueInput
+  /**
+   * In case the Subtitle found by the `where` argument doesn't exist, create a new Subtitle with this data.
+   */
+  create: Prisma.XOR<Prisma.SubtitleCreateInput, Prisma.SubtitleUncheckedCreateInput>
+  /**
+   * In case the Subtitle was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SubtitleUpdateInput, Prisma.SubtitleUncheckedUpdateInput>
+}
+
+/**
+ * Subtitle delete
+ */
+export type SubtitleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+  /**
+   * Filter which Subtitle to delete.
+   */
+  where: Prisma.SubtitleWhereUniqueInput
+}
+
+/**
+ * Subtitle deleteMany
+ */
+export type SubtitleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Subtitles to delete
+   */
+  where?: Prisma.SubtitleWhereInput
+  /**
+   * Limit how many Subtitles to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Subtitle without action
+ */
+export type SubtitleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Subtitle
+   */
+  select?: Prisma.SubtitleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Subtitle
+   */
+  omit?: Prisma.SubtitleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubtitleInclude<ExtArgs> | null
+}
@@ -0,0 +1,1291 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TmdbCache` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model TmdbCache
+ * TMDB 接口响应缓存
+ */
+export type TmdbCacheModel = runtime.Types.Result.DefaultSelection<Prisma.$TmdbCachePayload>
+
+export type AggregateTmdbCache = {
+  _count: TmdbCacheCountAggregateOutputType | null
+  _avg: TmdbCacheAvgAggregateOutputType | null
+  _sum: TmdbCacheSumAggregateOutputType | null
+  _min: TmdbCacheMinAggregateOutputType | null
+  _max: TmdbCacheMaxAggregateOutputType | null
+}
+
+export type TmdbCacheAvgAggregateOutputType = {
+  id: number | null
+}
+
+export type TmdbCacheSumAggregateOutputType = {
+  id: number | null
+}
+
+export type TmdbCacheMinAggregateOutputType = {
+  id: number | null
+  cacheKey: string | null
+  endpoint: string | null
+  params: string | null
+  response: string | null
+  expiresAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TmdbCacheMaxAggregateOutputType = {
+  id: number | null
+  cacheKey: string | null
+  endpoint: string | null
+  params: string | null
+  response: string | null
+  expiresAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TmdbCacheCountAggregateOutputType = {
+  id: number
+  cacheKey: number
+  endpoint: number
+  params: number
+  response: number
+  expiresAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type TmdbCacheAvgAggregateInputType = {
+  id?: true
+}
+
+export type TmdbCacheSumAggregateInputType = {
+  id?: true
+}
+
+export type TmdbCacheMinAggregateInputType = {
+  id?: true
+  cacheKey?: true
+  endpoint?: true
+  params?: true
+  response?: true
+  expiresAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TmdbCacheMaxAggregateInputType = {
+  id?: true
+  cacheKey?: true
+  endpoint?: true
+  params?: true
+  response?: true
+  expiresAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TmdbCacheCountAggregateInputType = {
+  id?: true
+  cacheKey?: true
+  endpoint?: true
+  params?: true
+  response?: true
+  expiresAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type TmdbCacheAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TmdbCache to aggregate.
+   */
+  where?: Prisma.TmdbCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TmdbCaches to fetch.
+   */
+  orderBy?: Prisma.TmdbCacheOrderByWithRelationInput | Prisma.TmdbCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TmdbCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TmdbCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TmdbCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TmdbCaches
+  **/
+  _count?: true | TmdbCacheCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TmdbCacheAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TmdbCacheSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TmdbCacheMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TmdbCacheMaxAggregateInputType
+}
+
+export type GetTmdbCacheAggregateType<T extends TmdbCacheAggregateArgs> = {
+      [P in keyof T & keyof AggregateTmdbCache]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTmdbCache[P]>
+    : Prisma.GetScalarType<T[P], AggregateTmdbCache[P]>
+}
+
+
+
+
+export type TmdbCacheGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TmdbCacheWhereInput
+  orderBy?: Prisma.TmdbCacheOrderByWithAggregationInput | Prisma.TmdbCacheOrderByWithAggregationInput[]
+  by: Prisma.TmdbCacheScalarFieldEnum[] | Prisma.TmdbCacheScalarFieldEnum
+  having?: Prisma.TmdbCacheScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TmdbCacheCountAggregateInputType | true
+  _avg?: TmdbCacheAvgAggregateInputType
+  _sum?: TmdbCacheSumAggregateInputType
+  _min?: TmdbCacheMinAggregateInputType
+  _max?: TmdbCacheMaxAggregateInputType
+}
+
+export type TmdbCacheGroupByOutputType = {
+  id: number
+  cacheKey: string
+  endpoint: string
+  params: string
+  response: string
+  expiresAt: Date
+  createdAt: Date
+  updatedAt: Date
+  _count: TmdbCacheCountAggregateOutputType | null
+  _avg: TmdbCacheAvgAggregateOutputType | null
+  _sum: TmdbCacheSumAggregateOutputType | null
+  _min: TmdbCacheMinAggregateOutputType | null
+  _max: TmdbCacheMaxAggregateOutputType | null
+}
+
+type GetTmdbCacheGroupByPayload<T extends TmdbCacheGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TmdbCacheGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TmdbCacheGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TmdbCacheGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TmdbCacheGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TmdbCacheWhereInput = {
+  AND?: Prisma.TmdbCacheWhereInput | Prisma.TmdbCacheWhereInput[]
+  OR?: Prisma.TmdbCacheWhereInput[]
+  NOT?: Prisma.TmdbCacheWhereInput | Prisma.TmdbCacheWhereInput[]
+  id?: Prisma.IntFilter<"TmdbCache"> | number
+  cacheKey?: Prisma.StringFilter<"TmdbCache"> | string
+  endpoint?: Prisma.StringFilter<"TmdbCache"> | string
+  params?: Prisma.StringFilter<"TmdbCache"> | string
+  response?: Prisma.StringFilter<"TmdbCache"> | string
+  expiresAt?: Prisma.DateTimeFilter<"TmdbCache"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"TmdbCache"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TmdbCache"> | Date | string
+}
+
+export type TmdbCacheOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  endpoint?: Prisma.SortOrder
+  params?: Prisma.SortOrder
+  response?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TmdbCacheWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  cacheKey?: string
+  AND?: Prisma.TmdbCacheWhereInput | Prisma.TmdbCacheWhereInput[]
+  OR?: Prisma.TmdbCacheWhereInput[]
+  NOT?: Prisma.TmdbCacheWhereInput | Prisma.TmdbCacheWhereInput[]
+  endpoint?: Prisma.StringFilter<"TmdbCache"> | string
+  params?: Prisma.StringFilter<"TmdbCache"> | string
+  response?: Prisma.StringFilter<"TmdbCache"> | string
+  expiresAt?: Prisma.DateTimeFilter<"TmdbCache"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"TmdbCache"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TmdbCache"> | Date | string
+}, "id" | "cacheKey">
+
+export type TmdbCacheOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  endpoint?: Prisma.SortOrder
+  params?: Prisma.SortOrder
+  response?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.TmdbCacheCountOrderByAggregateInput
+  _avg?: Prisma.TmdbCacheAvgOrderByAggregateInput
+  _max?: Prisma.TmdbCacheMaxOrderByAggregateInput
+  _min?: Prisma.TmdbCacheMinOrderByAggregateInput
+  _sum?: Prisma.TmdbCacheSumOrderByAggregateInput
+}
+
+export type TmdbCacheScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TmdbCacheScalarWhereWithAggregatesInput | Prisma.TmdbCacheScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TmdbCacheScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TmdbCacheScalarWhereWithAggregatesInput | Prisma.TmdbCacheScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"TmdbCache"> | number
+  cacheKey?: Prisma.StringWithAggregatesFilter<"TmdbCache"> | string
+  endpoint?: Prisma.StringWithAggregatesFilter<"TmdbCache"> | string
+  params?: Prisma.StringWithAggregatesFilter<"TmdbCache"> | string
+  response?: Prisma.StringWithAggregatesFilter<"TmdbCache"> | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"TmdbCache"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TmdbCache"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"TmdbCache"> | Date | string
+}
+
+export type TmdbCacheCreateInput = {
+  cacheKey: string
+  endpoint: string
+  params: string
+  response: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TmdbCacheUncheckedCreateInput = {
+  id?: number
+  cacheKey: string
+  endpoint: string
+  params: string
+  response: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TmdbCacheUpdateInput = {
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  endpoint?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.StringFieldUpdateOperationsInput | string
+  response?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TmdbCacheUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  endpoint?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.StringFieldUpdateOperationsInput | string
+  response?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TmdbCacheCreateManyInput = {
+  id?: number
+  cacheKey: string
+  endpoint: string
+  params: string
+  response: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TmdbCacheUpdateManyMutationInput = {
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  endpoint?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.StringFieldUpdateOperationsInput | string
+  response?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TmdbCacheUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  cacheKey?: Prisma.StringFieldUpdateOperationsInput | string
+  endpoint?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.StringFieldUpdateOperationsInput | string
+  response?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TmdbCacheCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  endpoint?: Prisma.SortOrder
+  params?: Prisma.SortOrder
+  response?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TmdbCacheAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+export type TmdbCacheMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  endpoint?: Prisma.SortOrder
+  params?: Prisma.SortOrder
+  response?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TmdbCacheMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cacheKey?: Prisma.SortOrder
+  endpoint?: Prisma.SortOrder
+  params?: Prisma.SortOrder
+  response?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TmdbCacheSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+
+
+export type TmdbCacheSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cacheKey?: boolean
+  endpoint?: boolean
+  params?: boolean
+  response?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["tmdbCache"]>
+
+export type TmdbCacheSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cacheKey?: boolean
+  endpoint?: boolean
+  params?: boolean
+  response?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["tmdbCache"]>
+
+export type TmdbCacheSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cacheKey?: boolean
+  endpoint?: boolean
+  params?: boolean
+  response?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["tmdbCache"]>
+
+export type TmdbCacheSelectScalar = {
+  id?: boolean
+  cacheKey?: boolean
+  endpoint?: boolean
+  params?: boolean
+  response?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type TmdbCacheOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "cacheKey" | "endpoint" | "params" | "response" | "expiresAt" | "createdAt" | "updatedAt", ExtArgs["result"]["tmdbCache"]>
+
+export type $TmdbCachePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TmdbCache"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * 唯一标识符
+     */
+    id: number
+    /**
+     * 缓存键（接口名称和请求参数的组合哈希）
+     */
+    cacheKey: string
+    /**
+     * 接口名称（searchTv/searchMovie/searchCollection/tvInfo/seasonInfo/movieInfo）
+     */
+    endpoint: string
+    /**
+     * 请求参数（JSON格式）
+     */
+    params: string
+    /**
+     * 响应内容（JSON格式）
+     */
+    response: string
+    /**
+     * 过期时间
+     */
+    expiresAt: Date
+    /**
+     * 记录创建时间
+     */
+    createdAt: Date
+    /**
+     * 记录更新时间
+     */
+    updatedAt: Date
+  }, ExtArgs["result"]["tmdbCache"]>
+  composites: {}
+}
+
+export type TmdbCacheGetPayload<S extends boolean | null | undefined | TmdbCacheDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload, S>
+
+export type TmdbCacheCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TmdbCacheFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TmdbCacheCountAggregateInputType | true
+  }
+
+export interface TmdbCacheDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TmdbCache'], meta: { name: 'TmdbCache' } }
+  /**
+   * Find zero or one TmdbCache that matches the filter.
+   * @param {TmdbCacheFindUniqueArgs} args - Arguments to find a TmdbCache
+   * @example
+   * // Get one TmdbCache
+   * const tmdbCache = await prisma.tmdbCache.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TmdbCacheFindUniqueArgs>(args: Prisma.SelectSubset<T, TmdbCacheFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TmdbCache that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TmdbCacheFindUniqueOrThrowArgs} args - Arguments to find a TmdbCache
+   * @example
+   * // Get one TmdbCache
+   * const tmdbCache = await prisma.tmdbCache.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TmdbCacheFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TmdbCacheFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TmdbCache that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TmdbCacheFindFirstArgs} args - Arguments to find a TmdbCache
+   * @example
+   * // Get one TmdbCache
+   * const tmdbCache = await prisma.tmdbCache.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TmdbCacheFindFirstArgs>(args?: Prisma.SelectSubset<T, TmdbCacheFindFirstArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TmdbCache that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TmdbCacheFindFirstOrThrowArgs} args - Arguments to find a TmdbCache
+   * @example
+   * // Get one TmdbCache
+   * const tmdbCache = await prisma.tmdbCache.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TmdbCacheFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TmdbCacheFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TmdbCaches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TmdbCacheFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TmdbCaches
+   * const tmdbCaches = await prisma.tmdbCache.findMany()
+   * 
+   * // Get first 10 TmdbCaches
+   * const tmdbCaches = await prisma.tmdbCache.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const tmdbCacheWithIdOnly = await prisma.tmdbCache.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TmdbCacheFindManyArgs>(args?: Prisma.SelectSubset<T, TmdbCacheFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TmdbCache.
+   * @param {TmdbCacheCreateArgs} args - Arguments to create a TmdbCache.
+   * @example
+   * // Create one TmdbCache
+   * const TmdbCache = await prisma.tmdbCache.create({
+   *   data: {
+   *     // ... data to create a TmdbCache
+   *   }
+   * })
+   * 
+   */
+  create<T extends TmdbCacheCreateArgs>(args: Prisma.SelectSubset<T, TmdbCacheCreateArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TmdbCaches.
+   * @param {TmdbCacheCreateManyArgs} args - Arguments to create many TmdbCaches.
+   * @example
+   * // Create many TmdbCaches
+   * const tmdbCache = await prisma.tmdbCache.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TmdbCacheCreateManyArgs>(args?: Prisma.SelectSubset<T, TmdbCacheCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TmdbCaches and returns the data saved in the database.
+   * @param {TmdbCacheCreateManyAndReturnArgs} args - Arguments to create many TmdbCaches.
+   * @example
+   * // Create many TmdbCaches
+   * const tmdbCache = await prisma.tmdbCache.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TmdbCaches and only return the `id`
+   * const tmdbCacheWithIdOnly = await prisma.tmdbCache.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TmdbCacheCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TmdbCacheCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TmdbCache.
+   * @param {TmdbCacheDeleteArgs} args - Arguments to delete one TmdbCache.
+   * @example
+   * // Delete one TmdbCache
+   * const TmdbCache = await prisma.tmdbCache.delete({
+   *   where: {
+   *     // ... filter to delete one TmdbCache
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TmdbCacheDeleteArgs>(args: Prisma.SelectSubset<T, TmdbCacheDeleteArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TmdbCache.
+   * @param {TmdbCacheUpdateArgs} args - Arguments to update one TmdbCache.
+   * @example
+   * // Update one TmdbCache
+   * const tmdbCache = await prisma.tmdbCache.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TmdbCacheUpdateArgs>(args: Prisma.SelectSubset<T, TmdbCacheUpdateArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TmdbCaches.
+   * @param {TmdbCacheDeleteManyArgs} args - Arguments to filter TmdbCaches to delete.
+   * @example
+   * // Delete a few TmdbCaches
+   * const { count } = await prisma.tmdbCache.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TmdbCacheDeleteManyArgs>(args?: Prisma.SelectSubset<T, TmdbCacheDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TmdbCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TmdbCacheUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TmdbCaches
+   * const tmdbCache = await prisma.tmdbCache.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TmdbCacheUpdateManyArgs>(args: Prisma.SelectSubset<T, TmdbCacheUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TmdbCaches and returns the data updated in the database.
+   * @param {TmdbCacheUpdateManyAndReturnArgs} args - Arguments to update many TmdbCaches.
+   * @example
+   * // Update many TmdbCaches
+   * const tmdbCache = await prisma.tmdbCache.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TmdbCaches and only return the `id`
+   * const tmdbCacheWithIdOnly = await prisma.tmdbCache.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TmdbCacheUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TmdbCacheUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TmdbCache.
+   * @param {TmdbCacheUpsertArgs} args - Arguments to update or create a TmdbCache.
+   * @example
+   * // Update or create a TmdbCache
+   * const tmdbCache = await prisma.tmdbCache.upsert({
+   *   create: {
+   *     // ... data to create a TmdbCache
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TmdbCache we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TmdbCacheUpsertArgs>(args: Prisma.SelectSubset<T, TmdbCacheUpsertArgs<ExtArgs>>): Prisma.Prisma__TmdbCacheClient<runtime.Types.Result.GetResult<Prisma.$TmdbCachePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TmdbCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TmdbCacheCountArgs} args - Arguments to filter TmdbCaches to count.
+   * @example
+   * // Count the number of TmdbCaches
+   * const count = await prisma.tmdbCache.count({
+   *   where: {
+   *     // ... the filter for the TmdbCaches we want to count
+   *   }
+   * })
+  **/
+  count<T extends TmdbCacheCountArgs>(
+    args?: Prisma.Subset<T, TmdbCacheCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TmdbCacheCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TmdbCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TmdbCacheAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TmdbCacheAggregateArgs>(args: Prisma.Subset<T, TmdbCacheAggregateArgs>): Prisma.PrismaPromise<GetTmdbCacheAggregateType<T>>
+
+  /**
+   * Group by TmdbCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TmdbCacheGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TmdbCacheGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TmdbCacheGroupByArgs['orderBy'] }
+      : { orderBy?: TmdbCacheGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TmdbCacheGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTmdbCacheGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TmdbCache model
+ */
+readonly fields: TmdbCacheFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TmdbCache.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TmdbCacheClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TmdbCache model
+ */
+export interface TmdbCacheFieldRefs {
+  readonly id: Prisma.FieldRef<"TmdbCache", 'Int'>
+  readonly cacheKey: Prisma.FieldRef<"TmdbCache", 'String'>
+  readonly endpoint: Prisma.FieldRef<"TmdbCache", 'String'>
+  readonly params: Prisma.FieldRef<"TmdbCache", 'String'>
+  readonly response: Prisma.FieldRef<"TmdbCache", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"TmdbCache", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"TmdbCache", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"TmdbCache", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TmdbCache findUnique
+ */
+export type TmdbCacheFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which TmdbCache to fetch.
+   */
+  where: Prisma.TmdbCacheWhereUniqueInput
+}
+
+/**
+ * TmdbCache findUniqueOrThrow
+ */
+export type TmdbCacheFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which TmdbCache to fetch.
+   */
+  where: Prisma.TmdbCacheWhereUniqueInput
+}
+
+/**
+ * TmdbCache findFirst
+ */
+export type TmdbCacheFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which TmdbCache to fetch.
+   */
+  where?: Prisma.TmdbCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TmdbCaches to fetch.
+   */
+  orderBy?: Prisma.TmdbCacheOrderByWithRelationInput | Prisma.TmdbCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TmdbCaches.
+   */
+  cursor?: Prisma.TmdbCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TmdbCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TmdbCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TmdbCaches.
+   */
+  distinct?: Prisma.TmdbCacheScalarFieldEnum | Prisma.TmdbCacheScalarFieldEnum[]
+}
+
+/**
+ * TmdbCache findFirstOrThrow
+ */
+export type TmdbCacheFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which TmdbCache to fetch.
+   */
+  where?: Prisma.TmdbCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TmdbCaches to fetch.
+   */
+  orderBy?: Prisma.TmdbCacheOrderByWithRelationInput | Prisma.TmdbCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TmdbCaches.
+   */
+  cursor?: Prisma.TmdbCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TmdbCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TmdbCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TmdbCaches.
+   */
+  distinct?: Prisma.TmdbCacheScalarFieldEnum | Prisma.TmdbCacheScalarFieldEnum[]
+}
+
+/**
+ * TmdbCache findMany
+ */
+export type TmdbCacheFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which TmdbCaches to fetch.
+   */
+  where?: Prisma.TmdbCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TmdbCaches to fetch.
+   */
+  orderBy?: Prisma.TmdbCacheOrderByWithRelationInput | Prisma.TmdbCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TmdbCaches.
+   */
+  cursor?: Prisma.TmdbCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TmdbCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TmdbCaches.
+   */
+  skip?: number
+  distinct?: Prisma.TmdbCacheScalarFieldEnum | Prisma.TmdbCacheScalarFieldEnum[]
+}
+
+/**
+ * TmdbCache create
+ */
+export type TmdbCacheCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to create a TmdbCache.
+   */
+  data: Prisma.XOR<Prisma.TmdbCacheCreateInput, Prisma.TmdbCacheUncheckedCreateInput>
+}
+
+/**
+ * TmdbCache createMany
+ */
+export type TmdbCacheCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TmdbCaches.
+   */
+  data: Prisma.TmdbCacheCreateManyInput | Prisma.TmdbCacheCreateManyInput[]
+}
+
+/**
+ * TmdbCache createManyAndReturn
+ */
+export type TmdbCacheCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * The data used to create many TmdbCaches.
+   */
+  data: Prisma.TmdbCacheCreateManyInput | Prisma.TmdbCacheCreateManyInput[]
+}
+
+/**
+ * TmdbCache update
+ */
+export type TmdbCacheUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to update a TmdbCache.
+   */
+  data: Prisma.XOR<Prisma.TmdbCacheUpdateInput, Prisma.TmdbCacheUncheckedUpdateInput>
+  /**
+   * Choose, which TmdbCache to update.
+   */
+  where: Prisma.TmdbCacheWhereUniqueInput
+}
+
+/**
+ * TmdbCache updateMany
+ */
+export type TmdbCacheUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TmdbCaches.
+   */
+  data: Prisma.XOR<Prisma.TmdbCacheUpdateManyMutationInput, Prisma.TmdbCacheUncheckedUpdateManyInput>
+  /**
+   * Filter which TmdbCaches to update
+   */
+  where?: Prisma.TmdbCacheWhereInput
+  /**
+   * Limit how many TmdbCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * TmdbCache updateManyAndReturn
+ */
+export type TmdbCacheUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * The data used to update TmdbCaches.
+   */
+  data: Prisma.XOR<Prisma.TmdbCacheUpdateManyMutationInput, Prisma.TmdbCacheUncheckedUpdateManyInput>
+  /**
+   * Filter which TmdbCaches to update
+   */
+  where?: Prisma.TmdbCacheWhereInput
+  /**
+   * Limit how many TmdbCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * TmdbCache upsert
+ */
+export type TmdbCacheUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * The filter to search for the TmdbCache to update in case it exists.
+   */
+  where: Prisma.TmdbCacheWhereUniqueInput
+  /**
+   * In case the TmdbCache found by the `where` argument doesn't exist, create a new TmdbCache with this data.
+   */
+  create: Prisma.XOR<Prisma.TmdbCacheCreateInput, Prisma.TmdbCacheUncheckedCreateInput>
+  /**
+   * In case the TmdbCache was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TmdbCacheUpdateInput, Prisma.TmdbCacheUncheckedUpdateInput>
+}
+
+/**
+ * TmdbCache delete
+ */
+export type TmdbCacheDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+  /**
+   * Filter which TmdbCache to delete.
+   */
+  where: Prisma.TmdbCacheWhereUniqueInput
+}
+
+/**
+ * TmdbCache deleteMany
+ */
+export type TmdbCacheDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TmdbCaches to delete
+   */
+  where?: Prisma.TmdbCacheWhereInput
+  /**
+   * Limit how many TmdbCaches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TmdbCache without action
+ */
+export type TmdbCacheDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TmdbCache
+   */
+  select?: Prisma.TmdbCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TmdbCache
+   */
+  omit?: Prisma.TmdbCacheOmit<ExtArgs> | null
+}
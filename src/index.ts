@@ -4,6 +4,8 @@ import prisma from "@/client";
 import { logger } from "@/utils/logger";
 import { MediaHardlinkerService } from "@/core/fileManage/mediaHardlinker";
 import { env } from "@/config/env";
+import { getLlmCache } from "@/core/cache/llmCache";
+import { MediaRepository } from "@/repository/media.repository";
 
 const port = env.PORT;
 
@@ -14,6 +16,21 @@ prisma.$connect()
   .then(async () => {
     logger.info("Connected to SQL Database");
     
+    // 清除提示词或模型变更后失效的 LLM 缓存
+    await getLlmCache().purgeStale().catch((error) => {
+      logger.warn(`清除失效的 LLM 缓存失败: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    
+    // 为已有的文件记录补充发布信息
+    await new MediaRepository().backfillReleaseInfo().catch((error) => {
+      logger.warn(`补充文件发布信息失败: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    
+    // 为已有的文件记录读取媒体信息，需要读取源文件，在后台执行不阻塞启动
+    void new MediaRepository().backfillMediaInfo().catch((error) => {
+      logger.warn(`读取文件媒体信息失败: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
     // 启动核心服务
     await hardlinkerService.start();
     
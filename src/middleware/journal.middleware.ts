@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express'
+import { runInJournalGroup } from '@/core/fileManage/operationJournal'
+
+/**
+ * 将修改类请求中的文件操作记录到同一操作日志分组，只读请求不记录
+ */
+export const journalRequest = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+    next()
+    return
+  }
+  runInJournalGroup({ source: 'api', label: `${req.method} ${req.originalUrl}` }, next)
+}
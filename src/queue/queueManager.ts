@@ -7,6 +7,8 @@ import {
   IQueueManager,
   TaskResult,
   QueueConfig,
+  ReviewSelection,
+  ReviewTask,
 } from "@/types/queue.types";
 import { TaskStatus, Queue } from "@/generated/client";
 
@@ -239,6 +241,31 @@ export class QueueManager implements IQueueManager {
     }
   }
 
+  /**
+   * 将任务标记为待人工确认，保留候选结果
+   */
+  async markNeedsReview(taskId: number, result: TaskResult): Promise<void> {
+    try {
+      const { candidates, ...rest } = result;
+      await prisma.queue.update({
+        where: { id: taskId },
+        data: {
+          status: TaskStatus.NEEDS_REVIEW,
+          candidates: JSON.stringify(candidates ?? []),
+          result: JSON.stringify(rest),
+          lastError: result.reviewReason ?? null,
+          nextRetryAt: null,
+          completedAt: new Date(),
+        },
+      });
+
+      logger.info(`任务待人工确认: ID ${taskId}, 原因: ${result.reviewReason}`);
+    } catch (error) {
+      logger.error(`更新任务待确认状态失败: ID ${taskId}`, error);
+      throw error;
+    }
+  }
+
   /**
    * 更新配置
    */
@@ -261,17 +288,18 @@ export class QueueManager implements IQueueManager {
    */
   async getStats(): Promise<QueueStats> {
     try {
-      const [pending, running, completed, failed, canceled] = await Promise.all(
+      const [pending, running, completed, failed, canceled, needsReview] = await Promise.all(
         [
           prisma.queue.count({ where: { status: TaskStatus.PENDING } }),
           prisma.queue.count({ where: { status: TaskStatus.RUNNING } }),
           prisma.queue.count({ where: { status: TaskStatus.COMPLETED } }),
           prisma.queue.count({ where: { status: TaskStatus.FAILED } }),
           prisma.queue.count({ where: { status: TaskStatus.CANCELED } }),
+          prisma.queue.count({ where: { status: TaskStatus.NEEDS_REVIEW } }),
         ]
       );
 
-      const total = pending + running + completed + failed + canceled;
+      const total = pending + running + completed + failed + canceled + needsReview;
 
       // 计算平均处理时间
       const completedTasks = await prisma.queue.findMany({
@@ -303,6 +331,7 @@ export class QueueManager implements IQueueManager {
         completed,
         failed,
         canceled,
+        needsReview,
         total,
         averageProcessingTime,
       };
@@ -387,6 +416,84 @@ export class QueueManager implements IQueueManager {
     }
   }
 
+  /**
+   * 获取待人工确认的任务列表
+   */
+  async getReviewTasks(limit: number = 20, offset: number = 0): Promise<{
+    items: ReviewTask[];
+    total: number;
+  }> {
+    try {
+      const where = { status: TaskStatus.NEEDS_REVIEW };
+
+      const [tasks, total] = await prisma.$transaction([
+        prisma.queue.findMany({
+          where,
+          orderBy: { updatedAt: "desc" },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.queue.count({ where }),
+      ]);
+
+      const items: ReviewTask[] = tasks.map((task) => ({
+        id: task.id,
+        filePath: task.filePath,
+        fileName: task.fileName,
+        reason: task.lastError,
+        candidates: task.candidates ? JSON.parse(task.candidates) : [],
+        createdAt: task.createdAt,
+        updatedAt: task.updatedAt,
+      }));
+
+      return { items, total };
+    } catch (error) {
+      logger.error("获取待确认任务列表失败", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 确认或覆盖待确认任务的识别结果，并重新加入队列
+   */
+  async resolveReview(taskId: number, selection: ReviewSelection): Promise<boolean> {
+    try {
+      const task = await prisma.queue.findUnique({
+        where: { id: taskId },
+      });
+
+      if (!task) {
+        logger.error(`任务不存在: ID ${taskId}`);
+        return false;
+      }
+
+      if (task.status !== TaskStatus.NEEDS_REVIEW) {
+        logger.error(
+          `只能确认待确认的任务: ID ${taskId}, 当前状态: ${task.status}`
+        );
+        return false;
+      }
+
+      await prisma.queue.update({
+        where: { id: taskId },
+        data: {
+          status: TaskStatus.PENDING,
+          reviewSelection: JSON.stringify(selection),
+          retryCount: 0,
+          lastError: null,
+          nextRetryAt: null,
+          completedAt: null,
+        },
+      });
+
+      logger.info(`任务已确认并重新加入队列: ID ${taskId} -> ${selection.type} ${selection.tmdbId}`);
+      return true;
+    } catch (error) {
+      logger.error(`确认任务失败: ID ${taskId}`, error);
+      return false;
+    }
+  }
+
   /**
    * 取消指定任务
    */
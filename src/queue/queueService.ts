@@ -6,7 +6,9 @@ import {
   QueueConfig, 
   QueueStats, 
   TaskQueryOptions,
-  IQueueManager 
+  IQueueManager,
+  ReviewSelection,
+  ReviewTask
 } from "@/types/queue.types";
 import { Queue } from "@/generated/client";
 
@@ -110,6 +112,23 @@ export class QueueService {
     return await this.queueManager.cancelTask(taskId);
   }
 
+  /**
+   * 获取待人工确认的任务列表
+   */
+  async getReviewTasks(limit?: number, offset?: number): Promise<{
+    items: ReviewTask[];
+    total: number;
+  }> {
+    return await this.queueManager.getReviewTasks(limit, offset);
+  }
+
+  /**
+   * 确认或覆盖待确认任务的识别结果
+   */
+  async resolveReview(taskId: number, selection: ReviewSelection): Promise<boolean> {
+    return await this.queueManager.resolveReview(taskId, selection);
+  }
+
   /**
    * 清除所有失败的任务
    */
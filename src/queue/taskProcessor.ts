@@ -1,16 +1,26 @@
 import { dirname } from "path";
-import { IMediaIdentifier, IdentifiedMedia } from "@/types/media.types";
+import { AppliedFolderHint, IMediaIdentifier, IdentifiedMedia } from "@/types/media.types";
 import { MediaRepository } from "@/repository/media.repository";
 import { MediaHardlinkerService } from "@/core/fileManage/mediaHardlinker";
-import { LLMIdentifier } from "@/strategies/llm.identifier";
+import { createMediaIdentifier } from "@/strategies/identifier.factory";
+import { ManualIdentifier } from "@/strategies/manual.identifier";
 import { getConfig } from "@/config/config";
+import { findLibraryRoot } from "@/config/library";
 import { logger } from "@/utils/logger";
 import { getFileDeviceInfo } from "@/utils/hash";
-import { TaskResult, QueueTask } from "@/types/queue.types";
-import { NonRetryableError } from "@/core/errors";
+import { probeMediaFile } from "@/utils/mediaProbe";
+import { TaskResult, QueueTask, ReviewSelection, ScrapingTaskData } from "@/types/queue.types";
+import { MediaProbeResult } from "@/types/probe.types";
+import { PlannedSubtitle, PlannedTask } from "@/types/plan.types";
+import { BusinessError, ErrorType, NonRetryableError } from "@/core/errors";
 import { getContainer } from "@/core/fileManage/container";
-import { FolderDetails, SpecialFolderProcessResult } from "@/types/specialFolder.types";
+import { FolderDetails, MediaInfo, SpecialFolderProcessResult } from "@/types/specialFolder.types";
 import { createNfoFromMedia } from "@/utils/nfo/jellyfin";
+import { findFolderHint } from "@/core/fileManage/folderHint";
+import { buildSubtitleLinkPath, resolveSubtitleCompanions } from "@/core/fileManage/subtitles";
+import { checkDuplicate, DuplicateCheckResult, getDuplicateChange, recordUpgrade, skipDuplicate } from "@/core/fileManage/qualityUpgrade";
+import { checkDuration, DurationCheckResult } from "@/core/fileManage/durationCheck";
+import { classifyExtra, DEFAULT_EXTRAS_CONFIG, ExtraClassifyResult, skipExtra } from "@/core/fileManage/extrasClassifier";
 
 /**
  * 任务处理器 - 统一处理普通文件和特殊文件夹
@@ -50,13 +60,24 @@ export class TaskProcessor {
     try {
       logger.info(`开始处理任务: ${task.fileName} (ID: ${task.id})`);
 
+      // 查找所在目录及上级目录中的提示文件
+      const hint = await findFolderHint(task.filePath, task.isDirectory);
+      if (hint?.ignore) {
+        logger.info(`根据提示文件忽略: ${task.fileName} (${hint.path})`);
+        return {
+          success: true,
+          processingTime: Date.now() - startTime,
+          hint,
+        };
+      }
+
       // 判断是否为特殊文件夹（BDMV/DVD等）
       if (task.isDirectory && await this.isSpecialFolder(task.filePath)) {
-        return await this.processSpecialFolder(task, startTime);
+        return await this.processSpecialFolder(task, startTime, hint);
       }
 
       // 处理普通文件
-      return await this.processNormalFile(task, startTime);
+      return await this.processNormalFile(task, startTime, hint);
 
     } catch (error) {
       const processingTime = Date.now() - startTime;
@@ -72,11 +93,229 @@ export class TaskProcessor {
     }
   }
 
+  /**
+   * 预演单个任务：查找提示文件、识别媒体并计算链接路径，不创建链接、NFO、图片和数据库记录
+   * 预演结果可以通过 applyPlannedTask 原样执行
+   */
+  async planTask(task: ScrapingTaskData): Promise<PlannedTask> {
+    const planned: PlannedTask = {
+      sourcePath: task.filePath,
+      isDirectory: task.isDirectory,
+      status: "ready",
+      message: null,
+      media: null,
+      links: [],
+    };
+
+    try {
+      const hint = await findFolderHint(task.filePath, task.isDirectory);
+      planned.hint = hint ?? undefined;
+      if (hint?.ignore) {
+        return { ...planned, status: "ignored", message: `根据提示文件忽略 (${hint.path})` };
+      }
+
+      const container = getContainer();
+      if (task.isDirectory && await this.isSpecialFolder(task.filePath)) {
+        const results = await container.getSpecialFolderProcessor().processFolder(task.filePath, hint, true);
+        if (results.length === 0) {
+          return { ...planned, status: "unidentified", message: `无法识别特殊文件夹: ${task.fileName}` };
+        }
+        planned.media = this.toIdentifiedMedia(results[0].mediaInfo);
+        planned.links = results.map(({ linkMode: _linkMode, ...folder }) => ({
+          kind: "folder",
+          sourcePath: folder.folderInfo.path,
+          linkPath: folder.linkPath,
+          nfoPath: null,
+          routingRule: folder.routingRule,
+          subtitles: [],
+          folder,
+        }));
+        return planned;
+      }
+
+      if (task.isDirectory) {
+        return { ...planned, status: "ignored", message: "普通目录中的文件单独处理" };
+      }
+
+      const probe = await probeMediaFile(task.filePath);
+      const extra = await this.classifyExtra(task.filePath, probe);
+      if (extra.action === "skip") {
+        return { ...planned, status: "ignored", message: `跳过附加内容: ${extra.reason}` };
+      }
+
+      const media = await this.identifyMedia(task, hint);
+      if (!media) {
+        return { ...planned, status: "unidentified", message: `无法识别媒体文件: ${task.fileName}` };
+      }
+      planned.media = media;
+      planned.identification = { strategy: media.strategy ?? "unknown", confidence: media.confidence ?? 0 };
+
+      const reviewReason = this.getReviewReason(media);
+      if (reviewReason) {
+        return { ...planned, status: "needs_review", message: reviewReason };
+      }
+
+      const durationCheck: DurationCheckResult = extra.action === "extras"
+        ? { action: "link" }
+        : this.checkDuration(media, probe);
+      if (durationCheck.action === "review") {
+        return { ...planned, status: "needs_review", message: durationCheck.reason };
+      }
+
+      // 附加内容不参与重复检测，与实际处理一致
+      const extraLink = extra.action === "extras" ? extra : durationCheck.action === "extras" ? durationCheck : null;
+      const duplicate: DuplicateCheckResult = extraLink
+        ? { action: "link" }
+        : await this.checkDuplicate(task.filePath, media);
+      if (duplicate.action === "skip") {
+        return { ...planned, status: "duplicate", message: duplicate.reason };
+      }
+
+      const { targetPath, routingRule } = await this.hardlinkerService.resolveTargetPath(media, task.filePath);
+      const extraType = extraLink?.extraType;
+      const linkPath = extraType
+        ? container.getFileProcessor().buildExtraLinkPath(targetPath, task.filePath, extraType)
+        : container.getFileProcessor().buildLinkPath(media, targetPath, task.filePath);
+      if (extraLink) {
+        planned.message = extraLink.reason;
+      }
+
+      // 多个字幕规范化后同名时只链接第一个，与实际处理一致
+      const subtitles: PlannedSubtitle[] = [];
+      for (const companion of await resolveSubtitleCompanions(task.filePath, this.config)) {
+        const subtitleLinkPath = buildSubtitleLinkPath(linkPath, companion);
+        if (!subtitles.some(subtitle => subtitle.linkPath === subtitleLinkPath)) {
+          subtitles.push({
+            sourcePath: companion.path,
+            linkPath: subtitleLinkPath,
+            language: companion.language,
+            languageSource: companion.languageSource,
+            flags: companion.flags,
+          });
+        }
+      }
+
+      planned.links = [{
+        kind: "file",
+        sourcePath: task.filePath,
+        linkPath,
+        nfoPath: extraType ? null : linkPath.replace(/\.[^.]+$/, '.nfo'),
+        routingRule,
+        subtitles,
+        extraType,
+        upgrade: duplicate.action === "upgrade" ? { versions: duplicate.versions, quality: duplicate.quality } : undefined,
+      }];
+      return planned;
+    } catch (error) {
+      logger.error(`预演任务失败: ${task.fileName}`, error);
+      return { ...planned, status: "error", message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * 按预演结果创建链接、NFO 和数据库记录，不重新识别和计算路径
+   * 重复检测的结果与预演时不同（已有版本发生变化）时抛出冲突，需要重新预演
+   * @returns 保存的第一个文件记录ID
+   */
+  async applyPlannedTask(planned: PlannedTask): Promise<number | undefined> {
+    const media = planned.media;
+    if (planned.status !== "ready" || !media) {
+      throw new NonRetryableError(`预演结果不可执行: ${planned.sourcePath}`);
+    }
+
+    const container = getContainer();
+    const folderLinks = planned.links.filter(link => link.folder);
+    if (folderLinks.length > 0) {
+      const results: SpecialFolderProcessResult[] = [];
+      for (const link of folderLinks) {
+        const linkMode = await container.getSpecialFolderProcessor().linkFolder(link.sourcePath, link.linkPath);
+        results.push({ ...link.folder!, linkMode });
+      }
+      const { savedIds, failedPaths } = await this.saveSpecialFolderResults(planned.sourcePath, results);
+      if (savedIds.length === 0) {
+        throw new Error(`保存特殊文件夹失败: ${failedPaths.join(', ')}`);
+      }
+      return savedIds[0];
+    }
+
+    let fileId: number | undefined;
+    for (const link of planned.links) {
+      // 附加内容不参与重复检测
+      const duplicate: DuplicateCheckResult = link.extraType
+        ? { action: "link" }
+        : await this.checkDuplicate(link.sourcePath, media);
+      const change = getDuplicateChange(link.upgrade?.versions ?? [], duplicate);
+      if (change) {
+        throw new BusinessError(ErrorType.MEDIA_LINK_CONFLICT, `已有版本在预演后发生变化，请重新预演: ${change}`);
+      }
+      const fileDetails = await container.getFileProcessor().linkVideoFile(
+        link.sourcePath,
+        link.linkPath,
+        link.routingRule,
+        link.subtitles.map(subtitle => ({
+          path: subtitle.sourcePath,
+          language: subtitle.language,
+          languageSource: subtitle.languageSource,
+          flags: subtitle.flags,
+        })),
+        duplicate.action === "upgrade" ? duplicate.versions : []
+      );
+      fileDetails.extraType = link.extraType ?? null;
+      if (link.nfoPath) {
+        await createNfoFromMedia(link.nfoPath, media, fileDetails.mediaInfo);
+      }
+      const fileRecord = await this.mediaRepository.saveMediaAndFile(media, fileDetails);
+      if (duplicate.action === "upgrade") {
+        await recordUpgrade(duplicate.versions, fileRecord.id, link.sourcePath, duplicate.quality);
+      }
+      fileId ??= fileRecord.id;
+    }
+    return fileId;
+  }
+
+  /**
+   * 启用质量升级时检测源文件是否与已处理的文件重复，未启用时直接处理
+   */
+  private async checkDuplicate(sourcePath: string, media: IdentifiedMedia): Promise<DuplicateCheckResult> {
+    // 读取最新配置，使修改的质量排序立即生效
+    const qualityUpgrade = getConfig().qualityUpgrade;
+    if (!qualityUpgrade?.enabled) {
+      return { action: "link" };
+    }
+    return checkDuplicate(sourcePath, media, qualityUpgrade);
+  }
+
+  /**
+   * 启用时长校验时比较视频时长和识别结果的片长，人工确认和提示文件固定的结果不校验
+   */
+  private checkDuration(media: IdentifiedMedia, probe: MediaProbeResult | null): DurationCheckResult {
+    const durationCheck = getConfig().durationCheck;
+    if (!durationCheck?.enabled || media.strategy === "manual" || media.strategy === "hint") {
+      return { action: "link" };
+    }
+    return checkDuration(media, probe, durationCheck);
+  }
+
+  /**
+   * 启用附加内容识别时判断源文件是否为样片、预告片、片头片尾等附加内容，未配置时默认启用
+   */
+  private async classifyExtra(sourcePath: string, probe: MediaProbeResult | null): Promise<ExtraClassifyResult> {
+    const extras = getConfig().extras ?? DEFAULT_EXTRAS_CONFIG;
+    if (!extras.enabled) {
+      return { action: "link" };
+    }
+    return classifyExtra(sourcePath, extras, probe);
+  }
+
   /**
    * 处理特殊文件夹（BDMV/DVD/ISO等）
    * 统一在 TaskProcessor 中保存数据库
    */
-  private async processSpecialFolder(task: QueueTask, startTime: number): Promise<TaskResult> {
+  private async processSpecialFolder(
+    task: QueueTask,
+    startTime: number,
+    hint: AppliedFolderHint | null
+  ): Promise<TaskResult> {
     try {
       logger.info(`[特殊文件夹] 开始处理: ${task.fileName}`);
 
@@ -84,102 +323,19 @@ export class TaskProcessor {
       const specialFolderProcessor = container.getSpecialFolderProcessor();
 
       // 调用 processFolder 获取处理结果
-      const results: SpecialFolderProcessResult[] = await specialFolderProcessor.processFolder(task.filePath);
+      const results: SpecialFolderProcessResult[] = await specialFolderProcessor.processFolder(task.filePath, hint);
 
       if (results.length === 0) {
         logger.warn(`[特殊文件夹] 无有效结果: ${task.fileName}`);
         return {
           success: true,
-          processingTime: Date.now() - startTime
+          processingTime: Date.now() - startTime,
+          hint: hint ?? undefined
         };
       }
 
       // 统一保存到数据库
-      const savedIds: number[] = [];
-      const failedPaths: string[] = [];
-      
-      // 判断是否为多子卷结构（多于1个结果）
-      const isMultiVolume = results.length > 1;
-      let parentFolderId: number | undefined;
-      
-      // 如果是多子卷结构，先创建父文件夹记录
-      if (isMultiVolume) {
-        try {
-          const firstResult = results[0];
-          const identifiedMedia: IdentifiedMedia = {
-            type: firstResult.mediaInfo.mediaType,
-            tmdbId: firstResult.mediaInfo.tmdbId,
-            title: firstResult.mediaInfo.title,
-            originalTitle: firstResult.mediaInfo.originalTitle || '',
-            releaseDate: firstResult.mediaInfo.releaseDate ? new Date(firstResult.mediaInfo.releaseDate) : null,
-            description: firstResult.mediaInfo.description,
-            posterPath: firstResult.mediaInfo.posterPath,
-            backdropPath: null,
-            rawData: null,
-          };
-          
-          // 从第一个子卷的 linkPath 提取父目录路径
-          const parentLinkPath = dirname(firstResult.linkPath);
-          
-          parentFolderId = await this.mediaRepository.createParentFolderRecord(
-            identifiedMedia,
-            task.filePath,
-            parentLinkPath
-          );
-          
-          logger.info(`[特殊文件夹] 创建父文件夹记录: ${task.filePath} (Parent ID: ${parentFolderId})`);
-        } catch (error) {
-          logger.error(`[特殊文件夹] 创建父文件夹记录失败: ${task.filePath}`, error);
-        }
-      }
-      
-      for (const result of results) {
-        try {
-          const { folderInfo, linkPath, mediaInfo } = result;
-
-          // 获取文件夹的设备信息
-          const deviceInfo = await getFileDeviceInfo(folderInfo.path);
-
-          // 构建 IdentifiedMedia 对象
-          const identifiedMedia: IdentifiedMedia = {
-            type: mediaInfo.mediaType,
-            tmdbId: mediaInfo.tmdbId,
-            title: mediaInfo.title,
-            originalTitle: mediaInfo.originalTitle || '',
-            releaseDate: mediaInfo.releaseDate ? new Date(mediaInfo.releaseDate) : null,
-            description: mediaInfo.description,
-            posterPath: mediaInfo.posterPath,
-            backdropPath: null,
-            rawData: null,
-          };
-
-          // 构建文件夹详细信息
-          const folderDetails: FolderDetails = {
-            sourcePath: folderInfo.path,
-            linkPath: linkPath,
-            deviceId: deviceInfo.deviceId,
-            inode: deviceInfo.inode,
-            fileHash: null,
-            fileSize: BigInt(folderInfo.totalSize),
-            folderType: folderInfo.type,
-            isMultiDisc: folderInfo.isMultiDisc || false,
-            discNumber: folderInfo.discNumber || null,
-          };
-
-          // 保存到数据库，如果是多卷结构则关联父文件夹
-          const fileRecord = await this.mediaRepository.saveMediaAndFolder(
-            identifiedMedia, 
-            folderDetails,
-            parentFolderId
-          );
-          savedIds.push(fileRecord.id);
-
-          logger.info(`[特殊文件夹] ✅ 已保存到数据库: ${folderInfo.path} (File ID: ${fileRecord.id})`);
-        } catch (error) {
-          logger.error(`[特殊文件夹] 保存数据库失败: ${result.folderInfo.path}`, error);
-          failedPaths.push(result.folderInfo.path);
-        }
-      }
+      const { savedIds, failedPaths } = await this.saveSpecialFolderResults(task.filePath, results);
 
       const processingTime = Date.now() - startTime;
       const totalCount = results.length;
@@ -196,6 +352,7 @@ export class TaskProcessor {
         success: savedIds.length > 0,
         processingTime,
         fileId: savedIds[0],
+        hint: hint ?? undefined,
         metadata: {
           totalCount,
           successCount,
@@ -210,56 +367,241 @@ export class TaskProcessor {
     }
   }
 
+  /**
+   * 保存特殊文件夹的处理结果，多子卷结构先创建父文件夹记录
+   * @param folderPath 任务的文件夹路径
+   * @param results 已创建链接的处理结果
+   * @returns 保存成功的文件记录ID和保存失败的路径
+   */
+  private async saveSpecialFolderResults(
+    folderPath: string,
+    results: SpecialFolderProcessResult[]
+  ): Promise<{ savedIds: number[]; failedPaths: string[] }> {
+    const savedIds: number[] = [];
+    const failedPaths: string[] = [];
+    
+    // 判断是否为多子卷结构（多于1个结果）
+    const isMultiVolume = results.length > 1;
+    let parentFolderId: number | undefined;
+    
+    // 如果是多子卷结构，先创建父文件夹记录
+    if (isMultiVolume) {
+      try {
+        const firstResult = results[0];
+        const identifiedMedia = this.toIdentifiedMedia(firstResult.mediaInfo);
+        
+        // 从第一个子卷的 linkPath 提取父目录路径
+        const parentLinkPath = dirname(firstResult.linkPath);
+        
+        parentFolderId = await this.mediaRepository.createParentFolderRecord(
+          identifiedMedia,
+          folderPath,
+          parentLinkPath,
+          firstResult.routingRule,
+          firstResult.linkMode
+        );
+        
+        logger.info(`[特殊文件夹] 创建父文件夹记录: ${folderPath} (Parent ID: ${parentFolderId})`);
+      } catch (error) {
+        logger.error(`[特殊文件夹] 创建父文件夹记录失败: ${folderPath}`, error);
+      }
+    }
+    
+    for (const result of results) {
+      try {
+        const { folderInfo, linkPath, mediaInfo } = result;
+
+        // 获取文件夹的设备信息
+        const deviceInfo = await getFileDeviceInfo(folderInfo.path);
+
+        // 构建文件夹详细信息
+        const folderDetails: FolderDetails = {
+          sourcePath: folderInfo.path,
+          linkPath: linkPath,
+          deviceId: deviceInfo.deviceId,
+          inode: deviceInfo.inode,
+          fileHash: null,
+          fileSize: BigInt(folderInfo.totalSize),
+          folderType: folderInfo.type,
+          isMultiDisc: folderInfo.isMultiDisc || false,
+          discNumber: folderInfo.discNumber || null,
+          routingRule: result.routingRule,
+          linkMode: result.linkMode,
+        };
+
+        // 保存到数据库，如果是多卷结构则关联父文件夹
+        const fileRecord = await this.mediaRepository.saveMediaAndFolder(
+          this.toIdentifiedMedia(mediaInfo), 
+          folderDetails,
+          parentFolderId
+        );
+        savedIds.push(fileRecord.id);
+
+        logger.info(`[特殊文件夹] ✅ 已保存到数据库: ${folderInfo.path} (File ID: ${fileRecord.id})`);
+      } catch (error) {
+        logger.error(`[特殊文件夹] 保存数据库失败: ${result.folderInfo.path}`, error);
+        failedPaths.push(result.folderInfo.path);
+      }
+    }
+
+    return { savedIds, failedPaths };
+  }
+
+  /**
+   * 将特殊文件夹的 TMDB 媒体信息转换为识别结果
+   */
+  private toIdentifiedMedia(mediaInfo: MediaInfo): IdentifiedMedia {
+    return {
+      type: mediaInfo.mediaType,
+      tmdbId: mediaInfo.tmdbId,
+      title: mediaInfo.title,
+      originalTitle: mediaInfo.originalTitle || '',
+      releaseDate: mediaInfo.releaseDate ? new Date(mediaInfo.releaseDate) : null,
+      description: mediaInfo.description,
+      posterPath: mediaInfo.posterPath,
+      backdropPath: null,
+      rawData: null,
+    };
+  }
+
   /**
    * 处理普通文件
    */
-  private async processNormalFile(task: QueueTask, startTime: number): Promise<TaskResult> {
+  private async processNormalFile(
+    task: QueueTask,
+    startTime: number,
+    hint: AppliedFolderHint | null
+  ): Promise<TaskResult> {
     try {
-      // 使用 LLM 识别策略
-      const identifier: IMediaIdentifier = new LLMIdentifier();
+      // 源文件只读取一次媒体信息，附加内容识别、时长校验和保存文件记录共用
+      const probe = task.isDirectory ? null : await probeMediaFile(task.filePath);
+
+      // 样片和菜单直接跳过，预告片、片头片尾等附加内容只识别所属作品，不作为正片处理
+      const extra: ExtraClassifyResult = task.isDirectory
+        ? { action: "link" }
+        : await this.classifyExtra(task.filePath, probe);
+      if (extra.action === "skip") {
+        await skipExtra(task.filePath, extra.reason);
+        return {
+          success: true,
+          skipReason: extra.reason,
+          processingTime: Date.now() - startTime,
+          hint: hint ?? undefined,
+        };
+      }
 
       // 识别媒体
-      const media = await identifier.identify(
-        task.fileName,
-        task.isDirectory,
-        task.filePath
-      );
+      const media = await this.identifyMedia(task, hint);
 
       if (!media) {
         throw new Error(`无法识别媒体文件: ${task.fileName}`);
       }
 
-      logger.info(`成功识别媒体: ${media.title} (任务ID: ${task.id})`);
+      logger.info(`成功识别媒体: ${media.title} (任务ID: ${task.id}, 策略: ${media.strategy}, 置信度: ${media.confidence})`);
+
+      const identification = {
+        strategy: media.strategy ?? "unknown",
+        confidence: media.confidence ?? 0,
+        episodeMapping: media.episodeMapping,
+      };
+
+      // 识别结果不确定时暂停处理，等待人工确认（人工确认和提示文件固定的结果没有候选项）
+      const reviewReason = this.getReviewReason(media);
+      if (reviewReason) {
+        return {
+          success: false,
+          needsReview: true,
+          reviewReason,
+          candidates: media.candidates,
+          identification,
+          hint: hint ?? undefined,
+          processingTime: Date.now() - startTime,
+        };
+      }
+
+      // 时长与识别结果明显不符时转为人工确认，或作为附加内容链接；已识别为附加内容的文件不校验
+      const durationCheck: DurationCheckResult = task.isDirectory || extra.action === "extras"
+        ? { action: "link" }
+        : this.checkDuration(media, probe);
+      if (durationCheck.action === "review") {
+        return {
+          success: false,
+          needsReview: true,
+          reviewReason: durationCheck.reason,
+          candidates: media.candidates,
+          identification,
+          hint: hint ?? undefined,
+          processingTime: Date.now() - startTime,
+        };
+      }
 
-      // 构建目标路径
-      const targetPath = this.hardlinkerService.buildTargetPath(media);
+      // 按路由规则构建目标路径
+      const { targetPath, routingRule } = await this.hardlinkerService.resolveTargetPath(media, task.filePath);
+      const extraLink = extra.action === "extras" ? extra : durationCheck.action === "extras" ? durationCheck : null;
 
       // 处理文件或目录
       let fileId: number | undefined;
       let mediaId: number | undefined;
+      let supersededFileIds: number[] | undefined;
 
       if (task.isDirectory) {
         // 对于普通目录，只创建目录结构
         const fs = await import("fs/promises");
         await fs.mkdir(targetPath, { recursive: true });
         logger.info(`创建目录: ${targetPath} (任务ID: ${task.id})`);
+      } else if (extraLink) {
+        // 附加内容保留源文件名，不参与重复检测，也不创建 NFO
+        logger.info(`作为附加内容处理: ${task.fileName}，${extraLink.reason}`);
+        const fileProcessor = getContainer().getFileProcessor();
+        const fileDetails = await fileProcessor.linkVideoFile(
+          task.filePath,
+          fileProcessor.buildExtraLinkPath(targetPath, task.filePath, extraLink.extraType),
+          routingRule,
+          undefined,
+          [],
+          probe
+        );
+        fileDetails.extraType = extraLink.extraType;
+        const fileRecord = await this.mediaRepository.saveMediaAndFile(media, fileDetails);
+        fileId = fileRecord.id;
+        mediaId = fileRecord.mediaId || undefined;
       } else {
+        // 已有同一集或电影的版本时，只有质量更高才替换
+        const duplicate = await this.checkDuplicate(task.filePath, media);
+        if (duplicate.action === "skip") {
+          await skipDuplicate(task.filePath, duplicate.reason);
+          return {
+            success: true,
+            duplicateOf: duplicate.fileId,
+            skipReason: duplicate.reason,
+            processingTime: Date.now() - startTime,
+            identification,
+            hint: hint ?? undefined,
+          };
+        }
         // 处理单个文件
         const fileDetails = await this.hardlinkerService.handleSingleFile(
           { path: task.filePath, filename: task.fileName },
           media,
           targetPath,
-          false // 暂时不保存到数据库，稍后统一保存
+          false, // 暂时不保存到数据库，稍后统一保存
+          routingRule,
+          duplicate.action === "upgrade" ? duplicate.versions : [],
+          probe
         );
 
         if (fileDetails) {
           // 创建 NFO 文件（将 .mkv 等扩展名替换为 .nfo）
           const nfoPath = fileDetails.linkPath.replace(/\.[^.]+$/, '.nfo');
-          createNfoFromMedia(nfoPath, media);
+          await createNfoFromMedia(nfoPath, media, fileDetails.mediaInfo);
           // 保存媒体和文件信息到数据库
           const fileRecord = await this.mediaRepository.saveMediaAndFile(media, fileDetails);
           fileId = fileRecord.id;
           mediaId = fileRecord.mediaId || undefined;
+          if (duplicate.action === "upgrade") {
+            await recordUpgrade(duplicate.versions, fileRecord.id, task.filePath, duplicate.quality);
+            supersededFileIds = duplicate.versions.map(version => version.id);
+          }
         }
       }
 
@@ -270,7 +612,10 @@ export class TaskProcessor {
         success: true,
         mediaId,
         fileId,
-        processingTime
+        supersededFileIds,
+        processingTime,
+        identification,
+        hint: hint ?? undefined,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -278,4 +623,91 @@ export class TaskProcessor {
       throw new Error(errorMessage);
     }
   }
+
+  /**
+   * 识别普通文件
+   * 优先使用人工确认的结果，其次使用提示文件固定的条目，否则按配置组合识别器链（规则 / LLM / 目录名）
+   */
+  private async identifyMedia(
+    task: ScrapingTaskData & Pick<QueueTask, "reviewSelection">,
+    hint: AppliedFolderHint | null
+  ): Promise<IdentifiedMedia | null> {
+    const offsets = { season: hint?.seasonOffset, episode: hint?.episodeOffset };
+
+    if (task.reviewSelection) {
+      const selection = JSON.parse(task.reviewSelection) as ReviewSelection;
+      const media = await new ManualIdentifier(selection, offsets).identify(task.fileName, task.isDirectory);
+      if (media) media.strategy = "manual";
+      return media;
+    }
+
+    if (hint?.tmdbId && hint.type) {
+      logger.info(`根据提示文件固定识别结果: ${task.fileName} -> ${hint.type} ${hint.tmdbId} (${hint.path})`);
+      const selection: ReviewSelection = { type: hint.type, tmdbId: hint.tmdbId };
+      const media = await new ManualIdentifier(selection, offsets).identify(task.fileName, task.isDirectory);
+      if (media) media.strategy = "hint";
+      return media;
+    }
+
+    // 媒体库指定了默认媒体类型时只搜索该类型
+    const config = getConfig();
+    const mediaTypeHint = findLibraryRoot(task.filePath, config)?.mediaType;
+    const identifier: IMediaIdentifier = createMediaIdentifier(config, mediaTypeHint);
+    const media = await identifier.identify(task.fileName, task.isDirectory, task.filePath);
+
+    // 未固定条目时，在识别结果上应用季集偏移并重新获取对应的剧集信息，特别篇（第 0 季）不应用季偏移
+    const seasonOffset = media?.seasonNumber === 0 ? 0 : offsets.season ?? 0;
+    const episodeOffset = offsets.episode ?? 0;
+    if (media && media.type === "tv" && (seasonOffset || episodeOffset)) {
+      const adjusted = await new ManualIdentifier({
+        type: "tv",
+        tmdbId: media.tmdbId,
+        seasonNumber: (media.seasonNumber ?? 1) + seasonOffset,
+        episodeNumber: media.episodeNumber != null ? media.episodeNumber + episodeOffset : undefined,
+      }).identify(task.fileName, task.isDirectory);
+
+      if (adjusted) {
+        logger.info(`根据提示文件应用季集偏移: ${task.fileName} -> S${adjusted.seasonNumber}E${adjusted.episodeNumber}`);
+        // 多集范围和绝对集数映射沿用原识别结果，不按文件名重新解析
+        return {
+          ...adjusted,
+          episodeNumberEnd: media.episodeNumberEnd != null ? media.episodeNumberEnd + episodeOffset : undefined,
+          episodeMapping: media.episodeMapping,
+          strategy: media.strategy,
+          confidence: media.confidence,
+          candidates: media.candidates,
+        };
+      }
+    }
+
+    return media;
+  }
+
+  /**
+   * 判断识别结果是否需要人工确认
+   * @returns 需要确认时返回原因，否则返回 null
+   */
+  private getReviewReason(media: IdentifiedMedia): string | null {
+    const review = getConfig().review;
+    const candidates = media.candidates ?? [];
+    if (!review?.enabled || candidates.length === 0) {
+      return null;
+    }
+
+    const selected = candidates.find(c => c.selected);
+    if (!selected) {
+      return null;
+    }
+
+    if (selected.similarity < review.minSimilarity) {
+      return `标题相似度过低 (${selected.similarity} < ${review.minSimilarity})`;
+    }
+
+    const rival = candidates.find(c => c !== selected && selected.score - c.score < review.closeMargin);
+    if (rival) {
+      return `候选结果接近: ${selected.title} (${selected.score}) / ${rival.title} (${rival.score})`;
+    }
+
+    return null;
+  }
 }
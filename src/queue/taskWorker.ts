@@ -1,6 +1,7 @@
 import { QueueManager } from "./queueManager";
 import { TaskProcessor } from "./taskProcessor";
 import { logger } from "@/utils/logger";
+import { runInJournalGroup } from "@/core/fileManage/operationJournal";
 import { ITaskWorker, QueueConfig } from "@/types/queue.types";
 
 /**
@@ -142,7 +143,10 @@ export class TaskWorker implements ITaskWorker {
         const result = await this.processTaskWithTimeout(task);
 
         // 根据处理结果更新任务状态
-        if (result.success) {
+        if (result.needsReview) {
+          await this.queueManager.markNeedsReview(task.id, result);
+          logger.warn(`工作协程 ${workerId} 任务待人工确认: ${task.fileName} (ID: ${task.id}), 原因: ${result.reviewReason}`);
+        } else if (result.success) {
           await this.queueManager.completeTask(task.id, result);
           logger.info(`工作协程 ${workerId} 完成任务: ${task.fileName} (ID: ${task.id})`);
         } else {
@@ -182,7 +186,11 @@ export class TaskWorker implements ITaskWorker {
         });
       }, this.config.processingTimeout);
 
-      this.taskProcessor.processTask(task)
+      // 任务中的文件操作记录到同一操作日志分组
+      runInJournalGroup(
+        { source: 'queue', label: task.fileName, taskId: task.id },
+        () => this.taskProcessor.processTask(task)
+      )
         .then((result) => {
           clearTimeout(timeoutId);
           resolve(result);
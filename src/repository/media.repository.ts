@@ -1,15 +1,32 @@
 import { Type, Prisma, LibraryStatus } from "@/generated/client";
 import client from "@/client";
 import { logger } from "@/utils/logger";
-import { downloadTMDBImage, formatDate } from "@/utils/media";
+import { downloadTMDBImage, formatDate, getEpisodeNumbers } from "@/utils/media";
 import { getFileDeviceInfo } from "@/utils/hash";
+import { probeMediaFile, toMediaInfoColumns } from "@/utils/mediaProbe";
 import { Episode } from "moviedb-promise";
 import {
   IMediaRepository,
   IdentifiedMedia,
   FileDetails,
+  SubtitleDetails,
 } from "@/types/media.types";
 import { NonRetryableError } from "@/core/errors";
+import { journalFileRecord } from "@/core/fileManage/operationJournal";
+import type { LinkMode } from "@/config/config";
+import { parseReleaseColumns } from "@/core/fileManage/quality";
+
+/**
+ * 将字幕信息转换为字幕记录的创建参数
+ */
+function toSubtitleCreateInput(subtitle: SubtitleDetails) {
+  return {
+    filePath: subtitle.sourcePath,
+    linkPath: subtitle.linkPath,
+    language: subtitle.language,
+    languageSource: subtitle.languageSource,
+  };
+}
 
 export class MediaRepository implements IMediaRepository {
   constructor() {}
@@ -20,11 +37,12 @@ export class MediaRepository implements IMediaRepository {
   ): Promise<any> {
     try {
       const mediaRecord = await this.findOrCreateMediaRecord(media);
-      const episodeId = await this.saveShowOrMovieInfo(mediaRecord.id, media);
+      const episodeIds = await this.saveShowOrMovieInfo(mediaRecord.id, media);
+      // 附加内容不关联剧集，避免被当作该集的版本
       const fileRecord = await this.upsertFileRecord(
         mediaRecord.id,
         fileDetails,
-        episodeId
+        fileDetails.extraType ? [] : episodeIds
       );
 
       logger.info(`成功将文件 "${fileDetails.sourcePath}" 信息保存到数据库`);
@@ -54,18 +72,20 @@ export class MediaRepository implements IMediaRepository {
       folderType: string;
       isMultiDisc: boolean;
       discNumber: number | null;
+      routingRule?: string | null;
+      linkMode?: LinkMode | null;
     },
     parentFolderId?: number
   ): Promise<any> {
     try {
       const mediaRecord = await this.findOrCreateMediaRecord(media);
-      const episodeId = await this.saveShowOrMovieInfo(mediaRecord.id, media);
+      const episodeIds = await this.saveShowOrMovieInfo(mediaRecord.id, media);
       
       // 使用文件夹专用的 upsert 方法
       const fileRecord = await this.upsertFolderRecord(
         mediaRecord.id,
         folderDetails,
-        episodeId,
+        episodeIds,
         parentFolderId
       );
 
@@ -82,12 +102,16 @@ export class MediaRepository implements IMediaRepository {
    * @param media 媒体信息
    * @param parentFolderPath 父文件夹路径
    * @param linkPath 硬链接路径
+   * @param routingRule 匹配的路由规则名称
+   * @param linkMode 子卷使用的链接方式
    * @returns 父文件夹记录ID
    */
   public async createParentFolderRecord(
     media: IdentifiedMedia,
     parentFolderPath: string,
-    linkPath: string
+    linkPath: string,
+    routingRule: string | null = null,
+    linkMode: LinkMode | null = null
   ): Promise<number> {
     try {
       // 获取父文件夹的设备信息
@@ -110,11 +134,14 @@ export class MediaRepository implements IMediaRepository {
         logger.info(`父文件夹记录已存在: ${parentFolderPath} (ID: ${existingParent.id})`);
         
         // 更新为父文件夹标识，并更新linkPath
+        await journalFileRecord(existingParent.id);
         await client.file.update({
           where: { id: existingParent.id },
           data: {
             isParentFolder: true,
             linkPath,
+            routingRule,
+            linkMode,
             Media: { connect: { id: mediaRecord.id } }
           }
         });
@@ -131,6 +158,8 @@ export class MediaRepository implements IMediaRepository {
           fileSize: BigInt(0), // 父文件夹不计算实际大小
           filePath: parentFolderPath,
           linkPath, // 父文件夹硬链接路径
+          routingRule,
+          linkMode,
           isDirectory: true,
           isParentFolder: true,
           isSpecialFolder: false,
@@ -138,6 +167,7 @@ export class MediaRepository implements IMediaRepository {
         }
       });
 
+      await journalFileRecord(parentRecord.id, true);
       logger.info(`创建父文件夹记录: ${parentFolderPath} -> ${linkPath} (ID: ${parentRecord.id})`);
       return parentRecord.id;
     } catch (error) {
@@ -161,8 +191,10 @@ export class MediaRepository implements IMediaRepository {
       folderType: string;
       isMultiDisc: boolean;
       discNumber: number | null;
+      routingRule?: string | null;
+      linkMode?: LinkMode | null;
     },
-    episodeId?: number,
+    episodeIds: number[] = [],
     parentFolderId?: number
   ) {
     let existingFile = await client.file.findFirst({
@@ -170,9 +202,6 @@ export class MediaRepository implements IMediaRepository {
         deviceId: folderDetails.deviceId,
         inode: folderDetails.inode,
       },
-      include: {
-        episodeInfo: true,
-      },
     });
 
     // 如果通过 deviceId 和 inode 没找到，尝试通过 filePath 查找
@@ -181,14 +210,13 @@ export class MediaRepository implements IMediaRepository {
         where: {
           filePath: folderDetails.sourcePath,
         },
-        include: {
-          episodeInfo: true,
-        },
       });
     }
 
     if (existingFile) {
       logger.info(`特殊文件夹记录已存在，将进行更新: ${folderDetails.sourcePath}`);
+      // 记录变更前的文件记录，撤销时还原
+      await journalFileRecord(existingFile.id);
       const updateData: Prisma.FileUpdateInput = {
         deviceId: folderDetails.deviceId,
         inode: folderDetails.inode,
@@ -201,6 +229,8 @@ export class MediaRepository implements IMediaRepository {
         folderType: folderDetails.folderType,
         isMultiDisc: folderDetails.isMultiDisc,
         discNumber: folderDetails.discNumber,
+        routingRule: folderDetails.routingRule ?? null,
+        linkMode: folderDetails.linkMode ?? null,
         Media: { connect: { id: mediaId } },
       };
       
@@ -209,11 +239,8 @@ export class MediaRepository implements IMediaRepository {
         updateData.parentFolder = { connect: { id: parentFolderId } };
       }
       
-      if (episodeId) {
-        updateData.episodeInfo = { connect: { id: episodeId } };
-      } else if (existingFile.episodeInfo) {
-        updateData.episodeInfo = { disconnect: true };
-      }
+      // 覆盖原有的剧集关联（多集文件关联多集）
+      updateData.episodes = { set: episodeIds.map((id) => ({ id })) };
 
       // 同时更新Library表中对应的记录状态
       await this.updateLibraryStatus(folderDetails.sourcePath, LibraryStatus.PROCESSED, existingFile.id);
@@ -250,12 +277,16 @@ export class MediaRepository implements IMediaRepository {
           folderType: folderDetails.folderType,
           isMultiDisc: folderDetails.isMultiDisc,
           discNumber: folderDetails.discNumber,
+          routingRule: folderDetails.routingRule ?? null,
+          linkMode: folderDetails.linkMode ?? null,
           Media: { connect: { id: mediaId } },
-          ...(episodeId ? { episodeInfo: { connect: { id: episodeId } } } : {}),
+          ...(episodeIds.length > 0 ? { episodes: { connect: episodeIds.map((id) => ({ id })) } } : {}),
           ...(parentFolderId ? { parentFolder: { connect: { id: parentFolderId } } } : {}),
         },
       });
 
+      await journalFileRecord(fileRecord.id, true);
+
       // 更新Library表状态并关联fileId
       await this.updateLibraryStatus(folderDetails.sourcePath, LibraryStatus.PROCESSED, fileRecord.id);
 
@@ -301,28 +332,25 @@ export class MediaRepository implements IMediaRepository {
   public async saveShowOrMovieInfo(
     mediaId: number,
     media: IdentifiedMedia
-  ): Promise<number | undefined> {
+  ): Promise<number[]> {
     if (media.type === "tv") {
       return this.saveTvShowInfo(mediaId, media);
     } else if (media.type === "movie") {
       await this.saveMovieInfo(mediaId, media);
     }
-    return undefined;
+    return [];
   }
 
   public async upsertFileRecord(
     mediaId: number,
     fileDetails: FileDetails,
-    episodeId?: number
+    episodeIds: number[] = []
   ) {
     let existingFile = await client.file.findFirst({
       where: {
         deviceId: fileDetails.deviceId,
         inode: fileDetails.inode,
       },
-      include: {
-        episodeInfo: true,
-      },
     });
 
     // 如果通过 deviceId 和 inode 没找到，尝试通过 filePath 查找
@@ -331,14 +359,13 @@ export class MediaRepository implements IMediaRepository {
         where: {
           filePath: fileDetails.sourcePath,
         },
-        include: {
-          episodeInfo: true,
-        },
       });
     }
 
     if (existingFile) {
       logger.info(`文件记录已存在，将进行更新: ${fileDetails.sourcePath}`);
+      // 记录变更前的文件记录，撤销时还原
+      await journalFileRecord(existingFile.id);
       const updateData: Prisma.FileUpdateInput = {
         deviceId: fileDetails.deviceId,
         inode: fileDetails.inode,
@@ -346,12 +373,20 @@ export class MediaRepository implements IMediaRepository {
         fileSize: fileDetails.fileSize,
         filePath: fileDetails.sourcePath,
         linkPath: fileDetails.linkPath,
+        routingRule: fileDetails.routingRule ?? null,
+        linkMode: fileDetails.linkMode ?? null,
+        extraType: fileDetails.extraType ?? null,
+        ...parseReleaseColumns(fileDetails.sourcePath),
+        ...(fileDetails.mediaInfo !== undefined ? toMediaInfoColumns(fileDetails.mediaInfo) : {}),
         Media: { connect: { id: mediaId } },
       };
-      if (episodeId) {
-        updateData.episodeInfo = { connect: { id: episodeId } };
-      } else if (existingFile.episodeInfo) {
-        updateData.episodeInfo = { disconnect: true };
+      // 覆盖原有的剧集关联（多集文件关联多集）
+      updateData.episodes = { set: episodeIds.map((id) => ({ id })) };
+
+      // 覆盖原有的字幕记录
+      if (fileDetails.subtitles) {
+        await client.subtitle.deleteMany({ where: { fileId: existingFile.id } });
+        updateData.subtitles = { create: fileDetails.subtitles.map(toSubtitleCreateInput) };
       }
 
       // 同时更新Library表中对应的记录状态
@@ -384,11 +419,19 @@ export class MediaRepository implements IMediaRepository {
           fileSize: fileDetails.fileSize,
           filePath: fileDetails.sourcePath,
           linkPath: fileDetails.linkPath,
+          routingRule: fileDetails.routingRule ?? null,
+          linkMode: fileDetails.linkMode ?? null,
+          extraType: fileDetails.extraType ?? null,
+          ...parseReleaseColumns(fileDetails.sourcePath),
+          ...(fileDetails.mediaInfo !== undefined ? toMediaInfoColumns(fileDetails.mediaInfo) : {}),
           Media: { connect: { id: mediaId } },
-          ...(episodeId ? { episodeInfo: { connect: { id: episodeId } } } : {}),
+          ...(episodeIds.length > 0 ? { episodes: { connect: episodeIds.map((id) => ({ id })) } } : {}),
+          ...(fileDetails.subtitles?.length ? { subtitles: { create: fileDetails.subtitles.map(toSubtitleCreateInput) } } : {}),
         },
       });
 
+      await journalFileRecord(fileRecord.id, true);
+
       // 更新Library表状态并关联fileId
       await this.updateLibraryStatus(fileDetails.sourcePath, LibraryStatus.PROCESSED, fileRecord.id);
 
@@ -396,6 +439,60 @@ export class MediaRepository implements IMediaRepository {
     }
   }
 
+  /**
+   * 为早期版本创建、还没有发布信息的视频文件记录从源文件名解析发布信息
+   * @returns 更新的记录数
+   */
+  public async backfillReleaseInfo(): Promise<number> {
+    const files = await client.file.findMany({
+      where: {
+        isDirectory: false,
+        resolution: null,
+        source: null,
+        videoCodec: null,
+        hdrFormat: null,
+        audioCodec: null,
+        releaseGroup: null,
+      },
+      select: { id: true, filePath: true },
+    });
+
+    let updated = 0;
+    for (const file of files) {
+      const columns = parseReleaseColumns(file.filePath);
+      if (Object.values(columns).every((value) => value === null)) continue;
+      await client.file.update({ where: { id: file.id }, data: columns });
+      updated++;
+    }
+
+    if (updated > 0) {
+      logger.info(`已为 ${updated} 个文件记录补充发布信息`);
+    }
+    return updated;
+  }
+
+  /**
+   * 为还没有读取过媒体信息的视频文件记录读取源文件的容器头部
+   * @returns 读取到媒体信息的记录数
+   */
+  public async backfillMediaInfo(): Promise<number> {
+    const files = await client.file.findMany({
+      where: { isDirectory: false, probedAt: null, supersededAt: null },
+      select: { id: true, filePath: true },
+    });
+
+    let probed = 0;
+    for (const file of files) {
+      const result = await probeMediaFile(file.filePath);
+      await client.file.update({ where: { id: file.id }, data: toMediaInfoColumns(result) });
+      if (result) probed++;
+    }
+    if (files.length > 0) {
+      logger.info(`已为 ${probed}/${files.length} 个文件记录读取媒体信息`);
+    }
+    return probed;
+  }
+
   /**
    * 更新Library表中文件的状态
    */
@@ -443,7 +540,7 @@ export class MediaRepository implements IMediaRepository {
   private async saveTvShowInfo(
     mediaId: number,
     media: IdentifiedMedia
-  ): Promise<number | undefined> {
+  ): Promise<number[]> {
     // 创建或查找 TvInfo
     let tvInfo = await client.tvInfo.findFirst({
       where: { tmdbId: media.tmdbId },
@@ -464,57 +561,72 @@ export class MediaRepository implements IMediaRepository {
       data: { tvInfoId: tvInfo.id },
     });
 
-    // 如果是剧集文件，创建或更新 EpisodeInfo
-    if (media.episodeNumber && media.rawData?.episodes) {
+    // 如果是剧集文件，创建或更新 EpisodeInfo（多集文件包含范围内的每一集）
+    const episodeIds: number[] = [];
+    if (!media.rawData?.episodes) {
+      return episodeIds;
+    }
+
+    for (const episodeNumber of getEpisodeNumbers(media)) {
       const episodeData = (media.rawData.episodes as Episode[]).find(
-        (e) => e.episode_number === media.episodeNumber
+        (e) => e.episode_number === episodeNumber
       );
 
-      if (episodeData && episodeData.id && episodeData.season_number && episodeData.episode_number) {
-        const episodeTmdbId = episodeData.id;
-        let episodeInfo = await client.episodeInfo.findFirst({
-          where: { tmdbId: episodeTmdbId },
-        });
+      if (!episodeData || !episodeData.id || episodeData.season_number == null || !episodeData.episode_number) {
+        logger.warn(`TMDB 中找不到剧集 S${media.seasonNumber}E${episodeNumber}，跳过`);
+        continue;
+      }
 
-        const localStillUrl = await downloadTMDBImage(
-          episodeData.still_path,
-          "still"
-        );
+      const episodeTmdbId = episodeData.id;
+      let episodeInfo = await client.episodeInfo.findFirst({
+        where: { tmdbId: episodeTmdbId },
+      });
 
-        if (episodeInfo) {
-          // 更新现有剧集的所有信息
-          episodeInfo = await client.episodeInfo.update({
-            where: { id: episodeInfo.id },
-            data: {
-              seasonNumber: episodeData.season_number,
-              episodeNumber: episodeData.episode_number,
-              title: episodeData.name,
-              releaseDate: formatDate(episodeData.air_date),
-              description: episodeData.overview,
-              posterUrl: localStillUrl || episodeInfo.posterUrl, // 如果有新海报就用新的，否则保留旧的
-              tvInfoId: tvInfo.id,
-            },
-          });
-          logger.info(`更新剧集信息: ${episodeData.name} (TMDB ID: ${episodeTmdbId})`);
-        } else {
-          // 创建新剧集
-          episodeInfo = await client.episodeInfo.create({
-            data: {
-              tmdbId: episodeTmdbId,
-              seasonNumber: episodeData.season_number,
-              episodeNumber: episodeData.episode_number,
-              title: episodeData.name,
-              releaseDate: formatDate(episodeData.air_date),
-              description: episodeData.overview,
-              posterUrl: localStillUrl,
-              tvInfoId: tvInfo.id,
-            },
-          });
-          logger.info(`创建剧集信息: ${episodeData.name} (TMDB ID: ${episodeTmdbId})`);
-        }
-        return episodeInfo.id; // 返回剧集ID
+      const localStillUrl = await downloadTMDBImage(
+        episodeData.still_path,
+        "still"
+      );
+
+      // 绝对集数映射只记录起始集，多集文件的后续集按顺序递增
+      const absoluteNumber = media.episodeMapping
+        ? media.episodeMapping.absoluteEpisode + (episodeNumber - media.episodeNumber!)
+        : undefined;
+
+      if (episodeInfo) {
+        // 更新现有剧集的所有信息
+        episodeInfo = await client.episodeInfo.update({
+          where: { id: episodeInfo.id },
+          data: {
+            seasonNumber: episodeData.season_number,
+            episodeNumber: episodeData.episode_number,
+            absoluteNumber,
+            title: episodeData.name,
+            releaseDate: formatDate(episodeData.air_date),
+            description: episodeData.overview,
+            posterUrl: localStillUrl || episodeInfo.posterUrl, // 如果有新海报就用新的，否则保留旧的
+            tvInfoId: tvInfo.id,
+          },
+        });
+        logger.info(`更新剧集信息: ${episodeData.name} (TMDB ID: ${episodeTmdbId})`);
+      } else {
+        // 创建新剧集
+        episodeInfo = await client.episodeInfo.create({
+          data: {
+            tmdbId: episodeTmdbId,
+            seasonNumber: episodeData.season_number,
+            episodeNumber: episodeData.episode_number,
+            absoluteNumber,
+            title: episodeData.name,
+            releaseDate: formatDate(episodeData.air_date),
+            description: episodeData.overview,
+            posterUrl: localStillUrl,
+            tvInfoId: tvInfo.id,
+          },
+        });
+        logger.info(`创建剧集信息: ${episodeData.name} (TMDB ID: ${episodeTmdbId})`);
       }
+      episodeIds.push(episodeInfo.id);
     }
-    return undefined; // 如果不是剧集文件，返回undefined
+    return episodeIds; // 不是剧集文件时为空
   }
 }
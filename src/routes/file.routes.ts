@@ -24,6 +24,18 @@ router.get(
   fileController.getDirectoryContents
 );
 
+// 预览硬链接整理计划
+router.get("/reorganize", fileController.previewReorganize);
+
+// 按当前命名模板整理已有硬链接
+router.post(
+  "/reorganize",
+  createValidator({
+    body: FileValidators.reorganize
+  }),
+  fileController.reorganize
+);
+
 // 获取单个文件详情
 router.get(
   "/:id",
@@ -71,4 +83,14 @@ router.patch(
   fileController.updateDiscNumber
 );
 
+// 修改字幕语言
+router.patch(
+  "/subtitles/:id/language",
+  createValidator({
+    params: ParamValidators.id,
+    body: FileValidators.updateSubtitleLanguage
+  }),
+  fileController.updateSubtitleLanguage
+);
+
 export default router;
\ No newline at end of file
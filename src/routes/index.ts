@@ -7,6 +7,8 @@ import systemRoutes from "./system.routes";
 import tmdbRoutes from "./tmdb.routes";
 import queueRoutes from "./queue.routes";
 import scanRoutes from "./scan.routes";
+import integrityRoutes from "./integrity.routes";
+import journalRoutes from "./journal.routes";
 
 const router = Router();
 
@@ -18,6 +20,8 @@ router.use("/files", fileRoutes);
 router.use("/tmdb", tmdbRoutes);
 router.use("/queue", queueRoutes);
 router.use("/scan", scanRoutes);
+router.use("/integrity", integrityRoutes);
+router.use("/journal", journalRoutes);
 router.use("/", systemRoutes);
 
 export default router;
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { IntegrityController } from "@/controllers";
+import { getIntegrityChecker } from "@/core/fileManage/integrityChecker";
+import { createValidator } from "@/middleware/validation.middleware";
+import { IntegrityBodyValidators } from "@/validators";
+
+const integrityController = new IntegrityController();
+
+// 启动定期完整性校验
+getIntegrityChecker().start();
+
+const router = Router();
+
+// 获取校验状态和最近一次的结果
+router.get("/", integrityController.getStatus);
+
+// 手动触发校验
+router.post("/check", integrityController.triggerCheck);
+
+// 修复校验发现的问题
+router.post(
+  "/repair",
+  createValidator({
+    body: IntegrityBodyValidators.repair
+  }),
+  integrityController.repair
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { JournalController } from "@/controllers";
+import { createValidator } from "@/middleware/validation.middleware";
+import { JournalQueryValidators, ParamValidators } from "@/validators";
+
+const journalController = new JournalController();
+
+const router = Router();
+
+// 分页获取操作日志分组
+router.get(
+  "/",
+  createValidator({
+    query: JournalQueryValidators.groups
+  }),
+  journalController.getGroups
+);
+
+// 获取分组内的操作
+router.get(
+  "/:id",
+  createValidator({
+    params: ParamValidators.id
+  }),
+  journalController.getOperations
+);
+
+// 撤销整组操作
+router.post(
+  "/:id/undo",
+  createValidator({
+    params: ParamValidators.id
+  }),
+  journalController.undo
+);
+
+export default router;
@@ -39,6 +39,25 @@ router.post("/tasks/retry-all-failed", queueController.retryAllFailedTasks);
 // 清除所有失败的任务
 router.delete("/tasks/failed", queueController.clearFailedTasks);
 
+// 获取待人工确认的任务列表
+router.get(
+  "/review",
+  createValidator({
+    query: QueueQueryValidators.review
+  }),
+  queueController.getReviewTasks
+);
+
+// 确认或覆盖待确认任务的识别结果
+router.post(
+  "/review/:taskId/resolve",
+  createValidator({
+    params: QueueParamValidators.taskId,
+    body: QueueBodyValidators.resolveReview
+  }),
+  queueController.resolveReview
+);
+
 // 重试指定任务
 router.post(
   "/tasks/:taskId/retry",
@@ -18,6 +18,30 @@ router.post("/trigger", scanController.triggerScan);
 // 获取扫描状态
 router.get("/status", scanController.getScanStatus);
 
+// 获取预演计划
+router.get("/plan", scanController.getPlanStatus);
+
+// 预演扫描，生成执行计划
+router.post("/plan", scanController.triggerPlan);
+
+// 执行预演计划
+router.post(
+  "/plan/apply",
+  createValidator({
+    body: ScanBodyValidators.applyPlan
+  }),
+  scanController.applyPlan
+);
+
+// 导出预演计划
+router.get(
+  "/plan/export",
+  createValidator({
+    query: ScanQueryValidators.exportPlan
+  }),
+  scanController.exportPlan
+);
+
 // 获取扫描日志
 router.get(
   "/logs",
@@ -30,4 +30,28 @@ router.put(
   systemController.updateConfig
 );
 
+// 获取内置命名预设
+router.get("/system/naming-presets", systemController.getNamingPresets);
+
+// 获取路由规则
+router.get("/system/routing-rules", systemController.getRoutingRules);
+
+// 更新路由规则
+router.put(
+  "/system/routing-rules",
+  createValidator({
+    body: SystemBodyValidators.updateRoutingRules,
+  }),
+  systemController.updateRoutingRules
+);
+
+// 清除 LLM 解析结果缓存
+router.delete(
+  "/system/llm-cache",
+  createValidator({
+    query: SystemQueryValidators.invalidateLlmCache,
+  }),
+  systemController.invalidateLlmCache
+);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import client from "@/client";
 import { logger } from "@/utils/logger";
 import { ImageUrlHelper } from "@/utils/imageUrl";
+import { getLlmCache } from "@/core/cache/llmCache";
 
 const prisma = client;
 
@@ -73,6 +74,12 @@ export class DashboardService {
         else if (item.type === 'collection') typeStats.collection = item._count.id;
       });
       
+      // 获取 LLM 缓存命中统计
+      const llmCacheStats = await getLlmCache().getStats();
+      
+      // 获取视频文件的质量分布
+      const qualityStats = await this.getQualityStats();
+      
       const dashboardData = {
         totalMedia,
         totalFiles,
@@ -81,6 +88,8 @@ export class DashboardService {
         totalStorageTB: Math.round(totalStorageTB * 100) / 100,
         storageUsagePercent: Math.round(storageUsagePercent * 100) / 100,
         typeStats,
+        llmCache: llmCacheStats,
+        qualityStats,
         recentMedia: processedRecentMedia,
       };
       
@@ -92,6 +101,43 @@ export class DashboardService {
     }
   }
 
+  // 按分辨率和来源统计视频文件的数量和大小（不含文件夹、附加内容和已被替换的文件），无法识别的值为 null
+  private async getQualityStats() {
+    const where = { isDirectory: false, supersededAt: null, extraType: null };
+
+    const byResolution = await prisma.file.groupBy({
+      by: ['resolution'],
+      where,
+      _count: { id: true },
+      _sum: { fileSize: true },
+    });
+    const bySource = await prisma.file.groupBy({
+      by: ['source'],
+      where,
+      _count: { id: true },
+      _sum: { fileSize: true },
+    });
+    const hdrFiles = await prisma.file.count({
+      where: { ...where, hdrFormat: { not: null } },
+    });
+
+    const totalFiles = byResolution.reduce((sum, item) => sum + item._count.id, 0);
+    const uhdFiles = byResolution.find(item => item.resolution === '2160p')?._count.id ?? 0;
+
+    return {
+      totalFiles,
+      uhdFiles,
+      uhdPercent: totalFiles > 0 ? Math.round((uhdFiles / totalFiles) * 10000) / 100 : 0,
+      hdrFiles,
+      resolutions: byResolution
+        .map(item => ({ value: item.resolution, count: item._count.id, bytes: Number(item._sum.fileSize || 0n) }))
+        .sort((a, b) => b.count - a.count),
+      sources: bySource
+        .map(item => ({ value: item.source, count: item._count.id, bytes: Number(item._sum.fileSize || 0n) }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
   // 获取最近添加的媒体
   async getRecentMedia(limit: number = 10) {
     try {
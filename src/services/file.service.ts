@@ -1,19 +1,34 @@
 import type { Prisma } from "@/generated/client";
 import client from "@/client";
 import { logger } from "@/utils/logger";
-import { getConfig } from "@/config/config";
+import { getConfig, LibraryRootConfig, LinkMode } from "@/config/config";
+import { findLibraryRoot, getConfigForPath, getLibraryRoots, getLinkModes, isPathInside } from "@/config/library";
 import fs from "fs/promises";
 import path from "path";
 import { MediaHardlinkerService } from "@/core/fileManage/mediaHardlinker";
+import { buildSpecialFolderRelativePath } from "@/core/fileManage/naming";
+import { getLibraryReorganizer } from "@/core/fileManage/reorganizer";
+import { journalFileRecord } from "@/core/fileManage/operationJournal";
+import { MediaRouter } from "@/core/fileManage/routing";
 import { MediaRepository } from "@/repository/media.repository";
 import { EpisodeService } from "./episode.service";
 import { deleteHardlink, createHardlinkRecursively } from "@/utils/hardlink";
+import { buildSubtitleLinkPath, identifySubtitle, removeSubtitleLinks } from "@/core/fileManage/subtitles";
+import { normalizeSubtitleLanguage } from "@/core/fileManage/subtitleLanguage";
 import { BusinessError, ErrorType } from "@/core/errors";
 import { IdentifiedMedia } from "@/types/media.types";
 import { createNfoFromMedia } from "@/utils/nfo/jellyfin";
+import { toMediaInfoColumns } from "@/utils/mediaProbe";
 
 const prisma = client;
 
+/**
+ * 拼接导航路径，前缀或相对路径为空时省略分隔符
+ */
+function joinNavigationPath(prefix: string, relativePath: string): string {
+  return [prefix, relativePath].filter(Boolean).join("/");
+}
+
 interface FileSystemItem {
   name: string;
   path: string;
@@ -50,37 +65,54 @@ export class FileService {
   ) {}
 
   // 获取指定目录下的文件和文件夹（不递归）
+  // 配置了多个媒体库时，根目录列出各媒体库，导航路径以媒体库名称开头
   async getDirectoryContents(dirPath?: string) {
     try {
       const config = getConfig();
-      const monitorPath = path.resolve(config.monitorFilePath);
+      const roots = getLibraryRoots(config);
+      const isMultiLibrary = roots.length > 1;
 
       // 处理目录路径：如果是根目录或空字符串，则使用监控根目录
-      let targetPath: string;
-      if (!dirPath || dirPath === "/" || dirPath === "") {
-        targetPath = monitorPath;
-      } else {
-        // 前端传递的是完整路径，需要检查是否在监控目录内
-        const resolvedDirPath = path.resolve(dirPath);
-
-        // 安全检查：确保目标路径在监控目录内
-        if (!resolvedDirPath.startsWith(monitorPath)) {
-          // 如果不在监控目录内，尝试作为相对路径处理
-          const cleanPath = dirPath.startsWith("/")
-            ? dirPath.slice(1)
-            : dirPath;
-          targetPath = path.join(monitorPath, cleanPath);
+      let root: LibraryRootConfig | null = roots[0];
+      let relativeDirPath = "";
+      if (dirPath && dirPath !== "/") {
+        const absoluteRoot = path.isAbsolute(dirPath)
+          ? findLibraryRoot(dirPath, config)
+          : null;
+        if (absoluteRoot) {
+          // 前端传递的是完整路径，直接定位所属媒体库
+          root = absoluteRoot;
+          relativeDirPath = path.relative(root.monitorPath, dirPath);
         } else {
-          // 如果已经在监控目录内，直接使用
-          targetPath = resolvedDirPath;
+          // 作为相对路径处理
+          const cleanPath = dirPath.replace(/\\/g, "/").replace(/^\/+/, "");
+          if (isMultiLibrary) {
+            const [libraryName, ...rest] = cleanPath.split("/");
+            root = roots.find((item) => item.name === libraryName) ?? null;
+            relativeDirPath = rest.join("/");
+          } else {
+            relativeDirPath = cleanPath;
+          }
         }
+      } else if (isMultiLibrary) {
+        return {
+          items: await this.listLibraryRoots(roots),
+          currentPath: "",
+          parentPath: null,
+        };
       }
 
-      // 最终安全检查：确保目标路径在监控目录内
-      const normalizedTargetPath = path.normalize(targetPath);
-      const normalizedMonitorPath = path.normalize(monitorPath);
+      if (!root) {
+        throw new Error("媒体库不存在");
+      }
+
+      const monitorPath = path.resolve(root.monitorPath);
+      const targetPath = path.join(monitorPath, relativeDirPath);
+      // 多媒体库时导航路径需要带上媒体库名称
+      const navigationPrefix = isMultiLibrary ? root.name : "";
 
-      if (!normalizedTargetPath.startsWith(normalizedMonitorPath)) {
+      // 最终安全检查：确保目标路径在监控目录内
+      if (!isPathInside(targetPath, monitorPath)) {
         throw new Error("目录路径不在允许的范围内");
       }
 
@@ -88,7 +120,8 @@ export class FileService {
       const dbFiles = await prisma.file.findMany({
         include: {
           Media: true,
-          episodeInfo: true,
+          episodes: true,
+          subtitles: true,
           childFolders: {
             include: {
               Media: true,
@@ -113,7 +146,8 @@ export class FileService {
       const items = await this.readSingleDirectory(
         targetPath,
         monitorPath,
-        dbFileMap
+        dbFileMap,
+        navigationPrefix
       );
 
       // 排序：目录在前，文件在后
@@ -127,14 +161,23 @@ export class FileService {
       // 计算相对路径用于面包屑导航
       const relativePath = path.relative(monitorPath, targetPath);
       // 统一使用正斜杠，确保跨平台兼容性
-      const normalizedRelativePath = relativePath.replace(/\\/g, "/");
+      const normalizedRelativePath = joinNavigationPath(
+        navigationPrefix,
+        relativePath.replace(/\\/g, "/")
+      );
 
       // 计算父路径
       let parentPath: string | null = null;
-      if (normalizedRelativePath) {
+      if (relativePath) {
         const dirname = path.dirname(relativePath).replace(/\\/g, "/");
-        // 如果 dirname 是 "."，表示父目录是根目录
-        parentPath = dirname === "." || dirname === "" ? "" : dirname;
+        // 如果 dirname 是 "."，表示父目录是媒体库根目录
+        parentPath = joinNavigationPath(
+          navigationPrefix,
+          dirname === "." ? "" : dirname
+        );
+      } else if (isMultiLibrary) {
+        // 媒体库根目录的上级为媒体库列表
+        parentPath = "";
       } else {
         // 如果 relativePath 为空，表示当前在根目录，没有父目录
         parentPath = null;
@@ -154,11 +197,38 @@ export class FileService {
     }
   }
 
+  // 列出所有媒体库的监听目录
+  private async listLibraryRoots(
+    roots: LibraryRootConfig[]
+  ): Promise<FileSystemItem[]> {
+    const items: FileSystemItem[] = [];
+
+    for (const root of roots) {
+      try {
+        const stat = await fs.stat(root.monitorPath);
+        items.push({
+          name: root.name,
+          path: path.relative(process.cwd(), root.monitorPath),
+          navigationPath: root.name,
+          fullPath: root.monitorPath,
+          isDirectory: true,
+          modifiedTime: stat.mtime,
+          inDatabase: false,
+        });
+      } catch (error) {
+        logger.error(`读取媒体库 ${root.name} 的监听目录失败`, error);
+      }
+    }
+
+    return items;
+  }
+
   // 读取单个目录的内容（不递归）
   private async readSingleDirectory(
     dirPath: string,
     monitorPath: string,
-    dbFileMap: Map<string, any>
+    dbFileMap: Map<string, any>,
+    navigationPrefix = ""
   ): Promise<FileSystemItem[]> {
     const items: FileSystemItem[] = [];
 
@@ -171,9 +241,10 @@ export class FileService {
         const displayPath = path.relative(process.cwd(), fullPath);
 
         if (entry.isDirectory()) {
-          const navigationPath = path
-            .relative(monitorPath, fullPath)
-            .replace(/\\/g, "/");
+          const navigationPath = joinNavigationPath(
+            navigationPrefix,
+            path.relative(monitorPath, fullPath).replace(/\\/g, "/")
+          );
           // 添加目录项
           const stat = await fs.stat(fullPath);
 
@@ -246,7 +317,8 @@ export class FileService {
         where: { id },
         include: {
           Media: true,
-          episodeInfo: true,
+          episodes: true,
+          subtitles: true,
         },
       });
 
@@ -313,12 +385,12 @@ export class FileService {
           ...(episodeInfoId &&
           seasonNumber !== undefined &&
           episodeNumber !== undefined
-            ? { episodeInfoId }
+            ? { episodes: { set: [{ id: episodeInfoId }] } }
             : {}),
         },
         include: {
           Media: true,
-          episodeInfo: true,
+          episodes: true,
         },
       });
 
@@ -333,7 +405,6 @@ export class FileService {
           where: { id: currentFile.parentFolderId },
           data: {
             mediaId,
-            ...(episodeInfoId ? { episodeInfoId } : {}),
           },
         });
         logger.info(`已同步父文件夹 (ID: ${currentFile.parentFolderId})`);
@@ -354,7 +425,6 @@ export class FileService {
             },
             data: {
               mediaId,
-              ...(episodeInfoId ? { episodeInfoId } : {}),
             },
           });
           logger.info(`已同步 ${siblingFolders.length} 个同级子文件夹`);
@@ -371,7 +441,6 @@ export class FileService {
           },
           data: {
             mediaId,
-            ...(episodeInfoId ? { episodeInfoId } : {}),
           },
         });
         logger.info(`已同步 ${currentFile.childFolders.length} 个子文件夹`);
@@ -391,9 +460,9 @@ export class FileService {
         mediaId: mediaId,
       };
 
-      // 如果提供了剧集ID，则也要匹配剧集ID
+      // 如果提供了剧集ID，则也要匹配剧集ID（多集文件包含该集即视为已关联）
       if (episodeInfoId !== undefined) {
-        whereCondition.episodeInfoId = episodeInfoId;
+        whereCondition.episodes = { some: { id: episodeInfoId } };
       }
 
       const existingFile = await prisma.file.findFirst({
@@ -409,12 +478,13 @@ export class FileService {
               type: true,
             },
           },
-          episodeInfo: {
+          episodes: {
             select: {
               seasonNumber: true,
               episodeNumber: true,
               title: true,
             },
+            orderBy: { episodeNumber: "asc" },
           },
         },
       });
@@ -585,8 +655,14 @@ export class FileService {
       let errorMessage = `媒体 "${existingFile.Media?.title}" 已被文件关联: ${existingFile.filePath}`;
 
       // 如果是电视剧，添加剧集信息
-      if (existingFile.episodeInfo) {
-        errorMessage = `"${existingFile.Media?.title}" S${existingFile.episodeInfo.seasonNumber}E${existingFile.episodeInfo.episodeNumber} 已被文件关联: ${existingFile.filePath}`;
+      if (existingFile.episodes.length > 0) {
+        const [firstEpisode] = existingFile.episodes;
+        const lastEpisode = existingFile.episodes[existingFile.episodes.length - 1];
+        const episodeRange =
+          lastEpisode.episodeNumber > firstEpisode.episodeNumber
+            ? `E${firstEpisode.episodeNumber}-E${lastEpisode.episodeNumber}`
+            : `E${firstEpisode.episodeNumber}`;
+        errorMessage = `"${existingFile.Media?.title}" S${firstEpisode.seasonNumber}${episodeRange} 已被文件关联: ${existingFile.filePath}`;
       }
 
       logger.warn(errorMessage);
@@ -610,8 +686,8 @@ export class FileService {
   ): Promise<IdentifiedMedia> {
     const media: IdentifiedMedia = { ...mediaInfo };
 
-    // 为电视剧添加季集信息
-    if (seasonNumberInt && episodeNumberInt) {
+    // 为电视剧添加季集信息（季号为 0 时为特别篇）
+    if (seasonNumberInt !== null && episodeNumberInt) {
       media.seasonNumber = seasonNumberInt;
       media.episodeNumber = episodeNumberInt;
       media.episodeTitle = mediaInfo.episodeInfo.name;
@@ -647,18 +723,19 @@ export class FileService {
     fileInfo: { path: string; filename: string },
     media: any
   ) {
-    const targetPath = this.mediaHardlinkerService.buildTargetPath(media);
+    const { targetPath, routingRule } = await this.mediaHardlinkerService.resolveTargetPath(media, fileInfo.path);
     const result = await this.mediaHardlinkerService.handleSingleFile(
       fileInfo,
       media,
       targetPath,
-      true // 保存到数据库
+      true, // 保存到数据库
+      routingRule
     );
 
     // 创建 NFO 文件
     if (result?.linkPath) {
       const nfoPath = result.linkPath.replace(/\.[^.]+$/, '.nfo');
-      createNfoFromMedia(nfoPath, media);
+      await createNfoFromMedia(nfoPath, media, result.mediaInfo);
     }
 
     return result;
@@ -694,6 +771,9 @@ export class FileService {
       );
     }
 
+    // 记录变更前的文件记录，撤销时还原
+    await journalFileRecord(fileId);
+
     // 删除旧的硬链接
     let parentInfo: ParentInfoWithChildren | null = null;
     if (parentFolderId) {
@@ -710,10 +790,15 @@ export class FileService {
           ErrorType.VALIDATION_ERROR,
           `无法获取父文件夹信息，ID: ${parentFolderId}`
         );
+      for (const record of [parentInfo, ...parentInfo.childFolders]) {
+        await journalFileRecord(record.id);
+      }
       logger.info(`删除父文件夹的旧硬链接: ${parentInfo.linkPath}`);
-      await deleteHardlink(parentInfo.linkPath);
+      await deleteHardlink(parentInfo.linkPath, parentInfo.linkMode as LinkMode | null, parentInfo.filePath);
     } else {
-      await deleteHardlink(existingFileInfo.linkPath);
+      // 保留字幕记录，重新链接时沿用手动指定的语言
+      await removeSubtitleLinks(fileId, true);
+      await deleteHardlink(existingFileInfo.linkPath, existingFileInfo.linkMode as LinkMode | null, existingFileInfo.filePath);
       logger.info(`删除旧的硬链接: ${existingFileInfo.linkPath}`);
     }
 
@@ -725,7 +810,7 @@ export class FileService {
         episodeNumberInt
       );
 
-      // 先更新数据库记录,清除旧的 episode_info_id
+      // 先更新数据库记录,覆盖旧的剧集关联
       await this.linkMediaToFile(
         fileId,
         mediaRecord.id,
@@ -739,6 +824,7 @@ export class FileService {
     if ((parentFolderId && parentInfo) || existingFileInfo.isSpecialFolder) {
       return await this.handleSpecialFolderHardlink(
         fileId,
+        fileInfo.path,
         parentInfo,
         media,
         mediaRecord
@@ -746,27 +832,41 @@ export class FileService {
     }
 
     // 普通文件处理
-    const targetPath = this.mediaHardlinkerService.buildTargetPath(media);
+    const { targetPath, routingRule } = await this.mediaHardlinkerService.resolveTargetPath(media, fileInfo.path);
     const mediaFileLinkInfo =
       await this.mediaHardlinkerService.handleSingleFile(
         fileInfo,
         media,
         targetPath,
-        false // 不直接保存到数据库，手动处理
+        false, // 不直接保存到数据库，手动处理
+        routingRule
       );
 
-    // 更新文件记录的链接路径
+    // 更新文件记录的链接路径、路由规则和字幕记录
+    await prisma.subtitle.deleteMany({ where: { fileId } });
     if (mediaFileLinkInfo) {
       await prisma.file.update({
         where: { id: fileId },
         data: {
           linkPath: mediaFileLinkInfo.linkPath,
+          routingRule,
+          linkMode: mediaFileLinkInfo.linkMode ?? null,
+          extraType: null,
+          ...toMediaInfoColumns(mediaFileLinkInfo.mediaInfo ?? null),
+          subtitles: {
+            create: (mediaFileLinkInfo.subtitles ?? []).map((subtitle) => ({
+              filePath: subtitle.sourcePath,
+              linkPath: subtitle.linkPath,
+              language: subtitle.language,
+              languageSource: subtitle.languageSource,
+            })),
+          },
         },
       });
 
       // 创建 NFO 文件（将视频文件扩展名替换为 .nfo）
       const nfoPath = mediaFileLinkInfo.linkPath.replace(/\.[^.]+$/, '.nfo');
-      createNfoFromMedia(nfoPath, media);
+      await createNfoFromMedia(nfoPath, media, mediaFileLinkInfo.mediaInfo);
     }
 
     // 返回更新后的完整文件信息
@@ -796,8 +896,8 @@ export class FileService {
       );
     }
 
-    // 如果是电影，tmdbId会是0，直接返回null
-    if (episodeTmdbId === 0 || seasonNumber === 0 || episodeNumber === 0) {
+    // 如果是电影，tmdbId会是0，直接返回null（季号为 0 的特别篇需要正常查找）
+    if (episodeTmdbId === 0 || episodeNumber === 0) {
       return null;
     }
 
@@ -823,6 +923,7 @@ export class FileService {
    * 当文件是特殊文件夹的子卷时，需要处理整个父文件夹及其所有子文件夹
    * 当文件本身是特殊文件夹（无父文件夹）时，直接处理当前文件夹
    * @param fileId 当前文件ID
+   * @param sourcePath 当前文件的源路径，用于确定所属媒体库
    * @param parentInfo 父文件夹信息（包含 childFolders），可为 null
    * @param media 媒体信息
    * @param mediaRecord 数据库中的媒体记录
@@ -830,18 +931,27 @@ export class FileService {
    */
   private async handleSpecialFolderHardlink(
     fileId: number,
+    sourcePath: string,
     parentInfo: ParentInfoWithChildren | null,
     media: IdentifiedMedia,
     mediaRecord: any
   ) {
-    const config = getConfig();
+    const config = getConfigForPath(sourcePath);
 
-    // 构建目标基础路径（使用媒体标题作为标准化名称）
-    const targetBasePath = path.join(config.targetFilePath, media.title);
+    // 按路由规则选择目标根目录，多卷结构以父文件夹匹配规则
+    const route = await new MediaRouter().resolve(media, parentInfo?.filePath ?? sourcePath);
+    const routingRule = route.rule?.name ?? null;
+
+    // 按媒体库的命名模板构建目标基础路径
+    const targetBasePath = path.join(
+      route.targetPath,
+      buildSpecialFolderRelativePath(media, config)
+    );
 
     // 确保目标基础目录存在
     await fs.mkdir(targetBasePath, { recursive: true });
     logger.info(`[特殊文件夹] 创建目标基础目录: ${targetBasePath}`);
+    const linkModes = getLinkModes(targetBasePath);
 
     // 没有父子文件夹
     if (!parentInfo) {
@@ -854,7 +964,7 @@ export class FileService {
       }
 
       // 递归创建硬链接
-      await createHardlinkRecursively(currentFile.filePath, targetBasePath);
+      const linkMode = await createHardlinkRecursively(currentFile.filePath, targetBasePath, linkModes);
 
       // 更新当前文件的 linkPath 和媒体关联
       await prisma.file.update({
@@ -862,6 +972,8 @@ export class FileService {
         data: {
           linkPath: targetBasePath,
           mediaId: mediaRecord.id,
+          routingRule,
+          linkMode,
         },
       });
 
@@ -879,12 +991,14 @@ export class FileService {
       data: {
         linkPath: targetBasePath,
         mediaId: mediaRecord.id,
+        routingRule,
       },
     });
     logger.info(`[特殊文件夹] 更新父文件夹 linkPath: ${targetBasePath}`);
 
     // 处理所有子文件夹（包括当前文件）
     const allChildFolders = parentInfo.childFolders || [];
+    let parentLinkMode: LinkMode | null = null;
 
     for (const childFolder of allChildFolders) {
       try {
@@ -906,7 +1020,8 @@ export class FileService {
         await fs.mkdir(childTargetPath, { recursive: true });
 
         // 递归创建硬链接
-        await createHardlinkRecursively(childFolder.filePath, childTargetPath);
+        const linkMode = await createHardlinkRecursively(childFolder.filePath, childTargetPath, linkModes);
+        parentLinkMode ??= linkMode;
 
         // 更新子文件夹的 linkPath 和媒体关联
         await prisma.file.update({
@@ -914,6 +1029,8 @@ export class FileService {
           data: {
             linkPath: childTargetPath,
             mediaId: mediaRecord.id,
+            routingRule,
+            linkMode,
           },
         });
 
@@ -929,6 +1046,12 @@ export class FileService {
       }
     }
 
+    // 父文件夹记录子卷使用的链接方式
+    await prisma.file.update({
+      where: { id: parentInfo.id },
+      data: { linkMode: parentLinkMode },
+    });
+
     logger.info(
       `[特殊文件夹] 所有子文件夹处理完成，共 ${allChildFolders.length} 个`
     );
@@ -965,7 +1088,7 @@ export class FileService {
         where: { id: fileId },
         include: {
           Media: true,
-          episodeInfo: true,
+          episodes: true,
         },
       });
 
@@ -981,10 +1104,14 @@ export class FileService {
         );
       }
 
-      // 如果有硬链接，删除硬链接
+      // 记录删除前的文件记录，撤销时还原
+      await journalFileRecord(fileId);
+
+      // 先删除字幕硬链接，再删除视频硬链接
+      await removeSubtitleLinks(fileId);
       if (file.linkPath) {
         logger.info(`删除硬链接: ${file.linkPath}`);
-        await deleteHardlink(file.linkPath);
+        await deleteHardlink(file.linkPath, file.linkMode as LinkMode | null, file.filePath);
       }
 
       // 删除数据库记录
@@ -992,7 +1119,7 @@ export class FileService {
         where: { id: fileId },
       });
 
-      logger.info(`文件${fileId}取消媒体关联成功，已删除记录和硬链接`);
+      logger.info(`文件${fileId}取消媒体关联成功，已删除记录、硬链接和字幕硬链接`);
       return file;
     } catch (error) {
       logger.error(`取消媒体关联失败`, error);
@@ -1026,7 +1153,7 @@ export class FileService {
         },
         include: {
           Media: true,
-          episodeInfo: true,
+          episodes: true,
         },
       });
 
@@ -1039,4 +1166,73 @@ export class FileService {
       throw error;
     }
   }
+
+  // 修改字幕语言，language 为 null 时恢复自动识别，字幕硬链接按新的语言标记重命名
+  async updateSubtitleLanguage(subtitleId: number, language: string | null) {
+    try {
+      const subtitle = await prisma.subtitle.findUnique({
+        where: { id: subtitleId },
+        include: { file: true },
+      });
+
+      if (!subtitle) {
+        throw new BusinessError(ErrorType.FILE_NOT_FOUND, "字幕不存在");
+      }
+
+      const companion = await identifySubtitle(subtitle.filePath, subtitle.file.filePath);
+      if (language !== null) {
+        const normalized = normalizeSubtitleLanguage(language);
+        if (!normalized) {
+          throw new BusinessError(ErrorType.VALIDATION_ERROR, `无法识别的语言标记: ${language}`);
+        }
+        companion.language = normalized;
+        companion.languageSource = "manual";
+      }
+
+      const linkPath = buildSubtitleLinkPath(subtitle.file.linkPath, companion);
+      if (linkPath !== subtitle.linkPath) {
+        const conflict = await prisma.subtitle.findUnique({ where: { linkPath } });
+        if (conflict || await fs.access(linkPath).then(() => true, () => false)) {
+          throw new BusinessError(ErrorType.FILE_EXISTS, `字幕硬链接已存在: ${linkPath}`);
+        }
+        await fs.rename(subtitle.linkPath, linkPath);
+        logger.info(`重命名字幕硬链接: ${subtitle.linkPath} -> ${linkPath}`);
+      }
+
+      const updatedSubtitle = await prisma.subtitle.update({
+        where: { id: subtitleId },
+        data: {
+          linkPath,
+          language: companion.language,
+          languageSource: companion.languageSource,
+        },
+      });
+
+      logger.info(`字幕${subtitleId}语言更新成功: ${companion.language ?? "未知"}`);
+      return updatedSubtitle;
+    } catch (error) {
+      logger.error(`更新字幕语言失败`, error);
+      throw error;
+    }
+  }
+
+  // 预览硬链接整理计划
+  async previewReorganize() {
+    try {
+      return await getLibraryReorganizer().plan();
+    } catch (error) {
+      logger.error(`生成整理计划失败`, error);
+      throw error;
+    }
+  }
+
+  // 按当前命名模板整理已有硬链接
+  async reorganize(fileIds?: number[]) {
+    try {
+      return await getLibraryReorganizer().apply(fileIds);
+    } catch (error) {
+      logger.error(`整理硬链接失败`, error);
+      throw error;
+    }
+  }
 }
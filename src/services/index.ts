@@ -5,4 +5,6 @@ export { FileService } from './file.service';
 export { EpisodeService } from './episode.service';
 export { SystemService } from './system.service';
 export { TMDBService } from './tmdb.service';
-export { ScanService } from './scan.service';
\ No newline at end of file
+export { ScanService } from './scan.service';
+export { IntegrityService } from './integrity.service';
+export { JournalService } from './journal.service';
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { logger } from '@/utils/logger';
+import {
+  getIntegrityChecker,
+  type IntegrityReport,
+  type IntegrityRepairAction,
+} from '@/core/fileManage/integrityChecker';
+
+export class IntegrityService {
+  /**
+   * 获取校验状态和最近一次的校验结果
+   */
+  async getStatus(): Promise<{ isChecking: boolean; report: IntegrityReport | null }> {
+    const checker = getIntegrityChecker();
+    return {
+      isChecking: checker.isChecking(),
+      report: checker.getReport(),
+    };
+  }
+
+  /**
+   * 触发完整性校验
+   */
+  async triggerCheck(): Promise<{ message: string }> {
+    const checker = getIntegrityChecker();
+    if (checker.isChecking()) {
+      return { message: '完整性校验已在进行中' };
+    }
+
+    // 异步执行校验
+    checker.check().catch(error => {
+      logger.error('手动完整性校验失败', error);
+    });
+
+    return { message: '完整性校验已启动' };
+  }
+
+  /**
+   * 修复校验发现的问题
+   */
+  async repair(issueId: string, action: IntegrityRepairAction): Promise<IntegrityReport | null> {
+    try {
+      const checker = getIntegrityChecker();
+      await checker.repair(issueId, action);
+      return checker.getReport();
+    } catch (error) {
+      logger.error(`修复完整性问题失败: ${issueId}`, error);
+      throw error;
+    }
+  }
+}
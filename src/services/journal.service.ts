@@ -0,0 +1,40 @@
+import { logger } from '@/utils/logger';
+import {
+  getOperationJournal,
+  type OperationGroupSummary,
+  type OperationSource,
+  type UndoResult,
+} from '@/core/fileManage/operationJournal';
+
+export class JournalService {
+  /**
+   * 分页获取操作日志分组
+   */
+  async getGroups(
+    page: number,
+    limit: number,
+    source?: OperationSource
+  ): Promise<{ items: OperationGroupSummary[]; total: number; page: number; limit: number }> {
+    const { items, total } = await getOperationJournal().getGroups({ page, limit, source });
+    return { items, total, page, limit };
+  }
+
+  /**
+   * 获取分组内的操作
+   */
+  async getOperations(groupId: number) {
+    return getOperationJournal().getOperations(groupId);
+  }
+
+  /**
+   * 撤销整组操作
+   */
+  async undo(groupId: number): Promise<UndoResult> {
+    try {
+      return await getOperationJournal().undo(groupId);
+    } catch (error) {
+      logger.error(`撤销操作失败: ${groupId}`, error);
+      throw error;
+    }
+  }
+}
@@ -30,15 +30,16 @@ export class MediaService {
           take,
           include: {
             files: {
+              where: { supersededAt: null },
               include: {
                 childFolders: {
                   include: {
                     Media: true,
-                    episodeInfo: true,
+                    episodes: true,
                   },
                 },
                 Media: true,
-                episodeInfo: true,
+                episodes: true,
               },
             },
             tvInfos: {
@@ -79,15 +80,16 @@ export class MediaService {
         where: { id },
         include: {
           files: {
+            where: { supersededAt: null },
             include: {
               childFolders: {
                 include: {
                   Media: true,
-                  episodeInfo: true,
+                  episodes: true,
                 },
               },
               Media: true,
-              episodeInfo: true,
+              episodes: true,
             },
           },
           tvInfos: {
@@ -105,11 +107,20 @@ export class MediaService {
         return null;
       }
 
+      // 质量升级历史，按时间倒序
+      const qualityUpgrades = await prisma.qualityUpgrade.findMany({
+        where: { mediaId: id },
+        include: {
+          episode: { select: { seasonNumber: true, episodeNumber: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
       // 处理图片URL
       const processedMedia = ImageUrlHelper.processMediaImageUrl(media);
 
       logger.info(`获取ID为${id}的媒体详情成功`);
-      return processedMedia;
+      return { ...processedMedia, qualityUpgrades };
     } catch (error) {
       logger.error(`获取媒体${id}详情失败`, error);
       throw error;
@@ -148,15 +159,16 @@ export class MediaService {
           take,
           include: {
             files: {
+              where: { supersededAt: null },
               include: {
                 childFolders: {
                   include: {
                     Media: true,
-                    episodeInfo: true,
+                    episodes: true,
                   },
                 },
                 Media: true,
-                episodeInfo: true,
+                episodes: true,
               },
             },
             tvInfos:
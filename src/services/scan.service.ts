@@ -2,9 +2,14 @@ import client from '@/client';
 import { logger } from '@/utils/logger';
 import { LibraryScanner } from '@/core/fileManage/libraryScanner';
 import { ScanScheduler } from '@/core/fileManage/scanScheduler';
+import { getExecutionPlanner, type PlanExportFormat } from '@/core/fileManage/planner';
+import type { ExecutionPlan } from '@/types/plan.types';
 import fs from "fs";
 import path from "path";
 import { getConfig, clearConfigCache, type ScanConfig } from '@/config/config';
+import { getLibraryRoots } from '@/config/library';
+import type { Prisma } from '@/generated/client';
+import { BusinessError, ErrorType } from '@/core/errors';
 
 const prisma = client;
 
@@ -18,6 +23,21 @@ export interface LibraryStats {
   ignored: number;
 }
 
+export interface LibraryRootStatus {
+  name: string;
+  monitorPath: string;
+  targetPath: string;
+  mediaType: 'tv' | 'movie' | null;
+  stats: LibraryStats;
+  lastScan: {
+    scanTime: string;
+    filesFound: number;
+    filesAdded: number;
+    duration: number;
+    status: string;
+  } | null;
+}
+
 export interface ScanLogResult {
   logs: Array<{
     id: number;
@@ -63,16 +83,67 @@ export class ScanService {
   /**
    * 获取扫描状态
    */
-  async getScanStatus(): Promise<{ isScanning: boolean; stats: LibraryStats }> {
+  async getScanStatus(): Promise<{
+    isScanning: boolean;
+    stats: LibraryStats;
+    libraries: LibraryRootStatus[];
+  }> {
     const isScanning = this.scanScheduler.isScanning();
-    const stats = await this.getLibraryStats();
+    const [stats, libraries] = await Promise.all([
+      this.getLibraryStats(),
+      this.getLibraryRootStatuses()
+    ]);
     
     return {
       isScanning,
-      stats
+      stats,
+      libraries
     };
   }
 
+  /**
+   * 获取各媒体库的文件统计和最近一次扫描结果
+   */
+  async getLibraryRootStatuses(): Promise<LibraryRootStatus[]> {
+    const roots = getLibraryRoots();
+
+    return Promise.all(roots.map(async root => {
+      const rootPath = path.resolve(root.monitorPath);
+      // 嵌套在当前媒体库中的其他媒体库单独统计
+      const nestedPaths = roots
+        .map(other => path.resolve(other.monitorPath))
+        .filter(otherPath => otherPath.startsWith(rootPath + path.sep));
+
+      const [stats, lastScan] = await Promise.all([
+        this.getLibraryStats({
+          path: { startsWith: rootPath + path.sep },
+          NOT: nestedPaths.map(nestedPath => ({ path: { startsWith: nestedPath + path.sep } }))
+        }),
+        prisma.scanLog.findFirst({
+          where: { scanPath: root.monitorPath },
+          orderBy: { scanTime: 'desc' }
+        })
+      ]);
+
+      return {
+        name: root.name,
+        monitorPath: root.monitorPath,
+        targetPath: root.targetPath,
+        mediaType: root.mediaType ?? null,
+        stats,
+        lastScan: lastScan
+          ? {
+              scanTime: lastScan.scanTime.toISOString(),
+              filesFound: lastScan.filesFound,
+              filesAdded: lastScan.filesAdded,
+              duration: lastScan.duration,
+              status: lastScan.status
+            }
+          : null
+      };
+    }));
+  }
+
   /**
    * 触发手动扫描
    */
@@ -89,10 +160,77 @@ export class ScanService {
     return { message: '扫描已启动' };
   }
 
+  /**
+   * 获取预演计划状态和最近一次的计划
+   */
+  async getPlanStatus(): Promise<{
+    isPlanning: boolean;
+    isApplying: boolean;
+    progress: { processed: number; total: number };
+    plan: ExecutionPlan | null;
+  }> {
+    const planner = getExecutionPlanner();
+    return {
+      isPlanning: planner.isPlanning(),
+      isApplying: planner.isApplying(),
+      progress: planner.getProgress(),
+      plan: await planner.getPlan()
+    };
+  }
+
+  /**
+   * 触发预演扫描，生成执行计划
+   */
+  async triggerPlan(): Promise<{ message: string }> {
+    const planner = getExecutionPlanner();
+    if (planner.isPlanning() || planner.isApplying()) {
+      return { message: '预演计划正在生成或执行中' };
+    }
+
+    // 异步生成计划
+    planner.createPlan().catch(error => {
+      logger.error('生成预演计划失败', error);
+    });
+
+    return { message: '预演扫描已启动' };
+  }
+
+  /**
+   * 执行预演计划，执行结果记录在计划条目中
+   */
+  async applyPlan(planId: string, entryIds?: number[]): Promise<{ message: string }> {
+    const planner = getExecutionPlanner();
+    if ((await planner.getPlan())?.id !== planId) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '计划不存在或已过期，请重新预演');
+    }
+    if (planner.isPlanning() || planner.isApplying()) {
+      return { message: '预演计划正在生成或执行中' };
+    }
+
+    // 异步执行计划
+    planner.apply(planId, entryIds).catch(error => {
+      logger.error(`执行预演计划失败: ${planId}`, error);
+    });
+
+    return { message: '预演计划开始执行' };
+  }
+
+  /**
+   * 导出预演计划
+   */
+  async exportPlan(format: PlanExportFormat): Promise<{ fileName: string; content: string }> {
+    const content = await getExecutionPlanner().export(format);
+    if (content === null) {
+      throw new BusinessError(ErrorType.VALIDATION_ERROR, '尚未生成预演计划');
+    }
+    return { fileName: `plan-${new Date().toISOString().slice(0, 10)}.${format}`, content };
+  }
+
   /**
    * 获取库统计信息
+   * @param where 额外的筛选条件，用于统计单个媒体库
    */
-  async getLibraryStats(): Promise<LibraryStats> {
+  async getLibraryStats(where: Prisma.LibraryWhereInput = {}): Promise<LibraryStats> {
     const [
       total,
       videoCount,
@@ -102,13 +240,13 @@ export class ScanService {
       error,
       ignored
     ] = await Promise.all([
-      prisma.library.count(),
-      prisma.library.count({ where: { type: 'video' } }),
-      prisma.library.count({ where: { type: 'subtitle' } }),
-      prisma.library.count({ where: { status: 'PENDING' } }),
-      prisma.library.count({ where: { status: 'PROCESSED' } }),
-      prisma.library.count({ where: { status: 'ERROR' } }),
-      prisma.library.count({ where: { status: 'IGNORED' } })
+      prisma.library.count({ where }),
+      prisma.library.count({ where: { ...where, type: 'video' } }),
+      prisma.library.count({ where: { ...where, type: 'subtitle' } }),
+      prisma.library.count({ where: { ...where, status: 'PENDING' } }),
+      prisma.library.count({ where: { ...where, status: 'PROCESSED' } }),
+      prisma.library.count({ where: { ...where, status: 'ERROR' } }),
+      prisma.library.count({ where: { ...where, status: 'IGNORED' } })
     ]);
 
     return {
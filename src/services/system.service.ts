@@ -3,8 +3,14 @@ import {
   getConfig,
   Config,
   updateConfig as updateConfigFile,
+  NamingPreset,
+  RoutingRule,
 } from "@/config/config";
+import fs from "fs";
+import { BusinessError, ErrorType } from "@/core/errors";
+import { NAMING_PRESETS } from "@/core/fileManage/naming";
 import { getPrompt, updatePrompt, getSpecialFolderPrompt, updateSpecialFolderPrompt } from "@/config/prompt";
+import { getLlmCache } from "@/core/cache/llmCache";
 
 export class SystemService {
   // 获取系统日志
@@ -44,6 +50,7 @@ export class SystemService {
       // 仅返回前端需要的配置信息
       const {
         tmdbApi,
+        identifierStrategy,
         llmProvider,
         llmHost,
         llmModel,
@@ -51,12 +58,14 @@ export class SystemService {
         openaiModel,
         openaiBaseUrl,
         persistentLogging,
+        naming,
       } = config;
       const llmPrompt = getPrompt();
       const llmSpecialFolderPrompt = getSpecialFolderPrompt();
       logger.info("获取系统配置成功");
       return {
         tmdbApi,
+        identifierStrategy: identifierStrategy ?? "llm",
         llmProvider,
         llmHost,
         llmModel,
@@ -66,6 +75,11 @@ export class SystemService {
         llmPrompt,
         llmSpecialFolderPrompt,
         persistentLogging,
+        // 命名模板以扁平字段返回，自定义模板为空时表示使用预设
+        namingPreset: naming?.preset ?? "default",
+        namingMovieTemplate: naming?.movie ?? "",
+        namingTvTemplate: naming?.tv ?? "",
+        namingSpecialFolderTemplate: naming?.specialFolder ?? "",
       };
     } catch (error) {
       logger.error(`获取系统配置失败`, error);
@@ -74,9 +88,36 @@ export class SystemService {
   }
 
   // 更新系统配置
-  updateConfig(data: Partial<Config & { llmPrompt: string; llmSpecialFolderPrompt: string }>) {
+  updateConfig(data: Partial<Config & {
+    llmPrompt: string;
+    llmSpecialFolderPrompt: string;
+    namingPreset: NamingPreset;
+    namingMovieTemplate: string;
+    namingTvTemplate: string;
+    namingSpecialFolderTemplate: string;
+  }>) {
     try {
-      const { llmPrompt, llmSpecialFolderPrompt, ...configData } = data;
+      const {
+        llmPrompt,
+        llmSpecialFolderPrompt,
+        namingPreset,
+        namingMovieTemplate,
+        namingTvTemplate,
+        namingSpecialFolderTemplate,
+        ...configData
+      } = data;
+
+      // 合并命名模板字段，空模板从配置中移除以使用预设
+      const namingFields = [namingPreset, namingMovieTemplate, namingTvTemplate, namingSpecialFolderTemplate];
+      if (namingFields.some(field => field !== undefined)) {
+        const naming = getConfig(false).naming;
+        configData.naming = {
+          preset: namingPreset ?? naming?.preset ?? "default",
+          movie: (namingMovieTemplate ?? naming?.movie) || undefined,
+          tv: (namingTvTemplate ?? naming?.tv) || undefined,
+          specialFolder: (namingSpecialFolderTemplate ?? naming?.specialFolder) || undefined,
+        };
+      }
 
       // 更新 prompt
       if (typeof llmPrompt === "string") {
@@ -94,11 +135,59 @@ export class SystemService {
         logger.info(`更新系统配置成功: ${JSON.stringify(configData)}`);
       }
 
+      // 修改提示词或切换模型后，清除失效的 LLM 缓存
+      const llmCacheKeys = ["llmProvider", "llmModel", "openaiModel"];
+      if (typeof llmPrompt === "string" || llmCacheKeys.some(key => key in configData)) {
+        getLlmCache().purgeStale().catch(error => {
+          logger.error(`清除失效的 LLM 缓存失败`, error);
+        });
+      }
+
       return this.getConfig();
     } catch (error) {
       logger.error(`更新系统配置失败`, error);
       throw error;
     }
   }
-}
 
+  // 获取内置命名预设
+  getNamingPresets() {
+    return NAMING_PRESETS;
+  }
+
+  // 获取路由规则
+  getRoutingRules(): RoutingRule[] {
+    return getConfig(false).routingRules ?? [];
+  }
+
+  // 更新路由规则，修改后只影响之后创建的硬链接，已有硬链接可通过整理重新路由
+  updateRoutingRules(rules: RoutingRule[]): RoutingRule[] {
+    const missing = rules.find(rule => !fs.existsSync(rule.targetPath));
+    if (missing) {
+      throw new BusinessError(
+        ErrorType.VALIDATION_ERROR,
+        `路由规则 "${missing.name}" 的目标目录不存在: ${missing.targetPath}`
+      );
+    }
+
+    try {
+      const config = updateConfigFile({ routingRules: rules });
+      logger.info(`更新路由规则成功: 共 ${rules.length} 条`);
+      return config.routingRules ?? [];
+    } catch (error) {
+      logger.error(`更新路由规则失败`, error);
+      throw error;
+    }
+  }
+
+  // 清除 LLM 解析结果缓存
+  async invalidateLlmCache(fileName?: string) {
+    try {
+      const deletedCount = await getLlmCache().invalidate(fileName);
+      return { deletedCount };
+    } catch (error) {
+      logger.error(`清除 LLM 缓存失败`, error);
+      throw error;
+    }
+  }
+}
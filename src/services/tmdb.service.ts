@@ -11,6 +11,7 @@ import {
   TvSeasonRequest, // 导入季详情请求参数类型
 } from "moviedb-promise";
 import { logger } from "@/utils/logger";
+import { CachedMovieDb } from "@/core/cache/tmdbCache";
 
 const config = getConfig();
 
@@ -23,7 +24,7 @@ export class TMDBService {
   private moviedb: MovieDb;
 
   private constructor() {
-    this.moviedb = new MovieDb(config.tmdbApi);
+    this.moviedb = new CachedMovieDb(config.tmdbApi);
     logger.info("TMDB服务已初始化");
   }
 
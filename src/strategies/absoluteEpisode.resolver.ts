@@ -0,0 +1,107 @@
+import { MovieDb, SimpleEpisode } from "moviedb-promise";
+import { AbsoluteEpisodeMapping } from "@/types/media.types";
+import { logger } from "@/utils/logger";
+
+/**
+ * TMDB 剧集组类型：绝对集数
+ */
+const EPISODE_GROUP_TYPE_ABSOLUTE = 2;
+
+/**
+ * 使用 TMDB 的绝对集数剧集组映射
+ */
+async function resolveByEpisodeGroup(
+  moviedb: MovieDb,
+  tvId: number,
+  absoluteEpisode: number
+): Promise<AbsoluteEpisodeMapping | null> {
+  const { results = [] } = await moviedb.episodeGroups({ id: tvId });
+  // moviedb-promise 的类型定义缺少 type 字段
+  const absoluteGroup = results.find(
+    group => (group as { type?: number }).type === EPISODE_GROUP_TYPE_ABSOLUTE
+  );
+  if (!absoluteGroup?.id) {
+    return null;
+  }
+
+  const { groups = [] } = await moviedb.episodeGroup({ id: absoluteGroup.id });
+  const episodes: SimpleEpisode[] = [...groups]
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .flatMap(group => [...(group.episodes ?? [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0)));
+
+  const episode = episodes[absoluteEpisode - 1];
+  if (episode?.season_number == null || episode.episode_number == null) {
+    return null;
+  }
+
+  return {
+    absoluteEpisode,
+    seasonNumber: episode.season_number,
+    episodeNumber: episode.episode_number,
+    source: "episodeGroup",
+  };
+}
+
+/**
+ * 按季顺序累加各季集数映射（不含第 0 季特别篇）
+ */
+async function resolveBySeasons(
+  moviedb: MovieDb,
+  tvId: number,
+  absoluteEpisode: number,
+  language: string
+): Promise<AbsoluteEpisodeMapping | null> {
+  const show = await moviedb.tvInfo({ id: tvId, language });
+  const seasons = (show.seasons ?? [])
+    .filter(season => (season.season_number ?? 0) > 0 && (season.episode_count ?? 0) > 0)
+    .sort((a, b) => a.season_number! - b.season_number!);
+
+  let remaining = absoluteEpisode;
+  for (const season of seasons) {
+    if (remaining <= season.episode_count!) {
+      return {
+        absoluteEpisode,
+        seasonNumber: season.season_number!,
+        episodeNumber: remaining,
+        source: "seasons",
+      };
+    }
+    remaining -= season.episode_count!;
+  }
+
+  return null;
+}
+
+/**
+ * 将绝对集数映射为 TMDB 的季号和集号
+ * 优先使用 TMDB 的绝对集数剧集组，没有时按各季集数累加
+ * @param moviedb - TMDB 客户端
+ * @param tvId - 电视剧的 TMDB ID
+ * @param absoluteEpisode - 绝对集数
+ * @param language - 请求语言
+ * @returns 无法映射（如超出总集数）时返回 null
+ */
+export async function resolveAbsoluteEpisode(
+  moviedb: MovieDb,
+  tvId: number,
+  absoluteEpisode: number,
+  language: string
+): Promise<AbsoluteEpisodeMapping | null> {
+  if (absoluteEpisode <= 0) {
+    return null;
+  }
+
+  try {
+    const mapping =
+      (await resolveByEpisodeGroup(moviedb, tvId, absoluteEpisode)) ??
+      (await resolveBySeasons(moviedb, tvId, absoluteEpisode, language));
+
+    if (mapping) {
+      logger.info(`绝对集数映射: ${tvId} 第${absoluteEpisode}集 -> S${mapping.seasonNumber}E${mapping.episodeNumber} (${mapping.source})`);
+    }
+    return mapping;
+  } catch (error) {
+    logger.warn(`绝对集数映射失败: ${tvId} 第${absoluteEpisode}集 - ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
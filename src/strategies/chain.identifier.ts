@@ -0,0 +1,67 @@
+import { IdentifierStrategy } from "@/config/config";
+import { IMediaIdentifier, IdentifiedMedia } from "@/types/media.types";
+import { logger } from "@/utils/logger";
+
+/**
+ * 识别器链中的单个步骤
+ */
+export interface IdentifierStep {
+  strategy: IdentifierStrategy;
+  identifier: IMediaIdentifier;
+}
+
+/**
+ * @class ChainIdentifier
+ * @description 按顺序执行多个识别策略，返回第一个达到置信度阈值的结果。
+ * 所有策略均未达到阈值时，返回置信度最高的结果。
+ */
+export class ChainIdentifier implements IMediaIdentifier {
+  constructor(
+    private steps: IdentifierStep[],
+    private confidenceThreshold: number
+  ) {}
+
+  /**
+   * @method identify
+   * @description 依次调用各识别策略，并在结果中记录策略名称和置信度。
+   */
+  public async identify(
+    fileName: string,
+    isDirectory: boolean,
+    fullPath?: string
+  ): Promise<IdentifiedMedia | null> {
+    let best: IdentifiedMedia | null = null;
+
+    for (const { strategy, identifier } of this.steps) {
+      let media: IdentifiedMedia | null = null;
+      try {
+        media = await identifier.identify(fileName, isDirectory, fullPath);
+      } catch (error) {
+        logger.warn(`识别策略 ${strategy} 执行失败: ${fileName} - ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      if (!media) {
+        logger.debug(`识别策略 ${strategy} 无结果: ${fileName}`);
+        continue;
+      }
+
+      media.strategy = strategy;
+      media.confidence = media.confidence ?? 0;
+
+      if (media.confidence >= this.confidenceThreshold) {
+        logger.info(`识别策略 ${strategy} 命中: ${fileName} -> ${media.title} (置信度: ${media.confidence})`);
+        return media;
+      }
+
+      logger.info(`识别策略 ${strategy} 置信度不足: ${fileName} -> ${media.title} (${media.confidence} < ${this.confidenceThreshold})`);
+      if (!best || media.confidence > (best.confidence ?? 0)) {
+        best = media;
+      }
+    }
+
+    if (best) {
+      logger.warn(`所有识别策略均未达到置信度阈值，使用最高置信度结果: ${fileName} -> ${best.title} (${best.strategy}: ${best.confidence})`);
+    }
+    return best;
+  }
+}
@@ -0,0 +1,112 @@
+import path from "path";
+import { CachedMovieDb } from "@/core/cache/tmdbCache";
+import { getConfig } from "@/config/config";
+import { getConfigForPath } from "@/config/library";
+import { IdentifiedMedia } from "@/types/media.types";
+import { logger } from "@/utils/logger";
+import { TmdbIdentifier } from "./tmdb.identifier";
+import { parseReleaseName } from "./regex.identifier";
+
+/**
+ * 特别篇目录名，如 "Specials"、"SP"、"Season 00"
+ */
+const SPECIALS_DIR_REGEX = /^(?:Specials?|SPs?|Season[\s._-]?0+)$/i;
+
+/**
+ * @class FolderNameIdentifier
+ * @description 兜底识别策略：使用上级目录名作为标题，文件名只提供季集信息。
+ * 适用于 "Title (2020)/01.mkv" 这类文件名本身缺少标题的情况。
+ */
+export class FolderNameIdentifier extends TmdbIdentifier {
+  /**
+   * @method identify
+   * @description 使用上级目录名在TMDB中匹配，直接选择首个搜索结果。
+   * @param fileName - 要识别的文件名。
+   * @param isDirectory - 是否为目录。
+   * @param fullPath - 文件的完整路径。
+   * @returns {Promise<IdentifiedMedia | null>} - 识别出的媒体信息或null。
+   */
+  public async identify(
+    fileName: string,
+    isDirectory: boolean,
+    fullPath?: string
+  ): Promise<IdentifiedMedia | null> {
+    try {
+      if (!fullPath) {
+        return null;
+      }
+
+      const config = getConfig();
+      const monitorPath = path.resolve(getConfigForPath(fullPath, config).monitorFilePath);
+      let parentDir = path.dirname(fullPath);
+      // 文件直接位于监听根目录时，目录名与媒体无关
+      if (path.resolve(parentDir) === monitorPath) {
+        return null;
+      }
+
+      // "Title/Specials/xx.mkv"、"Title/Season 00/xx.mkv" 使用再上一级目录名作为标题
+      const inSpecialsDir = SPECIALS_DIR_REGEX.test(path.basename(parentDir));
+      if (inSpecialsDir) {
+        parentDir = path.dirname(parentDir);
+        if (path.resolve(parentDir) === monitorPath) {
+          return null;
+        }
+      }
+
+      logger.info(`使用目录名策略识别: ${fileName}`);
+
+      const folderInfo = parseReleaseName(path.basename(parentDir));
+      if (!folderInfo) {
+        logger.warn(`无法从目录名提取有效标题: ${parentDir}`);
+        return null;
+      }
+
+      // 季集信息优先取文件名，其次取目录名（如 "Title S2"）
+      const fileInfo = isDirectory ? null : parseReleaseName(fileName);
+      const baseName = path.parse(fileName).name;
+      const bareSpecial = baseName.match(/^(?:SP|OVA|OAD|Specials?)[\s._-]?(\d{1,3})?$/i);
+      const bareEpisode = baseName.match(/^\D{0,3}(\d{1,4})$/);
+      const bareEpisodeNumber = bareSpecial
+        ? parseInt(bareSpecial[1] ?? "1", 10)
+        : bareEpisode ? parseInt(bareEpisode[1], 10) : undefined;
+      const extractedInfo = {
+        title: folderInfo.title,
+        year: folderInfo.year,
+        season: fileInfo?.season ?? (inSpecialsDir || bareSpecial ? 0 : folderInfo.season),
+        episode: fileInfo?.episode ?? bareEpisodeNumber,
+        episodeEnd: fileInfo?.episodeEnd,
+      };
+
+      const moviedb = new CachedMovieDb(config.tmdbApi!);
+      const { tvResults, movieResults } = await this.searchTmdb(extractedInfo, moviedb, config);
+
+      if (tvResults.length === 0 && movieResults.length === 0) {
+        logger.warn(`在TMDB中未找到 "${extractedInfo.title}" 的任何结果。`);
+        return null;
+      }
+
+      const { mediaType, selectedIndex } = this.fallbackBestMatch(extractedInfo, tvResults, movieResults);
+      const selectedItem =
+        mediaType === "tv"
+          ? tvResults[selectedIndex]
+          : movieResults[selectedIndex];
+
+      if (!selectedItem || !selectedItem.id) {
+        return null;
+      }
+
+      const media = await this.formatResult(
+        mediaType,
+        selectedItem,
+        extractedInfo,
+        moviedb,
+        config,
+        selectedIndex
+      );
+      return this.attachCandidates(media, extractedInfo, tvResults, movieResults, config);
+    } catch (error) {
+      logger.error(`目录名策略识别失败 for "${fileName}"`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Config, IdentifierStrategy } from "@/config/config";
+import { IMediaIdentifier } from "@/types/media.types";
+import { ChainIdentifier } from "./chain.identifier";
+import { FolderNameIdentifier } from "./folder.identifier";
+import { LLMIdentifier } from "./llm.identifier";
+import { RegexIdentifier } from "./regex.identifier";
+
+/**
+ * 未配置识别器链时的默认置信度阈值
+ */
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * 根据策略名称创建单个识别器
+ */
+function createStrategyIdentifier(
+  strategy: IdentifierStrategy,
+  mediaTypeHint?: "tv" | "movie"
+): IMediaIdentifier {
+  switch (strategy) {
+    case "regex":
+      return new RegexIdentifier(mediaTypeHint);
+    case "llm":
+      return new LLMIdentifier(mediaTypeHint);
+    case "folder":
+      return new FolderNameIdentifier(mediaTypeHint);
+    default:
+      throw new Error(`无效的识别策略: ${strategy}`);
+  }
+}
+
+/**
+ * 根据配置创建媒体识别器
+ * @param config - 当前配置
+ * @param mediaTypeHint - 默认媒体类型（来自媒体库配置），指定后只搜索该类型
+ * @returns 按 identifierChain 组合的识别器链；未配置时仅包含 identifierStrategy（默认 LLM）
+ */
+export function createMediaIdentifier(
+  config: Config,
+  mediaTypeHint?: "tv" | "movie"
+): IMediaIdentifier {
+  const strategies = config.identifierChain?.strategies ?? [config.identifierStrategy ?? "llm"];
+  const threshold = config.identifierChain?.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+
+  return new ChainIdentifier(
+    strategies.map(strategy => ({
+      strategy,
+      identifier: createStrategyIdentifier(strategy, mediaTypeHint),
+    })),
+    threshold
+  );
+}
@@ -1,26 +1,19 @@
 import { Ollama } from "ollama";
 import OpenAI from "openai";
-import { MovieDb, MovieResult, TvResult } from "moviedb-promise";
+import { MovieResult, TvResult } from "moviedb-promise";
+import { CachedMovieDb } from "@/core/cache/tmdbCache";
 import { getConfig, Config } from "@/config/config";
 import { getPrompt, getSpecialFolderPrompt } from "@/config/prompt";
-import { IMediaIdentifier, IdentifiedMedia } from "@/types/media.types";
+import { ExtractedMediaInfo, IdentifiedMedia } from "@/types/media.types";
 import { logger } from "@/utils/logger";
 import { getMediaName, getMediaReleaseDate } from "@/utils/media";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { TmdbIdentifier } from "./tmdb.identifier";
+import { parseReleaseName } from "./regex.identifier";
+import { getLlmCache } from "@/core/cache/llmCache";
 import fs from 'fs';
 import path from 'path';
 
-/**
- * @interface ExtractedInfo
- * @description 从文件名中提取的媒体信息结构。
- */
-interface ExtractedInfo {
-  title: string; // 标题
-  season?: number; // 季号
-  episode?: number; // 集号
-  year?: number; // 年份
-}
-
 /**
  * @interface LLMFolderIdentification
  * @description LLM 识别特殊文件夹的结果接口（单个文件夹）
@@ -125,11 +118,14 @@ class OpenAiClient implements LlmClient {
  * @class LLMIdentifier
  * @description 使用LLM（大型语言模型）进行媒体文件识别的核心实现。
  */
-export class LLMIdentifier implements IMediaIdentifier {
+export class LLMIdentifier extends TmdbIdentifier {
   /**
    * 构造函数，执行基本的配置验证。
+   * @param mediaTypeHint - 默认媒体类型，指定后只搜索该类型
    */
-  constructor() {
+  constructor(mediaTypeHint?: "tv" | "movie") {
+    super(mediaTypeHint);
+
     // 获取当前配置进行基础验证
     const config = getConfig();
     
@@ -180,7 +176,7 @@ export class LLMIdentifier implements IMediaIdentifier {
 
       // 获取最新配置
       const config = getConfig();
-      const moviedb = new MovieDb(config.tmdbApi!);
+      const moviedb = new CachedMovieDb(config.tmdbApi!);
 
       // 1. 使用LLM从文件名中提取基础信息
       const extractedInfo = await this.extractWithLLM(fileName, config);
@@ -189,14 +185,19 @@ export class LLMIdentifier implements IMediaIdentifier {
         return null;
       }
 
-      // 2. 使用提取的标题在TMDB中同时搜索电视剧和电影
-      const [tvResponse, movieResponse] = await Promise.all([
-        moviedb.searchTv({ query: extractedInfo.title, language: config.language }),
-        moviedb.searchMovie({ query: extractedInfo.title, language: config.language }),
-      ]);
+      // LLM 只提取起始集号，多集文件（如 S01E01-E02）的结束集号由规则补充；
+      // 规则识别为特别篇（SP/OVA/S00）时以规则提取的季集为准
+      const parsed = parseReleaseName(fileName);
+      if (parsed?.season === 0) {
+        extractedInfo.season = 0;
+        extractedInfo.episode = parsed.episode;
+      }
+      if (extractedInfo.episodeEnd === undefined && parsed?.episodeEnd !== undefined && parsed.episode === extractedInfo.episode) {
+        extractedInfo.episodeEnd = parsed.episodeEnd;
+      }
 
-      const tvResults = tvResponse.results || [];
-      const movieResults = movieResponse.results || [];
+      // 2. 使用提取的标题在TMDB中同时搜索电视剧和电影
+      const { tvResults, movieResults } = await this.searchTmdb(extractedInfo, moviedb, config);
 
       if (tvResults.length === 0 && movieResults.length === 0) {
         logger.warn(`在TMDB中未找到 "${extractedInfo.title}" 的任何结果。`);
@@ -228,13 +229,15 @@ export class LLMIdentifier implements IMediaIdentifier {
       }
 
       // 4. 获取匹配项的详细信息并格式化为标准输出
-      return this.formatResult(
+      const media = await this.formatResult(
         mediaType,
         selectedItem,
         extractedInfo,
         moviedb,
-        config
+        config,
+        selectedIndex
       );
+      return this.attachCandidates(media, extractedInfo, tvResults, movieResults, config);
 
     } catch (error: any) {
       logger.error(`LLM策略识别失败 for "${fileName}"`, error);
@@ -243,56 +246,29 @@ export class LLMIdentifier implements IMediaIdentifier {
   }
 
   /**
-   * @method formatResult
-   * @description 将TMDB的原始数据格式化为项目内部使用的 IdentifiedMedia 结构。
+   * @method extractWithLLM
+   * @description 从文件名中提取结构化信息，优先读取缓存，未命中时调用LLM。
    */
-  private async formatResult(
-    mediaType: "tv" | "movie",
-    selectedItem: TvResult | MovieResult,
-    extractedInfo: ExtractedInfo,
-    moviedb: MovieDb,
-    config: Config
-  ): Promise<IdentifiedMedia | null> {
-      if (!selectedItem.id) return null;
-
-      let rawData;
-      let episodeData = null;
-
-      // 根据媒体类型（电视剧/电影）获取不同的详细信息。
-      if (mediaType === 'tv') {
-          const seasonNumber = extractedInfo.season ?? 1;
-          rawData = await moviedb.seasonInfo({id: selectedItem.id, season_number: seasonNumber, language: config.language});
-          if (extractedInfo.episode && rawData.episodes) {
-              episodeData = rawData.episodes.find((e: any) => e.episode_number === extractedInfo.episode);
-          }
-      } else {
-          rawData = await moviedb.movieInfo({id: selectedItem.id, language: config.language});
-      }
+  private async extractWithLLM(fileName: string, config: Config): Promise<ExtractedMediaInfo | null> {
+    // 优先使用缓存的解析结果，避免重试和重新扫描时重复调用LLM
+    const llmCache = getLlmCache();
+    const cached = await llmCache.get(fileName);
+    if (cached) {
+      return cached;
+    }
 
-      const result: IdentifiedMedia = {
-        type: mediaType,
-        tmdbId: selectedItem.id,
-        title: getMediaName(selectedItem) || extractedInfo.title,
-        originalTitle: extractedInfo.title,
-        releaseDate: getMediaReleaseDate(selectedItem, mediaType),
-        description: selectedItem.overview || null,
-        posterPath: selectedItem.poster_path || null,
-        backdropPath: selectedItem.backdrop_path || null,
-        seasonNumber: mediaType === 'tv' ? (extractedInfo.season ?? 1) : undefined,
-        episodeNumber: mediaType === 'tv' ? extractedInfo.episode : undefined,
-        episodeTitle: mediaType === 'tv' && episodeData ? episodeData.name : undefined,
-        episodeDescription: mediaType === 'tv' && episodeData ? episodeData.overview : null,
-        episodeStillPath: mediaType === 'tv' && episodeData ? episodeData.still_path : null,
-        rawData: rawData,
-      };
-      return result;
+    const extracted = await this.requestExtraction(fileName, config);
+    if (extracted && extracted.title) {
+      await llmCache.set(fileName, extracted);
+    }
+    return extracted;
   }
 
   /**
-   * @method extractWithLLM
-   * @description 调用LLM从文件名中提取结构化信息。
+   * @method requestExtraction
+   * @description 请求LLM解析文件名并解析返回的JSON。
    */
-  private async extractWithLLM(fileName: string, config: Config): Promise<ExtractedInfo | null> {
+  private async requestExtraction(fileName: string, config: Config): Promise<ExtractedMediaInfo | null> {
     const { client, model } = this.createLlmClient(config);
     const response = await client.chat({
       model: model,
@@ -336,7 +312,7 @@ export class LLMIdentifier implements IMediaIdentifier {
    * @description 调用LLM在TMDB的搜索结果中选择最匹配的一项。
    */
   private async determineBestMatch(
-    mediaInfo: ExtractedInfo,
+    mediaInfo: ExtractedMediaInfo,
     fileName: string,
     tvResults: TvResult[],
     movieResults: MovieResult[],
@@ -388,25 +364,6 @@ ${movieResults.slice(0, 3).map((m, i) => `MOV${i + 1}: ${m.title} (${m.release_d
     return this.fallbackBestMatch(mediaInfo, tvResults, movieResults);
   }
 
-  /**
-   * @method fallbackBestMatch
-   * @description 当LLM无法做出决策时的回退匹配逻辑。
-   */
-  private fallbackBestMatch(
-    mediaInfo: ExtractedInfo,
-    tvResults: TvResult[],
-    movieResults: MovieResult[]
-  ): { mediaType: "tv" | "movie"; selectedIndex: number } {
-    // 如果文件名中包含季/集信息，且有电视剧结果，则优先选择电视剧。
-    if ((mediaInfo.season || mediaInfo.episode) && tvResults.length > 0) {
-      return { mediaType: "tv", selectedIndex: 0 };
-    }
-    // 否则，选择结果数量更多的那一类。
-    return tvResults.length >= movieResults.length
-      ? { mediaType: "tv", selectedIndex: 0 }
-      : { mediaType: "movie", selectedIndex: 0 };
-  }
-
   /**
    * @method identifyFolder
    * @description 识别特殊文件夹类型（BDMV、VIDEO_TS 等），支持返回多个子文件夹信息
@@ -607,7 +564,7 @@ ${movieResults.slice(0, 3).map((m, i) => `MOV${i + 1}: ${m.title} (${m.release_d
   } | null> {
     try {
       const config = getConfig();
-      const moviedb = new MovieDb(config.tmdbApi!);
+      const moviedb = new CachedMovieDb(config.tmdbApi!);
       
       // 构建搜索查询
       const searchQuery = year 
@@ -0,0 +1,100 @@
+import path from "path";
+import { MovieResult, TvResult } from "moviedb-promise";
+import { CachedMovieDb } from "@/core/cache/tmdbCache";
+import { getConfig } from "@/config/config";
+import { IdentifiedMedia } from "@/types/media.types";
+import { ReviewSelection } from "@/types/queue.types";
+import { logger } from "@/utils/logger";
+import { TmdbIdentifier } from "./tmdb.identifier";
+import { parseReleaseName } from "./regex.identifier";
+
+/**
+ * 季集偏移量
+ */
+export interface EpisodeOffsets {
+  season?: number;
+  episode?: number;
+}
+
+/**
+ * @class ManualIdentifier
+ * @description 使用人工确认或提示文件固定的 TMDB 条目识别，不再搜索和自动选择。
+ * 季集信息优先使用指定的值，其次从文件名中提取并加上偏移量。
+ */
+export class ManualIdentifier extends TmdbIdentifier {
+  constructor(
+    private selection: ReviewSelection,
+    private offsets: EpisodeOffsets = {}
+  ) {
+    super();
+  }
+
+  /**
+   * @method identify
+   * @description 直接获取指定 TMDB 条目的详细信息并格式化。
+   * @param fileName - 要识别的文件名。
+   * @param isDirectory - 是否为目录。
+   * @returns {Promise<IdentifiedMedia | null>} - 识别出的媒体信息或null。
+   */
+  public async identify(
+    fileName: string,
+    isDirectory: boolean
+  ): Promise<IdentifiedMedia | null> {
+    const { type, tmdbId, seasonNumber, episodeNumber } = this.selection;
+    logger.info(`使用人工确认结果识别: ${fileName} -> ${type} ${tmdbId}`);
+
+    const config = getConfig();
+    const moviedb = new CachedMovieDb(config.tmdbApi!);
+
+    const parsed = isDirectory ? null : parseReleaseName(fileName);
+    // 特别篇（第 0 季）不应用季偏移
+    const parsedSeason = this.offsets.season && parsed?.season !== 0 ? (parsed?.season ?? 1) + this.offsets.season : parsed?.season;
+    const parsedEpisode = parsed?.episode != null ? parsed.episode + (this.offsets.episode ?? 0) : undefined;
+    const episode = episodeNumber ?? parsedEpisode;
+    // 多集文件保持集数跨度，随指定的起始集号一起平移
+    const episodeEnd = episode != null && parsed?.episode != null && parsed.episodeEnd != null
+      ? episode + (parsed.episodeEnd - parsed.episode)
+      : undefined;
+    const extractedInfo = {
+      title: parsed?.title ?? path.parse(fileName).name,
+      year: parsed?.year,
+      season: seasonNumber ?? parsedSeason,
+      episode,
+      episodeEnd,
+    };
+
+    // 将详情接口的数据转换为搜索结果结构，复用格式化逻辑
+    let selectedItem: TvResult | MovieResult;
+    if (type === "tv") {
+      const show = await moviedb.tvInfo({ id: tmdbId, language: config.language });
+      selectedItem = {
+        id: show.id,
+        name: show.name,
+        original_name: show.original_name,
+        first_air_date: show.first_air_date,
+        overview: show.overview,
+        poster_path: show.poster_path ?? undefined,
+        backdrop_path: show.backdrop_path ?? undefined,
+        media_type: "tv",
+      };
+    } else {
+      const movie = await moviedb.movieInfo({ id: tmdbId, language: config.language });
+      selectedItem = {
+        id: movie.id,
+        title: movie.title,
+        original_title: movie.original_title,
+        release_date: movie.release_date,
+        overview: movie.overview ?? undefined,
+        poster_path: movie.poster_path ?? undefined,
+        backdrop_path: movie.backdrop_path ?? undefined,
+        media_type: "movie",
+      };
+    }
+
+    const media = await this.formatResult(type, selectedItem, extractedInfo, moviedb, config);
+    if (media) {
+      media.confidence = 1;
+    }
+    return media;
+  }
+}
@@ -0,0 +1,326 @@
+import path from "path";
+import { MovieResult, TvResult } from "moviedb-promise";
+import { CachedMovieDb } from "@/core/cache/tmdbCache";
+import { getConfig } from "@/config/config";
+import { ExtractedMediaInfo, IdentifiedMedia } from "@/types/media.types";
+import { logger } from "@/utils/logger";
+import { TmdbIdentifier } from "./tmdb.identifier";
+
+/**
+ * 常见的发布信息标记，标题在第一个标记处截断
+ */
+const RELEASE_TAG_REGEX =
+  /\b(?:2160p|1080[pi]|720p|576p|480p|4k|uhd|web-?dl|web-?rip|webrip|bd-?rip|blu-?ray|bdmv|remux|hdtv|dvd-?rip|hdrip|x26[45]|h\.?26[45]|hevc|avc|aac|flac|dts|truehd|atmos|10-?bit|hdr|dv|proper|repack)\b/i;
+
+/**
+ * 按顺序匹配的季集规则
+ */
+const EPISODE_PATTERNS: Array<{
+  regex: RegExp;
+  season: number | null;
+  episode: number;
+  episodeEnd?: number;
+  special?: boolean; // 特别篇，季号固定为 0
+}> = [
+  // S01E02 / S1.E2 / S01 E02，以及多集 S01E01-E02 / S01E01E02 / S01E01-02；S00E03 为特别篇
+  { regex: /\bS(\d{1,2})[\s._-]?E(\d{1,4})(?:v\d)?(?:-?E(\d{1,4})|-(\d{1,4}))?(?:v\d)?\b/i, season: 1, episode: 2, episodeEnd: 3 },
+  // 1x02
+  { regex: /\b(\d{1,2})x(\d{2,3})\b/i, season: 1, episode: 2 },
+  // 特别篇：SP01 / OVA 2 / OAD02 / Special 03 / 特别篇2
+  { regex: /\b(?:SP|OVA|OAD|Specials?)[\s._-]?(\d{1,3})(?:v\d)?\b|(?:特别篇|番外)(\d{1,3})/i, season: null, episode: 1, special: true },
+  // 不带编号的特别篇：OVA / OAD / [Special] / 特别篇，视为第 1 集
+  { regex: /\b(?:OVA|OAD)\b|[[(]Specials?[\])]|特别篇|番外/i, season: null, episode: 1, special: true },
+  // [Group] Title - 06 [1080p] / Title - 06v2
+  { regex: /\s-\s(\d{1,4})(?:v\d)?(?=\s|$|\[|\()/, season: null, episode: 1 },
+  // [Group] Title [06][1080p]
+  { regex: /\[(\d{1,4})(?:v\d)?\]/, season: null, episode: 1 },
+  // EP06 / E06 / 第06话
+  { regex: /\bEP?(\d{1,4})\b|第(\d{1,4})[话話集]/i, season: null, episode: 1 },
+];
+
+/**
+ * 从标题尾部识别季号，如 "Title S2"、"Title Season 2"、"Title 2nd Season"
+ */
+const TITLE_SEASON_PATTERNS: RegExp[] = [
+  /\s+S(\d{1,2})$/i,
+  /\s+Season\s*(\d{1,2})$/i,
+  /\s+(\d{1,2})(?:st|nd|rd|th)\s+Season$/i,
+  /\s*第(\d{1,2})[季期]$/,
+];
+
+/**
+ * 清理标题中的分隔符、字幕组和多余标记
+ */
+function cleanTitle(raw: string): string {
+  let title = raw
+    // 移除开头的 [字幕组] 标记
+    .replace(/^\s*(?:\[[^\]]*\]\s*)+/, "")
+    // 移除残留的方括号/圆括号标记
+    .replace(/\[[^\]]*\]|【[^】]*】/g, " ")
+    .replace(/\((?!(?:19|20)\d{2}\))[^)]*\)/g, " ");
+
+  // 没有空格的场景命名（Title.Name.2019），使用点和下划线作为分隔符
+  if (!/\s/.test(title.trim())) {
+    title = title.replace(/[._]/g, " ");
+  } else {
+    title = title.replace(/_/g, " ");
+  }
+
+  return title
+    .replace(/\s+/g, " ")
+    .replace(/[\s\-–._]+$/, "")
+    .replace(/^[\s\-–._]+/, "")
+    .trim();
+}
+
+/**
+ * 从年份位置截断标题并提取年份
+ */
+function extractYear(text: string): { text: string; year?: number } {
+  // 括号中的年份：Title (2019)
+  const bracketMatch = text.match(/[([]((?:19|20)\d{2})[)\]]/);
+  if (bracketMatch && bracketMatch.index !== undefined) {
+    return {
+      text: text.substring(0, bracketMatch.index),
+      year: parseInt(bracketMatch[1], 10),
+    };
+  }
+
+  // 场景命名中的年份：Title.2019.1080p（不在开头，避免把 "2012" 之类的标题当成年份）
+  // 取发布标记之前的最后一个，Blade.Runner.2049.2017.1080p 中的 2049 属于标题
+  const tagIndex = text.search(RELEASE_TAG_REGEX);
+  const yearText = tagIndex > 0 ? text.substring(0, tagIndex) : text;
+  const sceneMatch = [...yearText.matchAll(/[\s._]((?:19|20)\d{2})(?=[\s._]|$)/g)].pop();
+  if (sceneMatch && sceneMatch.index !== undefined && sceneMatch.index > 0) {
+    return {
+      text: text.substring(0, sceneMatch.index),
+      year: parseInt(sceneMatch[1], 10),
+    };
+  }
+
+  return { text };
+}
+
+/**
+ * 使用规则从文件名中提取媒体信息
+ * @param fileName - 文件名（可带扩展名）
+ * @returns 提取的媒体信息，无法提取标题时返回 null
+ */
+export function parseReleaseName(fileName: string): ExtractedMediaInfo | null {
+  const baseName = path.parse(fileName).name.trim();
+  if (!baseName) {
+    return null;
+  }
+
+  let titlePart = baseName;
+  let season: number | undefined;
+  let episode: number | undefined;
+  let episodeEnd: number | undefined;
+
+  // 1. 匹配季集信息，标题为匹配位置之前的部分
+  for (const pattern of EPISODE_PATTERNS) {
+    const match = baseName.match(pattern.regex);
+    if (!match || match.index === undefined) {
+      continue;
+    }
+    // 排除被误认为集号的年份和分辨率，如 [2019]、[1080]
+    const episodeValue = match[pattern.episode] ?? match[pattern.episode + 1];
+    const episodeNumber = episodeValue ? parseInt(episodeValue, 10) : 1;
+    if (pattern.season === null && (episodeNumber >= 1900 || /^(?:480|576|720|1080|2160)$/.test(episodeValue))) {
+      continue;
+    }
+
+    const candidate = baseName.substring(0, match.index);
+    // 标题部分被完全移除（如 [06] 出现在开头）时继续尝试下一规则
+    if (!cleanTitle(candidate)) {
+      continue;
+    }
+
+    titlePart = candidate;
+    episode = episodeNumber;
+    if (pattern.season !== null) {
+      season = parseInt(match[pattern.season], 10);
+    } else if (pattern.special) {
+      season = 0;
+    }
+    if (pattern.episodeEnd !== undefined) {
+      const endValue = match[pattern.episodeEnd] ?? match[pattern.episodeEnd + 1];
+      const endNumber = endValue ? parseInt(endValue, 10) : NaN;
+      // 排除 S01E01-1080 之类被误认为结束集号的分辨率
+      if (endNumber > episodeNumber && !/^(?:480|576|720|1080|2160)$/.test(endValue)) {
+        episodeEnd = endNumber;
+      }
+    }
+    break;
+  }
+
+  // 2. 提取年份
+  const yearResult = extractYear(titlePart);
+  titlePart = yearResult.text;
+
+  // 3. 在发布标记处截断标题（电影等没有季集信息的文件）
+  const tagMatch = titlePart.match(RELEASE_TAG_REGEX);
+  if (tagMatch && tagMatch.index !== undefined && tagMatch.index > 0) {
+    titlePart = titlePart.substring(0, tagMatch.index);
+  }
+
+  let title = cleanTitle(titlePart);
+
+  // 4. 从标题尾部提取季号
+  if (episode !== undefined && season === undefined) {
+    for (const regex of TITLE_SEASON_PATTERNS) {
+      const seasonMatch = title.match(regex);
+      if (seasonMatch && seasonMatch.index !== undefined) {
+        season = parseInt(seasonMatch[1], 10);
+        title = title.substring(0, seasonMatch.index).trim();
+        break;
+      }
+    }
+  }
+
+  if (!title) {
+    return null;
+  }
+
+  const result: ExtractedMediaInfo = { title };
+  if (yearResult.year !== undefined) result.year = yearResult.year;
+  if (season !== undefined) result.season = season;
+  if (episode !== undefined) result.episode = episode;
+  if (episodeEnd !== undefined) result.episodeEnd = episodeEnd;
+  return result;
+}
+
+/**
+ * 从文件名中提取发布组
+ * 支持开头的 [字幕组] 和场景命名末尾的 -GROUP（需位于发布标记之后，避免误认 S01E01-E02）
+ * @param fileName - 文件名（可带扩展名）
+ * @returns 发布组名称，无法提取时返回 null
+ */
+export function parseReleaseGroup(fileName: string): string | null {
+  const baseName = path.parse(fileName).name.trim();
+
+  // [Group] Title - 01 [1080p]
+  const bracketMatch = baseName.match(/^\[([^\]]+)\]/);
+  if (bracketMatch) {
+    const group = bracketMatch[1].trim();
+    if (group && !/^\d+$/.test(group) && !RELEASE_TAG_REGEX.test(group)) {
+      return group;
+    }
+  }
+
+  // Title.2019.1080p.BluRay.x264-GROUP
+  const sceneMatch = baseName.match(/-([A-Za-z0-9]+)$/);
+  if (sceneMatch && sceneMatch.index !== undefined) {
+    const group = sceneMatch[1];
+    if (RELEASE_TAG_REGEX.test(baseName.substring(0, sceneMatch.index)) && !RELEASE_TAG_REGEX.test(group)) {
+      return group;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * @class RegexIdentifier
+ * @description 基于规则的离线媒体识别实现，不依赖LLM服务，结果可复现。
+ */
+export class RegexIdentifier extends TmdbIdentifier {
+  /**
+   * @method identify
+   * @description 使用规则解析文件名并在TMDB中匹配。
+   * @param fileName - 要识别的文件名。
+   * @returns {Promise<IdentifiedMedia | null>} - 识别出的媒体信息或null。
+   */
+  public async identify(
+    fileName: string
+  ): Promise<IdentifiedMedia | null> {
+    try {
+      logger.info(`使用规则策略识别: ${fileName}`);
+
+      const config = getConfig();
+      const moviedb = new CachedMovieDb(config.tmdbApi!);
+
+      // 1. 使用规则从文件名中提取基础信息
+      const extractedInfo = parseReleaseName(fileName);
+      if (!extractedInfo) {
+        logger.warn(`规则无法从 "${fileName}" 提取有效标题。`);
+        return null;
+      }
+      logger.debug(`规则提取的内容: ${JSON.stringify(extractedInfo)}`);
+
+      // 2. 在TMDB中同时搜索电视剧和电影
+      const { tvResults, movieResults } = await this.searchTmdb(extractedInfo, moviedb, config);
+
+      if (tvResults.length === 0 && movieResults.length === 0) {
+        logger.warn(`在TMDB中未找到 "${extractedInfo.title}" 的任何结果。`);
+        return null;
+      }
+
+      // 3. 按规则选择最佳匹配项
+      const { mediaType, selectedIndex } = this.determineBestMatch(
+        extractedInfo,
+        tvResults,
+        movieResults
+      );
+
+      const selectedItem =
+        mediaType === "tv"
+          ? tvResults[selectedIndex]
+          : movieResults[selectedIndex];
+
+      if (!selectedItem || !selectedItem.id) {
+        logger.warn(`规则选择的项目无效或缺少ID: ${fileName}`);
+        return null;
+      }
+
+      // 4. 获取匹配项的详细信息并格式化为标准输出
+      const media = await this.formatResult(
+        mediaType,
+        selectedItem,
+        extractedInfo,
+        moviedb,
+        config,
+        selectedIndex
+      );
+      return this.attachCandidates(media, extractedInfo, tvResults, movieResults, config);
+    } catch (error) {
+      logger.error(`规则策略识别失败 for "${fileName}"`, error);
+      return null;
+    }
+  }
+
+  /**
+   * @method determineBestMatch
+   * @description 按年份和季集信息在搜索结果中选择最匹配的一项。
+   */
+  private determineBestMatch(
+    mediaInfo: ExtractedMediaInfo,
+    tvResults: TvResult[],
+    movieResults: MovieResult[]
+  ): { mediaType: "tv" | "movie"; selectedIndex: number } {
+    const hasEpisodeInfo = mediaInfo.season !== undefined || mediaInfo.episode !== undefined;
+
+    // 有年份时优先选择年份一致的结果，有季集信息时只在电视剧中查找
+    if (mediaInfo.year) {
+      const yearOf = (date?: string) => (date ? parseInt(date.substring(0, 4), 10) : NaN);
+      const tvIndex = tvResults.findIndex(item => yearOf(item.first_air_date) === mediaInfo.year);
+      const movieIndex = hasEpisodeInfo
+        ? -1
+        : movieResults.findIndex(item => yearOf(item.release_date) === mediaInfo.year);
+
+      if (movieIndex >= 0 && (tvIndex < 0 || movieIndex <= tvIndex)) {
+        return { mediaType: "movie", selectedIndex: movieIndex };
+      }
+      if (tvIndex >= 0) {
+        return { mediaType: "tv", selectedIndex: tvIndex };
+      }
+    }
+
+    // 没有季集信息且存在电影结果时，视为电影
+    if (!hasEpisodeInfo && movieResults.length > 0) {
+      return { mediaType: "movie", selectedIndex: 0 };
+    }
+
+    return this.fallbackBestMatch(mediaInfo, tvResults, movieResults);
+  }
+}
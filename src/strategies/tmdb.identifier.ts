@@ -0,0 +1,252 @@
+import { MovieDb, MovieResult, TvResult } from "moviedb-promise";
+import { Config } from "@/config/config";
+import {
+  AbsoluteEpisodeMapping,
+  ExtractedMediaInfo,
+  IMediaIdentifier,
+  IdentifiedMedia,
+  MediaCandidate,
+} from "@/types/media.types";
+import { getMediaName, getMediaReleaseDate } from "@/utils/media";
+import { calculateTitleSimilarity } from "@/utils/similarity";
+import { resolveAbsoluteEpisode } from "./absoluteEpisode.resolver";
+
+/**
+ * 默认保留的候选结果数量
+ */
+const DEFAULT_MAX_CANDIDATES = 5;
+
+/**
+ * @class TmdbIdentifier
+ * @description 基于 TMDB 搜索的识别器基类，封装各识别策略共用的搜索与结果格式化逻辑。
+ */
+export abstract class TmdbIdentifier implements IMediaIdentifier {
+  /**
+   * @param mediaTypeHint - 默认媒体类型，指定后只搜索该类型
+   */
+  constructor(protected mediaTypeHint?: "tv" | "movie") {}
+
+  public abstract identify(
+    fileName: string,
+    isDirectory: boolean,
+    fullPath?: string
+  ): Promise<IdentifiedMedia | null>;
+
+  /**
+   * @method searchTmdb
+   * @description 使用提取的标题在TMDB中同时搜索电视剧和电影，指定了默认媒体类型时只搜索该类型。
+   */
+  protected async searchTmdb(
+    extractedInfo: ExtractedMediaInfo,
+    moviedb: MovieDb,
+    config: Config
+  ): Promise<{ tvResults: TvResult[]; movieResults: MovieResult[] }> {
+    const [tvResponse, movieResponse] = await Promise.all([
+      this.mediaTypeHint !== "movie"
+        ? moviedb.searchTv({ query: extractedInfo.title, language: config.language })
+        : null,
+      this.mediaTypeHint !== "tv"
+        ? moviedb.searchMovie({ query: extractedInfo.title, language: config.language })
+        : null,
+    ]);
+
+    return {
+      tvResults: tvResponse?.results || [],
+      movieResults: movieResponse?.results || [],
+    };
+  }
+
+  /**
+   * @method fallbackBestMatch
+   * @description 不依赖外部服务的最佳匹配逻辑。
+   */
+  protected fallbackBestMatch(
+    mediaInfo: ExtractedMediaInfo,
+    tvResults: TvResult[],
+    movieResults: MovieResult[]
+  ): { mediaType: "tv" | "movie"; selectedIndex: number } {
+    // 如果文件名中包含季/集信息，且有电视剧结果，则优先选择电视剧。
+    if ((mediaInfo.season || mediaInfo.episode) && tvResults.length > 0) {
+      return { mediaType: "tv", selectedIndex: 0 };
+    }
+    // 否则，选择结果数量更多的那一类。
+    return tvResults.length >= movieResults.length
+      ? { mediaType: "tv", selectedIndex: 0 }
+      : { mediaType: "movie", selectedIndex: 0 };
+  }
+
+  /**
+   * @method formatResult
+   * @description 将TMDB的原始数据格式化为项目内部使用的 IdentifiedMedia 结构。
+   */
+  protected async formatResult(
+    mediaType: "tv" | "movie",
+    selectedItem: TvResult | MovieResult,
+    extractedInfo: ExtractedMediaInfo,
+    moviedb: MovieDb,
+    config: Config,
+    selectedIndex: number = 0
+  ): Promise<IdentifiedMedia | null> {
+      if (!selectedItem.id) return null;
+
+      let rawData;
+      let episodeData = null;
+      let seasonNumber = extractedInfo.season ?? 1;
+      let episodeNumber = extractedInfo.episode;
+      let episodeMapping: AbsoluteEpisodeMapping | null = null;
+
+      // 根据媒体类型（电视剧/电影）获取不同的详细信息。
+      if (mediaType === 'tv') {
+          rawData = await moviedb.seasonInfo({id: selectedItem.id, season_number: seasonNumber, language: config.language});
+          if (extractedInfo.episode && rawData.episodes) {
+              episodeData = rawData.episodes.find((e: any) => e.episode_number === extractedInfo.episode);
+          }
+
+          // 字幕组常用绝对集数（如 "Title - 27"），第一季中找不到该集时映射为实际季号和集号
+          // 明确指定了其他季的文件名不做映射
+          if (extractedInfo.episode && !episodeData && seasonNumber === 1) {
+              episodeMapping = await resolveAbsoluteEpisode(moviedb, selectedItem.id, extractedInfo.episode, config.language);
+              if (episodeMapping) {
+                  seasonNumber = episodeMapping.seasonNumber;
+                  episodeNumber = episodeMapping.episodeNumber;
+                  if (seasonNumber !== 1) {
+                      rawData = await moviedb.seasonInfo({id: selectedItem.id, season_number: seasonNumber, language: config.language});
+                  }
+                  episodeData = rawData.episodes?.find((e: any) => e.episode_number === episodeNumber) ?? null;
+              }
+          }
+      } else {
+          rawData = await moviedb.movieInfo({id: selectedItem.id, language: config.language});
+      }
+
+      // 多集文件（如 S01E01-E02）的结束集号与起始集号保持相同跨度
+      const episodeNumberEnd =
+          mediaType === 'tv' && episodeNumber && extractedInfo.episode && extractedInfo.episodeEnd
+              ? episodeNumber + (extractedInfo.episodeEnd - extractedInfo.episode)
+              : undefined;
+
+      const result: IdentifiedMedia = {
+        type: mediaType,
+        tmdbId: selectedItem.id,
+        title: getMediaName(selectedItem) || extractedInfo.title,
+        originalTitle: extractedInfo.title,
+        releaseDate: getMediaReleaseDate(selectedItem, mediaType),
+        description: selectedItem.overview || null,
+        posterPath: selectedItem.poster_path || null,
+        backdropPath: selectedItem.backdrop_path || null,
+        seasonNumber: mediaType === 'tv' ? seasonNumber : undefined,
+        episodeNumber: mediaType === 'tv' ? episodeNumber : undefined,
+        episodeNumberEnd,
+        episodeTitle: mediaType === 'tv' && episodeData ? episodeData.name : undefined,
+        episodeDescription: mediaType === 'tv' && episodeData ? episodeData.overview : null,
+        episodeStillPath: mediaType === 'tv' && episodeData ? episodeData.still_path : null,
+        episodeMapping: episodeMapping ?? undefined,
+        confidence: this.calculateConfidence(mediaType, selectedItem, extractedInfo, selectedIndex, !!episodeData),
+        rawData: rawData,
+      };
+      return result;
+  }
+
+  /**
+   * @method calculateConfidence
+   * @description 根据标题相似度、搜索排名、年份和季集信息计算匹配置信度（0-1）。
+   */
+  protected calculateConfidence(
+    mediaType: "tv" | "movie",
+    selectedItem: TvResult | MovieResult,
+    extractedInfo: ExtractedMediaInfo,
+    selectedIndex: number,
+    episodeFound: boolean
+  ): number {
+    const titleScore = this.calculateSimilarity(mediaType, selectedItem, extractedInfo);
+
+    // 标题相似度（0.4）+ TMDB 搜索排名（0.3）
+    let score = titleScore * 0.4 + (selectedIndex === 0 ? 0.3 : selectedIndex < 3 ? 0.15 : 0.05);
+
+    // 年份（0.2）：一致加满分，缺失取中间值，不一致不加分
+    const releaseDate = getMediaReleaseDate(selectedItem, mediaType);
+    if (!extractedInfo.year) {
+      score += 0.1;
+    } else if (releaseDate && releaseDate.getFullYear() === extractedInfo.year) {
+      score += 0.2;
+    }
+
+    // 类型一致性（0.1）：电视剧找到对应剧集，或电影文件名中没有季集信息
+    const hasEpisodeInfo = extractedInfo.season != null || extractedInfo.episode != null;
+    if (mediaType === "tv" ? episodeFound : !hasEpisodeInfo) {
+      score += 0.1;
+    } else if (mediaType === "movie") {
+      score -= 0.1;
+    }
+
+    return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+  }
+
+  /**
+   * @method calculateSimilarity
+   * @description 计算提取的标题与TMDB条目标题（含原始标题）的最高相似度。
+   */
+  protected calculateSimilarity(
+    mediaType: "tv" | "movie",
+    item: TvResult | MovieResult,
+    extractedInfo: ExtractedMediaInfo
+  ): number {
+    const names = mediaType === "tv"
+      ? [(item as TvResult).name, (item as TvResult).original_name]
+      : [(item as MovieResult).title, (item as MovieResult).original_title];
+    return Math.max(0, ...names.filter((name): name is string => !!name)
+      .map(name => calculateTitleSimilarity(extractedInfo.title, name)));
+  }
+
+  /**
+   * @method attachCandidates
+   * @description 对搜索结果评分排序，保留前 N 个候选结果供人工确认。
+   */
+  protected attachCandidates(
+    media: IdentifiedMedia | null,
+    extractedInfo: ExtractedMediaInfo,
+    tvResults: TvResult[],
+    movieResults: MovieResult[],
+    config: Config
+  ): IdentifiedMedia | null {
+    if (!media) return null;
+
+    const hasEpisodeInfo = extractedInfo.season != null || extractedInfo.episode != null;
+    const toCandidate = (
+      mediaType: "tv" | "movie",
+      item: TvResult | MovieResult,
+      index: number
+    ): MediaCandidate => ({
+      type: mediaType,
+      tmdbId: item.id!,
+      title: getMediaName(item) || "",
+      originalTitle: mediaType === "tv"
+        ? (item as TvResult).original_name || null
+        : (item as MovieResult).original_title || null,
+      releaseDate: (mediaType === "tv" ? (item as TvResult).first_air_date : (item as MovieResult).release_date) || null,
+      posterPath: item.poster_path || null,
+      // 候选结果不逐个查询季信息，按文件名是否包含季集信息估算类型一致性
+      score: this.calculateConfidence(mediaType, item, extractedInfo, index, mediaType === "tv" && hasEpisodeInfo),
+      similarity: Math.round(this.calculateSimilarity(mediaType, item, extractedInfo) * 100) / 100,
+    });
+
+    const candidates = [
+      ...tvResults.filter(item => item.id).map((item, index) => toCandidate("tv", item, index)),
+      ...movieResults.filter(item => item.id).map((item, index) => toCandidate("movie", item, index)),
+    ].sort((a, b) => b.score - a.score);
+
+    const limit = config.review?.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+    const top = candidates.slice(0, limit);
+    const selected = candidates.find(c => c.type === media.type && c.tmdbId === media.tmdbId);
+    if (selected) {
+      selected.selected = true;
+      // 已选结果不在前 N 个时替换最后一个，确保候选列表包含已选结果
+      if (!top.includes(selected)) {
+        top[top.length - 1] = selected;
+      }
+    }
+
+    media.candidates = top;
+    return media;
+  }
+}
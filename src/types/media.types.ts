@@ -1,3 +1,6 @@
+import type { LinkMode } from '@/config/config';
+import type { MediaProbeResult } from '@/types/probe.types';
+
 /**
  * 从文件名中初步提取的媒体信息
  */
@@ -6,6 +9,34 @@ export interface ExtractedMediaInfo {
   year?: number;
   season?: number;
   episode?: number;
+  episodeEnd?: number; // 多集文件（如 S01E01-E02）的结束集号
+}
+
+/**
+ * TMDB 候选结果，用于人工确认
+ */
+export interface MediaCandidate {
+  type: "movie" | "tv";
+  tmdbId: number;
+  title: string;
+  originalTitle: string | null;
+  releaseDate: string | null;
+  posterPath: string | null;
+  // 综合评分（0-1）及标题相似度（0-1）
+  score: number;
+  similarity: number;
+  // 是否为识别器自动选择的结果
+  selected?: boolean;
+}
+
+/**
+ * 绝对集数映射结果
+ */
+export interface AbsoluteEpisodeMapping {
+  absoluteEpisode: number;
+  seasonNumber: number;
+  episodeNumber: number;
+  source: "episodeGroup" | "seasons"; // 映射依据：TMDB 绝对集数剧集组 / 按季集数累加
 }
 
 /**
@@ -23,13 +54,40 @@ export interface IdentifiedMedia {
   // 特定于电视剧的信息
   seasonNumber?: number;
   episodeNumber?: number;
+  // 多集文件的结束集号，单集文件为空
+  episodeNumberEnd?: number;
   episodeTitle?: string;
   episodeDescription?: string | null;
   episodeStillPath?: string | null;
+  // 由绝对集数映射得到季号和集号时记录映射信息
+  episodeMapping?: AbsoluteEpisodeMapping;
+  // 识别置信度（0-1）及产生该结果的识别策略
+  confidence?: number;
+  strategy?: string;
+  // 按评分排序的前 N 个 TMDB 候选结果
+  candidates?: MediaCandidate[];
   // 包含从TMDB获取的原始数据，以备将来使用
   rawData: any;
 }
 
+/**
+ * 目录提示文件（.amh.json）内容
+ */
+export interface FolderHint {
+  tmdbId?: number;         // 固定 TMDB ID，跳过 LLM 解析和 TMDB 搜索
+  type?: "tv" | "movie";   // 固定 TMDB ID 时必填
+  seasonOffset?: number;   // 季号偏移，加到从文件名提取的季号上
+  episodeOffset?: number;  // 集号偏移，加到从文件名提取的集号上
+  ignore?: boolean;        // 忽略该目录下的所有文件
+}
+
+/**
+ * 已应用的提示（附带提示文件路径）
+ */
+export interface AppliedFolderHint extends FolderHint {
+  path: string;
+}
+
 /**
  * 媒体识别器（策略）接口
  */
@@ -48,6 +106,26 @@ export interface IMediaIdentifier {
   ): Promise<IdentifiedMedia | null>;
 }
 
+/**
+ * 随视频文件一起链接的字幕
+ */
+export interface SubtitleDetails {
+  sourcePath: string;
+  linkPath: string;
+  language: string | null; // 规范化的语言标记，无法识别时为 null
+  languageSource: SubtitleLanguageSource | null; // 语言标记的来源，无法识别时为 null
+}
+
+/**
+ * 字幕语言的来源：文件名后缀、字幕内容或手动指定
+ */
+export type SubtitleLanguageSource = 'suffix' | 'content' | 'manual';
+
+/**
+ * 附加内容类型，即作品目录下存放附加内容的子目录名（Jellyfin/Plex/Emby 通用）
+ */
+export type ExtraType = 'extras' | 'trailers' | 'featurettes';
+
 /**
  * 文件物理信息
  */
@@ -58,6 +136,11 @@ export interface FileDetails {
   fileHash: string;
   deviceId: bigint;
   inode: bigint;
+  routingRule?: string | null; // 匹配的路由规则名称
+  linkMode?: LinkMode | null; // 实际使用的链接方式
+  subtitles?: SubtitleDetails[]; // 已创建硬链接的字幕，未设置时不修改数据库中的字幕记录
+  mediaInfo?: MediaProbeResult | null; // 从容器头部读取的媒体信息，未设置时不修改数据库中的媒体信息
+  extraType?: ExtraType | null; // 附加内容类型，正片为空
 }
 
 /**
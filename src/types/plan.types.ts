@@ -0,0 +1,113 @@
+import type { LinkMode } from '@/config/config';
+import type { ExistingVersion } from '@/core/fileManage/qualityUpgrade';
+import type { ReleaseQuality } from '@/core/fileManage/quality';
+import { AppliedFolderHint, ExtraType, IdentifiedMedia, SubtitleLanguageSource } from '@/types/media.types';
+import { SpecialFolderProcessResult } from '@/types/specialFolder.types';
+
+/**
+ * 预演计划中源文件的状态
+ */
+export type PlanEntryStatus =
+  | 'ready'          // 可以执行
+  | 'conflict'       // 目标路径等存在冲突，执行时跳过
+  | 'needs_review'   // 识别结果不确定，正式处理时需要人工确认
+  | 'duplicate'      // 与已处理的版本重复或质量不高于已有版本，执行时跳过
+  | 'unidentified'   // 无法识别
+  | 'ignored'        // 被提示文件忽略
+  | 'error';         // 预演失败
+
+/**
+ * 计划链接的字幕
+ */
+export interface PlannedSubtitle {
+  sourcePath: string;
+  linkPath: string;
+  language: string | null;
+  languageSource: SubtitleLanguageSource | null;
+  flags: string[];
+}
+
+/**
+ * 计划创建的单个链接（普通视频文件或特殊文件夹的一个卷）
+ */
+export interface PlannedLink {
+  kind: 'file' | 'folder';
+  sourcePath: string;
+  linkPath: string;
+  // 普通视频文件的 NFO 路径，特殊文件夹为 null
+  nfoPath: string | null;
+  routingRule: string | null;
+  subtitles: PlannedSubtitle[];
+  // 时长校验判定为附加内容时的类型，链接到作品目录的子目录，不创建 NFO
+  extraType?: ExtraType;
+  // 特殊文件夹的识别和刮削结果，执行时直接使用
+  folder?: Omit<SpecialFolderProcessResult, 'linkMode'>;
+  // 质量更高时替换的已有版本，执行前已有版本发生变化时视为冲突
+  upgrade?: { versions: ExistingVersion[]; quality: ReleaseQuality };
+}
+
+/**
+ * 单个任务的预演结果（只识别和计算路径，不创建链接、NFO、图片和数据库记录）
+ */
+export interface PlannedTask {
+  sourcePath: string;
+  isDirectory: boolean;
+  status: Exclude<PlanEntryStatus, 'conflict'>;
+  message: string | null;
+  media: IdentifiedMedia | null;
+  identification?: {
+    strategy: string;
+    confidence: number;
+  };
+  hint?: AppliedFolderHint;
+  links: PlannedLink[];
+}
+
+/**
+ * 预演计划条目，每个源文件或特殊文件夹一条
+ */
+export interface PlanEntry {
+  id: number;
+  sourcePath: string;
+  isDirectory: boolean;
+  status: PlanEntryStatus;
+  message: string | null;
+  // 识别到的 TMDB 条目
+  media: {
+    type: IdentifiedMedia['type'];
+    tmdbId: number;
+    title: string;
+    year: number | null;
+    seasonNumber?: number;
+    episodeNumber?: number;
+    episodeNumberEnd?: number;
+  } | null;
+  strategy: string | null;
+  confidence: number | null;
+  // replaces 为质量升级时被替换的已有版本的源文件路径
+  links: Array<Omit<PlannedLink, 'folder' | 'upgrade'> & { linkModes: LinkMode[]; replaces: string[] }>;
+  conflicts: string[];
+  // 执行结果，未执行时为 null
+  applied: { success: boolean; fileId?: number; error?: string } | null;
+}
+
+/**
+ * 预演计划
+ */
+export interface ExecutionPlan {
+  id: string;
+  createdAt: string;
+  duration: number;
+  entries: PlanEntry[];
+  errors: string[];
+  appliedAt: string | null;
+}
+
+/**
+ * 预演计划执行结果
+ */
+export interface PlanApplyResult {
+  applied: number;
+  failed: number;
+  skipped: number;
+}
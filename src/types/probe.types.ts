@@ -0,0 +1,63 @@
+/**
+ * 媒体容器格式
+ */
+export type MediaContainer = 'matroska' | 'mp4';
+
+/**
+ * 轨道类型
+ */
+export type MediaTrackType = 'video' | 'audio' | 'subtitle';
+
+/**
+ * 容器中的单个轨道
+ */
+export interface MediaTrack {
+  type: MediaTrackType;
+  codec: string | null; // 规范化的编码名称，如 hevc、truehd、subrip，无法识别时为容器中的原始标识
+  language: string | null; // 容器中的语言标记，如 jpn、zh-Hans，未指定时为 null
+  name: string | null; // 轨道名称
+  default: boolean;
+  forced: boolean;
+  // 视频轨道
+  width?: number;
+  height?: number;
+  hdr?: string | null; // 如 HDR10、HLG、DV HDR10
+  // 音频轨道
+  channels?: number;
+  sampleRate?: number;
+}
+
+/**
+ * 章节
+ */
+export interface MediaChapter {
+  start: number; // 开始时间（秒）
+  title: string | null;
+}
+
+/**
+ * 内嵌附件（MKV 的字体等，MP4 的封面）
+ */
+export interface MediaAttachment {
+  name: string;
+  mimeType: string | null;
+  size: number; // 字节
+}
+
+/**
+ * 从容器头部读取的媒体信息
+ */
+export interface MediaProbeResult {
+  container: MediaContainer;
+  duration: number | null; // 时长（秒）
+  width: number | null; // 主视频轨道的分辨率
+  height: number | null;
+  tracks: MediaTrack[];
+  chapters: MediaChapter[];
+  attachments: MediaAttachment[];
+}
+
+/**
+ * 文件记录中以 JSON 保存的轨道、章节和附件
+ */
+export type StoredMediaInfo = Pick<MediaProbeResult, 'tracks' | 'chapters' | 'attachments'>;
@@ -1,4 +1,5 @@
 import { TaskStatus, Queue } from '@/generated/client';
+import { AbsoluteEpisodeMapping, AppliedFolderHint, MediaCandidate } from '@/types/media.types';
 
 /**
  * 刮削任务数据
@@ -19,6 +20,30 @@ export interface QueueTask extends ScrapingTaskData {
   status?: TaskStatus;
   createdAt?: Date;
   updatedAt?: Date;
+  reviewSelection?: string | null; // 人工确认的候选结果（JSON格式）
+}
+
+/**
+ * 人工确认时选择的媒体
+ */
+export interface ReviewSelection {
+  type: 'tv' | 'movie';
+  tmdbId: number;
+  seasonNumber?: number;   // 覆盖从文件名提取的季号
+  episodeNumber?: number;  // 覆盖从文件名提取的集号
+}
+
+/**
+ * 待人工确认的任务
+ */
+export interface ReviewTask {
+  id: number;
+  filePath: string;
+  fileName: string;
+  reason: string | null;
+  candidates: MediaCandidate[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
@@ -32,6 +57,18 @@ export interface TaskResult {
   processingTime?: number;
   isNonRetryable?: boolean;
   isTimeout?: boolean;
+  identification?: {
+    strategy: string;
+    confidence: number;
+    episodeMapping?: AbsoluteEpisodeMapping; // 由绝对集数映射得到的季号和集号
+  };
+  needsReview?: boolean;         // 识别结果不确定，需要人工确认
+  reviewReason?: string;
+  candidates?: MediaCandidate[];
+  hint?: AppliedFolderHint;      // 已应用的提示文件
+  duplicateOf?: number;          // 重复文件跳过时，已有版本的文件记录ID
+  skipReason?: string;
+  supersededFileIds?: number[];  // 质量升级时被替换的文件记录ID
   metadata?: {
     totalCount?: number;
     successCount?: number;
@@ -65,6 +102,7 @@ export interface QueueStats {
   completed: number;
   failed: number;
   canceled: number;
+  needsReview: number;
   total: number;
   averageProcessingTime?: number;
 }
@@ -103,4 +141,6 @@ export interface IQueueManager {
   retryAllFailedTasks(): Promise<number>;
   cancelTask(taskId: number): Promise<boolean>;
   clearFailedTasks(): Promise<number>;
+  getReviewTasks(limit?: number, offset?: number): Promise<{ items: ReviewTask[]; total: number }>;
+  resolveReview(taskId: number, selection: ReviewSelection): Promise<boolean>;
 }
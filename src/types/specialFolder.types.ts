@@ -1,3 +1,5 @@
+import type { LinkMode } from '@/config/config';
+
 /**
  * 特殊文件夹类型枚举
  */
@@ -47,6 +49,8 @@ export interface SpecialFolderProcessResult {
   folderInfo: SpecialFolder;
   linkPath: string;
   mediaInfo: MediaInfo;
+  routingRule: string | null; // 命中的路由规则名称
+  linkMode: LinkMode | null; // 实际使用的链接方式
 }
 
 /**
@@ -62,4 +66,6 @@ export interface FolderDetails {
   folderType: string;
   isMultiDisc: boolean;
   discNumber: number | null;
+  routingRule?: string | null; // 匹配的路由规则名称
+  linkMode?: LinkMode | null; // 实际使用的链接方式
 }
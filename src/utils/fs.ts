@@ -0,0 +1,20 @@
+import fs from 'fs';
+
+/**
+ * 获取路径的状态，不跟随符号链接
+ * @returns 路径不存在时返回 null
+ */
+export async function getStats(targetPath: string): Promise<fs.Stats | null> {
+  try {
+    return await fs.promises.lstat(targetPath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 判断路径是否存在，失效的符号链接也视为存在
+ */
+export async function pathExists(targetPath: string): Promise<boolean> {
+  return (await getStats(targetPath)) !== null;
+}
@@ -1,20 +1,152 @@
 import fs from "fs";
 import path from "path";
 import { logger } from "./logger";
+import { calculateFullFileHash } from "./hash";
 import { BusinessError, ErrorType } from "@/core/errors";
+import type { LinkMode } from "@/config/config";
+import { journalDeletion, journalLink, journalMkdir } from "@/core/fileManage/operationJournal";
 
 /**
- * 创建从源路径到目标路径的硬链接。
+ * 链接方式的名称，用于日志和错误信息
+ */
+export const LINK_MODE_LABELS: Record<LinkMode, string> = {
+  hardlink: "硬链接",
+  symlink: "符号链接",
+  reflink: "写时复制克隆",
+  copy: "复制",
+};
+
+/**
+ * 源文件不存在或目标已存在时不再尝试其他链接方式
+ */
+const NO_FALLBACK_ERRORS = ["ENOENT", "EEXIST"];
+
+/**
+ * 使用指定方式创建单个文件的链接
+ * 复制完成后校验完整文件的哈希，不一致时删除副本并抛出错误
+ */
+async function linkFileWithMode(sourcePath: string, targetPath: string, mode: LinkMode): Promise<void> {
+  switch (mode) {
+    case "hardlink":
+      await fs.promises.link(sourcePath, targetPath);
+      return;
+    case "symlink":
+      // 使用绝对路径，链接移动后仍然有效
+      await fs.promises.symlink(path.resolve(sourcePath), targetPath);
+      return;
+    case "reflink":
+      await fs.promises.copyFile(
+        sourcePath,
+        targetPath,
+        fs.constants.COPYFILE_EXCL | fs.constants.COPYFILE_FICLONE_FORCE
+      );
+      return;
+    case "copy": {
+      await fs.promises.copyFile(sourcePath, targetPath, fs.constants.COPYFILE_EXCL);
+      try {
+        const [sourceHash, targetHash] = await Promise.all([
+          calculateFullFileHash(sourcePath),
+          calculateFullFileHash(targetPath),
+        ]);
+        if (sourceHash !== targetHash) {
+          throw new Error(`复制后的文件哈希不一致 (${sourceHash} != ${targetHash})`);
+        }
+      } catch (error) {
+        await fs.promises.rm(targetPath, { force: true });
+        throw error;
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * 按顺序尝试链接方式，前一种失败时使用下一种
+ * @returns 实际使用的链接方式
+ * @throws 所有方式都失败时抛出最后一个错误
+ */
+async function linkFileWithFallback(
+  sourcePath: string,
+  targetPath: string,
+  modes: LinkMode[]
+): Promise<LinkMode> {
+  let lastError: any = null;
+  for (const [index, mode] of modes.entries()) {
+    try {
+      await linkFileWithMode(sourcePath, targetPath, mode);
+      return mode;
+    } catch (error: any) {
+      lastError = error;
+      const nextMode = modes[index + 1];
+      if (!nextMode || NO_FALLBACK_ERRORS.includes(error.code)) {
+        break;
+      }
+      logger.warn(
+        `${LINK_MODE_LABELS[mode]}失败 (${error.code ?? error.message})，改用${LINK_MODE_LABELS[nextMode]}: ${targetPath}`
+      );
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * 判断已存在的链接使用的链接方式
+ * 与源文件为同一 inode 时为硬链接，无法区分写时复制克隆和复制，均视为复制
+ * @param sourcePath 源文件路径
+ * @param linkPath 链接路径
+ */
+export async function detectLinkMode(sourcePath: string, linkPath: string): Promise<LinkMode> {
+  const linkStats = await fs.promises.lstat(linkPath);
+  if (linkStats.isSymbolicLink()) {
+    return "symlink";
+  }
+  const sourceStats = await fs.promises.stat(sourcePath);
+  return sourceStats.dev === linkStats.dev && sourceStats.ino === linkStats.ino ? "hardlink" : "copy";
+}
+
+/**
+ * 判断已存在的目标是否为源文件的链接
+ * 符号链接指向源文件或与源文件为同一 inode 时为链接；允许复制和写时复制克隆时，大小和完整哈希相同的文件视为副本
+ * @returns 已有链接的方式，不是源文件的链接时返回 null
+ */
+async function detectExistingLink(sourcePath: string, targetPath: string, modes: LinkMode[]): Promise<LinkMode | null> {
+  const targetStats = await fs.promises.lstat(targetPath);
+  if (targetStats.isSymbolicLink()) {
+    const linkTarget = path.resolve(path.dirname(targetPath), await fs.promises.readlink(targetPath));
+    return linkTarget === path.resolve(sourcePath) ? "symlink" : null;
+  }
+
+  const sourceStats = await fs.promises.stat(sourcePath);
+  if (sourceStats.dev === targetStats.dev && sourceStats.ino === targetStats.ino) {
+    return "hardlink";
+  }
+  if (!modes.includes("copy") && !modes.includes("reflink")) {
+    return null;
+  }
+  if (!targetStats.isFile() || targetStats.size !== sourceStats.size) {
+    return null;
+  }
+  const [sourceHash, targetHash] = await Promise.all([
+    calculateFullFileHash(sourcePath),
+    calculateFullFileHash(targetPath),
+  ]);
+  return sourceHash === targetHash ? "copy" : null;
+}
+
+/**
+ * 创建从源路径到目标路径的链接，默认使用硬链接。
  * 包含详细的错误处理和前置检查。
  * @param sourcePath - 源文件路径
  * @param targetPath - 目标文件路径
- * @returns Promise<void>
- * @throws 如果源文件不存在、目标目录无法访问或链接创建失败，则抛出错误。
+ * @param modes - 链接方式，按顺序尝试
+ * @returns 实际使用的链接方式，目标已经是源文件的链接时返回已有链接的方式
+ * @throws 如果源文件不存在、目标已存在但不是源文件的链接、目标目录无法访问或所有链接方式都失败，则抛出错误。
  */
 export async function createHardlink(
   sourcePath: string,
-  targetPath: string
-): Promise<void> {
+  targetPath: string,
+  modes: LinkMode[] = ["hardlink"]
+): Promise<LinkMode> {
   try {
     // 1. 检查源文件是否存在
     await fs.promises.access(sourcePath, fs.constants.F_OK);
@@ -23,34 +155,47 @@ export async function createHardlink(
     const targetDir = path.dirname(targetPath);
     if (!fs.existsSync(targetDir)) {
       await fs.promises.mkdir(targetDir, { recursive: true });
+      await journalMkdir(targetDir);
       logger.info(`创建目标目录: ${targetDir}`);
     }
 
     // 3. 检查目标文件是否已存在
-    try {
-      await fs.promises.access(targetPath, fs.constants.F_OK);
-      logger.warn(`目标文件已存在，跳过创建硬链接: ${targetPath}`);
-      return; // 文件已存在，直接返回
-    } catch {
-      // 文件不存在，这是预期的，可以继续
+    const exists = await fs.promises.access(targetPath, fs.constants.F_OK).then(() => true, () => false);
+    if (exists) {
+      const existingMode = await detectExistingLink(sourcePath, targetPath, modes);
+      if (!existingMode) {
+        // 目标是其他文件时不能记录为链接，按目标已存在处理
+        throw Object.assign(new Error(`目标文件已存在: ${targetPath}`), { code: "EEXIST" });
+      }
+      logger.warn(`目标文件已存在，跳过创建链接: ${targetPath}`);
+      return existingMode; // 已经是源文件的链接，直接返回已有链接的方式
     }
 
-    // 4. 创建硬链接
-    await fs.promises.link(sourcePath, targetPath);
-    logger.info(`成功创建硬链接: ${sourcePath} -> ${targetPath}`);
+    // 4. 按顺序尝试链接方式
+    const mode = await linkFileWithFallback(sourcePath, targetPath, modes);
+    await journalLink(sourcePath, targetPath, mode);
+    logger.info(`成功创建${LINK_MODE_LABELS[mode]}: ${sourcePath} -> ${targetPath}`);
+    return mode;
   } catch (error: any) {
-    let errorMessage = `创建硬链接失败: 从 "${sourcePath}" 到 "${targetPath}".`;
+    let errorMessage = `创建链接失败: 从 "${sourcePath}" 到 "${targetPath}".`;
     switch (error.code) {
       case "ENOENT":
         errorMessage += " 原因: 源文件或路径不存在。";
         break;
       case "EEXIST":
-        errorMessage += " 原因: 目标文件已存在（在并发情况下可能发生）。";
+        errorMessage += " 原因: 目标文件已存在且不是源文件的链接。";
         break;
       case "EPERM":
       case "EACCES":
         errorMessage += " 原因: 权限不足。";
         break;
+      case "EXDEV":
+        errorMessage += " 原因: 源文件与目标目录不在同一文件系统，无法创建硬链接，可通过 linkModes 配置其他链接方式。";
+        break;
+      case "ENOTSUP":
+      case "EOPNOTSUPP":
+        errorMessage += " 原因: 文件系统不支持该链接方式。";
+        break;
       default:
         errorMessage += ` 原因: 未知错误 (${error.message})`;
     }
@@ -59,20 +204,73 @@ export async function createHardlink(
   }
 }
 
+/**
+ * 用新链接替换已有的文件：先在同一目录创建临时链接，成功后重命名覆盖原文件，创建失败时原文件保持不变
+ * 原文件的删除和新链接的创建都记录到操作日志，撤销时恢复原文件。目标不存在时直接创建
+ * @param sourcePath - 源文件路径
+ * @param targetPath - 目标文件路径
+ * @param modes - 链接方式，按顺序尝试
+ * @param previousSourcePath - 原文件对应的源文件路径，撤销时从该路径恢复
+ * @param previousMode - 原文件的链接方式
+ * @returns 实际使用的链接方式
+ * @throws 如果所有链接方式都失败或无法覆盖原文件，则抛出错误。
+ */
+export async function replaceHardlink(
+  sourcePath: string,
+  targetPath: string,
+  modes: LinkMode[] = ["hardlink"],
+  previousSourcePath: string | null = null,
+  previousMode: LinkMode | null = null
+): Promise<LinkMode> {
+  const exists = await fs.promises.lstat(targetPath).then(() => true, () => false);
+  if (!exists) {
+    return createHardlink(sourcePath, targetPath, modes);
+  }
+
+  const tempPath = path.join(path.dirname(targetPath), `.${path.basename(targetPath)}.${process.pid}.tmp`);
+  await fs.promises.rm(tempPath, { force: true });
+  let mode: LinkMode;
+  try {
+    mode = await linkFileWithFallback(sourcePath, tempPath, modes);
+  } catch (error: any) {
+    const errorMessage = `创建链接失败，保留原文件: 从 "${sourcePath}" 到 "${targetPath}" (${error.code ?? error.message})`;
+    logger.error(errorMessage, error);
+    throw new Error(errorMessage);
+  }
+
+  try {
+    await journalDeletion(targetPath, () => fs.promises.rename(tempPath, targetPath), previousSourcePath, previousMode);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+  await journalLink(sourcePath, targetPath, mode);
+  logger.info(`成功替换为${LINK_MODE_LABELS[mode]}: ${sourcePath} -> ${targetPath}`);
+  return mode;
+}
+
 /**
  * 递归创建文件夹硬链接
- * 将源文件夹下的所有文件和子文件夹结构完整复制到目标位置（通过硬链接）
+ * 将源文件夹下的所有文件和子文件夹结构完整复制到目标位置（通过硬链接或配置的其他链接方式）
  * @param sourcePath - 源文件夹路径
  * @param targetPath - 目标文件夹路径
- * @returns Promise<void>
+ * @param modes - 链接方式，按顺序尝试
+ * @returns 实际使用的链接方式，多个文件使用不同方式时返回顺序最靠后的一个，没有创建任何链接时返回 null
  * @throws 如果递归创建硬链接失败，则抛出错误
  */
 export async function createHardlinkRecursively(
   sourcePath: string,
-  targetPath: string
-): Promise<void> {
+  targetPath: string,
+  modes: LinkMode[] = ["hardlink"]
+): Promise<LinkMode | null> {
   try {
     const entries = await fs.promises.readdir(sourcePath, { withFileTypes: true });
+    let usedMode: LinkMode | null = null;
+    const useMode = (mode: LinkMode | null) => {
+      if (mode && (!usedMode || modes.indexOf(mode) > modes.indexOf(usedMode))) {
+        usedMode = mode;
+      }
+    };
     
     for (const entry of entries) {
       const sourceItemPath = path.join(sourcePath, entry.name);
@@ -80,24 +278,29 @@ export async function createHardlinkRecursively(
       
       if (entry.isDirectory()) {
         // 创建目标子文件夹
-        await fs.promises.mkdir(targetItemPath, { recursive: true });
+        if (await fs.promises.mkdir(targetItemPath, { recursive: true })) {
+          await journalMkdir(targetItemPath);
+        }
         
         // 递归处理子文件夹
-        await createHardlinkRecursively(sourceItemPath, targetItemPath);
+        useMode(await createHardlinkRecursively(sourceItemPath, targetItemPath, modes));
       } else {
-        // 创建文件硬链接
+        // 创建文件链接
         try {
-          await fs.promises.link(sourceItemPath, targetItemPath);
-          logger.debug(`创建硬链接: ${sourceItemPath} -> ${targetItemPath}`);
+          const mode = await linkFileWithFallback(sourceItemPath, targetItemPath, modes);
+          await journalLink(sourceItemPath, targetItemPath, mode);
+          useMode(mode);
+          logger.debug(`创建${LINK_MODE_LABELS[mode]}: ${sourceItemPath} -> ${targetItemPath}`);
         } catch (error: any) {
           if (error.code === 'EEXIST') {
             logger.debug(`文件已存在，跳过: ${targetItemPath}`);
           } else {
-            logger.error(`创建硬链接失败: ${sourceItemPath} -> ${targetItemPath} - ${error instanceof Error ? error.message : String(error)}`);
+            logger.error(`创建链接失败: ${sourceItemPath} -> ${targetItemPath} - ${error instanceof Error ? error.message : String(error)}`);
           }
         }
       }
     }
+    return usedMode;
   } catch (error) {
     logger.error(`递归创建硬链接失败: ${sourcePath}`, error);
     throw error;
@@ -105,35 +308,42 @@ export async function createHardlinkRecursively(
 }
 
 /**
- * 删除指定路径的文件或目录。
+ * 删除指定路径的链接文件或目录。
+ * 符号链接只删除链接本身，不会删除或跟随到源文件；复制和写时复制克隆的副本直接删除。
  * 如果是视频文件，会同时检查并删除对应的 NFO 文件。
  * @param filePath - 要删除的文件或目录路径
+ * @param mode - 创建时使用的链接方式，未记录时视为硬链接
+ * @param sourcePath - 链接对应的源文件路径，记录到操作日志，撤销时用于恢复链接
  * @returns Promise<void>
  * @throws 如果删除失败（权限问题等），则抛出错误。
  */
-export async function deleteHardlink(filePath: string): Promise<void> {
+export async function deleteHardlink(
+  filePath: string,
+  mode: LinkMode | null = null,
+  sourcePath: string | null = null
+): Promise<void> {
   try {
-    // 1. 检查文件/目录是否存在
-    await fs.promises.access(filePath, fs.constants.F_OK);
-
-    // 2. 获取文件/目录状态
-    const stats = await fs.promises.stat(filePath);
+    // 1. 获取文件/目录状态，不跟随符号链接（失效的符号链接也能删除）
+    const stats = await fs.promises.lstat(filePath);
+    if (mode === "symlink" && !stats.isSymbolicLink() && !stats.isDirectory()) {
+      logger.warn(`记录为符号链接，但目标不是符号链接: ${filePath}`);
+    }
 
-    // 3. 根据类型删除
+    // 2. 根据类型删除
     if (stats.isDirectory()) {
       // 递归删除目录
-      await fs.promises.rm(filePath, { recursive: true, force: true });
+      await journalDeletion(filePath, () => fs.promises.rm(filePath, { recursive: true, force: true }), sourcePath, mode);
       logger.info(`成功删除目录: ${filePath}`);
     } else {
-      // 删除文件
-      await fs.promises.unlink(filePath);
-      logger.info(`成功删除文件: ${filePath}`);
+      // 删除文件或符号链接本身
+      await journalDeletion(filePath, () => fs.promises.unlink(filePath), sourcePath, mode);
+      logger.info(`成功删除${stats.isSymbolicLink() ? "符号链接" : LINK_MODE_LABELS[mode ?? "hardlink"]}: ${filePath}`);
       
-      // 4. 检查并删除对应的 NFO 文件
+      // 3. 检查并删除对应的 NFO 文件
       const nfoPath = filePath.replace(/\.[^.]+$/, '.nfo');
       try {
         await fs.promises.access(nfoPath, fs.constants.F_OK);
-        await fs.promises.unlink(nfoPath);
+        await journalDeletion(nfoPath, () => fs.promises.unlink(nfoPath));
         logger.info(`成功删除对应的 NFO 文件: ${nfoPath}`);
       } catch (error: any) {
         if (error.code !== 'ENOENT') {
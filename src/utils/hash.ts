@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import fs from 'fs/promises';
+import { createReadStream } from 'fs';
 
 /**
  * 生成文件/文件夹路径的 MD5 哈希值
@@ -89,3 +90,17 @@ export async function calculateFileHash(
     await fileHandle?.close();
   }
 }
+
+/**
+ * 计算完整文件内容的 MD5 哈希值
+ * 逐块读取整个文件，用于复制后校验文件内容
+ * @param filePath 文件路径
+ * @returns 文件内容的 MD5 哈希值
+ */
+export async function calculateFullFileHash(filePath: string): Promise<string> {
+  const hashSum = crypto.createHash("md5");
+  for await (const chunk of createReadStream(filePath)) {
+    hashSum.update(chunk);
+  }
+  return hashSum.digest("hex");
+}
@@ -123,6 +123,22 @@ export function getMediaReleaseDate(
   return null;
 }
 
+/**
+ * 获取媒体文件包含的所有集号，多集文件返回范围内的每一集
+ */
+export function getEpisodeNumbers(media: {
+  episodeNumber?: number;
+  episodeNumberEnd?: number;
+}): number[] {
+  const { episodeNumber, episodeNumberEnd } = media;
+  if (!episodeNumber) return [];
+  const lastEpisode = Math.max(episodeNumber, episodeNumberEnd ?? episodeNumber);
+  return Array.from(
+    { length: lastEpisode - episodeNumber + 1 },
+    (_, index) => episodeNumber + index
+  );
+}
+
 /**
  * 辅助函数，将日期字符串转换为有效的日期时间格式
  * @param dateStr 日期字符串
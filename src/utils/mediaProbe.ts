@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import { logger } from '@/utils/logger';
+import { MediaProbeResult, StoredMediaInfo } from '@/types/probe.types';
+import { ProbeReader } from '@/utils/probe/reader';
+import { isMatroska, probeMatroska } from '@/utils/probe/matroska';
+import { isMp4, probeMp4 } from '@/utils/probe/mp4';
+
+/**
+ * 读取 MKV/MP4 容器头部，获取时长、分辨率、编码、音轨和字幕语言、章节和附件，不依赖外部程序
+ * @param filePath 视频文件路径
+ * @returns 媒体信息，不支持的格式或读取失败时返回 null
+ */
+export async function probeMediaFile(filePath: string): Promise<MediaProbeResult | null> {
+  let fileHandle;
+  try {
+    fileHandle = await fs.open(filePath, 'r');
+    const { size } = await fileHandle.stat();
+    const reader = new ProbeReader(fileHandle, size);
+    const head = await reader.read(0, 12);
+
+    // 按文件头识别格式，不依赖扩展名
+    if (isMatroska(head)) {
+      return await probeMatroska(reader);
+    }
+    if (isMp4(head)) {
+      return await probeMp4(reader);
+    }
+    return null;
+  } catch (error) {
+    logger.warn(`读取媒体信息失败: ${filePath}，${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  } finally {
+    await fileHandle?.close();
+  }
+}
+
+/**
+ * 将媒体信息转换为文件记录的字段，轨道、章节和附件以 JSON 保存
+ * @param result 媒体信息，为 null 时清空字段并记录读取时间，避免重复读取
+ */
+export function toMediaInfoColumns(result: MediaProbeResult | null) {
+  const stored: StoredMediaInfo | null = result
+    ? { tracks: result.tracks, chapters: result.chapters, attachments: result.attachments }
+    : null;
+  return {
+    container: result?.container ?? null,
+    duration: result?.duration ?? null,
+    width: result?.width ?? null,
+    height: result?.height ?? null,
+    mediaInfo: stored ? JSON.stringify(stored) : null,
+    probedAt: new Date(),
+  };
+}
@@ -2,7 +2,11 @@ import { XMLBuilder } from "fast-xml-parser";
 import fs from "fs";
 import path from "path";
 import { logger } from "@/utils/logger";
+import { Episode } from "moviedb-promise";
 import { IdentifiedMedia } from "@/types/media.types";
+import { getEpisodeNumbers } from "@/utils/media";
+import { journalNfo } from "@/core/fileManage/operationJournal";
+import { MediaProbeResult } from "@/types/probe.types";
 
 // 适配 fast-xml-parser 的带属性节点
 // 例如: <uniqueid type="imdb" default="true">tt123456</uniqueid>
@@ -26,6 +30,35 @@ export interface Actor {
   sortorder?: number; // 排序
 }
 
+// 媒体流信息，对应 <fileinfo><streamdetails>
+export interface VideoStreamNfo {
+  codec?: string;
+  aspect?: number; // 宽高比，如 1.78
+  width?: number;
+  height?: number;
+  durationinseconds?: number;
+  language?: string;
+  hdrtype?: "hdr10" | "hlg" | "dolbyvision";
+}
+
+export interface AudioStreamNfo {
+  codec?: string;
+  language?: string;
+  channels?: number;
+}
+
+export interface SubtitleStreamNfo {
+  language?: string;
+}
+
+export interface FileInfoNfo {
+  streamdetails: {
+    video?: VideoStreamNfo[];
+    audio?: AudioStreamNfo[];
+    subtitle?: SubtitleStreamNfo[];
+  };
+}
+
 // 电影
 export interface MovieNfo {
   title: string;
@@ -69,6 +102,8 @@ export interface MovieNfo {
   poster?: string;
   thumb?: string;
   fanart?: string;
+
+  fileinfo?: FileInfoNfo; // 媒体流信息
 }
 
 // 电视剧
@@ -132,6 +167,8 @@ export interface EpisodeNfo {
   thumb?: string; // 单集缩略图
 
   lockdata?: boolean;
+
+  fileinfo?: FileInfoNfo; // 媒体流信息，多集文件的每一集相同
 }
 
 /**
@@ -141,6 +178,11 @@ export interface EpisodeNfo {
  */
 export type NfoRootName = "movie" | "tvshow" | "episodedetails";
 
+/**
+ * NFO 数据，多集文件为多个单集数据，按顺序输出多个 <episodedetails> 节点
+ */
+export type NfoData = MovieNfo | TvShowNfo | EpisodeNfo | EpisodeNfo[];
+
 /**
  * 转义 plot 文本中的换行符为 \n
  * @param text - 原始文本
@@ -153,7 +195,7 @@ const escapePlotText = (text: string | null | undefined): string | undefined =>
 
 export const buildNfo = (
   rootName: NfoRootName,
-  data: MovieNfo | TvShowNfo | EpisodeNfo
+  data: NfoData
 ): string => {
   const builder = new XMLBuilder({
     ignoreAttributes: false, // 开启属性支持
@@ -162,19 +204,66 @@ export const buildNfo = (
     suppressBooleanAttributes: false, // 不省略布尔属性值
     attributeNamePrefix: "@_", // 匹配我们在接口中定义的 key
   });
-  // Jellyfin NFO 标准头部
+  // Jellyfin NFO 标准头部，数组数据会生成多个同名根节点（Jellyfin/Kodi 的多集格式）
   const xmlContent = builder.build({ [rootName]: data });
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${xmlContent}`;
 };
 
+/**
+ * 将 HDR 格式描述转换为 Kodi 的 hdrtype，杜比视界优先
+ */
+const toHdrType = (hdr: string | null | undefined): VideoStreamNfo["hdrtype"] => {
+  if (!hdr) return undefined;
+  if (hdr.includes("DV")) return "dolbyvision";
+  if (hdr.includes("HDR10")) return "hdr10";
+  if (hdr.includes("HLG")) return "hlg";
+  return undefined;
+};
+
+/**
+ * 将容器中读取的媒体信息转换为 <fileinfo> 节点
+ * @param mediaInfo - 媒体信息
+ * @returns 没有任何轨道时返回 undefined
+ */
+export const convertStreamDetails = (
+  mediaInfo: MediaProbeResult | null | undefined
+): FileInfoNfo | undefined => {
+  if (!mediaInfo || mediaInfo.tracks.length === 0) return undefined;
+
+  const tracksOf = (type: string) => mediaInfo.tracks.filter((track) => track.type === type);
+  return {
+    streamdetails: {
+      video: tracksOf("video").map((track) => ({
+        codec: track.codec ?? undefined,
+        aspect: track.width && track.height ? Math.round((track.width / track.height) * 100) / 100 : undefined,
+        width: track.width,
+        height: track.height,
+        durationinseconds: mediaInfo.duration ? Math.round(mediaInfo.duration) : undefined,
+        language: track.language ?? undefined,
+        hdrtype: toHdrType(track.hdr),
+      })),
+      audio: tracksOf("audio").map((track) => ({
+        codec: track.codec ?? undefined,
+        language: track.language ?? undefined,
+        channels: track.channels,
+      })),
+      subtitle: tracksOf("subtitle").map((track) => ({
+        language: track.language ?? undefined,
+      })),
+    },
+  };
+};
+
 /**
  * 将 IdentifiedMedia 转换为对应的 NFO 数据类型
  * @param media - 识别到的媒体信息
+ * @param mediaInfo - 从视频文件读取的媒体信息，用于生成 <fileinfo>
  * @returns NFO 数据对象和对应的根节点名称
  */
 export const convertMediaToNfo = (
-  media: IdentifiedMedia
-): { rootName: NfoRootName; data: MovieNfo | TvShowNfo | EpisodeNfo } => {
+  media: IdentifiedMedia,
+  mediaInfo?: MediaProbeResult | null
+): { rootName: NfoRootName; data: NfoData } => {
   // 构建基础的 uniqueid
   const uniqueid: UniqueId[] = [
     {
@@ -201,6 +290,7 @@ export const convertMediaToNfo = (
         year: media.releaseDate?.getFullYear(),
         poster: media.posterPath || undefined,
         fanart: media.backdropPath || undefined,
+        fileinfo: convertStreamDetails(mediaInfo),
       };
       return { rootName: "movie", data: movieNfo };
     }
@@ -216,7 +306,27 @@ export const convertMediaToNfo = (
           plot: escapePlotText(media.episodeDescription || media.description),
           uniqueid,
           aired: media.releaseDate?.toISOString().split('T')[0],
+          fileinfo: convertStreamDetails(mediaInfo),
         };
+
+        // 多集文件为每一集生成一个 <episodedetails>，标题和简介取自季信息
+        if (media.episodeNumberEnd && media.episodeNumberEnd > media.episodeNumber) {
+          const seasonEpisodes: Episode[] = media.rawData?.episodes ?? [];
+          const episodeNfos = getEpisodeNumbers(media).map((episodeNumber): EpisodeNfo => {
+            if (episodeNumber === media.episodeNumber) {
+              return episodeNfo;
+            }
+            const episodeData = seasonEpisodes.find((e) => e.episode_number === episodeNumber);
+            return {
+              ...episodeNfo,
+              title: episodeData?.name || media.title,
+              episode: episodeNumber,
+              plot: escapePlotText(episodeData?.overview || media.description),
+            };
+          });
+          return { rootName: "episodedetails", data: episodeNfos };
+        }
+
         return { rootName: "episodedetails", data: episodeNfo };
       }
 
@@ -232,6 +342,7 @@ export const convertMediaToNfo = (
       // collection 类型或其他未知类型默认作为电影处理
       const movieNfo: MovieNfo = {
         ...baseFields,
+        fileinfo: convertStreamDetails(mediaInfo),
       };
       return { rootName: "movie", data: movieNfo };
     }
@@ -241,23 +352,26 @@ export const convertMediaToNfo = (
 /**
  * 创建并保存 NFO 文件。
  * 
- * 该函数根据提供的数据构建 NFO 内容，并将其异步写入到指定的文件路径。
- * 写入过程中会捕获异常并记录相应的日志信息。
+ * 该函数根据提供的数据构建 NFO 内容，写入到指定的文件路径，并等待操作日志写入完成，
+ * 保证操作日志的顺序与实际操作一致。写入过程中会捕获异常并记录相应的日志信息。
  *
  * @param filePath - NFO 文件保存的完整路径。
  * @param rootName - NFO XML 结构的根节点名称（例如 'movie', 'tvshow' 或 'episodedetails'）。
- * @param data - 要写入 NFO 的数据对象，支持电影、剧集或单集的信息。
+ * @param data - 要写入 NFO 的数据对象，支持电影、剧集、单集或多集的信息。
  * 
  * @throws {Error} 当文件写入操作失败时，错误会被捕获并记录到日志中。
  */
-export const createNfoFile = (
+export const createNfoFile = async (
   filePath: string,
   rootName: NfoRootName,
-  data: MovieNfo | TvShowNfo | EpisodeNfo
-): void => {
+  data: NfoData
+): Promise<void> => {
   const nfoContent = buildNfo(rootName, data);
   try {
+    // 保留被覆盖的内容，撤销时恢复
+    const previousContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : null;
     fs.writeFileSync(filePath, nfoContent, "utf-8");
+    await journalNfo(filePath, previousContent);
     logger.info(`创建 NFO 文件成功: ${filePath}`);
   } catch (error) {
     logger.error("创建 NFO 文件失败:", error);
@@ -268,16 +382,18 @@ export const createNfoFile = (
  * 从 IdentifiedMedia 直接创建 NFO 文件
  * @param filePath - NFO 文件保存路径（支持相对路径和绝对路径）
  * @param media - 识别到的媒体信息
+ * @param mediaInfo - 从视频文件读取的媒体信息，用于生成 <fileinfo>
  */
-export const createNfoFromMedia = (
+export const createNfoFromMedia = async (
   filePath: string,
-  media: IdentifiedMedia
-): void => {
+  media: IdentifiedMedia,
+  mediaInfo?: MediaProbeResult | null
+): Promise<void> => {
   // 如果是相对路径，转换为绝对路径
   const absolutePath = path.isAbsolute(filePath) 
     ? filePath 
     : path.resolve(process.cwd(), filePath);
   
-  const { rootName, data } = convertMediaToNfo(media);
-  createNfoFile(absolutePath, rootName, data);
+  const { rootName, data } = convertMediaToNfo(media, mediaInfo);
+  await createNfoFile(absolutePath, rootName, data);
 };
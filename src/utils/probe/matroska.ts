@@ -0,0 +1,462 @@
+/**
+ * @fileoverview Matroska (MKV/WebM) 容器解析
+ * @description 读取 Segment 中的 Info、Tracks、Chapters 和 Attachments，
+ * 位于文件末尾的元素按 SeekHead 定位，不读取 Cluster 中的媒体数据
+ */
+
+import { MediaAttachment, MediaChapter, MediaProbeResult, MediaTrack } from '@/types/probe.types';
+import { formatHdr, normalizeTrackLanguage, ProbeReader } from './reader';
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Name: 0x536e,
+  Language: 0x22b59c,
+  LanguageBCP47: 0x22b59d,
+  FlagDefault: 0x88,
+  FlagForced: 0x55aa,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Colour: 0x55b0,
+  TransferCharacteristics: 0x55ba,
+  BlockAdditionMapping: 0x41e4,
+  BlockAddIDType: 0x41e7,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Chapters: 0x1043a770,
+  EditionEntry: 0x45b9,
+  EditionFlagDefault: 0x45db,
+  ChapterAtom: 0xb6,
+  ChapterTimeStart: 0x91,
+  ChapterFlagHidden: 0x98,
+  ChapterDisplay: 0x80,
+  ChapString: 0x85,
+  Attachments: 0x1941a469,
+  AttachedFile: 0x61a7,
+  FileName: 0x466e,
+  FileMediaType: 0x4660,
+  FileData: 0x465c,
+  Cluster: 0x1f43b675,
+} as const;
+
+// 杜比视界配置的 BlockAddIDType：dvcC、dvvC、dvwC
+const DOLBY_VISION_TYPES = [0x64766343, 0x64767643, 0x64767743];
+
+// 按前缀匹配，未列出的编码保留原始的 CodecID
+const CODECS: Array<[string, string]> = [
+  ['V_MPEGH/ISO/HEVC', 'hevc'],
+  ['V_MPEG4/ISO/AVC', 'h264'],
+  ['V_MPEG4/ISO', 'mpeg4'],
+  ['V_AV1', 'av1'],
+  ['V_VP9', 'vp9'],
+  ['V_VP8', 'vp8'],
+  ['V_MPEG2', 'mpeg2video'],
+  ['V_MPEG1', 'mpeg1video'],
+  ['V_MS/VFW/FOURCC', 'vfw'],
+  ['A_TRUEHD', 'truehd'],
+  ['A_EAC3', 'eac3'],
+  ['A_AC3', 'ac3'],
+  ['A_DTS', 'dts'],
+  ['A_AAC', 'aac'],
+  ['A_FLAC', 'flac'],
+  ['A_OPUS', 'opus'],
+  ['A_VORBIS', 'vorbis'],
+  ['A_MPEG/L3', 'mp3'],
+  ['A_MPEG/L2', 'mp2'],
+  ['A_PCM', 'pcm'],
+  ['S_TEXT/UTF8', 'subrip'],
+  ['S_TEXT/ASS', 'ass'],
+  ['S_TEXT/SSA', 'ssa'],
+  ['S_TEXT/WEBVTT', 'webvtt'],
+  ['S_HDMV/PGS', 'pgssub'],
+  ['S_VOBSUB', 'dvdsub'],
+  ['S_DVBSUB', 'dvbsub'],
+];
+
+// 一次读入的元素大小上限，避免损坏的文件导致读取大量数据
+const MAX_ELEMENT_SIZE = 16 * 1024 * 1024;
+// 顺序查找 Segment 顶层元素的数量上限
+const MAX_TOP_LEVEL_ELEMENTS = 64;
+const MAX_ATTACHMENTS = 256;
+
+interface ElementHeader {
+  id: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+/**
+ * 读取 EBML 变长整数，keepMarker 为 true 时保留长度标记位（用于元素 ID）
+ */
+function readVint(
+  buffer: Buffer,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | null {
+  const first = buffer[offset];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > buffer.length) return null;
+
+  const mask = 0xff >> length;
+  let value = keepMarker ? first : first & mask;
+  // 所有数据位都为 1 表示大小未知（如直播录制的 Segment）
+  let unknown = (first & mask) === mask;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) unknown = false;
+  }
+  return { value, length, unknown: !keepMarker && unknown };
+}
+
+/**
+ * 读取元素头部，end 为父元素的结束位置（大小未知的元素延伸到父元素末尾）
+ */
+function parseHeader(buffer: Buffer, offset: number, base: number, end: number): ElementHeader | null {
+  const id = readVint(buffer, offset, true);
+  if (!id || id.length > 4) return null;
+  const size = readVint(buffer, offset + id.length, false);
+  if (!size) return null;
+  const dataStart = base + offset + id.length + size.length;
+  return {
+    id: id.value,
+    dataStart,
+    dataEnd: size.unknown ? end : Math.min(dataStart + size.value, end),
+  };
+}
+
+/**
+ * 遍历缓冲区中的子元素
+ */
+function* children(buffer: Buffer, start: number, end: number): Generator<ElementHeader> {
+  let offset = start;
+  while (offset < end) {
+    const header = parseHeader(buffer, offset, 0, end);
+    if (!header || header.dataEnd <= offset) return;
+    yield header;
+    offset = header.dataEnd;
+  }
+}
+
+function readUint(buffer: Buffer, element: ElementHeader): number {
+  let value = 0;
+  for (let i = element.dataStart; i < element.dataEnd; i++) {
+    value = value * 256 + buffer[i];
+  }
+  return value;
+}
+
+function readFloat(buffer: Buffer, element: ElementHeader): number | null {
+  const length = element.dataEnd - element.dataStart;
+  if (length === 4) return buffer.readFloatBE(element.dataStart);
+  if (length === 8) return buffer.readDoubleBE(element.dataStart);
+  return null;
+}
+
+function readString(buffer: Buffer, element: ElementHeader): string {
+  return buffer.toString('utf8', element.dataStart, element.dataEnd).replace(/\0+$/, '');
+}
+
+/**
+ * 从文件中读取元素头部
+ * @param end 父元素的结束位置
+ */
+async function readHeader(reader: ProbeReader, position: number, end: number): Promise<ElementHeader | null> {
+  const buffer = await reader.read(position, 12);
+  return parseHeader(buffer, 0, position, end);
+}
+
+/**
+ * 读取元素的完整数据，ID 不符或超过大小上限时返回 null
+ */
+async function loadElement(reader: ProbeReader, position: number, id: number): Promise<Buffer | null> {
+  const header = await readHeader(reader, position, reader.size);
+  if (!header || header.id !== id || header.dataEnd - header.dataStart > MAX_ELEMENT_SIZE) {
+    return null;
+  }
+  return reader.read(header.dataStart, header.dataEnd - header.dataStart);
+}
+
+/**
+ * 顺序读取 Segment 顶层元素直到第一个 Cluster，再按 SeekHead 补充之后的元素位置
+ * @returns 元素 ID 到元素头部所在位置的映射
+ */
+async function locateElements(reader: ProbeReader, segment: ElementHeader): Promise<Map<number, number>> {
+  const positions = new Map<number, number>();
+  const seekHeads: number[] = [];
+
+  let position = segment.dataStart;
+  for (let i = 0; i < MAX_TOP_LEVEL_ELEMENTS && position < segment.dataEnd; i++) {
+    const header = await readHeader(reader, position, segment.dataEnd);
+    if (!header || header.id === ID.Cluster) break;
+    if (header.id === ID.SeekHead) seekHeads.push(position);
+    else if (!positions.has(header.id)) positions.set(header.id, position);
+    position = header.dataEnd;
+  }
+
+  // SeekHead 可以引用另一个位于文件末尾的 SeekHead
+  const visited = new Set<number>();
+  while (seekHeads.length > 0) {
+    const seekHeadPosition = seekHeads.shift()!;
+    if (visited.has(seekHeadPosition)) continue;
+    visited.add(seekHeadPosition);
+
+    const buffer = await loadElement(reader, seekHeadPosition, ID.SeekHead);
+    if (!buffer) continue;
+    for (const seek of children(buffer, 0, buffer.length)) {
+      if (seek.id !== ID.Seek) continue;
+      let id: number | null = null;
+      let seekPosition: number | null = null;
+      for (const child of children(buffer, seek.dataStart, seek.dataEnd)) {
+        if (child.id === ID.SeekID) id = readUint(buffer, child);
+        else if (child.id === ID.SeekPosition) seekPosition = readUint(buffer, child);
+      }
+      if (id === null || seekPosition === null) continue;
+      // SeekPosition 相对于 Segment 数据的开始位置
+      const absolute = segment.dataStart + seekPosition;
+      if (id === ID.SeekHead) seekHeads.push(absolute);
+      else if (!positions.has(id)) positions.set(id, absolute);
+    }
+  }
+  return positions;
+}
+
+function mapCodec(codecId: string): string | null {
+  if (!codecId) return null;
+  return CODECS.find(([prefix]) => codecId.startsWith(prefix))?.[1] ?? codecId;
+}
+
+function parseInfo(buffer: Buffer): number | null {
+  let timestampScale = 1000000;
+  let duration: number | null = null;
+  for (const element of children(buffer, 0, buffer.length)) {
+    if (element.id === ID.TimestampScale) timestampScale = readUint(buffer, element);
+    else if (element.id === ID.Duration) duration = readFloat(buffer, element);
+  }
+  // Duration 以 TimestampScale 纳秒为单位
+  return duration !== null && duration > 0 ? (duration * timestampScale) / 1e9 : null;
+}
+
+function parseTrack(buffer: Buffer, entry: ElementHeader): MediaTrack | null {
+  let trackType = 0;
+  let codecId = '';
+  // Language 未指定时默认为 eng
+  let language: string | null = 'eng';
+  let bcp47: string | null = null;
+  let name: string | null = null;
+  let isDefault = true;
+  let forced = false;
+  let width: number | undefined;
+  let height: number | undefined;
+  let transfer: number | null = null;
+  let dolbyVision = false;
+  let channels: number | undefined;
+  let sampleRate: number | undefined;
+
+  for (const element of children(buffer, entry.dataStart, entry.dataEnd)) {
+    switch (element.id) {
+      case ID.TrackType:
+        trackType = readUint(buffer, element);
+        break;
+      case ID.CodecID:
+        codecId = readString(buffer, element);
+        break;
+      case ID.Language:
+        language = readString(buffer, element);
+        break;
+      case ID.LanguageBCP47:
+        bcp47 = readString(buffer, element);
+        break;
+      case ID.Name:
+        name = readString(buffer, element) || null;
+        break;
+      case ID.FlagDefault:
+        isDefault = readUint(buffer, element) === 1;
+        break;
+      case ID.FlagForced:
+        forced = readUint(buffer, element) === 1;
+        break;
+      case ID.Video:
+        for (const video of children(buffer, element.dataStart, element.dataEnd)) {
+          if (video.id === ID.PixelWidth) width = readUint(buffer, video);
+          else if (video.id === ID.PixelHeight) height = readUint(buffer, video);
+          else if (video.id === ID.Colour) {
+            for (const colour of children(buffer, video.dataStart, video.dataEnd)) {
+              if (colour.id === ID.TransferCharacteristics) transfer = readUint(buffer, colour);
+            }
+          }
+        }
+        break;
+      case ID.BlockAdditionMapping:
+        for (const mapping of children(buffer, element.dataStart, element.dataEnd)) {
+          if (mapping.id === ID.BlockAddIDType && DOLBY_VISION_TYPES.includes(readUint(buffer, mapping))) {
+            dolbyVision = true;
+          }
+        }
+        break;
+      case ID.Audio:
+        for (const audio of children(buffer, element.dataStart, element.dataEnd)) {
+          if (audio.id === ID.Channels) channels = readUint(buffer, audio);
+          else if (audio.id === ID.SamplingFrequency) sampleRate = readFloat(buffer, audio) ?? undefined;
+        }
+        break;
+    }
+  }
+
+  const base = {
+    codec: mapCodec(codecId),
+    // LanguageBCP47 存在时优先于 Language
+    language: normalizeTrackLanguage(bcp47 ?? language),
+    name,
+    default: isDefault,
+    forced,
+  };
+  if (trackType === 1) {
+    return { type: 'video', ...base, width, height, hdr: formatHdr(dolbyVision, transfer) };
+  }
+  if (trackType === 2) {
+    return { type: 'audio', ...base, channels, sampleRate };
+  }
+  if (trackType === 17) {
+    return { type: 'subtitle', ...base };
+  }
+  return null;
+}
+
+function parseTracks(buffer: Buffer): MediaTrack[] {
+  const tracks: MediaTrack[] = [];
+  for (const entry of children(buffer, 0, buffer.length)) {
+    if (entry.id !== ID.TrackEntry) continue;
+    const track = parseTrack(buffer, entry);
+    if (track) tracks.push(track);
+  }
+  return tracks;
+}
+
+/**
+ * 读取默认版本（没有默认版本时为第一个版本）的顶层章节，忽略隐藏章节
+ */
+function parseChapters(buffer: Buffer): MediaChapter[] {
+  const editions = [...children(buffer, 0, buffer.length)].filter(element => element.id === ID.EditionEntry);
+  const edition =
+    editions.find(entry =>
+      [...children(buffer, entry.dataStart, entry.dataEnd)].some(
+        element => element.id === ID.EditionFlagDefault && readUint(buffer, element) === 1
+      )
+    ) ?? editions[0];
+  if (!edition) return [];
+
+  const chapters: MediaChapter[] = [];
+  for (const atom of children(buffer, edition.dataStart, edition.dataEnd)) {
+    if (atom.id !== ID.ChapterAtom) continue;
+    let start = 0;
+    let title: string | null = null;
+    let hidden = false;
+    for (const element of children(buffer, atom.dataStart, atom.dataEnd)) {
+      if (element.id === ID.ChapterTimeStart) start = readUint(buffer, element) / 1e9;
+      else if (element.id === ID.ChapterFlagHidden) hidden = readUint(buffer, element) === 1;
+      else if (element.id === ID.ChapterDisplay && title === null) {
+        for (const display of children(buffer, element.dataStart, element.dataEnd)) {
+          if (display.id === ID.ChapString) title = readString(buffer, display) || null;
+        }
+      }
+    }
+    if (!hidden) chapters.push({ start, title });
+  }
+  return chapters.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 逐个读取附件的文件名、类型和大小，不读取附件内容
+ */
+async function parseAttachments(reader: ProbeReader, position: number): Promise<MediaAttachment[]> {
+  const header = await readHeader(reader, position, reader.size);
+  if (!header || header.id !== ID.Attachments) return [];
+
+  const attachments: MediaAttachment[] = [];
+  let filePosition = header.dataStart;
+  while (filePosition < header.dataEnd && attachments.length < MAX_ATTACHMENTS) {
+    const file = await readHeader(reader, filePosition, header.dataEnd);
+    if (!file || file.dataEnd <= filePosition) break;
+
+    if (file.id === ID.AttachedFile) {
+      const attachment: MediaAttachment = { name: '', mimeType: null, size: 0 };
+      let childPosition = file.dataStart;
+      while (childPosition < file.dataEnd) {
+        const child = await readHeader(reader, childPosition, file.dataEnd);
+        if (!child || child.dataEnd <= childPosition) break;
+        const length = child.dataEnd - child.dataStart;
+        if (child.id === ID.FileData) {
+          attachment.size = length;
+        } else if ((child.id === ID.FileName || child.id === ID.FileMediaType) && length <= 1024) {
+          const value = (await reader.read(child.dataStart, length)).toString('utf8').replace(/\0+$/, '');
+          if (child.id === ID.FileName) attachment.name = value;
+          else attachment.mimeType = value || null;
+        }
+        childPosition = child.dataEnd;
+      }
+      attachments.push(attachment);
+    }
+    filePosition = file.dataEnd;
+  }
+  return attachments;
+}
+
+/**
+ * 是否为 EBML 文件头
+ */
+export function isMatroska(head: Buffer): boolean {
+  return head.length >= 4 && head.readUInt32BE(0) === ID.EBML;
+}
+
+/**
+ * 读取 Matroska 文件的媒体信息，文件结构无效时返回 null
+ */
+export async function probeMatroska(reader: ProbeReader): Promise<MediaProbeResult | null> {
+  const ebml = await readHeader(reader, 0, reader.size);
+  if (!ebml || ebml.id !== ID.EBML) return null;
+
+  const ebmlData = await reader.read(ebml.dataStart, Math.min(ebml.dataEnd - ebml.dataStart, 4096));
+  const docType = [...children(ebmlData, 0, ebmlData.length)].find(element => element.id === ID.DocType);
+  if (docType && !['matroska', 'webm'].includes(readString(ebmlData, docType))) return null;
+
+  const segment = await readHeader(reader, ebml.dataEnd, reader.size);
+  if (!segment || segment.id !== ID.Segment) return null;
+
+  const positions = await locateElements(reader, segment);
+  const load = async (id: number) => {
+    const position = positions.get(id);
+    return position === undefined ? null : loadElement(reader, position, id);
+  };
+
+  const info = await load(ID.Info);
+  const tracksData = await load(ID.Tracks);
+  const chaptersData = await load(ID.Chapters);
+  const attachmentsPosition = positions.get(ID.Attachments);
+
+  const tracks = tracksData ? parseTracks(tracksData) : [];
+  const video = tracks.find(track => track.type === 'video' && track.default) ?? tracks.find(track => track.type === 'video');
+  return {
+    container: 'matroska',
+    duration: info ? parseInfo(info) : null,
+    width: video?.width ?? null,
+    height: video?.height ?? null,
+    tracks,
+    chapters: chaptersData ? parseChapters(chaptersData) : [],
+    attachments: attachmentsPosition === undefined ? [] : await parseAttachments(reader, attachmentsPosition),
+  };
+}
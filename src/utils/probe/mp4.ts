@@ -0,0 +1,324 @@
+/**
+ * @fileoverview ISO-BMFF (MP4/MOV) 容器解析
+ * @description 读取 moov 中的 mvhd、trak 和 udta，获取时长、轨道、Nero 章节（chpl）和封面，
+ * 不读取 mdat 中的媒体数据
+ */
+
+import { MediaAttachment, MediaChapter, MediaProbeResult, MediaTrack } from '@/types/probe.types';
+import { formatHdr, normalizeTrackLanguage, ProbeReader } from './reader';
+
+// 样本描述的格式到编码名称，未列出的编码保留原始格式
+const CODECS: Record<string, string> = {
+  avc1: 'h264',
+  avc3: 'h264',
+  hvc1: 'hevc',
+  hev1: 'hevc',
+  dvh1: 'hevc',
+  dvhe: 'hevc',
+  av01: 'av1',
+  vp09: 'vp9',
+  mp4v: 'mpeg4',
+  mp4a: 'aac',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  mlpa: 'truehd',
+  dtsc: 'dts',
+  dtsh: 'dts',
+  dtsl: 'dts',
+  dtsx: 'dts',
+  Opus: 'opus',
+  fLaC: 'flac',
+  alac: 'alac',
+  lpcm: 'pcm',
+  tx3g: 'mov_text',
+  wvtt: 'webvtt',
+  stpp: 'ttml',
+  c608: 'eia_608',
+};
+
+const SUBTITLE_HANDLERS = ['sbtl', 'subt', 'text', 'clcp'];
+// 杜比视界的样本描述格式和配置盒
+const DOLBY_VISION_FORMATS = ['dvh1', 'dvhe', 'dva1', 'dvav'];
+const DOLBY_VISION_BOXES = ['dvcC', 'dvvC', 'dvwC'];
+
+// moov 大小上限，避免损坏的文件导致读取大量数据
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+const MAX_TOP_LEVEL_BOXES = 64;
+
+interface Box {
+  type: string;
+  start: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+/**
+ * 读取盒子头部，base 为缓冲区在文件中的位置，大小为 0 的盒子延伸到 end
+ */
+function parseBox(buffer: Buffer, offset: number, base: number, end: number): Box | null {
+  if (offset + 8 > buffer.length) return null;
+  let size = buffer.readUInt32BE(offset);
+  const type = buffer.toString('latin1', offset + 4, offset + 8);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > buffer.length) return null;
+    size = Number(buffer.readBigUInt64BE(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - base - offset;
+  }
+  if (size < headerSize) return null;
+
+  const start = base + offset;
+  return { type, start, dataStart: start + headerSize, dataEnd: Math.min(start + size, end) };
+}
+
+/**
+ * 遍历缓冲区中的子盒子
+ */
+function* boxes(buffer: Buffer, start: number, end: number): Generator<Box> {
+  let offset = start;
+  while (offset < end) {
+    const box = parseBox(buffer, offset, 0, end);
+    if (!box) return;
+    yield box;
+    offset = box.dataEnd;
+  }
+}
+
+/**
+ * 按路径查找子盒子，如 findBox(buffer, moov, 'udta', 'chpl')
+ */
+function findBox(buffer: Buffer, parent: { dataStart: number; dataEnd: number }, ...path: string[]): Box | null {
+  let current: Box | null = null;
+  let range = parent;
+  for (const type of path) {
+    current = null;
+    for (const box of boxes(buffer, range.dataStart, range.dataEnd)) {
+      if (box.type === type) {
+        current = box;
+        break;
+      }
+    }
+    if (!current) return null;
+    range = current;
+  }
+  return current;
+}
+
+/**
+ * 读取 FullBox 中按版本区分长度的时间字段
+ */
+function readTime(buffer: Buffer, offset: number, version: number): number {
+  return version === 1 ? Number(buffer.readBigUInt64BE(offset)) : buffer.readUInt32BE(offset);
+}
+
+/**
+ * 解码 mdhd 中按 5 位打包的 ISO 639-2 语言代码
+ */
+function decodeLanguage(packed: number): string | null {
+  if (packed === 0 || packed === 0x7fff) return null;
+  const chars = [(packed >> 10) & 0x1f, (packed >> 5) & 0x1f, packed & 0x1f].map(code => String.fromCharCode(code + 0x60));
+  return chars.join('');
+}
+
+/**
+ * 读取视频样本描述中的分辨率和色彩信息
+ */
+function parseVisualEntry(buffer: Buffer, entry: Box): Pick<MediaTrack, 'width' | 'height' | 'hdr'> {
+  const width = buffer.readUInt16BE(entry.dataStart + 24);
+  const height = buffer.readUInt16BE(entry.dataStart + 26);
+
+  let transfer: number | null = null;
+  let dolbyVision = DOLBY_VISION_FORMATS.includes(entry.type);
+  // 固定字段之后是 avcC、hvcC、colr、dvcC 等子盒子
+  for (const box of boxes(buffer, entry.dataStart + 78, entry.dataEnd)) {
+    if (box.type === 'colr' && box.dataEnd - box.dataStart >= 10) {
+      const colourType = buffer.toString('latin1', box.dataStart, box.dataStart + 4);
+      if (colourType === 'nclx' || colourType === 'nclc') {
+        transfer = buffer.readUInt16BE(box.dataStart + 6);
+      }
+    } else if (DOLBY_VISION_BOXES.includes(box.type)) {
+      dolbyVision = true;
+    }
+  }
+  return { width, height, hdr: formatHdr(dolbyVision, transfer) };
+}
+
+/**
+ * 读取音频样本描述中的声道数和采样率
+ */
+function parseAudioEntry(buffer: Buffer, entry: Box): Pick<MediaTrack, 'channels' | 'sampleRate'> {
+  const version = buffer.readUInt16BE(entry.dataStart + 8);
+  // QuickTime 第 2 版音频描述的声道数和采样率位于扩展字段
+  if (version === 2 && entry.dataEnd - entry.dataStart >= 44) {
+    return {
+      channels: buffer.readUInt32BE(entry.dataStart + 40),
+      sampleRate: buffer.readDoubleBE(entry.dataStart + 32),
+    };
+  }
+  return {
+    channels: buffer.readUInt16BE(entry.dataStart + 16),
+    sampleRate: buffer.readUInt32BE(entry.dataStart + 24) >>> 16,
+  };
+}
+
+/**
+ * 读取单个轨道，chapterTrackIds 中的章节文本轨道不作为字幕
+ */
+function parseTrak(buffer: Buffer, trak: Box, chapterTrackIds: Set<number>): MediaTrack | null {
+  const tkhd = findBox(buffer, trak, 'tkhd');
+  const mdhd = findBox(buffer, trak, 'mdia', 'mdhd');
+  const hdlr = findBox(buffer, trak, 'mdia', 'hdlr');
+  if (!tkhd || !mdhd || !hdlr) return null;
+
+  const tkhdVersion = buffer[tkhd.dataStart];
+  const enabled = (buffer.readUIntBE(tkhd.dataStart + 1, 3) & 1) === 1;
+  const trackId = buffer.readUInt32BE(tkhd.dataStart + (tkhdVersion === 1 ? 20 : 12));
+  const mdhdVersion = buffer[mdhd.dataStart];
+  let language = decodeLanguage(buffer.readUInt16BE(mdhd.dataStart + (mdhdVersion === 1 ? 32 : 20)));
+  // elng 保存 BCP 47 语言标记，存在时优先
+  const elng = findBox(buffer, trak, 'mdia', 'elng');
+  if (elng) {
+    language = buffer.toString('utf8', elng.dataStart + 4, elng.dataEnd) || language;
+  }
+
+  const handler = buffer.toString('latin1', hdlr.dataStart + 8, hdlr.dataStart + 12);
+  const stsd = findBox(buffer, trak, 'mdia', 'minf', 'stbl', 'stsd');
+  // stsd 是 FullBox，版本和条目数之后是第一个样本描述
+  const entry = stsd ? parseBox(buffer, stsd.dataStart + 8, 0, stsd.dataEnd) : null;
+  const format = entry?.type ?? null;
+
+  const base = {
+    codec: format ? CODECS[format] ?? format : null,
+    language: normalizeTrackLanguage(language),
+    name: null,
+    default: enabled,
+    forced: false,
+  };
+  if (handler === 'vide' && entry) {
+    return { type: 'video', ...base, ...parseVisualEntry(buffer, entry) };
+  }
+  if (handler === 'soun' && entry) {
+    return { type: 'audio', ...base, ...parseAudioEntry(buffer, entry) };
+  }
+  if (SUBTITLE_HANDLERS.includes(handler) && !chapterTrackIds.has(trackId)) {
+    return { type: 'subtitle', ...base };
+  }
+  return null;
+}
+
+/**
+ * 读取 udta 中的 Nero 章节列表，开始时间以 100 纳秒为单位
+ */
+function parseChapters(buffer: Buffer, moov: Box): MediaChapter[] {
+  const chpl = findBox(buffer, moov, 'udta', 'chpl');
+  if (!chpl) return [];
+
+  let offset = chpl.dataStart + (buffer[chpl.dataStart] === 1 ? 8 : 4);
+  const count = buffer[offset++];
+  const chapters: MediaChapter[] = [];
+  for (let i = 0; i < count && offset + 9 <= chpl.dataEnd; i++) {
+    const start = Number(buffer.readBigUInt64BE(offset)) / 1e7;
+    const titleLength = buffer[offset + 8];
+    const title = buffer.toString('utf8', offset + 9, Math.min(offset + 9 + titleLength, chpl.dataEnd));
+    chapters.push({ start, title: title || null });
+    offset += 9 + titleLength;
+  }
+  return chapters;
+}
+
+/**
+ * 读取 iTunes 元数据中的封面图片
+ */
+function parseCoverArt(buffer: Buffer, moov: Box): MediaAttachment[] {
+  const meta = findBox(buffer, moov, 'udta', 'meta');
+  if (!meta) return [];
+  // MP4 的 meta 是 FullBox，QuickTime 的 meta 不是
+  const isFullBox = buffer.readUInt32BE(meta.dataStart) === 0;
+  const range = { dataStart: meta.dataStart + (isFullBox ? 4 : 0), dataEnd: meta.dataEnd };
+  const covr = findBox(buffer, range, 'ilst', 'covr');
+  if (!covr) return [];
+
+  const attachments: MediaAttachment[] = [];
+  for (const data of boxes(buffer, covr.dataStart, covr.dataEnd)) {
+    if (data.type !== 'data') continue;
+    // 类型标记 13 为 JPEG，14 为 PNG
+    const dataType = buffer.readUInt32BE(data.dataStart) & 0xffffff;
+    const isPng = dataType === 14;
+    attachments.push({
+      name: isPng ? 'cover.png' : 'cover.jpg',
+      mimeType: isPng ? 'image/png' : dataType === 13 ? 'image/jpeg' : null,
+      size: data.dataEnd - data.dataStart - 8,
+    });
+  }
+  return attachments;
+}
+
+/**
+ * 是否为 ISO-BMFF 文件（以 ftyp 开头，或以 moov、mdat 等开头的早期 QuickTime 文件）
+ */
+export function isMp4(head: Buffer): boolean {
+  if (head.length < 8) return false;
+  return ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip'].includes(head.toString('latin1', 4, 8));
+}
+
+/**
+ * 读取 MP4 文件的媒体信息，找不到 moov 时返回 null
+ */
+export async function probeMp4(reader: ProbeReader): Promise<MediaProbeResult | null> {
+  // moov 可能位于 mdat 之后，逐个读取顶层盒子的头部
+  let moovBox: Box | null = null;
+  let position = 0;
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && position < reader.size; i++) {
+    const box = parseBox(await reader.read(position, 16), 0, position, reader.size);
+    if (!box || box.dataEnd <= position) break;
+    if (box.type === 'moov') {
+      moovBox = box;
+      break;
+    }
+    position = box.dataEnd;
+  }
+  if (!moovBox || moovBox.dataEnd - moovBox.dataStart > MAX_MOOV_SIZE) return null;
+
+  const buffer = await reader.read(moovBox.dataStart, moovBox.dataEnd - moovBox.dataStart);
+  const moov = { type: 'moov', start: 0, dataStart: 0, dataEnd: buffer.length };
+
+  let duration: number | null = null;
+  const mvhd = findBox(buffer, moov, 'mvhd');
+  if (mvhd) {
+    const version = buffer[mvhd.dataStart];
+    const timescale = buffer.readUInt32BE(mvhd.dataStart + (version === 1 ? 20 : 12));
+    let units = readTime(buffer, mvhd.dataStart + (version === 1 ? 24 : 16), version);
+    // 分片 MP4 的总时长记录在 mehd 中
+    const mehd = findBox(buffer, moov, 'mvex', 'mehd');
+    if (units === 0 && mehd) {
+      units = readTime(buffer, mehd.dataStart + 4, buffer[mehd.dataStart]);
+    }
+    if (timescale > 0 && units > 0) duration = units / timescale;
+  }
+
+  const traks = [...boxes(buffer, 0, buffer.length)].filter(box => box.type === 'trak');
+  // tref 中 chap 引用的文本轨道是 QuickTime 章节
+  const chapterTrackIds = new Set<number>();
+  for (const trak of traks) {
+    const chap = findBox(buffer, trak, 'tref', 'chap');
+    for (let offset = chap?.dataStart ?? 0; chap && offset + 4 <= chap.dataEnd; offset += 4) {
+      chapterTrackIds.add(buffer.readUInt32BE(offset));
+    }
+  }
+
+  const tracks = traks
+    .map(trak => parseTrak(buffer, trak, chapterTrackIds))
+    .filter((track): track is MediaTrack => track !== null);
+  const video = tracks.find(track => track.type === 'video' && track.default) ?? tracks.find(track => track.type === 'video');
+  return {
+    container: 'mp4',
+    duration,
+    width: video?.width ?? null,
+    height: video?.height ?? null,
+    tracks,
+    chapters: parseChapters(buffer, moov),
+    attachments: parseCoverArt(buffer, moov),
+  };
+}
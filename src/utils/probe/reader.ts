@@ -0,0 +1,42 @@
+import type { FileHandle } from 'fs/promises';
+
+/**
+ * 按位置读取文件片段，读取范围超出文件末尾时返回实际读取的部分
+ */
+export class ProbeReader {
+  constructor(
+    private readonly handle: FileHandle,
+    public readonly size: number
+  ) {}
+
+  async read(position: number, length: number): Promise<Buffer> {
+    const readLength = Math.max(0, Math.min(length, this.size - position));
+    if (readLength === 0) {
+      return Buffer.alloc(0);
+    }
+    const buffer = Buffer.alloc(readLength);
+    const { bytesRead } = await this.handle.read(buffer, 0, readLength, position);
+    return buffer.subarray(0, bytesRead);
+  }
+}
+
+/**
+ * 规范化容器中的语言标记，未指定（und）时为 null
+ */
+export function normalizeTrackLanguage(language: string | null | undefined): string | null {
+  const value = language?.replace(/\0/g, '').trim();
+  return value && value.toLowerCase() !== 'und' ? value : null;
+}
+
+/**
+ * 视频轨道的 HDR 格式描述，如 DV HDR10
+ * @param dolbyVision 是否包含杜比视界配置
+ * @param transfer 传输特性（ITU-T H.273），16 为 PQ，18 为 HLG
+ */
+export function formatHdr(dolbyVision: boolean, transfer: number | null): string | null {
+  const parts: string[] = [];
+  if (dolbyVision) parts.push('DV');
+  if (transfer === 16) parts.push('HDR10');
+  else if (transfer === 18) parts.push('HLG');
+  return parts.length > 0 ? parts.join(' ') : null;
+}
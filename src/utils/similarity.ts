@@ -0,0 +1,43 @@
+/**
+ * 标准化标题，移除大小写、全半角、标点和空白差异
+ * @param title 原始标题
+ * @returns 标准化后的标题
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, "");
+}
+
+/**
+ * 计算两个标题的相似度（基于编辑距离）
+ * @param a 标题A
+ * @param b 标题B
+ * @returns 0-1 之间的相似度，1 表示完全一致
+ */
+export function calculateTitleSimilarity(a: string, b: string): number {
+  const left = Array.from(normalizeTitle(a));
+  const right = Array.from(normalizeTitle(b));
+
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+  if (left.join("") === right.join("")) {
+    return 1;
+  }
+
+  // 单行滚动数组计算编辑距离
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  const distance = previous[right.length];
+  return 1 - distance / Math.max(left.length, right.length);
+}
@@ -174,6 +174,38 @@ export const FileValidators = {
   updateDiscNumber: z.object({
     /** 碟片编号，null表示取消，正整数表示碟片序号 */
     discNumber: z.coerce.number().int().positive().nullable()
+  }),
+
+  /**
+   * 更新字幕语言请求体验证
+   * 
+   * language 为语言标记（如 zh、chs、繁體），保存时规范化；
+   * 为 null 时恢复按文件名后缀和字幕内容自动识别。
+   * 
+   * @example
+   * // 请求体示例 - 指定为繁体中文
+   * { "language": "zh-Hant" }
+   * 
+   * // 请求体示例 - 恢复自动识别
+   * { "language": null }
+   */
+  updateSubtitleLanguage: z.object({
+    /** 语言标记，null表示恢复自动识别 */
+    language: z.string().trim().min(1, '语言标记不能为空').max(32, '语言标记不能超过32个字符').nullable()
+  }),
+
+  /**
+   * 整理硬链接请求体验证
+   * 
+   * fileIds 为空时整理所有无冲突的文件。
+   * 
+   * @example
+   * // 请求体示例 - 只整理预览中选中的文件
+   * { "fileIds": [1, 2, 3] }
+   */
+  reorganize: z.object({
+    /** 仅整理指定的文件ID */
+    fileIds: z.array(CommonValidators.id).optional()
   })
 };
 
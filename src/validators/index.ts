@@ -33,6 +33,16 @@ export {
   FileParamValidators,
 } from './file.validator';
 
+// 完整性校验相关验证器
+export {
+  IntegrityBodyValidators
+} from './integrity.validator';
+
+// 操作日志相关验证器
+export {
+  JournalQueryValidators
+} from './journal.validator';
+
 // 媒体相关验证器
 export {
   MediaParamValidators,
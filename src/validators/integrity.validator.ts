@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+/**
+ * 完整性校验请求体验证器
+ *
+ * 用于验证修复校验问题时的请求体。
+ */
+export const IntegrityBodyValidators = {
+  /**
+   * 修复问题请求体验证
+   * 问题标识来自最近一次的校验结果，修复操作必须是该问题可用的操作
+   *
+   * @example
+   * // 重新创建丢失的链接
+   * { "issueId": "missing_link:12", "action": "relink" }
+   *
+   * @example
+   * // 为目标目录中没有记录的文件创建记录
+   * { "issueId": "untracked_link:/media/movies/Movie (2020)/Movie (2020).mkv", "action": "adopt" }
+   */
+  repair: z.object({
+    /** 问题标识 */
+    issueId: z.string().min(1, "问题标识不能为空"),
+    /** 修复操作 */
+    action: z.enum(["relink", "forget", "adopt"], {
+      message: "修复操作必须是 relink、forget 或 adopt",
+    }),
+  }),
+};
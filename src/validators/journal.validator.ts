@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { CommonValidators } from "./common.validator";
+
+/**
+ * 操作日志查询参数验证器
+ *
+ * 用于验证操作日志列表的分页和来源筛选参数。
+ */
+export const JournalQueryValidators = {
+  /**
+   * 操作日志分组列表查询参数
+   * 包含分页和来源筛选
+   *
+   * @example
+   * // 查询: "?page=1&limit=20&source=queue"
+   * // 验证后: { page: 1, limit: 20, source: "queue" }
+   */
+  groups: CommonValidators.pagination.extend({
+    /** 来源筛选 */
+    source: z.enum(["queue", "api", "plan", "monitor"]).optional(),
+  }),
+};
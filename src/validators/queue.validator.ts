@@ -55,7 +55,7 @@ export const QueueQueryValidators = {
   tasks: CommonValidators.pagination.extend({
     /** 任务状态筛选 */
     status: z
-      .enum(["PENDING", "RUNNING", "COMPLETED", "FAILED", "CANCELED"])
+      .enum(["PENDING", "RUNNING", "COMPLETED", "FAILED", "CANCELED", "NEEDS_REVIEW"])
       .optional(),
     /** 任务类型筛选 */
     type: z.string().trim().optional(),
@@ -75,6 +75,14 @@ export const QueueQueryValidators = {
     sortOrder: z.enum(["asc", "desc"]).default("desc"),
   }),
 
+  /**
+   * 待确认任务列表查询参数
+   *
+   * @example
+   * // 查询: "?page=1&limit=20"
+   */
+  review: CommonValidators.pagination,
+
   /**
    * 任务统计查询参数
    * 用于获取任务统计信息的参数验证
@@ -203,4 +211,22 @@ export const QueueBodyValidators = {
         path: ["retryDelay"],
       }
     ),
+
+  /**
+   * 确认待确认任务请求体验证
+   * 可选择候选结果，也可手动填写 TMDB ID 覆盖识别结果
+   *
+   * @example
+   * { type: "tv", tmdbId: 1429, seasonNumber: 1, episodeNumber: 3 }
+   */
+  resolveReview: z.object({
+    /** 媒体类型 */
+    type: z.enum(["tv", "movie"]),
+    /** TMDB ID */
+    tmdbId: z.coerce.number().int().positive("TMDB ID必须是正整数"),
+    /** 季号，可选，覆盖从文件名提取的季号 */
+    seasonNumber: z.coerce.number().int().min(0, "季号不能小于0").optional(),
+    /** 集号，可选，覆盖从文件名提取的集号 */
+    episodeNumber: z.coerce.number().int().min(1, "集号必须大于0").optional(),
+  }),
 };
@@ -65,6 +65,17 @@ export const ScanQueryValidators = {
     /** 结束时间筛选 */
     endDate: z.string().optional(),
   }),
+
+  /**
+   * 导出预演计划查询参数
+   *
+   * @example
+   * // 查询: "?format=csv"
+   */
+  exportPlan: z.object({
+    /** 导出格式 */
+    format: z.enum(["json", "csv"]).default("json"),
+  }),
 };
 
 /**
@@ -125,4 +136,21 @@ export const ScanBodyValidators = {
     /** 扫描类型 */
     type: z.enum(["quick", "full", "deep"]).default("full"),
   }),
+
+  /**
+   * 执行预演计划请求体验证
+   * 不指定条目时执行所有可执行的条目
+   *
+   * @example
+   * {
+   *   planId: "m1abc2de",
+   *   entryIds: [1, 3, 5]
+   * }
+   */
+  applyPlan: z.object({
+    /** 计划标识，必须是最近一次的计划 */
+    planId: z.string().min(1, "计划标识不能为空"),
+    /** 要执行的条目ID，可选 */
+    entryIds: z.array(z.number().int().positive()).min(1, "至少选择一个条目").optional(),
+  }),
 };
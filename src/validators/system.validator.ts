@@ -1,7 +1,52 @@
 import { z } from "zod";
 import { LogLevel } from "@/utils/logger";
+import { validateNamingTemplate } from "@/core/fileManage/naming";
+import { LINK_MODES } from "@/config/config";
 import { CommonValidators } from "./common.validator";
 
+/**
+ * 命名模板，空字符串表示使用预设模板
+ */
+const namingTemplate = z
+  .string()
+  .trim()
+  .superRefine((template, ctx) => {
+    const error = template ? validateNamingTemplate(template) : null;
+    if (error) {
+      ctx.addIssue({ code: "custom", message: `命名模板${error}` });
+    }
+  });
+
+/**
+ * 非空字符串列表，用于路由规则中的多值条件
+ */
+const routingValueList = z.array(z.string().trim().min(1, "匹配值不能为空")).min(1, "匹配值列表不能为空");
+
+/**
+ * 路由规则
+ */
+const routingRule = z.object({
+  /** 规则名称 */
+  name: z.string().trim().min(1, "规则名称不能为空"),
+  /** 命中规则时使用的目标目录 */
+  targetPath: z.string().trim().min(1, "目标目录不能为空"),
+  /** 匹配条件，未设置的条件不参与匹配 */
+  match: z.object({
+    mediaType: z.enum(["tv", "movie"], { message: '媒体类型必须是 "tv" 或 "movie"' }).optional(),
+    genres: z.array(z.union([z.number().int(), z.string().trim().min(1)])).min(1, "类型列表不能为空").optional(),
+    originalLanguage: routingValueList.optional(),
+    originCountry: routingValueList.optional(),
+    sourcePath: z.string().trim().min(1, "源路径规则不能为空").optional(),
+    releaseGroup: routingValueList.optional(),
+  }),
+  /** 目标目录使用的链接方式，按顺序尝试 */
+  linkModes: z
+    .array(z.enum(LINK_MODES, { message: "链接方式必须是 hardlink、symlink、reflink 或 copy" }))
+    .min(1, "链接方式不能为空")
+    .refine((modes) => new Set(modes).size === modes.length, { message: "链接方式不能重复" })
+    .optional(),
+});
+
 /**
  * 系统查询参数验证器
  *
@@ -62,6 +107,18 @@ export const SystemQueryValidators = {
     /** 是否包含版本信息 */
     includeVersion: z.coerce.boolean().default(false),
   }),
+
+  /**
+   * 清除 LLM 缓存查询参数
+   * 不提供文件名时清除全部缓存
+   *
+   * @example
+   * // 查询: "?fileName=[Group] Title - 01 [1080p].mkv"
+   */
+  invalidateLlmCache: z.object({
+    /** 仅清除指定文件名的缓存 */
+    fileName: CommonValidators.fileName.optional(),
+  }),
 };
 
 /**
@@ -141,6 +198,11 @@ export const SystemBodyValidators = {
             .max(60000, "请求超时时间不能超过60秒"),
         })
         .optional(),
+      identifierStrategy: z
+        .enum(["llm", "regex"], {
+          message: '识别策略必须是 "llm" 或 "regex"',
+        })
+        .optional(),
       llmProvider: z
         .enum(["ollama", "openai"], {
           message: 'LLM提供商必须是 "ollama" 或 "openai"',
@@ -163,6 +225,14 @@ export const SystemBodyValidators = {
       llmPrompt: z.string().min(1, { message: "llmPrompt不能为空" }).optional(),
       llmSpecialFolderPrompt: z.string().min(1, { message: "llmSpecialFolderPrompt不能为空" }).optional(),
       persistentLogging: CommonValidators.boolean.optional(),
+      namingPreset: z
+        .enum(["default", "plex", "jellyfin", "emby"], {
+          message: '命名预设必须是 "default"、"plex"、"jellyfin" 或 "emby"',
+        })
+        .optional(),
+      namingMovieTemplate: namingTemplate.optional(),
+      namingTvTemplate: namingTemplate.optional(),
+      namingSpecialFolderTemplate: namingTemplate.optional(),
     })
     .refine(
       (data) => {
@@ -193,4 +263,22 @@ export const SystemBodyValidators = {
         path: ["openai"], // 关联错误到虚拟路径
       }
     ),
+
+  /**
+   * 更新路由规则请求体验证
+   * 规则按数组顺序匹配，规则名称不能重复
+   *
+   * @example
+   * {
+   *   rules: [
+   *     { name: "动画", targetPath: "/media/anime", match: { genres: [16], originalLanguage: ["ja"] } }
+   *   ]
+   * }
+   */
+  updateRoutingRules: z.object({
+    rules: z.array(routingRule).refine(
+      (rules) => new Set(rules.map((rule) => rule.name)).size === rules.length,
+      { message: "路由规则名称不能重复" }
+    ),
+  }),
 };
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview 时长校验测试
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DurationCheckConfig } from '@/config/config';
+import { IdentifiedMedia } from '@/types/media.types';
+import { MediaProbeResult } from '@/types/probe.types';
+import { checkDuration, getExpectedRuntime } from '@/core/fileManage/durationCheck';
+
+const CONFIG: DurationCheckConfig = { enabled: true, tolerance: 0.5, clipAction: 'review' };
+
+function createMedia(overrides: Partial<IdentifiedMedia> = {}): IdentifiedMedia {
+  return {
+    type: 'tv',
+    tmdbId: 1,
+    title: 'Show',
+    originalTitle: 'Show',
+    releaseDate: null,
+    description: null,
+    posterPath: null,
+    backdropPath: null,
+    seasonNumber: 1,
+    episodeNumber: 1,
+    rawData: {
+      episodes: [
+        { episode_number: 1, runtime: 24 },
+        { episode_number: 2, runtime: 24 },
+        { episode_number: 3, runtime: null },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+function probe(duration: number | null): MediaProbeResult {
+  return { container: 'matroska', duration, width: null, height: null, tracks: [], chapters: [], attachments: [] };
+}
+
+describe('getExpectedRuntime', () => {
+  it('电影使用片长', () => {
+    assert.equal(getExpectedRuntime(createMedia({ type: 'movie', rawData: { runtime: 120 } })), 7200);
+    assert.equal(getExpectedRuntime(createMedia({ type: 'movie', rawData: { runtime: 0 } })), null);
+  });
+
+  it('多集文件为各集时长之和', () => {
+    assert.equal(getExpectedRuntime(createMedia()), 1440);
+    assert.equal(getExpectedRuntime(createMedia({ episodeNumberEnd: 2 })), 2880);
+  });
+
+  it('任一集缺少时长时返回 null', () => {
+    assert.equal(getExpectedRuntime(createMedia({ episodeNumber: 2, episodeNumberEnd: 3 })), null);
+    assert.equal(getExpectedRuntime(createMedia({ episodeNumber: undefined })), null);
+  });
+});
+
+describe('checkDuration', () => {
+  it('时长在容差范围内时正常处理', () => {
+    assert.deepEqual(checkDuration(createMedia(), probe(1420), CONFIG), { action: 'link' });
+    assert.deepEqual(checkDuration(createMedia(), probe(2100), CONFIG), { action: 'link' });
+  });
+
+  it('无法读取时长或缺少片长时不校验', () => {
+    assert.deepEqual(checkDuration(createMedia(), null, CONFIG), { action: 'link' });
+    assert.deepEqual(checkDuration(createMedia(), probe(null), CONFIG), { action: 'link' });
+    assert.deepEqual(checkDuration(createMedia({ rawData: {} }), probe(60), CONFIG), { action: 'link' });
+  });
+
+  it('明显短于正片的短片段按配置处理', () => {
+    const review = checkDuration(createMedia(), probe(45), CONFIG);
+    assert.equal(review.action, 'review');
+    assert.match((review as { reason: string }).reason, /时长过短.*45 秒 \/ TMDB 24 分钟/);
+
+    const extras = checkDuration(createMedia(), probe(45), { ...CONFIG, clipAction: 'extras' });
+    assert.equal(extras.action, 'extras');
+    assert.equal((extras as { extraType: string }).extraType, 'extras');
+  });
+
+  it('时长不符但不是短片段时转为人工确认', () => {
+    // 短于一半但超过短片段上限
+    const shorter = checkDuration(createMedia({ type: 'movie', rawData: { runtime: 120 } }), probe(1800), { ...CONFIG, clipAction: 'extras' });
+    assert.equal(shorter.action, 'review');
+    assert.match((shorter as { reason: string }).reason, /可能识别错误/);
+
+    const longer = checkDuration(createMedia(), probe(5400), CONFIG);
+    assert.equal(longer.action, 'review');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview 附加内容识别测试
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MediaProbeResult } from '@/types/probe.types';
+import { classifyExtra, DEFAULT_EXTRAS_CONFIG } from '@/core/fileManage/extrasClassifier';
+
+function probe(duration: number | null): MediaProbeResult {
+  return { container: 'matroska', duration, width: null, height: null, tracks: [], chapters: [], attachments: [] };
+}
+
+describe('classifyExtra', () => {
+  it('按所在目录名判定，不检查时长', async () => {
+    assert.deepEqual(await classifyExtra('/downloads/Movie/Sample/movie.mkv', DEFAULT_EXTRAS_CONFIG, probe(7200)), {
+      action: 'skip',
+      reason: '样片 (位于 Sample 目录)',
+    });
+    assert.deepEqual(await classifyExtra('/downloads/Movie/Featurettes/Making Of.mkv', DEFAULT_EXTRAS_CONFIG, null), {
+      action: 'extras',
+      extraType: 'featurettes',
+      reason: '花絮 (位于 Featurettes 目录)',
+    });
+  });
+
+  it('文件名匹配且时长不超过阈值时判定为附加内容', async () => {
+    assert.deepEqual(await classifyExtra('/downloads/Show/[Group] Show - NCOP1 [1080p].mkv', DEFAULT_EXTRAS_CONFIG, probe(90)), {
+      action: 'extras',
+      extraType: 'extras',
+      reason: '无字幕片头片尾 (文件名包含 NCOP1，时长 90 秒)',
+    });
+    assert.deepEqual(await classifyExtra('/downloads/Movie/Movie.2021.Trailer.1080p.mkv', DEFAULT_EXTRAS_CONFIG, probe(150)), {
+      action: 'extras',
+      extraType: 'trailers',
+      reason: '预告片 (文件名包含 Trailer，时长 150 秒)',
+    });
+    assert.equal((await classifyExtra('/downloads/Movie/movie-sample.mkv', DEFAULT_EXTRAS_CONFIG, probe(60))).action, 'skip');
+  });
+
+  it('时长超过阈值时视为正片，避免误判标题中包含这些词的文件', async () => {
+    assert.deepEqual(await classifyExtra('/downloads/The.Menu.2022.1080p.mkv', DEFAULT_EXTRAS_CONFIG, probe(6420)), { action: 'link' });
+  });
+
+  it('文件名不匹配时视为正片', async () => {
+    assert.deepEqual(await classifyExtra('/downloads/Show/Show.S01E01.1080p.mkv', DEFAULT_EXTRAS_CONFIG, null), { action: 'link' });
+  });
+
+  describe('无法读取时长时按大小判断', () => {
+    let directory: string;
+
+    before(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'extras-'));
+      await fs.writeFile(path.join(directory, 'Movie.Teaser.mkv'), Buffer.alloc(1024));
+    });
+
+    after(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('大小不超过阈值时判定为附加内容', async () => {
+      const result = await classifyExtra(path.join(directory, 'Movie.Teaser.mkv'), DEFAULT_EXTRAS_CONFIG, null);
+      assert.equal(result.action, 'extras');
+    });
+
+    it('大小超过阈值时视为正片', async () => {
+      const config = { ...DEFAULT_EXTRAS_CONFIG, maxSize: 0 };
+      assert.deepEqual(await classifyExtra(path.join(directory, 'Movie.Teaser.mkv'), config, probe(null)), { action: 'link' });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview 命名模板测试
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Config } from '@/config/config';
+import { IdentifiedMedia } from '@/types/media.types';
+import { buildMediaRelativePath, buildSpecialFolderRelativePath, validateNamingTemplate } from '@/core/fileManage/naming';
+
+function createMedia(overrides: Partial<IdentifiedMedia> = {}): IdentifiedMedia {
+  return {
+    type: 'tv',
+    tmdbId: 1429,
+    title: 'Attack on Titan',
+    originalTitle: '進撃の巨人',
+    releaseDate: new Date('2013-04-07'),
+    description: null,
+    posterPath: null,
+    backdropPath: null,
+    seasonNumber: 1,
+    episodeNumber: 5,
+    episodeTitle: 'First Battle',
+    rawData: null,
+    ...overrides,
+  };
+}
+
+function createConfig(naming?: Config['naming'], specialsFolderName?: string): Config {
+  return { naming, specialsFolderName } as Config;
+}
+
+describe('buildMediaRelativePath', () => {
+  it('默认预设按季目录和补零的季集号命名', () => {
+    assert.deepEqual(buildMediaRelativePath(createMedia(), createConfig()), {
+      directory: 'Attack on Titan/Season 1',
+      fileName: 'Attack on Titan S01E05 First Battle',
+    });
+  });
+
+  it('多集文件的集号渲染为范围', () => {
+    const media = createMedia({ episodeNumber: 1, episodeNumberEnd: 2, episodeTitle: undefined });
+    assert.equal(buildMediaRelativePath(media, createConfig()).fileName, 'Attack on Titan S01E01-E02');
+  });
+
+  it('特别篇放入特别篇目录', () => {
+    const media = createMedia({ seasonNumber: 0, episodeNumber: 3 });
+    assert.equal(buildMediaRelativePath(media, createConfig()).directory, 'Attack on Titan/Season 00');
+    assert.equal(buildMediaRelativePath(media, createConfig(undefined, 'Specials')).directory, 'Attack on Titan/Specials');
+  });
+
+  it('Plex 预设中的 {{ 和 }} 渲染为字面量花括号', () => {
+    const media = createMedia({ type: 'movie', tmdbId: 603, title: 'The Matrix', releaseDate: new Date('1999-03-31') });
+    assert.deepEqual(buildMediaRelativePath(media, createConfig({ preset: 'plex' })), {
+      directory: 'The Matrix (1999) {tmdb-603}',
+      fileName: 'The Matrix (1999) {tmdb-603}',
+    });
+  });
+
+  it('变量值中的路径分隔符替换为 -，非法字符被移除', () => {
+    const media = createMedia({ type: 'movie', title: 'Fate/Zero: "Movie"?' });
+    assert.deepEqual(buildMediaRelativePath(media, createConfig()), {
+      directory: 'Fate-Zero- Movie',
+      fileName: 'Fate-Zero- Movie',
+    });
+  });
+
+  it('变量为空时移除遗留的空括号和分隔符', () => {
+    const media = createMedia({ releaseDate: null, episodeTitle: undefined });
+    const config = createConfig({ preset: 'default', tv: '{title} ({year})/{title} - S{season:00}E{episode:000} - {episodeTitle} [{resolution}]' });
+    assert.deepEqual(buildMediaRelativePath(media, config, { resolution: null, source: null, videoCodec: null, hdr: null, audioCodec: null, group: null }), {
+      directory: 'Attack on Titan',
+      fileName: 'Attack on Titan - S01E005',
+    });
+  });
+
+  it('自定义模板优先于预设，可以使用发布信息变量', () => {
+    const media = createMedia({ type: 'movie', title: 'Dune', releaseDate: new Date('2021-10-22') });
+    const config = createConfig({ preset: 'jellyfin', movie: '{title} ({year})/{title} [{resolution} {hdr}]-{group}' });
+    const release = { resolution: '2160p', source: null, videoCodec: null, hdr: 'DV', audioCodec: null, group: 'FraMeSToR' };
+    assert.deepEqual(buildMediaRelativePath(media, config, release), {
+      directory: 'Dune (2021)',
+      fileName: 'Dune [2160p DV]-FraMeSToR',
+    });
+  });
+});
+
+describe('buildSpecialFolderRelativePath', () => {
+  it('按特殊文件夹模板命名', () => {
+    const media = { title: 'Akira', releaseDate: '1988-07-16', tmdbId: 149 };
+    assert.equal(buildSpecialFolderRelativePath(media, createConfig()), 'Akira (1988)');
+    assert.equal(buildSpecialFolderRelativePath(media, createConfig({ preset: 'emby' })), 'Akira (1988) [tmdbid=149]');
+  });
+});
+
+describe('validateNamingTemplate', () => {
+  it('接受已知变量和转义的花括号', () => {
+    assert.equal(validateNamingTemplate('{title} {{tmdb-{tmdbId}}}/S{season:00}'), null);
+  });
+
+  it('拒绝空模板、未知变量和未闭合的花括号', () => {
+    assert.equal(validateNamingTemplate('  '), '不能为空');
+    assert.equal(validateNamingTemplate('{title}/{name}'), '包含未知变量: name');
+    assert.match(validateNamingTemplate('{title}/{year')!, /未闭合的花括号/);
+  });
+});
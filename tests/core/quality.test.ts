@@ -0,0 +1,87 @@
+/**
+ * @fileoverview 发布质量解析和比较测试
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareQuality, formatQuality, parseReleaseInfo, parseReleaseQuality, ReleaseQuality } from '@/core/fileManage/quality';
+
+function quality(resolution: string | null, source: string | null, revision = 0): ReleaseQuality {
+  return { resolution, source, revision };
+}
+
+describe('parseReleaseQuality', () => {
+  it('解析分辨率和来源，REMUX 优先于 BluRay', () => {
+    assert.deepEqual(parseReleaseQuality('Dune.2021.2160p.UHD.BluRay.REMUX.HDR.HEVC.mkv'), quality('2160p', 'remux'));
+    assert.deepEqual(parseReleaseQuality('Show.S01E01.1080p.WEBRip.x264.mkv'), quality('1080p', 'webrip'));
+    assert.deepEqual(parseReleaseQuality('/downloads/Show.S01E01.720p.WEB-DL.mkv'), quality('720p', 'web-dl'));
+  });
+
+  it('下划线视为分隔符', () => {
+    assert.deepEqual(parseReleaseQuality('Show_S01E01_1080p_BluRay.mkv'), quality('1080p', 'bluray'));
+  });
+
+  it('REPACK 和动画的 v2 计为修订', () => {
+    assert.equal(parseReleaseQuality('Show.S01E01.REPACK.1080p.WEB-DL.mkv').revision, 1);
+    assert.equal(parseReleaseQuality('Show.S01E01.REPACK2.1080p.WEB-DL.mkv').revision, 2);
+    assert.equal(parseReleaseQuality('[Group] Title - 03v2 [1080p].mkv').revision, 1);
+    assert.equal(parseReleaseQuality('Show.S01E03v3.1080p.mkv').revision, 2);
+  });
+
+  it('无法识别时为 null', () => {
+    assert.deepEqual(parseReleaseQuality('Home Video.mkv'), quality(null, null));
+  });
+});
+
+describe('parseReleaseInfo', () => {
+  it('解析编码、HDR 格式、音频和发布组', () => {
+    assert.deepEqual(parseReleaseInfo('Dune.2021.2160p.UHD.BluRay.REMUX.DV.HDR10.HEVC.TrueHD.Atmos.7.1-FraMeSToR.mkv'), {
+      resolution: '2160p',
+      source: 'remux',
+      revision: 0,
+      videoCodec: 'H.265',
+      hdrFormat: 'DV HDR10',
+      audioCodec: 'TrueHD Atmos',
+      releaseGroup: 'FraMeSToR',
+    });
+    assert.deepEqual(parseReleaseInfo('Show.S01E01.1080p.WEB-DL.DDP5.1.H.264-NTb.mkv'), {
+      resolution: '1080p',
+      source: 'web-dl',
+      revision: 0,
+      videoCodec: 'H.264',
+      hdrFormat: null,
+      audioCodec: 'DD+',
+      releaseGroup: 'NTb',
+    });
+  });
+});
+
+describe('compareQuality', () => {
+  it('默认依次比较分辨率、来源和修订', () => {
+    assert.ok(compareQuality(quality('2160p', 'web-dl'), quality('1080p', 'remux')) > 0);
+    assert.ok(compareQuality(quality('1080p', 'bluray'), quality('1080p', 'web-dl')) > 0);
+    assert.ok(compareQuality(quality('1080p', 'web-dl', 1), quality('1080p', 'web-dl')) > 0);
+    assert.equal(compareQuality(quality('1080p', 'web-dl'), quality('1080p', 'web-dl')), 0);
+  });
+
+  it('无法识别的分辨率和来源排在最后', () => {
+    assert.ok(compareQuality(quality(null, null), quality('480p', 'dvd')) < 0);
+  });
+
+  it('按配置的顺序和排序比较', () => {
+    const sourceFirst = { enabled: true, order: ['source' as const, 'resolution' as const] };
+    assert.ok(compareQuality(quality('1080p', 'remux'), quality('2160p', 'web-dl'), sourceFirst) > 0);
+
+    const preferWeb = { enabled: true, sources: ['web-dl', 'bluray'] };
+    assert.ok(compareQuality(quality('1080p', 'web-dl'), quality('1080p', 'bluray'), preferWeb) > 0);
+    // 未列出的来源排在最后
+    assert.ok(compareQuality(quality('1080p', 'remux'), quality('1080p', 'bluray'), preferWeb) < 0);
+  });
+});
+
+describe('formatQuality', () => {
+  it('格式化质量描述', () => {
+    assert.equal(formatQuality(quality('1080p', 'bluray', 1)), '1080p BluRay v2');
+    assert.equal(formatQuality(quality(null, null)), '未知质量');
+  });
+});
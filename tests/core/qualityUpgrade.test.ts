@@ -0,0 +1,121 @@
+/**
+ * @fileoverview 质量升级判断测试
+ * @description 已有版本由调用方从数据库查询，这里只测试版本比较和预演结果的比较
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QualityUpgradeConfig } from '@/config/config';
+import { IdentifiedMedia } from '@/types/media.types';
+import { parseReleaseQuality } from '@/core/fileManage/quality';
+import { compareVersions, ExistingVersion, getDuplicateChange } from '@/core/fileManage/qualityUpgrade';
+
+const CONFIG: QualityUpgradeConfig = { enabled: true };
+
+function createMedia(overrides: Partial<IdentifiedMedia> = {}): IdentifiedMedia {
+  return {
+    type: 'tv',
+    tmdbId: 1,
+    title: 'Show',
+    originalTitle: 'Show',
+    releaseDate: null,
+    description: null,
+    posterPath: null,
+    backdropPath: null,
+    seasonNumber: 1,
+    episodeNumber: 1,
+    rawData: null,
+    ...overrides,
+  };
+}
+
+function createVersion(id: number, filePath: string, episodes: Array<[number, number]> = [[1, 1]]): ExistingVersion {
+  return {
+    id,
+    filePath,
+    linkPath: `/media/Show/Season 1/${id}.mkv`,
+    linkMode: 'hardlink',
+    mediaId: 1,
+    episodes: episodes.map(([seasonNumber, episodeNumber], index) => ({ id: id * 100 + index, seasonNumber, episodeNumber })),
+  };
+}
+
+describe('compareVersions', () => {
+  const upgrade = parseReleaseQuality('Show.S01E01.2160p.WEB-DL.mkv');
+
+  it('没有已有版本时正常链接', () => {
+    assert.deepEqual(compareVersions([], createMedia(), upgrade, CONFIG), { action: 'link' });
+  });
+
+  it('质量更高时替换全部已有版本', () => {
+    const versions = [createVersion(1, '/downloads/Show.S01E01.1080p.WEB-DL.mkv'), createVersion(2, '/downloads/Show.S01E01.720p.HDTV.mkv')];
+    assert.deepEqual(compareVersions(versions, createMedia(), upgrade, CONFIG), { action: 'upgrade', versions, quality: upgrade });
+  });
+
+  it('任一已有版本的质量相同或更高时跳过', () => {
+    const versions = [createVersion(1, '/downloads/Show.S01E01.720p.HDTV.mkv'), createVersion(2, '/downloads/Show.S01E01.2160p.WEB-DL.mkv')];
+    assert.deepEqual(compareVersions(versions, createMedia(), upgrade, CONFIG), {
+      action: 'skip',
+      fileId: 2,
+      reason: '已有同等或更高质量的版本: /downloads/Show.S01E01.2160p.WEB-DL.mkv (2160p WEB-DL，当前 2160p WEB-DL)',
+    });
+  });
+
+  it('已有的多集文件包含其他剧集时跳过，即使新文件质量更高', () => {
+    const versions = [createVersion(1, '/downloads/Show.S01E01-E02.720p.HDTV.mkv', [[1, 1], [1, 2]])];
+    assert.deepEqual(compareVersions(versions, createMedia(), upgrade, CONFIG), {
+      action: 'skip',
+      fileId: 1,
+      reason: '已有版本包含其他剧集，不替换: /downloads/Show.S01E01-E02.720p.HDTV.mkv',
+    });
+  });
+
+  it('新的多集文件可以替换其范围内的单集版本', () => {
+    const versions = [createVersion(1, '/downloads/Show.S01E01.720p.HDTV.mkv', [[1, 1]]), createVersion(2, '/downloads/Show.S01E02.720p.HDTV.mkv', [[1, 2]])];
+    const media = createMedia({ episodeNumberEnd: 2 });
+    assert.equal(compareVersions(versions, media, upgrade, CONFIG).action, 'upgrade');
+  });
+
+  it('电影不检查剧集', () => {
+    const versions = [createVersion(1, '/downloads/Movie.2020.1080p.BluRay.mkv', [])];
+    const media = createMedia({ type: 'movie', seasonNumber: undefined, episodeNumber: undefined });
+    assert.equal(compareVersions(versions, media, parseReleaseQuality('Movie.2020.2160p.BluRay.REMUX.mkv'), CONFIG).action, 'upgrade');
+  });
+
+  it('按配置的比较顺序判断', () => {
+    const versions = [createVersion(1, '/downloads/Show.S01E01.1080p.BluRay.REMUX.mkv')];
+    const sourceFirst: QualityUpgradeConfig = { enabled: true, order: ['source', 'resolution'] };
+    assert.equal(compareVersions(versions, createMedia(), upgrade, CONFIG).action, 'upgrade');
+    assert.equal(compareVersions(versions, createMedia(), upgrade, sourceFirst).action, 'skip');
+  });
+});
+
+describe('getDuplicateChange', () => {
+  const quality = parseReleaseQuality('Show.S01E01.2160p.WEB-DL.mkv');
+  const version = createVersion(1, '/downloads/Show.S01E01.720p.HDTV.mkv');
+
+  it('已有版本没有变化时返回 null', () => {
+    assert.equal(getDuplicateChange([], { action: 'link' }), null);
+    assert.equal(getDuplicateChange([version], { action: 'upgrade', versions: [{ ...version }], quality }), null);
+  });
+
+  it('预演后出现同等或更高质量的版本', () => {
+    assert.equal(getDuplicateChange([], { action: 'skip', fileId: 2, reason: '已有同等或更高质量的版本' }), '已有同等或更高质量的版本');
+  });
+
+  it('预演后出现新的已有版本', () => {
+    const added = createVersion(2, '/downloads/Show.S01E01.1080p.WEB-DL.mkv');
+    assert.equal(
+      getDuplicateChange([version], { action: 'upgrade', versions: [version, added], quality }),
+      '出现新的已有版本: /downloads/Show.S01E01.1080p.WEB-DL.mkv'
+    );
+    assert.match(getDuplicateChange([], { action: 'upgrade', versions: [version], quality })!, /出现新的已有版本/);
+  });
+
+  it('计划替换的版本已被删除或替换', () => {
+    assert.equal(
+      getDuplicateChange([version], { action: 'link' }),
+      '计划替换的版本已被删除或替换: /downloads/Show.S01E01.720p.HDTV.mkv'
+    );
+  });
+});
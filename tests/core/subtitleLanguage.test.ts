@@ -0,0 +1,104 @@
+/**
+ * @fileoverview 字幕语言识别测试
+ * @description fixtures 中的字幕分别使用 GB18030、Big5 和 UTF-8 编码
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import {
+  decodeSubtitleBuffer,
+  detectLanguageFromText,
+  detectSubtitleLanguage,
+  extractSubtitleText,
+  normalizeSubtitleLanguage,
+} from '@/core/fileManage/subtitleLanguage';
+
+const FIXTURES = path.join(__dirname, '../fixtures/subtitles');
+
+describe('normalizeSubtitleLanguage', () => {
+  it('规范化常见的语言标记', () => {
+    assert.equal(normalizeSubtitleLanguage('chs'), 'zh');
+    assert.equal(normalizeSubtitleLanguage('CHT'), 'zh-Hant');
+    assert.equal(normalizeSubtitleLanguage('简体中文'), 'zh');
+    assert.equal(normalizeSubtitleLanguage('繁體'), 'zh-Hant');
+    assert.equal(normalizeSubtitleLanguage('eng'), 'en');
+    assert.equal(normalizeSubtitleLanguage('jpn'), 'ja');
+  });
+
+  it('双语标记取第一个可识别的语言，日中双语按中文处理', () => {
+    assert.equal(normalizeSubtitleLanguage('chs&jpn'), 'zh');
+    assert.equal(normalizeSubtitleLanguage('jpn_cht'), 'ja');
+    assert.equal(normalizeSubtitleLanguage('jptc'), 'zh-Hant');
+    assert.equal(normalizeSubtitleLanguage('default&eng'), 'en');
+  });
+
+  it('其他 ISO 639-1 代码保持原样，地区代码转为大写', () => {
+    assert.equal(normalizeSubtitleLanguage('pt-br'), 'pt-BR');
+    assert.equal(normalizeSubtitleLanguage('nl'), 'nl');
+  });
+
+  it('无法识别时返回 null', () => {
+    assert.equal(normalizeSubtitleLanguage('forced'), null);
+    assert.equal(normalizeSubtitleLanguage(''), null);
+  });
+});
+
+describe('extractSubtitleText', () => {
+  it('ASS 只取对白文本并去掉样式标签', () => {
+    const content = [
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\b1}Hello, world{\\b0}\\NBye',
+    ].join('\n');
+    assert.equal(extractSubtitleText(content, '.ASS'), 'Hello, world Bye');
+  });
+
+  it('SRT 去掉序号、时间轴和 HTML 标签', () => {
+    const content = '1\r\n00:00:01,000 --> 00:00:02,000\r\n<i>Hello</i>\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye\r\n';
+    assert.equal(extractSubtitleText(content, '.srt'), 'Hello\nBye');
+  });
+});
+
+describe('detectLanguageFromText', () => {
+  it('按简繁体特有字区分中文', () => {
+    assert.equal(detectLanguageFromText('这是我们的问题，你说什么？他们现在还没来，我们开车过去吧。'), 'zh');
+    assert.equal(detectLanguageFromText('這是我們的問題，你說什麼？他們現在還沒來，我們開車過去吧。'), 'zh-Hant');
+  });
+
+  it('假名占比较高时判断为日语', () => {
+    assert.equal(detectLanguageFromText('どうしてここにいるの？ちょっと待って、すぐに行くから。ありがとう。'), 'ja');
+  });
+
+  it('拉丁字母按常见英文单词判断', () => {
+    assert.equal(detectLanguageFromText('I don\'t know what you are talking about, but this is the place that we have to find and it is late'), 'en');
+    assert.equal(detectLanguageFromText('Je ne sais pas ce que tu veux dire mais nous devons partir maintenant avant la nuit car il fait froid ici'), null);
+  });
+
+  it('文本过短时无法判断', () => {
+    assert.equal(detectLanguageFromText('你好'), null);
+  });
+});
+
+describe('decodeSubtitleBuffer', () => {
+  it('按 BOM 解码', () => {
+    const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('字幕', 'utf16le')]);
+    assert.deepEqual(decodeSubtitleBuffer(utf16), { text: '字幕', encoding: 'utf-16le' });
+    const utf8 = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('字幕')]);
+    assert.deepEqual(decodeSubtitleBuffer(utf8), { text: '字幕', encoding: 'utf-8' });
+  });
+});
+
+describe('detectSubtitleLanguage', () => {
+  it('识别 GB18030 编码的简体中文字幕', async () => {
+    assert.equal(await detectSubtitleLanguage(path.join(FIXTURES, 'chs.gb18030.srt')), 'zh');
+  });
+
+  it('识别 Big5 编码的繁体中文字幕', async () => {
+    assert.equal(await detectSubtitleLanguage(path.join(FIXTURES, 'cht.big5.srt')), 'zh-Hant');
+  });
+
+  it('识别 UTF-8 编码的日语 ASS 字幕', async () => {
+    assert.equal(await detectSubtitleLanguage(path.join(FIXTURES, 'jpn.utf8.ass')), 'ja');
+  });
+});
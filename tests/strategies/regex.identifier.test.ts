@@ -0,0 +1,61 @@
+/**
+ * @fileoverview 规则识别测试
+ * @description 从文件名提取标题、年份和季集，不访问 TMDB
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseReleaseName } from '@/strategies/regex.identifier';
+
+describe('parseReleaseName', () => {
+  it('提取场景命名中的标题和年份', () => {
+    assert.deepEqual(parseReleaseName('Inception.2010.2160p.UHD.BluRay.REMUX.mkv'), { title: 'Inception', year: 2010 });
+  });
+
+  it('取发布标记之前的最后一个年份，之前的年份属于标题', () => {
+    assert.deepEqual(parseReleaseName('Blade.Runner.2049.2017.1080p.BluRay.x264.mkv'), {
+      title: 'Blade Runner 2049',
+      year: 2017,
+    });
+    // 开头的年份不作为年份
+    assert.deepEqual(parseReleaseName('2012.2009.1080p.BluRay.mkv'), { title: '2012', year: 2009 });
+  });
+
+  it('提取括号中的年份', () => {
+    assert.deepEqual(parseReleaseName('The Matrix (1999) [1080p].mkv'), { title: 'The Matrix', year: 1999 });
+    assert.deepEqual(parseReleaseName('[Group] Title [2019][1080p].mkv'), { title: 'Title', year: 2019 });
+  });
+
+  it('提取 SxxEyy 和 1x02 格式的季集', () => {
+    assert.deepEqual(parseReleaseName('Breaking.Bad.S05E14.720p.HDTV.x264.mkv'), {
+      title: 'Breaking Bad',
+      season: 5,
+      episode: 14,
+    });
+    assert.deepEqual(parseReleaseName('Title 1x02.mkv'), { title: 'Title', season: 1, episode: 2 });
+  });
+
+  it('提取多集文件的集数范围', () => {
+    const expected = { title: 'Show Name', season: 1, episode: 1, episodeEnd: 2 };
+    assert.deepEqual(parseReleaseName('Show.Name.S01E01-E02.1080p.WEB-DL.mkv'), expected);
+    assert.deepEqual(parseReleaseName('Show.Name.S01E01E02.mkv'), expected);
+    assert.deepEqual(parseReleaseName('Show Name S02E03-05.mkv'), { title: 'Show Name', season: 2, episode: 3, episodeEnd: 5 });
+    // 分辨率不作为结束集号
+    assert.deepEqual(parseReleaseName('Show Name S01E01-1080.mkv'), { title: 'Show Name', season: 1, episode: 1 });
+  });
+
+  it('提取动画的绝对集数', () => {
+    assert.deepEqual(parseReleaseName('[SubsPlease] One Piece - 1071 (1080p) [ABCD1234].mkv'), {
+      title: 'One Piece',
+      episode: 1071,
+    });
+    assert.deepEqual(parseReleaseName('[Group] Frieren [05][1080p].mkv'), { title: 'Frieren', episode: 5 });
+    // 标题尾部的季号
+    assert.deepEqual(parseReleaseName('[Group] Title 2nd Season - 03 [1080p].mkv'), { title: 'Title', season: 2, episode: 3 });
+  });
+
+  it('特别篇的季号为 0', () => {
+    assert.deepEqual(parseReleaseName('Show.Name.S00E03.mkv'), { title: 'Show Name', season: 0, episode: 3 });
+    assert.deepEqual(parseReleaseName('[Group] Title OVA 2 [1080p].mkv'), { title: 'Title', season: 0, episode: 2 });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview 媒体信息读取测试
+ * @description fixtures 中的 MKV/MP4 只包含容器头部，媒体数据为空
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { probeMediaFile } from '@/utils/mediaProbe';
+
+const FIXTURES = path.join(__dirname, '../fixtures/probe');
+
+describe('probeMediaFile', () => {
+  // Segment 大小未知，Chapters 和 Attachments 位于 Cluster 之后，经两级 SeekHead 定位
+  it('读取 MKV 的时长、轨道、章节和附件', async () => {
+    const result = await probeMediaFile(path.join(FIXTURES, 'sample.mkv'));
+
+    assert.ok(result);
+    assert.equal(result.container, 'matroska');
+    assert.equal(result.duration, 1440.5);
+    assert.equal(result.width, 1920);
+    assert.equal(result.height, 1080);
+    assert.deepEqual(result.tracks, [
+      // 未指定 Language 时为 eng
+      { type: 'video', codec: 'hevc', language: 'eng', name: null, default: true, forced: false, width: 1920, height: 1080, hdr: 'DV HDR10' },
+      { type: 'audio', codec: 'flac', language: 'jpn', name: 'Stereo', default: true, forced: false, channels: 2, sampleRate: 48000 },
+      // LanguageBCP47 优先于 Language
+      { type: 'subtitle', codec: 'ass', language: 'zh-Hans', name: '简体中文', default: false, forced: true },
+    ]);
+    // 读取默认版本，忽略隐藏章节并按开始时间排序
+    assert.deepEqual(result.chapters, [
+      { start: 0, title: 'Opening' },
+      { start: 90, title: 'Part A' },
+    ]);
+    assert.deepEqual(result.attachments, [{ name: 'font.ttf', mimeType: 'font/ttf', size: 32 }]);
+  });
+
+  // mdat 使用 64 位大小，moov 位于 mdat 之后
+  it('读取 MP4 的时长、轨道、章节和封面', async () => {
+    const result = await probeMediaFile(path.join(FIXTURES, 'sample.mp4'));
+
+    assert.ok(result);
+    assert.equal(result.container, 'mp4');
+    assert.equal(result.duration, 1500.5);
+    assert.equal(result.width, 3840);
+    assert.equal(result.height, 2160);
+    assert.deepEqual(result.tracks, [
+      { type: 'video', codec: 'hevc', language: null, name: null, default: true, forced: false, width: 3840, height: 2160, hdr: 'HDR10' },
+      { type: 'audio', codec: 'aac', language: 'jpn', name: null, default: true, forced: false, channels: 6, sampleRate: 48000 },
+      // elng 优先于 mdhd 的语言，被 tref/chap 引用的章节文本轨道不作为字幕
+      { type: 'subtitle', codec: 'mov_text', language: 'en-US', name: null, default: false, forced: false },
+    ]);
+    assert.deepEqual(result.chapters, [
+      { start: 0, title: 'Opening' },
+      { start: 300, title: 'Part A' },
+    ]);
+    assert.deepEqual(result.attachments, [{ name: 'cover.jpg', mimeType: 'image/jpeg', size: 10 }]);
+  });
+
+  it('不支持的格式返回 null', async () => {
+    assert.equal(await probeMediaFile(__filename), null);
+  });
+
+  it('文件不存在时返回 null', async () => {
+    assert.equal(await probeMediaFile(path.join(FIXTURES, 'missing.mkv')), null);
+  });
+});